@@ -13,7 +13,9 @@
 import { Module } from '@nestjs/common';
 import { AchievementsController } from './controllers/achievements.controller';
 import { AchievementsService } from './services/achievements.service';
+import { GamificationEngineService } from './services/gamification-engine.service';
 import { RepositoriesModule } from '../repositories/repositories.module';
+import { ActivityModule } from '../common/activity.module';
 
 /**
  * Module de gamification et achievements pour O'Ypunu
@@ -56,15 +58,18 @@ import { RepositoriesModule } from '../repositories/repositories.module';
 @Module({
   imports: [
     RepositoriesModule, // Accès aux repositories pour calcul des métriques
+    ActivityModule, // Historique d'activité utilisé par le moteur XP
   ],
   controllers: [
     AchievementsController, // API REST complète pour les achievements
   ],
   providers: [
     AchievementsService, // Logique métier et calculs de progression
+    GamificationEngineService, // XP, niveaux et streaks
   ],
   exports: [
     AchievementsService, // Service disponible pour d'autres modules
+    GamificationEngineService, // Attribution d'XP par les autres modules
   ],
 })
 export class AchievementsModule {}
\ No newline at end of file
@@ -22,6 +22,7 @@ import { Injectable, Inject } from "@nestjs/common";
 import { IUserRepository } from "../../repositories/interfaces/user.repository.interface";
 import { IWordRepository } from "../../repositories/interfaces/word.repository.interface";
 import { IWordViewRepository } from "../../repositories/interfaces/word-view.repository.interface";
+import { IQuizAttemptRepository } from "../../repositories/interfaces/quiz-attempt.repository.interface";
 import { DatabaseErrorHandler } from "../../common/errors"
 
 /**
@@ -147,6 +148,7 @@ export class AchievementsService {
    * @param {IUserRepository} userRepository - Repository des utilisateurs
    * @param {IWordRepository} wordRepository - Repository des mots
    * @param {IWordViewRepository} wordViewRepository - Repository des vues de mots
+   * @param {IQuizAttemptRepository} quizAttemptRepository - Repository des tentatives de quiz
    *
    * @example
    * ```typescript
@@ -162,7 +164,9 @@ export class AchievementsService {
     @Inject("IUserRepository") private readonly userRepository: IUserRepository,
     @Inject("IWordRepository") private readonly wordRepository: IWordRepository,
     @Inject("IWordViewRepository")
-    private readonly wordViewRepository: IWordViewRepository
+    private readonly wordViewRepository: IWordViewRepository,
+    @Inject("IQuizAttemptRepository")
+    private readonly quizAttemptRepository: IQuizAttemptRepository
   ) {
     this.initializeAchievements();
   }
@@ -270,6 +274,32 @@ export class AchievementsService {
       rarity: 0.3,
     });
 
+    // Achievements d'apprentissage
+    this.achievements.set("quiz-regular", {
+      id: "quiz-regular",
+      name: "Habitué des Quiz",
+      description: "Terminer 25 quiz",
+      category: "learning",
+      difficulty: "silver",
+      icon: "📝",
+      points: 100,
+      requirements: { type: "quizzes_completed", target: 25 },
+      rarity: 14.2,
+    });
+
+    // Achievements d'apprentissage
+    this.achievements.set("flawless", {
+      id: "flawless",
+      name: "Sans Faute",
+      description: "Réussir 10 quiz sans aucune erreur",
+      category: "learning",
+      difficulty: "gold",
+      icon: "🎓",
+      points: 250,
+      requirements: { type: "perfect_quizzes", target: 10 },
+      rarity: 4.6,
+    });
+
     // Achievements jalons
     this.achievements.set("veteran", {
       id: "veteran",
@@ -1158,6 +1188,12 @@ export class AchievementsService {
         const langStats =
           await this.wordRepository.getUserLanguageStats(userId);
         return langStats.length;
+      case "quizzes_completed":
+        return this.quizAttemptRepository.countCompleted(userId);
+      case "perfect_quizzes":
+        return this.quizAttemptRepository.countCompleted(userId, {
+          perfectOnly: true,
+        });
       default:
         return 0;
     }
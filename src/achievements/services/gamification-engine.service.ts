@@ -260,6 +260,7 @@ export class GamificationEngineService {
     CATEGORY_EXPLORED: 10,
     STREAK_MILESTONE: 50,
     QUIZ_COMPLETED: 20,
+    STUDY_REVIEW: 2,
 
     // Special
     FIRST_OF_DAY: 20,
@@ -1048,6 +1049,7 @@ export class GamificationEngineService {
       "WORD_VIEWED",
       "CATEGORY_EXPLORED",
       "QUIZ_COMPLETED",
+      "STUDY_REVIEW",
     ];
 
     if (contributionActions.includes(action)) return "word_creation";
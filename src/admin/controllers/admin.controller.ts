@@ -322,7 +322,8 @@ export class AdminController {
       body.suspend,
       body.reason,
       body.suspendUntil,
-      req.user.role
+      req.user.role,
+      req.user.userId || req.user._id
     );
   }
 
@@ -510,7 +511,8 @@ export class AdminController {
       wordId,
       body.action,
       body.reason,
-      req.user.role
+      req.user.role,
+      req.user.userId || req.user._id
     );
   }
 
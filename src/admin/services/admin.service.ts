@@ -399,6 +399,7 @@ export class AdminService {
    * @param {string} [reason] - Raison de la suspension (recommandée)
    * @param {Date} [suspendUntil] - Date d'expiration de la suspension (optionnelle)
    * @param {UserRole} [userRole] - Rôle de l'utilisateur effectuant l'action
+   * @param {string} [actorId] - Administrateur effectuant l'action (pour les appels)
    * @returns {Promise<{success: boolean; message: string}>} Résultat de l'opération
    * @throws {ForbiddenException} Si rôle insuffisant ou tentative de suspension d'un superadmin
    * @throws {NotFoundException} Si l'utilisateur n'existe pas
@@ -435,7 +436,8 @@ export class AdminService {
     suspend: boolean,
     reason?: string,
     suspendUntil?: Date,
-    userRole?: UserRole
+    userRole?: UserRole,
+    actorId?: string
   ): Promise<{ success: boolean; message: string }> {
     this.checkPermission(userRole || UserRole.USER, UserRole.ADMIN);
 
@@ -453,6 +455,8 @@ export class AdminService {
       isSuspended: suspend,
       suspensionReason: suspend ? reason : undefined,
       suspendedUntil: suspend ? suspendUntil : undefined,
+      suspendedBy: suspend ? actorId : undefined,
+      suspendedAt: suspend ? new Date() : undefined,
     };
 
     await this.userModel.findByIdAndUpdate(userId, updateData);
@@ -609,6 +613,7 @@ export class AdminService {
    * @param {"approve" | "reject"} action - Action de modération à effectuer
    * @param {string} [reason] - Raison de la décision (recommandée pour les rejets)
    * @param {UserRole} [userRole] - Rôle de l'utilisateur effectuant la modération
+   * @param {string} [moderatorId] - Auteur de la décision (exclu de l'examen d'un appel)
    * @returns {Promise<{success: boolean; message: string}>} Résultat de l'opération de modération
    * @throws {ForbiddenException} Si rôle insuffisant (minimum CONTRIBUTOR)
    * @throws {NotFoundException} Si le mot n'existe pas
@@ -642,7 +647,8 @@ export class AdminService {
     wordId: string,
     action: "approve" | "reject",
     reason?: string,
-    userRole?: UserRole
+    userRole?: UserRole,
+    moderatorId?: string
   ): Promise<{ success: boolean; message: string }> {
     this.checkPermission(userRole || UserRole.USER, UserRole.CONTRIBUTOR);
 
@@ -656,6 +662,8 @@ export class AdminService {
       status,
       moderationReason: reason,
       moderatedAt: new Date(),
+      moderatedBy: moderatorId,
+      previousStatus: word.status,
     });
 
     return {
@@ -36,6 +36,11 @@ import { ModerationModule } from "./moderation/moderation.module";
 import { SearchModule } from "./search/search.module";
 import { AchievementsModule } from "./achievements/achievements.module";
 import { SocialModule } from "./social/social.module";
+import { CorpusModule } from "./corpus/corpus.module";
+import { StudyModule } from "./study/study.module";
+import { QuizModule } from "./quiz/quiz.module";
+import { OfflineModule } from "./offline/offline.module";
+import { RealtimeModule } from "./realtime/realtime.module";
 import { ActivityTrackingMiddleware } from "./common/middleware/activity-tracking.middleware";
 // import { LessonsModule } from './lessons/lessons.module';
 
@@ -67,7 +72,9 @@ import { ActivityTrackingMiddleware } from "./common/middleware/activity-trackin
  * ### 🤝 Fonctionnalités sociales
  * - **CommunitiesModule** : Communautés linguistiques avec forums
  * - **MessagingModule** : Système de messagerie temps réel avec WebSocket
+ * - **RealtimeModule** : Diffusion WebSocket et présence partagées entre instances
  * - **SocialModule** : Interactions sociales (likes, partages, commentaires)
+ * - **CorpusModule** : Corpus d'exemples glosés reliés au dictionnaire
  * 
  * ### 🧠 Intelligence artificielle
  * - **RecommendationsModule** : Recommandations personnalisées avec ML
@@ -76,6 +83,9 @@ import { ActivityTrackingMiddleware } from "./common/middleware/activity-trackin
  * 
  * ### 🎮 Engagement utilisateur
  * - **AchievementsModule** : Système de badges et gamification
+ * - **StudyModule** : Révision espacée des favoris et du dictionnaire
+ * - **QuizModule** : Quiz et exercices générés depuis le dictionnaire
+ * - **OfflineModule** : Paquets hors ligne et synchronisation mobile
  * - **ActivityModule** : Tracking d'activité pour personnalisation
  * - **ModerationModule** : Modération communautaire et signalements
  * 
@@ -150,6 +160,7 @@ import { ActivityTrackingMiddleware } from "./common/middleware/activity-trackin
     //   },
     //   inject: [ConfigService],
     // }),
+    RealtimeModule,
     SecurityModule,
     AuthModule,
     UsersModule,
@@ -168,6 +179,10 @@ import { ActivityTrackingMiddleware } from "./common/middleware/activity-trackin
     SearchModule,         // 🔍 Recherche avancée avec suggestions
     AchievementsModule,   // 🏆 Système de badges et gamification
     SocialModule,         // 👥 Fonctionnalités sociales (likes, partages, commentaires)
+    CorpusModule,         // 📚 Corpus de textes glosés (IGT)
+    StudyModule,          // 🧠 Révision espacée des mots
+    QuizModule,           // 📝 Quiz générés depuis le dictionnaire
+    OfflineModule,        // 📱 Paquets hors ligne pour mobile
     // LessonsModule,
   ],
   controllers: [AppController],
@@ -68,6 +68,14 @@ export enum AuditAction {
   /** Rejet mot par modérateur */
   WORD_REJECT = 'word_reject',
 
+  // === APPELS DE MODÉRATION ===
+  /** Appel d'une décision déposé par l'utilisateur concerné */
+  APPEAL_FILE = 'appeal_file',
+  /** Décision maintenue en appel */
+  APPEAL_UPHOLD = 'appeal_uphold',
+  /** Décision annulée en appel et état antérieur rétabli */
+  APPEAL_OVERTURN = 'appeal_overturn',
+
   // === ADMINISTRATION ET SÉCURITÉ ===
   /** Accès à l'interface admin */
   ADMIN_ACCESS = 'admin_access',
@@ -0,0 +1,178 @@
+#!/usr/bin/env node
+
+/**
+ * @fileoverview CLI d'import en masse de lexiques pour O'Ypunu
+ *
+ * Pendant en ligne de commande de `POST /words-import/*` : simulation par
+ * défaut (rapport sans écriture), import validé avec `--commit` et
+ * annulation d'un lot avec `rollback`. Pratique pour numériser des
+ * dictionnaires papier volumineux sans passer par l'API.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ *
+ * ## Usage:
+ * ```bash
+ * npm run import:words -- lexique.csv --language fan              # Simulation
+ * npm run import:words -- lexique.lift --user <userId> --commit   # Import
+ * npm run import:words -- rollback <batchId> --user <userId>      # Annulation
+ * ```
+ *
+ * ## Options:
+ * - `--format csv|json|lift` - Format (déduit de l'extension si absent)
+ * - `--language <code>` - Langue ISO 639 des entrées qui n'en précisent pas
+ * - `--pos <partie du discours>` - Partie du discours par défaut
+ * - `--user <userId>` - Auteur de l'import (requis avec `--commit` et `rollback`)
+ * - `--commit` - Créer réellement les mots (statut `pending`)
+ *
+ * ## Variables d'environnement requises:
+ * - `MONGODB_URI` - URI de connexion MongoDB
+ */
+
+import { NestFactory } from '@nestjs/core';
+import { Logger } from '@nestjs/common';
+import { readFile } from 'fs/promises';
+import { basename } from 'path';
+import { AppModule } from '../app.module';
+import { WordImportService } from '../dictionary/services/word-import/word-import.service';
+import {
+  WORD_IMPORT_FORMATS,
+  WordImportFormat,
+  WordImportReport,
+} from '../dictionary/services/word-import/word-import.types';
+
+/**
+ * Sépare les arguments positionnels des options `--nom valeur`
+ */
+function parseArgs(argv: string[]): {
+  positional: string[];
+  flags: Record<string, string | boolean>;
+} {
+  const positional: string[] = [];
+  const flags: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+    } else if (arg === '--commit') {
+      flags.commit = true;
+    } else {
+      flags[arg.slice(2)] = argv[++i] ?? '';
+    }
+  }
+  return { positional, flags };
+}
+
+/**
+ * Affiche le rapport d'import de façon lisible
+ */
+function printReport(logger: Logger, report: WordImportReport): void {
+  const { summary } = report;
+  logger.log(
+    `📊 ${summary.total} entrée(s) : ${summary.toCreate} à créer, ` +
+      `${summary.duplicates} doublon(s), ${summary.errors} erreur(s)`,
+  );
+  for (const duplicate of report.duplicates) {
+    logger.warn(
+      `  ↺ #${duplicate.line} "${duplicate.word}" (${duplicate.language}) existe déjà : ${duplicate.existingWordId}`,
+    );
+  }
+  for (const error of report.errors) {
+    logger.error(`  ✗ #${error.line} ${error.word ? `"${error.word}" ` : ''}${error.message}`);
+  }
+  for (const warning of report.warnings) {
+    logger.warn(`  ⚠ #${warning.line} ${warning.message}`);
+  }
+  if (report.dryRun) {
+    logger.log('💡 Simulation uniquement : relancez avec --commit pour importer');
+  } else if (report.batchId) {
+    logger.log(`✅ ${summary.created} mot(s) créé(s) en attente de modération`);
+    logger.log(`🏷️ Lot : ${report.batchId}`);
+  } else {
+    logger.log('ℹ️ Aucun mot importé');
+  }
+}
+
+/**
+ * Point d'entrée du CLI d'import
+ *
+ * @async
+ * @function bootstrap
+ */
+async function bootstrap() {
+  const logger = new Logger('ImportWordsCLI');
+  const { positional, flags } = parseArgs(process.argv.slice(2));
+  const userId = typeof flags.user === 'string' ? flags.user : undefined;
+
+  if (positional.length === 0) {
+    logger.log('📖 Usage du CLI d\'import:');
+    logger.log('');
+    logger.log('  npm run import:words -- <fichier> [--format csv|json|lift] [--language <code>] [--pos <pos>]');
+    logger.log('  npm run import:words -- <fichier> --user <userId> --commit');
+    logger.log('  npm run import:words -- rollback <batchId> --user <userId>');
+    process.exit(1);
+  }
+
+  const app = await NestFactory.create(AppModule, {
+    logger: false,
+  });
+  const importService = app.get(WordImportService);
+
+  try {
+    if (positional[0] === 'rollback') {
+      const batchId = positional[1];
+      if (!batchId || !userId) {
+        throw new Error('Usage : rollback <batchId> --user <userId>');
+      }
+      // Opération d'exploitation : exécutée avec les droits administrateur
+      const result = await importService.rollback(batchId, {
+        _id: userId,
+        role: 'superadmin',
+      });
+      logger.log(
+        `✅ Lot ${result.batchId} annulé : ${result.deleted} mot(s) supprimé(s), ` +
+          `${result.kept} déjà approuvé(s) conservé(s)`,
+      );
+      return;
+    }
+
+    const filePath = positional[0];
+    const format = (flags.format as WordImportFormat) ||
+      WordImportService.detectFormat(filePath);
+    if (!format || !WORD_IMPORT_FORMATS.includes(format)) {
+      throw new Error(`Format indéterminé : utilisez --format ${WORD_IMPORT_FORMATS.join('|')}`);
+    }
+
+    const content = await readFile(filePath, 'utf8');
+    const options = {
+      format,
+      fileName: basename(filePath),
+      defaultLanguageCode:
+        typeof flags.language === 'string' ? flags.language.toLowerCase() : undefined,
+      defaultPartOfSpeech:
+        typeof flags.pos === 'string' ? flags.pos.toLowerCase() : undefined,
+    };
+
+    if (flags.commit) {
+      if (!userId) {
+        throw new Error('--user <userId> est requis avec --commit');
+      }
+      logger.log(`📥 Import de ${filePath} (${format})...`);
+      printReport(logger, await importService.import(content, options, userId));
+    } else {
+      logger.log(`🔍 Simulation de l'import de ${filePath} (${format})...`);
+      printReport(logger, await importService.preview(content, options));
+    }
+  } catch (error) {
+    logger.error('❌ Erreur lors de l\'import:', error.message);
+    if (process.env.NODE_ENV === 'development') {
+      console.error(error.stack);
+    }
+    process.exitCode = 1;
+  } finally {
+    await app.close();
+  }
+}
+
+bootstrap();
@@ -16,6 +16,7 @@
  * ```bash
  * npm run migrate:up         # Exécuter toutes les migrations
  * npm run migrate:indexes    # Exécuter seulement la migration des indexes
+ * npm run migrate:search-keys # Recalculer les clés de recherche des mots
  * npm run migrate:down       # Rollback toutes les migrations
  * npm run migrate:status     # Vérifier le statut des migrations
  * npm run migrate:force      # Forcer l'exécution des migrations
@@ -69,6 +70,14 @@ async function bootstrap() {
         logger.log('✅ Migration des indexes exécutée avec succès');
         break;
 
+      case 'search-keys':
+      case '--search-keys': {
+        logger.log('🔤 Remplissage des clés de recherche des mots...');
+        const searchKeysResult = await migrationService.runWordSearchKeysMigration();
+        logger.log(`✅ ${searchKeysResult.updated}/${searchKeysResult.processed} mots mis à jour`);
+        break;
+      }
+
       case 'down':
       case '--down':
         logger.log('🔄 Rollback de toutes les migrations...');
@@ -94,6 +103,7 @@ async function bootstrap() {
         logger.log('');
         logger.log('  npm run migrate:up      - Exécuter toutes les migrations');
         logger.log('  npm run migrate:indexes - Exécuter la migration des indexes');
+        logger.log('  npm run migrate:search-keys - Recalculer les clés de recherche des mots');
         logger.log('  npm run migrate:down    - Rollback toutes les migrations');
         logger.log('  npm run migrate:status  - Vérifier le statut des migrations');
         logger.log('  npm run migrate:force   - Forcer l\'exécution des migrations');
@@ -88,7 +88,7 @@ export class ActivityController {
       return {
         message: 'Activité de test créée avec succès',
         activity: testActivity,
-        connectedClients: this.activityGateway.getConnectedClientsCount(),
+        connectedClients: await this.activityGateway.getConnectedClientsCount(),
       };
     } catch (error) {
       return {
@@ -108,7 +108,7 @@ export class ActivityController {
 
       return {
         message: 'Activité de test diffusée avec succès',
-        connectedClients: this.activityGateway.getConnectedClientsCount(),
+        connectedClients: await this.activityGateway.getConnectedClientsCount(),
         timestamp: new Date().toISOString(),
       };
     } catch (error) {
@@ -143,7 +143,7 @@ export class ActivityController {
           totalRecentActivities: recentActivities.length,
           wordCreatedCount: wordCreatedActivities.length,
           translationCount: translationActivities.length,
-          connectedClients: this.activityGateway.getConnectedClientsCount(),
+          connectedClients: await this.activityGateway.getConnectedClientsCount(),
         },
         recentActivities: recentActivities.slice(0, 3),
         timestamp: new Date().toISOString(),
@@ -27,6 +27,7 @@ import { ActivityService } from "../services/activity.service";
 import { ActivityFeed } from "../schemas/activity-feed.schema";
 import { ILanguageRepository } from "../../repositories/interfaces/language.repository.interface";
 import { DatabaseErrorHandler } from "../errors";
+import { PresenceService } from "../../realtime/services/presence.service";
 
 /**
  * Interface pour socket d'activité avec métadonnées utilisateur
@@ -133,7 +134,10 @@ export class ActivityGateway
   /** Logger spécialisé pour le gateway d'activités */
   private readonly logger = new Logger(ActivityGateway.name);
 
-  /** Map des clients connectés avec métadonnées enrichies */
+  /**
+   * Map des clients connectés à cette instance ; les statistiques portent
+   * sur les connexions de toutes les instances (PresenceService)
+   */
   private connectedClients = new Map<string, ActivitySocket>();
 
   /** Cache des noms de langues pour optimisation performance */
@@ -159,11 +163,13 @@ export class ActivityGateway
    * @constructor
    * @param {ActivityService} activityService - Service de gestion des activités
    * @param {ILanguageRepository} languageRepository - Repository des langues pour cache
+   * @param {PresenceService} presenceService - Connexions partagées entre instances
    */
   constructor(
     private readonly activityService: ActivityService,
     @Inject("ILanguageRepository")
-    private languageRepository: ILanguageRepository
+    private languageRepository: ILanguageRepository,
+    private readonly presenceService: PresenceService
   ) {
     // Initialiser le cache des langues au démarrage
     this.initializeLanguageCache();
@@ -197,9 +203,13 @@ export class ActivityGateway
       // Enrichir les métadonnées client depuis les headers/auth
       await this.enrichClientMetadata(client);
 
-      // Ajouter à la map des clients connectés
+      // Ajouter aux clients connectés de l'instance et du cluster
       this.connectedClients.set(client.id, client);
       client.lastActivity = new Date();
+      await this.presenceService.trackConnection("activities", client.id, {
+        userRegion: client.userRegion,
+        preferredLanguages: client.preferredLanguages,
+      });
 
       this.logger.log(
         `🟢 Client connecté aux activités: ${client.id} (${client.username || "Anonyme"})`
@@ -209,7 +219,7 @@ export class ActivityGateway
       await this.sendPersonalizedRecentActivities(client);
 
       // Mettre à jour et diffuser les statistiques de connexion
-      this.updateConnectionStats();
+      await this.updateConnectionStats();
       this.broadcastConnectionStats();
     } catch (error) {
       this.logger.error("Erreur lors de la connexion:", error);
@@ -237,8 +247,13 @@ export class ActivityGateway
     );
 
     // Mettre à jour et diffuser les nouvelles statistiques
-    this.updateConnectionStats();
-    this.broadcastConnectionStats();
+    try {
+      await this.presenceService.untrackConnection("activities", client.id);
+      await this.updateConnectionStats();
+      this.broadcastConnectionStats();
+    } catch (error) {
+      this.logger.error("Erreur lors de la déconnexion:", error);
+    }
   }
 
   @SubscribeMessage("activities:request_recent")
@@ -309,7 +324,7 @@ export class ActivityGateway
       const { activity } = payload;
 
       this.logger.debug(
-        `📡 Diffusion nouvelle activité: ${activity.activityType} par ${activity.username} vers ${this.connectedClients.size} clients`
+        `📡 Diffusion nouvelle activité: ${activity.activityType} par ${activity.username} vers ${this.connectionStats.totalClients} clients`
       );
 
       // Formatter l'activité une seule fois
@@ -344,10 +359,11 @@ export class ActivityGateway
   @OnEvent("activity.stats_updated")
   async handleStatsUpdated(payload: any): Promise<void> {
     // Enrichir les stats avec infos de connexion actuelles
+    await this.updateConnectionStats();
     const enrichedStats = {
       ...payload,
       realTimeData: {
-        connectedUsers: this.connectedClients.size,
+        connectedUsers: this.connectionStats.totalClients,
         activeRegions: Object.keys(this.connectionStats.clientsByRegion).length,
         activeLanguages: Object.keys(this.connectionStats.clientsByLanguage).length,
         lastUpdate: new Date().toISOString()
@@ -355,7 +371,7 @@ export class ActivityGateway
     };
 
     this.server.emit("activities:stats", enrichedStats);
-    this.logger.debug(`📊 Statistiques diffusées vers ${this.connectedClients.size} clients`);
+    this.logger.debug(`📊 Statistiques diffusées vers ${this.connectionStats.totalClients} clients`);
   }
 
   /**
@@ -715,22 +731,27 @@ export class ActivityGateway
   }
 
   /**
-   * Mettre à jour les statistiques de connexion pour analytics
+   * Mettre à jour les statistiques de connexion pour analytics, sur les
+   * clients de toutes les instances
    *
    * @private
+   * @async
    * @method updateConnectionStats
-   * @returns {void}
+   * @returns {Promise<void>}
    */
-  private updateConnectionStats(): void {
+  private async updateConnectionStats(): Promise<void> {
+    const clients = await this.presenceService.listConnections<
+      Pick<ActivitySocket, "userRegion" | "preferredLanguages">
+    >("activities");
     this.connectionStats = {
-      totalClients: this.connectedClients.size,
+      totalClients: clients.length,
       clientsByRegion: {},
       clientsByLanguage: {},
       lastUpdated: new Date(),
     };
 
     // Analyser la répartition des clients connectés
-    for (const client of this.connectedClients.values()) {
+    for (const client of clients) {
       // Par région
       const region = client.userRegion || "unknown";
       this.connectionStats.clientsByRegion[region] =
@@ -773,7 +794,9 @@ export class ActivityGateway
     // Nettoyage toutes les 5 minutes
     this.cleanupInterval = setInterval(
       () => {
-        this.cleanupInactiveConnections();
+        this.cleanupInactiveConnections().catch((error) =>
+          this.logger.error("Erreur lors du nettoyage des connexions:", error)
+        );
       },
       5 * 60 * 1000
     );
@@ -785,10 +808,11 @@ export class ActivityGateway
    * Nettoyer les connexions inactives pour optimiser la mémoire
    *
    * @private
+   * @async
    * @method cleanupInactiveConnections
-   * @returns {void}
+   * @returns {Promise<void>}
    */
-  private cleanupInactiveConnections(): void {
+  private async cleanupInactiveConnections(): Promise<void> {
     const inactivityThreshold = 30 * 60 * 1000; // 30 minutes
     const now = new Date();
     let cleanedCount = 0;
@@ -799,27 +823,30 @@ export class ActivityGateway
         now.getTime() - client.lastActivity.getTime() > inactivityThreshold
       ) {
         this.connectedClients.delete(socketId);
+        await this.presenceService.untrackConnection("activities", socketId);
         cleanedCount++;
       }
     }
 
     if (cleanedCount > 0) {
       this.logger.log(`🧹 Nettoyé ${cleanedCount} connexions inactives`);
-      this.updateConnectionStats();
+      await this.updateConnectionStats();
     }
   }
 
   // ========== MÉTHODES UTILITAIRES POUR TESTS ==========
 
   /**
-   * Obtenir le nombre de clients connectés (pour tests/monitoring)
+   * Obtenir le nombre de clients connectés à toutes les instances (pour
+   * tests/monitoring)
    *
    * @public
+   * @async
    * @method getConnectedClientsCount
-   * @returns {number} Nombre de clients connectés
+   * @returns {Promise<number>} Nombre de clients connectés
    */
-  getConnectedClientsCount(): number {
-    return this.connectedClients.size;
+  async getConnectedClientsCount(): Promise<number> {
+    return (await this.presenceService.listConnections("activities")).length;
   }
 
   /**
@@ -175,6 +175,52 @@ interface CriticalMetricsAlertData {
   recommendations: string[];
 }
 
+/**
+ * Interface pour notification de l'issue d'un appel de modération
+ * 
+ * @interface ModerationAppealDecisionData
+ */
+interface ModerationAppealDecisionData {
+  /** Adresse email de l'auteur de l'appel */
+  to: string;
+  /** Nom d'utilisateur de l'auteur de l'appel */
+  username: string;
+  /** Décision contestée (ex: "le rejet du mot « mbolo »") */
+  decisionLabel: string;
+  /** true si la décision est annulée */
+  overturned: boolean;
+  /** Nom du modérateur ayant examiné l'appel */
+  reviewerName: string;
+  /** Explication du modérateur */
+  resolutionNote?: string;
+}
+
+/**
+ * Interface pour rappel d'un événement de communauté
+ * 
+ * @interface CommunityEventReminderData
+ */
+interface CommunityEventReminderData {
+  /** Adresse email du participant */
+  to: string;
+  /** Nom d'utilisateur du participant */
+  username: string;
+  /** Titre de l'événement */
+  eventTitle: string;
+  /** Nom de la communauté organisatrice */
+  communityName: string;
+  /** Date de début lisible, dans le fuseau de l'événement */
+  startsAt: string;
+  /** Fuseau de l'événement (ex: "Africa/Libreville") */
+  timezone: string;
+  /** Lieu de rendez-vous */
+  location?: string;
+  /** Lien de visioconférence */
+  meetingUrl?: string;
+  /** Page de l'événement */
+  eventUrl: string;
+}
+
 /**
  * Service d'envoi d'emails transactionnels pour O'Ypunu
  * 
@@ -2117,4 +2163,295 @@ export class MailService {
       this._logger.error(`❌ Erreur lors de l'envoi de l'alerte de métriques: ${errorMessage}`);
     }
   }
+
+  async sendModerationAppealDecision(data: ModerationAppealDecisionData) {
+    if (!this._transporter) {
+      this._logger.warn(
+        "Tentative d'envoi d'email alors que le service est désactivé",
+      );
+      return;
+    }
+
+    const frontendUrl = this._configService.get<string>('FRONTEND_URL');
+    const accentColor = data.overturned ? '#059669' : '#dc2626';
+    const backgroundColor = data.overturned ? '#ecfdf5' : '#fef2f2';
+
+    const emailTemplate = `
+    <!DOCTYPE html>
+    <html lang="fr">
+    <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Décision sur votre appel - O'Ypunu</title>
+        <style>
+            body {
+                font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+                line-height: 1.6;
+                color: #333;
+                max-width: 600px;
+                margin: 0 auto;
+                padding: 20px;
+                background-color: #f8f9fa;
+            }
+            .container {
+                background-color: white;
+                border-radius: 10px;
+                padding: 40px;
+                box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+            }
+            .header {
+                text-align: center;
+                margin-bottom: 30px;
+            }
+            .logo {
+                font-size: 2.5em;
+                color: ${accentColor};
+                font-weight: bold;
+                margin-bottom: 10px;
+            }
+            .title {
+                color: #1f2937;
+                font-size: 24px;
+                font-weight: 600;
+                margin-bottom: 20px;
+            }
+            .content {
+                margin-bottom: 30px;
+                color: #4b5563;
+                font-size: 16px;
+            }
+            .info-box {
+                background-color: ${backgroundColor};
+                border-left: 4px solid ${accentColor};
+                padding: 15px;
+                margin: 20px 0;
+                border-radius: 4px;
+            }
+            .action-button {
+                display: inline-block;
+                background: linear-gradient(135deg, #7c3aed 0%, #a855f7 100%);
+                color: white !important;
+                padding: 15px 30px;
+                text-decoration: none;
+                border-radius: 8px;
+                font-weight: 600;
+                font-size: 16px;
+                text-align: center;
+                margin: 20px 0;
+            }
+            .footer {
+                margin-top: 40px;
+                padding-top: 20px;
+                border-top: 1px solid #e5e7eb;
+                font-size: 14px;
+                color: #6b7280;
+                text-align: center;
+            }
+        </style>
+    </head>
+    <body>
+        <div class="container">
+            <div class="header">
+                <div class="logo">⚖️ O'Ypunu</div>
+                <h1 class="title">Décision sur votre appel</h1>
+            </div>
+            
+            <div class="content">
+                <p>Bonjour <strong>${data.username}</strong>,</p>
+                
+                <p>Votre appel concernant ${data.decisionLabel} a été examiné par <strong>${data.reviewerName}</strong>, qui n'avait pas pris la décision initiale.</p>
+                
+                <div class="info-box">
+                    ${
+                      data.overturned
+                        ? '<p><strong>✅ Appel accepté :</strong> la décision est annulée et la situation antérieure a été rétablie.</p>'
+                        : '<p><strong>❌ Appel rejeté :</strong> la décision initiale est maintenue.</p>'
+                    }
+                </div>
+                
+                ${
+                  data.resolutionNote
+                    ? `
+                <div style="background-color: #f9fafb; padding: 15px; border-radius: 6px; margin: 15px 0;">
+                    <p><strong>💬 Explication :</strong></p>
+                    <p style="font-style: italic;">"${data.resolutionNote}"</p>
+                </div>
+                `
+                    : ''
+                }
+                
+                <div style="text-align: center; margin: 30px 0;">
+                    <a href="${frontendUrl}" class="action-button">
+                        🌍 Retourner sur O'Ypunu
+                    </a>
+                </div>
+            </div>
+            
+            <div class="footer">
+                <p>
+                    <strong>O'Ypunu</strong> - Dictionnaire communautaire multilingue<br>
+                    <a href="${frontendUrl}" style="color: #7c3aed;">Visitez notre site</a>
+                </p>
+            </div>
+        </div>
+    </body>
+    </html>
+    `;
+
+    try {
+      await this._transporter.sendMail({
+        from: `"O'Ypunu" <${this._configService.get('MAIL_FROM')}>`,
+        to: data.to,
+        subject: data.overturned
+          ? '⚖️ Votre appel a été accepté'
+          : '⚖️ Décision sur votre appel',
+        html: emailTemplate,
+      });
+      this._logger.log(`✅ Issue d'appel envoyée à ${data.to}`);
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Erreur inconnue';
+      this._logger.error(
+        `❌ Erreur lors de l'envoi de l'issue d'appel: ${errorMessage}`,
+      );
+    }
+  }
+
+  async sendCommunityEventReminder(data: CommunityEventReminderData) {
+    if (!this._transporter) {
+      this._logger.warn(
+        "Tentative d'envoi d'email alors que le service est désactivé",
+      );
+      return;
+    }
+
+    const frontendUrl = this._configService.get<string>('FRONTEND_URL');
+
+    const emailTemplate = `
+    <!DOCTYPE html>
+    <html lang="fr">
+    <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Rappel d'événement - O'Ypunu</title>
+        <style>
+            body {
+                font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+                line-height: 1.6;
+                color: #333;
+                max-width: 600px;
+                margin: 0 auto;
+                padding: 20px;
+                background-color: #f8f9fa;
+            }
+            .container {
+                background-color: white;
+                border-radius: 10px;
+                padding: 40px;
+                box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+            }
+            .header {
+                text-align: center;
+                margin-bottom: 30px;
+            }
+            .logo {
+                font-size: 2.5em;
+                color: #7c3aed;
+                font-weight: bold;
+                margin-bottom: 10px;
+            }
+            .title {
+                color: #1f2937;
+                font-size: 24px;
+                font-weight: 600;
+                margin-bottom: 20px;
+            }
+            .content {
+                margin-bottom: 30px;
+                color: #4b5563;
+                font-size: 16px;
+            }
+            .info-box {
+                background-color: #f5f3ff;
+                border-left: 4px solid #7c3aed;
+                padding: 15px;
+                margin: 20px 0;
+                border-radius: 4px;
+            }
+            .action-button {
+                display: inline-block;
+                background: linear-gradient(135deg, #7c3aed 0%, #a855f7 100%);
+                color: white !important;
+                padding: 15px 30px;
+                text-decoration: none;
+                border-radius: 8px;
+                font-weight: 600;
+                font-size: 16px;
+                text-align: center;
+                margin: 20px 0;
+            }
+            .footer {
+                margin-top: 40px;
+                padding-top: 20px;
+                border-top: 1px solid #e5e7eb;
+                font-size: 14px;
+                color: #6b7280;
+                text-align: center;
+            }
+        </style>
+    </head>
+    <body>
+        <div class="container">
+            <div class="header">
+                <div class="logo">📅 O'Ypunu</div>
+                <h1 class="title">Votre événement approche</h1>
+            </div>
+            
+            <div class="content">
+                <p>Bonjour <strong>${data.username}</strong>,</p>
+                
+                <p>Vous participez à <strong>${data.eventTitle}</strong>, organisé par la communauté <strong>${data.communityName}</strong>.</p>
+                
+                <div class="info-box">
+                    <p><strong>🕒 Début :</strong> ${data.startsAt} (${data.timezone})</p>
+                    ${data.location ? `<p><strong>📍 Lieu :</strong> ${data.location}</p>` : ''}
+                    ${data.meetingUrl ? `<p><strong>🎥 En ligne :</strong> <a href="${data.meetingUrl}" style="color: #7c3aed;">${data.meetingUrl}</a></p>` : ''}
+                </div>
+                
+                <p>Si vous ne pouvez plus venir, pensez à mettre à jour votre réponse : votre place sera proposée à la liste d'attente.</p>
+                
+                <div style="text-align: center; margin: 30px 0;">
+                    <a href="${data.eventUrl}" class="action-button">
+                        📅 Voir l'événement
+                    </a>
+                </div>
+            </div>
+            
+            <div class="footer">
+                <p>
+                    <strong>O'Ypunu</strong> - Dictionnaire communautaire multilingue<br>
+                    <a href="${frontendUrl}" style="color: #7c3aed;">Visitez notre site</a>
+                </p>
+            </div>
+        </div>
+    </body>
+    </html>
+    `;
+
+    try {
+      await this._transporter.sendMail({
+        from: `"O'Ypunu" <${this._configService.get('MAIL_FROM')}>`,
+        to: data.to,
+        subject: `📅 Rappel : ${data.eventTitle}`,
+        html: emailTemplate,
+      });
+      this._logger.log(`✅ Rappel d'événement envoyé à ${data.to}`);
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Erreur inconnue';
+      this._logger.error(
+        `❌ Erreur lors de l'envoi du rappel d'événement: ${errorMessage}`,
+      );
+    }
+  }
 }
@@ -0,0 +1,66 @@
+import { AudioAnalysis } from "./audio-analysis.util";
+
+describe("AudioAnalysis", () => {
+  const sampleRate = 48000;
+
+  function sine(seconds: number, amplitude: number, frequency = 1000) {
+    const samples = new Float32Array(Math.round(seconds * sampleRate));
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] =
+        amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+    }
+    return samples;
+  }
+
+  function withSilence(signal: Float32Array, before: number, after: number) {
+    const samples = new Float32Array(
+      Math.round((before + after) * sampleRate) + signal.length
+    );
+    samples.set(signal, Math.round(before * sampleRate));
+    return samples;
+  }
+
+  it("should measure a -20 dBFS 1 kHz tone at about -23 LUFS", () => {
+    expect(AudioAnalysis.loudness(sine(1, 0.1), sampleRate)).toBeCloseTo(
+      -23,
+      0
+    );
+    expect(
+      AudioAnalysis.loudness(new Float32Array(sampleRate), sampleRate)
+    ).toBeNull();
+  });
+
+  it("should ignore silence when measuring loudness", () => {
+    const tone = sine(5, 0.1);
+
+    expect(
+      AudioAnalysis.loudness(withSilence(tone, 1, 2), sampleRate)
+    ).toBeCloseTo(AudioAnalysis.loudness(tone, sampleRate) as number, 0);
+  });
+
+  it("should trim leading and trailing silence with padding", () => {
+    const samples = withSilence(sine(0.5, 0.2), 0.3, 0.6);
+
+    expect(
+      AudioAnalysis.silenceBounds(samples, sampleRate, { paddingMs: 50 })
+    ).toEqual({ start: 0.25 * sampleRate, end: 0.85 * sampleRate });
+    expect(
+      AudioAnalysis.silenceBounds(new Float32Array(4800), sampleRate)
+    ).toBeNull();
+  });
+
+  it("should cap the normalization gain below the peak ceiling", () => {
+    expect(AudioAnalysis.normalizationGain(-30, 0.1, -16)).toBe(14);
+    expect(AudioAnalysis.normalizationGain(-30, 0.5, -16)).toBeCloseTo(5.02, 2);
+    expect(AudioAnalysis.normalizationGain(null, 0.5, -16)).toBe(0);
+  });
+
+  it("should reduce the waveform to peaks per segment", () => {
+    const samples = new Float32Array([0.1, -0.5, 0.25, 0, -0.125, 0.05]);
+
+    expect(AudioAnalysis.peaks(samples, 3)).toEqual([0.5, 0.25, 0.125]);
+    expect(
+      AudioAnalysis.peaks(AudioAnalysis.applyGain(samples, 6.0206), 3)
+    ).toEqual([1, 0.5, 0.25]);
+  });
+});
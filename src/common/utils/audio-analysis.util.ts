@@ -0,0 +1,249 @@
+/**
+ * Bornes d'un enregistrement une fois les silences retirés (indices
+ * d'échantillons, fin exclue)
+ */
+export interface AudioBounds {
+  start: number;
+  end: number;
+}
+
+type Biquad = { b: [number, number, number]; a: [number, number] };
+
+/** Sonie sous laquelle un bloc est ignoré (BS.1770, porte absolue) */
+const ABSOLUTE_GATE_LUFS = -70;
+/** Écart sous la sonie moyenne au-delà duquel un bloc est ignoré */
+const RELATIVE_GATE_LU = 10;
+
+/**
+ * Analyse de signaux audio mono (échantillons flottants entre -1 et 1)
+ *
+ * Sert au traitement des prononciations : sonie intégrée (ITU-R BS.1770,
+ * pondération K), détection des silences de début et de fin, gain de
+ * normalisation et forme d'onde réduite pour l'affichage.
+ *
+ * @example
+ * const lufs = AudioAnalysis.loudness(samples, 48000); // -23.4
+ * const gain = AudioAnalysis.normalizationGain(lufs, AudioAnalysis.peak(samples), -16);
+ */
+export class AudioAnalysis {
+  /**
+   * Sonie intégrée en LUFS, null pour un signal silencieux
+   *
+   * Blocs de 400 ms avec recouvrement de 75 %, portes absolue (-70 LUFS)
+   * et relative (-10 LU) ; un enregistrement plus court forme un seul bloc.
+   */
+  static loudness(samples: Float32Array, sampleRate: number): number | null {
+    if (!samples.length) {
+      return null;
+    }
+    const weighted = AudioAnalysis.kWeight(samples, sampleRate);
+
+    const blockSize = Math.min(weighted.length, Math.round(0.4 * sampleRate));
+    const step = Math.max(1, Math.round(blockSize / 4));
+    const powers: number[] = [];
+    for (let start = 0; start + blockSize <= weighted.length; start += step) {
+      let sum = 0;
+      for (let i = start; i < start + blockSize; i++) {
+        sum += weighted[i] * weighted[i];
+      }
+      powers.push(sum / blockSize);
+    }
+
+    const toLufs = (power: number) => -0.691 + 10 * Math.log10(power);
+    const mean = (values: number[]) =>
+      values.reduce((total, value) => total + value, 0) / values.length;
+
+    const audible = powers.filter(
+      (power) => power > 0 && toLufs(power) > ABSOLUTE_GATE_LUFS
+    );
+    if (!audible.length) {
+      return null;
+    }
+    const relativeGate = toLufs(mean(audible)) - RELATIVE_GATE_LU;
+    const gated = audible.filter((power) => toLufs(power) > relativeGate);
+    return AudioAnalysis.round(toLufs(mean(gated.length ? gated : audible)), 2);
+  }
+
+  /**
+   * Amplitude crête (0 à 1)
+   */
+  static peak(samples: Float32Array): number {
+    let peak = 0;
+    for (let i = 0; i < samples.length; i++) {
+      peak = Math.max(peak, Math.abs(samples[i]));
+    }
+    return peak;
+  }
+
+  /**
+   * Retire les silences de début et de fin
+   *
+   * Le signal est découpé en fenêtres de 10 ms ; sont conservées celles
+   * entre la première et la dernière dont le niveau RMS dépasse le seuil,
+   * avec une marge de part et d'autre pour ne pas couper les attaques.
+   *
+   * @returns Les bornes conservées, null si tout le signal est sous le seuil
+   */
+  static silenceBounds(
+    samples: Float32Array,
+    sampleRate: number,
+    options: { thresholdDb?: number; paddingMs?: number } = {}
+  ): AudioBounds | null {
+    const threshold = Math.pow(10, (options.thresholdDb ?? -45) / 20);
+    const padding = Math.round(((options.paddingMs ?? 80) / 1000) * sampleRate);
+    const window = Math.max(1, Math.round(0.01 * sampleRate));
+
+    let first = -1;
+    let last = -1;
+    for (let start = 0; start < samples.length; start += window) {
+      const end = Math.min(samples.length, start + window);
+      let sum = 0;
+      for (let i = start; i < end; i++) {
+        sum += samples[i] * samples[i];
+      }
+      if (Math.sqrt(sum / (end - start)) >= threshold) {
+        if (first < 0) {
+          first = start;
+        }
+        last = end;
+      }
+    }
+
+    if (first < 0) {
+      return null;
+    }
+    return {
+      start: Math.max(0, first - padding),
+      end: Math.min(samples.length, last + padding),
+    };
+  }
+
+  /**
+   * Gain (dB) amenant la sonie à la cible sans que la crête dépasse le
+   * plafond ; nul si la sonie est inconnue
+   */
+  static normalizationGain(
+    loudness: number | null,
+    peak: number,
+    targetLufs: number,
+    options: { ceilingDb?: number; maxGainDb?: number } = {}
+  ): number {
+    if (loudness === null || peak <= 0) {
+      return 0;
+    }
+    const headroom = (options.ceilingDb ?? -1) - 20 * Math.log10(peak);
+    const gain = Math.min(
+      targetLufs - loudness,
+      headroom,
+      options.maxGainDb ?? 20
+    );
+    return AudioAnalysis.round(gain, 2);
+  }
+
+  /**
+   * Copie du signal amplifiée de `gainDb`, écrêtée entre -1 et 1
+   */
+  static applyGain(samples: Float32Array, gainDb: number): Float32Array {
+    const factor = Math.pow(10, gainDb / 20);
+    const result = new Float32Array(samples.length);
+    for (let i = 0; i < samples.length; i++) {
+      result[i] = Math.max(-1, Math.min(1, samples[i] * factor));
+    }
+    return result;
+  }
+
+  /**
+   * Forme d'onde réduite : crête de chaque segment, arrondie au millième
+   */
+  static peaks(samples: Float32Array, count = 64): number[] {
+    if (!samples.length) {
+      return [];
+    }
+    const buckets = Math.min(count, samples.length);
+    const result: number[] = [];
+    for (let bucket = 0; bucket < buckets; bucket++) {
+      const start = Math.floor((bucket * samples.length) / buckets);
+      const end = Math.floor(((bucket + 1) * samples.length) / buckets);
+      result.push(
+        AudioAnalysis.round(AudioAnalysis.peak(samples.subarray(start, end)), 3)
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Pondération K : étage en plateau haut (+4 dB vers 1,5 kHz, effet de
+   * la tête) puis filtre passe-haut (38 Hz)
+   */
+  private static kWeight(
+    samples: Float32Array,
+    sampleRate: number
+  ): Float32Array {
+    const shelf = AudioAnalysis.highShelf(1500, 4, Math.SQRT1_2, sampleRate);
+    const highPass = AudioAnalysis.highPass(38, 0.5, sampleRate);
+    return AudioAnalysis.filter(AudioAnalysis.filter(samples, shelf), highPass);
+  }
+
+  private static highShelf(
+    frequency: number,
+    gainDb: number,
+    q: number,
+    sampleRate: number
+  ): Biquad {
+    const A = Math.pow(10, gainDb / 40);
+    const w0 = (2 * Math.PI * frequency) / sampleRate;
+    const cos = Math.cos(w0);
+    const alpha = Math.sin(w0) / (2 * q);
+    const sqrtA = Math.sqrt(A);
+    const a0 = A + 1 - (A - 1) * cos + 2 * sqrtA * alpha;
+    return {
+      b: [
+        (A * (A + 1 + (A - 1) * cos + 2 * sqrtA * alpha)) / a0,
+        (-2 * A * (A - 1 + (A + 1) * cos)) / a0,
+        (A * (A + 1 + (A - 1) * cos - 2 * sqrtA * alpha)) / a0,
+      ],
+      a: [
+        (2 * (A - 1 - (A + 1) * cos)) / a0,
+        (A + 1 - (A - 1) * cos - 2 * sqrtA * alpha) / a0,
+      ],
+    };
+  }
+
+  private static highPass(
+    frequency: number,
+    q: number,
+    sampleRate: number
+  ): Biquad {
+    const w0 = (2 * Math.PI * frequency) / sampleRate;
+    const cos = Math.cos(w0);
+    const alpha = Math.sin(w0) / (2 * q);
+    const a0 = 1 + alpha;
+    return {
+      b: [(1 + cos) / 2 / a0, -(1 + cos) / a0, (1 + cos) / 2 / a0],
+      a: [(-2 * cos) / a0, (1 - alpha) / a0],
+    };
+  }
+
+  private static filter(samples: Float32Array, { b, a }: Biquad): Float32Array {
+    const result = new Float32Array(samples.length);
+    let x1 = 0;
+    let x2 = 0;
+    let y1 = 0;
+    let y2 = 0;
+    for (let i = 0; i < samples.length; i++) {
+      const x = samples[i];
+      const y = b[0] * x + b[1] * x1 + b[2] * x2 - a[0] * y1 - a[1] * y2;
+      result[i] = y;
+      x2 = x1;
+      x1 = x;
+      y2 = y1;
+      y1 = y;
+    }
+    return result;
+  }
+
+  private static round(value: number, decimals: number): number {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+  }
+}
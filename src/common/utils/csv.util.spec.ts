@@ -0,0 +1,46 @@
+import { CsvUtil } from "./csv.util";
+
+describe("CsvUtil", () => {
+  it("should parse rows and quoted fields", () => {
+    const rows = CsvUtil.parse('word,definition\nebo,"Mortier, à piler"\n');
+    expect(rows).toEqual([
+      ["word", "definition"],
+      ["ebo", "Mortier, à piler"],
+    ]);
+  });
+
+  it("should handle escaped quotes and line breaks inside quotes", () => {
+    const rows = CsvUtil.parse('a,"dit ""oui""\nencore"\r\nb,c');
+    expect(rows).toEqual([
+      ["a", 'dit "oui"\nencore'],
+      ["b", "c"],
+    ]);
+  });
+
+  it("should strip the BOM and skip blank lines", () => {
+    const rows = CsvUtil.parse("\ufeffword\n\nebo\n");
+    expect(rows).toEqual([["word"], ["ebo"]]);
+  });
+
+  it("should detect semicolon and tab delimiters", () => {
+    expect(CsvUtil.detectDelimiter("word;definition\nebo;mortier")).toBe(";");
+    expect(CsvUtil.detectDelimiter("word\tdefinition")).toBe("\t");
+    expect(CsvUtil.detectDelimiter("word,definition")).toBe(",");
+    expect(CsvUtil.parse("a;b\nc;d")).toEqual([
+      ["a", "b"],
+      ["c", "d"],
+    ]);
+  });
+
+  it("should format rows and quote fields only when needed", () => {
+    expect(CsvUtil.formatRow(["ebo", "Mortier, à piler", undefined])).toBe(
+      'ebo,"Mortier, à piler",\r\n'
+    );
+    expect(CsvUtil.formatRow(['dit "oui"', "a\nb"])).toBe(
+      '"dit ""oui""","a\nb"\r\n'
+    );
+    expect(CsvUtil.parse(CsvUtil.formatRow(['x "y", z', "w"]))).toEqual([
+      ['x "y", z', "w"],
+    ]);
+  });
+});
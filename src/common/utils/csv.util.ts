@@ -0,0 +1,109 @@
+/**
+ * 📄 UTILITAIRE CSV
+ *
+ * Lecture et écriture de fichiers CSV conformes à la RFC 4180 (champs
+ * entre guillemets, guillemets doublés, retours à la ligne dans les
+ * champs), avec détection automatique du séparateur (virgule,
+ * point-virgule ou tabulation) pour accepter les exports des tableurs
+ * francophones.
+ */
+export class CsvUtil {
+  /** Séparateurs reconnus lors de la détection automatique */
+  static readonly DELIMITERS = [",", ";", "\t"];
+
+  /**
+   * Découpe un contenu CSV en lignes de champs
+   *
+   * @param content - Contenu brut du fichier
+   * @param delimiter - Séparateur (détecté sur la première ligne si absent)
+   * @returns Lignes non vides, chaque ligne étant un tableau de champs
+   */
+  static parse(content: string, delimiter?: string): string[][] {
+    const text = (content || "").replace(/^\ufeff/, "");
+    const separator = delimiter || this.detectDelimiter(text);
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"' && field === "") {
+        inQuotes = true;
+      } else if (char === separator) {
+        row.push(field);
+        field = "";
+      } else if (char === "\n" || char === "\r") {
+        if (char === "\r" && text[i + 1] === "\n") {
+          i++;
+        }
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = "";
+      } else {
+        field += char;
+      }
+    }
+
+    if (field !== "" || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+  }
+
+  /**
+   * Détecte le séparateur le plus fréquent sur la première ligne
+   */
+  static detectDelimiter(content: string): string {
+    const firstLine = (content || "").split(/\r?\n/, 1)[0] || "";
+    let best = this.DELIMITERS[0];
+    let bestCount = 0;
+
+    for (const delimiter of this.DELIMITERS) {
+      const count = firstLine.split(delimiter).length - 1;
+      if (count > bestCount) {
+        best = delimiter;
+        bestCount = count;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Formate une ligne CSV (terminée par CRLF), en citant les champs qui
+   * contiennent le séparateur, des guillemets ou des retours à la ligne
+   */
+  static formatRow(
+    values: Array<string | number | undefined>,
+    delimiter = ","
+  ): string {
+    return (
+      values
+        .map((value) => {
+          const text =
+            value === undefined || value === null ? "" : String(value);
+          return text.includes(delimiter) || /["\r\n]/.test(text)
+            ? `"${text.replace(/"/g, '""')}"`
+            : text;
+        })
+        .join(delimiter) + "\r\n"
+    );
+  }
+}
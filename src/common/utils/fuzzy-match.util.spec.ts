@@ -0,0 +1,34 @@
+import { FuzzyMatcher } from "./fuzzy-match.util";
+
+describe("FuzzyMatcher", () => {
+  it("should compute edit distances", () => {
+    expect(FuzzyMatcher.distance("mbote", "mbote")).toBe(0);
+    expect(FuzzyMatcher.distance("mbote", "mbota")).toBe(1);
+    expect(FuzzyMatcher.distance("mbote", "bote")).toBe(1);
+    expect(FuzzyMatcher.distance("", "abc")).toBe(3);
+  });
+
+  it("should count an adjacent transposition as a single edit", () => {
+    expect(FuzzyMatcher.distance("mbtoe", "mbote")).toBe(1);
+  });
+
+  it("should allow more edits for longer queries", () => {
+    expect(FuzzyMatcher.maxDistanceFor(4)).toBe(1);
+    expect(FuzzyMatcher.maxDistanceFor(7)).toBe(2);
+    expect(FuzzyMatcher.maxDistanceFor(20)).toBe(FuzzyMatcher.MAX_DISTANCE);
+  });
+
+  it("should split text into padded trigrams", () => {
+    expect(FuzzyMatcher.ngrams("ebo")).toEqual([" eb", "ebo", "bo "]);
+    expect(FuzzyMatcher.ngrams("a")).toEqual([" a "]);
+    expect(FuzzyMatcher.ngrams("")).toEqual([]);
+  });
+
+  it("should score trigram similarity between 0 and 1", () => {
+    expect(FuzzyMatcher.ngramSimilarity("mbote", "mbote")).toBe(1);
+    expect(FuzzyMatcher.ngramSimilarity("mbote", "xyz")).toBe(0);
+    const partial = FuzzyMatcher.ngramSimilarity("mbote", "mbota");
+    expect(partial).toBeGreaterThan(0);
+    expect(partial).toBeLessThan(1);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * 🔎 UTILITAIRE DE CORRESPONDANCE APPROXIMATIVE
+ *
+ * Fournit les briques de tolérance aux fautes de frappe utilisées par
+ * les suggestions "vouliez-vous dire" :
+ * - Distance d'édition (Damerau-Levenshtein restreinte : insertion,
+ *   suppression, substitution et transposition de lettres adjacentes)
+ * - Découpage en n-grammes pour la présélection des candidats en base
+ * - Similarité de Dice entre deux ensembles de n-grammes
+ *
+ * Les textes doivent être normalisés au préalable (voir SearchNormalizer).
+ */
+export class FuzzyMatcher {
+  /** Taille des n-grammes utilisés pour l'indexation */
+  static readonly NGRAM_SIZE = 3;
+
+  /** Distance d'édition maximale tolérée, quelle que soit la longueur */
+  static readonly MAX_DISTANCE = 3;
+
+  /**
+   * Calcule la distance d'édition entre deux textes
+   *
+   * @param a - Premier texte
+   * @param b - Second texte
+   * @returns Nombre minimal d'opérations pour passer de `a` à `b`
+   */
+  static distance(a: string, b: string): number {
+    const source = Array.from(a || "");
+    const target = Array.from(b || "");
+
+    if (source.length === 0) return target.length;
+    if (target.length === 0) return source.length;
+
+    // Trois lignes glissantes suffisent pour gérer les transpositions
+    let previousPrevious: number[] = [];
+    let previous = Array.from({ length: target.length + 1 }, (_, j) => j);
+
+    for (let i = 1; i <= source.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= target.length; j++) {
+        const cost = source[i - 1] === target[j - 1] ? 0 : 1;
+        current[j] = Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + cost
+        );
+        if (
+          i > 1 &&
+          j > 1 &&
+          source[i - 1] === target[j - 2] &&
+          source[i - 2] === target[j - 1]
+        ) {
+          current[j] = Math.min(current[j], previousPrevious[j - 2] + 1);
+        }
+      }
+      previousPrevious = previous;
+      previous = current;
+    }
+
+    return previous[target.length];
+  }
+
+  /**
+   * Distance maximale acceptée pour une requête de longueur donnée
+   * (1 faute jusqu'à 5 lettres, 2 jusqu'à 8, puis 3)
+   */
+  static maxDistanceFor(length: number): number {
+    if (length <= 5) return 1;
+    if (length <= 8) return 2;
+    return this.MAX_DISTANCE;
+  }
+
+  /**
+   * Découpe un texte en n-grammes uniques, bornés par des espaces
+   * afin de favoriser les débuts et fins de mots
+   *
+   * @example FuzzyMatcher.ngrams("ebo") // [" eb", "ebo", "bo "]
+   */
+  static ngrams(text: string, size: number = this.NGRAM_SIZE): string[] {
+    if (!text) {
+      return [];
+    }
+
+    const chars = Array.from(` ${text} `);
+    if (chars.length <= size) {
+      return [chars.join("")];
+    }
+
+    const grams = new Set<string>();
+    for (let i = 0; i <= chars.length - size; i++) {
+      grams.add(chars.slice(i, i + size).join(""));
+    }
+    return Array.from(grams);
+  }
+
+  /**
+   * Similarité de Dice entre les n-grammes de deux textes (0 à 1)
+   */
+  static ngramSimilarity(a: string, b: string): number {
+    const gramsA = this.ngrams(a);
+    const gramsB = new Set(this.ngrams(b));
+    if (gramsA.length === 0 || gramsB.size === 0) {
+      return 0;
+    }
+
+    const shared = gramsA.filter((gram) => gramsB.has(gram)).length;
+    return (2 * shared) / (gramsA.length + gramsB.size);
+  }
+}
@@ -0,0 +1,56 @@
+import { ICalendar } from "./icalendar.util";
+
+describe("ICalendar", () => {
+  const now = new Date("2025-03-01T08:00:00.000Z");
+
+  it("should publish events in UTC with escaped text", () => {
+    const feed = ICalendar.build(
+      {
+        name: "Club Yipunu",
+        events: [
+          {
+            uid: "64d000000000000000000001@oypunu.com",
+            start: new Date("2025-03-08T18:00:00.000Z"),
+            end: new Date("2025-03-08T19:30:00.000Z"),
+            summary: "Veillée de contes; saison 1",
+            description: "Apportez vos contes,\nen yipunu ou en français",
+            status: "CANCELLED",
+            sequence: 2,
+          },
+        ],
+      },
+      now
+    );
+    const lines = feed.split("\r\n");
+
+    expect(lines[0]).toBe("BEGIN:VCALENDAR");
+    expect(lines).toContain("DTSTAMP:20250301T080000Z");
+    expect(lines).toContain("DTSTART:20250308T180000Z");
+    expect(lines).toContain("DTEND:20250308T193000Z");
+    expect(lines).toContain("SUMMARY:Veillée de contes\\; saison 1");
+    expect(lines).toContain(
+      "DESCRIPTION:Apportez vos contes\\,\\nen yipunu ou en français"
+    );
+    expect(lines).toContain("SEQUENCE:2");
+    expect(lines).toContain("STATUS:CANCELLED");
+    expect(feed.endsWith("END:VCALENDAR\r\n")).toBe(true);
+  });
+
+  it("should fold long lines without splitting characters", () => {
+    const folded = ICalendar.fold(`SUMMARY:${"é".repeat(60)}`);
+    const segments = folded.split("\r\n");
+
+    expect(segments.length).toBeGreaterThan(1);
+    segments.forEach((segment, index) => {
+      expect(Buffer.byteLength(segment, "utf8")).toBeLessThanOrEqual(75);
+      if (index > 0) {
+        expect(segment.startsWith(" ")).toBe(true);
+      }
+    });
+    expect(
+      segments
+        .map((segment, index) => (index ? segment.slice(1) : segment))
+        .join("")
+    ).toBe(`SUMMARY:${"é".repeat(60)}`);
+  });
+});
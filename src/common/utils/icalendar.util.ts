@@ -0,0 +1,117 @@
+/**
+ * Événement d'un flux iCalendar
+ */
+export interface ICalendarEvent {
+  /** Identifiant stable, ex: "<id>@oypunu.com" */
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  status?: "CONFIRMED" | "CANCELLED";
+  /** Révision de l'événement, incrémentée à chaque modification */
+  sequence?: number;
+  updatedAt?: Date;
+}
+
+/**
+ * Génération de flux iCalendar (RFC 5545) abonnables depuis un agenda
+ *
+ * Les dates sont écrites en UTC : chaque agenda les affiche dans le
+ * fuseau de son utilisateur. Les lignes sont terminées par CRLF et
+ * repliées à 75 octets.
+ *
+ * @example
+ * ICalendar.build({ name: "Club Yipunu", events: [...] })
+ */
+export class ICalendar {
+  static build(
+    calendar: { name: string; description?: string; events: ICalendarEvent[] },
+    now: Date = new Date()
+  ): string {
+    const lines = [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//O'Ypunu//Community Events//FR",
+      "CALSCALE:GREGORIAN",
+      "METHOD:PUBLISH",
+      `X-WR-CALNAME:${ICalendar.escape(calendar.name)}`,
+    ];
+    if (calendar.description) {
+      lines.push(`X-WR-CALDESC:${ICalendar.escape(calendar.description)}`);
+    }
+
+    for (const event of calendar.events) {
+      lines.push(
+        "BEGIN:VEVENT",
+        `UID:${event.uid}`,
+        `DTSTAMP:${ICalendar.formatDate(now)}`,
+        `DTSTART:${ICalendar.formatDate(event.start)}`,
+        `DTEND:${ICalendar.formatDate(event.end)}`,
+        `SUMMARY:${ICalendar.escape(event.summary)}`
+      );
+      if (event.description) {
+        lines.push(`DESCRIPTION:${ICalendar.escape(event.description)}`);
+      }
+      if (event.location) {
+        lines.push(`LOCATION:${ICalendar.escape(event.location)}`);
+      }
+      if (event.url) {
+        lines.push(`URL:${event.url}`);
+      }
+      if (event.updatedAt) {
+        lines.push(`LAST-MODIFIED:${ICalendar.formatDate(event.updatedAt)}`);
+      }
+      lines.push(
+        `SEQUENCE:${event.sequence || 0}`,
+        `STATUS:${event.status || "CONFIRMED"}`,
+        "END:VEVENT"
+      );
+    }
+    lines.push("END:VCALENDAR");
+
+    return lines.map((line) => ICalendar.fold(line)).join("\r\n") + "\r\n";
+  }
+
+  /** Date UTC au format iCalendar, ex: 20250301T180000Z */
+  static formatDate(date: Date): string {
+    return date
+      .toISOString()
+      .replace(/[-:]/g, "")
+      .replace(/\.\d{3}/, "");
+  }
+
+  /** Échappe un texte (antislash, virgule, point-virgule, retours à la ligne) */
+  static escape(text: string): string {
+    return text
+      .replace(/\\/g, "\\\\")
+      .replace(/;/g, "\\;")
+      .replace(/,/g, "\\,")
+      .replace(/\r?\n/g, "\\n");
+  }
+
+  /**
+   * Replie une ligne en segments de 75 octets au plus, sans couper un
+   * caractère UTF-8 ; les suites commencent par une espace
+   */
+  static fold(line: string): string {
+    const segments: string[] = [];
+    let current = "";
+    let currentBytes = 0;
+    for (const char of line) {
+      const bytes = Buffer.byteLength(char, "utf8");
+      const limit = segments.length ? 74 : 75;
+      if (currentBytes + bytes > limit) {
+        segments.push(current);
+        current = "";
+        currentBytes = 0;
+      }
+      current += char;
+      currentBytes += bytes;
+    }
+    segments.push(current);
+    return segments.join("\r\n ");
+  }
+}
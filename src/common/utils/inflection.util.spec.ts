@@ -0,0 +1,125 @@
+import { InflectionGenerator, MorphologyRules } from "./inflection.util";
+
+describe("InflectionGenerator", () => {
+  // Swahili : classes 1/2 et 7/8, présent et négatif
+  const swahili: MorphologyRules = {
+    nounClasses: [
+      { code: "1", prefix: "m", prefixBeforeVowel: "mw", pluralClass: "2" },
+      { code: "2", prefix: "wa", prefixBeforeVowel: "w" },
+      { code: "7", prefix: "ki", prefixBeforeVowel: "ch", pluralClass: "8" },
+      { code: "8", prefix: "vi", prefixBeforeVowel: "vy" },
+    ],
+    verbInfinitivePrefixes: ["ku", "kw"],
+    verbParadigms: [
+      {
+        name: "present",
+        label: "Présent",
+        cells: [
+          { key: "1sg", label: "je", prefix: "nina" },
+          { key: "3pl", label: "ils", prefix: "wana" },
+        ],
+      },
+      {
+        name: "negative",
+        cells: [{ key: "1sg", prefix: "si", finalVowel: "i" }],
+      },
+    ],
+  };
+
+  it("should build the plural from the paired noun class", () => {
+    const [table] = InflectionGenerator.generate(
+      "mtoto",
+      { partOfSpeech: "noun", nounClass: "1" },
+      swahili
+    );
+
+    expect(table.name).toBe("number");
+    expect(table.cells.map((cell) => cell.form)).toEqual(["mtoto", "watoto"]);
+    expect(table.cells[1].label).toBe("pluriel (classe 2)");
+  });
+
+  it("should use vowel allomorphs of class prefixes", () => {
+    const forms = (lemma: string, nounClass: string) =>
+      InflectionGenerator.inflectedForms(
+        lemma,
+        { partOfSpeech: "noun", nounClass },
+        swahili
+      );
+
+    expect(forms("mwalimu", "1")).toEqual(["walimu"]);
+    expect(forms("kitabu", "7")).toEqual(["vitabu"]);
+    expect(forms("chakula", "7")).toEqual(["vyakula"]);
+  });
+
+  it("should prefer attested plurals over generated ones", () => {
+    const [table] = InflectionGenerator.generate(
+      "mtu",
+      { partOfSpeech: "noun", nounClass: "1", pluralForms: ["watu", "wato"] },
+      swahili
+    );
+
+    expect(table.cells[1]).toEqual({
+      key: "pl",
+      label: "pluriel (classe 2)",
+      form: "watu",
+      irregular: true,
+      alternatives: ["wato"],
+    });
+  });
+
+  it("should conjugate verbs from the infinitive stem", () => {
+    const tables = InflectionGenerator.generate(
+      "kusoma",
+      { partOfSpeech: "verb" },
+      swahili
+    );
+
+    expect(
+      InflectionGenerator.stem("kusoma", { partOfSpeech: "verb" }, swahili)
+    ).toBe("soma");
+    expect(tables.map((table) => table.label)).toEqual(["Présent", "negative"]);
+    expect(tables[0].cells.map((cell) => cell.form)).toEqual([
+      "ninasoma",
+      "wanasoma",
+    ]);
+    expect(tables[1].cells[0].form).toBe("sisomi");
+  });
+
+  it("should keep irregular verb forms", () => {
+    const [present] = InflectionGenerator.generate(
+      "kuwa",
+      {
+        partOfSpeech: "verb",
+        irregularForms: [{ paradigm: "present", cell: "1sg", form: "niko" }],
+      },
+      swahili
+    );
+
+    expect(present.cells[0]).toMatchObject({ form: "niko", irregular: true });
+    expect(present.cells[1]).toMatchObject({
+      form: "wanawa",
+      irregular: false,
+    });
+  });
+
+  it("should replace a toned final vowel", () => {
+    const rules: MorphologyRules = {
+      verbParadigms: [{ name: "neg", cells: [{ key: "x", finalVowel: "i" }] }],
+    };
+    const [table] = InflectionGenerator.generate(
+      "dzà",
+      { partOfSpeech: "verb" },
+      rules
+    );
+    expect(table.cells[0].form).toBe("dzi");
+  });
+
+  it("should generate nothing without applicable rules", () => {
+    expect(
+      InflectionGenerator.generate("ebo", { partOfSpeech: "noun" }, {})
+    ).toEqual([]);
+    expect(
+      InflectionGenerator.generate("vite", { partOfSpeech: "adverb" }, swahili)
+    ).toEqual([]);
+  });
+});
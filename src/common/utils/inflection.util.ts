@@ -0,0 +1,285 @@
+/**
+ * Classe nominale d'une langue (système bantou)
+ *
+ * @example { code: "1", prefix: "mu", prefixBeforeVowel: "mw", pluralClass: "2" }
+ */
+export interface NounClassRule {
+  code: string;
+  prefix: string;
+  /** Allomorphe du préfixe devant un radical à initiale vocalique */
+  prefixBeforeVowel?: string;
+  /** Classe du pluriel appariée (1 → 2, 7 → 8...) */
+  pluralClass?: string;
+  label?: string;
+}
+
+/**
+ * Case d'un paradigme verbal : affixes appliqués au radical
+ *
+ * @example { key: "1sg", label: "je", prefix: "nina" }
+ */
+export interface ParadigmCellRule {
+  key: string;
+  label?: string;
+  prefix?: string;
+  prefixBeforeVowel?: string;
+  suffix?: string;
+  /** Remplace la voyelle finale du radical (ex: "i" pour le négatif swahili) */
+  finalVowel?: string;
+}
+
+/**
+ * Paradigme verbal (un temps, un aspect ou un mode)
+ */
+export interface VerbParadigmRule {
+  name: string;
+  label?: string;
+  cells: ParadigmCellRule[];
+}
+
+/**
+ * Règles morphologiques d'une langue
+ */
+export interface MorphologyRules {
+  nounClasses?: NounClassRule[];
+  /** Préfixes d'infinitif retirés pour obtenir le radical verbal ("ku", "ko") */
+  verbInfinitivePrefixes?: string[];
+  verbParadigms?: VerbParadigmRule[];
+}
+
+/**
+ * Traits grammaticaux d'un sens de mot utiles à la flexion
+ */
+export interface LemmaFeatures {
+  partOfSpeech?: string;
+  nounClass?: string;
+  pluralClass?: string;
+  /** Pluriels attestés, prioritaires sur le pluriel généré */
+  pluralForms?: string[];
+  /** Radical explicite, sinon déduit du lemme */
+  stem?: string;
+  /** Formes irrégulières, prioritaires sur les formes générées */
+  irregularForms?: Array<{ paradigm: string; cell: string; form: string }>;
+}
+
+export interface ParadigmCell {
+  key: string;
+  label: string;
+  form: string;
+  /** Forme saisie par un contributeur plutôt que générée */
+  irregular: boolean;
+  alternatives?: string[];
+}
+
+export interface ParadigmTable {
+  name: string;
+  label: string;
+  cells: ParadigmCell[];
+}
+
+/**
+ * 🧬 GÉNÉRATEUR DE FLEXIONS PAR RÈGLES
+ *
+ * Produit les formes fléchies d'un lemme à partir des règles déclarées
+ * sur la langue : classes nominales appariées singulier/pluriel pour les
+ * noms, paradigmes d'affixes pour les verbes. Les formes saisies par les
+ * contributeurs (pluriels, formes irrégulières) l'emportent toujours sur
+ * les formes générées.
+ */
+export class InflectionGenerator {
+  /** Voyelles, comparées sur la forme décomposée (sans diacritiques) */
+  private static readonly VOWEL = /^[aeiouɛɔəɨʉ]/i;
+
+  /**
+   * Radical du lemme : explicite, ou lemme privé de son préfixe de classe
+   * (noms) ou d'infinitif (verbes)
+   */
+  static stem(
+    lemma: string,
+    features: LemmaFeatures,
+    rules: MorphologyRules = {}
+  ): string {
+    if (features.stem) {
+      return features.stem;
+    }
+
+    if (features.partOfSpeech === "noun") {
+      const nounClass = this.findClass(rules, features.nounClass);
+      if (nounClass) {
+        if (nounClass.prefixBeforeVowel) {
+          const rest = this.stripPrefix(lemma, [nounClass.prefixBeforeVowel]);
+          if (rest !== lemma && this.startsWithVowel(rest)) {
+            return rest;
+          }
+        }
+        return this.stripPrefix(lemma, [nounClass.prefix]);
+      }
+    }
+
+    if (features.partOfSpeech === "verb") {
+      return this.stripPrefix(lemma, rules.verbInfinitivePrefixes || []);
+    }
+
+    return lemma;
+  }
+
+  /**
+   * Tables de flexion d'un lemme (vide si la langue ne déclare aucune
+   * règle applicable)
+   */
+  static generate(
+    lemma: string,
+    features: LemmaFeatures,
+    rules: MorphologyRules = {}
+  ): ParadigmTable[] {
+    if (features.partOfSpeech === "noun") {
+      const table = this.nounTable(lemma, features, rules);
+      return table ? [table] : [];
+    }
+
+    if (features.partOfSpeech === "verb") {
+      const stem = this.stem(lemma, features, rules);
+      return (rules.verbParadigms || []).map((paradigm) => ({
+        name: paradigm.name,
+        label: paradigm.label || paradigm.name,
+        cells: paradigm.cells.map((cell) => {
+          const irregular = features.irregularForms?.find(
+            (form) => form.paradigm === paradigm.name && form.cell === cell.key
+          );
+          return {
+            key: cell.key,
+            label: cell.label || cell.key,
+            form: irregular
+              ? irregular.form
+              : this.affix(stem, cell.prefix, cell.prefixBeforeVowel, cell),
+            irregular: !!irregular,
+          };
+        }),
+      }));
+    }
+
+    return [];
+  }
+
+  /**
+   * Toutes les formes fléchies distinctes du lemme, lemme exclu
+   */
+  static inflectedForms(
+    lemma: string,
+    features: LemmaFeatures,
+    rules: MorphologyRules = {}
+  ): string[] {
+    const forms = new Set<string>(features.pluralForms || []);
+    for (const table of this.generate(lemma, features, rules)) {
+      for (const cell of table.cells) {
+        forms.add(cell.form);
+        cell.alternatives?.forEach((form) => forms.add(form));
+      }
+    }
+    forms.delete(lemma);
+    forms.delete("");
+    return Array.from(forms);
+  }
+
+  private static nounTable(
+    lemma: string,
+    features: LemmaFeatures,
+    rules: MorphologyRules
+  ): ParadigmTable | null {
+    const nounClass = this.findClass(rules, features.nounClass);
+    const pluralClass = this.findClass(
+      rules,
+      features.pluralClass || nounClass?.pluralClass
+    );
+    const attested = features.pluralForms?.filter(Boolean) || [];
+
+    if (!nounClass && !attested.length) {
+      return null;
+    }
+
+    const cells: ParadigmCell[] = [
+      {
+        key: "sg",
+        label: nounClass ? `singulier (classe ${nounClass.code})` : "singulier",
+        form: lemma,
+        irregular: false,
+      },
+    ];
+
+    if (attested.length) {
+      cells.push({
+        key: "pl",
+        label: pluralClass ? `pluriel (classe ${pluralClass.code})` : "pluriel",
+        form: attested[0],
+        irregular: true,
+        ...(attested.length > 1 && { alternatives: attested.slice(1) }),
+      });
+    } else if (pluralClass) {
+      cells.push({
+        key: "pl",
+        label: `pluriel (classe ${pluralClass.code})`,
+        form: this.affix(
+          this.stem(lemma, features, rules),
+          pluralClass.prefix,
+          pluralClass.prefixBeforeVowel
+        ),
+        irregular: false,
+      });
+    }
+
+    return { name: "number", label: "Nombre", cells };
+  }
+
+  private static affix(
+    stem: string,
+    prefix = "",
+    prefixBeforeVowel?: string,
+    cell?: Pick<ParadigmCellRule, "suffix" | "finalVowel">
+  ): string {
+    let base = stem;
+    if (cell?.finalVowel !== undefined) {
+      // La voyelle finale remplacée perd ses tons, portés par la règle
+      const bare = base.normalize("NFD").replace(/[\u0300-\u036f]+$/, "");
+      if (this.VOWEL.test(bare.slice(-1))) {
+        base = (bare.slice(0, -1) + cell.finalVowel).normalize("NFC");
+      }
+    }
+    const chosenPrefix =
+      prefixBeforeVowel !== undefined && this.startsWithVowel(base)
+        ? prefixBeforeVowel
+        : prefix;
+    return `${chosenPrefix}${base}${cell?.suffix || ""}`;
+  }
+
+  private static findClass(
+    rules: MorphologyRules,
+    code?: string
+  ): NounClassRule | undefined {
+    if (!code) {
+      return undefined;
+    }
+    return rules.nounClasses?.find((nounClass) => nounClass.code === code);
+  }
+
+  /**
+   * Retire le plus long préfixe présent en tête du lemme
+   */
+  private static stripPrefix(
+    lemma: string,
+    prefixes: Array<string | undefined>
+  ): string {
+    const lower = lemma.toLowerCase();
+    const match = prefixes
+      .filter((prefix): prefix is string => !!prefix)
+      .sort((a, b) => b.length - a.length)
+      .find(
+        (prefix) =>
+          lower.startsWith(prefix.toLowerCase()) && lemma.length > prefix.length
+      );
+    return match ? lemma.slice(match.length) : lemma;
+  }
+
+  private static startsWithVowel(text: string): boolean {
+    return this.VOWEL.test(text.normalize("NFD"));
+  }
+}
@@ -0,0 +1,118 @@
+import {
+  AutoModerationRules,
+  DEFAULT_AUTO_MODERATION_RULES,
+  ModerationRuleEngine,
+} from "./moderation-rules.util";
+
+describe("ModerationRuleEngine", () => {
+  const rules: AutoModerationRules = {
+    ...DEFAULT_AUTO_MODERATION_RULES,
+    bannedTerms: [
+      { language: "fr", terms: ["arnaque", "Crédit facile"], score: 5 },
+      { language: "*", terms: ["casino"], score: 3 },
+    ],
+    links: {
+      ...DEFAULT_AUTO_MODERATION_RULES.links,
+      blockedDomains: ["spam.example"],
+    },
+  };
+
+  it("should allow ordinary content", () => {
+    expect(
+      ModerationRuleEngine.evaluate(rules, {
+        text: "Mbolo signifie bonjour en yipunu.",
+        language: "fr",
+      })
+    ).toEqual({ action: "allow", score: 0, matches: [] });
+  });
+
+  it("should match banned terms as whole words, ignoring case and accents, per language", () => {
+    const verdict = ModerationRuleEngine.evaluate(rules, {
+      text: "Un CREDIT FACILE, pas une arnaque ! Arnaques au casino.",
+      language: "fr",
+    });
+
+    expect(verdict.matches.map((match) => match.detail)).toEqual([
+      "arnaque (fr)",
+      "Crédit facile (fr)",
+      "casino (*)",
+    ]);
+    expect(verdict).toMatchObject({ action: "hide", score: 13 });
+
+    // Liste française ignorée pour une autre langue
+    expect(
+      ModerationRuleEngine.evaluate(rules, { text: "arnaque", language: "en" })
+        .action
+    ).toBe("allow");
+  });
+
+  it("should hide links to blocked domains and flag link-heavy content", () => {
+    const blocked = ModerationRuleEngine.evaluate(rules, {
+      text: "Voir https://promo.spam.example/offre",
+    });
+    expect(blocked.action).toBe("hide");
+    expect(blocked.matches[0]).toMatchObject({
+      rule: "blocked-domain",
+      detail: "promo.spam.example",
+    });
+
+    const links = ModerationRuleEngine.evaluate(rules, {
+      text: "www.a.org http://b.org https://c.org https://d.org",
+    });
+    expect(links).toMatchObject({ action: "flag", score: 5 });
+    expect(links.matches[0].rule).toBe("too-many-links");
+  });
+
+  it("should score repeated characters and shouting", () => {
+    const verdict = ModerationRuleEngine.evaluate(rules, {
+      text: "ACHETEZ MAINTENANT CE DICTIONNAIRE !!!!!!!!",
+    });
+    expect(verdict.matches.map((match) => match.rule)).toEqual([
+      "repeated-chars",
+      "uppercase",
+    ]);
+    expect(verdict).toMatchObject({ action: "flag", score: 6 });
+  });
+
+  it("should throttle new accounts and their links", () => {
+    const verdict = ModerationRuleEngine.evaluate(rules, {
+      text: "Mon site : https://exemple.org",
+      accountAgeHours: 2,
+      recentItemCount: 5,
+    });
+    expect(verdict.matches.map((match) => match.rule)).toEqual([
+      "new-account-rate",
+      "new-account-links",
+    ]);
+    expect(verdict.action).toBe("hide");
+
+    expect(
+      ModerationRuleEngine.evaluate(rules, {
+        text: "Mon site : https://exemple.org",
+        accountAgeHours: 48,
+        recentItemCount: 5,
+      }).action
+    ).toBe("allow");
+  });
+
+  it("should weight reporters by their upheld reports within the bounds", () => {
+    expect(
+      ModerationRuleEngine.reporterWeight(rules, { upheld: 0, dismissed: 0 })
+    ).toBe(1);
+    expect(
+      ModerationRuleEngine.reporterWeight(rules, { upheld: 8, dismissed: 0 })
+    ).toBe(1.8);
+    expect(
+      ModerationRuleEngine.reporterWeight(rules, { upheld: 0, dismissed: 20 })
+    ).toBe(0.25);
+    expect(
+      ModerationRuleEngine.reporterWeight(
+        {
+          ...rules,
+          reporterReputation: { ...rules.reporterReputation, enabled: false },
+        },
+        { upheld: 0, dismissed: 20 }
+      )
+    ).toBe(1);
+  });
+});
@@ -0,0 +1,311 @@
+import { SearchNormalizer } from "./search-normalizer.util";
+
+/**
+ * Liste de termes interdits pour une langue ("*" : toutes les langues)
+ *
+ * @example { language: "fr", terms: ["arnaque"], score: 10 }
+ */
+export interface BannedTermList {
+  language: string;
+  terms: string[];
+  /** Score ajouté par terme trouvé */
+  score: number;
+}
+
+/**
+ * Règles de modération automatique (une version de configuration)
+ */
+export interface AutoModerationRules {
+  bannedTerms: BannedTermList[];
+  links: {
+    enabled: boolean;
+    /** Nombre de liens au-delà duquel le contenu est suspect */
+    maxLinks: number;
+    blockedDomains: string[];
+    score: number;
+  };
+  spam: {
+    enabled: boolean;
+    /** Répétitions consécutives d'un même caractère tolérées */
+    maxRepeatedChars: number;
+    /** Part maximale de majuscules parmi les lettres */
+    maxUppercaseRatio: number;
+    /** Longueur minimale avant d'appliquer le ratio de majuscules */
+    minLengthForCaps: number;
+    score: number;
+  };
+  newAccount: {
+    enabled: boolean;
+    /** Âge en dessous duquel un compte est considéré comme nouveau */
+    minAccountAgeHours: number;
+    /** Contenus publiables par heure par un nouveau compte */
+    maxItemsPerHour: number;
+    /** Score ajouté en cas de dépassement ou de lien publié */
+    score: number;
+  };
+  reporterReputation: {
+    enabled: boolean;
+    minWeight: number;
+    maxWeight: number;
+    /** Poids cumulé des signalements déclenchant le masquage */
+    hideThreshold: number;
+  };
+  thresholds: {
+    /** Score à partir duquel un dossier de modération est ouvert */
+    flag: number;
+    /** Score à partir duquel le contenu est masqué en attendant revue */
+    hide: number;
+  };
+}
+
+export const DEFAULT_AUTO_MODERATION_RULES: AutoModerationRules = {
+  bannedTerms: [],
+  links: { enabled: true, maxLinks: 3, blockedDomains: [], score: 5 },
+  spam: {
+    enabled: true,
+    maxRepeatedChars: 6,
+    maxUppercaseRatio: 0.7,
+    minLengthForCaps: 20,
+    score: 3,
+  },
+  newAccount: {
+    enabled: true,
+    minAccountAgeHours: 24,
+    maxItemsPerHour: 5,
+    score: 5,
+  },
+  reporterReputation: {
+    enabled: true,
+    minWeight: 0.25,
+    maxWeight: 2,
+    hideThreshold: 5,
+  },
+  thresholds: { flag: 5, hide: 10 },
+};
+
+/**
+ * Contenu soumis aux règles, avec le contexte de son auteur
+ */
+export interface ModerationRuleInput {
+  text: string;
+  language?: string;
+  /** Âge du compte de l'auteur, en heures */
+  accountAgeHours?: number;
+  /** Contenus publiés par l'auteur dans l'heure écoulée */
+  recentItemCount?: number;
+}
+
+export interface ModerationRuleMatch {
+  rule:
+    | "banned-term"
+    | "blocked-domain"
+    | "too-many-links"
+    | "repeated-chars"
+    | "uppercase"
+    | "new-account-rate"
+    | "new-account-links";
+  detail: string;
+  score: number;
+}
+
+export interface ModerationVerdict {
+  action: "allow" | "flag" | "hide";
+  score: number;
+  matches: ModerationRuleMatch[];
+}
+
+/**
+ * Moteur d'évaluation des règles de modération automatique
+ *
+ * Chaque règle déclenchée ajoute un score ; le total est comparé aux
+ * seuils `flag` et `hide` de la configuration.
+ */
+export class ModerationRuleEngine {
+  private static readonly URL_PATTERN =
+    /\b(?:https?:\/\/|www\.)([a-z0-9.-]+\.[a-z]{2,})[^\s]*/gi;
+
+  static evaluate(
+    rules: AutoModerationRules,
+    input: ModerationRuleInput
+  ): ModerationVerdict {
+    const matches = [
+      ...this.matchBannedTerms(rules, input),
+      ...this.matchLinks(rules, input),
+      ...this.matchSpam(rules, input),
+      ...this.matchNewAccount(rules, input),
+    ];
+    const score = matches.reduce((sum, match) => sum + match.score, 0);
+
+    let action: ModerationVerdict["action"] = "allow";
+    if (score >= rules.thresholds.hide) {
+      action = "hide";
+    } else if (score >= rules.thresholds.flag) {
+      action = "flag";
+    }
+    return { action, score, matches };
+  }
+
+  /**
+   * Poids d'un signalement selon l'historique de son auteur
+   *
+   * Estimation lissée de la part de signalements fondés, ramenée à 1 pour
+   * un signaleur sans historique et bornée par la configuration.
+   */
+  static reporterWeight(
+    rules: AutoModerationRules,
+    outcomes: { upheld: number; dismissed: number }
+  ): number {
+    const { enabled, minWeight, maxWeight } = rules.reporterReputation;
+    if (!enabled) {
+      return 1;
+    }
+    const precision =
+      (outcomes.upheld + 1) / (outcomes.upheld + outcomes.dismissed + 2);
+    const weight = Math.round(precision * 2 * 100) / 100;
+    return Math.min(maxWeight, Math.max(minWeight, weight));
+  }
+
+  /** Domaines des liens présents dans un texte */
+  static extractLinkDomains(text: string): string[] {
+    return Array.from(text.matchAll(this.URL_PATTERN), (match) =>
+      match[1].toLowerCase().replace(/^www\./, "")
+    );
+  }
+
+  private static matchBannedTerms(
+    rules: AutoModerationRules,
+    input: ModerationRuleInput
+  ): ModerationRuleMatch[] {
+    const lists = rules.bannedTerms.filter(
+      (list) => list.language === "*" || list.language === input.language
+    );
+    if (!lists.length) {
+      return [];
+    }
+
+    const haystack = ` ${this.tokenize(input.text, input.language)} `;
+    const matches: ModerationRuleMatch[] = [];
+    for (const list of lists) {
+      for (const term of list.terms) {
+        const needle = this.tokenize(term, input.language);
+        if (needle && haystack.includes(` ${needle} `)) {
+          matches.push({
+            rule: "banned-term",
+            detail: `${term} (${list.language})`,
+            score: list.score,
+          });
+        }
+      }
+    }
+    return matches;
+  }
+
+  private static matchLinks(
+    rules: AutoModerationRules,
+    input: ModerationRuleInput
+  ): ModerationRuleMatch[] {
+    if (!rules.links.enabled) {
+      return [];
+    }
+    const domains = this.extractLinkDomains(input.text);
+    const matches: ModerationRuleMatch[] = [];
+
+    const blocked = domains.filter((domain) =>
+      rules.links.blockedDomains.some(
+        (blockedDomain) =>
+          domain === blockedDomain || domain.endsWith(`.${blockedDomain}`)
+      )
+    );
+    for (const domain of new Set(blocked)) {
+      matches.push({
+        rule: "blocked-domain",
+        detail: domain,
+        score: rules.thresholds.hide,
+      });
+    }
+    if (domains.length > rules.links.maxLinks) {
+      matches.push({
+        rule: "too-many-links",
+        detail: `${domains.length} liens`,
+        score: rules.links.score,
+      });
+    }
+    return matches;
+  }
+
+  private static matchSpam(
+    rules: AutoModerationRules,
+    input: ModerationRuleInput
+  ): ModerationRuleMatch[] {
+    if (!rules.spam.enabled) {
+      return [];
+    }
+    const matches: ModerationRuleMatch[] = [];
+
+    const repeated = new RegExp(
+      `(\\S)\\1{${rules.spam.maxRepeatedChars},}`,
+      "u"
+    ).exec(input.text);
+    if (repeated) {
+      matches.push({
+        rule: "repeated-chars",
+        detail: repeated[0].slice(0, 20),
+        score: rules.spam.score,
+      });
+    }
+
+    const letters: string[] = input.text.match(/\p{L}/gu) || [];
+    if (letters.length >= rules.spam.minLengthForCaps) {
+      const uppercase = letters.filter(
+        (letter) =>
+          letter === letter.toUpperCase() && letter !== letter.toLowerCase()
+      ).length;
+      const ratio = uppercase / letters.length;
+      if (ratio > rules.spam.maxUppercaseRatio) {
+        matches.push({
+          rule: "uppercase",
+          detail: `${Math.round(ratio * 100)}% de majuscules`,
+          score: rules.spam.score,
+        });
+      }
+    }
+    return matches;
+  }
+
+  private static matchNewAccount(
+    rules: AutoModerationRules,
+    input: ModerationRuleInput
+  ): ModerationRuleMatch[] {
+    const isNewAccount =
+      rules.newAccount.enabled &&
+      input.accountAgeHours !== undefined &&
+      input.accountAgeHours < rules.newAccount.minAccountAgeHours;
+    if (!isNewAccount) {
+      return [];
+    }
+    const matches: ModerationRuleMatch[] = [];
+
+    if ((input.recentItemCount || 0) >= rules.newAccount.maxItemsPerHour) {
+      matches.push({
+        rule: "new-account-rate",
+        detail: `${input.recentItemCount} contenus en une heure`,
+        score: rules.newAccount.score,
+      });
+    }
+    if (this.extractLinkDomains(input.text).length > 0) {
+      matches.push({
+        rule: "new-account-links",
+        detail: "lien publié par un nouveau compte",
+        score: rules.newAccount.score,
+      });
+    }
+    return matches;
+  }
+
+  /** Texte normalisé réduit à des mots séparés par des espaces */
+  private static tokenize(text: string, language?: string): string {
+    return SearchNormalizer.normalize(text, language)
+      .replace(/[^\p{L}\p{N}]+/gu, " ")
+      .trim();
+  }
+}
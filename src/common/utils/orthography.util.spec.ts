@@ -0,0 +1,88 @@
+import { Orthography, OrthographyRules } from "./orthography.util";
+
+describe("Orthography", () => {
+  const fang: OrthographyRules = {
+    script: "Latn",
+    graphemes: [
+      "a",
+      "b",
+      "d",
+      "e",
+      "ə",
+      "f",
+      "g",
+      "i",
+      "k",
+      "kw",
+      "m",
+      "mb",
+      "n",
+      "ng",
+      "ny",
+      "o",
+      "s",
+      "t",
+      "u",
+      "v",
+      "w",
+      "y",
+      "z",
+      "é",
+    ],
+    toneDiacritics: ["\u0301", "\u0300", "\u0302"],
+  };
+
+  it("should normalize decomposed input to NFC", () => {
+    const decomposed = "nde\u0301";
+
+    const result = Orthography.check(decomposed, fang);
+
+    expect(result.normalized).toBe("ndé");
+    expect(result.changed).toBe(true);
+    expect(result.violations).toEqual([]);
+  });
+
+  it("should accept tone marks and digraphs of the alphabet", () => {
+    expect(
+      Orthography.check("mb\u0259\u0300ng\u00f4", fang).violations
+    ).toEqual([]);
+    expect(Orthography.check("Nyamə", fang).violations).toEqual([]);
+  });
+
+  it("should point at letters outside the alphabet", () => {
+    const [violation] = Orthography.check("bəc", fang).violations;
+
+    expect(violation).toEqual(
+      expect.objectContaining({
+        character: "c",
+        position: 2,
+        codePoints: "U+0063",
+        reason: "grapheme",
+      })
+    );
+    expect(violation.message).toContain("position 3");
+  });
+
+  it("should tell apart a forbidden diacritic from an unknown letter", () => {
+    const [violation] = Orthography.check("bä", fang).violations;
+
+    expect(violation.reason).toBe("diacritic");
+    expect(violation.codePoints).toBe("U+0061 U+0308");
+  });
+
+  it("should catch look-alike letters from another script", () => {
+    const [violation] = Orthography.check("b\u0430", fang).violations; // а cyrillique
+
+    expect(violation.reason).toBe("script");
+    expect(violation.message).toContain("cyrillic");
+  });
+
+  it("should not join a digraph across a hyphen", () => {
+    const rules: OrthographyRules = { graphemes: ["a", "ny"] };
+
+    expect(Orthography.check("any", rules).violations).toEqual([]);
+    expect(
+      Orthography.check("an-y", rules).violations.map((v) => v.character)
+    ).toEqual(["n", "y"]);
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Profil orthographique d'une langue
+ *
+ * @example
+ * {
+ *   script: "Latn",
+ *   graphemes: ["a", "b", "d", "e", "ɛ", "ny", "ŋ", ...],
+ *   toneDiacritics: ["\u0301", "\u0300", "\u0302", "\u030C"],
+ *   normalization: "NFC",
+ * }
+ */
+export interface OrthographyRules {
+  /** Code ISO 15924 de l'écriture (l'un des `Language.scripts`) */
+  script?: string;
+  /** Lettres et digrammes autorisés, en minuscules (vide = pas de contrôle) */
+  graphemes?: string[];
+  /** Diacritiques combinants notant le ton, autorisés sur toute lettre */
+  toneDiacritics?: string[];
+  /** Signes autorisés entre les lettres en plus des espaces */
+  punctuation?: string[];
+  /** Forme de normalisation Unicode stockée */
+  normalization?: "NFC" | "NFD";
+}
+
+/**
+ * Caractère non conforme au profil
+ */
+export interface OrthographyViolation {
+  /** Caractère perçu fautif (lettre et ses diacritiques) */
+  character: string;
+  /** Position du caractère dans le texte (à partir de 0) */
+  position: number;
+  /** Points de code, ex: "U+0061 U+0308" */
+  codePoints: string;
+  /**
+   * - script : lettre d'une autre écriture
+   * - grapheme : lettre hors de l'alphabet
+   * - diacritic : diacritique non autorisé ou isolé
+   */
+  reason: "script" | "grapheme" | "diacritic";
+  message: string;
+}
+
+/**
+ * Résultat de la vérification d'un texte
+ */
+export interface OrthographyCheck {
+  /** Texte dans la forme Unicode du profil */
+  normalized: string;
+  /** La normalisation a-t-elle modifié le texte ? */
+  changed: boolean;
+  violations: OrthographyViolation[];
+}
+
+const DEFAULT_PUNCTUATION = ["-", "'", "’"];
+
+/**
+ * Vérification et normalisation orthographique
+ *
+ * Le texte est découpé en caractères perçus (lettre de base suivie de
+ * ses diacritiques combinants) : les diacritiques tonals sont écartés,
+ * puis les lettres restantes sont appariées à l'alphabet de la langue
+ * en privilégiant les digrammes les plus longs ("ny" avant "n"). Les
+ * formes précomposées et décomposées d'une même lettre sont équivalentes.
+ *
+ * @example
+ * Orthography.check("ébɔ̀", rules).violations; // []
+ */
+export class Orthography {
+  /** Noms Unicode des écritures usuelles (ISO 15924 → propriété Script) */
+  static readonly SCRIPT_NAMES: Readonly<Record<string, string>> = {
+    Latn: "Latin",
+    Arab: "Arabic",
+    Tfng: "Tifinagh",
+    Ethi: "Ethiopic",
+    Nkoo: "Nko",
+    Adlm: "Adlam",
+    Vaii: "Vai",
+    Bamu: "Bamum",
+    Copt: "Coptic",
+    Cyrl: "Cyrillic",
+    Grek: "Greek",
+    Hebr: "Hebrew",
+  };
+
+  static normalize(text: string, rules: OrthographyRules = {}): string {
+    return text.normalize(rules.normalization || "NFC");
+  }
+
+  static check(text: string, rules: OrthographyRules = {}): OrthographyCheck {
+    const normalized = Orthography.normalize(text, rules);
+    const clusters = Orthography.clusters(normalized);
+    const tones = new Set(
+      (rules.toneDiacritics || []).map((mark) => mark.normalize("NFD"))
+    );
+    const separators = new Set(
+      [...DEFAULT_PUNCTUATION, ...(rules.punctuation || [])].map((sign) =>
+        sign.normalize("NFC")
+      )
+    );
+    const alphabet = (rules.graphemes || []).map((grapheme) =>
+      Orthography.clusters(grapheme.toLowerCase()).map(Orthography.letterOf)
+    );
+    const singles = new Set(
+      alphabet.filter((letters) => letters.length === 1).map(([l]) => l)
+    );
+    const scriptName = Orthography.SCRIPT_NAMES[rules.script];
+
+    const violations: OrthographyViolation[] = [];
+    const report = (
+      index: number,
+      reason: OrthographyViolation["reason"],
+      message: string
+    ) =>
+      violations.push({
+        character: clusters[index].normalize("NFC"),
+        position: index,
+        codePoints: Orthography.codePoints(clusters[index]),
+        reason,
+        message: `« ${clusters[index].normalize("NFC")} » (position ${index + 1}) : ${message}`,
+      });
+
+    // Lettres à apparier à l'alphabet : [position, lettre sans ton]
+    const letters: Array<[number, string]> = [];
+    clusters.forEach((cluster, index) => {
+      const [base, ...marks] = Array.from(cluster);
+      if (/\p{M}/u.test(base)) {
+        report(index, "diacritic", "diacritique isolé");
+        return;
+      }
+      if (/\s/u.test(base) || separators.has(base)) {
+        if (marks.length) {
+          report(index, "diacritic", "diacritique sur un signe");
+        }
+        return;
+      }
+      if (!/\p{L}/u.test(base)) {
+        report(index, "grapheme", "caractère non autorisé");
+        return;
+      }
+      if (
+        scriptName &&
+        !new RegExp(`\\p{Script=${scriptName}}`, "u").test(base)
+      ) {
+        const found = Orthography.scriptOf(base);
+        report(
+          index,
+          "script",
+          `écriture ${found ? found.toLowerCase() : "inconnue"} au lieu de ${scriptName.toLowerCase()}`
+        );
+        return;
+      }
+      const kept = marks.filter((mark) => !tones.has(mark));
+      letters.push([
+        index,
+        Orthography.letterOf([base, ...kept].join("").toLowerCase()),
+      ]);
+    });
+
+    if (alphabet.length) {
+      let i = 0;
+      while (i < letters.length) {
+        const length = Orthography.longestMatch(letters, i, alphabet);
+        if (length) {
+          i += length;
+          continue;
+        }
+        const [index, letter] = letters[i];
+        const base = Array.from(letter.normalize("NFD"))[0];
+        if (letter !== base && singles.has(base)) {
+          report(index, "diacritic", "diacritique non autorisé");
+        } else {
+          report(index, "grapheme", "lettre absente de l'alphabet");
+        }
+        i++;
+      }
+    }
+
+    return { normalized, changed: normalized !== text, violations };
+  }
+
+  /**
+   * Longueur du plus long graphème de l'alphabet commençant à `start`,
+   * 0 si aucun ne correspond
+   */
+  private static longestMatch(
+    letters: Array<[number, string]>,
+    start: number,
+    alphabet: string[][]
+  ): number {
+    let best = 0;
+    for (const grapheme of alphabet) {
+      if (
+        grapheme.length > best &&
+        grapheme.every(
+          (letter, offset) =>
+            letters[start + offset]?.[1] === letter &&
+            // un digramme ne franchit pas une espace ou un signe
+            (offset === 0 ||
+              letters[start + offset][0] === letters[start][0] + offset)
+        )
+      ) {
+        best = grapheme.length;
+      }
+    }
+    return best;
+  }
+
+  /** Découpage en caractères perçus (base + diacritiques combinants) */
+  private static clusters(text: string): string[] {
+    return text.normalize("NFD").match(/\P{M}\p{M}*|\p{M}+/gu) || [];
+  }
+
+  private static letterOf(cluster: string): string {
+    return cluster.normalize("NFC");
+  }
+
+  private static scriptOf(character: string): string | undefined {
+    return Object.values(Orthography.SCRIPT_NAMES).find((name) =>
+      new RegExp(`\\p{Script=${name}}`, "u").test(character)
+    );
+  }
+
+  private static codePoints(text: string): string {
+    return Array.from(text)
+      .map(
+        (character) =>
+          `U+${character.codePointAt(0).toString(16).toUpperCase().padStart(4, "0")}`
+      )
+      .join(" ");
+  }
+}
@@ -0,0 +1,40 @@
+import { Types } from "mongoose";
+import { PaginationCursor } from "./pagination-cursor.util";
+
+describe("PaginationCursor", () => {
+  const id = "64d000000000000000000001";
+
+  it("should round-trip dates and numbers", () => {
+    const date = new Date("2025-05-01T08:30:00.000Z");
+
+    expect(PaginationCursor.decode(PaginationCursor.encode(date, id))).toEqual({
+      value: date,
+      id,
+    });
+    expect(PaginationCursor.decode(PaginationCursor.encode(12, id))).toEqual({
+      value: 12,
+      id,
+    });
+  });
+
+  it("should ignore missing or tampered cursors", () => {
+    expect(PaginationCursor.decode(undefined)).toBeNull();
+    expect(PaginationCursor.decode("pas-un-curseur")).toBeNull();
+    expect(
+      PaginationCursor.decode(
+        Buffer.from(JSON.stringify({ v: 3, id: "x" })).toString("base64url")
+      )
+    ).toBeNull();
+  });
+
+  it("should build a filter that breaks ties on the id", () => {
+    const filter = PaginationCursor.after("likes", -1, { value: 4, id });
+
+    expect(filter).toEqual({
+      $or: [
+        { likes: { $lt: 4 } },
+        { likes: 4, _id: { $lt: new Types.ObjectId(id) } },
+      ],
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { Types } from "mongoose";
+
+/**
+ * Position décodée d'un curseur : valeur du champ de tri et ID du dernier
+ * élément renvoyé (départage des égalités)
+ */
+export interface CursorPosition {
+  value: Date | number | string;
+  id: string;
+}
+
+/**
+ * Curseurs de pagination opaques
+ *
+ * Contrairement à `skip`, un curseur reste stable quand des éléments sont
+ * ajoutés pendant la navigation et ne parcourt pas les pages précédentes.
+ * Le tri doit porter sur un champ puis sur `_id`, dans le même sens.
+ *
+ * @example
+ * const cursor = PaginationCursor.encode(last.createdAt, last._id.toString());
+ * model.find({ ...filter, ...PaginationCursor.after("createdAt", -1, position) })
+ */
+export class PaginationCursor {
+  static encode(value: Date | number | string, id: string): string {
+    const payload =
+      value instanceof Date
+        ? { d: value.toISOString(), id }
+        : { v: value, id };
+    return Buffer.from(JSON.stringify(payload)).toString("base64url");
+  }
+
+  /** Position du curseur, ou null s'il est absent ou illisible */
+  static decode(cursor?: string): CursorPosition | null {
+    if (!cursor) {
+      return null;
+    }
+    try {
+      const payload = JSON.parse(
+        Buffer.from(cursor, "base64url").toString("utf8")
+      );
+      if (!payload || !Types.ObjectId.isValid(payload.id)) {
+        return null;
+      }
+      if (typeof payload.d === "string") {
+        const date = new Date(payload.d);
+        return isNaN(date.getTime()) ? null : { value: date, id: payload.id };
+      }
+      if (typeof payload.v === "number" || typeof payload.v === "string") {
+        return { value: payload.v, id: payload.id };
+      }
+      return null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Filtre des éléments situés après la position pour un tri
+   * `{ [field]: direction, _id: direction }`
+   */
+  static after(
+    field: string,
+    direction: 1 | -1,
+    position: CursorPosition
+  ): Record<string, any> {
+    const operator = direction === 1 ? "$gt" : "$lt";
+    return {
+      $or: [
+        { [field]: { [operator]: position.value } },
+        {
+          [field]: position.value,
+          _id: { [operator]: new Types.ObjectId(position.id) },
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,24 @@
+import { PhoneticKey } from "./phonetic-key.util";
+
+describe("PhoneticKey", () => {
+  it("should match a spelling with its IPA transcription", () => {
+    expect(PhoneticKey.build("shiko")).toBe(PhoneticKey.fromIpa("[ˈʃiko]"));
+    expect(PhoneticKey.build("yaa")).toBe(PhoneticKey.fromIpa("/jaː/"));
+  });
+
+  it("should ignore tones, length and gemination", () => {
+    expect(PhoneticKey.fromIpa("/ɛ́bɔ̀ː/")).toBe("ebo");
+    expect(PhoneticKey.build("mbotte")).toBe("mbote");
+  });
+
+  it("should apply language specific spelling rules", () => {
+    expect(PhoneticKey.build("gâteau", "fr")).toBe("gato");
+    expect(PhoneticKey.build("gâteau")).toBe("gateau");
+    expect(PhoneticKey.build("apa", "yor")).toBe("akpa");
+  });
+
+  it("should return an empty key when nothing is left", () => {
+    expect(PhoneticKey.build("")).toBe("");
+    expect(PhoneticKey.fromIpa("/ˈ/")).toBe("");
+  });
+});
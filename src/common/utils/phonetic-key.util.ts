@@ -0,0 +1,130 @@
+import { SearchNormalizer } from "./search-normalizer.util";
+
+/**
+ * 🗣️ UTILITAIRE DE CLÉ PHONÉTIQUE
+ *
+ * Réduit un mot (orthographe) ou une transcription (API) à un squelette
+ * phonétique comparable, afin de proposer "ebɔ" à quelqu'un qui a tapé
+ * ce qu'il a entendu plutôt que ce qui est écrit.
+ *
+ * Étapes :
+ * 1. Normalisation de recherche (casse, tons, diacritiques, ɛ → e...)
+ * 2. Règles propres à la langue (ex: "ou" → "u" en français)
+ * 3. Règles communes de l'orthographe ou de l'API (ex: "sh" / ʃ → s)
+ * 4. Suppression de la ponctuation et des lettres doublées
+ *    (voyelles longues et consonnes géminées)
+ */
+export class PhoneticKey {
+  /**
+   * Règles appliquées aux orthographes, par ordre de priorité
+   */
+  static readonly SPELLING_RULES: ReadonlyArray<[string, string]> = [
+    ["ch", "c"],
+    ["sh", "s"],
+    ["zh", "j"],
+    ["ph", "f"],
+    ["qu", "k"],
+    ["ck", "k"],
+    ["q", "k"],
+    ["x", "ks"],
+  ];
+
+  /**
+   * Règles appliquées aux transcriptions en alphabet phonétique international
+   */
+  static readonly IPA_RULES: ReadonlyArray<[string, string]> = [
+    // /j/ se note "y" : à traiter avant que dʒ et ʒ ne produisent des "j"
+    ["j", "y"],
+    ["tʃ", "c"],
+    ["dʒ", "j"],
+    ["ʃ", "s"],
+    ["ʒ", "j"],
+    ["ɡ", "g"],
+    ["ɣ", "g"],
+    ["x", "k"],
+    ["β", "b"],
+    ["ɸ", "f"],
+    ["ʋ", "v"],
+    ["ɾ", "r"],
+    ["ɽ", "r"],
+    ["ɹ", "r"],
+    ["ʔ", ""],
+  ];
+
+  /**
+   * Règles orthographiques spécifiques par langue (code ISO 639-3),
+   * appliquées avant les règles communes
+   */
+  static readonly LANGUAGE_RULES: Readonly<
+    Record<string, ReadonlyArray<[string, string]>>
+  > = {
+    fra: [
+      ["eau", "o"],
+      ["au", "o"],
+      ["ou", "u"],
+      ["ai", "e"],
+      ["ei", "e"],
+      ["gn", "ny"],
+    ],
+    eng: [
+      ["ee", "i"],
+      ["oo", "u"],
+    ],
+    // Yoruba : "p" note l'occlusive labio-vélaire /kp/
+    yor: [["p", "kp"]],
+  };
+
+  /** Marques suprasegmentales et lettres modificatrices de l'API (ˈ ː ʰ ʷ...) */
+  private static readonly IPA_MODIFIERS = /[\u02b0-\u02ff]/g;
+
+  /**
+   * Construit la clé phonétique d'un mot écrit
+   *
+   * @param text - Mot dans son orthographe
+   * @param languageCode - Code ISO 639-1/639-3 de la langue (optionnel)
+   * @returns Clé phonétique (chaîne vide si rien n'est exploitable)
+   */
+  static build(text: string, languageCode?: string): string {
+    let key = SearchNormalizer.normalize(text, languageCode);
+    key = this.applyRules(key, this.getLanguageRules(languageCode));
+    key = this.applyRules(key, this.SPELLING_RULES);
+    return this.reduce(key);
+  }
+
+  /**
+   * Construit la clé phonétique d'une transcription API
+   *
+   * @param transcription - Transcription (ex: "/ɛ́bɔ̀/" ou "[ˈʃiko]")
+   * @param languageCode - Code ISO 639-1/639-3 de la langue (optionnel)
+   * @returns Clé phonétique (chaîne vide si rien n'est exploitable)
+   */
+  static fromIpa(transcription: string, languageCode?: string): string {
+    let key = SearchNormalizer.normalize(
+      (transcription || "").replace(this.IPA_MODIFIERS, ""),
+      languageCode
+    );
+    key = this.applyRules(key, this.IPA_RULES);
+    return this.reduce(key);
+  }
+
+  private static getLanguageRules(
+    languageCode?: string
+  ): ReadonlyArray<[string, string]> {
+    const code = SearchNormalizer.resolveLanguageCode(languageCode);
+    return (code && this.LANGUAGE_RULES[code]) || [];
+  }
+
+  private static applyRules(
+    text: string,
+    rules: ReadonlyArray<[string, string]>
+  ): string {
+    return rules.reduce(
+      (result, [from, to]) => result.split(from).join(to),
+      text
+    );
+  }
+
+  private static reduce(text: string): string {
+    return text.replace(/[^a-z]/g, "").replace(/(.)\1+/g, "$1");
+  }
+}
@@ -0,0 +1,82 @@
+import { QuizGenerator, QuizWord } from "./quiz-generator.util";
+
+describe("QuizGenerator", () => {
+  // Générateur déterministe : l'ordre de mélange est stable
+  const random = () => 0;
+  const word = (overrides: Partial<QuizWord>): QuizWord => ({
+    id: overrides.word,
+    word: "",
+    categoryId: "famille",
+    partOfSpeech: "noun",
+    ...overrides,
+  });
+
+  const mama = word({
+    word: "mama",
+    translation: "mère",
+    definition: "Femme qui a donné naissance",
+    example: "Mama azali na ndako",
+    audioUrl: "https://cdn/mama.mp3",
+  });
+  const pool = [
+    mama,
+    word({ word: "tata", translation: "père" }),
+    word({ word: "ndeko", translation: "frère" }),
+    word({ word: "koko", translation: "grand-parent" }),
+    word({
+      word: "kolia",
+      translation: "manger",
+      categoryId: "actions",
+      partOfSpeech: "verb",
+    }),
+  ];
+
+  it("should build a translation item whose options include the answer once", () => {
+    const item = QuizGenerator.build("translation", mama, pool, random);
+
+    expect(item.options).toHaveLength(4);
+    expect(item.options[item.correctIndex]).toBe("mère");
+    expect(item.options.filter((option) => option === "mère")).toHaveLength(1);
+    expect(item.explanation).toBe("« mama » : mère");
+  });
+
+  it("should prefer distractors from the same category and part of speech", () => {
+    const distractors = QuizGenerator.pickDistractors(
+      mama,
+      pool,
+      (candidate) => candidate.word,
+      3,
+      random
+    );
+
+    expect(distractors.sort()).toEqual(["koko", "ndeko", "tata"]);
+  });
+
+  it("should skip duplicate answers and give up when distractors run out", () => {
+    const sparse = [
+      mama,
+      word({ word: "tata", translation: "Mère" }),
+      word({ word: "ndeko", translation: "frère" }),
+    ];
+
+    expect(QuizGenerator.build("translation", mama, sparse, random)).toBeNull();
+  });
+
+  it("should blank the word as a whole word only", () => {
+    expect(QuizGenerator.blank("Mama azali na ndako", "mama")).toBe(
+      "____ azali na ndako"
+    );
+    expect(QuizGenerator.blank("Mamaki azali", "mama")).toBeNull();
+
+    const item = QuizGenerator.build("fill_blank", mama, pool, random);
+    expect(item.prompt).toBe("Complétez : ____ azali na ndako");
+  });
+
+  it("should only build items the word has data for", () => {
+    const bare = word({ word: "tata" });
+
+    expect(QuizGenerator.supports("audio", mama)).toBe(true);
+    expect(QuizGenerator.build("audio", bare, pool, random)).toBeNull();
+    expect(QuizGenerator.build("definition", bare, pool, random)).toBeNull();
+  });
+});
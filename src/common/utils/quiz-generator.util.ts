@@ -0,0 +1,213 @@
+/**
+ * Types d'exercices générés à partir du dictionnaire
+ * - translation : choisir la traduction d'un mot
+ * - audio : reconnaître le mot prononcé
+ * - definition : retrouver le mot correspondant à une définition
+ * - fill_blank : compléter un exemple d'usage
+ */
+export type QuizItemType =
+  | "translation"
+  | "audio"
+  | "definition"
+  | "fill_blank";
+
+export const QUIZ_ITEM_TYPES: QuizItemType[] = [
+  "translation",
+  "audio",
+  "definition",
+  "fill_blank",
+];
+
+/**
+ * Mot réduit aux champs utiles aux exercices
+ */
+export interface QuizWord {
+  id: string;
+  word: string;
+  categoryId?: string;
+  partOfSpeech?: string;
+  definition?: string;
+  /** Exemple d'usage contenant le mot */
+  example?: string;
+  /** Traduction dans la langue cible du quiz */
+  translation?: string;
+  audioUrl?: string;
+}
+
+/**
+ * Question à choix multiple
+ */
+export interface QuizItem {
+  type: QuizItemType;
+  wordId: string;
+  prompt: string;
+  audioUrl?: string;
+  options: string[];
+  correctIndex: number;
+  explanation: string;
+}
+
+const BLANK = "____";
+
+/**
+ * Générateur d'exercices à choix multiple
+ *
+ * Les distracteurs sont tirés du même ensemble de mots en privilégiant
+ * ceux de la même catégorie et de la même nature grammaticale, pour que
+ * la bonne réponse ne se devine pas à sa forme. Un exercice n'est produit
+ * que si le mot dispose des données nécessaires et qu'assez de
+ * distracteurs distincts existent.
+ *
+ * @example
+ * const item = QuizGenerator.build("definition", word, pool);
+ */
+export class QuizGenerator {
+  static readonly OPTION_COUNT = 4;
+
+  /**
+   * Le mot dispose-t-il des données nécessaires à ce type d'exercice ?
+   */
+  static supports(type: QuizItemType, word: QuizWord): boolean {
+    switch (type) {
+      case "translation":
+        return !!word.translation;
+      case "audio":
+        return !!word.audioUrl;
+      case "definition":
+        return !!word.definition;
+      default:
+        return !!word.example && !!QuizGenerator.blank(word.example, word.word);
+    }
+  }
+
+  /**
+   * Construire un exercice, ou null si le mot ou l'ensemble de
+   * distracteurs ne le permettent pas
+   */
+  static build(
+    type: QuizItemType,
+    word: QuizWord,
+    pool: QuizWord[],
+    random: () => number = Math.random
+  ): QuizItem | null {
+    if (!QuizGenerator.supports(type, word)) {
+      return null;
+    }
+
+    const answerOf =
+      type === "translation"
+        ? (candidate: QuizWord) => candidate.translation
+        : (candidate: QuizWord) => candidate.word;
+    const answer = answerOf(word);
+    const distractors = QuizGenerator.pickDistractors(
+      word,
+      pool,
+      answerOf,
+      QuizGenerator.OPTION_COUNT - 1,
+      random
+    );
+    if (distractors.length < QuizGenerator.OPTION_COUNT - 1) {
+      return null;
+    }
+
+    const options = QuizGenerator.shuffle([answer, ...distractors], random);
+    return {
+      type,
+      wordId: word.id,
+      ...QuizGenerator.prompt(type, word),
+      options,
+      correctIndex: options.indexOf(answer),
+      explanation: QuizGenerator.explanation(word),
+    };
+  }
+
+  /**
+   * Distracteurs distincts de la réponse, les plus proches du mot d'abord
+   * (même catégorie et même nature, puis l'une des deux, puis les autres)
+   */
+  static pickDistractors(
+    word: QuizWord,
+    pool: QuizWord[],
+    answerOf: (candidate: QuizWord) => string | undefined,
+    count: number,
+    random: () => number = Math.random
+  ): string[] {
+    const closeness = (candidate: QuizWord) =>
+      (word.categoryId && candidate.categoryId === word.categoryId ? 2 : 0) +
+      (word.partOfSpeech && candidate.partOfSpeech === word.partOfSpeech
+        ? 1
+        : 0);
+
+    const ranked = QuizGenerator.shuffle(
+      pool.filter((candidate) => candidate.id !== word.id),
+      random
+    ).sort((a, b) => closeness(b) - closeness(a));
+
+    const seen = new Set([QuizGenerator.key(answerOf(word))]);
+    const distractors: string[] = [];
+    for (const candidate of ranked) {
+      const value = answerOf(candidate);
+      const key = QuizGenerator.key(value);
+      if (!value || seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+      distractors.push(value);
+      if (distractors.length === count) {
+        break;
+      }
+    }
+    return distractors;
+  }
+
+  /**
+   * Exemple où le mot est remplacé par un blanc, ou null s'il n'y figure
+   * pas comme mot entier
+   */
+  static blank(example: string, word: string): string | null {
+    const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const pattern = new RegExp(
+      `(^|[^\\p{L}\\p{M}])${escaped}(?![\\p{L}\\p{M}])`,
+      "iu"
+    );
+    return pattern.test(example)
+      ? example.replace(pattern, (_, before) => `${before}${BLANK}`)
+      : null;
+  }
+
+  static shuffle<T>(items: T[], random: () => number = Math.random): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+
+  private static prompt(
+    type: QuizItemType,
+    word: QuizWord
+  ): { prompt: string; audioUrl?: string } {
+    switch (type) {
+      case "translation":
+        return { prompt: `Comment traduit-on « ${word.word} » ?` };
+      case "audio":
+        return { prompt: "Quel mot entendez-vous ?", audioUrl: word.audioUrl };
+      case "definition":
+        return { prompt: `Quel mot signifie : ${word.definition}` };
+      default:
+        return {
+          prompt: `Complétez : ${QuizGenerator.blank(word.example, word.word)}`,
+        };
+    }
+  }
+
+  private static explanation(word: QuizWord): string {
+    const meaning = word.translation || word.definition;
+    return meaning ? `« ${word.word} » : ${meaning}` : `« ${word.word} »`;
+  }
+
+  private static key(value?: string): string {
+    return (value || "").trim().toLocaleLowerCase();
+  }
+}
@@ -0,0 +1,41 @@
+import { SearchNormalizer } from "./search-normalizer.util";
+
+describe("SearchNormalizer", () => {
+  it("should strip tone marks and fold open vowels", () => {
+    expect(SearchNormalizer.normalize("ébɔ̀")).toBe("ebo");
+    expect(SearchNormalizer.normalize("Ɛ́bɛ̂")).toBe("ebe");
+  });
+
+  it("should treat precomposed and combining forms identically", () => {
+    const precomposed = "\u00e9b\u0254";
+    const combining = "e\u0301b\u0254\u0300";
+    expect(SearchNormalizer.normalize(precomposed)).toBe(
+      SearchNormalizer.normalize(combining)
+    );
+  });
+
+  it("should expand velar and palatal nasals", () => {
+    expect(SearchNormalizer.normalize("Ŋɔ́ŋ")).toBe("ngong");
+    expect(SearchNormalizer.normalize("ɲama")).toBe("nyama");
+  });
+
+  it("should apply language specific equivalences before stripping accents", () => {
+    expect(SearchNormalizer.normalize("ñaam", "wol")).toBe("nyaam");
+    expect(SearchNormalizer.normalize("ñaam", "wo")).toBe("nyaam");
+    expect(SearchNormalizer.normalize("ñaam")).toBe("naam");
+  });
+
+  it("should remove apostrophes and collapse separators", () => {
+    expect(SearchNormalizer.normalize("  m’ba - kɔ́  ")).toBe("mba ko");
+  });
+
+  it("should compare texts by their search key", () => {
+    expect(SearchNormalizer.isEquivalent("Lingála", "lingala")).toBe(true);
+    expect(SearchNormalizer.isEquivalent("ebo", "aba")).toBe(false);
+  });
+
+  it("should return an empty key for empty input", () => {
+    expect(SearchNormalizer.normalize("")).toBe("");
+    expect(SearchNormalizer.normalize(undefined as any)).toBe("");
+  });
+});
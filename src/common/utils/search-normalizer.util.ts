@@ -0,0 +1,134 @@
+/**
+ * 🔤 UTILITAIRE DE NORMALISATION POUR LA RECHERCHE
+ *
+ * Construit une clé de recherche insensible à la casse, aux diacritiques
+ * et aux tons pour les orthographes africaines, afin qu'un utilisateur
+ * tapant "ebo" sur un clavier standard retrouve "ébɔ̀".
+ *
+ * Étapes de normalisation :
+ * 1. Minuscules
+ * 2. Table d'équivalences propre à la langue (ex: ñ → ny en wolof)
+ * 3. Décomposition NFD et suppression des diacritiques/marques tonales
+ * 4. Table d'équivalences commune (ɛ → e, ɔ → o, ŋ → ng...)
+ * 5. Nettoyage des apostrophes, tirets et espaces
+ */
+export class SearchNormalizer {
+  /**
+   * Équivalences appliquées à toutes les langues
+   * (lettres de l'alphabet africain de référence absentes des claviers standards)
+   */
+  static readonly DEFAULT_EQUIVALENCES: Readonly<Record<string, string>> = {
+    ɛ: "e",
+    ɔ: "o",
+    ə: "e",
+    ɨ: "i",
+    ʉ: "u",
+    ŋ: "ng",
+    ɲ: "ny",
+    ɓ: "b",
+    ɗ: "d",
+    ƙ: "k",
+    ƴ: "y",
+  };
+
+  /**
+   * Équivalences spécifiques par langue (code ISO 639-3),
+   * appliquées avant la suppression des diacritiques
+   */
+  static readonly LANGUAGE_EQUIVALENCES: Readonly<
+    Record<string, Readonly<Record<string, string>>>
+  > = {
+    // Wolof et Peul : ñ note la nasale palatale, souvent saisie "ny"
+    wol: { ñ: "ny" },
+    ful: { ñ: "ny" },
+  };
+
+  /**
+   * Correspondance ISO 639-1 → ISO 639-3 pour les langues ayant une table dédiée
+   */
+  private static readonly LANGUAGE_ALIASES: Readonly<Record<string, string>> = {
+    wo: "wol",
+    ff: "ful",
+    fr: "fra",
+    en: "eng",
+    yo: "yor",
+  };
+
+  /** Marques combinantes (accents, tons, points souscrits...) */
+  private static readonly COMBINING_MARKS = /[\u0300-\u036f\u1dc0-\u1dff]/g;
+
+  /** Apostrophes et coups de glotte */
+  private static readonly APOSTROPHES = /['`\u2019\u02bc\u02bb]/g;
+
+  /**
+   * Normalise un texte pour la recherche
+   *
+   * @param text - Texte à normaliser
+   * @param languageCode - Code ISO 639-1/639-3 de la langue (optionnel)
+   * @returns Clé de recherche normalisée
+   */
+  static normalize(text: string, languageCode?: string): string {
+    if (!text) {
+      return "";
+    }
+
+    let normalized = text.normalize("NFC").toLowerCase();
+
+    const languageTable = this.getLanguageTable(languageCode);
+    if (languageTable) {
+      normalized = this.applyEquivalences(normalized, languageTable);
+    }
+
+    normalized = normalized
+      .normalize("NFD")
+      .replace(this.COMBINING_MARKS, "")
+      .normalize("NFC");
+
+    normalized = this.applyEquivalences(normalized, this.DEFAULT_EQUIVALENCES);
+
+    return normalized
+      .replace(this.APOSTROPHES, "")
+      .replace(/[-_]+/g, " ")
+      .replace(/\s+/g, " ")
+      .trim();
+  }
+
+  /**
+   * Indique si deux textes sont équivalents pour la recherche
+   */
+  static isEquivalent(a: string, b: string, languageCode?: string): boolean {
+    return this.normalize(a, languageCode) === this.normalize(b, languageCode);
+  }
+
+  /**
+   * Ramène un code ISO 639-1 à son équivalent ISO 639-3 lorsqu'il est connu
+   *
+   * @param languageCode - Code ISO 639-1/639-3 de la langue (optionnel)
+   * @returns Code en minuscules, ou undefined si aucun code n'est fourni
+   */
+  static resolveLanguageCode(languageCode?: string): string | undefined {
+    if (!languageCode) {
+      return undefined;
+    }
+    const code = languageCode.trim().toLowerCase();
+    return this.LANGUAGE_ALIASES[code] || code;
+  }
+
+  private static getLanguageTable(
+    languageCode?: string
+  ): Readonly<Record<string, string>> | undefined {
+    const code = this.resolveLanguageCode(languageCode);
+    return code ? this.LANGUAGE_EQUIVALENCES[code] : undefined;
+  }
+
+  private static applyEquivalences(
+    text: string,
+    table: Readonly<Record<string, string>>
+  ): string {
+    let result = "";
+    for (const char of text) {
+      result += table[char] ?? char;
+    }
+    return result;
+  }
+}
@@ -0,0 +1,97 @@
+import { SchedulingState, SpacedRepetition } from "./spaced-repetition.util";
+
+describe("SpacedRepetition", () => {
+  const now = new Date("2025-04-01T09:00:00.000Z");
+  const minutesLater = (card: SchedulingState) =>
+    (card.due.getTime() - now.getTime()) / 60000;
+  const reviewCard = (overrides: Partial<SchedulingState> = {}) => ({
+    ...SpacedRepetition.initial(now),
+    state: "review" as const,
+    interval: 10,
+    repetitions: 3,
+    ...overrides,
+  });
+
+  it("should walk a new card through the learning steps before graduating", () => {
+    let card = SpacedRepetition.initial(now);
+
+    card = SpacedRepetition.schedule(card, "good", now);
+    expect(card).toEqual(
+      expect.objectContaining({ state: "learning", learningStep: 1 })
+    );
+    expect(minutesLater(card)).toBe(10);
+
+    card = SpacedRepetition.schedule(card, "good", now);
+    expect(card).toEqual(
+      expect.objectContaining({ state: "review", interval: 1, repetitions: 1 })
+    );
+  });
+
+  it("should graduate an easy new card straight to a four day interval", () => {
+    const card = SpacedRepetition.schedule(
+      SpacedRepetition.initial(now),
+      "easy",
+      now
+    );
+
+    expect(card.state).toBe("review");
+    expect(card.interval).toBe(4);
+  });
+
+  it("should grow review intervals with the ease factor", () => {
+    expect(SpacedRepetition.schedule(reviewCard(), "good", now)).toEqual(
+      expect.objectContaining({ interval: 25, easeFactor: 2.5 })
+    );
+    expect(SpacedRepetition.schedule(reviewCard(), "hard", now)).toEqual(
+      expect.objectContaining({ interval: 12, easeFactor: 2.35 })
+    );
+    expect(SpacedRepetition.schedule(reviewCard(), "easy", now).interval).toBe(
+      34
+    );
+  });
+
+  it("should send a forgotten card to relearning with a shorter interval", () => {
+    const lapsed = SpacedRepetition.schedule(reviewCard(), "again", now);
+
+    expect(lapsed).toEqual(
+      expect.objectContaining({
+        state: "relearning",
+        interval: 5,
+        lapses: 1,
+        repetitions: 0,
+      })
+    );
+    expect(lapsed.easeFactor).toBeCloseTo(2.3);
+    expect(minutesLater(lapsed)).toBe(10);
+
+    const relearned = SpacedRepetition.schedule(lapsed, "good", now);
+    expect(relearned).toEqual(
+      expect.objectContaining({ state: "review", interval: 5 })
+    );
+  });
+
+  it("should never drop the ease factor below its floor", () => {
+    const card = SpacedRepetition.schedule(
+      reviewCard({ easeFactor: 1.35 }),
+      "again",
+      now
+    );
+
+    expect(card.easeFactor).toBe(SpacedRepetition.MIN_EASE);
+  });
+
+  it("should estimate recall probability from the elapsed time", () => {
+    const card = reviewCard();
+    const reviewedAt = new Date(now.getTime() - 90 * 24 * 3600 * 1000);
+
+    expect(SpacedRepetition.retrievability(card, now, now)).toBe(1);
+    expect(SpacedRepetition.retrievability(card, reviewedAt, now)).toBe(0.5);
+    expect(
+      SpacedRepetition.retrievability(
+        SpacedRepetition.initial(now),
+        undefined,
+        now
+      )
+    ).toBe(1);
+  });
+});
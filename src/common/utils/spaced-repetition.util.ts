@@ -0,0 +1,252 @@
+/**
+ * Évaluation du rappel d'une carte par l'apprenant
+ * - again : oubliée
+ * - hard : retrouvée avec difficulté
+ * - good : retrouvée
+ * - easy : retrouvée immédiatement
+ */
+export type RecallGrade = "again" | "hard" | "good" | "easy";
+
+export const RECALL_GRADES: RecallGrade[] = ["again", "hard", "good", "easy"];
+
+export type CardState = "new" | "learning" | "review" | "relearning";
+
+/**
+ * État de planification d'une carte
+ */
+export interface SchedulingState {
+  state: CardState;
+  /** Date de la prochaine révision */
+  due: Date;
+  /** Intervalle courant en jours (0 tant que la carte n'est pas apprise) */
+  interval: number;
+  /** Facteur de facilité SM-2 (2.5 au départ, 1.3 minimum) */
+  easeFactor: number;
+  /** Révisions réussies consécutives */
+  repetitions: number;
+  /** Nombre d'oublis d'une carte apprise */
+  lapses: number;
+  /** Étape courante d'apprentissage ou de réapprentissage */
+  learningStep: number;
+}
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+/**
+ * Planificateur de répétition espacée
+ *
+ * Variante de SM-2 à quatre évaluations : les nouvelles cartes passent
+ * par des étapes d'apprentissage courtes (minutes) avant d'être révisées
+ * à intervalles croissants selon leur facteur de facilité ; un oubli
+ * réduit le facteur et renvoie la carte en réapprentissage.
+ *
+ * La probabilité de rappel suit la courbe d'oubli de FSRS, l'intervalle
+ * tenant lieu de stabilité.
+ *
+ * @example
+ * let card = SpacedRepetition.initial(new Date());
+ * card = SpacedRepetition.schedule(card, "good", new Date());
+ */
+export class SpacedRepetition {
+  static readonly LEARNING_STEPS_MINUTES = [1, 10];
+  static readonly RELEARNING_STEPS_MINUTES = [10];
+  static readonly GRADUATING_INTERVAL = 1;
+  static readonly EASY_INTERVAL = 4;
+  static readonly INITIAL_EASE = 2.5;
+  static readonly MIN_EASE = 1.3;
+  static readonly EASY_BONUS = 1.3;
+  static readonly HARD_FACTOR = 1.2;
+  static readonly LAPSE_FACTOR = 0.5;
+  static readonly MAX_INTERVAL = 36500;
+  /** Intervalle à partir duquel une carte est considérée comme acquise */
+  static readonly MATURE_INTERVAL = 21;
+
+  static initial(now: Date): SchedulingState {
+    return {
+      state: "new",
+      due: now,
+      interval: 0,
+      easeFactor: SpacedRepetition.INITIAL_EASE,
+      repetitions: 0,
+      lapses: 0,
+      learningStep: 0,
+    };
+  }
+
+  /**
+   * État de la carte après une révision évaluée à `grade`
+   */
+  static schedule(
+    card: SchedulingState,
+    grade: RecallGrade,
+    now: Date
+  ): SchedulingState {
+    switch (card.state) {
+      case "new":
+      case "learning":
+        return SpacedRepetition.scheduleLearning(card, grade, now);
+      case "relearning":
+        return SpacedRepetition.scheduleRelearning(card, grade, now);
+      default:
+        return SpacedRepetition.scheduleReview(card, grade, now);
+    }
+  }
+
+  /**
+   * Probabilité estimée de se souvenir de la carte à `now`
+   *
+   * R(t) = (1 + t / (9·S))⁻¹, avec S l'intervalle en jours ; 1 pour une
+   * carte jamais apprise.
+   */
+  static retrievability(
+    card: Pick<SchedulingState, "interval" | "state">,
+    lastReviewedAt: Date | undefined,
+    now: Date
+  ): number {
+    if (card.state === "new" || !lastReviewedAt || card.interval <= 0) {
+      return 1;
+    }
+    const elapsedDays = Math.max(
+      0,
+      (now.getTime() - lastReviewedAt.getTime()) / DAY
+    );
+    return 1 / (1 + elapsedDays / (9 * card.interval));
+  }
+
+  private static scheduleLearning(
+    card: SchedulingState,
+    grade: RecallGrade,
+    now: Date
+  ): SchedulingState {
+    const steps = SpacedRepetition.LEARNING_STEPS_MINUTES;
+    const base = { ...card, state: "learning" as CardState };
+
+    switch (grade) {
+      case "again":
+        return SpacedRepetition.atStep(base, steps, 0, now);
+      case "hard":
+        return SpacedRepetition.atStep(base, steps, card.learningStep, now);
+      case "good":
+        return card.learningStep + 1 < steps.length
+          ? SpacedRepetition.atStep(base, steps, card.learningStep + 1, now)
+          : SpacedRepetition.graduate(
+              card,
+              SpacedRepetition.GRADUATING_INTERVAL,
+              now
+            );
+      default:
+        return SpacedRepetition.graduate(
+          card,
+          SpacedRepetition.EASY_INTERVAL,
+          now
+        );
+    }
+  }
+
+  private static scheduleReview(
+    card: SchedulingState,
+    grade: RecallGrade,
+    now: Date
+  ): SchedulingState {
+    if (grade === "again") {
+      const lapsed = {
+        ...card,
+        state: "relearning" as CardState,
+        easeFactor: Math.max(SpacedRepetition.MIN_EASE, card.easeFactor - 0.2),
+        interval: Math.max(
+          1,
+          Math.round(card.interval * SpacedRepetition.LAPSE_FACTOR)
+        ),
+        repetitions: 0,
+        lapses: card.lapses + 1,
+      };
+      return SpacedRepetition.atStep(
+        lapsed,
+        SpacedRepetition.RELEARNING_STEPS_MINUTES,
+        0,
+        now
+      );
+    }
+
+    const easeDelta = { hard: -0.15, good: 0, easy: 0.15 }[grade];
+    const easeFactor = Math.max(
+      SpacedRepetition.MIN_EASE,
+      card.easeFactor + easeDelta
+    );
+    const multiplier = {
+      hard: SpacedRepetition.HARD_FACTOR,
+      good: easeFactor,
+      easy: easeFactor * SpacedRepetition.EASY_BONUS,
+    }[grade];
+    // Toujours au moins un jour de plus que l'intervalle précédent
+    const interval = Math.max(
+      card.interval + 1,
+      Math.round(card.interval * multiplier)
+    );
+
+    return {
+      ...card,
+      state: "review",
+      easeFactor,
+      interval: Math.min(interval, SpacedRepetition.MAX_INTERVAL),
+      repetitions: card.repetitions + 1,
+      learningStep: 0,
+      due: SpacedRepetition.inDays(now, interval),
+    };
+  }
+
+  private static scheduleRelearning(
+    card: SchedulingState,
+    grade: RecallGrade,
+    now: Date
+  ): SchedulingState {
+    const steps = SpacedRepetition.RELEARNING_STEPS_MINUTES;
+
+    switch (grade) {
+      case "again":
+        return SpacedRepetition.atStep(card, steps, 0, now);
+      case "hard":
+        return SpacedRepetition.atStep(card, steps, card.learningStep, now);
+      case "good":
+        return card.learningStep + 1 < steps.length
+          ? SpacedRepetition.atStep(card, steps, card.learningStep + 1, now)
+          : SpacedRepetition.graduate(card, card.interval, now);
+      default:
+        return SpacedRepetition.graduate(card, card.interval + 1, now);
+    }
+  }
+
+  private static atStep(
+    card: SchedulingState,
+    steps: number[],
+    step: number,
+    now: Date
+  ): SchedulingState {
+    const index = Math.min(step, steps.length - 1);
+    return {
+      ...card,
+      learningStep: index,
+      due: new Date(now.getTime() + steps[index] * MINUTE),
+    };
+  }
+
+  private static graduate(
+    card: SchedulingState,
+    interval: number,
+    now: Date
+  ): SchedulingState {
+    return {
+      ...card,
+      state: "review",
+      interval,
+      repetitions: card.repetitions + 1,
+      learningStep: 0,
+      due: SpacedRepetition.inDays(now, interval),
+    };
+  }
+
+  private static inDays(now: Date, days: number): Date {
+    return new Date(now.getTime() + days * DAY);
+  }
+}
@@ -0,0 +1,48 @@
+import { TimeZone } from "./time-zone.util";
+
+describe("TimeZone", () => {
+  it("should convert local times of a time zone to UTC", () => {
+    expect(TimeZone.toUtc("2025-06-01T19:00", "Africa/Libreville")).toEqual(
+      new Date("2025-06-01T18:00:00.000Z")
+    );
+    expect(TimeZone.toUtc("2025-06-01T19:00", "America/New_York")).toEqual(
+      new Date("2025-06-01T23:00:00.000Z")
+    );
+    // Une date avec décalage est prise telle quelle
+    expect(
+      TimeZone.toUtc("2025-06-01T19:00:00+02:00", "Africa/Libreville")
+    ).toEqual(new Date("2025-06-01T17:00:00.000Z"));
+    expect(TimeZone.toUtc("demain soir", "Africa/Libreville")).toBeNull();
+  });
+
+  it("should handle daylight saving time transitions", () => {
+    // 02:30 n'existe pas le 30 mars à Paris : décalé à 03:30 (heure d'été)
+    expect(TimeZone.toUtc("2025-03-30T02:30", "Europe/Paris")).toEqual(
+      new Date("2025-03-30T01:30:00.000Z")
+    );
+    // 02:30 existe deux fois le 26 octobre : première occurrence
+    expect(TimeZone.toUtc("2025-10-26T02:30", "Europe/Paris")).toEqual(
+      new Date("2025-10-26T00:30:00.000Z")
+    );
+  });
+
+  it("should format dates in a time zone with their offset", () => {
+    const date = new Date("2025-06-01T18:00:00.000Z");
+
+    expect(TimeZone.format(date, "Africa/Libreville")).toBe(
+      "2025-06-01T19:00:00+01:00"
+    );
+    expect(TimeZone.format(date, "Asia/Kolkata")).toBe(
+      "2025-06-01T23:30:00+05:30"
+    );
+    expect(TimeZone.format(date, "America/New_York")).toBe(
+      "2025-06-01T14:00:00-04:00"
+    );
+  });
+
+  it("should validate IANA time zone names", () => {
+    expect(TimeZone.isValid("Africa/Douala")).toBe(true);
+    expect(TimeZone.isValid("Mars/Olympus")).toBe(false);
+    expect(TimeZone.isValid("")).toBe(false);
+  });
+});
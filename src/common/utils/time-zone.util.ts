@@ -0,0 +1,127 @@
+/**
+ * Conversions entre heure locale d'un fuseau IANA et instants UTC
+ *
+ * Les événements sont stockés en UTC avec leur fuseau : l'organisateur
+ * saisit l'heure locale (« 19:00 à Libreville »), et chaque participant
+ * l'affiche dans son propre fuseau. Les changements d'heure sont gérés
+ * par la base de fuseaux d'`Intl`.
+ *
+ * @example
+ * TimeZone.toUtc("2025-03-30T19:00", "Europe/Paris") // 2025-03-30T17:00:00.000Z
+ * TimeZone.format(date, "Africa/Libreville")          // "2025-03-30T18:00:00+01:00"
+ */
+export class TimeZone {
+  /** Heure locale sans décalage, ex: "2025-03-30T19:00" */
+  private static readonly LOCAL_PATTERN =
+    /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/;
+
+  static isValid(timeZone: string): boolean {
+    if (!timeZone) {
+      return false;
+    }
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Décalage du fuseau par rapport à UTC à un instant donné, en minutes
+   */
+  static offsetMinutes(date: Date, timeZone: string): number {
+    const parts = TimeZone.wallClock(date, timeZone);
+    const asUtc = Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour,
+      parts.minute,
+      parts.second
+    );
+    return Math.round(
+      (asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000
+    );
+  }
+
+  /**
+   * Instant UTC d'une date saisie : heure locale du fuseau, ou date ISO
+   * avec décalage (`Z`, `+01:00`) prise telle quelle
+   *
+   * Une heure locale sautée au passage à l'heure d'été est décalée
+   * d'autant ; une heure ambiguë au retour prend la première occurrence.
+   *
+   * @returns null si la date est illisible
+   */
+  static toUtc(value: string, timeZone: string): Date | null {
+    const match = TimeZone.LOCAL_PATTERN.exec(value);
+    if (!match) {
+      const date = new Date(value);
+      return isNaN(date.getTime()) ? null : date;
+    }
+
+    const [, year, month, day, hour, minute, second] = match.map(Number);
+    const wallTime = Date.UTC(year, month - 1, day, hour, minute, second || 0);
+    if (isNaN(wallTime)) {
+      return null;
+    }
+    // Candidats avec les décalages de la veille et du lendemain : seuls
+    // ceux qui retombent sur l'heure saisie existent
+    const oneDay = 24 * 3600 * 1000;
+    const candidates = [wallTime - oneDay, wallTime + oneDay].map(
+      (around) =>
+        wallTime - TimeZone.offsetMinutes(new Date(around), timeZone) * 60000
+    );
+    const existing = candidates.filter(
+      (candidate) =>
+        candidate +
+          TimeZone.offsetMinutes(new Date(candidate), timeZone) * 60000 ===
+        wallTime
+    );
+    return new Date(existing.length ? Math.min(...existing) : candidates[0]);
+  }
+
+  /**
+   * Date ISO 8601 dans l'heure locale du fuseau, avec son décalage
+   */
+  static format(date: Date, timeZone: string): string {
+    const parts = TimeZone.wallClock(date, timeZone);
+    const offset = TimeZone.offsetMinutes(date, timeZone);
+    const pad = (value: number) => String(value).padStart(2, "0");
+    const sign = offset < 0 ? "-" : "+";
+    const absolute = Math.abs(offset);
+    return (
+      `${parts.year}-${pad(parts.month)}-${pad(parts.day)}` +
+      `T${pad(parts.hour)}:${pad(parts.minute)}:${pad(parts.second)}` +
+      `${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`
+    );
+  }
+
+  private static wallClock(
+    date: Date,
+    timeZone: string
+  ): Record<"year" | "month" | "day" | "hour" | "minute" | "second", number> {
+    const values: Record<string, number> = {};
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    })
+      .formatToParts(date)
+      .forEach(({ type, value }) => {
+        if (type !== "literal") {
+          values[type] = Number(value);
+        }
+      });
+    return values as Record<
+      "year" | "month" | "day" | "hour" | "minute" | "second",
+      number
+    >;
+  }
+}
@@ -0,0 +1,65 @@
+import { TransliterationTable, Transliterator } from "./transliteration.util";
+
+describe("Transliterator", () => {
+  // Latin → Tifinagh (néo-tifinagh de l'IRCAM)
+  const tifinagh: TransliterationTable = {
+    fromScript: "Latn",
+    toScript: "Tfng",
+    reversible: true,
+    rules: [
+      { source: "a", target: "ⴰ" },
+      { source: "g", target: "ⴳ" },
+      { source: "gh", target: "ⵖ" },
+      { source: "i", target: "ⵉ" },
+      { source: "l", target: "ⵍ" },
+      { source: "m", target: "ⵎ" },
+      { source: "t", target: "ⵜ" },
+      { source: "u", target: "ⵓ" },
+      { source: "z", target: "ⵣ" },
+    ],
+  };
+
+  it("should prefer the longest rule regardless of case", () => {
+    expect(Transliterator.transliterate("Tamazight", tifinagh.rules)).toEqual({
+      text: "ⵜⴰⵎⴰⵣⵉⵖⵜ",
+      complete: true,
+      unmatched: [],
+    });
+  });
+
+  it("should drop unmapped tone marks and keep separators", () => {
+    expect(Transliterator.transliterate("azúl-azul", tifinagh.rules).text).toBe(
+      "ⴰⵣⵓⵍ-ⴰⵣⵓⵍ"
+    );
+  });
+
+  it("should flag letters without a rule", () => {
+    const result = Transliterator.transliterate("apul", tifinagh.rules);
+
+    expect(result.complete).toBe(false);
+    expect(result.unmatched).toEqual(["p"]);
+  });
+
+  it("should only invert tables declared reversible", () => {
+    expect(Transliterator.rulesFor([tifinagh], "Tfng", "Latn")).toContainEqual({
+      source: "ⵖ",
+      target: "gh",
+    });
+    expect(
+      Transliterator.rulesFor(
+        [{ ...tifinagh, reversible: false }],
+        "Tfng",
+        "Latn"
+      )
+    ).toBeNull();
+  });
+
+  it("should only keep complete alternate forms", () => {
+    expect(Transliterator.alternateForms("ⴰⵣⵓⵍ", "Tfng", [tifinagh])).toEqual([
+      { scriptCode: "Latn", form: "azul" },
+    ]);
+    expect(Transliterator.alternateForms("apul", "Latn", [tifinagh])).toEqual(
+      []
+    );
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Correspondance d'une séquence de la source vers la cible
+ */
+export interface TransliterationRule {
+  source: string;
+  target: string;
+}
+
+/**
+ * Table de translittération d'une écriture vers une autre
+ *
+ * @example
+ * {
+ *   fromScript: "Latn",
+ *   toScript: "Nkoo",
+ *   rules: [{ source: "a", target: "ߊ" }, { source: "ny", target: "ߢ" }, ...],
+ *   reversible: true,
+ * }
+ */
+export interface TransliterationTable {
+  /** Codes ISO 15924 (l'un des `Language.scripts`) */
+  fromScript: string;
+  toScript: string;
+  rules: TransliterationRule[];
+  /** La table inversée sert aussi pour la translittération inverse */
+  reversible?: boolean;
+}
+
+/**
+ * Résultat d'une translittération
+ */
+export interface Transliteration {
+  text: string;
+  /** Faux si des lettres de la source n'ont pas de correspondance */
+  complete: boolean;
+  /** Lettres restées telles quelles faute de règle */
+  unmatched: string[];
+}
+
+/**
+ * Translittération par tables de correspondances
+ *
+ * Le texte est décomposé (NFD) puis parcouru en privilégiant la règle la
+ * plus longue ("ny" avant "n"), sans distinction de casse. Les lettres
+ * sans règle sont conservées et rendent le résultat incomplet ; les
+ * diacritiques sans règle (tons non notés par l'écriture cible) sont
+ * omis, les espaces, chiffres et signes conservés.
+ *
+ * @example
+ * Transliterator.transliterate("nyama", table.rules).text; // "ߢߊߡߊ"
+ */
+export class Transliterator {
+  static transliterate(
+    text: string,
+    rules: TransliterationRule[]
+  ): Transliteration {
+    const table = new Map<string, string>();
+    for (const rule of rules) {
+      const source = Transliterator.prepare(rule.source);
+      if (source && !table.has(source)) {
+        table.set(source, rule.target);
+      }
+    }
+    const longest = Math.max(0, ...Array.from(table.keys(), (k) => k.length));
+
+    const input = Transliterator.prepare(text);
+    const unmatched = new Set<string>();
+    let output = "";
+    let i = 0;
+    while (i < input.length) {
+      let length = Math.min(longest, input.length - i);
+      while (length > 0 && !table.has(input.slice(i, i + length))) {
+        length--;
+      }
+      if (length) {
+        output += table.get(input.slice(i, i + length));
+        i += length;
+        continue;
+      }
+      const character = String.fromCodePoint(input.codePointAt(i));
+      if (/\p{L}/u.test(character)) {
+        unmatched.add(character);
+        output += character;
+      } else if (!/\p{M}/u.test(character)) {
+        output += character;
+      }
+      i += character.length;
+    }
+
+    return {
+      text: output.normalize("NFC"),
+      complete: unmatched.size === 0,
+      unmatched: Array.from(unmatched),
+    };
+  }
+
+  /**
+   * Règles de `fromScript` vers `toScript` : table directe, sinon table
+   * inverse déclarée réversible ; null si aucune ne convient
+   */
+  static rulesFor(
+    tables: TransliterationTable[],
+    fromScript: string,
+    toScript: string
+  ): TransliterationRule[] | null {
+    const direct = tables.find(
+      (table) => table.fromScript === fromScript && table.toScript === toScript
+    );
+    if (direct) {
+      return direct.rules;
+    }
+    const reverse = tables.find(
+      (table) =>
+        table.reversible &&
+        table.fromScript === toScript &&
+        table.toScript === fromScript
+    );
+    return reverse
+      ? reverse.rules.map((rule) => ({
+          source: rule.target,
+          target: rule.source,
+        }))
+      : null;
+  }
+
+  /**
+   * Formes complètes d'un texte dans chacune des écritures atteignables
+   * depuis `fromScript`
+   */
+  static alternateForms(
+    text: string,
+    fromScript: string,
+    tables: TransliterationTable[]
+  ): Array<{ scriptCode: string; form: string }> {
+    const targets = new Set<string>();
+    for (const table of tables) {
+      if (table.fromScript === fromScript) {
+        targets.add(table.toScript);
+      } else if (table.reversible && table.toScript === fromScript) {
+        targets.add(table.fromScript);
+      }
+    }
+    targets.delete(fromScript);
+
+    const forms: Array<{ scriptCode: string; form: string }> = [];
+    for (const scriptCode of targets) {
+      const result = Transliterator.transliterate(
+        text,
+        Transliterator.rulesFor(tables, fromScript, scriptCode)
+      );
+      if (result.complete && result.text.trim()) {
+        forms.push({ scriptCode, form: result.text });
+      }
+    }
+    return forms;
+  }
+
+  private static prepare(text: string): string {
+    return text.normalize("NFD").toLowerCase();
+  }
+}
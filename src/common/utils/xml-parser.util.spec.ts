@@ -0,0 +1,33 @@
+import { XmlParseError, XmlParser } from "./xml-parser.util";
+
+describe("XmlParser", () => {
+  it("should build an element tree with attributes and text", () => {
+    const root = XmlParser.parse(
+      '<?xml version="1.0"?><lift version="0.13"><entry id="e1"><form lang="fan"><text>ébɔ̀</text></form></entry></lift>'
+    );
+    expect(root.name).toBe("lift");
+    expect(root.attributes.version).toBe("0.13");
+    const entry = XmlParser.child(root, "entry");
+    expect(entry?.attributes.id).toBe("e1");
+    const text = XmlParser.child(XmlParser.child(entry!, "form")!, "text");
+    expect(XmlParser.textContent(text)).toBe("ébɔ̀");
+  });
+
+  it("should decode entities and keep CDATA verbatim", () => {
+    const root = XmlParser.parse(
+      "<a>l&apos;eau &amp; le feu &#233;<![CDATA[<b>&amp;</b>]]></a>"
+    );
+    expect(XmlParser.textContent(root)).toBe("l'eau & le feu é<b>&amp;</b>");
+  });
+
+  it("should ignore comments, doctype and self-closing elements", () => {
+    const root = XmlParser.parse(
+      "<!DOCTYPE lift><!-- export --><lift><entry/><entry /></lift>"
+    );
+    expect(XmlParser.childrenNamed(root, "entry")).toHaveLength(2);
+  });
+
+  it("should reject mismatched tags", () => {
+    expect(() => XmlParser.parse("<a><b></a>")).toThrow(XmlParseError);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * 🧾 UTILITAIRE DE LECTURE XML
+ *
+ * Analyseur XML minimal construisant un arbre d'éléments, suffisant pour
+ * les formats d'échange lexicographiques (SIL LIFT, TEI) : attributs, texte,
+ * sections CDATA, entités prédéfinies et numériques. Les commentaires,
+ * instructions de traitement et DOCTYPE sont ignorés ; les espaces de
+ * noms sont conservés tels quels dans les noms de balises.
+ */
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  /** Texte directement contenu dans l'élément (hors enfants) */
+  text: string;
+}
+
+export class XmlParseError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`${message} (position ${position})`);
+    this.name = "XmlParseError";
+  }
+}
+
+export class XmlParser {
+  private static readonly ENTITIES: Readonly<Record<string, string>> = {
+    lt: "<",
+    gt: ">",
+    amp: "&",
+    quot: '"',
+    apos: "'",
+  };
+
+  /**
+   * Analyse un document XML et retourne son élément racine
+   *
+   * @param xml - Contenu XML
+   * @throws {XmlParseError} Si le document est mal formé
+   */
+  static parse(xml: string): XmlElement {
+    const source = (xml || "").replace(/^\ufeff/, "");
+    const stack: XmlElement[] = [];
+    let root: XmlElement | undefined;
+    let position = 0;
+
+    while (position < source.length) {
+      const tagStart = source.indexOf("<", position);
+
+      if (tagStart === -1 || tagStart > position) {
+        const end = tagStart === -1 ? source.length : tagStart;
+        if (stack.length > 0) {
+          stack[stack.length - 1].text += this.decodeEntities(
+            source.slice(position, end)
+          );
+        }
+        position = end;
+        continue;
+      }
+
+      if (source.startsWith("<!--", position)) {
+        position = this.skipPast(source, "-->", position);
+      } else if (source.startsWith("<![CDATA[", position)) {
+        const end = source.indexOf("]]>", position);
+        if (end === -1) {
+          throw new XmlParseError("Section CDATA non terminée", position);
+        }
+        if (stack.length > 0) {
+          stack[stack.length - 1].text += source.slice(position + 9, end);
+        }
+        position = end + 3;
+      } else if (source.startsWith("<?", position)) {
+        position = this.skipPast(source, "?>", position);
+      } else if (source.startsWith("<!", position)) {
+        position = this.skipPast(source, ">", position);
+      } else if (source.startsWith("</", position)) {
+        const end = source.indexOf(">", position);
+        if (end === -1) {
+          throw new XmlParseError("Balise fermante non terminée", position);
+        }
+        const name = source.slice(position + 2, end).trim();
+        const current = stack.pop();
+        if (!current || current.name !== name) {
+          throw new XmlParseError(`Balise fermante inattendue </${name}>`, position);
+        }
+        position = end + 1;
+      } else {
+        const end = this.findTagEnd(source, position);
+        const selfClosing = source[end - 1] === "/";
+        const body = source.slice(position + 1, selfClosing ? end - 1 : end);
+        const element = this.parseTag(body, position);
+
+        if (stack.length > 0) {
+          stack[stack.length - 1].children.push(element);
+        } else if (!root) {
+          root = element;
+        } else {
+          throw new XmlParseError("Plusieurs éléments racine", position);
+        }
+
+        if (!selfClosing) {
+          stack.push(element);
+        }
+        position = end + 1;
+      }
+    }
+
+    if (stack.length > 0) {
+      throw new XmlParseError(
+        `Balise <${stack[stack.length - 1].name}> non fermée`,
+        position
+      );
+    }
+    if (!root) {
+      throw new XmlParseError("Document XML vide", 0);
+    }
+    return root;
+  }
+
+  /**
+   * Premier enfant portant le nom donné
+   */
+  static child(element: XmlElement, name: string): XmlElement | undefined {
+    return element?.children.find((child) => child.name === name);
+  }
+
+  /**
+   * Enfants portant le nom donné
+   */
+  static childrenNamed(element: XmlElement, name: string): XmlElement[] {
+    return element ? element.children.filter((child) => child.name === name) : [];
+  }
+
+  /**
+   * Texte complet d'un élément, enfants compris (ex: <text> avec <span>)
+   */
+  static textContent(element: XmlElement): string {
+    if (!element) {
+      return "";
+    }
+    return (
+      element.text +
+      element.children.map((child) => this.textContent(child)).join("")
+    );
+  }
+
+  /**
+   * Échappe un texte pour l'insérer dans un contenu ou un attribut XML
+   */
+  static escape(text: string): string {
+    return (text ?? "")
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&apos;");
+  }
+
+  private static parseTag(body: string, position: number): XmlElement {
+    const nameMatch = body.match(/^\s*([^\s/>]+)/);
+    if (!nameMatch) {
+      throw new XmlParseError("Nom de balise manquant", position);
+    }
+
+    const attributes: Record<string, string> = {};
+    const attributePattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+    const rest = body.slice(nameMatch[0].length);
+    let match: RegExpExecArray | null;
+    while ((match = attributePattern.exec(rest)) !== null) {
+      attributes[match[1]] = this.decodeEntities(match[3] ?? match[4] ?? "");
+    }
+
+    return { name: nameMatch[1], attributes, children: [], text: "" };
+  }
+
+  private static findTagEnd(source: string, position: number): number {
+    let quote: string | null = null;
+    for (let i = position + 1; i < source.length; i++) {
+      const char = source[i];
+      if (quote) {
+        if (char === quote) quote = null;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === ">") {
+        return i;
+      }
+    }
+    throw new XmlParseError("Balise non terminée", position);
+  }
+
+  private static skipPast(source: string, marker: string, position: number): number {
+    const end = source.indexOf(marker, position);
+    if (end === -1) {
+      throw new XmlParseError(`"${marker}" attendu`, position);
+    }
+    return end + marker.length;
+  }
+
+  private static decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+      if (code[0] === "#") {
+        const value =
+          code[1].toLowerCase() === "x"
+            ? parseInt(code.slice(2), 16)
+            : parseInt(code.slice(1), 10);
+        return Number.isNaN(value) ? entity : String.fromCodePoint(value);
+      }
+      return this.ENTITIES[code] ?? entity;
+    });
+  }
+}
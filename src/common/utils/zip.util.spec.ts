@@ -0,0 +1,33 @@
+import { crc32, inflateRawSync } from "zlib";
+import { ZipUtil } from "./zip.util";
+
+describe("ZipUtil", () => {
+  const entries = [
+    { name: "collection.anki2", data: Buffer.from("données ".repeat(50)) },
+    { name: "media", data: Buffer.from("{}") },
+  ];
+
+  it("should write local headers readable back with inflate", () => {
+    const zip = ZipUtil.create(entries);
+
+    expect(zip.readUInt32LE(0)).toBe(0x04034b50);
+    const compressedSize = zip.readUInt32LE(18);
+    const nameLength = zip.readUInt16LE(26);
+    expect(zip.toString("utf8", 30, 30 + nameLength)).toBe("collection.anki2");
+
+    const start = 30 + nameLength;
+    const data = inflateRawSync(zip.subarray(start, start + compressedSize));
+    expect(data.equals(entries[0].data)).toBe(true);
+    expect(zip.readUInt32LE(14)).toBe(crc32(entries[0].data));
+  });
+
+  it("should end with a central directory listing every entry", () => {
+    const zip = ZipUtil.create(entries);
+    const end = zip.subarray(zip.length - 22);
+
+    expect(end.readUInt32LE(0)).toBe(0x06054b50);
+    expect(end.readUInt16LE(10)).toBe(2);
+    const centralOffset = end.readUInt32LE(16);
+    expect(zip.readUInt32LE(centralOffset)).toBe(0x02014b50);
+  });
+});
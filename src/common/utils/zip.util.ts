@@ -0,0 +1,101 @@
+import { crc32, deflateRawSync } from "zlib";
+
+/**
+ * Fichier à placer dans une archive ZIP
+ */
+export interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+/**
+ * 🗜️ UTILITAIRE ZIP
+ *
+ * Construit une archive ZIP (méthode "deflate") à partir de fichiers en
+ * mémoire, avec les seules primitives de `zlib`. Utilisé pour les paquets
+ * Anki (.apkg), qui sont des archives ZIP contenant la base SQLite.
+ */
+export class ZipUtil {
+  private static readonly LOCAL_HEADER = 0x04034b50;
+  private static readonly CENTRAL_HEADER = 0x02014b50;
+  private static readonly END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+  /** Version 2.0 : deflate */
+  private static readonly VERSION = 20;
+  private static readonly DEFLATE = 8;
+  /** Bit 11 : noms de fichiers encodés en UTF-8 */
+  private static readonly UTF8_FLAG = 0x0800;
+
+  /**
+   * Crée l'archive
+   *
+   * @param entries - Fichiers à archiver, dans l'ordre
+   * @param date - Date de modification appliquée aux fichiers
+   */
+  static create(entries: ZipEntry[], date = new Date()): Buffer {
+    const { time, day } = this.dosDateTime(date);
+    const locals: Buffer[] = [];
+    const centrals: Buffer[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+      const name = Buffer.from(entry.name, "utf8");
+      const compressed = deflateRawSync(entry.data);
+      const checksum = crc32(entry.data);
+
+      const local = Buffer.alloc(30);
+      local.writeUInt32LE(this.LOCAL_HEADER, 0);
+      local.writeUInt16LE(this.VERSION, 4);
+      local.writeUInt16LE(this.UTF8_FLAG, 6);
+      local.writeUInt16LE(this.DEFLATE, 8);
+      local.writeUInt16LE(time, 10);
+      local.writeUInt16LE(day, 12);
+      local.writeUInt32LE(checksum, 14);
+      local.writeUInt32LE(compressed.length, 18);
+      local.writeUInt32LE(entry.data.length, 22);
+      local.writeUInt16LE(name.length, 26);
+      local.writeUInt16LE(0, 28);
+
+      const central = Buffer.alloc(46);
+      central.writeUInt32LE(this.CENTRAL_HEADER, 0);
+      central.writeUInt16LE(this.VERSION, 4);
+      central.writeUInt16LE(this.VERSION, 6);
+      central.writeUInt16LE(this.UTF8_FLAG, 8);
+      central.writeUInt16LE(this.DEFLATE, 10);
+      central.writeUInt16LE(time, 12);
+      central.writeUInt16LE(day, 14);
+      central.writeUInt32LE(checksum, 16);
+      central.writeUInt32LE(compressed.length, 20);
+      central.writeUInt32LE(entry.data.length, 24);
+      central.writeUInt16LE(name.length, 28);
+      central.writeUInt32LE(offset, 42);
+
+      locals.push(local, name, compressed);
+      centrals.push(central, name);
+      offset += local.length + name.length + compressed.length;
+    }
+
+    const centralDirectory = Buffer.concat(centrals);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(this.END_OF_CENTRAL_DIRECTORY, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(centralDirectory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...locals, centralDirectory, end]);
+  }
+
+  /**
+   * Date et heure au format MS-DOS (résolution de 2 secondes)
+   */
+  private static dosDateTime(date: Date): { time: number; day: number } {
+    const year = Math.max(date.getFullYear(), 1980);
+    return {
+      time:
+        (date.getHours() << 11) |
+        (date.getMinutes() << 5) |
+        Math.floor(date.getSeconds() / 2),
+      day: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    };
+  }
+}
@@ -21,11 +21,15 @@ import { Vote, VoteSchema } from './schemas/vote.schema';
 import { Language, LanguageSchema } from '../languages/schemas/language.schema';
 import { CommunitiesController } from './controllers/communities.controller';
 import { CommunityPostsController } from './controllers/community-posts.controller';
+import { CommunityEventsController } from './controllers/community-events.controller';
 import { CommunitiesService } from './services/communities.service';
 import { CommunityPostsService } from './services/community-posts.service';
 import { VotingService } from './services/voting.service';
+import { CommunityEventsService } from './services/community-events.service';
+import { MailService } from '../common/services/mail.service';
 import { UsersModule } from '../users/users.module';
 import { RepositoriesModule } from '../repositories/repositories.module';
+import { ModerationModule } from '../moderation/moderation.module';
 
 /**
  * Module des communautés et interactions sociales pour O'Ypunu
@@ -65,6 +69,12 @@ import { RepositoriesModule } from '../repositories/repositories.module';
  * - Recommandations personnalisées
  * - Trending et communautés populaires
  * 
+ * ### 📅 Événements
+ * - Sessions planifiées dans le fuseau de l'organisateur
+ * - Réponses avec capacité et liste d'attente
+ * - Rappels par email et flux iCalendar par communauté
+ * - Compte rendu relié aux mots appris pendant la session
+ * 
  * @module CommunitiesModule
  * @version 1.0.0
  */
@@ -81,15 +91,19 @@ import { RepositoriesModule } from '../repositories/repositories.module';
     ]),
     RepositoriesModule, // Accès aux repositories pour persistance
     UsersModule,        // Intégration avec le système utilisateur
+    ModerationModule,   // Modération automatique des publications
   ],
   controllers: [
     CommunitiesController,     // API REST des communautés
     CommunityPostsController, // API REST des publications
+    CommunityEventsController, // API REST des événements
   ],
   providers: [
     CommunitiesService,     // Logique métier des communautés
     CommunityPostsService, // Gestion des publications
     VotingService,         // Système de votes et réactions
+    CommunityEventsService, // Événements, réponses et rappels
+    MailService,           // Rappels d'événements par email
   ],
   exports: [
     CommunitiesService,     // Service exporté pour autres modules
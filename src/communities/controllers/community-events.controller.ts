@@ -0,0 +1,205 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Header,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { OptionalJwtAuthGuard } from '../../auth/guards/optional-jwt-auth.guard';
+import { CommunityEventsService } from '../services/community-events.service';
+import {
+  CreateCommunityEventDto,
+  RecordCommunityEventSummaryDto,
+  RsvpCommunityEventDto,
+  UpdateCommunityEventDto,
+} from '../dto/community-event.dto';
+
+interface RequestWithUser {
+  user: {
+    _id?: string;
+    userId?: string;
+    username: string;
+    email: string;
+    role: string;
+  } | null;
+}
+
+@ApiTags('community-events')
+@Controller('community-events')
+@ApiBearerAuth()
+export class CommunityEventsController {
+  constructor(private readonly _eventsService: CommunityEventsService) {}
+
+  // Fonction utilitaire pour extraire l'ID utilisateur (null si anonyme)
+  private _getUserId(user: RequestWithUser['user']): string | null {
+    const id = user?.userId || user?._id;
+    return id ? id.toString() : null;
+  }
+
+  @Post('communities/:communityId/events')
+  @ApiOperation({
+    summary: 'Planifier un événement',
+    description:
+      "Les dates sont saisies dans l'heure locale du fuseau indiqué. Réservé aux modérateurs.",
+  })
+  @ApiResponse({ status: 201, description: 'Événement planifié' })
+  @ApiResponse({ status: 403, description: 'Droits de modération requis' })
+  @UseGuards(JwtAuthGuard)
+  create(
+    @Param('communityId') communityId: string,
+    @Body() dto: CreateCommunityEventDto,
+    @Request() req: RequestWithUser,
+  ) {
+    return this._eventsService.create(
+      communityId,
+      this._getUserId(req.user)!,
+      dto,
+    );
+  }
+
+  @Get('communities/:communityId/events')
+  @ApiOperation({ summary: "Récupérer l'agenda d'une communauté" })
+  @ApiQuery({ name: 'from', required: false, description: 'Date ISO 8601' })
+  @ApiQuery({ name: 'to', required: false, description: 'Date ISO 8601' })
+  @ApiQuery({
+    name: 'tz',
+    required: false,
+    description: "Fuseau IANA du lecteur pour l'affichage",
+    example: 'Europe/Paris',
+  })
+  @UseGuards(OptionalJwtAuthGuard)
+  findByCommunity(
+    @Param('communityId') communityId: string,
+    @Request() req: RequestWithUser,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('tz') timezone?: string,
+  ) {
+    return this._eventsService.findByCommunity(
+      communityId,
+      this._getUserId(req.user),
+      { from, to, timezone },
+    );
+  }
+
+  @Get('communities/:communityId/events.ics')
+  @ApiOperation({
+    summary: "Flux iCalendar des événements d'une communauté",
+    description: 'Abonnable depuis un agenda pour les communautés publiques.',
+  })
+  @Header('Content-Type', 'text/calendar; charset=utf-8')
+  @Header('Content-Disposition', 'inline; filename="events.ics"')
+  @UseGuards(OptionalJwtAuthGuard)
+  getCalendarFeed(
+    @Param('communityId') communityId: string,
+    @Request() req: RequestWithUser,
+  ) {
+    return this._eventsService.getCalendarFeed(
+      communityId,
+      this._getUserId(req.user),
+    );
+  }
+
+  @Get('events/:eventId')
+  @ApiOperation({ summary: 'Récupérer un événement' })
+  @ApiQuery({ name: 'tz', required: false, description: 'Fuseau du lecteur' })
+  @UseGuards(OptionalJwtAuthGuard)
+  findOne(
+    @Param('eventId') eventId: string,
+    @Request() req: RequestWithUser,
+    @Query('tz') timezone?: string,
+  ) {
+    return this._eventsService.findOne(
+      eventId,
+      this._getUserId(req.user),
+      timezone,
+    );
+  }
+
+  @Patch('events/:eventId')
+  @ApiOperation({ summary: 'Modifier un événement' })
+  @UseGuards(JwtAuthGuard)
+  update(
+    @Param('eventId') eventId: string,
+    @Body() dto: UpdateCommunityEventDto,
+    @Request() req: RequestWithUser,
+  ) {
+    return this._eventsService.update(eventId, this._getUserId(req.user)!, dto);
+  }
+
+  @Post('events/:eventId/cancel')
+  @ApiOperation({ summary: 'Annuler un événement' })
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  cancel(@Param('eventId') eventId: string, @Request() req: RequestWithUser) {
+    return this._eventsService.cancel(eventId, this._getUserId(req.user)!);
+  }
+
+  @Post('events/:eventId/rsvp')
+  @ApiOperation({
+    summary: 'Répondre à un événement',
+    description:
+      "Une réponse « going » sur un événement complet place en liste d'attente.",
+  })
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  rsvp(
+    @Param('eventId') eventId: string,
+    @Body() dto: RsvpCommunityEventDto,
+    @Request() req: RequestWithUser,
+  ) {
+    return this._eventsService.rsvp(
+      eventId,
+      this._getUserId(req.user)!,
+      dto.status,
+    );
+  }
+
+  @Get('events/:eventId/attendees')
+  @ApiOperation({ summary: "Réponses et liste d'attente (organisateurs)" })
+  @UseGuards(JwtAuthGuard)
+  getAttendees(
+    @Param('eventId') eventId: string,
+    @Request() req: RequestWithUser,
+  ) {
+    return this._eventsService.getAttendees(
+      eventId,
+      this._getUserId(req.user)!,
+    );
+  }
+
+  @Post('events/:eventId/summary')
+  @ApiOperation({
+    summary: "Rédiger le compte rendu d'un événement terminé",
+    description:
+      "Relie à l'événement les mots appris par les participants pendant la session.",
+  })
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  recordSummary(
+    @Param('eventId') eventId: string,
+    @Body() dto: RecordCommunityEventSummaryDto,
+    @Request() req: RequestWithUser,
+  ) {
+    return this._eventsService.recordSummary(
+      eventId,
+      this._getUserId(req.user)!,
+      dto,
+    );
+  }
+}
@@ -0,0 +1,138 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsTimeZone,
+  IsUrl,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import {
+  COMMUNITY_EVENT_TYPES,
+  CommunityEventType,
+} from '../schemas/community-event.schema';
+import {
+  RSVP_STATUSES,
+  RsvpStatus,
+} from '../schemas/community-event-rsvp.schema';
+
+export class CreateCommunityEventDto {
+  @ApiProperty({
+    description: "Titre de l'événement",
+    maxLength: 150,
+    example: 'Veillée de contes en yipunu',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(150)
+  title: string;
+
+  @ApiPropertyOptional({ description: "Description de l'événement" })
+  @IsString()
+  @IsOptional()
+  @MaxLength(5000)
+  description?: string;
+
+  @ApiPropertyOptional({
+    description: "Type d'événement",
+    enum: COMMUNITY_EVENT_TYPES,
+    default: 'other',
+  })
+  @IsIn(COMMUNITY_EVENT_TYPES)
+  @IsOptional()
+  type?: CommunityEventType;
+
+  @ApiProperty({
+    description:
+      'Début, en heure locale du fuseau ou en ISO 8601 avec décalage',
+    example: '2025-03-08T19:00',
+  })
+  @IsString()
+  @IsNotEmpty()
+  startsAt: string;
+
+  @ApiProperty({
+    description: 'Fin, en heure locale du fuseau ou en ISO 8601 avec décalage',
+    example: '2025-03-08T20:30',
+  })
+  @IsString()
+  @IsNotEmpty()
+  endsAt: string;
+
+  @ApiProperty({
+    description: "Fuseau IANA de l'événement",
+    example: 'Africa/Libreville',
+  })
+  @IsTimeZone()
+  timezone: string;
+
+  @ApiPropertyOptional({ description: 'Lieu de rendez-vous' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(300)
+  location?: string;
+
+  @ApiPropertyOptional({ description: 'Lien de visioconférence' })
+  @IsUrl()
+  @IsOptional()
+  meetingUrl?: string;
+
+  @ApiPropertyOptional({
+    description: 'Nombre de places (illimité si absent)',
+    minimum: 1,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(10000)
+  @IsOptional()
+  capacity?: number;
+
+  @ApiPropertyOptional({
+    description: 'Délai du rappel par email, en minutes avant le début',
+    default: 60,
+    minimum: 5,
+  })
+  @IsInt()
+  @Min(5)
+  @Max(10080)
+  @IsOptional()
+  reminderMinutesBefore?: number;
+}
+
+export class UpdateCommunityEventDto extends PartialType(
+  CreateCommunityEventDto,
+) {}
+
+export class RsvpCommunityEventDto {
+  @ApiProperty({
+    description: "Réponse à l'invitation (liste d'attente si complet)",
+    enum: RSVP_STATUSES.filter((status) => status !== 'waitlisted'),
+  })
+  @IsIn(['going', 'maybe', 'declined'])
+  status: Exclude<RsvpStatus, 'waitlisted'>;
+}
+
+export class RecordCommunityEventSummaryDto {
+  @ApiPropertyOptional({ description: 'Compte rendu de la session' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(5000)
+  notes?: string;
+
+  @ApiPropertyOptional({
+    description: "Mots travaillés mis en avant par l'organisateur",
+    type: [String],
+  })
+  @IsArray()
+  @ArrayMaxSize(100)
+  @IsMongoId({ each: true })
+  @IsOptional()
+  highlightedWordIds?: string[];
+}
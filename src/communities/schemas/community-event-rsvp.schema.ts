@@ -0,0 +1,50 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+import { CommunityEvent } from './community-event.schema';
+import { User } from '../../users/schemas/user.schema';
+
+export type CommunityEventRsvpDocument = CommunityEventRsvp & Document;
+
+export const RSVP_STATUSES = [
+  'going',
+  'maybe',
+  'declined',
+  'waitlisted',
+] as const;
+export type RsvpStatus = (typeof RSVP_STATUSES)[number];
+
+/**
+ * Réponse d'un membre à un événement. Un membre qui répond « going » à
+ * un événement complet est placé en liste d'attente, puis promu dans
+ * l'ordre d'inscription quand une place se libère.
+ */
+@Schema({ timestamps: true, collection: 'community_event_rsvps' })
+export class CommunityEventRsvp {
+  @Prop({
+    type: MongooseSchema.Types.ObjectId,
+    ref: 'CommunityEvent',
+    required: true,
+  })
+  eventId: CommunityEvent;
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'User', required: true })
+  userId: User;
+
+  @Prop({ type: String, enum: RSVP_STATUSES, required: true })
+  status: RsvpStatus;
+
+  /** Date d'entrée en liste d'attente, qui fixe l'ordre de promotion */
+  @Prop({ type: Date, default: null })
+  waitlistedAt: Date | null;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const CommunityEventRsvpSchema =
+  SchemaFactory.createForClass(CommunityEventRsvp);
+
+CommunityEventRsvpSchema.index({ eventId: 1, userId: 1 }, { unique: true });
+
+// Participants et liste d'attente d'un événement
+CommunityEventRsvpSchema.index({ eventId: 1, status: 1, waitlistedAt: 1 });
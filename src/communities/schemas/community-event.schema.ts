@@ -0,0 +1,145 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+import { Community } from './community.schema';
+import { User } from '../../users/schemas/user.schema';
+import { Word } from '../../dictionary/schemas/word.schema';
+
+export type CommunityEventDocument = CommunityEvent & Document;
+
+export const COMMUNITY_EVENT_TYPES = [
+  'vocabulary_session',
+  'storytelling',
+  'study_session',
+  'conversation',
+  'other',
+] as const;
+export type CommunityEventType = (typeof COMMUNITY_EVENT_TYPES)[number];
+
+export const COMMUNITY_EVENT_STATUSES = ['scheduled', 'cancelled'] as const;
+export type CommunityEventStatus = (typeof COMMUNITY_EVENT_STATUSES)[number];
+
+/**
+ * Mot appris pendant un événement
+ */
+@Schema({ _id: false })
+export class CommunityEventWord {
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'Word', required: true })
+  wordId: Word;
+
+  /** Participants ayant appris le mot pendant l'événement */
+  @Prop({ default: 0 })
+  learnerCount: number;
+
+  /** Mot mis en avant par l'organisateur */
+  @Prop({ default: false })
+  highlighted: boolean;
+}
+
+export const CommunityEventWordSchema =
+  SchemaFactory.createForClass(CommunityEventWord);
+
+/**
+ * Compte rendu rédigé après l'événement
+ */
+@Schema({ _id: false })
+export class CommunityEventSummary {
+  @Prop({ type: String, trim: true, maxlength: 5000 })
+  notes?: string;
+
+  @Prop({ type: [CommunityEventWordSchema], default: [] })
+  words: CommunityEventWord[];
+
+  /** Participants inscrits au moment du compte rendu */
+  @Prop({ default: 0 })
+  attendeeCount: number;
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'User', required: true })
+  recordedBy: User;
+
+  @Prop({ type: Date, required: true })
+  recordedAt: Date;
+}
+
+export const CommunityEventSummarySchema = SchemaFactory.createForClass(
+  CommunityEventSummary,
+);
+
+/**
+ * Événement planifié par une communauté (session de vocabulaire, veillée
+ * de contes...). Les dates sont stockées en UTC avec le fuseau de
+ * l'organisateur, qui sert à l'affichage et aux rappels.
+ */
+@Schema({ timestamps: true, collection: 'community_events' })
+export class CommunityEvent {
+  @Prop({
+    type: MongooseSchema.Types.ObjectId,
+    ref: 'Community',
+    required: true,
+  })
+  communityId: Community;
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'User', required: true })
+  createdBy: User;
+
+  @Prop({ required: true, trim: true, maxlength: 150 })
+  title: string;
+
+  @Prop({ type: String, trim: true, maxlength: 5000 })
+  description?: string;
+
+  @Prop({ type: String, enum: COMMUNITY_EVENT_TYPES, default: 'other' })
+  type: CommunityEventType;
+
+  @Prop({ type: Date, required: true })
+  startsAt: Date;
+
+  @Prop({ type: Date, required: true })
+  endsAt: Date;
+
+  /** Fuseau IANA de l'organisateur, ex: Africa/Libreville */
+  @Prop({ required: true })
+  timezone: string;
+
+  @Prop({ type: String, trim: true, maxlength: 300 })
+  location?: string;
+
+  @Prop({ type: String, trim: true })
+  meetingUrl?: string;
+
+  /** Nombre de places, null si illimité */
+  @Prop({ type: Number, default: null, min: 1 })
+  capacity: number | null;
+
+  /** Participants confirmés (réponses « going ») */
+  @Prop({ default: 0, min: 0 })
+  goingCount: number;
+
+  /** Délai du rappel par email avant le début */
+  @Prop({ default: 60, min: 5 })
+  reminderMinutesBefore: number;
+
+  @Prop({ type: Date, default: null })
+  reminderSentAt: Date | null;
+
+  @Prop({ type: String, enum: COMMUNITY_EVENT_STATUSES, default: 'scheduled' })
+  status: CommunityEventStatus;
+
+  /** Révision de l'événement, reprise dans le flux iCalendar */
+  @Prop({ default: 0 })
+  sequence: number;
+
+  @Prop({ type: CommunityEventSummarySchema, default: null })
+  summary: CommunityEventSummary | null;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const CommunityEventSchema =
+  SchemaFactory.createForClass(CommunityEvent);
+
+// Agenda d'une communauté
+CommunityEventSchema.index({ communityId: 1, startsAt: 1 });
+
+// Balayage des rappels à envoyer
+CommunityEventSchema.index({ status: 1, reminderSentAt: 1, startsAt: 1 });
@@ -56,7 +56,7 @@ export class CommunityPost {
   // Champs de qualité et modération
   @Prop({
     type: String,
-    enum: ['active', 'locked', 'archived', 'deleted'],
+    enum: ['active', 'locked', 'archived', 'hidden', 'deleted'],
     default: 'active',
   })
   status: string;
@@ -0,0 +1,328 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { ConfigService } from "@nestjs/config";
+import { BadRequestException, ForbiddenException } from "@nestjs/common";
+import { CommunityEventsService } from "./community-events.service";
+import { MailService } from "../../common/services/mail.service";
+
+describe("CommunityEventsService", () => {
+  let service: CommunityEventsService;
+  let events: Record<string, any>;
+  let rsvps: any[];
+  let eventRepository: any;
+  let reviewRepository: any;
+  let mailService: { sendCommunityEventReminder: jest.Mock };
+
+  const communityId = "64d000000000000000000100";
+  const eventId = "64d000000000000000000200";
+  const moderatorId = "64d000000000000000000001";
+  const aliceId = "64d000000000000000000002";
+  const bobId = "64d000000000000000000003";
+  const carolId = "64d000000000000000000004";
+  const outsiderId = "64d000000000000000000009";
+  const members = [moderatorId, aliceId, bobId, carolId];
+
+  let community: Record<string, any>;
+
+  function event(overrides: Record<string, any> = {}) {
+    events[eventId] = {
+      _id: eventId,
+      communityId,
+      createdBy: moderatorId,
+      title: "Veillée de contes",
+      startsAt: new Date(Date.now() + 2 * 3600 * 1000),
+      endsAt: new Date(Date.now() + 3 * 3600 * 1000),
+      timezone: "Africa/Libreville",
+      capacity: null,
+      goingCount: 0,
+      reminderMinutesBefore: 60,
+      reminderSentAt: null,
+      status: "scheduled",
+      sequence: 0,
+      summary: null,
+      ...overrides,
+    };
+    return events[eventId];
+  }
+
+  function rsvpOf(userId: string) {
+    return rsvps.find((rsvp) => rsvp.userId === userId)?.status;
+  }
+
+  beforeEach(async () => {
+    events = {};
+    rsvps = [];
+    community = { _id: communityId, name: "Club Yipunu", isPrivate: false };
+    mailService = { sendCommunityEventReminder: jest.fn() };
+
+    eventRepository = {
+      create: jest.fn((data) =>
+        Promise.resolve(event({ ...data, capacity: data.capacity ?? null }))
+      ),
+      findById: jest.fn((id: string) => Promise.resolve(events[id] || null)),
+      update: jest.fn((id: string, data: Record<string, any>) => {
+        Object.assign(events[id], data);
+        events[id].sequence++;
+        return Promise.resolve(events[id]);
+      }),
+      findByCommunity: jest.fn(() => Promise.resolve(Object.values(events))),
+      reserveSeat: jest.fn((id: string) => {
+        const target = events[id];
+        if (target.capacity !== null && target.goingCount >= target.capacity) {
+          return Promise.resolve(false);
+        }
+        target.goingCount++;
+        return Promise.resolve(true);
+      }),
+      releaseSeat: jest.fn((id: string) => {
+        events[id].goingCount--;
+        return Promise.resolve();
+      }),
+      findDueForReminder: jest.fn(() => Promise.resolve(Object.values(events))),
+      claimReminder: jest.fn((id: string) => {
+        if (events[id].reminderSentAt) {
+          return Promise.resolve(false);
+        }
+        events[id].reminderSentAt = new Date();
+        return Promise.resolve(true);
+      }),
+      setSummary: jest.fn((id: string, summary: any) => {
+        events[id].summary = summary;
+        return Promise.resolve(events[id]);
+      }),
+    };
+    const rsvpRepository = {
+      findOne: jest.fn((id: string, userId: string) =>
+        Promise.resolve(rsvps.find((rsvp) => rsvp.userId === userId) || null)
+      ),
+      upsert: jest.fn(
+        (id: string, userId: string, status: string, waitlistedAt = null) => {
+          rsvps = rsvps.filter((rsvp) => rsvp.userId !== userId);
+          rsvps.push({ eventId: id, userId, status, waitlistedAt });
+          return Promise.resolve(rsvps[rsvps.length - 1]);
+        }
+      ),
+      findByEvent: jest.fn((id: string, status?: string) =>
+        Promise.resolve(
+          rsvps
+            .filter((rsvp) => !status || rsvp.status === status)
+            .map((rsvp) => ({
+              ...rsvp,
+              userId: {
+                _id: rsvp.userId,
+                username: `user-${rsvp.userId.slice(-1)}`,
+                email: `${rsvp.userId.slice(-1)}@example.com`,
+              },
+            }))
+        )
+      ),
+      countByStatus: jest.fn().mockResolvedValue({}),
+      findFirstWaitlisted: jest.fn(() =>
+        Promise.resolve(
+          rsvps
+            .filter((rsvp) => rsvp.status === "waitlisted")
+            .sort((a, b) => a.waitlistedAt - b.waitlistedAt)[0] || null
+        )
+      ),
+    };
+    reviewRepository = {
+      findWordsLearned: jest.fn().mockResolvedValue([
+        { wordId: "64d000000000000000000301", learnerCount: 2 },
+        { wordId: "64d000000000000000000302", learnerCount: 1 },
+      ]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CommunityEventsService,
+        { provide: "ICommunityEventRepository", useValue: eventRepository },
+        { provide: "ICommunityEventRsvpRepository", useValue: rsvpRepository },
+        {
+          provide: "ICommunityRepository",
+          useValue: {
+            findById: jest.fn(() => Promise.resolve(community)),
+          },
+        },
+        {
+          provide: "ICommunityMemberRepository",
+          useValue: {
+            isMember: jest.fn((id: string, userId: string) =>
+              Promise.resolve(members.includes(userId))
+            ),
+            canModerate: jest.fn((id: string, userId: string) =>
+              Promise.resolve(userId === moderatorId)
+            ),
+          },
+        },
+        { provide: "IStudyReviewRepository", useValue: reviewRepository },
+        {
+          provide: "IWordRepository",
+          useValue: {
+            findById: jest.fn((id: string) =>
+              Promise.resolve(
+                id.startsWith("64d0000000000000000003") ? { _id: id } : null
+              )
+            ),
+          },
+        },
+        { provide: MailService, useValue: mailService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue("https://oypunu.test") },
+        },
+      ],
+    }).compile();
+
+    service = module.get<CommunityEventsService>(CommunityEventsService);
+  });
+
+  it("should schedule events in the organizer's time zone", async () => {
+    const dto = {
+      title: "Session de vocabulaire",
+      startsAt: "2099-01-15T19:00",
+      endsAt: "2099-01-15T20:30",
+      timezone: "Africa/Libreville",
+    };
+
+    await expect(service.create(communityId, aliceId, dto)).rejects.toThrow(
+      ForbiddenException
+    );
+    await expect(
+      service.create(communityId, moderatorId, {
+        ...dto,
+        endsAt: "2099-01-15T18:00",
+      })
+    ).rejects.toThrow(BadRequestException);
+
+    const created = await service.create(communityId, moderatorId, dto);
+    expect(eventRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        startsAt: new Date("2099-01-15T18:00:00.000Z"),
+        endsAt: new Date("2099-01-15T19:30:00.000Z"),
+      })
+    );
+    expect(created.startsAtLocal).toBe("2099-01-15T19:00:00+01:00");
+
+    const { events: agenda } = await service.findByCommunity(
+      communityId,
+      null,
+      { timezone: "America/New_York" }
+    );
+    expect(agenda[0].viewer).toEqual({
+      timezone: "America/New_York",
+      startsAt: "2099-01-15T13:00:00-05:00",
+      endsAt: "2099-01-15T14:30:00-05:00",
+    });
+  });
+
+  it("should waitlist members beyond capacity and promote them when a seat frees up", async () => {
+    event({ capacity: 2 });
+
+    await expect(service.rsvp(eventId, outsiderId, "going")).rejects.toThrow(
+      ForbiddenException
+    );
+    await service.rsvp(eventId, aliceId, "going");
+    await service.rsvp(eventId, bobId, "going");
+    await expect(service.rsvp(eventId, carolId, "going")).resolves.toEqual({
+      status: "waitlisted",
+      goingCount: 2,
+    });
+
+    await service.rsvp(eventId, aliceId, "declined");
+    expect(rsvpOf(carolId)).toBe("going");
+    expect(rsvpOf(aliceId)).toBe("declined");
+    expect(events[eventId].goingCount).toBe(2);
+
+    // Une place supplémentaire promeut la liste d'attente
+    await service.rsvp(eventId, aliceId, "going");
+    expect(rsvpOf(aliceId)).toBe("waitlisted");
+    await service.update(eventId, moderatorId, { capacity: 3 });
+    expect(rsvpOf(aliceId)).toBe("going");
+    await expect(
+      service.update(eventId, moderatorId, { capacity: 1 })
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it("should email each going attendee once when the reminder is due", async () => {
+    event({ startsAt: new Date("2099-01-15T18:00:00.000Z") });
+    await service.rsvp(eventId, aliceId, "going");
+    await service.rsvp(eventId, bobId, "maybe");
+
+    await expect(service.sendDueReminders()).resolves.toBe(1);
+    expect(mailService.sendCommunityEventReminder).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: "2@example.com",
+        eventTitle: "Veillée de contes",
+        communityName: "Club Yipunu",
+        startsAt: expect.stringContaining("19:00"),
+        timezone: "Africa/Libreville",
+        eventUrl: `https://oypunu.test/communities/events/${eventId}`,
+      })
+    );
+
+    // Un second balayage ne renvoie rien
+    await expect(service.sendDueReminders()).resolves.toBe(0);
+  });
+
+  it("should link words learned by attendees to the event summary", async () => {
+    event();
+    await service.rsvp(eventId, aliceId, "going");
+    await service.rsvp(eventId, bobId, "going");
+
+    await expect(
+      service.recordSummary(eventId, moderatorId, {})
+    ).rejects.toThrow(BadRequestException);
+
+    events[eventId].startsAt = new Date(Date.now() - 2 * 3600 * 1000);
+    events[eventId].endsAt = new Date(Date.now() - 3600 * 1000);
+    await expect(
+      service.recordSummary(eventId, moderatorId, {
+        highlightedWordIds: ["64d000000000000000000999"],
+      })
+    ).rejects.toThrow(BadRequestException);
+
+    const result = await service.recordSummary(eventId, moderatorId, {
+      notes: "Proverbes du village",
+      highlightedWordIds: ["64d000000000000000000302"],
+    });
+    expect(reviewRepository.findWordsLearned).toHaveBeenCalledWith(
+      [aliceId, bobId],
+      events[eventId].startsAt,
+      events[eventId].endsAt,
+      CommunityEventsService.MAX_SUMMARY_WORDS
+    );
+    expect(result.summary).toEqual(
+      expect.objectContaining({
+        notes: "Proverbes du village",
+        attendeeCount: 2,
+        words: [
+          {
+            wordId: "64d000000000000000000302",
+            learnerCount: 1,
+            highlighted: true,
+          },
+          {
+            wordId: "64d000000000000000000301",
+            learnerCount: 2,
+            highlighted: false,
+          },
+        ],
+      })
+    );
+  });
+
+  it("should publish a calendar feed for public communities only", async () => {
+    event({ status: "cancelled", sequence: 1 });
+
+    const feed = await service.getCalendarFeed(communityId, null);
+    expect(feed).toContain(`UID:${eventId}@oypunu.com`);
+    expect(feed).toContain("STATUS:CANCELLED");
+
+    community.isPrivate = true;
+    await expect(service.getCalendarFeed(communityId, null)).rejects.toThrow(
+      ForbiddenException
+    );
+    await expect(
+      service.getCalendarFeed(communityId, aliceId)
+    ).resolves.toContain("BEGIN:VEVENT");
+  });
+});
@@ -0,0 +1,687 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import {
+  CommunityEvent,
+  CommunityEventWord,
+} from "../schemas/community-event.schema";
+import { RsvpStatus } from "../schemas/community-event-rsvp.schema";
+import { Community } from "../schemas/community.schema";
+import {
+  CreateCommunityEventDto,
+  RecordCommunityEventSummaryDto,
+  UpdateCommunityEventDto,
+} from "../dto/community-event.dto";
+import { ICommunityEventRepository } from "../../repositories/interfaces/community-event.repository.interface";
+import { ICommunityEventRsvpRepository } from "../../repositories/interfaces/community-event-rsvp.repository.interface";
+import { ICommunityRepository } from "../../repositories/interfaces/community.repository.interface";
+import { ICommunityMemberRepository } from "../../repositories/interfaces/community-member.repository.interface";
+import { IStudyReviewRepository } from "../../repositories/interfaces/study-review.repository.interface";
+import { IWordRepository } from "../../repositories/interfaces/word.repository.interface";
+import { MailService } from "../../common/services/mail.service";
+import { TimeZone } from "../../common/utils/time-zone.util";
+import { ICalendar } from "../../common/utils/icalendar.util";
+
+/** Fréquence du balayage des rappels */
+const REMINDER_SWEEP_INTERVAL_MS = 60 * 1000;
+
+/** Historique conservé dans le flux iCalendar */
+const CALENDAR_HISTORY_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Événement tel que présenté aux clients
+ */
+export type CommunityEventView = CommunityEvent & {
+  _id: string;
+  /** Dates dans le fuseau de l'événement, avec décalage */
+  startsAtLocal: string;
+  endsAtLocal: string;
+  /** Dates dans le fuseau demandé par le lecteur */
+  viewer?: { timezone: string; startsAt: string; endsAt: string };
+  /** Places restantes, null si illimité */
+  spotsLeft: number | null;
+  myRsvp?: RsvpStatus | null;
+};
+
+/**
+ * Service des événements de communauté
+ *
+ * Les modérateurs planifient des événements (sessions de vocabulaire,
+ * veillées de contes...) dans le fuseau de leur choix ; les membres y
+ * répondent dans la limite des places, au-delà en liste d'attente. Un
+ * rappel est envoyé par email aux participants, chaque communauté
+ * publique expose un flux iCalendar, et le compte rendu relie à
+ * l'événement les mots appris par les participants pendant la session.
+ */
+@Injectable()
+export class CommunityEventsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(CommunityEventsService.name);
+
+  /** Rappels traités par balayage */
+  static readonly REMINDER_BATCH_SIZE = 50;
+  static readonly MAX_SUMMARY_WORDS = 100;
+
+  private reminderInterval: NodeJS.Timeout;
+
+  constructor(
+    @Inject("ICommunityEventRepository")
+    private communityEventRepository: ICommunityEventRepository,
+    @Inject("ICommunityEventRsvpRepository")
+    private communityEventRsvpRepository: ICommunityEventRsvpRepository,
+    @Inject("ICommunityRepository")
+    private communityRepository: ICommunityRepository,
+    @Inject("ICommunityMemberRepository")
+    private communityMemberRepository: ICommunityMemberRepository,
+    @Inject("IStudyReviewRepository")
+    private studyReviewRepository: IStudyReviewRepository,
+    @Inject("IWordRepository") private wordRepository: IWordRepository,
+    private mailService: MailService,
+    private configService: ConfigService
+  ) {}
+
+  onModuleInit(): void {
+    this.reminderInterval = setInterval(() => {
+      this.sendDueReminders().catch((error) =>
+        this.logger.warn(`Balayage des rappels impossible: ${error.message}`)
+      );
+    }, REMINDER_SWEEP_INTERVAL_MS);
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.reminderInterval);
+  }
+
+  // ========== PLANIFICATION ==========
+
+  /**
+   * Planifier un événement (modérateurs et administrateurs)
+   *
+   * @throws {BadRequestException} Si les dates sont illisibles ou passées
+   */
+  async create(
+    communityId: string,
+    userId: string,
+    dto: CreateCommunityEventDto
+  ): Promise<CommunityEventView> {
+    await this.getCommunity(communityId);
+    if (
+      !(await this.communityMemberRepository.canModerate(communityId, userId))
+    ) {
+      throw new ForbiddenException(
+        "Seuls les modérateurs peuvent planifier des événements"
+      );
+    }
+
+    const { startsAt, endsAt } = this.parseSchedule(
+      dto.startsAt,
+      dto.endsAt,
+      dto.timezone
+    );
+    if (startsAt <= new Date()) {
+      throw new BadRequestException("L'événement doit commencer dans le futur");
+    }
+
+    const event = await this.communityEventRepository.create({
+      communityId,
+      createdBy: userId,
+      title: dto.title,
+      description: dto.description,
+      type: dto.type,
+      startsAt,
+      endsAt,
+      timezone: dto.timezone,
+      location: dto.location,
+      meetingUrl: dto.meetingUrl,
+      capacity: dto.capacity ?? null,
+      reminderMinutesBefore: dto.reminderMinutesBefore,
+    });
+    this.logger.log(
+      `Événement ${String((event as any)._id)} planifié dans ${communityId}`
+    );
+    return this.present(event);
+  }
+
+  /**
+   * Modifier un événement (organisateur ou modérateurs)
+   *
+   * Un changement de fuseau seul conserve l'instant de début ; une
+   * nouvelle date de début rouvre l'envoi du rappel. Une hausse de la
+   * capacité promeut la liste d'attente.
+   */
+  async update(
+    eventId: string,
+    userId: string,
+    dto: UpdateCommunityEventDto
+  ): Promise<CommunityEventView> {
+    const event = await this.getManageableEvent(eventId, userId);
+    if (event.status === "cancelled") {
+      throw new BadRequestException("Cet événement est annulé");
+    }
+
+    const updateData: Partial<CommunityEvent> = {};
+    for (const field of [
+      "title",
+      "description",
+      "type",
+      "location",
+      "meetingUrl",
+      "reminderMinutesBefore",
+    ] as const) {
+      if (dto[field] !== undefined) {
+        (updateData as Record<string, unknown>)[field] = dto[field];
+      }
+    }
+
+    const timezone = dto.timezone ?? event.timezone;
+    if (dto.startsAt || dto.endsAt || dto.timezone) {
+      const { startsAt, endsAt } = this.parseSchedule(
+        dto.startsAt ?? event.startsAt.toISOString(),
+        dto.endsAt ?? event.endsAt.toISOString(),
+        timezone
+      );
+      updateData.timezone = timezone;
+      updateData.startsAt = startsAt;
+      updateData.endsAt = endsAt;
+      if (startsAt.getTime() !== new Date(event.startsAt).getTime()) {
+        if (startsAt <= new Date()) {
+          throw new BadRequestException(
+            "L'événement doit commencer dans le futur"
+          );
+        }
+        updateData.reminderSentAt = null;
+      }
+    }
+
+    if (dto.capacity !== undefined) {
+      const capacity = dto.capacity ?? null;
+      if (capacity !== null && capacity < event.goingCount) {
+        throw new BadRequestException(
+          `${event.goingCount} participants sont déjà inscrits`
+        );
+      }
+      updateData.capacity = capacity;
+    }
+
+    const updated = await this.communityEventRepository.update(
+      eventId,
+      updateData
+    );
+    if (dto.capacity !== undefined) {
+      await this.promoteWaitlist(eventId);
+    }
+    return this.present(
+      (await this.communityEventRepository.findById(eventId)) ?? updated!
+    );
+  }
+
+  /**
+   * Annuler un événement ; il reste dans le flux iCalendar, marqué annulé
+   */
+  async cancel(eventId: string, userId: string): Promise<CommunityEventView> {
+    await this.getManageableEvent(eventId, userId);
+    const updated = await this.communityEventRepository.update(eventId, {
+      status: "cancelled",
+    });
+    return this.present(updated!);
+  }
+
+  // ========== CONSULTATION ==========
+
+  /**
+   * Agenda d'une communauté, par défaut à partir de maintenant
+   *
+   * @param viewerId - null pour un visiteur non connecté
+   * @param options.timezone - Fuseau du lecteur pour l'affichage
+   */
+  async findByCommunity(
+    communityId: string,
+    viewerId: string | null,
+    options: { from?: string; to?: string; timezone?: string } = {}
+  ): Promise<{ events: CommunityEventView[]; total: number }> {
+    const community = await this.getCommunity(communityId);
+    await this.assertCanView(community, communityId, viewerId);
+    const timezone = this.viewerTimezone(options.timezone);
+
+    const events = await this.communityEventRepository.findByCommunity(
+      communityId,
+      {
+        from: this.parseDate(options.from, "from") ?? new Date(),
+        to: this.parseDate(options.to, "to"),
+      }
+    );
+    return {
+      events: events.map((event) => this.present(event, timezone)),
+      total: events.length,
+    };
+  }
+
+  /**
+   * Détail d'un événement, avec les réponses et celle du lecteur
+   */
+  async findOne(
+    eventId: string,
+    viewerId: string | null,
+    timezone?: string
+  ): Promise<CommunityEventView & { rsvpCounts: Record<RsvpStatus, number> }> {
+    const event = await this.getEvent(eventId);
+    const communityId = String(event.communityId);
+    await this.assertCanView(
+      await this.getCommunity(communityId),
+      communityId,
+      viewerId
+    );
+
+    const [rsvpCounts, rsvp] = await Promise.all([
+      this.communityEventRsvpRepository.countByStatus(eventId),
+      viewerId
+        ? this.communityEventRsvpRepository.findOne(eventId, viewerId)
+        : Promise.resolve(null),
+    ]);
+    return {
+      ...this.present(event, this.viewerTimezone(timezone)),
+      myRsvp: viewerId ? (rsvp?.status ?? null) : undefined,
+      rsvpCounts,
+    };
+  }
+
+  /**
+   * Réponses à un événement, liste d'attente dans l'ordre (organisateurs)
+   */
+  async getAttendees(eventId: string, userId: string) {
+    await this.getManageableEvent(eventId, userId);
+    return this.communityEventRsvpRepository.findByEvent(eventId);
+  }
+
+  /**
+   * Flux iCalendar des événements d'une communauté publique (ou d'une
+   * communauté privée pour ses membres)
+   */
+  async getCalendarFeed(
+    communityId: string,
+    viewerId: string | null
+  ): Promise<string> {
+    const community = await this.getCommunity(communityId);
+    await this.assertCanView(community, communityId, viewerId);
+
+    const events = await this.communityEventRepository.findByCommunity(
+      communityId,
+      {
+        from: new Date(Date.now() - CALENDAR_HISTORY_MS),
+        includeCancelled: true,
+        limit: 200,
+      }
+    );
+    return ICalendar.build({
+      name: `${community.name} - O'Ypunu`,
+      description: community.description,
+      events: events.map((event) => ({
+        uid: `${String((event as any)._id)}@oypunu.com`,
+        start: new Date(event.startsAt),
+        end: new Date(event.endsAt),
+        summary: event.title,
+        description: event.description,
+        location: event.location || event.meetingUrl,
+        url: this.eventUrl(String((event as any)._id)),
+        status: event.status === "cancelled" ? "CANCELLED" : "CONFIRMED",
+        sequence: event.sequence,
+        updatedAt: event.updatedAt,
+      })),
+    });
+  }
+
+  // ========== RÉPONSES ==========
+
+  /**
+   * Répondre à un événement (membres de la communauté)
+   *
+   * « going » sur un événement complet place en liste d'attente ; une
+   * place libérée revient au premier de la liste.
+   */
+  async rsvp(
+    eventId: string,
+    userId: string,
+    status: Exclude<RsvpStatus, "waitlisted">
+  ): Promise<{ status: RsvpStatus; goingCount: number }> {
+    const event = await this.getEvent(eventId);
+    if (event.status === "cancelled") {
+      throw new BadRequestException("Cet événement est annulé");
+    }
+    if (new Date(event.endsAt) <= new Date()) {
+      throw new BadRequestException("Cet événement est terminé");
+    }
+    if (
+      !(await this.communityMemberRepository.isMember(
+        String(event.communityId),
+        userId
+      ))
+    ) {
+      throw new ForbiddenException(
+        "Rejoignez la communauté pour participer à ses événements"
+      );
+    }
+
+    const previous = await this.communityEventRsvpRepository.findOne(
+      eventId,
+      userId
+    );
+    let finalStatus: RsvpStatus = status;
+
+    if (status === "going") {
+      if (previous?.status !== "going") {
+        if (await this.communityEventRepository.reserveSeat(eventId)) {
+          await this.communityEventRsvpRepository.upsert(
+            eventId,
+            userId,
+            "going"
+          );
+        } else {
+          finalStatus = "waitlisted";
+          await this.communityEventRsvpRepository.upsert(
+            eventId,
+            userId,
+            "waitlisted",
+            previous?.status === "waitlisted"
+              ? previous.waitlistedAt
+              : new Date()
+          );
+        }
+      }
+    } else {
+      await this.communityEventRsvpRepository.upsert(eventId, userId, status);
+      if (previous?.status === "going") {
+        await this.communityEventRepository.releaseSeat(eventId);
+        await this.promoteWaitlist(eventId);
+      }
+    }
+
+    const updated = await this.communityEventRepository.findById(eventId);
+    return {
+      status: finalStatus,
+      goingCount: updated?.goingCount ?? event.goingCount,
+    };
+  }
+
+  // ========== COMPTE RENDU ==========
+
+  /**
+   * Rédiger le compte rendu d'un événement terminé
+   *
+   * Les mots appris pendant la session sont ceux que les participants
+   * ont découverts (première évaluation d'une carte) entre le début et
+   * la fin de l'événement ; l'organisateur peut y ajouter des mots.
+   */
+  async recordSummary(
+    eventId: string,
+    userId: string,
+    dto: RecordCommunityEventSummaryDto
+  ): Promise<CommunityEventView> {
+    const event = await this.getManageableEvent(eventId, userId);
+    if (event.status === "cancelled") {
+      throw new BadRequestException("Cet événement est annulé");
+    }
+    if (new Date(event.endsAt) > new Date()) {
+      throw new BadRequestException(
+        "Le compte rendu est disponible à la fin de l'événement"
+      );
+    }
+
+    const highlightedIds = [...new Set(dto.highlightedWordIds ?? [])];
+    for (const wordId of highlightedIds) {
+      if (!(await this.wordRepository.findById(wordId))) {
+        throw new BadRequestException(`Mot ${wordId} introuvable`);
+      }
+    }
+
+    const attendees = await this.communityEventRsvpRepository.findByEvent(
+      eventId,
+      "going"
+    );
+    const attendeeIds = attendees.map((rsvp) =>
+      String((rsvp.userId as any)?._id ?? rsvp.userId)
+    );
+    const learned = await this.studyReviewRepository.findWordsLearned(
+      attendeeIds,
+      new Date(event.startsAt),
+      new Date(event.endsAt),
+      CommunityEventsService.MAX_SUMMARY_WORDS
+    );
+
+    const words = new Map<string, CommunityEventWord>();
+    for (const { wordId, learnerCount } of learned) {
+      words.set(wordId, {
+        wordId: wordId as any,
+        learnerCount,
+        highlighted: false,
+      });
+    }
+    for (const wordId of highlightedIds) {
+      words.set(wordId, {
+        wordId: wordId as any,
+        learnerCount: words.get(wordId)?.learnerCount ?? 0,
+        highlighted: true,
+      });
+    }
+
+    const updated = await this.communityEventRepository.setSummary(eventId, {
+      notes: dto.notes,
+      words: [...words.values()].sort(
+        (a, b) =>
+          Number(b.highlighted) - Number(a.highlighted) ||
+          b.learnerCount - a.learnerCount
+      ),
+      attendeeCount: attendeeIds.length,
+      recordedBy: userId as any,
+      recordedAt: new Date(),
+    });
+    return this.present(updated!);
+  }
+
+  // ========== RAPPELS ==========
+
+  /**
+   * Envoyer les rappels arrivés à échéance aux participants confirmés
+   *
+   * Chaque rappel est réservé avant l'envoi : plusieurs instances
+   * peuvent balayer en parallèle sans doublon.
+   *
+   * @returns Nombre d'emails envoyés
+   */
+  async sendDueReminders(now: Date = new Date()): Promise<number> {
+    const events = await this.communityEventRepository.findDueForReminder(
+      now,
+      CommunityEventsService.REMINDER_BATCH_SIZE
+    );
+
+    let sent = 0;
+    for (const event of events) {
+      const eventId = String((event as any)._id);
+      if (!(await this.communityEventRepository.claimReminder(eventId))) {
+        continue;
+      }
+      const [community, attendees] = await Promise.all([
+        this.communityRepository.findById(String(event.communityId)),
+        this.communityEventRsvpRepository.findByEvent(eventId, "going"),
+      ]);
+
+      for (const rsvp of attendees) {
+        const user = rsvp.userId as any;
+        if (!user?.email) {
+          continue;
+        }
+        await this.mailService.sendCommunityEventReminder({
+          to: user.email,
+          username: user.username,
+          eventTitle: event.title,
+          communityName: community?.name ?? "O'Ypunu",
+          startsAt: new Date(event.startsAt).toLocaleString("fr-FR", {
+            timeZone: event.timezone,
+            dateStyle: "full",
+            timeStyle: "short",
+          }),
+          timezone: event.timezone,
+          location: event.location,
+          meetingUrl: event.meetingUrl,
+          eventUrl: this.eventUrl(eventId),
+        });
+        sent++;
+      }
+    }
+    return sent;
+  }
+
+  // ========== UTILITAIRES ==========
+
+  private async getCommunity(communityId: string): Promise<Community> {
+    const community = await this.communityRepository.findById(communityId);
+    if (!community) {
+      throw new NotFoundException(
+        `Communauté avec l'ID ${communityId} non trouvée`
+      );
+    }
+    return community;
+  }
+
+  private async getEvent(eventId: string): Promise<CommunityEvent> {
+    const event = await this.communityEventRepository.findById(eventId);
+    if (!event) {
+      throw new NotFoundException("Événement non trouvé");
+    }
+    return event;
+  }
+
+  private async getManageableEvent(
+    eventId: string,
+    userId: string
+  ): Promise<CommunityEvent> {
+    const event = await this.getEvent(eventId);
+    const isOrganizer = String(event.createdBy) === userId;
+    if (
+      !isOrganizer &&
+      !(await this.communityMemberRepository.canModerate(
+        String(event.communityId),
+        userId
+      ))
+    ) {
+      throw new ForbiddenException(
+        "Seuls l'organisateur et les modérateurs peuvent gérer cet événement"
+      );
+    }
+    return event;
+  }
+
+  private async assertCanView(
+    community: Community,
+    communityId: string,
+    viewerId: string | null
+  ): Promise<void> {
+    if (
+      community.isPrivate &&
+      !(
+        viewerId &&
+        (await this.communityMemberRepository.isMember(communityId, viewerId))
+      )
+    ) {
+      throw new ForbiddenException(
+        "Les événements de cette communauté sont réservés à ses membres"
+      );
+    }
+  }
+
+  /**
+   * Promouvoir la liste d'attente tant que des places sont libres
+   */
+  private async promoteWaitlist(eventId: string): Promise<void> {
+    let next =
+      await this.communityEventRsvpRepository.findFirstWaitlisted(eventId);
+    while (next && (await this.communityEventRepository.reserveSeat(eventId))) {
+      await this.communityEventRsvpRepository.upsert(
+        eventId,
+        String(next.userId),
+        "going"
+      );
+      next =
+        await this.communityEventRsvpRepository.findFirstWaitlisted(eventId);
+    }
+  }
+
+  private parseSchedule(
+    startsAt: string,
+    endsAt: string,
+    timezone: string
+  ): { startsAt: Date; endsAt: Date } {
+    if (!TimeZone.isValid(timezone)) {
+      throw new BadRequestException(`Fuseau horaire inconnu: ${timezone}`);
+    }
+    const start = TimeZone.toUtc(startsAt, timezone);
+    const end = TimeZone.toUtc(endsAt, timezone);
+    if (!start || !end) {
+      throw new BadRequestException("Dates de l'événement illisibles");
+    }
+    if (end <= start) {
+      throw new BadRequestException(
+        "La fin de l'événement doit suivre son début"
+      );
+    }
+    return { startsAt: start, endsAt: end };
+  }
+
+  private parseDate(
+    value: string | undefined,
+    field: string
+  ): Date | undefined {
+    if (!value) {
+      return undefined;
+    }
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException(`Date invalide pour ${field}`);
+    }
+    return date;
+  }
+
+  private viewerTimezone(timezone?: string): string | undefined {
+    if (timezone && !TimeZone.isValid(timezone)) {
+      throw new BadRequestException(`Fuseau horaire inconnu: ${timezone}`);
+    }
+    return timezone;
+  }
+
+  private present(
+    event: CommunityEvent,
+    viewerTimezone?: string
+  ): CommunityEventView {
+    const startsAt = new Date(event.startsAt);
+    const endsAt = new Date(event.endsAt);
+    return {
+      ...event,
+      _id: String((event as any)._id),
+      startsAtLocal: TimeZone.format(startsAt, event.timezone),
+      endsAtLocal: TimeZone.format(endsAt, event.timezone),
+      viewer: viewerTimezone
+        ? {
+            timezone: viewerTimezone,
+            startsAt: TimeZone.format(startsAt, viewerTimezone),
+            endsAt: TimeZone.format(endsAt, viewerTimezone),
+          }
+        : undefined,
+      spotsLeft:
+        event.capacity == null
+          ? null
+          : Math.max(0, event.capacity - event.goingCount),
+    };
+  }
+
+  private eventUrl(eventId: string): string {
+    const frontendUrl =
+      this.configService.get<string>("FRONTEND_URL") || "https://oypunu.com";
+    return `${frontendUrl}/communities/events/${eventId}`;
+  }
+}
@@ -34,6 +34,7 @@ import {
 } from '../schemas/community-member.schema';
 import { Vote, VoteDocument } from '../schemas/vote.schema';
 import { VotingService, VoteResult } from './voting.service';
+import { AutoModerationService } from '../../moderation/services/auto-moderation.service';
 
 /**
  * Interface pour les données d'auteur populées
@@ -128,6 +129,7 @@ export class CommunityPostsService {
    * @param {Model<CommunityMemberDocument>} memberModel - Modèle des membres
    * @param {Model<VoteDocument>} voteModel - Modèle des votes
    * @param {VotingService} votingService - Service de gestion des votes
+   * @param {AutoModerationService} autoModerationService - Modération automatique des publications et commentaires
    */
   constructor(
     @InjectModel(Community.name)
@@ -141,6 +143,7 @@ export class CommunityPostsService {
     @InjectModel(Vote.name)
     private voteModel: Model<VoteDocument>,
     private votingService: VotingService,
+    private autoModerationService: AutoModerationService,
   ) {}
 
   private async _isCommunityMember(
@@ -346,6 +349,18 @@ export class CommunityPostsService {
     });
 
     const savedPost = await newPost.save();
+
+    // Modération automatique : la publication peut être masquée
+    const screening = await this.autoModerationService.screen({
+      contentType: 'post',
+      contentId: savedPost._id.toString(),
+      authorId: userId,
+      text: `${savedPost.title}\n${savedPost.content}`,
+      language: savedPost.languages[0],
+    });
+    if (screening.hidden) {
+      savedPost.status = 'hidden';
+    }
     return savedPost;
   }
 
@@ -713,7 +728,19 @@ export class CommunityPostsService {
       status: 'active',
     });
 
-    return await newComment.save();
+    const savedComment = await newComment.save();
+
+    // Modération automatique : le commentaire peut être masqué
+    const screening = await this.autoModerationService.screen({
+      contentType: 'comment',
+      contentId: savedComment._id.toString(),
+      authorId: userId,
+      text: savedComment.content,
+    });
+    if (screening.hidden) {
+      savedComment.status = 'hidden';
+    }
+    return savedComment;
   }
 
   // Récupérer les commentaires d'une publication
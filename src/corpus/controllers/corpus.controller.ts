@@ -0,0 +1,161 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Param,
+  Body,
+  Query,
+  UseGuards,
+  Request as NestRequest,
+  CanActivate,
+} from "@nestjs/common";
+import { Request } from "express";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiQuery,
+} from "@nestjs/swagger";
+import { JwtAuthGuard } from "../../auth/guards/jwt-auth.guard";
+import { RolesGuard } from "../../common/guards/roles.guard";
+import { Roles } from "../../common/decorators/roles.decorator";
+import { User } from "../../users/schemas/user.schema";
+import { CorpusService } from "../services/corpus.service";
+import { CreateCorpusExampleDto } from "../dto/create-corpus-example.dto";
+import { UpdateCorpusExampleDto } from "../dto/update-corpus-example.dto";
+import { SearchCorpusDto } from "../dto/search-corpus.dto";
+
+interface RequestWithUser extends Request {
+  user: User & { _id: any };
+}
+
+// Assertion de type pour RolesGuard
+const typedRolesGuard = RolesGuard as unknown as CanActivate;
+
+/**
+ * Contrôleur du corpus de textes glosés interlinéaires
+ * Responsabilité: CRUD des exemples, recherche par morphème ou glose
+ */
+@ApiTags("corpus")
+@Controller("corpus")
+export class CorpusController {
+  constructor(private readonly corpusService: CorpusService) {}
+
+  /**
+   * Ajouter un exemple glosé
+   */
+  @Post()
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, typedRolesGuard)
+  @Roles("contributor", "admin", "superadmin")
+  @ApiOperation({
+    summary: "Ajouter un exemple au corpus",
+    description:
+      "Phrase segmentée en morphèmes glosés, avec traduction libre, source, locuteur et audio ; chaque morphème peut renvoyer à un mot du dictionnaire",
+  })
+  @ApiResponse({ status: 201, description: "Exemple créé" })
+  @ApiResponse({
+    status: 400,
+    description: "Données invalides, langue ou mot lié introuvable",
+  })
+  async create(
+    @Body() dto: CreateCorpusExampleDto,
+    @NestRequest() req: RequestWithUser
+  ) {
+    return this.corpusService.create(dto, String(req.user._id));
+  }
+
+  /**
+   * Rechercher dans le corpus
+   */
+  @Get("search")
+  @ApiOperation({
+    summary: "Rechercher des exemples",
+    description:
+      "Par forme de morphème (insensible aux diacritiques et aux tons), par étiquette de glose (ex: PST, 1SG) ou en plein texte",
+  })
+  @ApiResponse({ status: 200, description: "Liste paginée d'exemples" })
+  @ApiResponse({ status: 400, description: "Aucun critère de recherche" })
+  async search(@Query() query: SearchCorpusDto) {
+    return this.corpusService.search(query);
+  }
+
+  /**
+   * Exemples liés à un mot du dictionnaire
+   */
+  @Get("words/:wordId")
+  @ApiOperation({ summary: "Exemples de corpus d'un mot" })
+  @ApiParam({ name: "wordId", description: "ID du mot" })
+  @ApiQuery({ name: "page", required: false, type: Number })
+  @ApiQuery({ name: "limit", required: false, type: Number })
+  @ApiResponse({ status: 200, description: "Liste paginée d'exemples" })
+  async findByWord(
+    @Param("wordId") wordId: string,
+    @Query("page") page?: string,
+    @Query("limit") limit?: string
+  ) {
+    const pageNumber = Math.max(1, parseInt(page || "1", 10) || 1);
+    const limitNumber = Math.min(
+      100,
+      Math.max(1, parseInt(limit || "20", 10) || 20)
+    );
+    const result = await this.corpusService.findByWord(
+      wordId,
+      pageNumber,
+      limitNumber
+    );
+    return { ...result, page: pageNumber, limit: limitNumber };
+  }
+
+  /**
+   * Détail d'un exemple
+   */
+  @Get(":id")
+  @ApiOperation({ summary: "Récupérer un exemple de corpus" })
+  @ApiParam({ name: "id", description: "ID de l'exemple" })
+  @ApiResponse({ status: 200, description: "Exemple trouvé" })
+  @ApiResponse({ status: 404, description: "Exemple introuvable" })
+  async findOne(@Param("id") id: string) {
+    return this.corpusService.findOne(id);
+  }
+
+  /**
+   * Modifier un exemple
+   */
+  @Patch(":id")
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, typedRolesGuard)
+  @Roles("contributor", "admin", "superadmin")
+  @ApiOperation({ summary: "Modifier un exemple de corpus" })
+  @ApiParam({ name: "id", description: "ID de l'exemple" })
+  @ApiResponse({ status: 200, description: "Exemple mis à jour" })
+  @ApiResponse({ status: 403, description: "Exemple d'un autre utilisateur" })
+  @ApiResponse({ status: 404, description: "Exemple introuvable" })
+  async update(
+    @Param("id") id: string,
+    @Body() dto: UpdateCorpusExampleDto,
+    @NestRequest() req: RequestWithUser
+  ) {
+    return this.corpusService.update(id, dto, req.user);
+  }
+
+  /**
+   * Supprimer un exemple
+   */
+  @Delete(":id")
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, typedRolesGuard)
+  @Roles("contributor", "admin", "superadmin")
+  @ApiOperation({ summary: "Supprimer un exemple de corpus" })
+  @ApiParam({ name: "id", description: "ID de l'exemple" })
+  @ApiResponse({ status: 200, description: "Exemple supprimé" })
+  @ApiResponse({ status: 403, description: "Exemple d'un autre utilisateur" })
+  @ApiResponse({ status: 404, description: "Exemple introuvable" })
+  async remove(@Param("id") id: string, @NestRequest() req: RequestWithUser) {
+    return this.corpusService.remove(id, req.user);
+  }
+}
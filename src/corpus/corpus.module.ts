@@ -0,0 +1,44 @@
+/**
+ * @fileoverview Module du corpus de textes glosés interlinéaires pour O'Ypunu
+ *
+ * Ce module gère les exemples de phrases attestées, segmentés en morphèmes
+ * glosés et reliés aux entrées du dictionnaire, qui enrichissent la fiche
+ * de chaque mot.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { Module } from '@nestjs/common';
+import { CorpusController } from './controllers/corpus.controller';
+import { CorpusService } from './services/corpus.service';
+import { RepositoriesModule } from '../repositories/repositories.module';
+
+/**
+ * Module du corpus IGT O'Ypunu
+ *
+ * ## 📚 Fonctionnalités principales :
+ * - **Exemples glosés** : Phrase, segmentation, gloses et traduction libre
+ * - **Métadonnées** : Source, locuteur et enregistrement audio
+ * - **Liens dictionnaire** : Morphèmes reliés aux entrées `Word`
+ * - **Recherche** : Par morphème, par glose ou en plein texte
+ *
+ * ## 📊 Architecture modulaire :
+ * - **Controller** : CorpusController - Endpoints `/corpus`
+ * - **Service** : CorpusService - Validation et champs de recherche
+ * - **Repository** : Via RepositoriesModule - ICorpusExampleRepository
+ *
+ * Le service est exporté pour la section « exemples de corpus » de
+ * `GET /words/:id` (DictionaryModule).
+ *
+ * @module CorpusModule
+ * @version 1.0.0
+ */
+@Module({
+  imports: [RepositoriesModule],
+  controllers: [CorpusController],
+  providers: [CorpusService],
+  exports: [CorpusService],
+})
+export class CorpusModule {}
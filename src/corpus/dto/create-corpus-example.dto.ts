@@ -0,0 +1,247 @@
+/**
+ * @fileoverview DTOs pour la création d'exemples de corpus glosés
+ *
+ * Un exemple est saisi mot par mot : chaque mot de la phrase porte sa
+ * segmentation en morphèmes, chaque morphème sa glose et, le cas échéant,
+ * l'ID de l'entrée du dictionnaire qu'il illustre.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsMongoId,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+export const CORPUS_MORPHEME_TYPES = [
+  'root',
+  'prefix',
+  'suffix',
+  'infix',
+  'clitic',
+  'tone',
+  'other',
+] as const;
+
+export class CorpusMorphemeDto {
+  @ApiProperty({ description: 'Forme du morphème', example: 'a' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  form: string;
+
+  @ApiProperty({
+    description: 'Glose (Leipzig Glossing Rules)',
+    example: '3SG',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  gloss: string;
+
+  @ApiProperty({
+    description: 'Type de morphème',
+    enum: CORPUS_MORPHEME_TYPES,
+    required: false,
+    default: 'root',
+  })
+  @IsOptional()
+  @IsIn(CORPUS_MORPHEME_TYPES)
+  type?: string;
+
+  @ApiProperty({
+    description: 'ID du mot du dictionnaire illustré par ce morphème',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  wordId?: string;
+}
+
+export class CorpusTokenDto {
+  @ApiProperty({
+    description: "Mot tel qu'écrit dans la phrase",
+    example: 'adzi',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  form: string;
+
+  @ApiProperty({ type: [CorpusMorphemeDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => CorpusMorphemeDto)
+  morphemes: CorpusMorphemeDto[];
+}
+
+export class CorpusTranslationDto {
+  @ApiProperty({
+    description: 'Code de la langue de traduction',
+    example: 'fr',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  language: string;
+
+  @ApiProperty({ description: 'Traduction libre', example: 'Il mange.' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  text: string;
+}
+
+export class CorpusSourceDto {
+  @ApiProperty({ required: false, example: 'Grammaire du fang' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(300)
+  title?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  author?: string;
+
+  @ApiProperty({ required: false, example: 1998 })
+  @IsOptional()
+  @IsInt()
+  @Min(1000)
+  @Max(9999)
+  year?: number;
+
+  @ApiProperty({ required: false, example: '42' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  page?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsUrl()
+  url?: string;
+}
+
+export class CorpusSpeakerDto {
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  name?: string;
+
+  @ApiProperty({ required: false, example: 'ntumu' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  dialect?: string;
+
+  @ApiProperty({ required: false, example: 'Oyem' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  location?: string;
+
+  @ApiProperty({ required: false, example: '40-60' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  ageRange?: string;
+}
+
+export class CorpusAudioDto {
+  @ApiProperty({ description: "URL de l'enregistrement" })
+  @IsUrl()
+  url: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  cloudinaryId?: string;
+
+  @ApiProperty({ required: false, description: 'Durée en secondes' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  duration?: number;
+}
+
+/**
+ * DTO de création d'un exemple de corpus
+ */
+export class CreateCorpusExampleDto {
+  @ApiProperty({ description: 'Phrase originale', example: 'A ne adzi.' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  text: string;
+
+  @ApiProperty({ description: 'ID de la langue de la phrase' })
+  @IsMongoId()
+  languageId: string;
+
+  @ApiProperty({
+    type: [CorpusTokenDto],
+    description: 'Segmentation et gloses',
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(200)
+  @ValidateNested({ each: true })
+  @Type(() => CorpusTokenDto)
+  tokens: CorpusTokenDto[];
+
+  @ApiProperty({ type: [CorpusTranslationDto], required: false })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => CorpusTranslationDto)
+  translations?: CorpusTranslationDto[];
+
+  @ApiProperty({ type: CorpusSourceDto, required: false })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CorpusSourceDto)
+  source?: CorpusSourceDto;
+
+  @ApiProperty({ type: CorpusSpeakerDto, required: false })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CorpusSpeakerDto)
+  speaker?: CorpusSpeakerDto;
+
+  @ApiProperty({ type: CorpusAudioDto, required: false })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CorpusAudioDto)
+  audio?: CorpusAudioDto;
+
+  @ApiProperty({ type: [String], required: false })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MaxLength(50, { each: true })
+  tags?: string[];
+}
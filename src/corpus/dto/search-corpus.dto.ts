@@ -0,0 +1,66 @@
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsInt,
+  IsMongoId,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+/**
+ * Paramètres de recherche dans le corpus (au moins un critère parmi
+ * morpheme, gloss et q)
+ */
+export class SearchCorpusDto {
+  @ApiProperty({
+    description: 'Forme de morphème (insensible aux diacritiques et aux tons)',
+    required: false,
+    example: 'dzi',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  morpheme?: string;
+
+  @ApiProperty({
+    description: 'Étiquette de glose',
+    required: false,
+    example: 'PST',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  gloss?: string;
+
+  @ApiProperty({
+    description: 'Recherche plein texte sur la phrase et ses traductions',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  q?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsMongoId()
+  languageId?: string;
+
+  @ApiProperty({ required: false, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiProperty({ required: false, default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
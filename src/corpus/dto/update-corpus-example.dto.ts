@@ -0,0 +1,6 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateCorpusExampleDto } from './create-corpus-example.dto';
+
+export class UpdateCorpusExampleDto extends PartialType(
+  CreateCorpusExampleDto,
+) {}
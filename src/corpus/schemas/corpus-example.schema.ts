@@ -0,0 +1,201 @@
+/**
+ * @fileoverview Schéma des exemples de corpus en texte glosé interlinéaire
+ *
+ * Un exemple de corpus est une phrase attestée, segmentée en mots puis en
+ * morphèmes selon les Leipzig Glossing Rules, avec glose de chaque
+ * morphème, traduction libre, source, locuteur et enregistrement audio.
+ * Chaque morphème peut renvoyer vers l'entrée du dictionnaire (`Word`)
+ * qu'il illustre.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+import { User } from '../../users/schemas/user.schema';
+import { Word } from '../../dictionary/schemas/word.schema';
+import { Language } from '../../languages/schemas/language.schema';
+
+export type CorpusExampleDocument = CorpusExample & Document;
+
+/**
+ * Morphème glosé
+ *
+ * @example { form: "ba", gloss: "2PL", type: "prefix" }
+ */
+@Schema({ _id: false })
+export class CorpusMorpheme {
+  /** Forme du morphème telle qu'écrite dans la segmentation */
+  @Prop({ required: true })
+  form: string;
+
+  /** Glose (lexicale en minuscules, grammaticale en petites capitales : 1SG, PST) */
+  @Prop({ required: true })
+  gloss: string;
+
+  @Prop({
+    type: String,
+    enum: ['root', 'prefix', 'suffix', 'infix', 'clitic', 'tone', 'other'],
+    default: 'root',
+  })
+  type: string;
+
+  /** Entrée du dictionnaire correspondant à ce morphème */
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'Word' })
+  wordId?: Word;
+}
+
+/**
+ * Mot de la phrase et sa segmentation
+ */
+@Schema({ _id: false })
+export class CorpusToken {
+  /** Mot tel qu'il apparaît dans la phrase */
+  @Prop({ required: true })
+  form: string;
+
+  @Prop({ type: [CorpusMorpheme], default: [] })
+  morphemes: CorpusMorpheme[];
+}
+
+/**
+ * Exemple de corpus en texte glosé interlinéaire (IGT)
+ *
+ * ## 📑 Lignes de l'exemple :
+ * - **text** : phrase originale
+ * - **tokens[].morphemes[].form** : segmentation morphologique
+ * - **tokens[].morphemes[].gloss** : gloses
+ * - **translations** : traduction(s) libre(s)
+ *
+ * @class CorpusExample
+ * @version 1.0.0
+ */
+@Schema({
+  timestamps: true,
+  collection: 'corpus_examples',
+})
+export class CorpusExample {
+  /** Phrase originale (ligne de texte) */
+  @Prop({ required: true, trim: true })
+  text: string;
+
+  @Prop({
+    type: MongooseSchema.Types.ObjectId,
+    ref: 'Language',
+    required: true,
+  })
+  languageId: Language;
+
+  /** Segmentation mot par mot (lignes morphèmes / gloses) */
+  @Prop({ type: [CorpusToken], default: [] })
+  tokens: CorpusToken[];
+
+  /** Traductions libres */
+  @Prop({
+    type: [
+      {
+        language: { type: String, required: true },
+        text: { type: String, required: true },
+        _id: false,
+      },
+    ],
+    default: [],
+  })
+  translations: Array<{ language: string; text: string }>;
+
+  /** Source de l'exemple (ouvrage, enquête de terrain, enregistrement) */
+  @Prop({
+    type: {
+      title: { type: String },
+      author: { type: String },
+      year: { type: Number },
+      page: { type: String },
+      url: { type: String },
+      _id: false,
+    },
+  })
+  source?: {
+    title?: string;
+    author?: string;
+    year?: number;
+    page?: string;
+    url?: string;
+  };
+
+  /** Locuteur enregistré */
+  @Prop({
+    type: {
+      name: { type: String },
+      dialect: { type: String },
+      location: { type: String },
+      ageRange: { type: String },
+      _id: false,
+    },
+  })
+  speaker?: {
+    name?: string;
+    dialect?: string;
+    location?: string;
+    ageRange?: string;
+  };
+
+  @Prop({
+    type: {
+      url: { type: String },
+      cloudinaryId: { type: String },
+      duration: { type: Number },
+      _id: false,
+    },
+  })
+  audio?: {
+    url: string;
+    cloudinaryId?: string;
+    duration?: number;
+  };
+
+  @Prop({ type: [String], default: [] })
+  tags: string[];
+
+  /**
+   * Mots du dictionnaire liés par les morphèmes (dénormalisé pour
+   * retrouver les exemples d'un mot)
+   */
+  @Prop({
+    type: [{ type: MongooseSchema.Types.ObjectId, ref: 'Word' }],
+    default: [],
+  })
+  linkedWordIds: Word[];
+
+  /** Formes des morphèmes normalisées (recherche par morphème) */
+  @Prop({ type: [String], default: [] })
+  morphemeKeys: string[];
+
+  /** Gloses découpées en étiquettes, en minuscules (recherche par glose) */
+  @Prop({ type: [String], default: [] })
+  glossTags: string[];
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'User', required: true })
+  createdBy: User;
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'User' })
+  updatedBy?: User;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const CorpusExampleSchema = SchemaFactory.createForClass(CorpusExample);
+
+// === INDEX OPTIMISÉS POUR PERFORMANCES ===
+
+// Exemples d'un mot du dictionnaire
+CorpusExampleSchema.index({ linkedWordIds: 1, createdAt: -1 });
+
+// Recherche par morphème ou par glose dans une langue
+CorpusExampleSchema.index({ morphemeKeys: 1, languageId: 1 });
+CorpusExampleSchema.index({ glossTags: 1, languageId: 1 });
+
+// Recherche plein texte sur la phrase et ses traductions
+CorpusExampleSchema.index({ text: 'text', 'translations.text': 'text' });
@@ -0,0 +1,193 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from "@nestjs/common";
+import { CorpusService } from "./corpus.service";
+import { CreateCorpusExampleDto } from "../dto/create-corpus-example.dto";
+
+describe("CorpusService", () => {
+  let service: CorpusService;
+  let corpusExampleRepository: any;
+  let wordRepository: any;
+  let languageRepository: any;
+
+  const languageId = "64b0000000000000000000aa";
+  const wordId = "64b000000000000000000001";
+  const authorId = "64b0000000000000000000f1";
+
+  const dto: CreateCorpusExampleDto = {
+    text: "Mà dzì ébɔ̀.",
+    languageId,
+    tokens: [
+      { form: "Mà", morphemes: [{ form: "mà", gloss: "1SG" }] },
+      {
+        form: "dzì",
+        morphemes: [
+          { form: "dzì", gloss: "manger", wordId },
+          { form: "-à", gloss: "PST-IPFV", type: "suffix" },
+        ],
+      },
+      { form: "ébɔ̀", morphemes: [{ form: "ébɔ̀", gloss: "mortier", wordId }] },
+    ],
+    translations: [{ language: "fr", text: "J'ai mangé au mortier." }],
+    speaker: { name: "N. Ondo", dialect: "ntumu" },
+  };
+
+  beforeEach(async () => {
+    corpusExampleRepository = {
+      create: jest.fn().mockImplementation((data) => ({
+        _id: "ex-1",
+        ...data,
+        createdBy: authorId,
+      })),
+      findById: jest.fn(),
+      update: jest
+        .fn()
+        .mockImplementation((id, data) => ({ _id: id, ...data })),
+      delete: jest.fn().mockResolvedValue(true),
+      findByWordId: jest.fn().mockResolvedValue({ examples: [], total: 0 }),
+      search: jest.fn().mockResolvedValue({ examples: [], total: 0 }),
+    };
+    wordRepository = {
+      findById: jest
+        .fn()
+        .mockImplementation((id) => (id === wordId ? { _id: id } : null)),
+    };
+    languageRepository = {
+      findById: jest
+        .fn()
+        .mockResolvedValue({ _id: languageId, iso639_3: "fan" }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CorpusService,
+        {
+          provide: "ICorpusExampleRepository",
+          useValue: corpusExampleRepository,
+        },
+        { provide: "IWordRepository", useValue: wordRepository },
+        { provide: "ILanguageRepository", useValue: languageRepository },
+      ],
+    }).compile();
+
+    service = module.get<CorpusService>(CorpusService);
+  });
+
+  it("should store linked words and search keys on create", async () => {
+    await service.create(dto, authorId);
+
+    const [data, userId] = corpusExampleRepository.create.mock.calls[0];
+    expect(userId).toBe(authorId);
+    expect(data.linkedWordIds).toEqual([wordId]);
+    expect(data.morphemeKeys).toEqual(["ma", "dzi", "a", "ebo"]);
+    expect(data.glossTags).toEqual(
+      expect.arrayContaining(["1sg", "manger", "pst-ipfv", "pst", "ipfv"])
+    );
+    expect(wordRepository.findById).toHaveBeenCalledTimes(1);
+  });
+
+  it("should reject morphemes linked to unknown words", async () => {
+    const unknownId = "64b0000000000000000000ff";
+    await expect(
+      service.create(
+        {
+          ...dto,
+          tokens: [
+            {
+              form: "x",
+              morphemes: [{ form: "x", gloss: "x", wordId: unknownId }],
+            },
+          ],
+        },
+        authorId
+      )
+    ).rejects.toThrow(BadRequestException);
+    expect(corpusExampleRepository.create).not.toHaveBeenCalled();
+  });
+
+  it("should reject unknown languages", async () => {
+    languageRepository.findById.mockResolvedValue(null);
+    await expect(service.create(dto, authorId)).rejects.toThrow(
+      BadRequestException
+    );
+  });
+
+  it("should search by normalized morpheme and lowercased gloss", async () => {
+    await service.search({ morpheme: "Dzí", gloss: "PST", languageId });
+
+    expect(corpusExampleRepository.search).toHaveBeenCalledWith({
+      morphemeKey: "dzi",
+      glossTag: "pst",
+      text: undefined,
+      languageId,
+      page: 1,
+      limit: 20,
+    });
+  });
+
+  it("should require at least one search criterion", async () => {
+    await expect(service.search({ languageId })).rejects.toThrow(
+      BadRequestException
+    );
+  });
+
+  it("should only let the author or an admin edit an example", async () => {
+    corpusExampleRepository.findById.mockResolvedValue({
+      _id: "ex-1",
+      languageId: { _id: languageId },
+      tokens: dto.tokens,
+      createdBy: { _id: authorId },
+    });
+
+    await expect(
+      service.update(
+        "ex-1",
+        { text: "x" },
+        { _id: "someone-else", role: "contributor" }
+      )
+    ).rejects.toThrow(ForbiddenException);
+
+    await service.update(
+      "ex-1",
+      { text: "x" },
+      { _id: "admin", role: "admin" }
+    );
+    expect(corpusExampleRepository.update).toHaveBeenCalledWith(
+      "ex-1",
+      { text: "x" },
+      "admin"
+    );
+  });
+
+  it("should recompute search fields when tokens change", async () => {
+    corpusExampleRepository.findById.mockResolvedValue({
+      _id: "ex-1",
+      languageId: { _id: languageId },
+      tokens: dto.tokens,
+      createdBy: { _id: authorId },
+    });
+
+    await service.update(
+      "ex-1",
+      {
+        tokens: [
+          { form: "nda", morphemes: [{ form: "nda", gloss: "maison" }] },
+        ],
+      },
+      { _id: authorId, role: "contributor" }
+    );
+
+    const [, data] = corpusExampleRepository.update.mock.calls[0];
+    expect(data.morphemeKeys).toEqual(["nda"]);
+    expect(data.glossTags).toEqual(["maison"]);
+    expect(data.linkedWordIds).toEqual([]);
+  });
+
+  it("should throw when the example does not exist", async () => {
+    corpusExampleRepository.findById.mockResolvedValue(null);
+    await expect(service.findOne("missing")).rejects.toThrow(NotFoundException);
+  });
+});
@@ -0,0 +1,288 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "@nestjs/common";
+import { CorpusExample } from "../schemas/corpus-example.schema";
+import { CreateCorpusExampleDto } from "../dto/create-corpus-example.dto";
+import { UpdateCorpusExampleDto } from "../dto/update-corpus-example.dto";
+import { SearchCorpusDto } from "../dto/search-corpus.dto";
+import {
+  ICorpusExampleRepository,
+  CorpusExampleData,
+} from "../../repositories/interfaces/corpus-example.repository.interface";
+import { IWordRepository } from "../../repositories/interfaces/word.repository.interface";
+import { ILanguageRepository } from "../../repositories/interfaces/language.repository.interface";
+import { SearchNormalizer } from "../../common/utils/search-normalizer.util";
+import { UserRole } from "../../users/schemas/user.schema";
+
+/**
+ * Exemples de corpus d'un mot, tels qu'affichés sur sa fiche
+ */
+export interface WordCorpusExamples {
+  examples: CorpusExample[];
+  total: number;
+}
+
+/**
+ * Service du corpus de textes glosés interlinéaires (IGT)
+ *
+ * Calcule à l'enregistrement les champs dénormalisés servant à la
+ * recherche : mots du dictionnaire liés, formes de morphèmes normalisées
+ * (insensibles aux diacritiques et aux tons) et étiquettes de gloses.
+ */
+@Injectable()
+export class CorpusService {
+  private readonly logger = new Logger(CorpusService.name);
+
+  /** Séparateurs de gloses (Leipzig : "-" affixe, "." gloses multiples, "=" clitique) */
+  private static readonly GLOSS_SEPARATORS = /[-.=:~<>\s]+/;
+
+  constructor(
+    @Inject("ICorpusExampleRepository")
+    private corpusExampleRepository: ICorpusExampleRepository,
+    @Inject("IWordRepository") private wordRepository: IWordRepository,
+    @Inject("ILanguageRepository")
+    private languageRepository: ILanguageRepository
+  ) {}
+
+  /**
+   * Ajouter un exemple au corpus
+   *
+   * @throws {BadRequestException} Si la langue ou un mot lié n'existe pas
+   */
+  async create(
+    dto: CreateCorpusExampleDto,
+    userId: string
+  ): Promise<CorpusExample> {
+    const languageCode = await this.resolveLanguageCode(dto.languageId);
+    const linkedWordIds = await this.validateLinkedWords(dto.tokens);
+
+    const example = await this.corpusExampleRepository.create(
+      {
+        text: dto.text,
+        languageId: dto.languageId,
+        tokens: dto.tokens,
+        translations: dto.translations || [],
+        source: dto.source,
+        speaker: dto.speaker,
+        audio: dto.audio,
+        tags: dto.tags || [],
+        linkedWordIds,
+        ...CorpusService.searchFields(dto.tokens, languageCode),
+      },
+      userId
+    );
+
+    this.logger.log(
+      `Exemple de corpus créé (${linkedWordIds.length} mot(s) lié(s))`
+    );
+    return example;
+  }
+
+  /**
+   * Récupérer un exemple
+   *
+   * @throws {NotFoundException} Si l'exemple n'existe pas
+   */
+  async findOne(id: string): Promise<CorpusExample> {
+    const example = await this.corpusExampleRepository.findById(id);
+    if (!example) {
+      throw new NotFoundException(`Exemple de corpus ${id} introuvable`);
+    }
+    return example;
+  }
+
+  /**
+   * Modifier un exemple (auteur ou administrateur)
+   *
+   * Les champs de recherche sont recalculés si la segmentation ou la
+   * langue change.
+   */
+  async update(
+    id: string,
+    dto: UpdateCorpusExampleDto,
+    user: { _id: any; role?: string }
+  ): Promise<CorpusExample> {
+    const example = await this.findOne(id);
+    this.assertCanEdit(example, user);
+
+    const data: Partial<CorpusExampleData> = { ...dto };
+    if (dto.tokens || dto.languageId) {
+      const language: any = example.languageId;
+      const languageId = dto.languageId || String(language?._id ?? language);
+      const tokens = dto.tokens || (example.tokens as any);
+      const languageCode = await this.resolveLanguageCode(languageId);
+
+      data.linkedWordIds = await this.validateLinkedWords(tokens);
+      Object.assign(data, CorpusService.searchFields(tokens, languageCode));
+    }
+
+    const updated = await this.corpusExampleRepository.update(
+      id,
+      data,
+      String(user._id)
+    );
+    if (!updated) {
+      throw new NotFoundException(`Exemple de corpus ${id} introuvable`);
+    }
+    return updated;
+  }
+
+  /**
+   * Supprimer un exemple (auteur ou administrateur)
+   */
+  async remove(
+    id: string,
+    user: { _id: any; role?: string }
+  ): Promise<{ success: boolean }> {
+    const example = await this.findOne(id);
+    this.assertCanEdit(example, user);
+
+    const success = await this.corpusExampleRepository.delete(id);
+    return { success };
+  }
+
+  /**
+   * Rechercher par morphème, glose ou texte
+   *
+   * @throws {BadRequestException} Si aucun critère n'est fourni
+   */
+  async search(dto: SearchCorpusDto): Promise<{
+    examples: CorpusExample[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const morpheme = dto.morpheme?.trim();
+    const gloss = dto.gloss?.trim();
+    const text = dto.q?.trim();
+    if (!morpheme && !gloss && !text) {
+      throw new BadRequestException(
+        "Précisez au moins un critère : morpheme, gloss ou q"
+      );
+    }
+
+    const languageCode =
+      morpheme && dto.languageId
+        ? await this.resolveLanguageCode(dto.languageId)
+        : undefined;
+    const page = dto.page || 1;
+    const limit = dto.limit || 20;
+
+    const { examples, total } = await this.corpusExampleRepository.search({
+      morphemeKey: morpheme
+        ? SearchNormalizer.normalize(morpheme, languageCode)
+        : undefined,
+      glossTag: gloss ? gloss.toLowerCase() : undefined,
+      text,
+      languageId: dto.languageId,
+      page,
+      limit,
+    });
+
+    return { examples, total, page, limit };
+  }
+
+  /**
+   * Exemples de corpus illustrant un mot du dictionnaire
+   */
+  async findByWord(
+    wordId: string,
+    page = 1,
+    limit = 5
+  ): Promise<WordCorpusExamples> {
+    return this.corpusExampleRepository.findByWordId(wordId, { page, limit });
+  }
+
+  /**
+   * Champs de recherche dérivés de la segmentation
+   */
+  static searchFields(
+    tokens: CreateCorpusExampleDto["tokens"],
+    languageCode?: string
+  ): { morphemeKeys: string[]; glossTags: string[] } {
+    const morphemeKeys = new Set<string>();
+    const glossTags = new Set<string>();
+
+    for (const token of tokens) {
+      for (const morpheme of token.morphemes) {
+        const key = SearchNormalizer.normalize(morpheme.form, languageCode);
+        if (key) {
+          morphemeKeys.add(key);
+        }
+
+        const gloss = morpheme.gloss.trim().toLowerCase();
+        if (gloss) {
+          glossTags.add(gloss);
+        }
+        for (const tag of gloss.split(CorpusService.GLOSS_SEPARATORS)) {
+          if (tag) {
+            glossTags.add(tag);
+          }
+        }
+      }
+    }
+
+    return { morphemeKeys: [...morphemeKeys], glossTags: [...glossTags] };
+  }
+
+  private async resolveLanguageCode(languageId: string): Promise<string> {
+    const language = await this.languageRepository.findById(languageId);
+    if (!language) {
+      throw new BadRequestException(`Langue ${languageId} introuvable`);
+    }
+    return language.iso639_3 || language.iso639_1 || "";
+  }
+
+  /**
+   * Vérifie que chaque morphème lié renvoie à un mot existant
+   *
+   * @returns IDs distincts des mots liés
+   */
+  private async validateLinkedWords(
+    tokens: CreateCorpusExampleDto["tokens"]
+  ): Promise<string[]> {
+    const wordIds = [
+      ...new Set(
+        tokens
+          .flatMap((token) => token.morphemes)
+          .map((morpheme: any) =>
+            morpheme.wordId
+              ? String(morpheme.wordId._id ?? morpheme.wordId)
+              : ""
+          )
+          .filter(Boolean)
+      ),
+    ];
+
+    const words = await Promise.all(
+      wordIds.map((wordId) => this.wordRepository.findById(wordId))
+    );
+    const missing = wordIds.filter((_, index) => !words[index]);
+    if (missing.length) {
+      throw new BadRequestException(
+        `Mot(s) du dictionnaire introuvable(s) : ${missing.join(", ")}`
+      );
+    }
+    return wordIds;
+  }
+
+  private assertCanEdit(
+    example: CorpusExample,
+    user: { _id: any; role?: string }
+  ): void {
+    const createdBy: any = example.createdBy;
+    const ownerId = String(createdBy?._id ?? createdBy);
+    const isAdmin =
+      user.role === UserRole.ADMIN || user.role === UserRole.SUPERADMIN;
+    if (ownerId !== String(user._id) && !isAdmin) {
+      throw new ForbiddenException(
+        "Seul l'auteur ou un administrateur peut modifier cet exemple"
+      );
+    }
+  }
+}
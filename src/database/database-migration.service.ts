@@ -14,6 +14,7 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { AddCriticalIndexesMigration } from './migrations/add-critical-indexes.migration';
+import { BackfillWordSearchKeysMigration } from './migrations/backfill-word-search-keys.migration';
 
 /**
  * Service de migration de base de données O'Ypunu
@@ -58,6 +59,7 @@ export class DatabaseMigrationService implements OnModuleInit {
   constructor(
     private configService: ConfigService,
     private addCriticalIndexesMigration: AddCriticalIndexesMigration,
+    private backfillWordSearchKeysMigration: BackfillWordSearchKeysMigration,
   ) {}
 
   /**
@@ -118,6 +120,9 @@ export class DatabaseMigrationService implements OnModuleInit {
     try {
       // Migration des indexes critiques
       await this.runCriticalIndexesMigration();
+
+      // Remplissage des clés de recherche normalisées
+      await this.runWordSearchKeysMigration();
       
       this.logger.log('✅ Toutes les migrations exécutées avec succès');
     } catch (error) {
@@ -156,6 +161,37 @@ export class DatabaseMigrationService implements OnModuleInit {
     }
   }
 
+  /**
+   * 🔤 Exécute le remplissage des clés de recherche des mots
+   */
+  async runWordSearchKeysMigration(): Promise<{ processed: number; updated: number }> {
+    this.logger.log('🔤 Exécution du remplissage des clés de recherche...');
+    
+    try {
+      const result = await this.backfillWordSearchKeysMigration.up();
+      this.logger.log('✅ Remplissage des clés de recherche terminé');
+      return result;
+    } catch (error) {
+      this.logger.error('❌ Erreur lors du remplissage des clés de recherche:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 🔄 Rollback du remplissage des clés de recherche des mots
+   */
+  async rollbackWordSearchKeysMigration(): Promise<void> {
+    this.logger.log('🔄 Rollback du remplissage des clés de recherche...');
+    
+    try {
+      await this.backfillWordSearchKeysMigration.down();
+      this.logger.log('✅ Rollback des clés de recherche terminé');
+    } catch (error) {
+      this.logger.error('❌ Erreur lors du rollback des clés de recherche:', error);
+      throw error;
+    }
+  }
+
   /**
    * 🔍 Vérifie le statut des migrations
    */
@@ -199,6 +235,7 @@ export class DatabaseMigrationService implements OnModuleInit {
     this.logger.log('🔄 Rollback de toutes les migrations');
     
     try {
+      await this.rollbackWordSearchKeysMigration();
       await this.rollbackCriticalIndexesMigration();
       this.logger.log('✅ Rollback de toutes les migrations terminé');
     } catch (error) {
@@ -15,6 +15,7 @@ import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { MongooseModule } from '@nestjs/mongoose';
 import { AddCriticalIndexesMigration } from './migrations/add-critical-indexes.migration';
+import { BackfillWordSearchKeysMigration } from './migrations/backfill-word-search-keys.migration';
 import { DatabaseMigrationService } from './database-migration.service';
 
 /**
@@ -59,11 +60,13 @@ import { DatabaseMigrationService } from './database-migration.service';
   ],
   providers: [
     AddCriticalIndexesMigration,
+    BackfillWordSearchKeysMigration,
     DatabaseMigrationService,
   ],
   exports: [
     DatabaseMigrationService,
     AddCriticalIndexesMigration,
+    BackfillWordSearchKeysMigration,
   ],
 })
 export class DatabaseModule {}
\ No newline at end of file
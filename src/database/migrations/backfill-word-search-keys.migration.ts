@@ -0,0 +1,184 @@
+/**
+ * @fileoverview Migration de remplissage des clés de recherche des mots
+ *
+ * Cette migration calcule les champs `searchKey`, `searchGrams`,
+ * `phoneticKeys` et `inflectionKeys` de tous les mots existants afin de
+ * rendre la recherche insensible aux diacritiques et aux tons, tolérante
+ * aux fautes et capable de retrouver un lemme depuis une forme fléchie,
+ * pour les mots créés avant l'introduction de ces champs.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectConnection } from '@nestjs/mongoose';
+import { Connection } from 'mongoose';
+import { AnyBulkWriteOperation } from 'mongodb';
+import { buildWordSearchFields } from '../../dictionary/schemas/word.schema';
+import { MorphologyRules } from '../../common/utils/inflection.util';
+
+/**
+ * Migration de remplissage des clés de recherche normalisées
+ *
+ * ## Fonctionnement :
+ * - Chargement des codes ISO et règles morphologiques des langues en mémoire
+ * - Parcours des mots par curseur (pas de chargement complet)
+ * - Écriture par lots via `bulkWrite` pour limiter les allers-retours
+ * - Idempotente : peut être rejouée après une modification des tables
+ *   d'équivalences ou des règles morphologiques pour recalculer toutes les clés
+ *
+ * @class BackfillWordSearchKeysMigration
+ * @version 1.0.0
+ */
+@Injectable()
+export class BackfillWordSearchKeysMigration {
+  private readonly logger = new Logger(BackfillWordSearchKeysMigration.name);
+  private static readonly BATCH_SIZE = 500;
+
+  constructor(@InjectConnection() private connection: Connection) {}
+
+  /**
+   * Calcule et enregistre la clé de recherche de chaque mot
+   *
+   * @async
+   * @method up
+   * @returns {Promise<{ processed: number; updated: number }>} Bilan de la migration
+   */
+  async up(): Promise<{ processed: number; updated: number }> {
+    this.logger.log('🔤 Début de la migration - Remplissage des clés de recherche');
+
+    const languages = await this.loadLanguages();
+    const wordCollection = this.connection.collection('words');
+    const cursor = wordCollection.find(
+      {},
+      {
+        projection: {
+          word: 1,
+          language: 1,
+          languageId: 1,
+          pronunciation: 1,
+          'meanings.partOfSpeech': 1,
+          'meanings.grammaticalFeatures': 1,
+          'meanings.phonetics.text': 1,
+          variantForms: 1,
+          searchKey: 1,
+          searchGrams: 1,
+          phoneticKeys: 1,
+          inflectionKeys: 1,
+        },
+      },
+    );
+
+    let processed = 0;
+    let updated = 0;
+    let batch: AnyBulkWriteOperation[] = [];
+
+    for await (const word of cursor) {
+      processed++;
+
+      const language =
+        word.languageId && languages.get(word.languageId.toString());
+      const fields = buildWordSearchFields(
+        { word: word.word, pronunciation: word.pronunciation, meanings: word.meanings },
+        language?.code || word.language,
+        language?.morphology,
+      );
+
+      if (
+        word.searchKey !== fields.searchKey ||
+        !this.sameValues(word.searchGrams, fields.searchGrams) ||
+        !this.sameValues(word.phoneticKeys, fields.phoneticKeys) ||
+        !this.sameValues(word.inflectionKeys, fields.inflectionKeys)
+      ) {
+        batch.push({
+          updateOne: {
+            filter: { _id: word._id },
+            update: { $set: fields },
+          },
+        });
+      }
+
+      if (batch.length >= BackfillWordSearchKeysMigration.BATCH_SIZE) {
+        updated += await this.flush(batch);
+        batch = [];
+      }
+    }
+
+    updated += await this.flush(batch);
+
+    this.logger.log(
+      `✅ Migration terminée - ${updated}/${processed} mots mis à jour`,
+    );
+    return { processed, updated };
+  }
+
+  /**
+   * Supprime les clés de recherche de tous les mots
+   *
+   * @async
+   * @method down
+   * @returns {Promise<void>}
+   */
+  async down(): Promise<void> {
+    this.logger.log('🔄 Rollback - Suppression des clés de recherche');
+    const result = await this.connection
+      .collection('words')
+      .updateMany(
+        { searchKey: { $exists: true } },
+        {
+          $unset: {
+            searchKey: '',
+            searchGrams: '',
+            phoneticKeys: '',
+            inflectionKeys: '',
+          },
+        },
+      );
+    this.logger.log(`✅ ${result.modifiedCount} clés de recherche supprimées`);
+  }
+
+  /**
+   * Construit la table languageId -> code ISO (639-3 en priorité) et
+   * règles morphologiques
+   */
+  private async loadLanguages(): Promise<
+    Map<string, { code?: string; morphology?: MorphologyRules }>
+  > {
+    const languages = await this.connection
+      .collection('languages')
+      .find({}, { projection: { iso639_1: 1, iso639_3: 1, morphology: 1 } })
+      .toArray();
+
+    const result = new Map<
+      string,
+      { code?: string; morphology?: MorphologyRules }
+    >();
+    for (const language of languages) {
+      result.set(language._id.toString(), {
+        code: language.iso639_3 || language.iso639_1,
+        morphology: language.morphology,
+      });
+    }
+    return result;
+  }
+
+  private sameValues(current: unknown, expected: string[]): boolean {
+    return (
+      Array.isArray(current) &&
+      current.length === expected.length &&
+      current.every((value, index) => value === expected[index])
+    );
+  }
+
+  private async flush(batch: AnyBulkWriteOperation[]): Promise<number> {
+    if (batch.length === 0) {
+      return 0;
+    }
+    const result = await this.connection
+      .collection('words')
+      .bulkWrite(batch, { ordered: false });
+    return result.modifiedCount;
+  }
+}
@@ -134,6 +134,11 @@ export class WordsAudioController {
           description: "Accent ou dialecte (format: langue-région)",
           pattern: "^[a-z]{2}(-[a-z]{2})?$",
         },
+        variantId: {
+          type: "string",
+          description:
+            "Variante dialectale (ID de Language.variants) de la prononciation, optionnel",
+        },
         audioFile: {
           type: "string",
           format: "binary",
@@ -215,7 +220,8 @@ export class WordsAudioController {
       })
     )
     file: Express.Multer.File,
-    @Body("accent") accent: string
+    @Body("accent") accent: string,
+    @Body("variantId") variantId?: string
   ): Promise<Word> {
     // 1. Validation des paramètres requis
     if (!file) {
@@ -248,7 +254,8 @@ export class WordsAudioController {
         id,
         accent.trim().toLowerCase(),
         file.buffer,
-        req.user
+        req.user,
+        variantId?.trim() || undefined
       );
 
       // 6. Log de succès
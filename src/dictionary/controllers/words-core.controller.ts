@@ -31,6 +31,7 @@ import { RolesGuard } from "../../common/guards/roles.guard";
 import { Roles } from "../../common/decorators/roles.decorator";
 import { User } from "../../users/schemas/user.schema";
 import { Word } from "../schemas/word.schema";
+import { SpellingCorrection } from "../services/word-services/word-spelling.service";
 
 interface RequestWithUser {
   user: User;
@@ -42,6 +43,7 @@ class SearchResults {
   page: number;
   limit: number;
   totalPages: number;
+  didYouMean?: SpellingCorrection[];
 }
 
 /**
@@ -0,0 +1,214 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Body,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
+  Request as NestRequest,
+  CanActivate,
+} from "@nestjs/common";
+import { FileInterceptor } from "@nestjs/platform-express";
+import { Request } from "express";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiConsumes,
+  ApiParam,
+  ApiQuery,
+  ApiBody,
+} from "@nestjs/swagger";
+import { JwtAuthGuard } from "../../auth/guards/jwt-auth.guard";
+import { RolesGuard } from "../../common/guards/roles.guard";
+import { Roles } from "../../common/decorators/roles.decorator";
+import { User } from "../../users/schemas/user.schema";
+import { WordImportService } from "../services/word-import/word-import.service";
+import {
+  WordImportOptions,
+  WordImportReport,
+} from "../services/word-import/word-import.types";
+import { ImportWordsDto } from "../dto/import-words.dto";
+
+interface RequestWithUser extends Request {
+  user: User & { _id: any };
+}
+
+// Assertion de type pour RolesGuard
+const typedRolesGuard = RolesGuard as unknown as CanActivate;
+
+/** Taille maximale d'un fichier d'import */
+const MAX_IMPORT_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+
+const IMPORT_FILE_BODY = {
+  schema: {
+    type: "object",
+    required: ["file"],
+    properties: {
+      file: { type: "string", format: "binary" },
+      format: { type: "string", enum: ["csv", "json", "lift"] },
+      language: { type: "string", example: "fan" },
+      partOfSpeech: { type: "string", example: "noun" },
+    },
+  },
+};
+
+/**
+ * Contrôleur d'import en masse de lexiques (CSV, JSON, SIL LIFT)
+ * Responsabilité: Simulation, import en lot `pending` et annulation des lots
+ */
+@ApiTags("words-import")
+@Controller("words-import")
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, typedRolesGuard)
+@Roles("contributor", "admin", "superadmin")
+export class WordsImportController {
+  constructor(private readonly wordImportService: WordImportService) {}
+
+  /**
+   * Simuler un import et obtenir le rapport (aucune écriture)
+   */
+  @Post("preview")
+  @UseInterceptors(
+    FileInterceptor("file", { limits: { fileSize: MAX_IMPORT_FILE_SIZE } })
+  )
+  @ApiConsumes("multipart/form-data")
+  @ApiBody(IMPORT_FILE_BODY)
+  @ApiOperation({
+    summary: "Simuler un import de mots",
+    description:
+      "Lit le fichier, résout les langues par code ISO 639 et détecte les doublons sans rien créer",
+  })
+  @ApiResponse({ status: 201, description: "Rapport de simulation" })
+  @ApiResponse({ status: 400, description: "Fichier ou format invalide" })
+  async preview(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() body: ImportWordsDto
+  ): Promise<WordImportReport> {
+    return this.wordImportService.preview(
+      this.readFile(file),
+      this.buildOptions(file, body)
+    );
+  }
+
+  /**
+   * Importer les mots en statut `pending` sous un lot annulable
+   */
+  @Post("commit")
+  @UseInterceptors(
+    FileInterceptor("file", { limits: { fileSize: MAX_IMPORT_FILE_SIZE } })
+  )
+  @ApiConsumes("multipart/form-data")
+  @ApiBody(IMPORT_FILE_BODY)
+  @ApiOperation({
+    summary: "Importer des mots",
+    description:
+      "Crée les entrées valides et non dupliquées en attente de modération, sous un identifiant de lot commun",
+  })
+  @ApiResponse({ status: 201, description: "Rapport d'import avec batchId" })
+  @ApiResponse({ status: 400, description: "Fichier ou format invalide" })
+  async commit(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() body: ImportWordsDto,
+    @NestRequest() req: RequestWithUser
+  ): Promise<WordImportReport> {
+    return this.wordImportService.import(
+      this.readFile(file),
+      this.buildOptions(file, body),
+      String(req.user._id)
+    );
+  }
+
+  /**
+   * Lister les lots d'import
+   */
+  @Get("batches")
+  @ApiOperation({
+    summary: "Lister les lots d'import",
+    description:
+      "Lots de l'utilisateur connecté (tous les lots pour un administrateur)",
+  })
+  @ApiQuery({ name: "page", required: false, type: Number })
+  @ApiQuery({ name: "limit", required: false, type: Number })
+  @ApiResponse({ status: 200, description: "Liste paginée des lots" })
+  async listBatches(
+    @NestRequest() req: RequestWithUser,
+    @Query("page") page?: string,
+    @Query("limit") limit?: string
+  ) {
+    return this.wordImportService.listBatches(
+      req.user,
+      Math.max(1, parseInt(page || "1", 10) || 1),
+      Math.min(100, Math.max(1, parseInt(limit || "20", 10) || 20))
+    );
+  }
+
+  /**
+   * Détail d'un lot d'import
+   */
+  @Get("batches/:batchId")
+  @ApiOperation({ summary: "Récupérer un lot d'import" })
+  @ApiParam({ name: "batchId", description: "Identifiant du lot" })
+  @ApiResponse({ status: 200, description: "Lot trouvé" })
+  @ApiResponse({ status: 403, description: "Lot d'un autre utilisateur" })
+  @ApiResponse({ status: 404, description: "Lot introuvable" })
+  async getBatch(
+    @Param("batchId") batchId: string,
+    @NestRequest() req: RequestWithUser
+  ) {
+    return this.wordImportService.getBatch(batchId, req.user);
+  }
+
+  /**
+   * Annuler un lot d'import
+   */
+  @Delete("batches/:batchId")
+  @ApiOperation({
+    summary: "Annuler un lot d'import",
+    description:
+      "Supprime les mots du lot encore en attente ou rejetés ; les mots déjà approuvés sont conservés",
+  })
+  @ApiParam({ name: "batchId", description: "Identifiant du lot" })
+  @ApiResponse({ status: 200, description: "Lot annulé" })
+  @ApiResponse({ status: 400, description: "Lot déjà annulé" })
+  @ApiResponse({ status: 403, description: "Lot d'un autre utilisateur" })
+  @ApiResponse({ status: 404, description: "Lot introuvable" })
+  async rollback(
+    @Param("batchId") batchId: string,
+    @NestRequest() req: RequestWithUser
+  ) {
+    return this.wordImportService.rollback(batchId, req.user);
+  }
+
+  private readFile(file?: Express.Multer.File): string {
+    if (!file?.buffer?.length) {
+      throw new BadRequestException("Fichier d'import requis (champ 'file')");
+    }
+    return file.buffer.toString("utf8");
+  }
+
+  private buildOptions(
+    file: Express.Multer.File,
+    body: ImportWordsDto
+  ): WordImportOptions {
+    const format =
+      body.format || WordImportService.detectFormat(file.originalname);
+    if (!format) {
+      throw new BadRequestException(
+        "Format d'import indéterminé : précisez 'format' (csv, json ou lift)"
+      );
+    }
+    return {
+      format,
+      fileName: file.originalname,
+      defaultLanguageCode: body.language?.trim().toLowerCase() || undefined,
+      defaultPartOfSpeech: body.partOfSpeech?.trim().toLowerCase() || undefined,
+    };
+  }
+}
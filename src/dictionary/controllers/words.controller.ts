@@ -44,6 +44,7 @@ import { OptionalJwtAuthGuard } from "../../auth/guards/optional-jwt-auth.guard"
 import { User } from "../../users/schemas/user.schema";
 import { RolesGuard } from "../../common/guards/roles.guard";
 import { Word } from "../schemas/word.schema";
+import { SpellingCorrection } from "../services/word-services/word-spelling.service";
 import { Roles } from "../../common/decorators/roles.decorator";
 // import { UserRole } from '../../users/schemas/user.schema';
 import { FileInterceptor } from "@nestjs/platform-express";
@@ -54,6 +55,22 @@ import {
   UpdateWordFormDataDto,
 } from "../dto/create-word-formdata.dto";
 import { LanguagesService } from "../../languages/services/languages.service";
+import { CorpusService } from "../../corpus/services/corpus.service";
+import {
+  WordMorphologyService,
+  WordParadigm,
+} from "../services/word-services/word-morphology.service";
+import {
+  WordRelationService,
+  WordRelationGraph,
+} from "../services/word-services/word-relation.service";
+import { WordScriptService } from "../services/word-services/word-script.service";
+import { WordAudioService } from "../services/word-services/word-audio.service";
+import { WordRelation } from "../schemas/word-relation.schema";
+import {
+  CreateWordRelationDto,
+  WordRelationsQueryDto,
+} from "../dto/word-relation.dto";
 
 class SearchResults {
   words: Word[];
@@ -61,6 +78,7 @@ class SearchResults {
   page: number;
   limit: number;
   totalPages: number;
+  didYouMean?: SpellingCorrection[];
 }
 
 interface RequestWithUser {
@@ -88,7 +106,12 @@ export class WordsController {
    */
   constructor(
     private readonly wordsService: WordsService,
-    private readonly languagesService: LanguagesService
+    private readonly languagesService: LanguagesService,
+    private readonly corpusService: CorpusService,
+    private readonly wordMorphologyService: WordMorphologyService,
+    private readonly wordRelationService: WordRelationService,
+    private readonly wordScriptService: WordScriptService,
+    private readonly wordAudioService: WordAudioService
   ) {}
 
   /**
@@ -431,12 +454,20 @@ export class WordsController {
     example: "approved",
     enum: ["approved", "pending", "rejected"],
   })
+  @ApiQuery({
+    name: "variant",
+    required: false,
+    type: String,
+    description:
+      "ID d'une variante dialectale (Language.variants) : mots attestés dans cette variante",
+  })
   findAll(
     @Query("page") page = 1,
     @Query("limit") limit = 10,
     @Query("status") status = "approved",
     @Query("language") language?: string,
-    @Request() req?: RequestWithUser
+    @Request() req?: RequestWithUser,
+    @Query("variant") variant?: string
   ) {
     const userId = req?.user?._id ? String(req.user._id) : undefined;
     return this.wordsService.findAll(
@@ -445,13 +476,18 @@ export class WordsController {
       status,
       language?.trim() || undefined,
       undefined,
-      userId
+      userId,
+      variant?.trim() || undefined
     );
   }
 
   @Get("search")
   @UseGuards(OptionalJwtAuthGuard)
-  @ApiOperation({ summary: "Rechercher des mots avec filtres" })
+  @ApiOperation({
+    summary: "Rechercher des mots avec filtres",
+    description:
+      "La requête peut être saisie dans n'importe quelle écriture de la langue ; avec `script`, les entrées sont rendues dans cette écriture",
+  })
   @ApiResponse({
     status: 200,
     description: "Résultats de recherche",
@@ -476,6 +512,16 @@ export class WordsController {
       }
     }
 
+    if (searchDto.script && results?.words?.length > 0) {
+      return {
+        ...results,
+        words: await this.wordScriptService.renderWords(
+          results.words,
+          searchDto.script
+        ),
+      };
+    }
+
     return results;
   }
 
@@ -623,20 +669,42 @@ export class WordsController {
 
   @Get(":id")
   @UseGuards(OptionalJwtAuthGuard)
-  @ApiOperation({ summary: "Récupérer un mot par son ID" })
+  @ApiOperation({
+    summary: "Récupérer un mot par son ID",
+    description:
+      "Inclut une section corpusExamples : les exemples glosés dont un morphème renvoie à ce mot (5 plus récents et total)",
+  })
   @ApiResponse({
     status: 200,
     description: "Mot récupéré avec succès",
     type: Word,
   })
+  @ApiResponse({
+    status: 400,
+    description: "Écriture non déclarée par la langue du mot",
+  })
   @ApiResponse({ status: 404, description: "Mot non trouvé" })
   @ApiParam({
     name: "id",
     description: "ID du mot",
     example: "60a1b2c3d4e5f6a7b8c9d0e1",
   })
-  async findOne(@Param("id") id: string, @Request() req?: RequestWithUser) {
-    const word = await this.wordsService.findOne(id);
+  @ApiQuery({
+    name: "script",
+    required: false,
+    description:
+      "Code de l'écriture dans laquelle rendre l'entrée (l'un des scripts de la langue)",
+    example: "Arab",
+  })
+  async findOne(
+    @Param("id") id: string,
+    @Query("script") script?: string,
+    @Request() req?: RequestWithUser
+  ) {
+    const [word, corpusExamples] = await Promise.all([
+      this.wordsService.findOne(id),
+      this.corpusService.findByWord(id),
+    ]);
 
     // Traquer la vue si l'utilisateur est authentifié (optionnel)
     if (req?.user?._id) {
@@ -656,7 +724,13 @@ export class WordsController {
       console.log("⚠️ Pas de tracking - utilisateur non authentifié");
     }
 
-    return word;
+    const document: any = word;
+    const entry = script
+      ? await this.wordScriptService.renderWord(word, script)
+      : typeof document.toObject === "function"
+        ? document.toObject()
+        : document;
+    return { ...entry, corpusExamples };
   }
 
   @Get(":id/can-edit")
@@ -691,6 +765,94 @@ export class WordsController {
     return { canEdit: true };
   }
 
+  @Get(":id/paradigm")
+  @ApiOperation({
+    summary: "Récupérer les tables de flexion d'un mot",
+    description:
+      "Pluriel selon la classe nominale et conjugaisons, générés à partir des règles morphologiques de la langue et des traits grammaticaux de chaque sens",
+  })
+  @ApiResponse({ status: 200, description: "Tables de flexion générées" })
+  @ApiResponse({ status: 404, description: "Mot non trouvé" })
+  @ApiParam({
+    name: "id",
+    description: "ID du mot",
+    example: "60a1b2c3d4e5f6a7b8c9d0e1",
+  })
+  async getParadigm(@Param("id") id: string): Promise<WordParadigm> {
+    return this.wordMorphologyService.getParadigm(id);
+  }
+
+  @Get(":id/relations")
+  @ApiOperation({
+    summary: "Récupérer le graphe de relations d'un mot",
+    description:
+      "Synonymes, antonymes, dérivations, composés, emprunts, variantes et renvois, toutes langues confondues, parcourus jusqu'à la profondeur demandée",
+  })
+  @ApiResponse({ status: 200, description: "Nœuds et arêtes du graphe" })
+  @ApiResponse({ status: 404, description: "Mot non trouvé" })
+  @ApiParam({
+    name: "id",
+    description: "ID du mot",
+    example: "60a1b2c3d4e5f6a7b8c9d0e1",
+  })
+  async getRelations(
+    @Param("id") id: string,
+    @Query() query: WordRelationsQueryDto
+  ): Promise<WordRelationGraph> {
+    return this.wordRelationService.getRelationGraph(
+      id,
+      query.depth,
+      query.types
+    );
+  }
+
+  @Post(":id/relations")
+  @UseGuards(JwtAuthGuard, typedRolesGuard)
+  @Roles("contributor", "admin", "superadmin")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Relier le mot à un autre mot",
+    description: "La relation réciproque est créée automatiquement",
+  })
+  @ApiResponse({ status: 201, description: "Relation créée" })
+  @ApiResponse({
+    status: 400,
+    description: "Relation vers soi-même ou incompatible avec une relation existante",
+  })
+  @ApiResponse({ status: 404, description: "Mot non trouvé" })
+  @ApiResponse({ status: 409, description: "Relation déjà existante" })
+  async addRelation(
+    @Param("id") id: string,
+    @Body() dto: CreateWordRelationDto,
+    @Request() req: RequestWithUser
+  ): Promise<WordRelation> {
+    return this.wordRelationService.addRelation(
+      id,
+      dto,
+      String(req.user._id)
+    );
+  }
+
+  @Delete(":id/relations/:relationId")
+  @UseGuards(JwtAuthGuard, typedRolesGuard)
+  @Roles("contributor", "admin", "superadmin")
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Supprimer une relation et sa réciproque" })
+  @ApiResponse({ status: 200, description: "Relation supprimée" })
+  @ApiResponse({ status: 403, description: "Ni auteur ni administrateur" })
+  @ApiResponse({ status: 404, description: "Relation non trouvée" })
+  async removeRelation(
+    @Param("id") id: string,
+    @Param("relationId") relationId: string,
+    @Request() req: RequestWithUser
+  ): Promise<{ success: boolean }> {
+    return this.wordRelationService.removeRelation(
+      id,
+      relationId,
+      req.user
+    );
+  }
+
   @Post(":id/audio")
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
@@ -702,6 +864,10 @@ export class WordsController {
       type: "object",
       properties: {
         accent: { type: "string", example: "fr-FR" },
+        variantId: {
+          type: "string",
+          description: "Variante dialectale de la prononciation (optionnel)",
+        },
         audioFile: {
           type: "string",
           format: "binary",
@@ -713,7 +879,8 @@ export class WordsController {
     @Param("id") id: string,
     @Request() req: RequestWithUser,
     @UploadedFile() file: Express.Multer.File,
-    @Body("accent") accent: string
+    @Body("accent") accent: string,
+    @Body("variantId") variantId?: string
   ) {
     if (!file) {
       throw new BadRequestException("Fichier audio manquant.");
@@ -721,7 +888,57 @@ export class WordsController {
     if (!accent) {
       throw new BadRequestException("L'accent est requis.");
     }
-    return this.wordsService.addAudioFile(id, accent, file.buffer, req.user);
+    return this.wordsService.addAudioFile(
+      id,
+      accent,
+      file.buffer,
+      req.user,
+      variantId || undefined
+    );
+  }
+
+  @Post(":id/phonetics/:phoneticId/audio")
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiConsumes("multipart/form-data")
+  @UseInterceptors(FileInterceptor("audioFile"))
+  @ApiOperation({
+    summary: "Téléverser la prononciation d'une transcription phonétique",
+    description:
+      "Silences retirés, sonie normalisée, versions MP3 et Opus, durée et forme d'onde enregistrées dans meanings[].phonetics[].audio",
+  })
+  @ApiBody({
+    schema: {
+      type: "object",
+      properties: {
+        audioFile: {
+          type: "string",
+          format: "binary",
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 201, description: "Prononciation enregistrée" })
+  @ApiResponse({
+    status: 400,
+    description: "Fichier illisible, silencieux ou trop long",
+  })
+  @ApiResponse({ status: 404, description: "Mot ou phonétique non trouvé" })
+  async uploadPhoneticAudio(
+    @Param("id") id: string,
+    @Param("phoneticId") phoneticId: string,
+    @Request() req: RequestWithUser,
+    @UploadedFile() file: Express.Multer.File
+  ) {
+    if (!file) {
+      throw new BadRequestException("Fichier audio manquant.");
+    }
+    return this.wordAudioService.addPhoneticAudio(
+      id,
+      phoneticId,
+      file.buffer,
+      req.user
+    );
   }
 
   @Patch(":id")
@@ -12,6 +12,7 @@
  */
 
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { MongooseModule } from '@nestjs/mongoose';
 // import { RedisModule } from '@nestjs-modules/ioredis';
 
@@ -37,6 +38,14 @@ import { WordView, WordViewSchema } from '../users/schemas/word-view.schema';
 import { WordsService } from './services/words.service';
 import { CategoriesService } from './services/categories.service';
 import { AudioService } from './services/audio.service';
+import { AudioProcessingService } from './services/audio-processing/audio-processing.service';
+import { FfmpegAudioTranscoder } from './services/audio-processing/ffmpeg-audio.transcoder';
+import { CloudinaryAudioStorage } from './services/audio-processing/storage/cloudinary-audio.storage';
+import { LocalAudioStorage } from './services/audio-processing/storage/local-audio.storage';
+import {
+  AUDIO_STORAGE,
+  AUDIO_TRANSCODER,
+} from './services/audio-processing/audio-processing.types';
 // import { AudioCacheService } from './services/audio-cache.service';
 
 // PHASE 1 - Services utilitaires pour refactoring
@@ -51,6 +60,11 @@ import { WordFavoriteService } from './services/word-services/word-favorite.serv
 import { WordAnalyticsService } from './services/word-services/word-analytics.service';
 import { WordRevisionService } from './services/word-services/word-revision.service';
 import { WordCoreService } from './services/word-services/word-core.service';
+import { WordSpellingService } from './services/word-services/word-spelling.service';
+import { WordMorphologyService } from './services/word-services/word-morphology.service';
+import { WordRelationService } from './services/word-services/word-relation.service';
+import { WordScriptService } from './services/word-services/word-script.service';
+import { WordImportService } from './services/word-import/word-import.service';
 
 // Contrôleurs
 import { WordsController } from './controllers/words.controller';
@@ -64,12 +78,15 @@ import { WordsAnalyticsController } from './controllers/words-analytics.controll
 import { WordsRevisionController } from './controllers/words-revision.controller';
 import { WordsPermissionController } from './controllers/words-permission.controller';
 import { WordsTranslationController } from './controllers/words-translation.controller';
+import { WordsImportController } from './controllers/words-import.controller';
 import { UsersModule } from 'src/users/users.module';
 // ✨ NOUVEL IMPORT pour l'intégration de la détection automatique
 import { TranslationModule } from '../translation/translation.module';
 import { ActivityModule } from '../common/activity.module';
 import { RepositoriesModule } from '../repositories/repositories.module';
 import { LanguagesModule } from '../languages/languages.module';
+import { CorpusModule } from '../corpus/corpus.module';
+import { ModerationModule } from '../moderation/moderation.module';
 
 /**
  * Module du dictionnaire O'Ypunu - Architecture avancée
@@ -93,10 +110,12 @@ import { LanguagesModule } from '../languages/languages.module';
  * - **Phase 1** : Services utilitaires (validation, permissions, notifications, traductions)
  * - **Phase 2-7** : Services métier (audio, favoris, analytics, révisions, core)
  * - **Intégrations** : Translation, Activity, Repositories modules
+ * - **Audio** : Pipeline de traitement (ffmpeg) ; stockage Cloudinary, ou
+ *   local avec `AUDIO_STORAGE=local` (`AUDIO_LOCAL_DIR`, `AUDIO_LOCAL_BASE_URL`)
  * 
  * ### 🎮 Contrôleurs découplés
  * - **Existants** : Words, Categories, FavoriteWords (legacy)
- * - **Spécialisés** : Core, Admin, Analytics, Revision, Permission, Translation
+ * - **Spécialisés** : Core, Admin, Analytics, Revision, Permission, Translation, Import
  * - **Bénéfices** : Single Responsibility, testabilité, maintenabilité
  * 
  * ## 🔗 Dépendances externes :
@@ -104,6 +123,8 @@ import { LanguagesModule } from '../languages/languages.module';
  * - **TranslationModule** : Détection automatique et traductions
  * - **ActivityModule** : Logging d'activités et auditabilité
  * - **RepositoriesModule** : Pattern Repository pour abstraction données
+ * - **CorpusModule** : Exemples de corpus glosés affichés sur la fiche d'un mot
+ * - **ModerationModule** : Modération automatique des mots créés
  * 
  * @class DictionaryModule
  * @version 1.0.0
@@ -126,6 +147,8 @@ import { LanguagesModule } from '../languages/languages.module';
     ActivityModule,
     RepositoriesModule, // Already imported - Repository Pattern support
     LanguagesModule, // Pour le mapping dynamique des accents audio
+    CorpusModule, // Exemples de corpus sur la fiche d'un mot
+    ModerationModule, // Modération automatique des nouveaux mots
   ],
   controllers: [
     // Contrôleurs existants
@@ -139,11 +162,25 @@ import { LanguagesModule } from '../languages/languages.module';
     WordsRevisionController,
     WordsPermissionController,
     WordsTranslationController,
+    WordsImportController,
   ],
   providers: [
     WordsService, 
     CategoriesService, 
     AudioService,
+    AudioProcessingService,
+    { provide: AUDIO_TRANSCODER, useClass: FfmpegAudioTranscoder },
+    {
+      provide: AUDIO_STORAGE,
+      useFactory: (configService: ConfigService) =>
+        configService.get<string>('AUDIO_STORAGE') === 'local'
+          ? new LocalAudioStorage(
+              configService.get<string>('AUDIO_LOCAL_DIR') || 'uploads/audio',
+              configService.get<string>('AUDIO_LOCAL_BASE_URL'),
+            )
+          : new CloudinaryAudioStorage(configService),
+      inject: [ConfigService],
+    },
     // PHASE 1 - Services utilitaires pour refactoring
     WordValidationService,
     WordPermissionService,
@@ -155,11 +192,17 @@ import { LanguagesModule } from '../languages/languages.module';
     WordAnalyticsService,
     WordRevisionService,
     WordCoreService,
+    WordSpellingService,
+    WordMorphologyService,
+    WordRelationService,
+    WordScriptService,
+    WordImportService,
   ],
   exports: [
     WordsService, 
     CategoriesService,
     AudioService,
+    AUDIO_STORAGE, // Relecture des enregistrements (audio des quiz)
     // PHASE 1 - Export des services utilitaires
     WordValidationService,
     WordPermissionService,
@@ -171,6 +214,11 @@ import { LanguagesModule } from '../languages/languages.module';
     WordAnalyticsService,
     WordRevisionService,
     WordCoreService,
+    WordSpellingService,
+    WordMorphologyService,
+    WordRelationService,
+    WordScriptService,
+    WordImportService,
   ],
 })
 export class DictionaryModule {}
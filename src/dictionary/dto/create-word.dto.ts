@@ -29,6 +29,7 @@ import {
   MaxLength,
   MinLength,
   ArrayMaxSize,
+  IsIn,
 } from 'class-validator';
 import { DICTIONARY_LIMITS, VALIDATION_LIMITS, ARRAY_LIMITS, createValidationMessage } from '../../common/constants/validation-limits.constants';
 
@@ -88,6 +89,17 @@ class DefinitionDto {
   @IsUrl({}, { message: 'URL invalide' })
   @MaxLength(VALIDATION_LIMITS.URL.MAX, createValidationMessage('L\'URL source', VALIDATION_LIMITS.URL).maxLength)
   sourceUrl?: string;
+
+  @ApiProperty({
+    description:
+      'Variantes dialectales auxquelles la définition est propre (IDs de Language.variants)',
+    required: false,
+    isArray: true,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsMongoId({ each: true })
+  variantIds?: string[];
 }
 
 class PhoneticDto {
@@ -118,6 +130,138 @@ class PhoneticDto {
   @IsUrl()
   @IsOptional()
   sourceUrl?: string;
+
+  @ApiProperty({
+    description: 'Variante dialectale de cette prononciation (ID de Language.variants)',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  variantId?: string;
+}
+
+/**
+ * DTO pour la forme d'un mot propre à une variante dialectale
+ *
+ * @class WordVariantFormDto
+ * @version 1.0.0
+ */
+export class WordVariantFormDto {
+  @ApiProperty({
+    description: 'ID de la variante (Language.variants)',
+    example: '60a1b2c3d4e5f6a7b8c9d0e1',
+  })
+  @IsMongoId()
+  variantId: string;
+
+  @ApiProperty({ description: 'Forme employée dans cette variante', example: 'ébo' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(DICTIONARY_LIMITS.WORD.MAX)
+  form: string;
+
+  @ApiProperty({ description: 'Prononciation dans cette variante', required: false })
+  @IsOptional()
+  @IsString()
+  pronunciation?: string;
+}
+
+/**
+ * DTO pour une forme irrégulière d'un paradigme verbal
+ */
+export class IrregularFormDto {
+  @ApiProperty({ description: 'Nom du paradigme', example: 'present' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  paradigm: string;
+
+  @ApiProperty({ description: 'Case du paradigme', example: '1sg' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  cell: string;
+
+  @ApiProperty({ description: 'Forme attestée', example: 'nalei' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  form: string;
+}
+
+/**
+ * DTO pour les traits grammaticaux d'un sens
+ *
+ * Les codes de classe renvoient aux classes nominales déclarées
+ * sur la langue (`Language.morphology.nounClasses`).
+ *
+ * @class GrammaticalFeaturesDto
+ * @version 1.0.0
+ */
+export class GrammaticalFeaturesDto {
+  @ApiProperty({
+    description: 'Classe nominale',
+    example: '7',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(10)
+  nounClass?: string;
+
+  @ApiProperty({
+    description: "Classe du pluriel, si elle diffère de l'appariement par défaut",
+    example: '8',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(10)
+  pluralClass?: string;
+
+  @ApiProperty({
+    description: 'Pluriels attestés (prioritaires sur le pluriel généré)',
+    example: ['bato'],
+    required: false,
+    isArray: true,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(5)
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  pluralForms?: string[];
+
+  @ApiProperty({
+    description: 'Radical explicite (sinon déduit du lemme)',
+    example: 'to',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  stem?: string;
+
+  @ApiProperty({
+    description: 'Transitivité (verbes)',
+    enum: ['transitive', 'intransitive', 'ditransitive'],
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(['transitive', 'intransitive', 'ditransitive'])
+  transitivity?: string;
+
+  @ApiProperty({
+    description: 'Formes irrégulières (prioritaires sur les formes générées)',
+    type: [IrregularFormDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => IrregularFormDto)
+  irregularForms?: IrregularFormDto[];
 }
 
 export class MeaningDto {
@@ -198,6 +342,16 @@ export class MeaningDto {
   @Type(() => PhoneticDto)
   @IsOptional()
   phonetics?: PhoneticDto[];
+
+  @ApiProperty({
+    description: 'Traits grammaticaux (classe nominale, pluriels, formes irrégulières)',
+    type: GrammaticalFeaturesDto,
+    required: false,
+  })
+  @ValidateNested()
+  @Type(() => GrammaticalFeaturesDto)
+  @IsOptional()
+  grammaticalFeatures?: GrammaticalFeaturesDto;
 }
 
 class WordTranslationDto {
@@ -350,6 +504,29 @@ export class CreateWordDto {
   @IsOptional()
   pronunciation?: string;
 
+  @ApiProperty({
+    description:
+      'Variantes dialectales où la forme principale est employée (IDs de Language.variants, vide = toute la langue)',
+    required: false,
+    isArray: true,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsMongoId({ each: true })
+  variantIds?: string[];
+
+  @ApiProperty({
+    description: "Formes de l'entrée propres à d'autres variantes dialectales",
+    type: [WordVariantFormDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => WordVariantFormDto)
+  variantForms?: WordVariantFormDto[];
+
   @ApiProperty({
     description: 'Origine étymologique du mot',
     example: 'Du latin serenitas, désignant un état calme et paisible',
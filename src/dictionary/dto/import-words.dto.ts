@@ -0,0 +1,43 @@
+import { IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  WORD_IMPORT_FORMATS,
+  WordImportFormat,
+} from '../services/word-import/word-import.types';
+
+/**
+ * Champs accompagnant le fichier d'un import en masse (multipart/form-data)
+ */
+export class ImportWordsDto {
+  @ApiProperty({
+    description:
+      "Format du fichier (déduit de l'extension si absent : .csv/.tsv, .json, .lift/.xml)",
+    enum: WORD_IMPORT_FORMATS,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(WORD_IMPORT_FORMATS)
+  format?: WordImportFormat;
+
+  @ApiProperty({
+    description:
+      "Code ISO 639 appliqué aux entrées qui ne précisent pas leur langue",
+    example: 'fan',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  language?: string;
+
+  @ApiProperty({
+    description:
+      'Partie du discours appliquée aux sens qui ne la précisent pas',
+    example: 'noun',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  partOfSpeech?: string;
+}
@@ -1,4 +1,10 @@
-import { IsArray, IsNumber, IsOptional, IsString } from 'class-validator';
+import {
+  IsArray,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
 import { Type, Transform } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
 
@@ -73,6 +79,59 @@ export class SearchWordsDto {
   @IsString({ each: true })
   partsOfSpeech?: string[];
 
+  @ApiProperty({
+    description:
+      'Filtrer par classes nominales (string séparée par des virgules ou tableau)',
+    example: '7,8',
+    required: false,
+    type: String,
+  })
+  @IsOptional()
+  @Transform(({ value }) => {
+    if (typeof value === 'string') {
+      return value
+        .split(',')
+        .map((nounClass) => nounClass.trim())
+        .filter((nounClass) => nounClass.length > 0);
+    }
+    return Array.isArray(value) ? value : [];
+  })
+  @IsArray()
+  @IsString({ each: true })
+  nounClasses?: string[];
+
+  @ApiProperty({
+    description:
+      'Filtrer par variantes dialectales, IDs de Language.variants (string séparée par des virgules ou tableau)',
+    example: '60a1b2c3d4e5f6a7b8c9d0e1',
+    required: false,
+    type: String,
+  })
+  @IsOptional()
+  @Transform(({ value }) => {
+    if (typeof value === 'string') {
+      return value
+        .split(',')
+        .map((variant) => variant.trim())
+        .filter((variant) => variant.length > 0);
+    }
+    return Array.isArray(value) ? value : [];
+  })
+  @IsArray()
+  @IsString({ each: true })
+  variants?: string[];
+
+  @ApiProperty({
+    description:
+      "Code de l'écriture dans laquelle rendre les entrées (l'un des Language.scripts)",
+    example: 'Arab',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(10)
+  script?: string;
+
   @ApiProperty({
     description: 'Numéro de page',
     example: 1,
@@ -10,7 +10,11 @@ import {
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
-import { AudioFileDto } from './create-word.dto';
+import {
+  AudioFileDto,
+  GrammaticalFeaturesDto,
+  WordVariantFormDto,
+} from './create-word.dto';
 
 export class UpdateDefinitionDto {
   @IsOptional()
@@ -25,6 +29,11 @@ export class UpdateDefinitionDto {
   @IsOptional()
   @IsString()
   sourceUrl?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsMongoId({ each: true })
+  variantIds?: string[];
 }
 
 export class UpdatePhoneticDto {
@@ -43,6 +52,10 @@ export class UpdatePhoneticDto {
   @IsOptional()
   @IsString()
   sourceUrl?: string;
+
+  @IsOptional()
+  @IsMongoId()
+  variantId?: string;
 }
 
 export class UpdateMeaningDto {
@@ -76,6 +89,11 @@ export class UpdateMeaningDto {
   @ValidateNested({ each: true })
   @Type(() => UpdatePhoneticDto)
   phonetics?: UpdatePhoneticDto[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => GrammaticalFeaturesDto)
+  grammaticalFeatures?: GrammaticalFeaturesDto;
 }
 
 export class UpdateTranslationDto {
@@ -142,6 +160,26 @@ export class UpdateWordDto {
   @IsOptional()
   languageVariants?: Map<string, string>;
 
+  @ApiProperty({
+    description: 'Variantes dialectales de la forme principale',
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsMongoId({ each: true })
+  variantIds?: string[];
+
+  @ApiProperty({
+    description: 'Formes propres à d\'autres variantes dialectales',
+    type: [WordVariantFormDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => WordVariantFormDto)
+  variantForms?: WordVariantFormDto[];
+
   @ApiProperty({ description: 'Fichiers audio', required: false })
   @IsOptional()
   audioFiles?: Map<
@@ -151,6 +189,7 @@ export class UpdateWordDto {
       cloudinaryId: string;
       language: string;
       accent: string;
+      variantId?: string;
     }
   >;
 
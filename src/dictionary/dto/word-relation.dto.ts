@@ -0,0 +1,86 @@
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsIn,
+  IsInt,
+  IsMongoId,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import {
+  RECIPROCAL_RELATION_TYPES,
+  WORD_RELATION_TYPES,
+} from '../schemas/word-relation.schema';
+
+/**
+ * Création d'une relation depuis le mot de l'URL vers un autre mot
+ * (la relation réciproque est créée automatiquement)
+ */
+export class CreateWordRelationDto {
+  @ApiProperty({
+    description: 'ID du mot cible (toutes langues)',
+    example: '60a1b2c3d4e5f6a7b8c9d0e1',
+  })
+  @IsMongoId()
+  targetWordId: string;
+
+  @ApiProperty({
+    description: 'Type de relation, du mot source vers le mot cible',
+    enum: WORD_RELATION_TYPES,
+    example: 'loan-from',
+  })
+  @IsIn(WORD_RELATION_TYPES as unknown as string[])
+  type: string;
+
+  @ApiProperty({
+    description: 'Précision libre',
+    required: false,
+    example: 'Emprunt au portugais via le français',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(300)
+  note?: string;
+}
+
+/**
+ * Paramètres du graphe de relations d'un mot
+ */
+export class WordRelationsQueryDto {
+  @ApiProperty({
+    description: 'Profondeur du parcours (1 = relations directes)',
+    required: false,
+    default: 1,
+    minimum: 1,
+    maximum: 3,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(3)
+  depth?: number = 1;
+
+  @ApiProperty({
+    description: 'Types de relation à suivre (séparés par des virgules)',
+    required: false,
+    example: 'synonym,derived-from',
+  })
+  @IsOptional()
+  @Transform(({ value }) => {
+    if (typeof value === 'string') {
+      return value
+        .split(',')
+        .map((type) => type.trim())
+        .filter((type) => type.length > 0);
+    }
+    return Array.isArray(value) ? value : [];
+  })
+  @IsArray()
+  @IsIn(Object.keys(RECIPROCAL_RELATION_TYPES), { each: true })
+  types?: string[];
+}
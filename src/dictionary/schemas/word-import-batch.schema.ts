@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Schéma des lots d'import de dictionnaire pour O'Ypunu
+ *
+ * Chaque import validé (CSV, JSON ou LIFT) crée un lot identifié par un
+ * `batchId` partagé par tous les mots créés, afin de pouvoir consulter
+ * le bilan de l'import et l'annuler d'un seul geste.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+import { User } from '../../users/schemas/user.schema';
+
+export type WordImportBatchDocument = WordImportBatch & Document;
+
+/**
+ * Lot d'import de mots
+ *
+ * ## 🔄 Cycle de vie :
+ * - **completed** : mots créés en statut `pending`
+ * - **rolled_back** : mots encore non approuvés supprimés
+ *
+ * @class WordImportBatch
+ * @version 1.0.0
+ */
+@Schema({
+  timestamps: true,
+  collection: 'word_import_batches',
+})
+export class WordImportBatch {
+  /** Identifiant public du lot, reporté sur chaque mot (`Word.importBatchId`) */
+  @Prop({ required: true, unique: true })
+  batchId: string;
+
+  /** Format du fichier source */
+  @Prop({ required: true, enum: ['csv', 'json', 'lift'] })
+  format: string;
+
+  /** Nom du fichier importé (optionnel) */
+  @Prop()
+  fileName?: string;
+
+  /** Utilisateur ayant lancé l'import */
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'User', required: true })
+  createdBy: User;
+
+  @Prop({
+    type: String,
+    enum: ['completed', 'rolled_back'],
+    default: 'completed',
+  })
+  status: string;
+
+  /** Codes des langues des mots importés */
+  @Prop({ type: [String], default: [] })
+  languages: string[];
+
+  /** Bilan de l'import */
+  @Prop({
+    type: {
+      total: { type: Number, default: 0 },
+      created: { type: Number, default: 0 },
+      duplicates: { type: Number, default: 0 },
+      errors: { type: Number, default: 0 },
+    },
+    _id: false,
+  })
+  summary: {
+    total: number;
+    created: number;
+    duplicates: number;
+    errors: number;
+  };
+
+  /** Annulation du lot */
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'User' })
+  rolledBackBy?: User;
+
+  @Prop()
+  rolledBackAt?: Date;
+
+  /** Mots supprimés lors de l'annulation */
+  @Prop({ type: Number, default: 0 })
+  rolledBackCount: number;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const WordImportBatchSchema =
+  SchemaFactory.createForClass(WordImportBatch);
+
+// === INDEX OPTIMISÉS POUR PERFORMANCES ===
+
+// Lots d'un utilisateur, du plus récent au plus ancien
+WordImportBatchSchema.index({ createdBy: 1, createdAt: -1 });
+
+// Liste d'administration par statut
+WordImportBatchSchema.index({ status: 1, createdAt: -1 });
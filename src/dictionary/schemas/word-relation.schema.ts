@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Schéma des relations typées entre mots pour O'Ypunu
+ *
+ * Graphe de renvois entre entrées du dictionnaire, y compris entre
+ * langues différentes : synonymes, antonymes, dérivations, composés,
+ * emprunts, variantes et renvois simples. Chaque relation est stockée
+ * dans les deux sens, la relation réciproque étant créée automatiquement.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+import { User } from '../../users/schemas/user.schema';
+import { Word } from './word.schema';
+
+export type WordRelationDocument = WordRelation & Document;
+
+/**
+ * Types de relation pouvant être déclarés par un contributeur
+ */
+export const WORD_RELATION_TYPES = [
+  'synonym',
+  'antonym',
+  'derived-from',
+  'compound-of',
+  'loan-from',
+  'variant-of',
+  'see-also',
+] as const;
+
+/**
+ * Type réciproque de chaque relation (relations symétriques : même type)
+ */
+export const RECIPROCAL_RELATION_TYPES: Record<string, string> = {
+  synonym: 'synonym',
+  antonym: 'antonym',
+  'derived-from': 'has-derivative',
+  'has-derivative': 'derived-from',
+  'compound-of': 'component-of',
+  'component-of': 'compound-of',
+  'loan-from': 'loaned-to',
+  'loaned-to': 'loan-from',
+  'variant-of': 'variant-of',
+  'see-also': 'see-also',
+};
+
+/**
+ * Relation orientée entre deux mots
+ *
+ * ## 🔗 Réciprocité :
+ * - `derived-from` ↔ `has-derivative`
+ * - `compound-of` ↔ `component-of`
+ * - `loan-from` ↔ `loaned-to`
+ * - `synonym`, `antonym`, `variant-of`, `see-also` : symétriques
+ *
+ * Les deux sens d'une même relation partagent un `pairId` et sont créés
+ * et supprimés ensemble.
+ *
+ * @class WordRelation
+ * @version 1.0.0
+ */
+@Schema({
+  timestamps: true,
+  collection: 'word_relations',
+})
+export class WordRelation {
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'Word', required: true })
+  sourceWordId: Word;
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'Word', required: true })
+  targetWordId: Word;
+
+  @Prop({
+    type: String,
+    required: true,
+    enum: Object.keys(RECIPROCAL_RELATION_TYPES),
+  })
+  type: string;
+
+  /** Identifiant commun aux deux sens de la relation */
+  @Prop({ required: true, index: true })
+  pairId: string;
+
+  /** Sens créé automatiquement comme réciproque */
+  @Prop({ default: false })
+  isReciprocal: boolean;
+
+  /** Précision libre (ex: "via le portugais", "dérivation en -ing") */
+  @Prop({ maxlength: 300 })
+  note?: string;
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'User', required: true })
+  createdBy: User;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const WordRelationSchema = SchemaFactory.createForClass(WordRelation);
+
+// === INDEX OPTIMISÉS POUR PERFORMANCES ===
+
+// Une relation d'un type donné par couple orienté
+WordRelationSchema.index(
+  { sourceWordId: 1, targetWordId: 1, type: 1 },
+  { unique: true },
+);
+
+// Parcours du graphe et nettoyage à la suppression d'un mot
+WordRelationSchema.index({ sourceWordId: 1, type: 1 });
+WordRelationSchema.index({ targetWordId: 1 });
@@ -11,9 +11,27 @@
  * @since 2025-01-01
  */
 
+import { Logger } from '@nestjs/common';
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
-import { Document, Schema as MongooseSchema } from 'mongoose';
+import {
+  Connection,
+  Document,
+  Model,
+  Query,
+  Schema as MongooseSchema,
+} from 'mongoose';
 import { User } from '../../users/schemas/user.schema';
+import { SearchNormalizer } from '../../common/utils/search-normalizer.util';
+import { FuzzyMatcher } from '../../common/utils/fuzzy-match.util';
+import { PhoneticKey } from '../../common/utils/phonetic-key.util';
+import {
+  InflectionGenerator,
+  MorphologyRules,
+} from '../../common/utils/inflection.util';
+import {
+  TransliterationTable,
+  Transliterator,
+} from '../../common/utils/transliteration.util';
 import { Category } from './category.schema';
 import { Language } from '../../languages/schemas/language.schema';
 
@@ -56,8 +74,88 @@ export class Definition {
    */
   @Prop()
   sourceUrl?: string;
+
+  /**
+   * Variantes dialectales auxquelles la définition est propre
+   * (IDs de `Language.variants`, vide = toute la langue)
+   * @type {string[]}
+   * @default []
+   */
+  @Prop({ type: [String], default: [] })
+  variantIds: string[];
 }
 
+/**
+ * Version encodée d'un enregistrement (paire Opus/MP3 standard)
+ */
+export interface AudioRendition {
+  format: 'mp3' | 'opus';
+  url: string;
+  /** Identifiant dans le stockage (ID Cloudinary ou chemin local) */
+  storageId: string;
+  bitrateKbps: number;
+  fileSize: number;
+}
+
+/**
+ * Métadonnées produites par le traitement audio (normalisation de la
+ * sonie, suppression des silences, transcodage, forme d'onde)
+ */
+export interface AudioProcessingMetadata {
+  format: string;
+  /** Durée en secondes, silences retirés */
+  duration: number;
+  sampleRate: number;
+  renditions: AudioRendition[];
+  /** Forme d'onde réduite (crêtes entre 0 et 1) */
+  peaks: number[];
+  loudness: {
+    /** Sonie intégrée de l'enregistrement reçu (LUFS) */
+    inputLufs: number | null;
+    outputLufs: number | null;
+    gainDb: number;
+  };
+  /** Passage conservé de l'enregistrement reçu */
+  trim: { startMs: number; endMs: number };
+  /** Stockage utilisé ("cloudinary" ou "local") */
+  storage: string;
+  processedAt: Date;
+}
+
+/** Champs Mongoose de `AudioProcessingMetadata` */
+const AUDIO_PROCESSING_FIELDS = {
+  format: { type: String },
+  duration: { type: Number },
+  sampleRate: { type: Number },
+  renditions: {
+    type: [
+      new MongooseSchema(
+        {
+          format: { type: String, enum: ['mp3', 'opus'] },
+          url: { type: String },
+          storageId: { type: String },
+          bitrateKbps: { type: Number },
+          fileSize: { type: Number },
+        },
+        { _id: false },
+      ),
+    ],
+    default: undefined,
+  },
+  peaks: { type: [Number], default: undefined },
+  loudness: {
+    inputLufs: { type: Number },
+    outputLufs: { type: Number },
+    gainDb: { type: Number },
+  },
+  trim: {
+    startMs: { type: Number },
+    endMs: { type: Number },
+  },
+  storage: { type: String },
+  processedAt: { type: Date },
+};
+
 /**
  * Schéma pour les informations phonétiques
  * 
@@ -85,13 +183,13 @@ export class Phonetic {
    * @property {string} cloudinaryId - ID Cloudinary pour gestion
    * @property {string} format - Format audio (mp3, wav, etc.)
    * @property {number} duration - Durée en secondes
+   * @see AudioProcessingMetadata pour les versions Opus/MP3, la sonie et la forme d'onde
    */
   @Prop({
     type: {
       url: { type: String },
       cloudinaryId: { type: String },
-      format: { type: String },
-      duration: { type: Number },
+      ...AUDIO_PROCESSING_FIELDS,
     },
   })
   audio?: {
@@ -99,7 +197,7 @@ export class Phonetic {
     cloudinaryId: string;
     format: string;
     duration: number;
-  };
+  } & Partial<AudioProcessingMetadata>;
 
   /**
    * URL source de la phonétique (optionnel)
@@ -108,6 +206,148 @@ export class Phonetic {
    */
   @Prop()
   sourceUrl?: string;
+
+  /**
+   * Variante dialectale de cette prononciation (ID de `Language.variants`)
+   * @type {string}
+   * @optional
+   */
+  @Prop()
+  variantId?: string;
+}
+
+/**
+ * Forme d'un mot propre à une variante dialectale
+ *
+ * @class WordVariantForm
+ * @version 1.0.0
+ */
+@Schema({ _id: false })
+export class WordVariantForm {
+  /** ID de la variante (`Language.variants`) */
+  @Prop({ required: true })
+  variantId: string;
+
+  /** Forme employée dans cette variante */
+  @Prop({ required: true })
+  form: string;
+
+  /** Prononciation dans cette variante */
+  @Prop()
+  pronunciation?: string;
+}
+
+/**
+ * Graphie d'un mot dans une autre écriture de sa langue, générée par
+ * translittération
+ *
+ * @class WordScriptForm
+ * @version 1.0.0
+ * @see Transliterator
+ */
+@Schema({ _id: false })
+export class WordScriptForm {
+  /** Code de l'écriture (`Language.scripts`) - Ex: "Nkoo" */
+  @Prop({ required: true })
+  scriptCode: string;
+
+  @Prop({ required: true })
+  form: string;
+}
+
+/**
+ * Compteurs sociaux dénormalisés d'un mot
+ *
+ * Tenus à jour par `WordSocialService` à chaque interaction, ils évitent
+ * de recompter les collections sociales pour les statistiques et les
+ * tendances.
+ *
+ * @class WordSocialCounters
+ * @version 1.0.0
+ */
+@Schema({ _id: false })
+export class WordSocialCounters {
+  /** Réactions « like » (voir `WordVote`) */
+  @Prop({ default: 0 })
+  likes: number;
+
+  /** Commentaires et réponses visibles */
+  @Prop({ default: 0 })
+  comments: number;
+
+  @Prop({ default: 0 })
+  shares: number;
+
+  @Prop({ default: 0 })
+  ratings: number;
+
+  /** Somme des notes, pour calculer la moyenne */
+  @Prop({ default: 0 })
+  ratingSum: number;
+
+  @Prop({ default: 0 })
+  usageExamples: number;
+
+  /** Score d'engagement pondéré, base du classement des tendances */
+  @Prop({ default: 0 })
+  score: number;
+}
+
+/**
+ * Schéma des traits grammaticaux d'un sens
+ *
+ * Renseigne la classe nominale, les pluriels attestés et les formes
+ * irrégulières utilisés par le générateur de flexions.
+ *
+ * @class GrammaticalFeatures
+ * @version 1.0.0
+ * @see InflectionGenerator
+ */
+@Schema({ _id: false })
+export class GrammaticalFeatures {
+  /**
+   * Classe nominale (code déclaré dans `Language.morphology.nounClasses`)
+   * @example "7"
+   */
+  @Prop()
+  nounClass?: string;
+
+  /**
+   * Classe du pluriel, si elle diffère de l'appariement par défaut
+   */
+  @Prop()
+  pluralClass?: string;
+
+  /**
+   * Pluriels attestés (prioritaires sur le pluriel généré)
+   */
+  @Prop({ type: [String], default: [] })
+  pluralForms: string[];
+
+  /**
+   * Radical explicite (sinon déduit du lemme)
+   */
+  @Prop()
+  stem?: string;
+
+  @Prop({ enum: ['transitive', 'intransitive', 'ditransitive'] })
+  transitivity?: string;
+
+  /**
+   * Formes irrégulières d'un paradigme verbal
+   */
+  @Prop({
+    type: [
+      {
+        paradigm: { type: String, required: true },
+        cell: { type: String, required: true },
+        form: { type: String, required: true },
+        _id: false,
+      },
+    ],
+    default: [],
+  })
+  irregularForms: Array<{ paradigm: string; cell: string; form: string }>;
 }
 
 @Schema()
@@ -129,6 +369,9 @@ export class Meaning {
 
   @Prop({ type: [Phonetic], default: [] })
   phonetics: Phonetic[];
+
+  @Prop({ type: GrammaticalFeatures })
+  grammaticalFeatures?: GrammaticalFeatures;
 }
 
 @Schema()
@@ -216,9 +459,59 @@ export class Word {
   @Prop({ index: true })
   language?: string;
 
+  /**
+   * Clé de recherche normalisée (sans casse, diacritiques ni tons)
+   * Synchronisée automatiquement à chaque écriture du champ `word`
+   * @see SearchNormalizer
+   */
+  @Prop()
+  searchKey?: string;
+
+  /**
+   * Trigrammes de la clé de recherche, pour retrouver les candidats
+   * "vouliez-vous dire" malgré une faute de frappe
+   * @see FuzzyMatcher
+   */
+  @Prop({ type: [String], default: [] })
+  searchGrams: string[];
+
+  /**
+   * Clés phonétiques issues du mot, de `pronunciation` et des `Phonetic.text`
+   * @see PhoneticKey
+   */
+  @Prop({ type: [String], default: [] })
+  phoneticKeys: string[];
+
+  /**
+   * Clés normalisées des formes fléchies générées (pluriels, conjugaisons),
+   * des formes dialectales et des graphies dans les autres écritures, pour
+   * qu'une recherche sur l'une de ces formes retrouve le lemme
+   * @see InflectionGenerator
+   */
+  @Prop({ type: [String], default: [] })
+  inflectionKeys: string[];
+
   @Prop()
   pronunciation?: string;
 
+  /**
+   * Variantes dialectales où la forme principale est employée
+   * (IDs de `Language.variants`, vide = toute la langue)
+   */
+  @Prop({ type: [String], default: [] })
+  variantIds: string[];
+
+  /** Formes de l'entrée propres à d'autres variantes */
+  @Prop({ type: [WordVariantForm], default: [] })
+  variantForms: WordVariantForm[];
+
+  /**
+   * Graphies du mot dans les autres écritures de la langue, recalculées
+   * à partir des tables de `Language.transliterations`
+   */
+  @Prop({ type: [WordScriptForm], default: [] })
+  scriptForms: WordScriptForm[];
+
   @Prop()
   etymology?: string;
 
@@ -234,6 +527,20 @@ export class Word {
   @Prop({ default: 'pending', enum: ['approved', 'pending', 'rejected'] })
   status: string;
 
+  /** Auteur de la dernière décision de modération (approbation ou rejet) */
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'User' })
+  moderatedBy?: User;
+
+  @Prop()
+  moderatedAt?: Date;
+
+  @Prop()
+  moderationReason?: string;
+
+  /** Statut avant la dernière décision, rétabli si un appel l'annule */
+  @Prop()
+  previousStatus?: string;
+
   @Prop()
   createdAt: Date;
 
@@ -249,6 +556,8 @@ export class Word {
         cloudinaryId: { type: String },
         language: { type: String },
         accent: { type: String },
+        variantId: { type: String },
+        ...AUDIO_PROCESSING_FIELDS,
       },
       { _id: false },
     ),
@@ -261,7 +570,8 @@ export class Word {
       cloudinaryId: string;
       language: string;
       accent: string;
-    }
+      variantId?: string;
+    } & Partial<AudioProcessingMetadata>
   >;
 
   @Prop({ type: [Translation], default: [] })
@@ -282,6 +592,16 @@ export class Word {
 
   @Prop({ type: Number, default: 1 })
   version: number; // Version du mot (pour le système de révisions)
+
+  @Prop({ type: WordSocialCounters, default: () => ({}) })
+  social: WordSocialCounters;
+
+  /**
+   * Lot d'import ayant créé le mot (absent pour une saisie manuelle)
+   * @see WordImportBatch
+   */
+  @Prop({ index: true, sparse: true })
+  importBatchId?: string;
 }
 
 export const WordSchema = SchemaFactory.createForClass(Word);
@@ -294,3 +614,337 @@ WordSchema.index({ availableLanguages: 1, categoryId: 1 }); // Pour recherche de
 WordSchema.index({ 'translations.translationGroupId': 1 }); // Pour groupes de traduction
 WordSchema.index({ 'translations.targetWordId': 1 }); // Pour relations bidirectionnelles
 WordSchema.index({ translationCount: -1, language: 1 }); // Pour mots les plus traduits
+WordSchema.index({ searchKey: 1, language: 1 }); // Pour recherche insensible aux diacritiques et tons
+WordSchema.index({ searchGrams: 1, language: 1 }); // Pour suggestions tolérantes aux fautes
+WordSchema.index({ phoneticKeys: 1, language: 1 }); // Pour suggestions phonétiques
+WordSchema.index({ inflectionKeys: 1, language: 1 }); // Pour résolution des formes fléchies
+WordSchema.index({ languageId: 1, status: 1, word: 1 }); // Pour export alphabétique d'une langue
+WordSchema.index({ variantIds: 1, languageId: 1 }); // Pour filtrage par variante dialectale
+WordSchema.index({ 'variantForms.variantId': 1, languageId: 1 }); // Pour comparaison entre variantes
+WordSchema.index({ status: 1, 'social.score': -1 }); // Pour mots tendance
+WordSchema.index({ status: 1, language: 1, 'social.score': -1 }); // Pour mots tendance par langue
+
+// ===== SYNCHRONISATION DES CLÉS DE RECHERCHE =====
+
+/**
+ * Champs dérivés du mot utilisés par la recherche
+ */
+export interface WordSearchFields {
+  searchKey: string;
+  searchGrams: string[];
+  phoneticKeys: string[];
+  inflectionKeys: string[];
+}
+
+/**
+ * Écritures d'une langue utiles à la génération des graphies d'un mot
+ */
+export interface LanguageScripting {
+  /** Écriture dans laquelle les mots sont saisis */
+  sourceScript?: string;
+  tables: TransliterationTable[];
+}
+
+/**
+ * Calcule les graphies d'un mot dans les écritures atteignables depuis
+ * l'écriture de saisie ; seules les translittérations complètes sont
+ * conservées
+ */
+export function buildWordScriptForms(
+  word: Pick<Word, 'word'>,
+  scripting?: LanguageScripting,
+): WordScriptForm[] {
+  if (!scripting?.sourceScript || !scripting.tables.length || !word.word) {
+    return [];
+  }
+  return Transliterator.alternateForms(
+    word.word,
+    scripting.sourceScript,
+    scripting.tables,
+  );
+}
+
+/**
+ * Calcule les clés normalisées des formes fléchies d'un mot, sens par sens,
+ * selon les règles morphologiques de sa langue, ainsi que celles de ses
+ * formes dialectales et de ses graphies dans les autres écritures
+ */
+export function buildWordInflectionKeys(
+  word: Pick<Word, 'word'> & {
+    meanings?: Array<{
+      partOfSpeech?: string;
+      grammaticalFeatures?: Partial<GrammaticalFeatures>;
+    }>;
+    variantForms?: Array<{ form?: string }>;
+    scriptForms?: Array<{ form?: string }>;
+  },
+  languageCode?: string,
+  morphology?: MorphologyRules,
+): string[] {
+  const searchKey = SearchNormalizer.normalize(word.word, languageCode);
+  const keys = new Set<string>();
+  for (const meaning of word.meanings || []) {
+    const forms = InflectionGenerator.inflectedForms(
+      word.word,
+      { ...meaning.grammaticalFeatures, partOfSpeech: meaning.partOfSpeech },
+      morphology,
+    );
+    for (const form of forms) {
+      keys.add(SearchNormalizer.normalize(form, languageCode));
+    }
+  }
+  for (const variantForm of word.variantForms || []) {
+    if (variantForm.form) {
+      keys.add(SearchNormalizer.normalize(variantForm.form, languageCode));
+    }
+  }
+  for (const scriptForm of word.scriptForms || []) {
+    if (scriptForm.form) {
+      keys.add(SearchNormalizer.normalize(scriptForm.form, languageCode));
+    }
+  }
+  keys.delete(searchKey);
+  keys.delete('');
+  return Array.from(keys);
+}
+
+/**
+ * Calcule les champs de recherche d'un mot (clé normalisée, trigrammes,
+ * clés phonétiques et formes fléchies) pour un code de langue donné
+ */
+export function buildWordSearchFields(
+  word: Pick<Word, 'word' | 'pronunciation'> & {
+    meanings?: Array<{
+      partOfSpeech?: string;
+      grammaticalFeatures?: Partial<GrammaticalFeatures>;
+      phonetics?: Array<{ text?: string }>;
+    }>;
+    variantForms?: Array<{ form?: string; pronunciation?: string }>;
+    scriptForms?: Array<{ form?: string }>;
+  },
+  languageCode?: string,
+  morphology?: MorphologyRules,
+): WordSearchFields {
+  const searchKey = SearchNormalizer.normalize(word.word, languageCode);
+
+  const phoneticKeys = new Set<string>([
+    PhoneticKey.build(word.word, languageCode),
+  ]);
+  const transcriptions = [
+    word.pronunciation,
+    ...(word.meanings || []).flatMap((meaning) =>
+      (meaning.phonetics || []).map((phonetic) => phonetic.text),
+    ),
+    ...(word.variantForms || []).map((variantForm) => variantForm.pronunciation),
+  ];
+  for (const transcription of transcriptions) {
+    if (transcription) {
+      phoneticKeys.add(PhoneticKey.fromIpa(transcription, languageCode));
+    }
+  }
+  phoneticKeys.delete('');
+
+  return {
+    searchKey,
+    searchGrams: FuzzyMatcher.ngrams(searchKey),
+    phoneticKeys: Array.from(phoneticKeys),
+    inflectionKeys: buildWordInflectionKeys(word, languageCode, morphology),
+  };
+}
+
+/**
+ * Écriture de saisie et tables de translittération d'une langue : celle
+ * du profil orthographique, sinon l'écriture principale
+ */
+export function languageScripting(language: {
+  scripts?: Array<{ code: string; isDefault?: boolean }>;
+  orthography?: { scriptCode?: string };
+  transliterations?: TransliterationTable[];
+}): LanguageScripting {
+  const scripts = language.scripts || [];
+  return {
+    sourceScript:
+      language.orthography?.scriptCode ||
+      (scripts.find((script) => script.isDefault) || scripts[0])?.code,
+    tables: language.transliterations || [],
+  };
+}
+
+/**
+ * Résout le code ISO, les règles morphologiques et les écritures de la
+ * langue d'un mot (via `languageId` si possible, sinon via le code hérité
+ * `language`)
+ */
+async function resolveLanguage(
+  connection: Connection,
+  language?: string,
+  languageId?: unknown,
+): Promise<{
+  code?: string;
+  morphology?: MorphologyRules;
+  scripting?: LanguageScripting;
+}> {
+  if (!languageId) {
+    return { code: language };
+  }
+
+  try {
+    const languageDoc = await connection
+      .model('Language')
+      .findById(languageId)
+      .select(
+        'iso639_1 iso639_3 morphology scripts orthography.scriptCode transliterations',
+      )
+      .lean<
+        {
+          iso639_1?: string;
+          iso639_3?: string;
+          morphology?: MorphologyRules;
+        } & Parameters<typeof languageScripting>[0]
+      >()
+      .exec();
+    return {
+      code: languageDoc?.iso639_3 || languageDoc?.iso639_1 || language,
+      morphology: languageDoc?.morphology,
+      scripting: languageDoc ? languageScripting(languageDoc) : undefined,
+    };
+  } catch {
+    // Langue introuvable : on conserve le code hérité
+    return { code: language };
+  }
+}
+
+/** Champs dont la modification impose de recalculer les clés de recherche */
+const SEARCH_SOURCE_FIELDS = [
+  'word',
+  'language',
+  'languageId',
+  'pronunciation',
+  'meanings',
+  'variantForms',
+];
+
+WordSchema.pre('save', async function () {
+  if (
+    this.isNew ||
+    SEARCH_SOURCE_FIELDS.some((field) => this.isModified(field)) ||
+    !this.searchKey ||
+    !this.searchGrams?.length
+  ) {
+    const { code, morphology, scripting } = await resolveLanguage(
+      (this.constructor as Model<Word>).db,
+      this.language,
+      this.languageId,
+    );
+    this.scriptForms = buildWordScriptForms(this, scripting);
+    Object.assign(this, buildWordSearchFields(this, code, morphology));
+  }
+});
+
+WordSchema.pre(
+  ['findOneAndUpdate', 'updateOne'],
+  async function (this: Query<unknown, Word>) {
+    const update: any = this.getUpdate();
+    const changes = { ...update, ...(update?.$set || {}) };
+    if (!SEARCH_SOURCE_FIELDS.some((field) => field in changes)) {
+      return;
+    }
+
+    // Compléter la mise à jour avec l'état actuel du mot
+    const current = await this.model
+      .findOne(this.getQuery())
+      .select(
+        'word language languageId pronunciation meanings.partOfSpeech meanings.grammaticalFeatures meanings.phonetics.text variantForms',
+      )
+      .lean<Partial<Word>>()
+      .exec();
+    const merged = { ...(current || {}), ...changes };
+    if (typeof merged.word !== 'string') {
+      return;
+    }
+
+    const { code, morphology, scripting } = await resolveLanguage(
+      this.model.db,
+      merged.language,
+      merged.languageId,
+    );
+    merged.scriptForms = buildWordScriptForms(merged, scripting);
+    this.set('scriptForms', merged.scriptForms);
+    const fields = buildWordSearchFields(merged, code, morphology);
+    this.set('searchKey', fields.searchKey);
+    this.set('searchGrams', fields.searchGrams);
+    this.set('phoneticKeys', fields.phoneticKeys);
+    this.set('inflectionKeys', fields.inflectionKeys);
+  },
+);
+
+// ===== PIERRES TOMBALES DE SYNCHRONISATION HORS LIGNE =====
+
+type DeletedWord = Pick<Word, 'language' | 'status'> & {
+  _id: unknown;
+  languageId?: unknown;
+};
+
+const tombstoneLogger = new Logger('WordTombstone');
+
+/**
+ * Garde la trace des mots approuvés supprimés, que la synchronisation
+ * différentielle retire des paquets hors ligne
+ *
+ * @see WordTombstone
+ */
+async function recordTombstones(
+  connection: Connection,
+  words: DeletedWord[],
+): Promise<void> {
+  const published = words.filter((word) => word.status === 'approved');
+  if (!published.length || !connection.models.WordTombstone) {
+    return;
+  }
+
+  try {
+    const deletedAt = new Date();
+    await connection.models.WordTombstone.insertMany(
+      published.map((word) => ({
+        wordId: word._id,
+        languageId: word.languageId,
+        language: word.language,
+        deletedAt,
+      })),
+      { ordered: false },
+    );
+  } catch (error) {
+    // La suppression a eu lieu : un client hors ligne gardera le mot
+    tombstoneLogger.error(
+      `Pierres tombales non enregistrées pour ${published.length} mot(s)`,
+      error instanceof Error ? error.stack : String(error),
+    );
+  }
+}
+
+WordSchema.post(
+  'findOneAndDelete',
+  async function (this: Query<unknown, Word>, word: DeletedWord | null) {
+    if (word) {
+      await recordTombstones(this.model.db, [word]);
+    }
+  },
+);
+
+/** Mots supprimés par `deleteMany`, lus avant la suppression */
+const pendingDeletions = new WeakMap<object, DeletedWord[]>();
+
+WordSchema.pre('deleteMany', async function (this: Query<unknown, Word>) {
+  const words = await this.model
+    .find(this.getFilter())
+    .select('_id language languageId status')
+    .lean<DeletedWord[]>()
+    .exec();
+  pendingDeletions.set(this, words);
+});
+
+WordSchema.post('deleteMany', async function (this: Query<unknown, Word>) {
+  const words = pendingDeletions.get(this) || [];
+  pendingDeletions.delete(this);
+  await recordTombstones(this.model.db, words);
+});
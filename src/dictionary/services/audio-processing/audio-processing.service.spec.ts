@@ -0,0 +1,146 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import {
+  BadRequestException,
+  ServiceUnavailableException,
+} from "@nestjs/common";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { AudioProcessingService } from "./audio-processing.service";
+import { LocalAudioStorage } from "./storage/local-audio.storage";
+import {
+  AUDIO_STORAGE,
+  AUDIO_TRANSCODER,
+  AudioTranscoder,
+  AudioTranscoderUnavailableError,
+  DecodedAudio,
+} from "./audio-processing.types";
+
+describe("AudioProcessingService", () => {
+  let service: AudioProcessingService;
+  let transcoder: jest.Mocked<AudioTranscoder>;
+  let directory: string;
+
+  const sampleRate = 48000;
+
+  /** 0,5 s de silence, 1 s de la 440 Hz à -26 dBFS, 0,5 s de silence */
+  function recording(): DecodedAudio {
+    const samples = new Float32Array(2 * sampleRate);
+    for (let i = 0.5 * sampleRate; i < 1.5 * sampleRate; i++) {
+      samples[i] = 0.05 * Math.sin((2 * Math.PI * 440 * i) / sampleRate);
+    }
+    return { samples, sampleRate };
+  }
+
+  beforeEach(async () => {
+    directory = mkdtempSync(join(tmpdir(), "oypunu-audio-"));
+    transcoder = {
+      decode: jest.fn().mockResolvedValue(recording()),
+      encode: jest
+        .fn()
+        .mockImplementation((audio: DecodedAudio, format: string) =>
+          Promise.resolve(Buffer.from(`${format}:${audio.samples.length}`))
+        ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AudioProcessingService,
+        { provide: AUDIO_TRANSCODER, useValue: transcoder },
+        {
+          provide: AUDIO_STORAGE,
+          useValue: new LocalAudioStorage(directory, "https://media.test"),
+        },
+      ],
+    }).compile();
+
+    service = module.get<AudioProcessingService>(AudioProcessingService);
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should trim silence, normalize loudness and store an MP3/Opus pair", async () => {
+    const audio = await service.process(Buffer.from("enregistrement"), {
+      key: "phonetics/fan/standard/akok",
+      maxDurationSeconds: 30,
+    });
+
+    expect(audio.url).toBe(
+      "https://media.test/phonetics/fan/standard/akok.mp3"
+    );
+    expect(audio.renditions.map((rendition) => rendition.format)).toEqual([
+      "mp3",
+      "opus",
+    ]);
+    expect(
+      readFileSync(join(directory, "phonetics/fan/standard/akok.opus"), "utf8")
+    ).toMatch(/^opus:/);
+    expect(audio.trim).toEqual({ startMs: 420, endMs: 1580 });
+    expect(audio.duration).toBeCloseTo(1.16, 2);
+    expect(audio.storage).toBe("local");
+    expect(audio.loudness.gainDb).toBeGreaterThan(0);
+    expect(audio.loudness.outputLufs).toBeCloseTo(-16, 0);
+    expect(audio.peaks).toHaveLength(64);
+    expect(Math.max(...audio.peaks)).toBeLessThanOrEqual(0.892);
+  });
+
+  it("should reject silent and overlong recordings", async () => {
+    transcoder.decode.mockResolvedValueOnce({
+      samples: new Float32Array(sampleRate),
+      sampleRate,
+    });
+    await expect(
+      service.process(Buffer.from("silence"), {
+        key: "phonetics/fan/standard/silence",
+        maxDurationSeconds: 30,
+      })
+    ).rejects.toThrow(BadRequestException);
+
+    await expect(
+      service.process(Buffer.from("enregistrement"), {
+        key: "phonetics/fan/standard/long",
+        maxDurationSeconds: 1,
+      })
+    ).rejects.toThrow("Audio trop long");
+    expect(transcoder.encode).not.toHaveBeenCalled();
+  });
+
+  it("should tell unreadable files apart from a missing transcoder", async () => {
+    const options = {
+      key: "phonetics/fan/standard/akok",
+      maxDurationSeconds: 30,
+    };
+
+    transcoder.decode.mockRejectedValueOnce(
+      new Error("Échec du transcodage: Invalid data found")
+    );
+    await expect(
+      service.process(Buffer.from("texte"), options)
+    ).rejects.toThrow(BadRequestException);
+
+    transcoder.decode.mockRejectedValueOnce(
+      new AudioTranscoderUnavailableError("ffmpeg indisponible: spawn ENOENT")
+    );
+    await expect(
+      service.process(Buffer.from("enregistrement"), options)
+    ).rejects.toThrow(ServiceUnavailableException);
+  });
+
+  it("should remove stored renditions when encoding fails", async () => {
+    transcoder.encode
+      .mockResolvedValueOnce(Buffer.from("mp3"))
+      .mockRejectedValueOnce(new Error("libopus absent"));
+
+    await expect(
+      service.process(Buffer.from("enregistrement"), {
+        key: "phonetics/fan/standard/akok",
+        maxDurationSeconds: 30,
+      })
+    ).rejects.toThrow("libopus absent");
+    expect(existsSync(join(directory, "phonetics/fan/standard/akok.mp3"))).toBe(
+      false
+    );
+  });
+});
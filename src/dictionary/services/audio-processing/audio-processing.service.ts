@@ -0,0 +1,181 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+} from "@nestjs/common";
+import { AudioAnalysis } from "../../../common/utils/audio-analysis.util";
+import {
+  AudioProcessingMetadata,
+  AudioRendition,
+} from "../../schemas/word.schema";
+import {
+  AUDIO_RENDITIONS,
+  AUDIO_STORAGE,
+  AUDIO_TRANSCODER,
+  AudioRenditionFormat,
+  AudioStorage,
+  AudioTranscoder,
+  AudioTranscoderUnavailableError,
+} from "./audio-processing.types";
+
+/** Sonie cible des prononciations (écoute sur mobile) */
+export const AUDIO_TARGET_LUFS = -16;
+
+/** Ordre d'encodage : la première version sert d'URL principale */
+const RENDITION_ORDER: AudioRenditionFormat[] = ["mp3", "opus"];
+
+/**
+ * Enregistrement traité et stocké
+ */
+export type ProcessedAudio = AudioProcessingMetadata & {
+  /** URL de la version principale (MP3) */
+  url: string;
+  storageId: string;
+  fileSize: number;
+};
+
+/**
+ * Service du pipeline de traitement des enregistrements audio
+ *
+ * Décode l'enregistrement, retire les silences de début et de fin,
+ * normalise la sonie vers `AUDIO_TARGET_LUFS` (crête plafonnée à -1 dBFS),
+ * encode la paire MP3/Opus et calcule durée et forme d'onde, pour que
+ * toutes les prononciations soient restituées de la même façon.
+ */
+@Injectable()
+export class AudioProcessingService {
+  private readonly logger = new Logger(AudioProcessingService.name);
+
+  constructor(
+    @Inject(AUDIO_TRANSCODER) private transcoder: AudioTranscoder,
+    @Inject(AUDIO_STORAGE) private storage: AudioStorage
+  ) {}
+
+  /**
+   * Traite et stocke un enregistrement
+   *
+   * @param options.key - Chemin de stockage sans extension
+   * @param options.maxDurationSeconds - Durée maximale une fois les silences retirés
+   * @throws {BadRequestException} Si le fichier est illisible, silencieux ou trop long
+   * @throws {ServiceUnavailableException} Si le transcodeur ne peut pas être lancé
+   */
+  async process(
+    file: Buffer,
+    options: { key: string; maxDurationSeconds: number }
+  ): Promise<ProcessedAudio> {
+    let decoded;
+    try {
+      decoded = await this.transcoder.decode(file);
+    } catch (error) {
+      if (error instanceof AudioTranscoderUnavailableError) {
+        this.logger.error(error.message, error.stack);
+        throw new ServiceUnavailableException(
+          "Traitement audio momentanément indisponible"
+        );
+      }
+      this.logger.warn(
+        `Décodage impossible: ${error instanceof Error ? error.message : error}`
+      );
+      throw new BadRequestException("Fichier audio illisible");
+    }
+    const { samples, sampleRate } = decoded;
+
+    const bounds = AudioAnalysis.silenceBounds(samples, sampleRate);
+    if (!bounds) {
+      throw new BadRequestException("L'enregistrement est silencieux");
+    }
+    const trimmed = samples.subarray(bounds.start, bounds.end);
+    const duration = Math.round((trimmed.length / sampleRate) * 1000) / 1000;
+    if (duration > options.maxDurationSeconds) {
+      throw new BadRequestException(
+        `Audio trop long: ${duration}s. Maximum: ${options.maxDurationSeconds}s`
+      );
+    }
+
+    const inputLufs = AudioAnalysis.loudness(trimmed, sampleRate);
+    const gainDb = AudioAnalysis.normalizationGain(
+      inputLufs,
+      AudioAnalysis.peak(trimmed),
+      AUDIO_TARGET_LUFS
+    );
+    const normalized = AudioAnalysis.applyGain(trimmed, gainDb);
+
+    const renditions = await this.encodeAndStore(
+      { samples: normalized, sampleRate },
+      options.key
+    );
+    const [main] = renditions;
+
+    return {
+      url: main.url,
+      storageId: main.storageId,
+      fileSize: main.fileSize,
+      format: main.format,
+      duration,
+      sampleRate,
+      renditions,
+      peaks: AudioAnalysis.peaks(normalized),
+      loudness: {
+        inputLufs,
+        outputLufs: AudioAnalysis.loudness(normalized, sampleRate),
+        gainDb,
+      },
+      trim: {
+        startMs: Math.round((bounds.start / sampleRate) * 1000),
+        endMs: Math.round((bounds.end / sampleRate) * 1000),
+      },
+      storage: this.storage.name,
+      processedAt: new Date(),
+    };
+  }
+
+  /**
+   * Supprime les fichiers stockés (toutes les versions)
+   */
+  async delete(storageIds: string[]): Promise<void> {
+    await Promise.all(
+      [...new Set(storageIds.filter(Boolean))].map((storageId) =>
+        this.storage.delete(storageId)
+      )
+    );
+  }
+
+  /**
+   * Encode et stocke chaque version ; en cas d'échec, les versions déjà
+   * stockées sont supprimées
+   */
+  private async encodeAndStore(
+    audio: { samples: Float32Array; sampleRate: number },
+    key: string
+  ): Promise<AudioRendition[]> {
+    const renditions: AudioRendition[] = [];
+    try {
+      for (const format of RENDITION_ORDER) {
+        const { extension, contentType, bitrateKbps } =
+          AUDIO_RENDITIONS[format];
+        const buffer = await this.transcoder.encode(audio, format, bitrateKbps);
+        const stored = await this.storage.save({
+          key,
+          extension,
+          contentType,
+          buffer,
+        });
+        renditions.push({
+          format,
+          url: stored.url,
+          storageId: stored.storageId,
+          bitrateKbps,
+          fileSize: buffer.length,
+        });
+      }
+      return renditions;
+    } catch (error) {
+      await this.delete(
+        renditions.map((rendition) => rendition.storageId)
+      ).catch(() => undefined);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * @fileoverview Types partagés par le pipeline de traitement audio
+ *
+ * Un enregistrement reçu est décodé en PCM mono par le transcodeur,
+ * analysé (sonie, silences, forme d'onde), normalisé, réencodé en une
+ * paire Opus/MP3 standard puis confié au stockage configuré. Stockage et
+ * transcodeur sont injectés par jeton : un stockage local remplace
+ * Cloudinary en développement et dans les tests.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { Readable } from "stream";
+import { AudioRendition } from "../../schemas/word.schema";
+
+/** Jeton d'injection du stockage des fichiers audio */
+export const AUDIO_STORAGE = "AUDIO_STORAGE";
+/** Jeton d'injection du transcodeur */
+export const AUDIO_TRANSCODER = "AUDIO_TRANSCODER";
+
+export type AudioRenditionFormat = AudioRendition["format"];
+
+/**
+ * Paramètres d'encodage de chaque version
+ */
+export const AUDIO_RENDITIONS: Record<
+  AudioRenditionFormat,
+  { extension: string; contentType: string; bitrateKbps: number }
+> = {
+  mp3: { extension: "mp3", contentType: "audio/mpeg", bitrateKbps: 64 },
+  opus: { extension: "opus", contentType: "audio/ogg", bitrateKbps: 32 },
+};
+
+/**
+ * Signal PCM mono, échantillons flottants entre -1 et 1
+ */
+export interface DecodedAudio {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+/**
+ * Le transcodeur ne peut pas être lancé (exécutable absent, droits...) :
+ * panne du serveur, pas un fichier invalide
+ */
+export class AudioTranscoderUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AudioTranscoderUnavailableError";
+  }
+}
+
+/**
+ * Décodage et encodage des fichiers audio
+ */
+export interface AudioTranscoder {
+  /**
+   * Décode un fichier (mp3, wav, ogg, m4a, webm...) en PCM mono
+   */
+  decode(file: Buffer): Promise<DecodedAudio>;
+
+  /**
+   * Encode un signal PCM mono
+   */
+  encode(
+    audio: DecodedAudio,
+    format: AudioRenditionFormat,
+    bitrateKbps: number
+  ): Promise<Buffer>;
+}
+
+/**
+ * Fichier enregistré dans un stockage
+ */
+export interface StoredAudioFile {
+  url: string;
+  storageId: string;
+}
+
+/**
+ * Fichier ouvert en lecture depuis un stockage
+ */
+export interface AudioFileStream {
+  stream: Readable;
+  contentType: string;
+}
+
+/**
+ * Stockage des fichiers audio traités
+ */
+export interface AudioStorage {
+  /** Nom enregistré dans les métadonnées ("cloudinary", "local") */
+  readonly name: string;
+
+  /**
+   * Enregistre un fichier
+   *
+   * @param file.key - Chemin sans extension (ex: "phonetics/fr/standard/mot_123")
+   */
+  save(file: {
+    key: string;
+    extension: string;
+    contentType: string;
+    buffer: Buffer;
+  }): Promise<StoredAudioFile>;
+
+  /**
+   * Supprime un fichier ; un fichier déjà absent n'est pas une erreur
+   */
+  delete(storageId: string): Promise<void>;
+
+  /**
+   * Ouvre en lecture un fichier désigné par l'URL renvoyée à son
+   * enregistrement. Une URL qui n'appartient pas à ce stockage n'est
+   * jamais suivie : `null`.
+   */
+  open(url: string): Promise<AudioFileStream | null>;
+}
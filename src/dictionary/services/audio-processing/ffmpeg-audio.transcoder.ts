@@ -0,0 +1,113 @@
+import { Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { spawn } from "child_process";
+import {
+  AudioRenditionFormat,
+  AudioTranscoder,
+  AudioTranscoderUnavailableError,
+  DecodedAudio,
+} from "./audio-processing.types";
+
+/** Fréquence d'échantillonnage de travail (native pour Opus) */
+const SAMPLE_RATE = 48000;
+/** Au-delà, le processus ffmpeg est interrompu */
+const FFMPEG_TIMEOUT_MS = 30000;
+
+const ENCODERS: Record<AudioRenditionFormat, string[]> = {
+  mp3: ["-c:a", "libmp3lame", "-f", "mp3"],
+  opus: ["-c:a", "libopus", "-application", "voip", "-f", "ogg"],
+};
+
+/**
+ * Transcodeur reposant sur l'exécutable ffmpeg (`FFMPEG_PATH`, sinon
+ * `ffmpeg` du PATH)
+ *
+ * Les fichiers transitent par les entrées/sorties standard : rien n'est
+ * écrit sur le disque.
+ */
+@Injectable()
+export class FfmpegAudioTranscoder implements AudioTranscoder {
+  private readonly ffmpegPath: string;
+
+  constructor(configService: ConfigService) {
+    this.ffmpegPath = configService.get<string>("FFMPEG_PATH") || "ffmpeg";
+  }
+
+  async decode(file: Buffer): Promise<DecodedAudio> {
+    const pcm = await this.run(
+      ["-i", "pipe:0", "-ac", "1", "-ar", String(SAMPLE_RATE), "-f", "f32le"],
+      file
+    );
+    const samples = new Float32Array(Math.floor(pcm.length / 4));
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = pcm.readFloatLE(i * 4);
+    }
+    return { samples, sampleRate: SAMPLE_RATE };
+  }
+
+  encode(
+    audio: DecodedAudio,
+    format: AudioRenditionFormat,
+    bitrateKbps: number
+  ): Promise<Buffer> {
+    const pcm = Buffer.from(
+      audio.samples.buffer,
+      audio.samples.byteOffset,
+      audio.samples.byteLength
+    );
+    return this.run(
+      [
+        "-f",
+        "f32le",
+        "-ar",
+        String(audio.sampleRate),
+        "-ac",
+        "1",
+        "-i",
+        "pipe:0",
+        ...ENCODERS[format],
+        "-b:a",
+        `${bitrateKbps}k`,
+      ],
+      pcm
+    );
+  }
+
+  private run(args: string[], input: Buffer): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const ffmpeg = spawn(
+        this.ffmpegPath,
+        ["-hide_banner", "-loglevel", "error", ...args, "pipe:1"],
+        { stdio: ["pipe", "pipe", "pipe"] }
+      );
+      const output: Buffer[] = [];
+      const errors: Buffer[] = [];
+      const timer = setTimeout(() => ffmpeg.kill("SIGKILL"), FFMPEG_TIMEOUT_MS);
+
+      ffmpeg.stdout.on("data", (chunk: Buffer) => output.push(chunk));
+      ffmpeg.stderr.on("data", (chunk: Buffer) => errors.push(chunk));
+      ffmpeg.on("error", (error) => {
+        clearTimeout(timer);
+        reject(
+          new AudioTranscoderUnavailableError(
+            `ffmpeg indisponible: ${error.message}`
+          )
+        );
+      });
+      ffmpeg.on("close", (code, signal) => {
+        clearTimeout(timer);
+        if (code === 0) {
+          resolve(Buffer.concat(output));
+        } else {
+          const message =
+            Buffer.concat(errors).toString().trim() ||
+            (signal ? `interrompu (${signal})` : `code ${code}`);
+          reject(new Error(`Échec du transcodage: ${message}`));
+        }
+      });
+      // Un fichier illisible peut fermer l'entrée avant la fin de l'écriture
+      ffmpeg.stdin.on("error", () => undefined);
+      ffmpeg.stdin.end(input);
+    });
+  }
+}
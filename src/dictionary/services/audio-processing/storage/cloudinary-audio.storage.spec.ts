@@ -0,0 +1,51 @@
+import { ConfigService } from "@nestjs/config";
+import { CloudinaryAudioStorage } from "./cloudinary-audio.storage";
+
+describe("CloudinaryAudioStorage", () => {
+  const fetchMock = jest.fn();
+  const realFetch = global.fetch;
+  let storage: CloudinaryAudioStorage;
+
+  beforeEach(() => {
+    global.fetch = fetchMock;
+    storage = new CloudinaryAudioStorage({
+      get: jest.fn((key: string) =>
+        key === "CLOUDINARY_CLOUD_NAME" ? "oypunu" : undefined
+      ),
+    } as unknown as ConfigService);
+  });
+
+  afterEach(() => {
+    global.fetch = realFetch;
+    fetchMock.mockReset();
+  });
+
+  it("should stream recordings of the configured account without following redirects", async () => {
+    fetchMock.mockResolvedValue(
+      new Response("ID3", { headers: { "content-type": "audio/mpeg" } })
+    );
+    const url =
+      "https://res.cloudinary.com/oypunu/video/upload/v1/phonetics/akok_mp3.mp3";
+
+    const audio = await storage.open(url);
+
+    expect(fetchMock).toHaveBeenCalledWith(new URL(url), {
+      redirect: "error",
+    });
+    expect(audio!.contentType).toBe("audio/mpeg");
+  });
+
+  it("should never fetch URLs from other hosts or accounts", async () => {
+    for (const url of [
+      "http://169.254.169.254/latest/meta-data/",
+      "http://res.cloudinary.com/oypunu/video/upload/akok.mp3",
+      "https://res.cloudinary.com/autre/video/upload/akok.mp3",
+      "https://res.cloudinary.com.evil.test/oypunu/video/upload/akok.mp3",
+      "file:///etc/passwd",
+      "pas une url",
+    ]) {
+      await expect(storage.open(url)).resolves.toBeNull();
+    }
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
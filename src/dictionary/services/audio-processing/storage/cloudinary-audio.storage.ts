@@ -0,0 +1,114 @@
+import { Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { v2 as cloudinary, ConfigOptions } from "cloudinary";
+import { Readable } from "stream";
+import { ReadableStream } from "stream/web";
+import {
+  AudioFileStream,
+  AudioStorage,
+  StoredAudioFile,
+} from "../audio-processing.types";
+
+const cloudinaryInstance = cloudinary as unknown as {
+  config: (config: ConfigOptions) => void;
+  uploader: {
+    upload_stream: (
+      options: any,
+      callback: (
+        error: Error | null,
+        result?: { secure_url: string; public_id: string }
+      ) => void
+    ) => { end: (buffer: Buffer) => void };
+    destroy: (id: string, options: any) => Promise<{ result: string }>;
+  };
+};
+
+/**
+ * Stockage Cloudinary des fichiers audio (production)
+ *
+ * Les fichiers sont déjà transcodés : ils sont envoyés tels quels, comme
+ * ressources `video` (type Cloudinary des fichiers audio). Seules les
+ * ressources du compte configuré sont relues.
+ */
+@Injectable()
+export class CloudinaryAudioStorage implements AudioStorage {
+  readonly name = "cloudinary";
+
+  private readonly cloudName?: string;
+
+  constructor(configService: ConfigService) {
+    this.cloudName = configService.get<string>("CLOUDINARY_CLOUD_NAME");
+    cloudinaryInstance.config({
+      cloud_name: this.cloudName,
+      api_key: configService.get<string>("CLOUDINARY_API_KEY"),
+      api_secret: configService.get<string>("CLOUDINARY_API_SECRET"),
+    });
+  }
+
+  save(file: {
+    key: string;
+    extension: string;
+    contentType: string;
+    buffer: Buffer;
+  }): Promise<StoredAudioFile> {
+    return new Promise((resolve, reject) => {
+      const uploadStream = cloudinaryInstance.uploader.upload_stream(
+        {
+          resource_type: "video",
+          public_id: `${file.key}_${file.extension}`,
+          format: file.extension,
+          overwrite: false,
+        },
+        (error, result) => {
+          if (error || !result) {
+            reject(
+              new Error(
+                `Erreur Cloudinary: ${error?.message || "résultat vide"}`
+              )
+            );
+          } else {
+            resolve({ url: result.secure_url, storageId: result.public_id });
+          }
+        }
+      );
+      uploadStream.end(file.buffer);
+    });
+  }
+
+  async delete(storageId: string): Promise<void> {
+    const result = await cloudinaryInstance.uploader.destroy(storageId, {
+      resource_type: "video",
+      invalidate: true,
+    });
+    if (result.result !== "ok" && result.result !== "not found") {
+      throw new Error(`Échec de suppression: ${result.result}`);
+    }
+  }
+
+  async open(url: string): Promise<AudioFileStream | null> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return null;
+    }
+    if (
+      !this.cloudName ||
+      parsed.protocol !== "https:" ||
+      parsed.host !== "res.cloudinary.com" ||
+      !parsed.pathname.startsWith(`/${this.cloudName}/video/upload/`)
+    ) {
+      return null;
+    }
+
+    // Pas de redirection : la réponse doit venir de Cloudinary
+    const response = await fetch(parsed, { redirect: "error" });
+    if (!response.ok || !response.body) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return {
+      stream: Readable.fromWeb(response.body as ReadableStream<Uint8Array>),
+      contentType: response.headers.get("content-type") || "audio/mpeg",
+    };
+  }
+}
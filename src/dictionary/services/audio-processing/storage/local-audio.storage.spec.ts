@@ -0,0 +1,62 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { pathToFileURL } from "url";
+import { Readable } from "stream";
+import { LocalAudioStorage } from "./local-audio.storage";
+
+describe("LocalAudioStorage", () => {
+  let directory: string;
+
+  async function read(stream: Readable): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks).toString("utf8");
+  }
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "oypunu-audio-"));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should read back stored files from their public or file URL", async () => {
+    const file = {
+      key: "phonetics/fan/standard/akok",
+      extension: "opus",
+      contentType: "audio/ogg",
+      buffer: Buffer.from("opus"),
+    };
+
+    const served = new LocalAudioStorage(directory, "https://media.test/");
+    const { url } = await served.save(file);
+    const audio = await served.open(url);
+    expect(audio!.contentType).toBe("audio/ogg");
+    await expect(read(audio!.stream)).resolves.toBe("opus");
+
+    const unserved = new LocalAudioStorage(directory);
+    const opened = await unserved.open(
+      pathToFileURL(join(directory, "phonetics/fan/standard/akok.opus")).href
+    );
+    await expect(read(opened!.stream)).resolves.toBe("opus");
+  });
+
+  it("should refuse URLs outside the storage directory", async () => {
+    const storage = new LocalAudioStorage(directory, "https://media.test");
+
+    await expect(
+      storage.open("http://169.254.169.254/latest/meta-data/")
+    ).resolves.toBeNull();
+    await expect(storage.open("file:///etc/passwd")).resolves.toBeNull();
+    await expect(
+      storage.open("https://media.test/..%2F..%2Fetc%2Fpasswd")
+    ).rejects.toThrow("Identifiant de fichier invalide");
+    await expect(
+      storage.open("https://media.test/phonetics/absent.mp3")
+    ).rejects.toThrow();
+  });
+});
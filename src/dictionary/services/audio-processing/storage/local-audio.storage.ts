@@ -0,0 +1,98 @@
+import { createReadStream } from "fs";
+import { mkdir, rm, stat, writeFile } from "fs/promises";
+import { dirname, extname, join, relative, resolve, sep } from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import {
+  AUDIO_RENDITIONS,
+  AudioFileStream,
+  AudioStorage,
+  StoredAudioFile,
+} from "../audio-processing.types";
+
+/**
+ * Stockage des fichiers audio sur le système de fichiers local
+ *
+ * Remplace Cloudinary en développement et dans les tests
+ * (`AUDIO_STORAGE=local`). Sans URL publique configurée, les URLs
+ * renvoyées sont des URLs `file://`. Les fichiers sont relus depuis le
+ * disque, jamais par requête réseau.
+ */
+export class LocalAudioStorage implements AudioStorage {
+  readonly name = "local";
+
+  private readonly root: string;
+
+  constructor(
+    directory: string,
+    private readonly baseUrl?: string
+  ) {
+    this.root = resolve(directory);
+  }
+
+  async save(file: {
+    key: string;
+    extension: string;
+    contentType: string;
+    buffer: Buffer;
+  }): Promise<StoredAudioFile> {
+    const storageId = `${file.key}.${file.extension}`;
+    const path = this.pathOf(storageId);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, file.buffer, { flag: "wx" });
+    return {
+      url: this.baseUrl
+        ? `${this.baseUrl.replace(/\/+$/, "")}/${storageId}`
+        : pathToFileURL(path).href,
+      storageId,
+    };
+  }
+
+  async delete(storageId: string): Promise<void> {
+    await rm(this.pathOf(storageId), { force: true });
+  }
+
+  async open(url: string): Promise<AudioFileStream | null> {
+    const storageId = this.storageIdOf(url);
+    if (!storageId) {
+      return null;
+    }
+    const path = this.pathOf(storageId);
+    // Un fichier absent échoue ici plutôt qu'en cours de lecture
+    await stat(path);
+
+    const extension = extname(path).slice(1);
+    const rendition = Object.values(AUDIO_RENDITIONS).find(
+      (candidate) => candidate.extension === extension
+    );
+    return {
+      stream: createReadStream(path),
+      contentType: rendition?.contentType || "application/octet-stream",
+    };
+  }
+
+  /** Identifiant d'un fichier d'après son URL, `null` hors du stockage */
+  private storageIdOf(url: string): string | null {
+    if (this.baseUrl) {
+      const prefix = `${this.baseUrl.replace(/\/+$/, "")}/`;
+      if (url.startsWith(prefix)) {
+        return decodeURIComponent(url.slice(prefix.length));
+      }
+    }
+    if (!url.startsWith("file:")) {
+      return null;
+    }
+    const path = resolve(fileURLToPath(url));
+    return path.startsWith(this.root + sep)
+      ? relative(this.root, path).split(sep).join("/")
+      : null;
+  }
+
+  /** Chemin absolu d'un fichier, sans sortir du répertoire racine */
+  private pathOf(storageId: string): string {
+    const path = resolve(join(this.root, storageId));
+    if (!path.startsWith(this.root + sep)) {
+      throw new Error(`Identifiant de fichier invalide: ${storageId}`);
+    }
+    return path;
+  }
+}
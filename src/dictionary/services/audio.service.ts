@@ -2,37 +2,28 @@
  * @fileoverview Service de gestion des fichiers audio pour le dictionnaire O'Ypunu
  * 
  * Ce service gère l'upload, la validation, le stockage et la suppression
- * des fichiers audio (prononciation) via Cloudinary avec contrôles
- * de qualité, formats supportés et optimisations pour le streaming.
+ * des fichiers audio (prononciation) avec contrôles de qualité, formats
+ * supportés et optimisations pour le streaming. Les fichiers acceptés
+ * passent par le pipeline de traitement (AudioProcessingService) avant
+ * d'être stockés.
  * 
  * @author Équipe O'Ypunu
  * @version 1.0.0
  * @since 2025-01-01
  */
 
-import { Injectable, BadRequestException } from '@nestjs/common';
+import {
+  Injectable,
+  BadRequestException,
+  HttpException,
+} from '@nestjs/common';
 import { v2 as cloudinary, ConfigOptions } from 'cloudinary';
 import { ConfigService } from '@nestjs/config';
-
-/**
- * Interface pour le résultat d'upload Cloudinary
- * 
- * @interface CloudinaryUploadResult
- * @property {string} secure_url - URL sécurisée HTTPS du fichier
- * @property {string} public_id - ID public Cloudinary pour gestion
- * @property {string} format - Format du fichier audio (mp3, wav, etc.)
- * @property {number} duration - Durée en secondes
- * @property {number} bytes - Taille du fichier en octets
- * @property {string} resource_type - Type de ressource ('video' pour audio)
- */
-interface CloudinaryUploadResult {
-  secure_url: string;
-  public_id: string;
-  format: string;
-  duration: number;
-  bytes: number;
-  resource_type: string;
-}
+import {
+  AudioProcessingMetadata,
+  AudioRendition,
+} from '../schemas/word.schema';
+import { AudioProcessingService } from './audio-processing/audio-processing.service';
 
 interface AudioValidationConfig {
   maxSizeBytes: number;
@@ -41,17 +32,18 @@ interface AudioValidationConfig {
   allowedMimeTypes: string[];
 }
 
-type CloudinaryDestroyResult = { result: string };
+/**
+ * Enregistrement phonétique traité et stocké
+ */
+export type PhoneticAudioUpload = AudioProcessingMetadata & {
+  url: string;
+  /** Identifiant de stockage de la version principale (ID Cloudinary ou chemin local) */
+  cloudinaryId: string;
+  fileSize: number;
+};
 
 const cloudinaryInstance = cloudinary as unknown as {
   config: (config: ConfigOptions) => void;
-  uploader: {
-    upload_stream: (
-      options: any,
-      callback: (error: Error | null, result: CloudinaryUploadResult) => void,
-    ) => { end: (buffer: Buffer) => void };
-    destroy: (id: string, options: any) => Promise<any>;
-  };
   url: (id: string, options: any) => string;
 };
 
@@ -70,7 +62,10 @@ export class AudioService {
     ],
   };
 
-  constructor(private _configService: ConfigService) {
+  constructor(
+    private _configService: ConfigService,
+    private _audioProcessingService: AudioProcessingService,
+  ) {
     const config: ConfigOptions = {
       cloud_name: this._configService.get<string>('CLOUDINARY_CLOUD_NAME'),
       api_key: this._configService.get<string>('CLOUDINARY_API_KEY'),
@@ -307,13 +302,7 @@ export class AudioService {
     audioBuffer: Buffer,
     accent: string = 'standard',
     mimeType?: string,
-  ): Promise<{
-    url: string;
-    cloudinaryId: string;
-    format: string;
-    duration: number;
-    fileSize: number;
-  }> {
+  ): Promise<PhoneticAudioUpload> {
     try {
       // 1. Validation du fichier
       const validation = this._validateAudioFile(audioBuffer, mimeType);
@@ -331,64 +320,18 @@ export class AudioService {
         .replace(/[^a-z0-9]/g, '_');
       const cleanLanguage = language.trim().toLowerCase();
 
-      // 4. Configuration optimisée pour Cloudinary
-      const uploadOptions = {
-        resource_type: 'video' as const, // Cohérent pour audio
-        folder: `phonetics/${cleanLanguage}/${validAccent}`,
-        public_id: `${cleanWord}_${validAccent}_${Date.now()}`, // Éviter les collisions
-        format: 'mp3', // Format de sortie standardisé
-        quality: 'auto:good', // Optimisation automatique
-        flags: 'streaming_attachment', // Optimisé pour le streaming
-        // Validation côté Cloudinary
-        allowed_formats: this._audioConfig.allowedFormats,
-        // Métadonnées
-        context: {
-          word: cleanWord,
-          language: cleanLanguage,
-          accent: validAccent,
-          uploaded_at: new Date().toISOString(),
-        },
-      };
+      // 4. Traitement (silences, sonie, paire MP3/Opus, forme d'onde) et stockage
+      const { storageId, ...processed } =
+        await this._audioProcessingService.process(audioBuffer, {
+          key: `phonetics/${cleanLanguage}/${validAccent}/${cleanWord}_${validAccent}_${Date.now()}`,
+          maxDurationSeconds: this._audioConfig.maxDurationSeconds,
+        });
 
-      // 5. Upload vers Cloudinary
-      const result = await new Promise<CloudinaryUploadResult>(
-        (resolve, reject) => {
-          const uploadStream = cloudinaryInstance.uploader.upload_stream(
-            uploadOptions,
-            (error, result) => {
-              if (error) {
-                console.error('Cloudinary upload error:', error);
-                reject(new Error(`Erreur Cloudinary: ${error.message}`));
-              } else if (!result) {
-                reject(new Error("Résultat d'upload vide"));
-              } else {
-                resolve(result);
-              }
-            },
-          );
-          uploadStream.end(audioBuffer);
-        },
-      );
-
-      // 6. Validation post-upload
-      if (result.duration > this._audioConfig.maxDurationSeconds) {
-        // Supprimer le fichier uploadé si trop long
-        await this.deletePhoneticAudio(result.public_id);
-        throw new BadRequestException(
-          `Audio trop long: ${result.duration}s. Maximum: ${this._audioConfig.maxDurationSeconds}s`,
-        );
-      }
-
-      return {
-        url: result.secure_url,
-        cloudinaryId: result.public_id,
-        format: result.format,
-        duration: result.duration,
-        fileSize: result.bytes,
-      };
+      return { ...processed, cloudinaryId: storageId };
     } catch (error: unknown) {
       console.error('Audio upload error:', error);
-      if (error instanceof BadRequestException) {
+      // Fichier refusé (400) ou pipeline indisponible (503)
+      if (error instanceof HttpException) {
         throw error;
       }
       if (error instanceof Error) {
@@ -401,9 +344,12 @@ export class AudioService {
   }
 
   /**
-   * Suppression sécurisée d'un fichier audio
+   * Suppression sécurisée d'un fichier audio et de ses autres versions
    */
-  async deletePhoneticAudio(cloudinaryId: string): Promise<void> {
+  async deletePhoneticAudio(
+    cloudinaryId: string,
+    renditions: AudioRendition[] = [],
+  ): Promise<void> {
     try {
       if (!cloudinaryId || cloudinaryId.trim() === '') {
         throw new BadRequestException(
@@ -411,14 +357,10 @@ export class AudioService {
         );
       }
 
-      const result = (await cloudinaryInstance.uploader.destroy(cloudinaryId, {
-        resource_type: 'video',
-        invalidate: true,
-      })) as CloudinaryDestroyResult;
-
-      if (result.result !== 'ok' && result.result !== 'not found') {
-        throw new Error(`Échec de suppression: ${result.result}`);
-      }
+      await this._audioProcessingService.delete([
+        cloudinaryId,
+        ...renditions.map((rendition) => rendition.storageId),
+      ]);
     } catch (error: unknown) {
       console.error('Audio deletion error:', error);
       if (error instanceof BadRequestException) {
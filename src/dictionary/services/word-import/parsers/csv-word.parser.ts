@@ -0,0 +1,157 @@
+import { CsvUtil } from "../../../../common/utils/csv.util";
+import {
+  ParsedImportEntry,
+  WordImportIssue,
+  WordImportParseOptions,
+  WordImportParseResult,
+} from "../word-import.types";
+import {
+  addImportDefinition,
+  addImportTranslation,
+  DEFAULT_IMPORT_PART_OF_SPEECH,
+  splitImportList,
+} from "../word-import.helpers";
+
+type CsvField =
+  | "word"
+  | "language"
+  | "pronunciation"
+  | "etymology"
+  | "partOfSpeech"
+  | "definition"
+  | "examples"
+  | "synonyms"
+  | "antonyms"
+  | "translations";
+
+/**
+ * Parseur CSV de lexiques
+ *
+ * Une ligne correspond à une définition ; les lignes partageant le même
+ * mot et la même langue sont regroupées en un seul mot à plusieurs sens.
+ * Les colonnes `translation_<code>` (ou `traduction_<code>`) deviennent
+ * des traductions vers la langue `<code>` ; une colonne `translations`
+ * unique au format `fr:mortier | en:mortar` (celui de l'export CSV) est
+ * également acceptée. Les cellules à valeurs
+ * multiples (exemples, synonymes) sont séparées par `|` ou `;`.
+ */
+export class CsvWordParser {
+  /** Intitulés de colonnes acceptés (en minuscules, espaces → "_") */
+  static readonly COLUMN_ALIASES: Readonly<Record<CsvField, string[]>> = {
+    word: ["word", "mot", "lexeme", "headword", "lexical_unit"],
+    language: ["language", "langue", "lang", "language_code", "iso639_3"],
+    pronunciation: ["pronunciation", "prononciation", "ipa", "phonetic"],
+    etymology: ["etymology", "etymologie", "étymologie"],
+    partOfSpeech: ["part_of_speech", "partofspeech", "pos", "classe"],
+    definition: ["definition", "définition", "gloss", "sens"],
+    examples: ["examples", "example", "exemples", "exemple"],
+    synonyms: ["synonyms", "synonymes"],
+    antonyms: ["antonyms", "antonymes"],
+    translations: ["translations", "traductions"],
+  };
+
+  private static readonly TRANSLATION_COLUMN =
+    /^(?:translation|traduction)[_:.-]([a-z]{2,3})$/;
+
+  static parse(
+    content: string,
+    options: WordImportParseOptions = {}
+  ): WordImportParseResult {
+    const [header, ...rows] = CsvUtil.parse(content);
+    if (!header) {
+      return { entries: [], errors: [{ line: 0, message: "Fichier CSV vide" }] };
+    }
+
+    const columns = header.map((name) =>
+      name.trim().toLowerCase().replace(/\s+/g, "_")
+    );
+    const indexOf = (field: CsvField) =>
+      columns.findIndex((column) =>
+        this.COLUMN_ALIASES[field].includes(column)
+      );
+
+    const wordIndex = indexOf("word");
+    if (wordIndex === -1) {
+      return {
+        entries: [],
+        errors: [{ line: 0, message: 'Colonne "word" introuvable dans l\'en-tête' }],
+      };
+    }
+
+    const translationColumns = columns
+      .map((column, index) => ({
+        index,
+        match: column.match(this.TRANSLATION_COLUMN),
+      }))
+      .filter(({ match }) => !!match)
+      .map(({ index, match }) => ({ index, languageCode: match[1] }));
+
+    const entries = new Map<string, ParsedImportEntry>();
+    const errors: WordImportIssue[] = [];
+
+    rows.forEach((row, rowIndex) => {
+      const line = rowIndex + 1;
+      const cell = (field: CsvField) => {
+        const index = indexOf(field);
+        return index === -1 ? "" : (row[index] || "").trim();
+      };
+
+      const word = (row[wordIndex] || "").trim();
+      if (!word) {
+        errors.push({ line, message: "Mot manquant" });
+        return;
+      }
+
+      const languageCode =
+        cell("language").toLowerCase() || options.defaultLanguageCode;
+      const key = `${word}\u0000${languageCode || ""}`;
+      let entry = entries.get(key);
+      if (!entry) {
+        entry = {
+          line,
+          word,
+          languageCode,
+          meanings: [],
+          translations: [],
+        };
+        entries.set(key, entry);
+      }
+
+      entry.pronunciation = entry.pronunciation || cell("pronunciation") || undefined;
+      entry.etymology = entry.etymology || cell("etymology") || undefined;
+
+      addImportDefinition(
+        entry,
+        cell("partOfSpeech").toLowerCase() ||
+          options.defaultPartOfSpeech ||
+          DEFAULT_IMPORT_PART_OF_SPEECH,
+        {
+          definition: cell("definition"),
+          examples: splitImportList(cell("examples")),
+        },
+        {
+          synonyms: splitImportList(cell("synonyms")),
+          antonyms: splitImportList(cell("antonyms")),
+        }
+      );
+
+      for (const { index, languageCode: target } of translationColumns) {
+        for (const translated of splitImportList(row[index])) {
+          addImportTranslation(entry, target, translated);
+        }
+      }
+      for (const item of splitImportList(cell("translations"))) {
+        const separator = item.indexOf(":");
+        if (separator > 0) {
+          addImportTranslation(
+            entry,
+            item.slice(0, separator),
+            item.slice(separator + 1)
+          );
+        }
+      }
+    });
+
+    return { entries: Array.from(entries.values()), errors };
+  }
+}
@@ -0,0 +1,164 @@
+import {
+  ParsedImportEntry,
+  WordImportIssue,
+  WordImportParseOptions,
+  WordImportParseResult,
+} from "../word-import.types";
+import {
+  addImportDefinition,
+  addImportTranslation,
+  DEFAULT_IMPORT_PART_OF_SPEECH,
+} from "../word-import.helpers";
+
+/**
+ * Parseur JSON de lexiques
+ *
+ * Accepte un tableau d'entrées (ou un objet `{ words: [...] }`) dont la
+ * forme suit celle de `CreateWordDto`, avec des codes de langue à la
+ * place des IDs :
+ *
+ * ```json
+ * [{
+ *   "word": "ébɔ̀", "language": "fan",
+ *   "meanings": [{ "partOfSpeech": "noun",
+ *                  "definitions": [{ "definition": "Mortier à piler" }] }],
+ *   "translations": [{ "language": "fr", "translatedWord": "mortier" }]
+ * }]
+ * ```
+ *
+ * Les raccourcis `definition` / `partOfSpeech` au niveau de l'entrée et
+ * `translations: { "fr": "mortier" }` sont également acceptés.
+ */
+export class JsonWordParser {
+  static parse(
+    content: string,
+    options: WordImportParseOptions = {}
+  ): WordImportParseResult {
+    let data: any;
+    try {
+      data = JSON.parse((content || "").replace(/^\ufeff/, ""));
+    } catch (error) {
+      return {
+        entries: [],
+        errors: [{ line: 0, message: `JSON invalide : ${error.message}` }],
+      };
+    }
+
+    const items: any[] = Array.isArray(data)
+      ? data
+      : data?.words || data?.entries;
+    if (!Array.isArray(items)) {
+      return {
+        entries: [],
+        errors: [
+          {
+            line: 0,
+            message: 'Un tableau d\'entrées (ou { "words": [...] }) est attendu',
+          },
+        ],
+      };
+    }
+
+    const entries: ParsedImportEntry[] = [];
+    const errors: WordImportIssue[] = [];
+
+    items.forEach((item, index) => {
+      const line = index + 1;
+      const word = typeof item?.word === "string" ? item.word.trim() : "";
+      if (!word) {
+        errors.push({ line, message: "Mot manquant" });
+        return;
+      }
+
+      const entry: ParsedImportEntry = {
+        line,
+        word,
+        languageCode:
+          this.text(item.languageCode || item.language).toLowerCase() ||
+          options.defaultLanguageCode,
+        pronunciation: this.text(item.pronunciation) || undefined,
+        etymology: this.text(item.etymology) || undefined,
+        meanings: [],
+        translations: [],
+      };
+      const defaultPartOfSpeech =
+        options.defaultPartOfSpeech || DEFAULT_IMPORT_PART_OF_SPEECH;
+
+      for (const meaning of this.list(item.meanings)) {
+        const partOfSpeech =
+          this.text(meaning?.partOfSpeech).toLowerCase() || defaultPartOfSpeech;
+        const extras = {
+          synonyms: this.strings(meaning?.synonyms),
+          antonyms: this.strings(meaning?.antonyms),
+        };
+        const definitions = this.list(meaning?.definitions);
+        if (definitions.length === 0) {
+          addImportDefinition(entry, partOfSpeech, { definition: "", examples: [] }, extras);
+        }
+        for (const definition of definitions) {
+          addImportDefinition(
+            entry,
+            partOfSpeech,
+            typeof definition === "string"
+              ? { definition: definition.trim(), examples: [] }
+              : {
+                  definition: this.text(definition?.definition),
+                  examples: this.strings(definition?.examples),
+                },
+            extras
+          );
+        }
+        const target = entry.meanings.find((m) => m.partOfSpeech === partOfSpeech);
+        target?.examples.push(...this.strings(meaning?.examples));
+      }
+
+      if (item.definition) {
+        addImportDefinition(
+          entry,
+          this.text(item.partOfSpeech).toLowerCase() || defaultPartOfSpeech,
+          {
+            definition: this.text(item.definition),
+            examples: this.strings(item.examples),
+          }
+        );
+      }
+
+      if (Array.isArray(item.translations)) {
+        for (const translation of item.translations) {
+          addImportTranslation(
+            entry,
+            this.text(translation?.languageCode || translation?.language),
+            this.text(translation?.translatedWord || translation?.word),
+            this.strings(translation?.context)
+          );
+        }
+      } else if (item.translations && typeof item.translations === "object") {
+        for (const [code, value] of Object.entries(item.translations)) {
+          for (const translated of this.strings(value)) {
+            addImportTranslation(entry, code, translated);
+          }
+        }
+      }
+
+      entries.push(entry);
+    });
+
+    return { entries, errors };
+  }
+
+  private static text(value: unknown): string {
+    return typeof value === "string" ? value.trim() : "";
+  }
+
+  private static list(value: unknown): any[] {
+    return Array.isArray(value) ? value : [];
+  }
+
+  private static strings(value: unknown): string[] {
+    const values = Array.isArray(value) ? value : [value];
+    return values
+      .filter((item): item is string => typeof item === "string")
+      .map((item) => item.trim())
+      .filter((item) => item.length > 0);
+  }
+}
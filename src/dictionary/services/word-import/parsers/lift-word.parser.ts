@@ -0,0 +1,167 @@
+import {
+  XmlElement,
+  XmlParser,
+} from "../../../../common/utils/xml-parser.util";
+import {
+  ParsedImportEntry,
+  WordImportIssue,
+  WordImportParseOptions,
+  WordImportParseResult,
+} from "../word-import.types";
+import {
+  addImportDefinition,
+  addImportTranslation,
+  DEFAULT_IMPORT_PART_OF_SPEECH,
+} from "../word-import.helpers";
+
+/**
+ * Parseur SIL LIFT (Lexicon Interchange FormaT, export FLEx / WeSay)
+ *
+ * Correspondances :
+ * - `lexical-unit/form` → mot et langue (sous-étiquette principale de `lang`)
+ * - `pronunciation/form` → prononciation
+ * - `etymology/form` → étymologie
+ * - `sense/grammatical-info@value` → partie du discours
+ * - `sense/definition/form` → définition (langue d'analyse)
+ * - `sense/gloss` → traductions vers la langue de la glose
+ * - `sense/example/form` → exemples
+ * - `sense/relation[type=synonym|antonym]@ref` → synonymes / antonymes
+ *   (résolus sur le mot de l'entrée référencée)
+ */
+export class LiftWordParser {
+  static parse(
+    content: string,
+    options: WordImportParseOptions = {}
+  ): WordImportParseResult {
+    let root: XmlElement;
+    try {
+      root = XmlParser.parse(content);
+    } catch (error) {
+      return {
+        entries: [],
+        errors: [{ line: 0, message: `LIFT invalide : ${error.message}` }],
+      };
+    }
+
+    if (root.name !== "lift") {
+      return {
+        entries: [],
+        errors: [{ line: 0, message: "Élément racine <lift> attendu" }],
+      };
+    }
+
+    const liftEntries = XmlParser.childrenNamed(root, "entry").filter(
+      (entry) => !entry.attributes.dateDeleted
+    );
+    const headwords = new Map<string, string>();
+    for (const entry of liftEntries) {
+      const form = this.firstForm(XmlParser.child(entry, "lexical-unit"));
+      if (entry.attributes.id && form) {
+        headwords.set(entry.attributes.id, form.text);
+      }
+    }
+
+    const entries: ParsedImportEntry[] = [];
+    const errors: WordImportIssue[] = [];
+
+    liftEntries.forEach((liftEntry, index) => {
+      const line = index + 1;
+      const lexicalUnit = this.firstForm(
+        XmlParser.child(liftEntry, "lexical-unit")
+      );
+      if (!lexicalUnit?.text) {
+        errors.push({ line, message: "Entrée sans <lexical-unit>" });
+        return;
+      }
+
+      const entry: ParsedImportEntry = {
+        line,
+        word: lexicalUnit.text,
+        languageCode:
+          this.primaryLanguage(lexicalUnit.lang) || options.defaultLanguageCode,
+        pronunciation:
+          this.firstForm(XmlParser.child(liftEntry, "pronunciation"))?.text ||
+          undefined,
+        etymology:
+          this.firstForm(XmlParser.child(liftEntry, "etymology"))?.text ||
+          undefined,
+        meanings: [],
+        translations: [],
+      };
+
+      for (const sense of XmlParser.childrenNamed(liftEntry, "sense")) {
+        const partOfSpeech =
+          XmlParser.child(sense, "grammatical-info")?.attributes.value
+            ?.trim()
+            .toLowerCase() ||
+          options.defaultPartOfSpeech ||
+          DEFAULT_IMPORT_PART_OF_SPEECH;
+
+        const relations = XmlParser.childrenNamed(sense, "relation");
+        const related = (type: string) =>
+          relations
+            .filter((relation) => relation.attributes.type === type)
+            .map((relation) => headwords.get(relation.attributes.ref))
+            .filter((word): word is string => !!word);
+
+        const examples = XmlParser.childrenNamed(sense, "example")
+          .map((example) => this.firstForm(example)?.text)
+          .filter((example): example is string => !!example);
+
+        addImportDefinition(
+          entry,
+          partOfSpeech,
+          {
+            definition:
+              this.firstForm(XmlParser.child(sense, "definition"))?.text || "",
+            examples,
+          },
+          { synonyms: related("synonym"), antonyms: related("antonym") }
+        );
+
+        for (const gloss of XmlParser.childrenNamed(sense, "gloss")) {
+          addImportTranslation(
+            entry,
+            this.primaryLanguage(gloss.attributes.lang),
+            this.formText(gloss)
+          );
+        }
+      }
+
+      entries.push(entry);
+    });
+
+    return { entries, errors };
+  }
+
+  /**
+   * Premier `<form>` non vide d'un élément multilingue
+   */
+  private static firstForm(
+    element?: XmlElement
+  ): { lang: string; text: string } | undefined {
+    for (const form of XmlParser.childrenNamed(element, "form")) {
+      const text = this.formText(form);
+      if (text) {
+        return { lang: form.attributes.lang, text };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Texte d'un `<form>` ou d'une `<gloss>` (contenu de `<text>`)
+   */
+  private static formText(element: XmlElement): string {
+    const text = XmlParser.child(element, "text");
+    return XmlParser.textContent(text).replace(/\s+/g, " ").trim();
+  }
+
+  /**
+   * Extrait la sous-étiquette de langue ("fng-Latn" → "fng",
+   * "fng-fonipa" → "fng")
+   */
+  private static primaryLanguage(lang?: string): string | undefined {
+    return lang ? lang.split("-")[0].toLowerCase() : undefined;
+  }
+}
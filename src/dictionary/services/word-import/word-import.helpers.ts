@@ -0,0 +1,164 @@
+import { DICTIONARY_LIMITS } from "../../../common/constants/validation-limits.constants";
+import { ParsedImportEntry, WordImportIssue } from "./word-import.types";
+
+/** Partie du discours utilisée quand le fichier n'en fournit pas */
+export const DEFAULT_IMPORT_PART_OF_SPEECH = "noun";
+
+/**
+ * Découpe une cellule contenant plusieurs valeurs ("a | b ; c")
+ */
+export function splitImportList(value?: string): string[] {
+  if (!value) {
+    return [];
+  }
+  return value
+    .split(/[|;]/)
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+/**
+ * Ajoute une définition à l'entrée, en la regroupant avec les autres
+ * définitions de la même partie du discours
+ */
+export function addImportDefinition(
+  entry: ParsedImportEntry,
+  partOfSpeech: string,
+  definition: { definition: string; examples: string[] },
+  extras: { synonyms?: string[]; antonyms?: string[] } = {}
+): void {
+  let meaning = entry.meanings.find((m) => m.partOfSpeech === partOfSpeech);
+  if (!meaning) {
+    meaning = {
+      partOfSpeech,
+      definitions: [],
+      synonyms: [],
+      antonyms: [],
+      examples: [],
+    };
+    entry.meanings.push(meaning);
+  }
+
+  if (definition.definition) {
+    meaning.definitions.push(definition);
+  }
+  mergeUnique(meaning.synonyms, extras.synonyms);
+  mergeUnique(meaning.antonyms, extras.antonyms);
+}
+
+/**
+ * Ajoute une traduction à l'entrée si elle n'existe pas déjà
+ */
+export function addImportTranslation(
+  entry: ParsedImportEntry,
+  languageCode: string,
+  translatedWord: string,
+  context: string[] = []
+): void {
+  const code = languageCode?.trim().toLowerCase();
+  const text = translatedWord?.trim();
+  if (!code || !text) {
+    return;
+  }
+  const exists = entry.translations.some(
+    (t) => t.languageCode === code && t.translatedWord === text
+  );
+  if (!exists) {
+    entry.translations.push({ languageCode: code, translatedWord: text, context });
+  }
+}
+
+/**
+ * Clé de doublon d'un mot dans une langue (code ou ID)
+ *
+ * Sert à la fois aux répétitions dans le fichier et aux mots déjà en base.
+ * Insensible à la casse et à la forme Unicode, elle garde les diacritiques,
+ * qui distinguent des mots en langues tonales.
+ */
+export function importDuplicateKey(language: string, word: string): string {
+  return `${language}|${word.trim().normalize("NFC").toLowerCase()}`;
+}
+
+/**
+ * Fusionne dans `target` une autre entrée du même mot (même langue),
+ * par exemple un même mot-vedette répété sur plusieurs lignes
+ */
+export function mergeImportEntries(
+  target: ParsedImportEntry,
+  source: ParsedImportEntry
+): void {
+  target.pronunciation = target.pronunciation || source.pronunciation;
+  target.etymology = target.etymology || source.etymology;
+  for (const meaning of source.meanings) {
+    const extras = { synonyms: meaning.synonyms, antonyms: meaning.antonyms };
+    if (meaning.definitions.length === 0) {
+      addImportDefinition(target, meaning.partOfSpeech, { definition: "", examples: [] }, extras);
+    }
+    for (const definition of meaning.definitions) {
+      addImportDefinition(target, meaning.partOfSpeech, definition, extras);
+    }
+    const merged = target.meanings.find(
+      (m) => m.partOfSpeech === meaning.partOfSpeech
+    );
+    mergeUnique(merged.examples, meaning.examples);
+  }
+  for (const translation of source.translations) {
+    addImportTranslation(
+      target,
+      translation.languageCode,
+      translation.translatedWord,
+      translation.context
+    );
+  }
+}
+
+/**
+ * Vérifie une entrée avec les mêmes limites que la création manuelle
+ * d'un mot (CreateWordDto)
+ *
+ * @returns Liste des problèmes (vide si l'entrée est valide)
+ */
+export function validateImportEntry(entry: ParsedImportEntry): WordImportIssue[] {
+  const issues: WordImportIssue[] = [];
+  const issue = (message: string) =>
+    issues.push({ line: entry.line, word: entry.word, message });
+
+  const word = entry.word?.trim() || "";
+  if (
+    word.length < DICTIONARY_LIMITS.WORD.MIN ||
+    word.length > DICTIONARY_LIMITS.WORD.MAX
+  ) {
+    issue(
+      `Le mot doit contenir entre ${DICTIONARY_LIMITS.WORD.MIN} et ${DICTIONARY_LIMITS.WORD.MAX} caractères`
+    );
+  }
+
+  if (!entry.languageCode) {
+    issue("Langue non précisée");
+  }
+
+  const definitions = entry.meanings.flatMap((meaning) => meaning.definitions);
+  if (definitions.length === 0) {
+    issue("Au moins une définition est requise");
+  }
+  for (const { definition } of definitions) {
+    if (
+      definition.length < DICTIONARY_LIMITS.DEFINITION.MIN ||
+      definition.length > DICTIONARY_LIMITS.DEFINITION.MAX
+    ) {
+      issue(
+        `Définition "${definition.slice(0, 30)}" : entre ${DICTIONARY_LIMITS.DEFINITION.MIN} et ${DICTIONARY_LIMITS.DEFINITION.MAX} caractères attendus`
+      );
+    }
+  }
+
+  return issues;
+}
+
+function mergeUnique(target: string[], values?: string[]): void {
+  for (const value of values || []) {
+    if (!target.includes(value)) {
+      target.push(value);
+    }
+  }
+}
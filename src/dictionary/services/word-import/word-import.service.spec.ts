@@ -0,0 +1,308 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { ForbiddenException } from "@nestjs/common";
+import { createConnection, Types } from "mongoose";
+import { WordImportService } from "./word-import.service";
+import { LanguagesService } from "../../../languages/services/languages.service";
+import { WordRelationService } from "../word-services/word-relation.service";
+import { LanguageOrthographyService } from "../../../languages/services/language-orthography.service";
+import { WordRepository } from "../../../repositories/implementations/word.repository";
+import { Word, WordSchema } from "../../schemas/word.schema";
+
+describe("WordImportService", () => {
+  let service: WordImportService;
+  let wordRepository: any;
+  let batchRepository: any;
+  let wordRelationService: any;
+
+  const fanId = "64d0000000000000000000f1";
+  const fraId = "64d0000000000000000000f2";
+  const languages: Record<string, any> = {
+    fan: { _id: fanId, name: "Fang", iso639_3: "fan" },
+    fr: { _id: fraId, name: "Français", iso639_1: "fr", iso639_3: "fra" },
+    fra: { _id: fraId, name: "Français", iso639_1: "fr", iso639_3: "fra" },
+    ewo: {
+      _id: "64d0000000000000000000f3",
+      name: "Ewondo",
+      iso639_3: "ewo",
+      orthography: {
+        scriptCode: "Latn",
+        graphemes: ["a", "b", "d", "e", "ə", "k", "m", "n", "ŋ", "o", "ɔ"],
+        toneDiacritics: ["\u0301", "\u0300"],
+        punctuation: [],
+        normalization: "NFC",
+      },
+    },
+  };
+
+  beforeEach(async () => {
+    wordRepository = {
+      findExistingByWordAndLanguage: jest.fn().mockResolvedValue([]),
+      create: jest
+        .fn()
+        .mockImplementation((dto) =>
+          Promise.resolve({ _id: `id-${dto.word}`, ...dto })
+        ),
+      deleteByImportBatch: jest
+        .fn()
+        .mockResolvedValue({ deleted: 2, kept: 1, deletedIds: ["w1", "w2"] }),
+    };
+    wordRelationService = {
+      removeAllForWords: jest.fn().mockResolvedValue(1),
+    };
+    batchRepository = {
+      create: jest.fn().mockImplementation((data) => Promise.resolve(data)),
+      updateSummary: jest.fn().mockResolvedValue(null),
+      findByBatchId: jest.fn(),
+      findAll: jest.fn().mockResolvedValue({ batches: [], total: 0 }),
+      markRolledBack: jest.fn().mockResolvedValue(null),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WordImportService,
+        { provide: "IWordRepository", useValue: wordRepository },
+        { provide: "IWordImportBatchRepository", useValue: batchRepository },
+        { provide: WordRelationService, useValue: wordRelationService },
+        LanguageOrthographyService,
+        { provide: "ILanguageRepository", useValue: {} },
+        {
+          provide: LanguagesService,
+          useValue: {
+            findByCodeOrName: jest.fn((code: string) =>
+              Promise.resolve(languages[code] || null)
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<WordImportService>(WordImportService);
+  });
+
+  const csv = [
+    "word,language,pos,definition,examples,translation_fr",
+    "ébɔ̀,fan,noun,Mortier servant à piler le manioc,ébɔ̀ dzam,mortier",
+    "ébɔ̀,fan,verb,Piler dans un mortier,,piler",
+    "akiba,fan,interjection,Merci beaucoup à vous,,merci",
+    "zz,fan,noun,court,,",
+  ].join("\n");
+
+  it("should report a dry run without writing anything", async () => {
+    const report = await service.preview(csv, { format: "csv" });
+
+    expect(report.dryRun).toBe(true);
+    expect(report.toCreate.map((entry) => entry.word)).toEqual([
+      "ébɔ̀",
+      "akiba",
+    ]);
+    expect(report.toCreate[0]).toMatchObject({ meanings: 2, translations: 2 });
+    expect(report.errors).toHaveLength(1);
+    expect(report.errors[0].word).toBe("zz");
+    expect(wordRepository.create).not.toHaveBeenCalled();
+    expect(batchRepository.create).not.toHaveBeenCalled();
+  });
+
+  it("should flag existing word + language pairs as duplicates", async () => {
+    wordRepository.findExistingByWordAndLanguage.mockResolvedValue([
+      { _id: "existing-akiba", word: "Akiba", languageId: fanId },
+    ]);
+
+    const report = await service.preview(csv, { format: "csv" });
+
+    expect(report.duplicates).toEqual([
+      expect.objectContaining({
+        word: "akiba",
+        existingWordId: "existing-akiba",
+      }),
+    ]);
+    expect(report.summary.toCreate).toBe(1);
+  });
+
+  it("should use the same duplicate key for repeated entries and existing words", async () => {
+    // Même mot saisi en forme composée puis décomposée (é = e + ◌́)
+    const json = JSON.stringify([
+      { word: "Ébɔ̀", language: "fan", definition: "Mortier à manioc" },
+      {
+        word: "e\u0301bɔ̀".normalize("NFD"),
+        language: "fan",
+        definition: "Piler dans un mortier",
+        partOfSpeech: "verb",
+      },
+    ]);
+
+    let report = await service.preview(json, { format: "json" });
+    expect(report.toCreate).toHaveLength(1);
+    expect(report.toCreate[0].meanings).toBe(2);
+
+    // Dépôt réel : le filtre de recherche est évalué sur le mot stocké
+    const connection = createConnection();
+    const wordModel = connection.model(Word.name, WordSchema);
+    const stored = {
+      _id: new Types.ObjectId(),
+      word: "ÉBƆ̀".normalize("NFD"),
+      languageId: new Types.ObjectId(fanId),
+    };
+    (wordModel.collection as any).find = jest.fn((filter: any) => ({
+      toArray: () =>
+        Promise.resolve(
+          filter.word.$in.some((pattern: RegExp) => pattern.test(stored.word))
+            ? [stored]
+            : []
+        ),
+    }));
+    const repository = new WordRepository(wordModel as any);
+    wordRepository.findExistingByWordAndLanguage.mockImplementation(
+      (pairs: Array<{ word: string; languageId: string }>) =>
+        repository.findExistingByWordAndLanguage(pairs)
+    );
+
+    report = await service.preview(json, { format: "json" });
+    await connection.close();
+    expect(report.toCreate).toEqual([]);
+    expect(report.duplicates).toEqual([
+      expect.objectContaining({ existingWordId: String(stored._id) }),
+    ]);
+  });
+
+  it("should apply the language's orthography profile to imported words", async () => {
+    const json = JSON.stringify([
+      { word: "mbo\u0301ŋ", language: "ewo", definition: "Manioc roui" },
+      { word: "nkucu", language: "ewo", definition: "Hors du profil" },
+    ]);
+
+    const report = await service.preview(json, { format: "json" });
+    expect(report.toCreate.map((entry) => entry.word)).toEqual(["mbóŋ"]);
+    expect(report.errors).toEqual([
+      expect.objectContaining({
+        line: 2,
+        word: "nkucu",
+        message: expect.stringContaining("« u »"),
+      }),
+    ]);
+
+    await service.import(json, { format: "json" }, "64d000000000000000000001");
+    expect(wordRepository.create).toHaveBeenCalledTimes(1);
+    expect(wordRepository.create.mock.calls[0][0].word).toBe("mbóŋ");
+  });
+
+  it("should reject entries in unknown languages and drop unknown translations", async () => {
+    const json = JSON.stringify([
+      { word: "mbote", language: "xxx", definition: "Salutation courante" },
+      {
+        word: "mvɔ́é",
+        language: "fan",
+        definition: "Paix, tranquillité",
+        translations: { fr: "paix", zzz: "?" },
+      },
+    ]);
+
+    const report = await service.preview(json, { format: "json" });
+
+    expect(report.errors[0].message).toContain("Langue inconnue");
+    expect(report.toCreate).toHaveLength(1);
+    expect(report.toCreate[0].translations).toBe(1);
+    expect(report.warnings).toHaveLength(1);
+  });
+
+  it("should create pending words under a shared batch id", async () => {
+    const report = await service.import(csv, { format: "csv" }, "user-1");
+
+    expect(report.dryRun).toBe(false);
+    expect(report.batchId).toBeDefined();
+    expect(report.summary.created).toBe(2);
+    expect(wordRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        word: "ébɔ̀",
+        languageId: fanId,
+        language: "fan",
+        translations: [
+          expect.objectContaining({
+            languageId: fraId,
+            language: "fr",
+            translatedWord: "mortier",
+          }),
+          expect.objectContaining({ translatedWord: "piler" }),
+        ],
+      }),
+      "user-1",
+      "pending",
+      report.batchId
+    );
+    expect(batchRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({ batchId: report.batchId, languages: ["fan"] })
+    );
+    expect(batchRepository.updateSummary).toHaveBeenCalledWith(
+      report.batchId,
+      expect.objectContaining({ created: 2, errors: 1 })
+    );
+  });
+
+  it("should import LIFT entries with glosses as translations", async () => {
+    const lift = `<?xml version="1.0" encoding="UTF-8"?>
+      <lift version="0.13">
+        <entry id="e1">
+          <lexical-unit><form lang="fan"><text>nda</text></form></lexical-unit>
+          <sense>
+            <grammatical-info value="Noun"/>
+            <definition><form lang="fr"><text>Maison, habitation</text></form></definition>
+            <gloss lang="fr"><text>maison</text></gloss>
+          </sense>
+        </entry>
+        <entry id="e2" dateDeleted="2024-01-01"><lexical-unit><form lang="fan"><text>old</text></form></lexical-unit></entry>
+      </lift>`;
+
+    const report = await service.preview(lift, { format: "lift" });
+
+    expect(report.toCreate).toEqual([
+      expect.objectContaining({
+        word: "nda",
+        language: "fan",
+        translations: 1,
+      }),
+    ]);
+  });
+
+  it("should roll back a batch owned by the user", async () => {
+    batchRepository.findByBatchId.mockResolvedValue({
+      batchId: "b1",
+      createdBy: { _id: "user-1" },
+      status: "completed",
+    });
+
+    const result = await service.rollback("b1", {
+      _id: "user-1",
+      role: "contributor",
+    });
+
+    expect(result).toEqual({ batchId: "b1", deleted: 2, kept: 1 });
+    expect(batchRepository.markRolledBack).toHaveBeenCalledWith(
+      "b1",
+      "user-1",
+      2
+    );
+    expect(wordRelationService.removeAllForWords).toHaveBeenCalledWith([
+      "w1",
+      "w2",
+    ]);
+  });
+
+  it("should forbid rolling back another contributor's batch", async () => {
+    batchRepository.findByBatchId.mockResolvedValue({
+      batchId: "b1",
+      createdBy: "user-2",
+      status: "completed",
+    });
+
+    await expect(
+      service.rollback("b1", { _id: "user-1", role: "contributor" })
+    ).rejects.toThrow(ForbiddenException);
+    expect(wordRepository.deleteByImportBatch).not.toHaveBeenCalled();
+  });
+
+  it("should detect the format from the file extension", () => {
+    expect(WordImportService.detectFormat("lexique.CSV")).toBe("csv");
+    expect(WordImportService.detectFormat("export.lift")).toBe("lift");
+    expect(WordImportService.detectFormat("export.xml")).toBe("lift");
+    expect(WordImportService.detectFormat("notes.docx")).toBeUndefined();
+  });
+});
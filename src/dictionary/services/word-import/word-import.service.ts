@@ -0,0 +1,452 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "@nestjs/common";
+import { v4 as uuidv4 } from "uuid";
+import { IWordRepository } from "../../../repositories/interfaces/word.repository.interface";
+import { IWordImportBatchRepository } from "../../../repositories/interfaces/word-import-batch.repository.interface";
+import { LanguagesService } from "../../../languages/services/languages.service";
+import { LanguageOrthographyService } from "../../../languages/services/language-orthography.service";
+import { Language } from "../../../languages/schemas/language.schema";
+import { WordRelationService } from "../word-services/word-relation.service";
+import { WordImportBatch } from "../../schemas/word-import-batch.schema";
+import { CreateWordDto } from "../../dto/create-word.dto";
+import { UserRole } from "../../../users/schemas/user.schema";
+import { CsvWordParser } from "./parsers/csv-word.parser";
+import { JsonWordParser } from "./parsers/json-word.parser";
+import { LiftWordParser } from "./parsers/lift-word.parser";
+import {
+  importDuplicateKey,
+  mergeImportEntries,
+  validateImportEntry,
+} from "./word-import.helpers";
+import {
+  ParsedImportEntry,
+  WORD_IMPORT_FORMATS,
+  WordImportFormat,
+  WordImportIssue,
+  WordImportOptions,
+  WordImportParseResult,
+  WordImportReport,
+  WordImportReportEntry,
+} from "./word-import.types";
+
+/**
+ * Entrée prête à être créée (langues résolues)
+ */
+interface PlannedImportEntry {
+  entry: ParsedImportEntry;
+  language: Language & { _id: any };
+  translations: Array<{
+    language: Language & { _id: any };
+    translatedWord: string;
+    context: string[];
+  }>;
+  report: WordImportReportEntry;
+}
+
+/**
+ * Service d'import en masse de lexiques (CSV, JSON, SIL LIFT)
+ *
+ * Deux temps :
+ * 1. **Simulation** (`preview`) : lecture du fichier, résolution des langues
+ *    par code ISO 639, profil orthographique de la langue (comme à la
+ *    création d'un mot), détection des doublons `word` + `languageId` et
+ *    rapport détaillé, sans aucune écriture ;
+ * 2. **Import** (`import`) : création de tous les mots valides en statut
+ *    `pending` sous un même identifiant de lot, annulable via `rollback`.
+ */
+@Injectable()
+export class WordImportService {
+  private readonly logger = new Logger(WordImportService.name);
+
+  /** Nombre maximal d'entrées par fichier */
+  static readonly MAX_ENTRIES = 5000;
+
+  constructor(
+    @Inject("IWordRepository") private wordRepository: IWordRepository,
+    @Inject("IWordImportBatchRepository")
+    private batchRepository: IWordImportBatchRepository,
+    private languagesService: LanguagesService,
+    private wordRelationService: WordRelationService,
+    private languageOrthographyService: LanguageOrthographyService
+  ) {}
+
+  /**
+   * Déduit le format à partir de l'extension du fichier
+   */
+  static detectFormat(fileName?: string): WordImportFormat | undefined {
+    const extension = fileName?.split(".").pop()?.toLowerCase();
+    if (extension === "tsv" || extension === "txt") return "csv";
+    if (extension === "xml") return "lift";
+    return WORD_IMPORT_FORMATS.find((format) => format === extension);
+  }
+
+  /**
+   * Simule l'import et retourne le rapport, sans rien écrire en base
+   */
+  async preview(
+    content: string,
+    options: WordImportOptions
+  ): Promise<WordImportReport> {
+    const { report } = await this.analyze(content, options);
+    return report;
+  }
+
+  /**
+   * Importe les entrées valides en statut `pending` sous un même lot
+   *
+   * Les doublons et entrées invalides sont ignorés et figurent dans le
+   * rapport. Aucun lot n'est créé si aucune entrée n'est importable.
+   */
+  async import(
+    content: string,
+    options: WordImportOptions,
+    userId: string
+  ): Promise<WordImportReport> {
+    const { report, planned } = await this.analyze(content, options);
+    report.dryRun = false;
+    if (planned.length === 0) {
+      return report;
+    }
+
+    const batchId = uuidv4();
+    report.batchId = batchId;
+    await this.batchRepository.create({
+      batchId,
+      format: options.format,
+      fileName: options.fileName,
+      createdBy: userId,
+      languages: [
+        ...new Set(planned.map(({ report: entry }) => entry.language)),
+      ],
+      summary: {
+        total: report.summary.total,
+        created: 0,
+        duplicates: report.summary.duplicates,
+        errors: report.summary.errors,
+      },
+    });
+
+    const created: WordImportReportEntry[] = [];
+    for (const item of planned) {
+      try {
+        const word = await this.wordRepository.create(
+          this.toCreateWordDto(item),
+          userId,
+          "pending",
+          batchId
+        );
+        created.push({ ...item.report, wordId: String((word as any)._id) });
+      } catch (error) {
+        report.errors.push({
+          line: item.entry.line,
+          word: item.entry.word,
+          message: `Création impossible : ${error.message}`,
+        });
+      }
+    }
+
+    report.toCreate = created;
+    report.summary.created = created.length;
+    report.summary.errors = report.errors.length;
+    await this.batchRepository.updateSummary(batchId, {
+      total: report.summary.total,
+      created: created.length,
+      duplicates: report.summary.duplicates,
+      errors: report.summary.errors,
+    });
+
+    this.logger.log(
+      `Lot ${batchId} : ${created.length} mot(s) importé(s) par ${userId}`
+    );
+    return report;
+  }
+
+  /**
+   * Annule un lot : supprime ses mots encore `pending` ou `rejected`
+   *
+   * Les mots déjà approuvés entre-temps sont conservés et comptés à part.
+   * Seul l'auteur du lot ou un administrateur peut l'annuler.
+   */
+  async rollback(
+    batchId: string,
+    user: { _id: any; role?: string }
+  ): Promise<{ batchId: string; deleted: number; kept: number }> {
+    const batch = await this.getBatch(batchId, user);
+    if (batch.status === "rolled_back") {
+      throw new BadRequestException(`Le lot ${batchId} a déjà été annulé`);
+    }
+
+    const { deleted, kept, deletedIds } =
+      await this.wordRepository.deleteByImportBatch(batchId);
+    await this.wordRelationService.removeAllForWords(deletedIds);
+    await this.batchRepository.markRolledBack(
+      batchId,
+      String(user._id),
+      deleted
+    );
+
+    this.logger.log(
+      `Lot ${batchId} annulé : ${deleted} mot(s) supprimé(s), ${kept} conservé(s)`
+    );
+    return { batchId, deleted, kept };
+  }
+
+  /**
+   * Lots d'import visibles par l'utilisateur (tous pour un administrateur)
+   */
+  async listBatches(
+    user: { _id: any; role?: string },
+    page = 1,
+    limit = 20
+  ): Promise<{
+    batches: WordImportBatch[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const { batches, total } = await this.batchRepository.findAll({
+      createdBy: this.isAdmin(user) ? undefined : String(user._id),
+      page,
+      limit,
+    });
+    return { batches, total, page, limit };
+  }
+
+  /**
+   * Détail d'un lot, accessible à son auteur et aux administrateurs
+   */
+  async getBatch(
+    batchId: string,
+    user: { _id: any; role?: string }
+  ): Promise<WordImportBatch> {
+    const batch = await this.batchRepository.findByBatchId(batchId);
+    if (!batch) {
+      throw new NotFoundException(`Lot d'import ${batchId} introuvable`);
+    }
+
+    const createdBy: any = batch.createdBy;
+    const ownerId = String(createdBy?._id ?? createdBy);
+    if (ownerId !== String(user._id) && !this.isAdmin(user)) {
+      throw new ForbiddenException("Ce lot d'import ne vous appartient pas");
+    }
+    return batch;
+  }
+
+  /**
+   * Lit le fichier selon son format
+   */
+  parse(content: string, options: WordImportOptions): WordImportParseResult {
+    switch (options.format) {
+      case "csv":
+        return CsvWordParser.parse(content, options);
+      case "json":
+        return JsonWordParser.parse(content, options);
+      case "lift":
+        return LiftWordParser.parse(content, options);
+      default:
+        throw new BadRequestException(
+          `Format d'import non supporté : ${options.format}. Formats acceptés : ${WORD_IMPORT_FORMATS.join(", ")}`
+        );
+    }
+  }
+
+  /**
+   * Lecture, validation, résolution des langues et détection des doublons
+   */
+  private async analyze(
+    content: string,
+    options: WordImportOptions
+  ): Promise<{ report: WordImportReport; planned: PlannedImportEntry[] }> {
+    const parsed = this.parse(content, options);
+    if (parsed.entries.length > WordImportService.MAX_ENTRIES) {
+      throw new BadRequestException(
+        `Le fichier contient ${parsed.entries.length} entrées (maximum ${WordImportService.MAX_ENTRIES})`
+      );
+    }
+
+    const errors: WordImportIssue[] = [...parsed.errors];
+    const warnings: WordImportIssue[] = [];
+    const languageCache = new Map<string, Promise<Language | null>>();
+    const resolveLanguage = (code: string) => {
+      const key = code.toLowerCase();
+      if (!languageCache.has(key)) {
+        languageCache.set(key, this.languagesService.findByCodeOrName(key));
+      }
+      return languageCache.get(key)!;
+    };
+
+    // Un même mot répété dans le fichier ne donne qu'une entrée
+    const unique = new Map<string, ParsedImportEntry>();
+    for (const entry of parsed.entries) {
+      const key = importDuplicateKey(entry.languageCode, entry.word);
+      const existing = unique.get(key);
+      if (existing) {
+        mergeImportEntries(existing, entry);
+      } else {
+        unique.set(key, entry);
+      }
+    }
+
+    const candidates: PlannedImportEntry[] = [];
+    for (const entry of unique.values()) {
+      const issues = validateImportEntry(entry);
+      if (issues.length > 0) {
+        errors.push(...issues);
+        continue;
+      }
+
+      const language = (await resolveLanguage(entry.languageCode!)) as
+        | (Language & { _id: any })
+        | null;
+      if (!language) {
+        errors.push({
+          line: entry.line,
+          word: entry.word,
+          message: `Langue inconnue : ${entry.languageCode}`,
+        });
+        continue;
+      }
+
+      // Normalisation Unicode et graphèmes du profil de la langue
+      const spellings = { word: entry.word.trim() };
+      try {
+        this.languageOrthographyService.applyLanguageRules(language, spellings);
+      } catch (error) {
+        if (!(error instanceof BadRequestException)) {
+          throw error;
+        }
+        errors.push({
+          line: entry.line,
+          word: entry.word,
+          message: error.message,
+        });
+        continue;
+      }
+      entry.word = spellings.word;
+
+      const translations: PlannedImportEntry["translations"] = [];
+      for (const translation of entry.translations) {
+        const target = (await resolveLanguage(translation.languageCode)) as
+          | (Language & { _id: any })
+          | null;
+        if (!target) {
+          warnings.push({
+            line: entry.line,
+            word: entry.word,
+            message: `Traduction "${translation.translatedWord}" ignorée : langue inconnue ${translation.languageCode}`,
+          });
+          continue;
+        }
+        translations.push({
+          language: target,
+          translatedWord: translation.translatedWord,
+          context: translation.context,
+        });
+      }
+
+      candidates.push({
+        entry,
+        language,
+        translations,
+        report: {
+          line: entry.line,
+          word: entry.word,
+          language: this.languageCode(language),
+          meanings: entry.meanings.length,
+          translations: translations.length,
+        },
+      });
+    }
+
+    const existing = await this.wordRepository.findExistingByWordAndLanguage(
+      candidates.map(({ entry, language }) => ({
+        word: entry.word,
+        languageId: String(language._id),
+      }))
+    );
+    const existingIds = new Map(
+      existing.map((word) => [
+        importDuplicateKey(word.languageId, word.word),
+        word._id,
+      ])
+    );
+
+    const planned: PlannedImportEntry[] = [];
+    const duplicates: WordImportReportEntry[] = [];
+    for (const candidate of candidates) {
+      const existingWordId = existingIds.get(
+        importDuplicateKey(String(candidate.language._id), candidate.entry.word)
+      );
+      if (existingWordId) {
+        duplicates.push({ ...candidate.report, existingWordId });
+      } else {
+        planned.push(candidate);
+      }
+    }
+
+    errors.sort((a, b) => a.line - b.line);
+    const report: WordImportReport = {
+      dryRun: true,
+      format: options.format,
+      toCreate: planned.map(({ report: entry }) => entry),
+      duplicates,
+      errors,
+      warnings,
+      summary: {
+        total: parsed.entries.length + parsed.errors.length,
+        toCreate: planned.length,
+        duplicates: duplicates.length,
+        errors: errors.length,
+        created: 0,
+      },
+    };
+
+    return { report, planned };
+  }
+
+  private toCreateWordDto(item: PlannedImportEntry): CreateWordDto {
+    const { entry, language } = item;
+    return {
+      word: entry.word.trim(),
+      languageId: String(language._id),
+      language: this.languageCode(language),
+      pronunciation: entry.pronunciation,
+      etymology: entry.etymology,
+      meanings: entry.meanings
+        .filter((meaning) => meaning.definitions.length > 0)
+        .map((meaning) => ({
+          partOfSpeech: meaning.partOfSpeech,
+          definitions: meaning.definitions.map((definition) => ({
+            definition: definition.definition,
+            examples: definition.examples,
+          })),
+          synonyms: meaning.synonyms,
+          antonyms: meaning.antonyms,
+          examples: meaning.examples,
+        })),
+      translations: item.translations.map((translation) => ({
+        languageId: String(translation.language._id),
+        language: this.languageCode(translation.language),
+        translatedWord: translation.translatedWord,
+        context: translation.context,
+      })),
+    };
+  }
+
+  /**
+   * Code court conservé dans le champ `language` (compatibilité migration)
+   */
+  private languageCode(language: Language): string {
+    return language.iso639_1 || language.iso639_3 || language.iso639_2 || "";
+  }
+
+  private isAdmin(user: { role?: string }): boolean {
+    return user.role === UserRole.ADMIN || user.role === UserRole.SUPERADMIN;
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * @fileoverview Types partagés par le pipeline d'import de dictionnaires
+ *
+ * Les parseurs (CSV, JSON, LIFT) produisent tous des `ParsedImportEntry`,
+ * format pivot indépendant du fichier source, que le service d'import
+ * résout ensuite (langues, doublons) avant création des mots.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+export type WordImportFormat = "csv" | "json" | "lift";
+
+export const WORD_IMPORT_FORMATS: WordImportFormat[] = ["csv", "json", "lift"];
+
+/**
+ * Entrée lexicale extraite d'un fichier, avant résolution des langues
+ */
+export interface ParsedImportEntry {
+  /** Position dans le fichier (ligne de données CSV, index JSON, entrée LIFT) */
+  line: number;
+  word: string;
+  /** Code ISO 639-1/639-3 de la langue du mot */
+  languageCode?: string;
+  pronunciation?: string;
+  etymology?: string;
+  meanings: Array<{
+    partOfSpeech: string;
+    definitions: Array<{ definition: string; examples: string[] }>;
+    synonyms: string[];
+    antonyms: string[];
+    examples: string[];
+  }>;
+  translations: Array<{
+    languageCode: string;
+    translatedWord: string;
+    context: string[];
+  }>;
+}
+
+/**
+ * Problème rencontré sur une entrée (lecture ou validation)
+ */
+export interface WordImportIssue {
+  line: number;
+  word?: string;
+  message: string;
+}
+
+export interface WordImportParseResult {
+  entries: ParsedImportEntry[];
+  errors: WordImportIssue[];
+}
+
+/**
+ * Options communes aux parseurs
+ */
+export interface WordImportParseOptions {
+  /** Langue appliquée aux entrées qui n'en précisent pas */
+  defaultLanguageCode?: string;
+  /** Partie du discours appliquée aux sens qui n'en précisent pas */
+  defaultPartOfSpeech?: string;
+}
+
+/**
+ * Ligne du rapport d'import
+ */
+export interface WordImportReportEntry {
+  line: number;
+  word: string;
+  language: string;
+  meanings: number;
+  translations: number;
+  /** Mot existant (word + languageId) pour les doublons */
+  existingWordId?: string;
+  /** Mot créé (import validé uniquement) */
+  wordId?: string;
+}
+
+/**
+ * Rapport d'import (simulation ou import validé)
+ */
+export interface WordImportReport {
+  dryRun: boolean;
+  batchId?: string;
+  format: WordImportFormat;
+  toCreate: WordImportReportEntry[];
+  duplicates: WordImportReportEntry[];
+  errors: WordImportIssue[];
+  /** Problèmes non bloquants (ex. traduction vers une langue inconnue ignorée) */
+  warnings: WordImportIssue[];
+  summary: {
+    total: number;
+    toCreate: number;
+    duplicates: number;
+    errors: number;
+    created: number;
+  };
+}
+
+/**
+ * Options d'un import (simulation ou validé)
+ */
+export interface WordImportOptions extends WordImportParseOptions {
+  format: WordImportFormat;
+  fileName?: string;
+}
@@ -23,3 +23,15 @@ export { WordRevisionService, ChangeLog } from './word-revision.service';
 
 // Phase 7 - Service core CRUD
 export { WordCoreService } from './word-core.service';
+
+// Recherche - Corrections "vouliez-vous dire"
+export { WordSpellingService, SpellingCorrection } from './word-spelling.service';
+
+// Morphologie - Tables de flexion
+export { WordMorphologyService, WordParadigm } from './word-morphology.service';
+
+// Relations - Graphe de renvois entre mots
+export { WordRelationService, WordRelationGraph } from './word-relation.service';
+
+// Écritures - Rendu dans les écritures de la langue
+export { WordScriptService, ScriptRenderedWord } from './word-script.service';
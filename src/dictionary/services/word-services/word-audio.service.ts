@@ -3,6 +3,7 @@ import {
   NotFoundException,
   BadRequestException,
   Logger,
+  ServiceUnavailableException,
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
@@ -12,6 +13,7 @@ import { AudioService } from '../audio.service';
 import { ActivityService } from '../../../common/services/activity.service';
 import { WordPermissionService } from './word-permission.service';
 import { LanguagesService } from '../../../languages/services/languages.service';
+import { LanguageVariantsService } from '../../../languages/services/language-variants.service';
 import { DatabaseErrorHandler } from "../../../common/errors";
 
 /**
@@ -28,6 +30,7 @@ export class WordAudioService {
     private activityService: ActivityService,
     private wordPermissionService: WordPermissionService,
     private languagesService: LanguagesService,
+    private languageVariantsService: LanguageVariantsService,
   ) {}
 
   /**
@@ -39,6 +42,7 @@ export class WordAudioService {
     accent: string,
     fileBuffer: Buffer,
     user: User,
+    variantId?: string,
   ): Promise<Word> {
     return DatabaseErrorHandler.handleCreateOperation(
       async () => {
@@ -70,6 +74,16 @@ export class WordAudioService {
           );
         }
 
+        // Vérifier que la variante dialectale appartient à la langue du mot
+        if (variantId) {
+          await this.languageVariantsService.assertVariantsOfLanguage(
+            word.languageId
+              ? String((word.languageId as any)._id ?? word.languageId)
+              : undefined,
+            [variantId],
+          );
+        }
+
         try {
           console.log('🚀 Appel uploadPhoneticAudio...');
 
@@ -97,12 +111,13 @@ export class WordAudioService {
           console.log('✅ Upload réussi:', audioResult);
 
           // Mettre à jour le mot avec le nouveau fichier audio
+          const { fileSize, ...audioMetadata } = audioResult;
           const audioFiles = new Map(word.audioFiles || new Map());
           audioFiles.set(accent, {
-            url: audioResult.url,
-            cloudinaryId: audioResult.cloudinaryId,
+            ...audioMetadata,
             language: languageCode, // Utiliser le code langue récupéré
             accent: accent,
+            ...(variantId && { variantId }),
           });
 
           const updatedWord = await this.wordModel
@@ -143,6 +158,9 @@ export class WordAudioService {
           return updatedWord;
         } catch (error) {
           console.error('❌ Erreur lors de l\'upload audio:', error);
+          if (error instanceof ServiceUnavailableException) {
+            throw error;
+          }
           throw new BadRequestException(
             `Erreur lors de l'ajout du fichier audio: ${
               error instanceof Error ? error.message : String(error)
@@ -155,6 +173,115 @@ export class WordAudioService {
     );
   }
 
+  /**
+   * Enregistre la prononciation d'une transcription phonétique
+   * (`meanings[].phonetics[].audio`), en remplaçant la précédente
+   */
+  async addPhoneticAudio(
+    wordId: string,
+    phoneticId: string,
+    fileBuffer: Buffer,
+    user: User,
+  ): Promise<Word> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        if (
+          !Types.ObjectId.isValid(wordId) ||
+          !Types.ObjectId.isValid(phoneticId)
+        ) {
+          throw new BadRequestException('ID de mot ou de phonétique invalide');
+        }
+
+        const word = await this.wordModel.findById(wordId);
+        if (!word) {
+          throw new NotFoundException(`Mot avec l'ID ${wordId} non trouvé`);
+        }
+
+        const canAddAudio = await this.wordPermissionService.canUserAddAudio(
+          word,
+          user,
+        );
+        if (!canAddAudio) {
+          throw new BadRequestException(
+            "Vous n'avez pas la permission d'ajouter un fichier audio à ce mot",
+          );
+        }
+
+        const phonetic = (word.meanings || [])
+          .flatMap((meaning) => meaning.phonetics || [])
+          .find((candidate: any) => String(candidate._id) === phoneticId);
+        if (!phonetic) {
+          throw new NotFoundException(
+            `Phonétique ${phoneticId} non trouvée pour ce mot`,
+          );
+        }
+
+        const languageCode = await this.getLanguageCodeFromWord(word);
+        const { fileSize, ...audio } =
+          await this.audioService.uploadPhoneticAudio(
+            word.word,
+            languageCode,
+            fileBuffer,
+          );
+
+        const updatedWord = await this.wordModel
+          .findByIdAndUpdate(
+            wordId,
+            { $set: { 'meanings.$[].phonetics.$[phonetic].audio': audio } },
+            {
+              new: true,
+              arrayFilters: [
+                { 'phonetic._id': new Types.ObjectId(phoneticId) },
+              ],
+            },
+          )
+          .populate('createdBy', 'username')
+          .populate('categoryId', 'name')
+          .exec();
+        if (!updatedWord) {
+          throw new NotFoundException(
+            `Mot avec l'ID ${wordId} non trouvé après mise à jour`,
+          );
+        }
+
+        if (phonetic.audio?.cloudinaryId) {
+          try {
+            await this.audioService.deletePhoneticAudio(
+              phonetic.audio.cloudinaryId,
+              phonetic.audio.renditions,
+            );
+          } catch (error) {
+            this.logger.warn(
+              `Ancienne prononciation non supprimée (${phonetic.audio.cloudinaryId}): ${error}`,
+            );
+          }
+        }
+
+        try {
+          await this.activityService.logAudioAdded(
+            user._id,
+            wordId,
+            audio.url,
+            {
+              wordTitle: word.word,
+              language: languageCode,
+              fileSize,
+              phonetic: phonetic.text,
+              duration: audio.duration,
+            },
+          );
+        } catch (error) {
+          this.logger.warn(`Activité d'ajout audio non enregistrée: ${error}`);
+        }
+
+        return updatedWord;
+      },
+      'WordAudio',
+      wordId,
+      user._id?.toString(),
+    );
+  }
+
   /**
    * Supprime un fichier audio d'un mot
    * Ligne 1684-1748 dans WordsService original
@@ -191,7 +318,10 @@ export class WordAudioService {
         try {
           // Supprimer le fichier de Cloudinary
           if (audioFile.cloudinaryId) {
-            await this.audioService.deletePhoneticAudio(audioFile.cloudinaryId);
+            await this.audioService.deletePhoneticAudio(
+              audioFile.cloudinaryId,
+              audioFile.renditions,
+            );
           }
 
           // Supprimer l'entrée de la Map
@@ -336,7 +466,10 @@ export class WordAudioService {
             if (update.action === 'delete') {
               const existingFile = audioFiles.get(update.accent);
               if (existingFile?.cloudinaryId) {
-                await this.audioService.deletePhoneticAudio(existingFile.cloudinaryId);
+                await this.audioService.deletePhoneticAudio(
+                  existingFile.cloudinaryId,
+                  existingFile.renditions,
+                );
               }
               audioFiles.delete(update.accent);
               results.push({ accent: update.accent, status: 'deleted' });
@@ -349,7 +482,10 @@ export class WordAudioService {
               if (update.action === 'update') {
                 const existingFile = audioFiles.get(update.accent);
                 if (existingFile?.cloudinaryId) {
-                  await this.audioService.deletePhoneticAudio(existingFile.cloudinaryId);
+                  await this.audioService.deletePhoneticAudio(
+                    existingFile.cloudinaryId,
+                    existingFile.renditions,
+                  );
                 }
               }
 
@@ -361,9 +497,9 @@ export class WordAudioService {
                 update.accent,
               );
 
+              const { fileSize, ...audioMetadata } = audioResult;
               audioFiles.set(update.accent, {
-                url: audioResult.url,
-                cloudinaryId: audioResult.cloudinaryId,
+                ...audioMetadata,
                 language: languageCode,
                 accent: update.accent,
               });
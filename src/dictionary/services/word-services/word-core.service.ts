@@ -30,6 +30,14 @@ import { ILanguageRepository } from "../../../repositories/interfaces/language.r
 import { IWordViewRepository } from "../../../repositories/interfaces/word-view.repository.interface";
 import { IFavoriteWordRepository } from "../../../repositories/interfaces/favorite-word.repository.interface";
 import { AudioService } from "../audio.service";
+import {
+  WordSpellingService,
+  SpellingCorrection,
+} from "./word-spelling.service";
+import { WordRelationService } from "./word-relation.service";
+import { LanguageVariantsService } from "../../../languages/services/language-variants.service";
+import { LanguageOrthographyService } from "../../../languages/services/language-orthography.service";
+import { AutoModerationService } from "../../../moderation/services/auto-moderation.service";
 
 interface WordFilter {
   status: string;
@@ -74,7 +82,12 @@ export class WordCoreService {
     private categoriesService: CategoriesService,
     private usersService: UsersService,
     private activityService: ActivityService,
-    private audioService: AudioService
+    private audioService: AudioService,
+    private wordSpellingService: WordSpellingService,
+    private wordRelationService: WordRelationService,
+    private languageVariantsService: LanguageVariantsService,
+    private languageOrthographyService: LanguageOrthographyService,
+    private autoModerationService: AutoModerationService
   ) {}
 
   /**
@@ -122,6 +135,13 @@ export class WordCoreService {
       // Utiliser l'ID approprié selon ce qui est disponible
       const userIdLocal: string = user._id || user.userId || "";
 
+      // Normaliser et valider les graphies selon le profil de la langue
+      await this.languageOrthographyService.applyToWord(
+        createWordDto.languageId,
+        createWordDto,
+        createWordDto.language
+      );
+
       // Vérifier si le mot existe déjà dans la même langue
       const wordExists = await this.wordRepository.existsByWordAndLanguage(
         createWordDto.word,
@@ -135,6 +155,12 @@ export class WordCoreService {
         );
       }
 
+      // Vérifier que les variantes dialectales appartiennent à la langue
+      await this.languageVariantsService.assertVariantsOfLanguage(
+        createWordDto.languageId,
+        this.collectVariantIds(createWordDto)
+      );
+
       // Vérifier si la catégorie existe
       if (createWordDto.categoryId) {
         const categoryExists = await this.categoriesService.findOne(
@@ -163,6 +189,18 @@ export class WordCoreService {
         translationCount: savedWord.translationCount,
       });
 
+      // Modération automatique : un mot masqué repasse en attente
+      const screening = await this.autoModerationService.screen({
+        contentType: "word",
+        contentId: (savedWord as any)._id.toString(),
+        authorId: userIdLocal,
+        text: this.moderationText(savedWord),
+        language: savedWord.language,
+      });
+      if (screening.hidden) {
+        savedWord.status = "pending";
+      }
+
       // Enregistrer l'activité
       if (this.activityService && savedWord.status === "approved") {
         try {
@@ -200,7 +238,8 @@ export class WordCoreService {
     status = "approved",
     language?: string,
     categoryId?: string,
-    userId?: string
+    userId?: string,
+    variantId?: string
   ): Promise<{
     words: Word[];
     total: number;
@@ -215,6 +254,7 @@ export class WordCoreService {
         status,
         language,
         categoryId,
+        variantId,
       });
 
       // Populer les favoris si un utilisateur est fourni
@@ -316,6 +356,23 @@ export class WordCoreService {
           );
         }
 
+        // Vérifier que les variantes dialectales appartiennent à la langue
+        const languageRef: any = existingWord.languageId;
+        const languageId = languageRef?._id
+          ? String(languageRef._id)
+          : languageRef?.toString();
+        await this.languageVariantsService.assertVariantsOfLanguage(
+          languageId,
+          this.collectVariantIds(updateWordDto)
+        );
+
+        // Normaliser et valider les graphies selon le profil de la langue
+        await this.languageOrthographyService.applyToWord(
+          languageId,
+          updateWordDto,
+          existingWord.language
+        );
+
         // Vérifier si la catégorie existe (si fournie)
         if (updateWordDto.categoryId) {
           const categoryExists = await this.categoriesService.findOne(
@@ -364,6 +421,43 @@ export class WordCoreService {
     );
   }
 
+  /**
+   * IDs des variantes dialectales citées par un mot : forme principale,
+   * formes dialectales, définitions et prononciations
+   */
+  private collectVariantIds(data: CreateWordDto | UpdateWordDto): string[] {
+    return [
+      ...(data.variantIds || []),
+      ...(data.variantForms || []).map((variantForm) => variantForm.variantId),
+      ...(data.meanings || []).flatMap((meaning) => [
+        ...(meaning.definitions || []).flatMap(
+          (definition) => definition.variantIds || []
+        ),
+        ...(meaning.phonetics || []).map((phonetic) => phonetic.variantId),
+      ]),
+    ].filter((id): id is string => !!id);
+  }
+
+  /**
+   * Texte d'un mot soumis à la modération automatique : forme,
+   * définitions, exemples et étymologie
+   */
+  private moderationText(word: Word): string {
+    return [
+      word.word,
+      ...(word.meanings || []).flatMap((meaning) => [
+        ...(meaning.definitions || []).flatMap((definition) => [
+          definition.definition,
+          ...(definition.examples || []),
+        ]),
+        ...(meaning.examples || []),
+      ]),
+      word.etymology,
+    ]
+      .filter(Boolean)
+      .join("\n");
+  }
+
   /**
    * Supprime un mot
    * Ligne 559-601 dans WordsService original
@@ -392,6 +486,7 @@ export class WordCoreService {
         }
 
         await this.wordRepository.delete(id);
+        await this.wordRelationService.removeAllForWords([id]);
 
         // Enregistrer l'activité de suppression
         try {
@@ -424,6 +519,7 @@ export class WordCoreService {
     total: number;
     page: number;
     limit: number;
+    didYouMean?: SpellingCorrection[];
   }> {
     return DatabaseErrorHandler.handleFindOperation(
       async () => {
@@ -433,6 +529,17 @@ export class WordCoreService {
         if (userId && result.words.length > 0) {
           result.words = await this.populateFavorites(result.words, userId);
         }
+
+        // Aucun résultat : proposer des corrections "vouliez-vous dire"
+        if (result.total === 0 && searchDto.query?.trim()) {
+          return {
+            ...result,
+            didYouMean: await this.wordSpellingService.suggestCorrections(
+              searchDto.query,
+              { languages: searchDto.languages }
+            ),
+          };
+        }
         
         return result;
       },
@@ -532,7 +639,10 @@ export class WordCoreService {
               for (const [accent, audioData] of audioFilesArray) {
                 if (audioData?.cloudinaryId) {
                   console.log(`🗑️ Suppression fichier audio: ${audioData.cloudinaryId}`);
-                  await this.audioService.deletePhoneticAudio(audioData.cloudinaryId);
+                  await this.audioService.deletePhoneticAudio(
+                    audioData.cloudinaryId,
+                    audioData.renditions
+                  );
                 }
               }
             }
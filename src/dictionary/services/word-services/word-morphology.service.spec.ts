@@ -0,0 +1,123 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { NotFoundException } from "@nestjs/common";
+import { WordMorphologyService } from "./word-morphology.service";
+import { buildWordSearchFields } from "../../schemas/word.schema";
+
+describe("WordMorphologyService", () => {
+  let service: WordMorphologyService;
+  let wordRepository: any;
+  let languageRepository: any;
+
+  // Lingala : classes 1/2 (mo-/ba-) et infinitif en ko-
+  const lingala = {
+    _id: "lang-lin",
+    name: "Lingala",
+    iso639_3: "lin",
+    morphology: {
+      nounClasses: [
+        { code: "1", prefix: "mo", pluralClass: "2" },
+        { code: "2", prefix: "ba" },
+      ],
+      verbInfinitivePrefixes: ["ko"],
+      verbParadigms: [
+        {
+          name: "present",
+          label: "Présent",
+          cells: [
+            { key: "1sg", label: "na-", prefix: "na" },
+            { key: "2sg", label: "o-", prefix: "o" },
+          ],
+        },
+      ],
+    },
+  };
+
+  const moto = {
+    _id: "word-moto",
+    word: "moto",
+    languageId: { _id: "lang-lin", name: "Lingala" },
+    meanings: [
+      {
+        partOfSpeech: "noun",
+        grammaticalFeatures: { nounClass: "1", pluralForms: [] },
+      },
+      { partOfSpeech: "interjection" },
+    ],
+  };
+
+  beforeEach(async () => {
+    wordRepository = { findById: jest.fn().mockResolvedValue(moto) };
+    languageRepository = { findById: jest.fn().mockResolvedValue(lingala) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WordMorphologyService,
+        { provide: "IWordRepository", useValue: wordRepository },
+        { provide: "ILanguageRepository", useValue: languageRepository },
+      ],
+    }).compile();
+
+    service = module.get<WordMorphologyService>(WordMorphologyService);
+  });
+
+  it("should generate one paradigm per inflectable meaning", async () => {
+    const paradigm = await service.getParadigm("word-moto");
+
+    expect(languageRepository.findById).toHaveBeenCalledWith("lang-lin");
+    expect(paradigm).toMatchObject({
+      wordId: "word-moto",
+      lemma: "moto",
+      language: "Lingala",
+      hasMorphology: true,
+    });
+    expect(paradigm.paradigms).toHaveLength(1);
+    expect(paradigm.paradigms[0]).toMatchObject({
+      meaningIndex: 0,
+      nounClass: "1",
+      stem: "to",
+    });
+    expect(paradigm.paradigms[0].tables[0].cells.map((c) => c.form)).toEqual([
+      "moto",
+      "bato",
+    ]);
+  });
+
+  it("should conjugate verbs", async () => {
+    wordRepository.findById.mockResolvedValue({
+      _id: "word-kolia",
+      word: "kolia",
+      languageId: "lang-lin",
+      meanings: [{ partOfSpeech: "verb" }],
+    });
+
+    const paradigm = await service.getParadigm("word-kolia");
+    expect(paradigm.paradigms[0].tables[0]).toMatchObject({
+      label: "Présent",
+      cells: [
+        { key: "1sg", form: "nalia" },
+        { key: "2sg", form: "olia" },
+      ],
+    });
+  });
+
+  it("should return empty paradigms when the language has no rules", async () => {
+    languageRepository.findById.mockResolvedValue({ name: "Fang" });
+
+    const paradigm = await service.getParadigm("word-moto");
+    expect(paradigm.hasMorphology).toBe(false);
+    expect(paradigm.paradigms).toEqual([]);
+  });
+
+  it("should throw when the word does not exist", async () => {
+    wordRepository.findById.mockResolvedValue(null);
+    await expect(service.getParadigm("missing")).rejects.toThrow(
+      NotFoundException
+    );
+  });
+
+  it("should index inflected forms so that they resolve to the lemma", () => {
+    const fields = buildWordSearchFields(moto, "lin", lingala.morphology);
+    expect(fields.searchKey).toBe("moto");
+    expect(fields.inflectionKeys).toEqual(["bato"]);
+  });
+});
@@ -0,0 +1,98 @@
+import { Inject, Injectable, NotFoundException } from "@nestjs/common";
+import { IWordRepository } from "../../../repositories/interfaces/word.repository.interface";
+import { ILanguageRepository } from "../../../repositories/interfaces/language.repository.interface";
+import {
+  InflectionGenerator,
+  MorphologyRules,
+  ParadigmTable,
+} from "../../../common/utils/inflection.util";
+
+/**
+ * Paradigme généré pour un sens du mot
+ */
+export interface MeaningParadigm {
+  meaningIndex: number;
+  partOfSpeech: string;
+  nounClass?: string;
+  stem: string;
+  tables: ParadigmTable[];
+}
+
+/**
+ * Réponse de `GET /words/:id/paradigm`
+ */
+export interface WordParadigm {
+  wordId: string;
+  lemma: string;
+  language?: string;
+  /** La langue déclare-t-elle des règles morphologiques ? */
+  hasMorphology: boolean;
+  paradigms: MeaningParadigm[];
+}
+
+/**
+ * Service de flexion des mots
+ *
+ * Génère les tables de flexion (pluriel selon la classe nominale,
+ * conjugaisons) d'un mot à partir des règles de sa langue et des traits
+ * grammaticaux de chacun de ses sens.
+ */
+@Injectable()
+export class WordMorphologyService {
+  constructor(
+    @Inject("IWordRepository") private wordRepository: IWordRepository,
+    @Inject("ILanguageRepository")
+    private languageRepository: ILanguageRepository
+  ) {}
+
+  /**
+   * Tables de flexion d'un mot, un paradigme par sens fléchissable
+   *
+   * @throws {NotFoundException} Si le mot n'existe pas
+   */
+  async getParadigm(wordId: string): Promise<WordParadigm> {
+    const word = await this.wordRepository.findById(wordId);
+    if (!word) {
+      throw new NotFoundException(`Mot avec l'ID ${wordId} non trouvé`);
+    }
+
+    const languageRef: any = word.languageId;
+    const languageId = languageRef?._id ?? languageRef;
+    const language = languageId
+      ? await this.languageRepository.findById(String(languageId))
+      : null;
+    const morphology: MorphologyRules = language?.morphology || {};
+
+    const paradigms: MeaningParadigm[] = [];
+    word.meanings.forEach((meaning, meaningIndex) => {
+      const features = {
+        ...meaning.grammaticalFeatures,
+        partOfSpeech: meaning.partOfSpeech,
+      };
+      const tables = InflectionGenerator.generate(
+        word.word,
+        features,
+        morphology
+      );
+      if (tables.length) {
+        paradigms.push({
+          meaningIndex,
+          partOfSpeech: meaning.partOfSpeech,
+          nounClass: features.nounClass,
+          stem: InflectionGenerator.stem(word.word, features, morphology),
+          tables,
+        });
+      }
+    });
+
+    return {
+      wordId: String(word._id),
+      lemma: word.word,
+      language: language?.name || word.language,
+      hasMorphology: !!(
+        morphology.nounClasses?.length || morphology.verbParadigms?.length
+      ),
+      paradigms,
+    };
+  }
+}
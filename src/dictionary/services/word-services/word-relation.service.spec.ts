@@ -0,0 +1,272 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from "@nestjs/common";
+import { WordRelationService } from "./word-relation.service";
+
+describe("WordRelationService", () => {
+  let service: WordRelationService;
+  let wordRepository: any;
+  let wordRelationRepository: any;
+
+  const ids = {
+    kalara: "64b000000000000000000001",
+    carte: "64b000000000000000000002",
+    papier: "64b000000000000000000003",
+    ekalara: "64b000000000000000000004",
+  };
+  const words: Record<string, any> = {
+    [ids.kalara]: {
+      _id: ids.kalara,
+      word: "kalara",
+      language: "fan",
+      status: "approved",
+    },
+    [ids.carte]: {
+      _id: ids.carte,
+      word: "carte",
+      language: "fr",
+      status: "approved",
+    },
+    [ids.papier]: {
+      _id: ids.papier,
+      word: "papier",
+      language: "fr",
+      status: "approved",
+    },
+    [ids.ekalara]: {
+      _id: ids.ekalara,
+      word: "ekalara",
+      language: "fan",
+      status: "pending",
+    },
+  };
+
+  // kalara --loan-from--> carte --synonym--> papier ; ekalara --derived-from--> kalara
+  const relations = [
+    ["r1", ids.kalara, ids.carte, "loan-from", "p1"],
+    ["r2", ids.carte, ids.kalara, "loaned-to", "p1"],
+    ["r3", ids.carte, ids.papier, "synonym", "p2"],
+    ["r4", ids.papier, ids.carte, "synonym", "p2"],
+    ["r5", ids.ekalara, ids.kalara, "derived-from", "p3"],
+    ["r6", ids.kalara, ids.ekalara, "has-derivative", "p3"],
+  ].map(([_id, sourceWordId, targetWordId, type, pairId]) => ({
+    _id,
+    sourceWordId,
+    targetWordId,
+    type,
+    pairId,
+  }));
+
+  beforeEach(async () => {
+    wordRepository = {
+      findById: jest.fn((id: string) => Promise.resolve(words[id] || null)),
+      findSummariesByIds: jest.fn((list: string[]) =>
+        Promise.resolve(list.filter((id) => words[id]).map((id) => words[id]))
+      ),
+    };
+    wordRelationRepository = {
+      findBetween: jest.fn().mockResolvedValue([]),
+      createPair: jest.fn((pair) => Promise.resolve(pair)),
+      findById: jest.fn(),
+      deletePair: jest.fn().mockResolvedValue(2),
+      deleteByWordIds: jest.fn().mockResolvedValue(4),
+      findBySourceWordIds: jest.fn((list: string[], types?: string[]) =>
+        Promise.resolve(
+          relations.filter(
+            (relation) =>
+              list.includes(relation.sourceWordId) &&
+              (!types?.length || types.includes(relation.type))
+          )
+        )
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WordRelationService,
+        { provide: "IWordRepository", useValue: wordRepository },
+        {
+          provide: "IWordRelationRepository",
+          useValue: wordRelationRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<WordRelationService>(WordRelationService);
+  });
+
+  describe("addRelation", () => {
+    it("should create the relation with its reciprocal", async () => {
+      const relation = await service.addRelation(
+        ids.kalara,
+        { targetWordId: ids.carte, type: "loan-from" },
+        "user-1"
+      );
+
+      const [pair, userId] = wordRelationRepository.createPair.mock.calls[0];
+      expect(userId).toBe("user-1");
+      expect(pair[0]).toMatchObject({
+        sourceWordId: ids.kalara,
+        targetWordId: ids.carte,
+        type: "loan-from",
+        isReciprocal: false,
+      });
+      expect(pair[1]).toMatchObject({
+        sourceWordId: ids.carte,
+        targetWordId: ids.kalara,
+        type: "loaned-to",
+        isReciprocal: true,
+      });
+      expect(pair[0].pairId).toBe(pair[1].pairId);
+      expect(relation).toBe(pair[0]);
+    });
+
+    it("should refuse self relations and unknown words", async () => {
+      await expect(
+        service.addRelation(
+          ids.kalara,
+          { targetWordId: ids.kalara, type: "synonym" },
+          "user-1"
+        )
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.addRelation(
+          ids.kalara,
+          { targetWordId: "64b0000000000000000000ff", type: "synonym" },
+          "user-1"
+        )
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it("should refuse duplicates and contradictory relations", async () => {
+      wordRelationRepository.findBetween.mockResolvedValue([
+        { type: "synonym" },
+      ]);
+      await expect(
+        service.addRelation(
+          ids.carte,
+          { targetWordId: ids.papier, type: "synonym" },
+          "user-1"
+        )
+      ).rejects.toThrow(ConflictException);
+      await expect(
+        service.addRelation(
+          ids.carte,
+          { targetWordId: ids.papier, type: "antonym" },
+          "user-1"
+        )
+      ).rejects.toThrow(BadRequestException);
+
+      wordRelationRepository.findBetween.mockResolvedValue([
+        { type: "has-derivative" },
+      ]);
+      await expect(
+        service.addRelation(
+          ids.kalara,
+          { targetWordId: ids.ekalara, type: "derived-from" },
+          "user-1"
+        )
+      ).rejects.toThrow(BadRequestException);
+      expect(wordRelationRepository.createPair).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("removeRelation", () => {
+    it("should delete both directions for the author", async () => {
+      wordRelationRepository.findById.mockResolvedValue({
+        ...relations[0],
+        createdBy: "user-1",
+      });
+
+      await service.removeRelation(ids.carte, "r1", {
+        _id: "user-1",
+        role: "contributor",
+      });
+      expect(wordRelationRepository.deletePair).toHaveBeenCalledWith("p1");
+    });
+
+    it("should forbid other contributors and unrelated words", async () => {
+      wordRelationRepository.findById.mockResolvedValue({
+        ...relations[0],
+        createdBy: "user-2",
+      });
+
+      await expect(
+        service.removeRelation(ids.kalara, "r1", {
+          _id: "user-1",
+          role: "contributor",
+        })
+      ).rejects.toThrow(ForbiddenException);
+      await expect(
+        service.removeRelation(ids.papier, "r1", {
+          _id: "user-1",
+          role: "admin",
+        })
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe("getRelationGraph", () => {
+    it("should return direct relations only at depth 1", async () => {
+      const graph = await service.getRelationGraph(ids.kalara, 1);
+
+      expect(graph.nodes.map((node) => [node.word, node.depth])).toEqual([
+        ["kalara", 0],
+        ["carte", 1],
+        ["ekalara", 1],
+      ]);
+      expect(graph.edges.map((edge) => edge.type)).toEqual([
+        "loan-from",
+        "has-derivative",
+      ]);
+      expect(graph.truncated).toBe(false);
+    });
+
+    it("should follow relations across languages up to depth 2 without duplicating pairs", async () => {
+      const graph = await service.getRelationGraph(ids.kalara, 2);
+
+      expect(graph.nodes.map((node) => node.word)).toEqual([
+        "kalara",
+        "carte",
+        "ekalara",
+        "papier",
+      ]);
+      expect(graph.edges).toHaveLength(3);
+      expect(graph.edges[2]).toMatchObject({
+        source: ids.carte,
+        target: ids.papier,
+        type: "synonym",
+      });
+    });
+
+    it("should only follow the requested types", async () => {
+      const graph = await service.getRelationGraph(ids.kalara, 2, [
+        "has-derivative",
+      ]);
+      expect(graph.nodes.map((node) => node.word)).toEqual([
+        "kalara",
+        "ekalara",
+      ]);
+    });
+
+    it("should throw when the word does not exist", async () => {
+      await expect(
+        service.getRelationGraph("64b0000000000000000000ff")
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  it("should remove the relations of deleted words", async () => {
+    await expect(service.removeAllForWords([ids.kalara])).resolves.toBe(4);
+    expect(wordRelationRepository.deleteByWordIds).toHaveBeenCalledWith([
+      ids.kalara,
+    ]);
+
+    await service.removeAllForWords([]);
+    expect(wordRelationRepository.deleteByWordIds).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,288 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "@nestjs/common";
+import { Types } from "mongoose";
+import { v4 as uuidv4 } from "uuid";
+import {
+  RECIPROCAL_RELATION_TYPES,
+  WordRelation,
+} from "../../schemas/word-relation.schema";
+import { CreateWordRelationDto } from "../../dto/word-relation.dto";
+import { IWordRepository } from "../../../repositories/interfaces/word.repository.interface";
+import { IWordRelationRepository } from "../../../repositories/interfaces/word-relation.repository.interface";
+import { UserRole } from "../../../users/schemas/user.schema";
+
+/**
+ * Nœud du graphe de relations
+ */
+export interface WordRelationNode {
+  id: string;
+  word: string;
+  language?: string;
+  languageId?: string;
+  status: string;
+  /** Distance au mot de départ */
+  depth: number;
+}
+
+/**
+ * Arête du graphe, orientée du point de vue du mot le plus proche du départ
+ */
+export interface WordRelationEdge {
+  id: string;
+  source: string;
+  target: string;
+  type: string;
+  note?: string;
+}
+
+/**
+ * Réponse de `GET /words/:id/relations`
+ */
+export interface WordRelationGraph {
+  rootId: string;
+  depth: number;
+  nodes: WordRelationNode[];
+  edges: WordRelationEdge[];
+  /** Parcours interrompu après `MAX_GRAPH_NODES` nœuds */
+  truncated: boolean;
+}
+
+/**
+ * Service du graphe de relations entre mots
+ *
+ * Chaque relation déclarée est enregistrée avec sa réciproque
+ * (`derived-from` ↔ `has-derivative`, `synonym` ↔ `synonym`...), ce qui
+ * permet de parcourir le graphe en ne suivant que les arêtes sortantes.
+ */
+@Injectable()
+export class WordRelationService {
+  private readonly logger = new Logger(WordRelationService.name);
+
+  /** Nombre maximal de nœuds renvoyés par le parcours du graphe */
+  static readonly MAX_GRAPH_NODES = 200;
+
+  /** Couples de types incompatibles entre deux mêmes mots */
+  private static readonly CONFLICTING_TYPES: Record<string, string> = {
+    synonym: "antonym",
+    antonym: "synonym",
+    "derived-from": "has-derivative",
+    "has-derivative": "derived-from",
+    "compound-of": "component-of",
+    "component-of": "compound-of",
+    "loan-from": "loaned-to",
+    "loaned-to": "loan-from",
+  };
+
+  constructor(
+    @Inject("IWordRelationRepository")
+    private wordRelationRepository: IWordRelationRepository,
+    @Inject("IWordRepository") private wordRepository: IWordRepository
+  ) {}
+
+  /**
+   * Relier deux mots ; la relation réciproque est créée dans la foulée
+   *
+   * @throws {BadRequestException} Si les mots sont identiques ou si la relation contredit une relation existante
+   * @throws {NotFoundException} Si l'un des mots n'existe pas
+   * @throws {ConflictException} Si la relation existe déjà
+   */
+  async addRelation(
+    wordId: string,
+    dto: CreateWordRelationDto,
+    userId: string
+  ): Promise<WordRelation> {
+    if (!Types.ObjectId.isValid(wordId)) {
+      throw new BadRequestException("ID de mot invalide");
+    }
+    if (wordId === dto.targetWordId) {
+      throw new BadRequestException("Un mot ne peut pas être relié à lui-même");
+    }
+
+    const [source, target] = await Promise.all([
+      this.wordRepository.findById(wordId),
+      this.wordRepository.findById(dto.targetWordId),
+    ]);
+    if (!source) {
+      throw new NotFoundException(`Mot avec l'ID ${wordId} non trouvé`);
+    }
+    if (!target) {
+      throw new NotFoundException(
+        `Mot avec l'ID ${dto.targetWordId} non trouvé`
+      );
+    }
+
+    const existing = await this.wordRelationRepository.findBetween(
+      wordId,
+      dto.targetWordId
+    );
+    if (existing.some((relation) => relation.type === dto.type)) {
+      throw new ConflictException(
+        `"${source.word}" et "${target.word}" sont déjà reliés (${dto.type})`
+      );
+    }
+    const conflict = existing.find(
+      (relation) =>
+        relation.type === WordRelationService.CONFLICTING_TYPES[dto.type]
+    );
+    if (conflict) {
+      throw new BadRequestException(
+        `Relation incompatible avec la relation existante "${conflict.type}" entre "${source.word}" et "${target.word}"`
+      );
+    }
+
+    const pairId = uuidv4();
+    const [relation] = await this.wordRelationRepository.createPair(
+      [
+        {
+          sourceWordId: wordId,
+          targetWordId: dto.targetWordId,
+          type: dto.type,
+          pairId,
+          isReciprocal: false,
+          note: dto.note,
+        },
+        {
+          sourceWordId: dto.targetWordId,
+          targetWordId: wordId,
+          type: RECIPROCAL_RELATION_TYPES[dto.type],
+          pairId,
+          isReciprocal: true,
+          note: dto.note,
+        },
+      ],
+      userId
+    );
+    return relation;
+  }
+
+  /**
+   * Supprimer une relation et sa réciproque (auteur ou administrateur)
+   *
+   * @throws {NotFoundException} Si la relation ne concerne pas ce mot
+   * @throws {ForbiddenException} Si l'utilisateur n'est ni l'auteur ni administrateur
+   */
+  async removeRelation(
+    wordId: string,
+    relationId: string,
+    user: { _id: any; role?: string }
+  ): Promise<{ success: boolean }> {
+    const relation = await this.wordRelationRepository.findById(relationId);
+    const touchesWord =
+      relation &&
+      [relation.sourceWordId, relation.targetWordId].some(
+        (id) => String(id) === wordId
+      );
+    if (!touchesWord) {
+      throw new NotFoundException(
+        `Relation ${relationId} introuvable pour le mot ${wordId}`
+      );
+    }
+
+    const isAdmin =
+      user.role === UserRole.ADMIN || user.role === UserRole.SUPERADMIN;
+    if (!isAdmin && String(relation.createdBy) !== String(user._id)) {
+      throw new ForbiddenException(
+        "Seul l'auteur de la relation ou un administrateur peut la supprimer"
+      );
+    }
+
+    await this.wordRelationRepository.deletePair(relation.pairId);
+    return { success: true };
+  }
+
+  /**
+   * Graphe des relations d'un mot jusqu'à la profondeur demandée
+   *
+   * Parcours en largeur ; chaque relation n'apparaît qu'une fois, orientée
+   * depuis le mot atteint en premier.
+   *
+   * @throws {NotFoundException} Si le mot n'existe pas
+   */
+  async getRelationGraph(
+    wordId: string,
+    depth = 1,
+    types?: string[]
+  ): Promise<WordRelationGraph> {
+    const [root] = await this.wordRepository.findSummariesByIds([wordId]);
+    if (!root) {
+      throw new NotFoundException(`Mot avec l'ID ${wordId} non trouvé`);
+    }
+
+    const depths = new Map<string, number>([[root._id, 0]]);
+    const edges: WordRelationEdge[] = [];
+    const seenPairs = new Set<string>();
+    let frontier = [root._id];
+    let truncated = false;
+
+    for (let level = 1; level <= depth && frontier.length; level++) {
+      const relations = await this.wordRelationRepository.findBySourceWordIds(
+        frontier,
+        types
+      );
+      const next: string[] = [];
+
+      for (const relation of relations) {
+        if (seenPairs.has(relation.pairId)) {
+          continue;
+        }
+        const target = String(relation.targetWordId);
+        if (!depths.has(target)) {
+          if (depths.size >= WordRelationService.MAX_GRAPH_NODES) {
+            truncated = true;
+            continue;
+          }
+          depths.set(target, level);
+          next.push(target);
+        }
+        seenPairs.add(relation.pairId);
+        edges.push({
+          id: String((relation as any)._id),
+          source: String(relation.sourceWordId),
+          target,
+          type: relation.type,
+          note: relation.note,
+        });
+      }
+      frontier = next;
+    }
+
+    const summaries = await this.wordRepository.findSummariesByIds([
+      ...depths.keys(),
+    ]);
+    const nodes = summaries
+      .map((summary) => ({
+        id: summary._id,
+        word: summary.word,
+        language: summary.language,
+        languageId: summary.languageId,
+        status: summary.status,
+        depth: depths.get(summary._id) ?? 0,
+      }))
+      .sort((a, b) => a.depth - b.depth || a.word.localeCompare(b.word));
+
+    return { rootId: root._id, depth, nodes, edges, truncated };
+  }
+
+  /**
+   * Supprimer les relations des mots supprimés (intégrité du graphe)
+   */
+  async removeAllForWords(wordIds: string[]): Promise<number> {
+    if (!wordIds.length) {
+      return 0;
+    }
+    const deleted = await this.wordRelationRepository.deleteByWordIds(wordIds);
+    if (deleted) {
+      this.logger.log(
+        `${deleted} relation(s) supprimée(s) avec ${wordIds.length} mot(s)`
+      );
+    }
+    return deleted;
+  }
+}
@@ -6,6 +6,7 @@ import { Word } from '../../schemas/word.schema';
 import { RevisionHistory } from '../../schemas/revision-history.schema';
 import { User, UserRole } from '../../../users/schemas/user.schema';
 import { WordNotificationService } from './word-notification.service';
+import { LanguageOrthographyService } from '../../../languages/services/language-orthography.service';
 import { Types } from 'mongoose';
 
 describe('WordRevisionService', () => {
@@ -99,6 +100,10 @@ describe('WordRevisionService', () => {
           provide: WordNotificationService,
           useValue: mockNotificationService,
         },
+        {
+          provide: LanguageOrthographyService,
+          useValue: { applyToWord: jest.fn() },
+        },
       ],
     }).compile();
 
@@ -14,6 +14,7 @@ import {
 import { User, UserDocument, UserRole } from '../../../users/schemas/user.schema';
 import { UpdateWordDto } from '../../dto/update-word.dto';
 import { WordNotificationService } from './word-notification.service';
+import { LanguageOrthographyService } from '../../../languages/services/language-orthography.service';
 import { DatabaseErrorHandler } from "../../../common/errors";
 
 /**
@@ -40,6 +41,7 @@ export class WordRevisionService {
     private revisionHistoryModel: Model<RevisionHistoryDocument>,
     @InjectModel(User.name) private userModel: Model<UserDocument>,
     private wordNotificationService: WordNotificationService,
+    private languageOrthographyService: LanguageOrthographyService,
   ) {}
 
   /**
@@ -61,6 +63,13 @@ export class WordRevisionService {
           throw new NotFoundException('Mot non trouvé');
         }
 
+        // Normaliser et valider les graphies selon le profil de la langue
+        await this.languageOrthographyService.applyToWord(
+          existingWord.languageId?.toString(),
+          updateWordDto,
+          existingWord.language,
+        );
+
         // Détecter les changements
         const changes = this.detectChanges(existingWord, updateWordDto);
         console.log(`🔍 ${changes.length} changements détectés:`, changes.map(c => c.field));
@@ -339,6 +348,8 @@ export class WordRevisionService {
       'meanings', 
       'translations',
       'languageVariants',
+      'variantIds',
+      'variantForms',
       'audioFiles',
     ];
 
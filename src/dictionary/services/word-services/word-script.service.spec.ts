@@ -0,0 +1,84 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { BadRequestException } from "@nestjs/common";
+import { WordScriptService } from "./word-script.service";
+
+describe("WordScriptService", () => {
+  let service: WordScriptService;
+  let languageRepository: any;
+
+  const hausaId = "64c000000000000000000001";
+  const hausa = {
+    _id: hausaId,
+    name: "Hausa",
+    scripts: [
+      { code: "Latn", name: "Boko", direction: "ltr", isDefault: true },
+      { code: "Arab", name: "Ajami", direction: "rtl", isDefault: false },
+    ],
+    transliterations: [],
+  };
+  const ruwa = {
+    _id: "64c000000000000000000101",
+    word: "ruwa",
+    languageId: { _id: hausaId, name: "Hausa" },
+    scriptForms: [{ scriptCode: "Arab", form: "رُوَ" }],
+  };
+
+  beforeEach(async () => {
+    languageRepository = { findById: jest.fn().mockResolvedValue(hausa) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WordScriptService,
+        { provide: "ILanguageRepository", useValue: languageRepository },
+      ],
+    }).compile();
+
+    service = module.get<WordScriptService>(WordScriptService);
+  });
+
+  it("should render the entry in the requested script and direction", async () => {
+    const rendered = await service.renderWord(ruwa, "Arab");
+
+    expect(languageRepository.findById).toHaveBeenCalledWith(hausaId);
+    expect(rendered).toEqual(
+      expect.objectContaining({
+        word: "رُوَ",
+        originalWord: "ruwa",
+        script: { code: "Arab", name: "Ajami", direction: "rtl" },
+      })
+    );
+  });
+
+  it("should fall back to the input script when no form was generated", async () => {
+    const rendered = await service.renderWord(
+      { ...ruwa, scriptForms: [] },
+      "Arab"
+    );
+
+    expect(rendered.word).toBe("ruwa");
+    expect(rendered.originalWord).toBeUndefined();
+    expect(rendered.script).toEqual({
+      code: "Latn",
+      name: "Boko",
+      direction: "ltr",
+    });
+  });
+
+  it("should reject a script the language does not declare", async () => {
+    await expect(service.renderWord(ruwa, "Tfng")).rejects.toThrow(
+      BadRequestException
+    );
+  });
+
+  it("should leave search results of other languages untouched", async () => {
+    const other = { _id: "w2", word: "mbolo", languageId: "64c0000000000002" };
+    languageRepository.findById.mockImplementation((id: string) =>
+      Promise.resolve(id === hausaId ? hausa : { scripts: [] })
+    );
+
+    const [first, second] = await service.renderWords([ruwa, other], "Arab");
+
+    expect(first.word).toBe("رُوَ");
+    expect(second).toBe(other);
+  });
+});
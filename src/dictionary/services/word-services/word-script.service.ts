@@ -0,0 +1,147 @@
+import { BadRequestException, Inject, Injectable } from "@nestjs/common";
+import { ILanguageRepository } from "../../../repositories/interfaces/language.repository.interface";
+import { Language } from "../../../languages/schemas/language.schema";
+import { languageScripting } from "../../schemas/word.schema";
+
+/**
+ * Écriture dans laquelle une entrée est rendue
+ */
+export interface RenderedScript {
+  code: string;
+  name: string;
+  direction: "ltr" | "rtl";
+}
+
+/**
+ * Entrée rendue dans une écriture de sa langue (`?script=`)
+ */
+export type ScriptRenderedWord = Record<string, any> & {
+  word: string;
+  /** Écriture effectivement utilisée (celle de saisie si la graphie manque) */
+  script: RenderedScript;
+  /** Forme saisie, présente quand la graphie rendue en diffère */
+  originalWord?: string;
+};
+
+/**
+ * Service de rendu des mots dans les écritures de leur langue
+ *
+ * Les graphies proviennent de `Word.scriptForms`, générées à partir des
+ * tables de `Language.transliterations` ; la direction d'écriture est
+ * celle déclarée dans `Language.scripts`.
+ */
+@Injectable()
+export class WordScriptService {
+  constructor(
+    @Inject("ILanguageRepository")
+    private languageRepository: ILanguageRepository
+  ) {}
+
+  /**
+   * Rend un mot dans l'écriture demandée
+   *
+   * @throws {BadRequestException} Si l'écriture n'est pas déclarée par la langue du mot
+   */
+  async renderWord(word: any, scriptCode: string): Promise<ScriptRenderedWord> {
+    const entry = WordScriptService.plain(word);
+    const language = await this.findLanguage(entry);
+    const rendered = language
+      ? WordScriptService.render(entry, language, scriptCode)
+      : null;
+    if (!rendered) {
+      const codes = (language?.scripts || []).map((script) => script.code);
+      throw new BadRequestException(
+        `Écriture ${scriptCode} non disponible pour ce mot (${codes.join(", ") || "aucune écriture déclarée"})`
+      );
+    }
+    return rendered;
+  }
+
+  /**
+   * Rend une liste de mots dans l'écriture demandée ; les mots dont la
+   * langue ne déclare pas cette écriture sont renvoyés tels quels
+   */
+  async renderWords(
+    words: any[],
+    scriptCode: string
+  ): Promise<Array<Record<string, any>>> {
+    const entries = words.map(WordScriptService.plain);
+    const languageIds = [
+      ...new Set(
+        entries
+          .map(WordScriptService.languageIdOf)
+          .filter((id): id is string => !!id)
+      ),
+    ];
+    const languages = new Map<string, Language>();
+    await Promise.all(
+      languageIds.map(async (id) => {
+        const language = await this.languageRepository.findById(id);
+        if (language) {
+          languages.set(id, language);
+        }
+      })
+    );
+
+    return entries.map((entry) => {
+      const language = languages.get(WordScriptService.languageIdOf(entry));
+      return (
+        (language && WordScriptService.render(entry, language, scriptCode)) ||
+        entry
+      );
+    });
+  }
+
+  private async findLanguage(entry: any): Promise<Language | null> {
+    const languageId = WordScriptService.languageIdOf(entry);
+    return languageId ? this.languageRepository.findById(languageId) : null;
+  }
+
+  /**
+   * Entrée rendue dans `scriptCode`, null si la langue ne déclare pas
+   * cette écriture
+   */
+  private static render(
+    entry: any,
+    language: Language,
+    scriptCode: string
+  ): ScriptRenderedWord | null {
+    const scripts = language.scripts || [];
+    const requested = scripts.find((script) => script.code === scriptCode);
+    if (!requested) {
+      return null;
+    }
+
+    const { sourceScript } = languageScripting(language);
+    const form =
+      scriptCode === sourceScript
+        ? undefined
+        : (entry.scriptForms || []).find(
+            (scriptForm: any) => scriptForm.scriptCode === scriptCode
+          )?.form;
+    const used = form
+      ? requested
+      : scripts.find((script) => script.code === sourceScript) || requested;
+
+    return {
+      ...entry,
+      word: form || entry.word,
+      ...(form ? { originalWord: entry.word } : {}),
+      script: {
+        code: used.code,
+        name: used.name,
+        direction: used.direction === "rtl" ? "rtl" : "ltr",
+      },
+    };
+  }
+
+  private static plain(word: any): Record<string, any> {
+    return typeof word?.toObject === "function" ? word.toObject() : word;
+  }
+
+  private static languageIdOf(entry: any): string | undefined {
+    const languageRef = entry?.languageId;
+    const languageId = languageRef?._id ?? languageRef;
+    return languageId ? String(languageId) : undefined;
+  }
+}
@@ -0,0 +1,93 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { WordSpellingService } from './word-spelling.service';
+import { buildWordSearchFields } from '../../schemas/word.schema';
+
+describe('WordSpellingService', () => {
+  let service: WordSpellingService;
+  let mockWordRepository: any;
+
+  const candidate = (
+    _id: string,
+    word: string,
+    pronunciation?: string,
+    translationCount = 0,
+  ) => {
+    const fields = buildWordSearchFields({ word, pronunciation }, 'lin');
+    return {
+      _id,
+      word,
+      language: 'lin',
+      searchKey: fields.searchKey,
+      phoneticKeys: fields.phoneticKeys,
+      translationCount,
+    };
+  };
+
+  beforeEach(async () => {
+    mockWordRepository = {
+      findSpellingCandidates: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WordSpellingService,
+        { provide: 'IWordRepository', useValue: mockWordRepository },
+      ],
+    }).compile();
+
+    service = module.get<WordSpellingService>(WordSpellingService);
+  });
+
+  it('should ignore queries that are too short', async () => {
+    const result = await service.suggestCorrections('mb');
+
+    expect(result).toEqual([]);
+    expect(mockWordRepository.findSpellingCandidates).not.toHaveBeenCalled();
+  });
+
+  it('should query candidates with trigrams and phonetic key', async () => {
+    mockWordRepository.findSpellingCandidates.mockResolvedValue([]);
+
+    await service.suggestCorrections('Mbɔ́tɛ', { languages: ['lin'] });
+
+    expect(mockWordRepository.findSpellingCandidates).toHaveBeenCalledWith(
+      expect.objectContaining({
+        searchGrams: expect.arrayContaining([' mb', 'bot', 'te ']),
+        phoneticKey: 'mbote',
+        languages: ['lin'],
+      }),
+    );
+  });
+
+  it('should rank close spellings by distance and drop distant words', async () => {
+    mockWordRepository.findSpellingCandidates.mockResolvedValue([
+      candidate('1', 'mbótɛ'),
+      candidate('2', 'mbóka'),
+      candidate('3', 'motéma'),
+    ]);
+
+    const result = await service.suggestCorrections('mbota');
+
+    expect(result.map((c) => c.text)).toEqual(['mbótɛ', 'mbóka']);
+    expect(result[0]).toEqual(
+      expect.objectContaining({
+        wordId: '1',
+        distance: 1,
+        score: 0.8,
+        matchType: 'spelling',
+      }),
+    );
+  });
+
+  it('should suggest words pronounced like the query', async () => {
+    mockWordRepository.findSpellingCandidates.mockResolvedValue([
+      candidate('1', 'ʃikɔ', '[ˈʃikɔ]'),
+    ]);
+
+    const result = await service.suggestCorrections('shiko');
+
+    expect(result).toHaveLength(1);
+    expect(result[0].matchType).toBe('phonetic');
+    expect(result[0].score).toBeGreaterThanOrEqual(0.8);
+  });
+});
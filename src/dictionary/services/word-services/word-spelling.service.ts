@@ -0,0 +1,125 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { IWordRepository } from "../../../repositories/interfaces/word.repository.interface";
+import { DatabaseErrorHandler } from "../../../common/errors";
+import { SearchNormalizer } from "../../../common/utils/search-normalizer.util";
+import { FuzzyMatcher } from "../../../common/utils/fuzzy-match.util";
+import { PhoneticKey } from "../../../common/utils/phonetic-key.util";
+
+/**
+ * Suggestion de correction "vouliez-vous dire"
+ */
+export interface SpellingCorrection {
+  text: string;
+  wordId: string;
+  language?: string;
+  /** Distance d'édition entre la requête et le mot (après normalisation) */
+  distance: number;
+  /** Score de proximité entre 0 et 1 */
+  score: number;
+  /** Origine de la correspondance : orthographe proche ou même prononciation */
+  matchType: "spelling" | "phonetic";
+}
+
+/**
+ * Service de correction orthographique des recherches de mots
+ *
+ * Présélectionne en base les mots partageant des trigrammes ou une clé
+ * phonétique avec la requête, puis les classe par distance d'édition.
+ * Utilisé comme repli lorsque la recherche exacte ne donne rien.
+ */
+@Injectable()
+export class WordSpellingService {
+  /** Longueur minimale (normalisée) d'une requête à corriger */
+  static readonly MIN_QUERY_LENGTH = 3;
+
+  /** Nombre de candidats présélectionnés avant classement */
+  private static readonly CANDIDATE_POOL_SIZE = 100;
+
+  /** Score plancher d'un mot qui se prononce comme la requête */
+  private static readonly PHONETIC_MATCH_SCORE = 0.8;
+
+  constructor(
+    @Inject("IWordRepository") private wordRepository: IWordRepository
+  ) {}
+
+  /**
+   * Propose des mots proches d'une requête sans résultat
+   *
+   * @param query - Requête saisie par l'utilisateur
+   * @param options - Langues ciblées et nombre maximal de suggestions
+   * @returns Corrections triées par score décroissant
+   */
+  async suggestCorrections(
+    query: string,
+    options: { languages?: string[]; limit?: number } = {}
+  ): Promise<SpellingCorrection[]> {
+    const languageCode =
+      options.languages?.length === 1 ? options.languages[0] : undefined;
+    const queryKey = SearchNormalizer.normalize(query, languageCode);
+
+    if (queryKey.length < WordSpellingService.MIN_QUERY_LENGTH) {
+      return [];
+    }
+
+    return DatabaseErrorHandler.handleSearchOperation(
+      async () => {
+        const phoneticKey = PhoneticKey.build(query, languageCode);
+        const candidates = await this.wordRepository.findSpellingCandidates({
+          searchGrams: FuzzyMatcher.ngrams(queryKey),
+          phoneticKey: phoneticKey || undefined,
+          languages: options.languages,
+          limit: WordSpellingService.CANDIDATE_POOL_SIZE,
+        });
+
+        const maxDistance = FuzzyMatcher.maxDistanceFor(queryKey.length);
+        const ranked: Array<{
+          correction: SpellingCorrection;
+          frequency: number;
+        }> = [];
+
+        for (const candidate of candidates) {
+          const candidateKey =
+            candidate.searchKey ||
+            SearchNormalizer.normalize(candidate.word, candidate.language);
+          const distance = FuzzyMatcher.distance(queryKey, candidateKey);
+          const phoneticMatch =
+            !!phoneticKey && candidate.phoneticKeys.includes(phoneticKey);
+
+          if (distance > maxDistance && !phoneticMatch) {
+            continue;
+          }
+
+          const spellingScore =
+            1 - distance / Math.max(queryKey.length, candidateKey.length);
+          const score = phoneticMatch
+            ? Math.max(spellingScore, WordSpellingService.PHONETIC_MATCH_SCORE)
+            : spellingScore;
+
+          ranked.push({
+            correction: {
+              text: candidate.word,
+              wordId: candidate._id.toString(),
+              language: candidate.language,
+              distance,
+              score: Math.round(score * 100) / 100,
+              matchType: distance <= maxDistance ? "spelling" : "phonetic",
+            },
+            frequency: candidate.translationCount || 0,
+          });
+        }
+
+        return ranked
+          .sort(
+            (a, b) =>
+              b.correction.score - a.correction.score ||
+              a.correction.distance - b.correction.distance ||
+              b.frequency - a.frequency
+          )
+          .slice(0, options.limit ?? 5)
+          .map(({ correction }) => correction);
+      },
+      "WordSpelling",
+      `corrections-${query}`
+    );
+  }
+}
@@ -29,6 +29,8 @@ import { WordRevisionService } from "./word-services/word-revision.service";
 import { WordTranslationService } from "./word-services/word-translation.service";
 import { WordCoreService } from "./word-services/word-core.service";
 import { WordPermissionService } from "./word-services/word-permission.service";
+import { SpellingCorrection } from "./word-services/word-spelling.service";
+import { LanguageOrthographyService } from "../../languages/services/language-orthography.service";
 // Import des repositories
 import { IRevisionHistoryRepository } from "../../repositories/interfaces/revision-history.repository.interface";
 import { IWordRepository } from "../../repositories/interfaces/word.repository.interface";
@@ -77,6 +79,7 @@ export class WordsService {
     private wordTranslationService: WordTranslationService,
     private wordCoreService: WordCoreService,
     private wordPermissionService: WordPermissionService,
+    private languageOrthographyService: LanguageOrthographyService,
     // Repositories pour accès direct aux données
     @Inject("IRevisionHistoryRepository")
     private revisionHistoryRepository: IRevisionHistoryRepository,
@@ -165,7 +168,8 @@ export class WordsService {
     status = "approved",
     language?: string,
     categoryId?: string,
-    userId?: string
+    userId?: string,
+    variantId?: string
   ): Promise<{
     words: Word[];
     total: number;
@@ -179,7 +183,8 @@ export class WordsService {
       status,
       language,
       categoryId,
-      userId
+      userId,
+      variantId
     );
   }
 
@@ -316,9 +321,16 @@ export class WordsService {
     wordId: string,
     accent: string,
     fileBuffer: Buffer,
-    user: User
+    user: User,
+    variantId?: string
   ): Promise<Word> {
-    return this.wordAudioService.addAudioFile(wordId, accent, fileBuffer, user);
+    return this.wordAudioService.addAudioFile(
+      wordId,
+      accent,
+      fileBuffer,
+      user,
+      variantId
+    );
   }
 
   // PHASE 2-1: DÉLÉGATION COMPLÈTE vers WordPermissionService
@@ -756,6 +768,7 @@ export class WordsService {
     total: number;
     page: number;
     limit: number;
+    didYouMean?: SpellingCorrection[];
   }> {
     return this.wordCoreService.search(searchDto, userId);
   }
@@ -1515,6 +1528,14 @@ export class WordsService {
       throw new NotFoundException(`Mot avec l'ID ${wordId} non trouvé`);
     }
 
+    // Normaliser et valider les graphies selon le profil de la langue
+    const languageRef: any = word.languageId;
+    await this.languageOrthographyService.applyToWord(
+      languageRef?._id ? String(languageRef._id) : languageRef?.toString(),
+      changes,
+      word.language
+    );
+
     // Vérifier les permissions de modification
     // Les utilisateurs peuvent proposer des révisions, mais les admins/modérateurs peuvent directement approuver
     let status: "pending" | "approved" = "pending";
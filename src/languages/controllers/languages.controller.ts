@@ -23,6 +23,7 @@ import {
   Query,
   BadRequestException,
   ForbiddenException,
+  StreamableFile,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -34,13 +35,33 @@ import {
 } from '@nestjs/swagger';
 import { LanguagesService } from '../services/languages.service';
 import { LanguageMigrationService } from '../migration/language-migration.service';
+import { LanguageExportService } from '../services/language-export.service';
+import {
+  LanguageVariantsService,
+  VariantComparison,
+} from '../services/language-variants.service';
+import {
+  LanguageOrthographyService,
+  OrthographyViolationsReport,
+} from '../services/language-orthography.service';
+import { LEXICON_EXPORT_FORMATS } from '../services/export/lexicon-export.types';
 import {
   CreateLanguageDto,
   ApproveLanguageDto,
   RejectLanguageDto,
 } from '../dto/create-language.dto';
+import { UpdateLanguageMorphologyDto } from '../dto/language-morphology.dto';
+import {
+  OrthographyViolationsQueryDto,
+  UpdateLanguageOrthographyDto,
+} from '../dto/language-orthography.dto';
+import { UpdateLanguageTransliterationsDto } from '../dto/language-transliteration.dto';
 import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../../common/guards/roles.guard';
+import {
+  RateLimit,
+  RateLimitGuard,
+} from '../../common/guards/rate-limit.guard';
 import { Roles } from '../../common/decorators/roles.decorator';
 import { Language } from '../schemas/language.schema';
 import { User } from '../../users/schemas/user.schema';
@@ -67,7 +88,9 @@ interface RequestWithUser {
  * ### 🌍 Endpoints publics
  * - Consultation des langues actives et africaines
  * - Recherche et filtrage par région
- * - Statistiques publiques des langues
+ * - Statistiques publiques des langues (dont mots par variante dialectale)
+ * - Comparaison d'un concept entre les variantes d'une langue
+ * - Export du lexique d'une langue (LIFT, TEI Lex-0, CSV, JSON, Anki)
  * 
  * ### 🔐 Endpoints authentifiés
  * - Proposition de nouvelles langues (contributeurs+)
@@ -76,6 +99,7 @@ interface RequestWithUser {
  * ### 👑 Endpoints administratifs
  * - Approbation/rejet des langues proposées
  * - Gestion du workflow de validation
+ * - Règles morphologiques (classes nominales, paradigmes verbaux)
  * - Accès aux langues en attente
  * 
  * ### 🔧 Endpoints de migration (superadmin)
@@ -92,6 +116,9 @@ export class LanguagesController {
   constructor(
     private readonly languagesService: LanguagesService,
     private readonly migrationService: LanguageMigrationService,
+    private readonly languageExportService: LanguageExportService,
+    private readonly languageVariantsService: LanguageVariantsService,
+    private readonly languageOrthographyService: LanguageOrthographyService,
   ) {}
 
   // ===== ENDPOINTS PUBLICS =====
@@ -210,6 +237,84 @@ export class LanguagesController {
     return this.languagesService.getLanguageById(id);
   }
 
+  @Get(':id/export')
+  @ApiOperation({
+    summary: "Exporter le lexique d'une langue",
+    description:
+      'Télécharge tous les mots approuvés de la langue (sens, exemples, phonétique, audio, traductions), générés au fil de l\'eau',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID de la langue',
+    example: '60a1b2c3d4e5f6a7b8c9d0e1',
+  })
+  @ApiQuery({
+    name: 'format',
+    required: false,
+    enum: LEXICON_EXPORT_FORMATS,
+    description:
+      'lift (SIL LIFT), tei (TEI Lex-0), csv, json (défaut) ou apkg (paquet Anki)',
+  })
+  @ApiQuery({
+    name: 'metaLanguage',
+    required: false,
+    description: 'Code de la langue des définitions (défaut : fr)',
+    example: 'fr',
+  })
+  @ApiResponse({ status: 200, description: 'Fichier exporté' })
+  @ApiResponse({ status: 400, description: 'Format non supporté' })
+  @ApiResponse({ status: 404, description: 'Langue non trouvée' })
+  @ApiResponse({ status: 429, description: "Trop d'exports, réessayer plus tard" })
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ category: 'sensitive' })
+  async exportLexicon(
+    @Param('id') id: string,
+    @Query('format') format = 'json',
+    @Query('metaLanguage') metaLanguage?: string,
+  ): Promise<StreamableFile> {
+    const file = await this.languageExportService.export(id, format, {
+      metaLanguage,
+    });
+    return new StreamableFile(file.stream, {
+      type: file.contentType,
+      disposition: `attachment; filename="${file.fileName}"`,
+    });
+  }
+
+  @Get(':id/variants/compare')
+  @ApiOperation({
+    summary: "Comparer un concept entre les variantes d'une langue",
+    description:
+      'Formes, prononciations et audios du concept dans chaque variante dialectale (carte d\'isoglosses)',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID de la langue',
+    example: '60a1b2c3d4e5f6a7b8c9d0e1',
+  })
+  @ApiQuery({
+    name: 'wordId',
+    required: false,
+    description:
+      'Mot de référence (ses formes dialectales et les mots reliés en variant-of)',
+  })
+  @ApiQuery({
+    name: 'gloss',
+    required: false,
+    description: 'Traduction du concept recherchée dans les mots de la langue',
+    example: 'mortier',
+  })
+  @ApiResponse({ status: 200, description: 'Formes par variante' })
+  @ApiResponse({ status: 400, description: 'Ni mot ni glose fournis' })
+  @ApiResponse({ status: 404, description: 'Langue non trouvée' })
+  async compareVariants(
+    @Param('id') id: string,
+    @Query('wordId') wordId?: string,
+    @Query('gloss') gloss?: string,
+  ): Promise<VariantComparison> {
+    return this.languageVariantsService.compare(id, { wordId, gloss });
+  }
+
   // ===== ENDPOINTS UTILISATEURS AUTHENTIFIÉS =====
 
   @Post('propose')
@@ -319,6 +424,116 @@ export class LanguagesController {
     return this.languagesService.rejectLanguage(id, rejectDto, req.user);
   }
 
+  @Patch(':id/morphology')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin', 'superadmin')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Définir les règles morphologiques d'une langue (admin)",
+    description:
+      'Classes nominales appariées singulier/pluriel et paradigmes verbaux utilisés pour générer les flexions des mots ; les formes fléchies indexées sont recalculées',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la langue' })
+  @ApiResponse({
+    status: 200,
+    description: 'Règles enregistrées et mots réindexés',
+  })
+  @ApiResponse({ status: 400, description: 'Règles incohérentes' })
+  @ApiResponse({ status: 403, description: 'Permissions insuffisantes' })
+  @ApiResponse({ status: 404, description: 'Langue non trouvée' })
+  async updateMorphology(
+    @Param('id') id: string,
+    @Body() morphologyDto: UpdateLanguageMorphologyDto,
+    @Request() req: RequestWithUser,
+  ): Promise<{ language: Language; reindexedWords: number }> {
+    return this.languagesService.updateMorphology(id, morphologyDto, req.user);
+  }
+
+  @Patch(':id/orthography')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin', 'superadmin')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Définir le profil orthographique d'une langue (admin)",
+    description:
+      'Écriture, alphabet, diacritiques de ton et normalisation Unicode contre lesquels sont validés les mots créés ou modifiés',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la langue' })
+  @ApiResponse({
+    status: 200,
+    description: 'Profil enregistré',
+    type: Language,
+  })
+  @ApiResponse({ status: 400, description: 'Profil incohérent' })
+  @ApiResponse({ status: 403, description: 'Permissions insuffisantes' })
+  @ApiResponse({ status: 404, description: 'Langue non trouvée' })
+  async updateOrthography(
+    @Param('id') id: string,
+    @Body() orthographyDto: UpdateLanguageOrthographyDto,
+    @Request() req: RequestWithUser,
+  ): Promise<Language> {
+    return this.languagesService.updateOrthography(
+      id,
+      orthographyDto,
+      req.user,
+    );
+  }
+
+  @Patch(':id/transliterations')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin', 'superadmin')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Définir les tables de translittération d'une langue (admin)",
+    description:
+      'Correspondances entre les écritures déclarées de la langue ; les graphies des mots dans chaque écriture sont recalculées',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la langue' })
+  @ApiResponse({
+    status: 200,
+    description: 'Tables enregistrées et mots réindexés',
+  })
+  @ApiResponse({ status: 400, description: 'Tables incohérentes' })
+  @ApiResponse({ status: 403, description: 'Permissions insuffisantes' })
+  @ApiResponse({ status: 404, description: 'Langue non trouvée' })
+  async updateTransliterations(
+    @Param('id') id: string,
+    @Body() transliterationsDto: UpdateLanguageTransliterationsDto,
+    @Request() req: RequestWithUser,
+  ): Promise<{ language: Language; reindexedWords: number }> {
+    return this.languagesService.updateTransliterations(
+      id,
+      transliterationsDto,
+      req.user,
+    );
+  }
+
+  @Get(':id/orthography/violations')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin', 'superadmin')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Mots non conformes au profil orthographique (admin)',
+    description:
+      'Examine les mots de la langue par lots et détaille, champ par champ, les caractères hors profil et les graphies non normalisées',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la langue' })
+  @ApiResponse({ status: 200, description: 'Page du rapport' })
+  @ApiResponse({
+    status: 400,
+    description: 'Aucun profil orthographique défini',
+  })
+  @ApiResponse({ status: 404, description: 'Langue non trouvée' })
+  async getOrthographyViolations(
+    @Param('id') id: string,
+    @Query() query: OrthographyViolationsQueryDto,
+  ): Promise<OrthographyViolationsReport> {
+    return this.languageOrthographyService.findViolations(id, {
+      cursor: query.cursor,
+      limit: query.limit ?? 200,
+    });
+  }
+
   // ===== ENDPOINTS DE MIGRATION (SUPERADMIN UNIQUEMENT) =====
 
   @Post('migration/seed')
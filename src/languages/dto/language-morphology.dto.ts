@@ -0,0 +1,182 @@
+/**
+ * @fileoverview DTOs des règles morphologiques d'une langue O'Ypunu
+ *
+ * Ces DTOs décrivent le système de classes nominales et les paradigmes
+ * verbaux d'une langue, à partir desquels sont générés les pluriels et
+ * les tables de conjugaison des mots.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class NounClassDto {
+  @ApiProperty({ description: 'Code de la classe', example: '1' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(10)
+  code: string;
+
+  @ApiProperty({
+    description: 'Préfixe de classe (vide pour une classe sans préfixe)',
+    example: 'mu',
+  })
+  @IsString()
+  @MaxLength(20)
+  prefix: string;
+
+  @ApiProperty({
+    description: 'Allomorphe du préfixe devant une voyelle',
+    example: 'mw',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  prefixBeforeVowel?: string;
+
+  @ApiProperty({
+    description: 'Classe du pluriel appariée',
+    example: '2',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(10)
+  pluralClass?: string;
+
+  @ApiProperty({ description: 'Libellé', example: 'humains', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  label?: string;
+}
+
+export class ParadigmCellDto {
+  @ApiProperty({ description: 'Clé de la case', example: '1sg' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  key: string;
+
+  @ApiProperty({ description: 'Libellé', example: 'je', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  label?: string;
+
+  @ApiProperty({
+    description: 'Préfixe (sujet, temps...)',
+    example: 'nina',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(30)
+  prefix?: string;
+
+  @ApiProperty({
+    description: 'Allomorphe du préfixe devant une voyelle',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(30)
+  prefixBeforeVowel?: string;
+
+  @ApiProperty({ description: 'Suffixe', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(30)
+  suffix?: string;
+
+  @ApiProperty({
+    description: 'Voyelle finale remplaçant celle du radical',
+    example: 'i',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(5)
+  finalVowel?: string;
+}
+
+export class VerbParadigmDto {
+  @ApiProperty({ description: 'Nom du paradigme', example: 'present' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  name: string;
+
+  @ApiProperty({ description: 'Libellé', example: 'Présent', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  label?: string;
+
+  @ApiProperty({ type: [ParadigmCellDto] })
+  @IsArray()
+  @ArrayMaxSize(30)
+  @ValidateNested({ each: true })
+  @Type(() => ParadigmCellDto)
+  cells: ParadigmCellDto[];
+}
+
+/**
+ * DTO de mise à jour des règles morphologiques d'une langue
+ *
+ * Remplace l'ensemble des règles ; les formes fléchies des mots de la
+ * langue sont ensuite recalculées.
+ *
+ * @class UpdateLanguageMorphologyDto
+ * @version 1.0.0
+ */
+export class UpdateLanguageMorphologyDto {
+  @ApiProperty({
+    description: 'Classes nominales',
+    type: [NounClassDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(30)
+  @ValidateNested({ each: true })
+  @Type(() => NounClassDto)
+  nounClasses?: NounClassDto[];
+
+  @ApiProperty({
+    description: "Préfixes d'infinitif retirés pour obtenir le radical verbal",
+    example: ['ku'],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsString({ each: true })
+  @MaxLength(20, { each: true })
+  verbInfinitivePrefixes?: string[];
+
+  @ApiProperty({
+    description: 'Paradigmes verbaux',
+    type: [VerbParadigmDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(30)
+  @ValidateNested({ each: true })
+  @Type(() => VerbParadigmDto)
+  verbParadigms?: VerbParadigmDto[];
+}
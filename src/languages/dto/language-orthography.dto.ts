@@ -0,0 +1,120 @@
+/**
+ * @fileoverview DTOs du profil orthographique d'une langue O'Ypunu
+ *
+ * Ces DTOs décrivent l'écriture, l'alphabet et les diacritiques de ton
+ * admis pour une langue, contre lesquels sont validés et normalisés les
+ * mots soumis, ainsi que le rapport des mots existants non conformes.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO de mise à jour du profil orthographique d'une langue
+ *
+ * Remplace l'ensemble du profil ; un alphabet vide désactive le contrôle
+ * des lettres, la normalisation Unicode restant appliquée.
+ *
+ * @class UpdateLanguageOrthographyDto
+ * @version 1.0.0
+ */
+export class UpdateLanguageOrthographyDto {
+  @ApiProperty({
+    description: "Code de l'écriture, parmi les scripts de la langue",
+    example: 'Latn',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(10)
+  scriptCode?: string;
+
+  @ApiProperty({
+    description: 'Lettres et digrammes autorisés (minuscules)',
+    example: ['a', 'b', 'mb', 'ɛ', 'ŋ'],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(200)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  @MaxLength(5, { each: true })
+  graphemes?: string[];
+
+  @ApiProperty({
+    description: 'Diacritiques combinants notant le ton',
+    example: ['\u0301', '\u0300'],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MaxLength(1, { each: true })
+  toneDiacritics?: string[];
+
+  @ApiProperty({
+    description: 'Signes admis entre les lettres en plus des espaces',
+    example: ['-', "'"],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MaxLength(1, { each: true })
+  punctuation?: string[];
+
+  @ApiProperty({
+    description: 'Forme de normalisation Unicode stockée',
+    enum: ['NFC', 'NFD'],
+    default: 'NFC',
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(['NFC', 'NFD'])
+  normalization?: 'NFC' | 'NFD';
+}
+
+/**
+ * Paramètres du rapport des mots non conformes
+ */
+export class OrthographyViolationsQueryDto {
+  @ApiProperty({
+    description: 'Curseur renvoyé par la page précédente',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @ApiProperty({
+    description: 'Nombre de mots examinés par page',
+    default: 200,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  limit?: number = 200;
+}
@@ -0,0 +1,91 @@
+/**
+ * @fileoverview DTOs des tables de translittération d'une langue O'Ypunu
+ *
+ * Ces DTOs décrivent les correspondances entre les écritures déclarées
+ * d'une langue (latin, ajami, tifinagh, n'ko, ge'ez...), à partir
+ * desquelles sont générées les graphies des mots dans chaque écriture.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TransliterationRuleDto {
+  @ApiProperty({ description: 'Séquence de la source', example: 'ny' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(10)
+  source: string;
+
+  @ApiProperty({ description: 'Séquence cible', example: 'ߢ' })
+  @IsString()
+  @MaxLength(10)
+  target: string;
+}
+
+export class TransliterationTableDto {
+  @ApiProperty({ description: "Code de l'écriture source", example: 'Latn' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(10)
+  fromScript: string;
+
+  @ApiProperty({ description: "Code de l'écriture cible", example: 'Nkoo' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(10)
+  toScript: string;
+
+  @ApiProperty({
+    description: 'Correspondances',
+    type: [TransliterationRuleDto],
+  })
+  @IsArray()
+  @ArrayMaxSize(500)
+  @ValidateNested({ each: true })
+  @Type(() => TransliterationRuleDto)
+  rules: TransliterationRuleDto[];
+
+  @ApiProperty({
+    description: "La table inversée sert aussi dans l'autre sens",
+    default: false,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  reversible?: boolean;
+}
+
+/**
+ * DTO de mise à jour des tables de translittération d'une langue
+ *
+ * Remplace l'ensemble des tables ; les graphies des mots de la langue
+ * dans les autres écritures sont ensuite recalculées.
+ *
+ * @class UpdateLanguageTransliterationsDto
+ * @version 1.0.0
+ */
+export class UpdateLanguageTransliterationsDto {
+  @ApiProperty({
+    description: 'Tables de translittération',
+    type: [TransliterationTableDto],
+  })
+  @IsArray()
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => TransliterationTableDto)
+  tables: TransliterationTableDto[];
+}
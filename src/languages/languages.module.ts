@@ -16,9 +16,13 @@ import { Language, LanguageSchema } from './schemas/language.schema';
 import { Word, WordSchema } from '../dictionary/schemas/word.schema';
 import { User, UserSchema } from '../users/schemas/user.schema';
 import { LanguagesService } from './services/languages.service';
+import { LanguageExportService } from './services/language-export.service';
+import { LanguageVariantsService } from './services/language-variants.service';
+import { LanguageOrthographyService } from './services/language-orthography.service';
 import { LanguagesController } from './controllers/languages.controller';
 import { LanguageMigrationService } from './migration/language-migration.service';
 import { RepositoriesModule } from '../repositories/repositories.module';
+import { ActivityModule } from '../common/activity.module';
 
 /**
  * Module de gestion complète des langues O'Ypunu
@@ -34,6 +38,9 @@ import { RepositoriesModule } from '../repositories/repositories.module';
  * ## 📊 Architecture modulaire :
  * - **Controller** : LanguagesController - Endpoints API publics
  * - **Service** : LanguagesService - Logique métier et validation
+ * - **Export** : LanguageExportService - Export du lexique (LIFT, TEI, CSV, JSON, Anki)
+ * - **Variantes** : LanguageVariantsService - Variantes dialectales et comparaison
+ * - **Orthographe** : LanguageOrthographyService - Validation et normalisation des graphies
  * - **Migration** : LanguageMigrationService - Outils de migration
  * - **Repository** : Via RepositoriesModule - Couche d'accès aux données
  * 
@@ -63,9 +70,21 @@ import { RepositoriesModule } from '../repositories/repositories.module';
       { name: User.name, schema: UserSchema },
     ]),
     RepositoriesModule,
+    ActivityModule, // Limitation de taux de l'export du lexique
   ],
   controllers: [LanguagesController],
-  providers: [LanguagesService, LanguageMigrationService],
-  exports: [LanguagesService, LanguageMigrationService],
+  providers: [
+    LanguagesService,
+    LanguageMigrationService,
+    LanguageExportService,
+    LanguageVariantsService,
+    LanguageOrthographyService,
+  ],
+  exports: [
+    LanguagesService,
+    LanguageMigrationService,
+    LanguageVariantsService,
+    LanguageOrthographyService,
+  ],
 })
 export class LanguagesModule {}
@@ -63,6 +63,144 @@ export class LanguageScript {
   isDefault: boolean; // Script principal pour cette langue
 }
 
+/**
+ * Classe nominale (systèmes bantous)
+ *
+ * @class NounClassDefinition
+ * @version 1.0.0
+ */
+@Schema({ _id: false })
+export class NounClassDefinition {
+  @Prop({ required: true })
+  code: string; // Ex: "1", "7", "9a"
+
+  @Prop({ default: '' })
+  prefix: string; // Ex: "mu", "ki" (vide pour les classes sans préfixe)
+
+  @Prop()
+  prefixBeforeVowel?: string; // Ex: "mw" devant un radical à initiale vocalique
+
+  @Prop()
+  pluralClass?: string; // Classe du pluriel appariée - Ex: "2" pour la classe 1
+
+  @Prop()
+  label?: string; // Ex: "humains"
+}
+
+/**
+ * Case d'un paradigme verbal : affixes appliqués au radical
+ */
+@Schema({ _id: false })
+export class ParadigmCellDefinition {
+  @Prop({ required: true })
+  key: string; // Ex: "1sg", "3pl"
+
+  @Prop()
+  label?: string; // Ex: "je", "ils"
+
+  @Prop({ default: '' })
+  prefix: string; // Ex: "nina" (sujet + temps)
+
+  @Prop()
+  prefixBeforeVowel?: string;
+
+  @Prop()
+  suffix?: string;
+
+  @Prop()
+  finalVowel?: string; // Remplace la voyelle finale du radical
+}
+
+/**
+ * Paradigme verbal (temps, aspect ou mode)
+ */
+@Schema({ _id: false })
+export class VerbParadigmDefinition {
+  @Prop({ required: true })
+  name: string; // Ex: "present"
+
+  @Prop()
+  label?: string; // Ex: "Présent"
+
+  @Prop({ type: [ParadigmCellDefinition], default: [] })
+  cells: ParadigmCellDefinition[];
+}
+
+/**
+ * Règles morphologiques d'une langue, utilisées par le générateur de
+ * flexions (`GET /words/:id/paradigm`, résolution des formes fléchies)
+ *
+ * @see InflectionGenerator
+ */
+@Schema({ _id: false })
+export class LanguageMorphology {
+  @Prop({ type: [NounClassDefinition], default: [] })
+  nounClasses: NounClassDefinition[];
+
+  @Prop({ type: [String], default: [] })
+  verbInfinitivePrefixes: string[]; // Ex: ["ku"] en swahili, ["ko"] en lingala
+
+  @Prop({ type: [VerbParadigmDefinition], default: [] })
+  verbParadigms: VerbParadigmDefinition[];
+}
+
+/**
+ * Profil orthographique d'une langue : écriture, alphabet et tons admis,
+ * appliqué à la création et à la modification des mots
+ *
+ * @see Orthography
+ */
+@Schema({ _id: false })
+export class LanguageOrthography {
+  @Prop()
+  scriptCode?: string; // Code de l'un des `scripts` - Ex: "Latn"
+
+  @Prop({ type: [String], default: [] })
+  graphemes: string[]; // Lettres et digrammes - Ex: ["a", "b", "mb", "ɛ"]
+
+  @Prop({ type: [String], default: [] })
+  toneDiacritics: string[]; // Diacritiques combinants - Ex: ["\u0301", "\u0300"]
+
+  @Prop({ type: [String], default: [] })
+  punctuation: string[]; // Signes admis en plus des espaces - Ex: ["-", "'"]
+
+  @Prop({ default: 'NFC', enum: ['NFC', 'NFD'] })
+  normalization: string; // Forme Unicode stockée
+}
+
+/**
+ * Correspondance d'une table de translittération
+ */
+@Schema({ _id: false })
+export class TransliterationRuleDefinition {
+  @Prop({ required: true })
+  source: string; // Ex: "ny"
+
+  @Prop({ required: true })
+  target: string; // Ex: "ߢ"
+}
+
+/**
+ * Table de translittération entre deux écritures de la langue, utilisée
+ * pour générer les graphies des mots dans les autres écritures
+ *
+ * @see Transliterator
+ */
+@Schema({ _id: false })
+export class LanguageTransliteration {
+  @Prop({ required: true })
+  fromScript: string; // Code de l'un des `scripts` - Ex: "Latn"
+
+  @Prop({ required: true })
+  toScript: string; // Ex: "Nkoo"
+
+  @Prop({ type: [TransliterationRuleDefinition], default: [] })
+  rules: TransliterationRuleDefinition[];
+
+  @Prop({ default: false })
+  reversible: boolean; // La table inversée sert aussi dans l'autre sens
+}
+
 @Schema({ timestamps: true })
 export class Language {
   @Prop({ required: true, unique: true, index: true })
@@ -95,6 +233,15 @@ export class Language {
   @Prop({ type: [LanguageScript], default: [] })
   scripts: LanguageScript[]; // Scripts d'écriture supportés
 
+  @Prop({ type: LanguageMorphology })
+  morphology?: LanguageMorphology; // Classes nominales et paradigmes verbaux
+
+  @Prop({ type: LanguageOrthography })
+  orthography?: LanguageOrthography; // Alphabet, tons et normalisation Unicode
+
+  @Prop({ type: [LanguageTransliteration], default: [] })
+  transliterations: LanguageTransliteration[]; // Tables entre les écritures de la langue
+
   @Prop({
     required: true,
     enum: ['major', 'regional', 'local', 'liturgical', 'extinct'],
@@ -0,0 +1,66 @@
+import { LexiconExportEntry } from "./lexicon-export.types";
+
+/**
+ * Code ISO 639 le plus court disponible pour une langue (BCP 47)
+ */
+export function exportLanguageCode(language: any, fallback = ""): string {
+  if (!language || typeof language !== "object") {
+    return fallback;
+  }
+  return (
+    language.iso639_1 || language.iso639_3 || language.iso639_2 || fallback
+  );
+}
+
+/**
+ * Convertit un mot (document lean, traductions populées) en entrée d'export
+ */
+export function toLexiconExportEntry(word: any): LexiconExportEntry {
+  const audioFiles =
+    word.audioFiles instanceof Map
+      ? Object.fromEntries(word.audioFiles)
+      : word.audioFiles || {};
+
+  return {
+    id: String(word._id),
+    word: word.word,
+    pronunciation: word.pronunciation || undefined,
+    etymology: word.etymology || undefined,
+    meanings: (word.meanings || []).map((meaning: any) => ({
+      partOfSpeech: meaning.partOfSpeech,
+      definitions: (meaning.definitions || []).map((definition: any) => ({
+        definition: definition.definition,
+        examples: definition.examples || [],
+      })),
+      synonyms: meaning.synonyms || [],
+      antonyms: meaning.antonyms || [],
+      examples: meaning.examples || [],
+      phonetics: (meaning.phonetics || [])
+        .filter((phonetic: any) => phonetic?.text)
+        .map((phonetic: any) => ({
+          text: phonetic.text,
+          audioUrl: phonetic.audio?.url || undefined,
+        })),
+    })),
+    audio: Object.entries(audioFiles)
+      .filter(([, file]: [string, any]) => file?.url)
+      .map(([accent, file]: [string, any]) => ({
+        accent: file.accent || accent,
+        url: file.url,
+      })),
+    translations: (word.translations || [])
+      .map((translation: any) => ({
+        language: exportLanguageCode(
+          translation.languageId,
+          translation.language || ""
+        ),
+        translatedWord: translation.translatedWord,
+        context: translation.context || [],
+      }))
+      .filter(
+        (translation) => translation.language && translation.translatedWord
+      ),
+    createdAt: word.createdAt,
+    updatedAt: word.updatedAt,
+  };
+}
@@ -0,0 +1,79 @@
+/**
+ * @fileoverview Types partagés par l'export de lexiques
+ *
+ * Les mots approuvés d'une langue sont lus par curseur, convertis en
+ * `LexiconExportEntry` (format pivot indépendant du schéma Mongo), puis
+ * sérialisés au fil de l'eau par l'écrivain du format demandé.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+export type LexiconExportFormat = "lift" | "tei" | "csv" | "json" | "apkg";
+
+export const LEXICON_EXPORT_FORMATS: LexiconExportFormat[] = [
+  "lift",
+  "tei",
+  "csv",
+  "json",
+  "apkg",
+];
+
+/**
+ * Mot exporté
+ */
+export interface LexiconExportEntry {
+  id: string;
+  word: string;
+  pronunciation?: string;
+  etymology?: string;
+  meanings: Array<{
+    partOfSpeech: string;
+    definitions: Array<{ definition: string; examples: string[] }>;
+    synonyms: string[];
+    antonyms: string[];
+    examples: string[];
+    phonetics: Array<{ text: string; audioUrl?: string }>;
+  }>;
+  /** Enregistrements audio du mot, par accent */
+  audio: Array<{ accent: string; url: string }>;
+  translations: Array<{
+    /** Code ISO 639 de la langue cible */
+    language: string;
+    translatedWord: string;
+    context: string[];
+  }>;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Informations communes à tout le fichier exporté
+ */
+export interface LexiconExportContext {
+  language: {
+    id: string;
+    name: string;
+    /** Code ISO 639 utilisé dans les attributs de langue (`lang`, `xml:lang`) */
+    code: string;
+  };
+  /** Langue des définitions (métalangue), "fr" par défaut */
+  metaLanguage: string;
+  exportedAt: Date;
+}
+
+/**
+ * Écrivain d'un format d'export
+ *
+ * `write` produit le fichier morceau par morceau à mesure que les mots
+ * arrivent du curseur.
+ */
+export interface LexiconExportWriter {
+  readonly contentType: string;
+  readonly extension: string;
+  write(
+    context: LexiconExportContext,
+    entries: AsyncIterable<LexiconExportEntry>
+  ): AsyncGenerator<string | Buffer>;
+}
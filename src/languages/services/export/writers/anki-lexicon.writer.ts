@@ -0,0 +1,307 @@
+import { createHash } from "crypto";
+import initSqlJs from "sql.js";
+import { XmlParser } from "../../../../common/utils/xml-parser.util";
+import { ZipUtil } from "../../../../common/utils/zip.util";
+import {
+  LexiconExportContext,
+  LexiconExportEntry,
+  LexiconExportWriter,
+} from "../lexicon-export.types";
+
+/**
+ * Export de paquet Anki (.apkg) : archive ZIP contenant une collection
+ * SQLite (schéma v11, lisible par toutes les versions d'Anki) et un
+ * index de médias vide.
+ *
+ * Un paquet ne pouvant être émis avant d'être complet, les mots du
+ * curseur sont insérés un à un dans la base SQLite en mémoire et
+ * l'archive n'est produite qu'à la fin. Une note par mot, une carte
+ * "mot → définitions" par note ; le GUID de la note est l'ID du mot afin
+ * qu'un nouvel export mette à jour les cartes existantes au lieu de les
+ * dupliquer.
+ */
+export class AnkiLexiconWriter implements LexiconExportWriter {
+  readonly contentType = "application/apkg";
+  readonly extension = "apkg";
+
+  /** ID fixe du modèle de note O'Ypunu (stable entre les exports) */
+  static readonly MODEL_ID = 1735689600000;
+
+  static readonly FIELDS = [
+    "Mot",
+    "Prononciation",
+    "Définitions",
+    "Traductions",
+    "Audio",
+  ];
+
+  private static readonly SCHEMA = `
+    CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+    CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+    CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+    CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+    CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+    CREATE INDEX ix_notes_usn on notes (usn);
+    CREATE INDEX ix_cards_usn on cards (usn);
+    CREATE INDEX ix_revlog_usn on revlog (usn);
+    CREATE INDEX ix_cards_nid on cards (nid);
+    CREATE INDEX ix_cards_sched on cards (did, queue, due);
+    CREATE INDEX ix_revlog_cid on revlog (cid);
+    CREATE INDEX ix_notes_csum on notes (csum);
+  `;
+
+  async *write(
+    context: LexiconExportContext,
+    entries: AsyncIterable<LexiconExportEntry>
+  ): AsyncGenerator<Buffer> {
+    const SQL = await initSqlJs();
+    const db = new SQL.Database();
+
+    try {
+      const now = context.exportedAt.getTime();
+      const seconds = Math.floor(now / 1000);
+      const deckId = now;
+
+      db.exec(AnkiLexiconWriter.SCHEMA);
+      db.run(
+        "INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, '{}')",
+        [
+          seconds,
+          now,
+          now,
+          JSON.stringify(this.collectionConfig(deckId)),
+          JSON.stringify(this.models(deckId, seconds)),
+          JSON.stringify(this.decks(context, deckId, seconds)),
+          JSON.stringify(this.deckConfigs()),
+        ]
+      );
+
+      const insertNote = db.prepare(
+        "INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, '')"
+      );
+      const insertCard = db.prepare(
+        "INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, '')"
+      );
+      const tags = ` oypunu ${context.language.code} `;
+
+      let position = 0;
+      for await (const entry of entries) {
+        position++;
+        const id = now + position;
+        const fields = this.fields(entry);
+        insertNote.run([
+          id,
+          entry.id,
+          AnkiLexiconWriter.MODEL_ID,
+          seconds,
+          tags,
+          fields.join("\x1f"),
+          entry.word,
+          this.checksum(entry.word),
+        ]);
+        insertCard.run([id, id, deckId, seconds, position]);
+      }
+      insertNote.free();
+      insertCard.free();
+
+      const collection = Buffer.from(db.export());
+      yield ZipUtil.create(
+        [
+          { name: "collection.anki2", data: collection },
+          { name: "media", data: Buffer.from("{}") },
+        ],
+        context.exportedAt
+      );
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * Champs de la note, dans l'ordre de `FIELDS` (HTML)
+   */
+  private fields(entry: LexiconExportEntry): string[] {
+    const html = (text: string) => XmlParser.escape(text);
+    const pronunciation =
+      entry.pronunciation ||
+      entry.meanings.flatMap((meaning) => meaning.phonetics)[0]?.text ||
+      "";
+
+    const definitions = entry.meanings
+      .map((meaning) => {
+        const items = meaning.definitions
+          .map((definition) => {
+            const examples = definition.examples
+              .map((example) => `<br><i>${html(example)}</i>`)
+              .join("");
+            return `<li>${html(definition.definition)}${examples}</li>`;
+          })
+          .join("");
+        return `<div><b>${html(meaning.partOfSpeech)}</b><ol>${items}</ol></div>`;
+      })
+      .join("");
+
+    const translations = entry.translations
+      .map(
+        (translation) =>
+          `${html(translation.language)} : ${html(translation.translatedWord)}`
+      )
+      .join("<br>");
+
+    const audio = entry.audio
+      .map((file) => `<a href="${html(file.url)}">${html(file.accent)}</a>`)
+      .join(" · ");
+
+    return [
+      html(entry.word),
+      html(pronunciation),
+      definitions,
+      translations,
+      audio,
+    ];
+  }
+
+  /**
+   * Somme de contrôle Anki : 8 premiers chiffres hexadécimaux du SHA-1
+   * du premier champ
+   */
+  private checksum(text: string): number {
+    return parseInt(
+      createHash("sha1").update(text).digest("hex").slice(0, 8),
+      16
+    );
+  }
+
+  private collectionConfig(deckId: number) {
+    return {
+      nextPos: 1,
+      estTimes: true,
+      activeDecks: [deckId],
+      sortType: "noteFld",
+      timeLim: 0,
+      sortBackwards: false,
+      addToCur: true,
+      curDeck: deckId,
+      newBury: true,
+      newSpread: 0,
+      dueCounts: true,
+      curModel: String(AnkiLexiconWriter.MODEL_ID),
+      collapseTime: 1200,
+    };
+  }
+
+  private models(deckId: number, seconds: number) {
+    const id = AnkiLexiconWriter.MODEL_ID;
+    return {
+      [id]: {
+        id,
+        name: "O'Ypunu - Mot",
+        type: 0,
+        mod: seconds,
+        usn: -1,
+        sortf: 0,
+        did: deckId,
+        tmpls: [
+          {
+            name: "Mot → Définitions",
+            ord: 0,
+            qfmt: '<div class="word">{{Mot}}</div><div class="pron">{{Prononciation}}</div>',
+            afmt: '{{FrontSide}}<hr id="answer">{{Définitions}}<div class="tr">{{Traductions}}</div><div>{{Audio}}</div>',
+            did: null,
+            bqfmt: "",
+            bafmt: "",
+          },
+        ],
+        flds: AnkiLexiconWriter.FIELDS.map((name, ord) => ({
+          name,
+          ord,
+          sticky: false,
+          rtl: false,
+          font: "Arial",
+          size: 20,
+          media: [],
+        })),
+        css: ".card { font-family: Arial; font-size: 20px; text-align: center; }\n.word { font-size: 32px; }\n.pron, .tr { color: #666; }\nol { text-align: left; }",
+        latexPre:
+          "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n",
+        latexPost: "\\end{document}",
+        tags: [],
+        vers: [],
+        req: [[0, "any", [0]]],
+      },
+    };
+  }
+
+  private decks(
+    context: LexiconExportContext,
+    deckId: number,
+    seconds: number
+  ) {
+    const deck = (id: number, name: string, desc: string) => ({
+      id,
+      name,
+      desc,
+      mod: seconds,
+      usn: -1,
+      collapsed: false,
+      browserCollapsed: false,
+      newToday: [0, 0],
+      revToday: [0, 0],
+      lrnToday: [0, 0],
+      timeToday: [0, 0],
+      dyn: 0,
+      extendNew: 10,
+      extendRev: 50,
+      conf: 1,
+    });
+    return {
+      1: deck(1, "Default", ""),
+      [deckId]: deck(
+        deckId,
+        `O'Ypunu::${context.language.name}`,
+        `Vocabulaire ${context.language.name} exporté depuis O'Ypunu`
+      ),
+    };
+  }
+
+  private deckConfigs() {
+    return {
+      1: {
+        id: 1,
+        name: "Default",
+        mod: 0,
+        usn: 0,
+        maxTaken: 60,
+        autoplay: true,
+        timer: 0,
+        replayq: true,
+        dyn: false,
+        new: {
+          delays: [1, 10],
+          ints: [1, 4, 7],
+          initialFactor: 2500,
+          order: 1,
+          perDay: 20,
+          separate: true,
+          bury: true,
+        },
+        rev: {
+          perDay: 100,
+          ease4: 1.3,
+          fuzz: 0.05,
+          ivlFct: 1,
+          maxIvl: 36500,
+          minSpace: 1,
+          bury: true,
+        },
+        lapse: {
+          delays: [10],
+          mult: 0,
+          minInt: 1,
+          leechFails: 8,
+          leechAction: 0,
+        },
+      },
+    };
+  }
+}
@@ -0,0 +1,97 @@
+import { CsvUtil } from "../../../../common/utils/csv.util";
+import {
+  LexiconExportContext,
+  LexiconExportEntry,
+  LexiconExportWriter,
+} from "../lexicon-export.types";
+
+/**
+ * Export CSV : une ligne par définition
+ *
+ * Les colonnes reprennent celles acceptées par l'import CSV
+ * (`POST /words-import`), de sorte qu'un export puisse être réimporté.
+ * Traductions et audio ne figurent que sur la première ligne du mot.
+ */
+export class CsvLexiconWriter implements LexiconExportWriter {
+  readonly contentType = "text/csv; charset=utf-8";
+  readonly extension = "csv";
+
+  static readonly COLUMNS = [
+    "word",
+    "language",
+    "pronunciation",
+    "etymology",
+    "part_of_speech",
+    "definition",
+    "examples",
+    "synonyms",
+    "antonyms",
+    "translations",
+    "audio",
+  ];
+
+  async *write(
+    context: LexiconExportContext,
+    entries: AsyncIterable<LexiconExportEntry>
+  ): AsyncGenerator<string> {
+    // BOM pour que les tableurs détectent l'UTF-8
+    yield "\ufeff" + CsvUtil.formatRow(CsvLexiconWriter.COLUMNS);
+
+    for await (const entry of entries) {
+      yield this.definitionRows(entry)
+        .map((row, index) =>
+          CsvUtil.formatRow([
+            entry.word,
+            context.language.code,
+            entry.pronunciation || this.firstPhonetic(entry),
+            entry.etymology,
+            ...row,
+            index === 0 ? this.translations(entry) : "",
+            index === 0
+              ? entry.audio.map((audio) => audio.url).join(" | ")
+              : "",
+          ])
+        )
+        .join("");
+    }
+  }
+
+  /**
+   * Colonnes part_of_speech → antonyms, une ligne par définition
+   */
+  private definitionRows(entry: LexiconExportEntry): string[][] {
+    const rows: string[][] = [];
+    for (const meaning of entry.meanings) {
+      const definitions = meaning.definitions.length
+        ? meaning.definitions
+        : [{ definition: "", examples: [] }];
+      definitions.forEach((definition, index) => {
+        rows.push([
+          meaning.partOfSpeech,
+          definition.definition,
+          [
+            ...definition.examples,
+            ...(index === 0 ? meaning.examples : []),
+          ].join(" | "),
+          meaning.synonyms.join(" | "),
+          meaning.antonyms.join(" | "),
+        ]);
+      });
+    }
+    return rows.length ? rows : [["", "", "", "", ""]];
+  }
+
+  private translations(entry: LexiconExportEntry): string {
+    return entry.translations
+      .map(
+        (translation) => `${translation.language}:${translation.translatedWord}`
+      )
+      .join(" | ");
+  }
+
+  private firstPhonetic(entry: LexiconExportEntry): string {
+    return (
+      entry.meanings.flatMap((meaning) => meaning.phonetics)[0]?.text || ""
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import {
+  LexiconExportContext,
+  LexiconExportEntry,
+  LexiconExportWriter,
+} from "../lexicon-export.types";
+
+/**
+ * Export JSON : `{ language, exportedAt, words: [...], count }`
+ *
+ * Le tableau `words` est écrit mot par mot ; le nombre total figure en fin
+ * de document puisqu'il n'est connu qu'à la fin du curseur.
+ */
+export class JsonLexiconWriter implements LexiconExportWriter {
+  readonly contentType = "application/json; charset=utf-8";
+  readonly extension = "json";
+
+  async *write(
+    context: LexiconExportContext,
+    entries: AsyncIterable<LexiconExportEntry>
+  ): AsyncGenerator<string> {
+    yield `{"language":${JSON.stringify(context.language)},` +
+      `"exportedAt":${JSON.stringify(context.exportedAt.toISOString())},` +
+      `"words":[`;
+
+    let count = 0;
+    for await (const entry of entries) {
+      yield (count > 0 ? "," : "") + JSON.stringify(entry);
+      count++;
+    }
+
+    yield `],"count":${count}}`;
+  }
+}
@@ -0,0 +1,152 @@
+import { XmlParser } from "../../../../common/utils/xml-parser.util";
+import {
+  LexiconExportContext,
+  LexiconExportEntry,
+  LexiconExportWriter,
+} from "../lexicon-export.types";
+
+/**
+ * Export SIL LIFT 0.13 (importable dans FLEx, WeSay, Lexique Pro)
+ *
+ * Une `<sense>` par définition. Les traductions deviennent des `<gloss>`
+ * du premier sens, les transcriptions et enregistrements des
+ * `<pronunciation>` (avec `<media>`), synonymes et antonymes des
+ * `<field>` faute d'identifiant d'entrée cible.
+ */
+export class LiftLexiconWriter implements LexiconExportWriter {
+  readonly contentType = "application/xml; charset=utf-8";
+  readonly extension = "lift";
+
+  async *write(
+    context: LexiconExportContext,
+    entries: AsyncIterable<LexiconExportEntry>
+  ): AsyncGenerator<string> {
+    yield '<?xml version="1.0" encoding="UTF-8"?>\n' +
+      `<lift version="0.13" producer="O'Ypunu">\n`;
+
+    for await (const entry of entries) {
+      yield this.entry(context, entry);
+    }
+
+    yield "</lift>\n";
+  }
+
+  private entry(
+    context: LexiconExportContext,
+    entry: LexiconExportEntry
+  ): string {
+    const lang = context.language.code;
+    const meta = context.metaLanguage;
+    const lines: string[] = [];
+
+    const dates = [
+      entry.createdAt &&
+        ` dateCreated="${new Date(entry.createdAt).toISOString()}"`,
+      entry.updatedAt &&
+        ` dateModified="${new Date(entry.updatedAt).toISOString()}"`,
+    ].filter(Boolean);
+    lines.push(`  <entry id="${this.attr(entry.id)}"${dates.join("")}>`);
+    lines.push(
+      `    <lexical-unit>${this.form(lang, entry.word)}</lexical-unit>`
+    );
+
+    // Transcription → enregistrement éventuel (sans doublon de transcription)
+    const pronunciations = new Map<string, string | undefined>();
+    if (entry.pronunciation) {
+      pronunciations.set(entry.pronunciation, undefined);
+    }
+    for (const meaning of entry.meanings) {
+      for (const phonetic of meaning.phonetics) {
+        if (!pronunciations.get(phonetic.text)) {
+          pronunciations.set(phonetic.text, phonetic.audioUrl);
+        }
+      }
+    }
+    for (const [text, audioUrl] of pronunciations) {
+      lines.push(this.pronunciation(lang, text, audioUrl));
+    }
+    for (const audio of entry.audio) {
+      lines.push(
+        `    <pronunciation><media href="${this.attr(audio.url)}">` +
+          `<label>${this.form(meta, audio.accent)}</label></media></pronunciation>`
+      );
+    }
+
+    if (entry.etymology) {
+      lines.push(
+        `    <etymology type="unspecified" source="">` +
+          `${this.form(meta, entry.etymology)}</etymology>`
+      );
+    }
+
+    let senseIndex = 0;
+    for (const meaning of entry.meanings) {
+      const definitions = meaning.definitions.length
+        ? meaning.definitions
+        : [{ definition: "", examples: [] }];
+
+      definitions.forEach((definition, index) => {
+        senseIndex++;
+        lines.push(`    <sense id="${this.attr(entry.id)}_${senseIndex}">`);
+        lines.push(
+          `      <grammatical-info value="${this.attr(meaning.partOfSpeech)}"/>`
+        );
+        if (senseIndex === 1) {
+          for (const translation of entry.translations) {
+            lines.push(
+              `      <gloss lang="${this.attr(translation.language)}">` +
+                `<text>${XmlParser.escape(translation.translatedWord)}</text></gloss>`
+            );
+          }
+        }
+        if (definition.definition) {
+          lines.push(
+            `      <definition>${this.form(meta, definition.definition)}</definition>`
+          );
+        }
+        const examples = [
+          ...definition.examples,
+          ...(index === 0 ? meaning.examples : []),
+        ];
+        for (const example of examples) {
+          lines.push(`      <example>${this.form(lang, example)}</example>`);
+        }
+        if (index === 0) {
+          for (const synonym of meaning.synonyms) {
+            lines.push(
+              `      <field type="synonym">${this.form(lang, synonym)}</field>`
+            );
+          }
+          for (const antonym of meaning.antonyms) {
+            lines.push(
+              `      <field type="antonym">${this.form(lang, antonym)}</field>`
+            );
+          }
+        }
+        lines.push("    </sense>");
+      });
+    }
+
+    lines.push("  </entry>");
+    return lines.join("\n") + "\n";
+  }
+
+  private pronunciation(lang: string, text: string, audioUrl?: string): string {
+    const media = audioUrl ? `<media href="${this.attr(audioUrl)}"/>` : "";
+    return (
+      `    <pronunciation>${this.form(`${lang}-fonipa`, text)}` +
+      `${media}</pronunciation>`
+    );
+  }
+
+  private form(lang: string, text: string): string {
+    return (
+      `<form lang="${this.attr(lang)}">` +
+      `<text>${XmlParser.escape(text)}</text></form>`
+    );
+  }
+
+  private attr(value: string): string {
+    return XmlParser.escape(value || "");
+  }
+}
@@ -0,0 +1,166 @@
+import { XmlParser } from "../../../../common/utils/xml-parser.util";
+import {
+  LexiconExportContext,
+  LexiconExportEntry,
+  LexiconExportWriter,
+} from "../lexicon-export.types";
+
+/**
+ * Export TEI Lex-0 (format de référence des infrastructures DARIAH /
+ * ELEXIS pour l'archivage de dictionnaires)
+ *
+ * Une `<entry>` par mot, un `<sense>` par définition ; les traductions
+ * sont des `<cit type="translationEquivalent">` du premier sens.
+ */
+export class TeiLexiconWriter implements LexiconExportWriter {
+  readonly contentType = "application/tei+xml; charset=utf-8";
+  readonly extension = "tei.xml";
+
+  private static readonly RELATION_TYPES = {
+    synonyms: "synonymy",
+    antonyms: "antonymy",
+  } as const;
+
+  async *write(
+    context: LexiconExportContext,
+    entries: AsyncIterable<LexiconExportEntry>
+  ): AsyncGenerator<string> {
+    const title = XmlParser.escape(
+      `Dictionnaire ${context.language.name} — O'Ypunu`
+    );
+    const date = context.exportedAt.toISOString().slice(0, 10);
+
+    yield [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<TEI xmlns="http://www.tei-c.org/ns/1.0" xml:lang="${this.attr(context.metaLanguage)}">`,
+      "  <teiHeader>",
+      "    <fileDesc>",
+      `      <titleStmt><title>${title}</title></titleStmt>`,
+      "      <publicationStmt>",
+      "        <publisher>O'Ypunu</publisher>",
+      `        <date when="${date}">${date}</date>`,
+      "      </publicationStmt>",
+      "      <sourceDesc><p>Mots approuvés par la communauté O'Ypunu</p></sourceDesc>",
+      "    </fileDesc>",
+      "  </teiHeader>",
+      "  <text>",
+      "    <body>",
+      "",
+    ].join("\n");
+
+    for await (const entry of entries) {
+      yield this.entry(context, entry);
+    }
+
+    yield "    </body>\n  </text>\n</TEI>\n";
+  }
+
+  private entry(
+    context: LexiconExportContext,
+    entry: LexiconExportEntry
+  ): string {
+    const id = `w-${entry.id}`;
+    const lines: string[] = [
+      `      <entry xml:id="${this.attr(id)}" xml:lang="${this.attr(context.language.code)}">`,
+      '        <form type="lemma">',
+      `          <orth>${XmlParser.escape(entry.word)}</orth>`,
+    ];
+
+    const transcriptions = new Set<string>(
+      [
+        entry.pronunciation,
+        ...entry.meanings.flatMap((meaning) =>
+          meaning.phonetics.map((phonetic) => phonetic.text)
+        ),
+      ].filter(Boolean)
+    );
+    for (const transcription of transcriptions) {
+      lines.push(
+        `          <pron notation="ipa">${XmlParser.escape(transcription)}</pron>`
+      );
+    }
+    lines.push("        </form>");
+
+    const recordings = [
+      ...entry.audio.map((audio) => ({ label: audio.accent, url: audio.url })),
+      ...entry.meanings.flatMap((meaning) =>
+        meaning.phonetics
+          .filter((phonetic) => phonetic.audioUrl)
+          .map((phonetic) => ({ label: phonetic.text, url: phonetic.audioUrl }))
+      ),
+    ];
+    for (const recording of recordings) {
+      lines.push(
+        `        <xr type="audio"><ref target="${this.attr(recording.url)}">` +
+          `${XmlParser.escape(recording.label)}</ref></xr>`
+      );
+    }
+
+    if (entry.etymology) {
+      lines.push(
+        `        <etym xml:lang="${this.attr(context.metaLanguage)}">` +
+          `${XmlParser.escape(entry.etymology)}</etym>`
+      );
+    }
+
+    let senseIndex = 0;
+    for (const meaning of entry.meanings) {
+      const definitions = meaning.definitions.length
+        ? meaning.definitions
+        : [{ definition: "", examples: [] }];
+
+      definitions.forEach((definition, index) => {
+        senseIndex++;
+        lines.push(
+          `        <sense xml:id="${this.attr(id)}-${senseIndex}" n="${senseIndex}">`,
+          "          <gramGrp>" +
+            `<gram type="pos">${XmlParser.escape(meaning.partOfSpeech)}</gram>` +
+            "</gramGrp>"
+        );
+        if (definition.definition) {
+          lines.push(
+            `          <def xml:lang="${this.attr(context.metaLanguage)}">` +
+              `${XmlParser.escape(definition.definition)}</def>`
+          );
+        }
+        const examples = [
+          ...definition.examples,
+          ...(index === 0 ? meaning.examples : []),
+        ];
+        for (const example of examples) {
+          lines.push(
+            `          <cit type="example"><quote>${XmlParser.escape(example)}</quote></cit>`
+          );
+        }
+        if (senseIndex === 1) {
+          for (const translation of entry.translations) {
+            lines.push(
+              `          <cit type="translationEquivalent" xml:lang="${this.attr(translation.language)}">` +
+                `<form><orth>${XmlParser.escape(translation.translatedWord)}</orth></form></cit>`
+            );
+          }
+        }
+        if (index === 0) {
+          for (const [field, type] of Object.entries(
+            TeiLexiconWriter.RELATION_TYPES
+          )) {
+            for (const related of meaning[field] as string[]) {
+              lines.push(
+                `          <xr type="${type}"><ref type="entry">` +
+                  `${XmlParser.escape(related)}</ref></xr>`
+              );
+            }
+          }
+        }
+        lines.push("        </sense>");
+      });
+    }
+
+    lines.push("      </entry>");
+    return lines.join("\n") + "\n";
+  }
+
+  private attr(value: string): string {
+    return XmlParser.escape(value || "");
+  }
+}
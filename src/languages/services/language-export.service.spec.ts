@@ -0,0 +1,191 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { BadRequestException } from "@nestjs/common";
+import { inflateRawSync } from "zlib";
+import initSqlJs from "sql.js";
+import { LanguageExportService } from "./language-export.service";
+import { LanguagesService } from "./languages.service";
+import { XmlParser } from "../../common/utils/xml-parser.util";
+import { CsvWordParser } from "../../dictionary/services/word-import/parsers/csv-word.parser";
+import { LiftWordParser } from "../../dictionary/services/word-import/parsers/lift-word.parser";
+
+describe("LanguageExportService", () => {
+  let service: LanguageExportService;
+  let wordRepository: any;
+
+  const words = [
+    {
+      _id: "64b000000000000000000001",
+      word: "ébɔ̀",
+      pronunciation: "é.bɔ̀",
+      etymology: "Du proto-bantou *-bó",
+      meanings: [
+        {
+          partOfSpeech: "noun",
+          definitions: [
+            {
+              definition: "Mortier servant à piler le manioc",
+              examples: ["ébɔ̀ dzam"],
+            },
+          ],
+          synonyms: ["akok"],
+          antonyms: [],
+          examples: [],
+          phonetics: [
+            { text: "ébɔ̀", audio: { url: "https://cdn.test/ebo.mp3" } },
+          ],
+        },
+      ],
+      audioFiles: {
+        standard: { url: "https://cdn.test/ebo-std.mp3", accent: "standard" },
+      },
+      translations: [
+        {
+          languageId: { _id: "lang-fra", iso639_1: "fr", iso639_3: "fra" },
+          translatedWord: "mortier",
+          context: [],
+        },
+      ],
+    },
+    {
+      _id: "64b000000000000000000002",
+      word: "nda",
+      meanings: [
+        {
+          partOfSpeech: "noun",
+          definitions: [{ definition: "Maison <en> bois & terre", examples: [] }],
+        },
+      ],
+      translations: [{ language: "en", translatedWord: "house" }],
+    },
+  ];
+
+  async function* cursor() {
+    for (const word of words) {
+      yield word;
+    }
+  }
+
+  beforeEach(async () => {
+    wordRepository = {
+      streamApprovedByLanguage: jest.fn().mockImplementation(() => cursor()),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LanguageExportService,
+        { provide: "IWordRepository", useValue: wordRepository },
+        {
+          provide: LanguagesService,
+          useValue: {
+            getLanguageById: jest.fn().mockResolvedValue({
+              _id: "lang-fan",
+              name: "Fang",
+              iso639_3: "fan",
+            }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<LanguageExportService>(LanguageExportService);
+  });
+
+  async function read(format: string): Promise<Buffer> {
+    const file = await service.export("lang-fan", format);
+    const chunks: Buffer[] = [];
+    for await (const chunk of file.stream) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  it("should stream approved words as JSON", async () => {
+    const file = await service.export("lang-fan", "json");
+    expect(file.fileName).toMatch(/^fang-\d{4}-\d{2}-\d{2}\.json$/);
+
+    const data = JSON.parse((await read("json")).toString("utf8"));
+    expect(data.count).toBe(2);
+    expect(data.language).toEqual({ id: "lang-fan", name: "Fang", code: "fan" });
+    expect(data.words[0]).toMatchObject({
+      word: "ébɔ̀",
+      audio: [{ accent: "standard", url: "https://cdn.test/ebo-std.mp3" }],
+      translations: [{ language: "fr", translatedWord: "mortier" }],
+    });
+    expect(wordRepository.streamApprovedByLanguage).toHaveBeenCalledWith(
+      "lang-fan"
+    );
+  });
+
+  it("should export CSV that the importer reads back", async () => {
+    const csv = (await read("csv")).toString("utf8");
+    const { entries, errors } = CsvWordParser.parse(csv);
+
+    expect(errors).toEqual([]);
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({
+      word: "ébɔ̀",
+      languageCode: "fan",
+      translations: [{ languageCode: "fr", translatedWord: "mortier" }],
+    });
+    expect(entries[0].meanings[0].synonyms).toEqual(["akok"]);
+  });
+
+  it("should export well-formed LIFT that the importer reads back", async () => {
+    const lift = (await read("lift")).toString("utf8");
+    const { entries, errors } = LiftWordParser.parse(lift);
+
+    expect(errors).toEqual([]);
+    expect(entries.map((entry) => entry.word)).toEqual(["ébɔ̀", "nda"]);
+    expect(entries[1].meanings[0].definitions[0].definition).toBe(
+      "Maison <en> bois & terre"
+    );
+    expect(entries[1].translations).toEqual([
+      expect.objectContaining({ languageCode: "en", translatedWord: "house" }),
+    ]);
+  });
+
+  it("should export TEI Lex-0 entries", async () => {
+    const root = XmlParser.parse((await read("tei")).toString("utf8"));
+    const body = XmlParser.child(XmlParser.child(root, "text")!, "body")!;
+    const entries = XmlParser.childrenNamed(body, "entry");
+
+    expect(root.name).toBe("TEI");
+    expect(entries).toHaveLength(2);
+    expect(entries[0].attributes["xml:lang"]).toBe("fan");
+    const sense = XmlParser.child(entries[0], "sense")!;
+    const translation = XmlParser.childrenNamed(sense, "cit").find(
+      (cit) => cit.attributes.type === "translationEquivalent"
+    );
+    expect(XmlParser.textContent(translation!)).toBe("mortier");
+  });
+
+  it("should build an Anki package with one note per word", async () => {
+    const apkg = await read("apkg");
+    const nameLength = apkg.readUInt16LE(26);
+    expect(apkg.toString("utf8", 30, 30 + nameLength)).toBe("collection.anki2");
+
+    const start = 30 + nameLength;
+    const collection = inflateRawSync(
+      apkg.subarray(start, start + apkg.readUInt32LE(18))
+    );
+    const SQL = await initSqlJs();
+    const db = new SQL.Database(collection);
+    const [notes] = db.exec("SELECT guid, sfld, flds FROM notes ORDER BY id");
+    const [cards] = db.exec("SELECT COUNT(*) FROM cards");
+    db.close();
+
+    expect(notes.values.map((row) => row[0])).toEqual([
+      words[0]._id,
+      words[1]._id,
+    ]);
+    expect(notes.values[0][1]).toBe("ébɔ̀");
+    expect(String(notes.values[0][2]).split("\x1f")).toHaveLength(5);
+    expect(cards.values[0][0]).toBe(2);
+  });
+
+  it("should reject unknown formats", async () => {
+    await expect(service.export("lang-fan", "docx")).rejects.toThrow(
+      BadRequestException
+    );
+  });
+});
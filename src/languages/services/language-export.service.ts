@@ -0,0 +1,121 @@
+import { BadRequestException, Inject, Injectable, Logger } from "@nestjs/common";
+import { Readable } from "stream";
+import { IWordRepository } from "../../repositories/interfaces/word.repository.interface";
+import { LanguagesService } from "./languages.service";
+import {
+  exportLanguageCode,
+  toLexiconExportEntry,
+} from "./export/lexicon-export.mapper";
+import {
+  LEXICON_EXPORT_FORMATS,
+  LexiconExportContext,
+  LexiconExportEntry,
+  LexiconExportFormat,
+  LexiconExportWriter,
+} from "./export/lexicon-export.types";
+import { JsonLexiconWriter } from "./export/writers/json-lexicon.writer";
+import { CsvLexiconWriter } from "./export/writers/csv-lexicon.writer";
+import { LiftLexiconWriter } from "./export/writers/lift-lexicon.writer";
+import { TeiLexiconWriter } from "./export/writers/tei-lexicon.writer";
+import { AnkiLexiconWriter } from "./export/writers/anki-lexicon.writer";
+
+/**
+ * Fichier d'export prêt à être envoyé
+ */
+export interface LexiconExportFile {
+  fileName: string;
+  contentType: string;
+  stream: Readable;
+}
+
+/**
+ * Service d'export du lexique d'une langue
+ *
+ * Les mots approuvés sont lus via un curseur `IWordRepository` et écrits
+ * au fil de l'eau dans le format demandé : la mémoire utilisée ne dépend
+ * pas de la taille du dictionnaire (hors paquet Anki, qui doit être
+ * assemblé avant envoi).
+ */
+@Injectable()
+export class LanguageExportService {
+  private readonly logger = new Logger(LanguageExportService.name);
+
+  private readonly writers: Record<LexiconExportFormat, LexiconExportWriter> =
+    {
+      json: new JsonLexiconWriter(),
+      csv: new CsvLexiconWriter(),
+      lift: new LiftLexiconWriter(),
+      tei: new TeiLexiconWriter(),
+      apkg: new AnkiLexiconWriter(),
+    };
+
+  constructor(
+    @Inject("IWordRepository") private wordRepository: IWordRepository,
+    private languagesService: LanguagesService
+  ) {}
+
+  /**
+   * Prépare l'export d'une langue
+   *
+   * @param languageId - ID de la langue
+   * @param format - Format de sortie
+   * @param options.metaLanguage - Langue des définitions (LIFT/TEI), "fr" par défaut
+   * @throws {BadRequestException} Si le format est inconnu
+   * @throws {NotFoundException} Si la langue n'existe pas
+   */
+  async export(
+    languageId: string,
+    format: string,
+    options: { metaLanguage?: string } = {}
+  ): Promise<LexiconExportFile> {
+    const writer = this.writers[format as LexiconExportFormat];
+    if (!writer) {
+      throw new BadRequestException(
+        `Format d'export non supporté : ${format}. Formats acceptés : ${LEXICON_EXPORT_FORMATS.join(", ")}`
+      );
+    }
+
+    const language: any =
+      await this.languagesService.getLanguageById(languageId);
+    const context: LexiconExportContext = {
+      language: {
+        id: String(language._id),
+        name: language.name,
+        code: exportLanguageCode(language, String(language._id)),
+      },
+      metaLanguage: options.metaLanguage || "fr",
+      exportedAt: new Date(),
+    };
+
+    this.logger.log(`Export ${format} de la langue ${context.language.name}`);
+
+    return {
+      fileName: `${this.slug(context.language.name)}-${context.exportedAt
+        .toISOString()
+        .slice(0, 10)}.${writer.extension}`,
+      contentType: writer.contentType,
+      stream: Readable.from(writer.write(context, this.entries(languageId))),
+    };
+  }
+
+  private async *entries(
+    languageId: string
+  ): AsyncGenerator<LexiconExportEntry> {
+    for await (const word of this.wordRepository.streamApprovedByLanguage(
+      languageId
+    )) {
+      yield toLexiconExportEntry(word);
+    }
+  }
+
+  private slug(name: string): string {
+    return (
+      (name || "lexique")
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "") || "lexique"
+    );
+  }
+}
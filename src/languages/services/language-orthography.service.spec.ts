@@ -0,0 +1,141 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { BadRequestException } from "@nestjs/common";
+import { LanguageOrthographyService } from "./language-orthography.service";
+
+describe("LanguageOrthographyService", () => {
+  let service: LanguageOrthographyService;
+  let languageRepository: any;
+  let wordRepository: any;
+
+  const languageId = "64c000000000000000000001";
+  const fang = {
+    _id: languageId,
+    name: "Fang",
+    scripts: [{ code: "Latn", name: "Latin" }],
+    orthography: {
+      scriptCode: "Latn",
+      graphemes: ["a", "b", "d", "e", "ə", "g", "k", "m", "mb", "n", "ŋ", "o"],
+      toneDiacritics: ["\u0301", "\u0300"],
+      punctuation: [],
+      normalization: "NFC",
+    },
+  };
+
+  beforeEach(async () => {
+    languageRepository = {
+      findById: jest.fn().mockResolvedValue(fang),
+      findByCode: jest.fn().mockResolvedValue(fang),
+    };
+    wordRepository = { findSpellingsByLanguage: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LanguageOrthographyService,
+        { provide: "ILanguageRepository", useValue: languageRepository },
+        { provide: "IWordRepository", useValue: wordRepository },
+      ],
+    }).compile();
+
+    service = module.get<LanguageOrthographyService>(
+      LanguageOrthographyService
+    );
+  });
+
+  describe("applyToWord", () => {
+    it("should store every spelling in the profile's normal form", async () => {
+      const dto = {
+        word: "mbe\u0301m",
+        variantForms: [{ form: "ake\u0300k" }],
+        meanings: [{ grammaticalFeatures: { pluralForms: ["bebe\u0301m"] } }],
+      };
+
+      await service.applyToWord(languageId, dto);
+
+      expect(dto.word).toBe("mbém");
+      expect(dto.variantForms[0].form).toBe("akèk");
+      expect(dto.meanings[0].grammaticalFeatures.pluralForms).toEqual([
+        "bebém",
+      ]);
+    });
+
+    it("should reject characters outside the profile with their field", async () => {
+      const dto = { word: "akok", variantForms: [{ form: "nkuc" }] };
+
+      const error = await service
+        .applyToWord(languageId, dto)
+        .catch((caught) => caught);
+
+      expect(error).toBeInstanceOf(BadRequestException);
+      expect(error.getResponse().violations).toEqual([
+        expect.objectContaining({
+          field: "variantForms.0.form",
+          character: "u",
+          position: 2,
+          reason: "grapheme",
+        }),
+        expect.objectContaining({ field: "variantForms.0.form", position: 3 }),
+      ]);
+      expect(error.message).toContain("variantForms.0.form « u » (position 3)");
+    });
+
+    it("should fall back to the legacy language code without an ID", async () => {
+      const dto = { word: "akok", variantForms: [{ form: "nkuc" }] };
+
+      await expect(service.applyToWord(undefined, dto, "fan")).rejects.toThrow(
+        BadRequestException
+      );
+      expect(languageRepository.findByCode).toHaveBeenCalledWith("fan");
+      expect(languageRepository.findById).not.toHaveBeenCalled();
+    });
+
+    it("should only normalize words of a language without profile", async () => {
+      languageRepository.findById.mockResolvedValue({ name: "Lingala" });
+      const dto = { word: "mbote\u0301 123" };
+
+      await service.applyToWord(languageId, dto);
+
+      expect(dto.word).toBe("mboté 123");
+    });
+  });
+
+  describe("findViolations", () => {
+    it("should report non-conforming words and where to resume", async () => {
+      wordRepository.findSpellingsByLanguage.mockResolvedValue([
+        { _id: "w1", word: "mbəm", status: "approved" },
+        { _id: "w2", word: "ake\u0301", status: "approved" },
+        { _id: "w3", word: "xa", status: "pending" },
+      ]);
+
+      const report = await service.findViolations(languageId, {
+        cursor: "w0",
+        limit: 3,
+      });
+
+      expect(wordRepository.findSpellingsByLanguage).toHaveBeenCalledWith(
+        languageId,
+        { afterId: "w0", limit: 3 }
+      );
+      expect(report.words).toEqual([
+        expect.objectContaining({
+          wordId: "w2",
+          violations: [],
+          unnormalizedFields: ["word"],
+        }),
+        expect.objectContaining({
+          wordId: "w3",
+          violations: [expect.objectContaining({ character: "x" })],
+        }),
+      ]);
+      expect(report.scanned).toBe(3);
+      expect(report.nextCursor).toBe("w3");
+    });
+
+    it("should refuse a language without profile", async () => {
+      languageRepository.findById.mockResolvedValue({ name: "Lingala" });
+
+      await expect(
+        service.findViolations(languageId, { limit: 10 })
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+});
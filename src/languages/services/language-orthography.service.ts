@@ -0,0 +1,275 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import { Types } from "mongoose";
+import { Language } from "../schemas/language.schema";
+import { ILanguageRepository } from "../../repositories/interfaces/language.repository.interface";
+import { IWordRepository } from "../../repositories/interfaces/word.repository.interface";
+import {
+  Orthography,
+  OrthographyRules,
+  OrthographyViolation,
+} from "../../common/utils/orthography.util";
+
+/**
+ * Champs orthographiés d'un mot ou d'une modification de mot
+ */
+export interface WordSpellings {
+  word?: string;
+  variantForms?: Array<{ form?: string }>;
+  meanings?: Array<{ grammaticalFeatures?: { pluralForms?: string[] } }>;
+}
+
+/**
+ * Violation rattachée au champ du mot qui la contient
+ */
+export interface WordFieldViolation extends OrthographyViolation {
+  /** Chemin du champ - Ex: "word", "variantForms.0.form" */
+  field: string;
+  value: string;
+}
+
+/**
+ * Page du rapport des mots non conformes au profil d'une langue
+ */
+export interface OrthographyViolationsReport {
+  language: { id: string; name: string };
+  profile: OrthographyRules;
+  /** Nombre de mots examinés sur cette page */
+  scanned: number;
+  words: Array<{
+    wordId: string;
+    word: string;
+    status: string;
+    violations: WordFieldViolation[];
+    /** Champs stockés dans une autre forme Unicode que celle du profil */
+    unnormalizedFields: string[];
+  }>;
+  /** Curseur de la page suivante, null quand toute la langue a été examinée */
+  nextCursor: string | null;
+}
+
+interface Spelling {
+  field: string;
+  value: string;
+  replace: (value: string) => void;
+}
+
+/**
+ * Service du profil orthographique des langues
+ *
+ * Les mots soumis sont normalisés (forme Unicode du profil, NFC par
+ * défaut) puis comparés à l'écriture et à l'alphabet déclarés dans
+ * `Language.orthography` ; une langue sans profil n'est que normalisée.
+ */
+@Injectable()
+export class LanguageOrthographyService {
+  /** Nombre maximal de violations détaillées dans une erreur */
+  private static readonly MAX_REPORTED_VIOLATIONS = 20;
+
+  constructor(
+    @Inject("ILanguageRepository")
+    private languageRepository: ILanguageRepository,
+    @Inject("IWordRepository") private wordRepository: IWordRepository
+  ) {}
+
+  /**
+   * Règles applicables à une langue, null si elle n'a pas de profil
+   */
+  static rulesOf(language: Language): OrthographyRules | null {
+    const orthography = language.orthography;
+    if (!orthography) {
+      return null;
+    }
+    return {
+      script: orthography.scriptCode,
+      graphemes: orthography.graphemes || [],
+      toneDiacritics: orthography.toneDiacritics || [],
+      punctuation: orthography.punctuation || [],
+      normalization: orthography.normalization === "NFD" ? "NFD" : "NFC",
+    };
+  }
+
+  /**
+   * Normalise en place les graphies d'un mot et vérifie qu'elles
+   * respectent le profil de sa langue
+   *
+   * @param languageId - ID de la langue du mot
+   * @param data - Champs du mot, modifiés en place
+   * @param languageCode - Code ISO hérité, utilisé quand l'ID est absent
+   * @throws {BadRequestException} Avec le détail des caractères fautifs par champ
+   */
+  async applyToWord(
+    languageId: string | undefined,
+    data: WordSpellings,
+    languageCode?: string
+  ): Promise<void> {
+    const spellings = LanguageOrthographyService.spellingsOf(data);
+    if (!spellings.length) {
+      return;
+    }
+
+    const language =
+      languageId && Types.ObjectId.isValid(languageId)
+        ? await this.languageRepository.findById(languageId)
+        : !languageId && languageCode
+          ? await this.languageRepository.findByCode(languageCode)
+          : null;
+    this.applyLanguageRules(language, data);
+  }
+
+  /**
+   * Variante de `applyToWord` pour une langue déjà chargée (import en
+   * masse) ; une langue absente ou sans profil n'est que normalisée
+   *
+   * @throws {BadRequestException} Avec le détail des caractères fautifs par champ
+   */
+  applyLanguageRules(language: Language | null, data: WordSpellings): void {
+    const spellings = LanguageOrthographyService.spellingsOf(data);
+    const rules = language
+      ? LanguageOrthographyService.rulesOf(language)
+      : null;
+
+    if (!rules) {
+      spellings.forEach((spelling) =>
+        spelling.replace(Orthography.normalize(spelling.value))
+      );
+      return;
+    }
+
+    const violations: WordFieldViolation[] = [];
+    for (const spelling of spellings) {
+      const check = Orthography.check(spelling.value, rules);
+      spelling.replace(check.normalized);
+      violations.push(
+        ...check.violations.map((violation) => ({
+          ...violation,
+          field: spelling.field,
+          value: check.normalized,
+        }))
+      );
+    }
+
+    if (violations.length) {
+      throw new BadRequestException({
+        message: `Orthographe non conforme au profil de la langue ${language.name} : ${violations
+          .slice(0, 3)
+          .map((violation) => `${violation.field} ${violation.message}`)
+          .join(" ; ")}`,
+        violations: violations.slice(
+          0,
+          LanguageOrthographyService.MAX_REPORTED_VIOLATIONS
+        ),
+      });
+    }
+  }
+
+  /**
+   * 📋 Rapport des mots existants d'une langue non conformes à son profil
+   *
+   * Les mots sont examinés par lots dans l'ordre de leur ID ; le curseur
+   * renvoyé permet de poursuivre l'examen.
+   */
+  async findViolations(
+    languageId: string,
+    options: { cursor?: string; limit: number }
+  ): Promise<OrthographyViolationsReport> {
+    if (!Types.ObjectId.isValid(languageId)) {
+      throw new BadRequestException("ID de langue invalide");
+    }
+    const language = await this.languageRepository.findById(languageId);
+    if (!language) {
+      throw new NotFoundException("Langue non trouvée");
+    }
+    const rules = LanguageOrthographyService.rulesOf(language);
+    if (!rules) {
+      throw new BadRequestException(
+        `Aucun profil orthographique défini pour la langue ${language.name}`
+      );
+    }
+
+    const words = await this.wordRepository.findSpellingsByLanguage(
+      languageId,
+      { afterId: options.cursor, limit: options.limit }
+    );
+
+    const report: OrthographyViolationsReport["words"] = [];
+    for (const word of words as any[]) {
+      const violations: WordFieldViolation[] = [];
+      const unnormalizedFields: string[] = [];
+      for (const spelling of LanguageOrthographyService.spellingsOf(word)) {
+        const check = Orthography.check(spelling.value, rules);
+        if (check.changed) {
+          unnormalizedFields.push(spelling.field);
+        }
+        violations.push(
+          ...check.violations.map((violation) => ({
+            ...violation,
+            field: spelling.field,
+            value: check.normalized,
+          }))
+        );
+      }
+      if (violations.length || unnormalizedFields.length) {
+        report.push({
+          wordId: String(word._id),
+          word: word.word,
+          status: word.status,
+          violations,
+          unnormalizedFields,
+        });
+      }
+    }
+
+    return {
+      language: { id: languageId, name: language.name },
+      profile: rules,
+      scanned: words.length,
+      words: report,
+      nextCursor:
+        words.length === options.limit
+          ? String((words[words.length - 1] as any)._id)
+          : null,
+    };
+  }
+
+  /**
+   * Graphies non vides d'un mot, avec de quoi les remplacer par leur
+   * forme normalisée
+   */
+  private static spellingsOf(data: WordSpellings): Spelling[] {
+    const spellings: Spelling[] = [];
+    if (typeof data.word === "string" && data.word) {
+      spellings.push({
+        field: "word",
+        value: data.word,
+        replace: (value) => (data.word = value),
+      });
+    }
+    (data.variantForms || []).forEach((variantForm, index) => {
+      if (typeof variantForm?.form === "string" && variantForm.form) {
+        spellings.push({
+          field: `variantForms.${index}.form`,
+          value: variantForm.form,
+          replace: (value) => (variantForm.form = value),
+        });
+      }
+    });
+    (data.meanings || []).forEach((meaning, meaningIndex) => {
+      const pluralForms = meaning?.grammaticalFeatures?.pluralForms || [];
+      pluralForms.forEach((plural, index) => {
+        if (typeof plural === "string" && plural) {
+          spellings.push({
+            field: `meanings.${meaningIndex}.grammaticalFeatures.pluralForms.${index}`,
+            value: plural,
+            replace: (value) => (pluralForms[index] = value),
+          });
+        }
+      });
+    });
+    return spellings;
+  }
+}
@@ -0,0 +1,170 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { BadRequestException, NotFoundException } from "@nestjs/common";
+import { LanguageVariantsService } from "./language-variants.service";
+import { buildWordSearchFields } from "../../dictionary/schemas/word.schema";
+
+describe("LanguageVariantsService", () => {
+  let service: LanguageVariantsService;
+  let languageRepository: any;
+  let wordRepository: any;
+  let wordRelationRepository: any;
+
+  const languageId = "64c000000000000000000001";
+  const north = "64c0000000000000000000a1";
+  const south = "64c0000000000000000000a2";
+  const retired = "64c0000000000000000000a3";
+
+  const fang = {
+    _id: languageId,
+    name: "Fang",
+    variants: [
+      {
+        _id: north,
+        name: "Fang du Nord",
+        region: "Cameroun",
+        countryCode: "CM",
+      },
+      { _id: south, name: "Fang du Sud", region: "Gabon", countryCode: "GA" },
+      { _id: retired, name: "Ancien", region: "Gabon", isActive: false },
+    ],
+  };
+
+  const ebo = {
+    _id: "64c000000000000000000101",
+    word: "ébɔ",
+    pronunciation: "/é.bɔ/",
+    variantIds: [south],
+    variantForms: [{ variantId: north, form: "ébo" }],
+    meanings: [{ phonetics: [{ text: "/é.bo/", variantId: north }] }],
+    audioFiles: {
+      "fr-ga": { url: "https://cdn/ebo-sud.mp3", variantId: south },
+    },
+  };
+  const akok = {
+    _id: "64c000000000000000000102",
+    word: "akok",
+    variantIds: [],
+    variantForms: [],
+    meanings: [],
+  };
+
+  beforeEach(async () => {
+    languageRepository = { findById: jest.fn().mockResolvedValue(fang) };
+    wordRepository = {
+      findForVariantComparison: jest.fn().mockResolvedValue([ebo, akok]),
+    };
+    wordRelationRepository = {
+      findBySourceWordIds: jest
+        .fn()
+        .mockResolvedValue([{ targetWordId: akok._id, type: "variant-of" }]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LanguageVariantsService,
+        { provide: "ILanguageRepository", useValue: languageRepository },
+        { provide: "IWordRepository", useValue: wordRepository },
+        {
+          provide: "IWordRelationRepository",
+          useValue: wordRelationRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<LanguageVariantsService>(LanguageVariantsService);
+  });
+
+  describe("assertVariantsOfLanguage", () => {
+    it("should accept variants of the language", async () => {
+      await expect(
+        service.assertVariantsOfLanguage(languageId, [north, south, north])
+      ).resolves.toBeUndefined();
+    });
+
+    it("should skip the lookup when no variant is cited", async () => {
+      await service.assertVariantsOfLanguage(undefined, []);
+      expect(languageRepository.findById).not.toHaveBeenCalled();
+    });
+
+    it("should reject unknown variants or a missing language", async () => {
+      await expect(
+        service.assertVariantsOfLanguage(languageId, [
+          north,
+          "64c0000000000000000000ff",
+        ])
+      ).rejects.toThrow(/64c0000000000000000000ff/);
+      await expect(
+        service.assertVariantsOfLanguage(undefined, [north])
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe("compare", () => {
+    it("should lay out the forms of a concept per variant", async () => {
+      const comparison = await service.compare(languageId, {
+        wordId: ebo._id,
+      });
+
+      expect(wordRelationRepository.findBySourceWordIds).toHaveBeenCalledWith(
+        [ebo._id],
+        ["variant-of"]
+      );
+      expect(wordRepository.findForVariantComparison).toHaveBeenCalledWith(
+        languageId,
+        { wordIds: [ebo._id, akok._id], gloss: undefined, limit: 50 }
+      );
+      expect(comparison.variants.map((variant) => variant.name)).toEqual([
+        "Fang du Nord",
+        "Fang du Sud",
+      ]);
+      expect(comparison.variants[0].forms).toEqual([
+        {
+          form: "ébo",
+          wordId: ebo._id,
+          pronunciation: "/é.bo/",
+          audioUrl: undefined,
+          source: "variant-form",
+        },
+      ]);
+      expect(comparison.variants[1].forms).toEqual([
+        {
+          form: "ébɔ",
+          wordId: ebo._id,
+          pronunciation: "/é.bɔ/",
+          audioUrl: "https://cdn/ebo-sud.mp3",
+          source: "headword",
+        },
+      ]);
+      expect(comparison.common.map((entry) => entry.form)).toEqual(["akok"]);
+    });
+
+    it("should look the concept up by gloss", async () => {
+      await service.compare(languageId, { gloss: "mortier" });
+
+      expect(wordRelationRepository.findBySourceWordIds).not.toHaveBeenCalled();
+      expect(wordRepository.findForVariantComparison).toHaveBeenCalledWith(
+        languageId,
+        { wordIds: [], gloss: "mortier", limit: 50 }
+      );
+    });
+
+    it("should require a concept and an existing language", async () => {
+      await expect(service.compare(languageId, {})).rejects.toThrow(
+        BadRequestException
+      );
+
+      languageRepository.findById.mockResolvedValue(null);
+      await expect(
+        service.compare(languageId, { gloss: "mortier" })
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  it("should index dialect forms so that they resolve to the entry", () => {
+    const fields = buildWordSearchFields(
+      { word: "nnam", variantForms: [{ form: "Nlam" }] },
+      "fan"
+    );
+    expect(fields.inflectionKeys).toEqual(["nlam"]);
+  });
+});
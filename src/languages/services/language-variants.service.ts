@@ -0,0 +1,252 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import { Types } from "mongoose";
+import { Language } from "../schemas/language.schema";
+import { Word } from "../../dictionary/schemas/word.schema";
+import { ILanguageRepository } from "../../repositories/interfaces/language.repository.interface";
+import { IWordRepository } from "../../repositories/interfaces/word.repository.interface";
+import { IWordRelationRepository } from "../../repositories/interfaces/word-relation.repository.interface";
+
+/**
+ * Forme attestée d'un concept dans une variante
+ */
+export interface VariantFormEntry {
+  form: string;
+  wordId: string;
+  pronunciation?: string;
+  audioUrl?: string;
+  /** Forme principale de l'entrée ou forme propre à la variante */
+  source: "headword" | "variant-form";
+}
+
+/**
+ * Réponse de la comparaison entre variantes (carte d'isoglosses)
+ */
+export interface VariantComparison {
+  languageId: string;
+  language: string;
+  concept: { wordId?: string; gloss?: string };
+  variants: Array<{
+    variantId: string;
+    name: string;
+    region: string;
+    countryCode?: string;
+    forms: VariantFormEntry[];
+  }>;
+  /** Formes employées dans toute la langue (entrées sans variante) */
+  common: VariantFormEntry[];
+}
+
+/**
+ * Service des variantes dialectales d'une langue
+ *
+ * Les variantes sont celles déclarées dans `Language.variants` ; un mot,
+ * une définition, une prononciation ou un fichier audio y renvoie par
+ * l'identifiant du sous-document.
+ */
+@Injectable()
+export class LanguageVariantsService {
+  /** Nombre maximal d'entrées prises en compte par comparaison */
+  private static readonly MAX_COMPARED_WORDS = 50;
+
+  constructor(
+    @Inject("ILanguageRepository")
+    private languageRepository: ILanguageRepository,
+    @Inject("IWordRepository") private wordRepository: IWordRepository,
+    @Inject("IWordRelationRepository")
+    private wordRelationRepository: IWordRelationRepository
+  ) {}
+
+  /**
+   * Vérifie que les variantes citées appartiennent à la langue du mot
+   *
+   * @throws {BadRequestException} Si une variante est inconnue ou si la langue n'est pas précisée
+   */
+  async assertVariantsOfLanguage(
+    languageId: string | undefined,
+    variantIds: string[]
+  ): Promise<void> {
+    const requested = [...new Set(variantIds.filter(Boolean))];
+    if (!requested.length) {
+      return;
+    }
+
+    const language =
+      languageId && Types.ObjectId.isValid(languageId)
+        ? await this.languageRepository.findById(languageId)
+        : null;
+    if (!language) {
+      throw new BadRequestException(
+        "Les variantes dialectales nécessitent une langue (languageId) valide"
+      );
+    }
+
+    const known = new Set(
+      (language.variants || []).map((variant: any) => String(variant._id))
+    );
+    const unknown = requested.filter((id) => !known.has(id));
+    if (unknown.length) {
+      throw new BadRequestException(
+        `Variante(s) inconnue(s) pour la langue ${language.name} : ${unknown.join(", ")}`
+      );
+    }
+  }
+
+  /**
+   * Comparer la façon dont un concept se dit dans les variantes d'une langue
+   *
+   * Le concept est désigné par un mot (avec ses formes dialectales et les
+   * mots qui lui sont reliés en `variant-of`) et/ou par une glose recherchée
+   * dans les traductions.
+   *
+   * @throws {NotFoundException} Si la langue n'existe pas
+   * @throws {BadRequestException} Si ni mot ni glose ne sont fournis
+   */
+  async compare(
+    languageId: string,
+    concept: { wordId?: string; gloss?: string }
+  ): Promise<VariantComparison> {
+    if (!concept.wordId && !concept.gloss?.trim()) {
+      throw new BadRequestException("Préciser un mot (wordId) ou une glose");
+    }
+    const language = Types.ObjectId.isValid(languageId)
+      ? await this.languageRepository.findById(languageId)
+      : null;
+    if (!language) {
+      throw new NotFoundException("Langue non trouvée");
+    }
+
+    const wordIds: string[] = [];
+    if (concept.wordId) {
+      const relations = await this.wordRelationRepository.findBySourceWordIds(
+        [concept.wordId],
+        ["variant-of"]
+      );
+      wordIds.push(
+        concept.wordId,
+        ...relations.map((relation) => String(relation.targetWordId))
+      );
+    }
+    const words = await this.wordRepository.findForVariantComparison(
+      languageId,
+      {
+        wordIds,
+        gloss: concept.gloss,
+        limit: LanguageVariantsService.MAX_COMPARED_WORDS,
+      }
+    );
+
+    return {
+      languageId,
+      language: language.name,
+      concept,
+      ...LanguageVariantsService.groupFormsByVariant(language, words),
+    };
+  }
+
+  /**
+   * Répartit les formes des mots entre les variantes actives de la langue
+   */
+  static groupFormsByVariant(
+    language: Language,
+    words: Word[]
+  ): Pick<VariantComparison, "variants" | "common"> {
+    const variants = (language.variants || [])
+      .filter((variant) => variant.isActive !== false)
+      .map((variant: any) => ({
+        variantId: String(variant._id),
+        name: variant.name,
+        region: variant.region,
+        countryCode: variant.countryCode,
+        forms: [] as VariantFormEntry[],
+      }));
+    const byId = new Map(
+      variants.map((variant) => [variant.variantId, variant])
+    );
+    const common: VariantFormEntry[] = [];
+
+    const add = (variantId: string, entry: VariantFormEntry) => {
+      const forms = byId.get(variantId)?.forms;
+      if (
+        forms &&
+        !forms.some((f) => f.form === entry.form && f.wordId === entry.wordId)
+      ) {
+        forms.push(entry);
+      }
+    };
+
+    for (const word of words) {
+      const wordId = String((word as any)._id);
+      const headword = (variantId?: string): VariantFormEntry => ({
+        form: word.word,
+        wordId,
+        pronunciation:
+          LanguageVariantsService.pronunciationFor(word, variantId) ||
+          word.pronunciation,
+        audioUrl: LanguageVariantsService.audioFor(word, variantId),
+        source: "headword",
+      });
+
+      if (!word.variantIds?.length) {
+        common.push(headword());
+      }
+      for (const variantId of word.variantIds || []) {
+        add(variantId, headword(variantId));
+      }
+      for (const variantForm of word.variantForms || []) {
+        add(variantForm.variantId, {
+          form: variantForm.form,
+          wordId,
+          pronunciation:
+            variantForm.pronunciation ||
+            LanguageVariantsService.pronunciationFor(
+              word,
+              variantForm.variantId
+            ),
+          audioUrl: LanguageVariantsService.audioFor(
+            word,
+            variantForm.variantId
+          ),
+          source: "variant-form",
+        });
+      }
+    }
+
+    return { variants, common };
+  }
+
+  /** Transcription phonétique d'un sens rattachée à la variante */
+  private static pronunciationFor(
+    word: Word,
+    variantId?: string
+  ): string | undefined {
+    if (!variantId) {
+      return undefined;
+    }
+    for (const meaning of word.meanings || []) {
+      const phonetic = (meaning.phonetics || []).find(
+        (p) => p.variantId === variantId
+      );
+      if (phonetic) {
+        return phonetic.text;
+      }
+    }
+    return undefined;
+  }
+
+  /** Fichier audio enregistré pour la variante */
+  private static audioFor(word: Word, variantId?: string): string | undefined {
+    if (!variantId || !word.audioFiles) {
+      return undefined;
+    }
+    const files =
+      word.audioFiles instanceof Map
+        ? [...word.audioFiles.values()]
+        : Object.values(word.audioFiles as Record<string, any>);
+    return files.find((file) => file?.variantId === variantId)?.url;
+  }
+}
@@ -27,6 +27,11 @@ import {
 } from "../dto/create-language.dto";
 import { DatabaseErrorHandler } from "../../common/errors"
 import { ILanguageRepository } from "../../repositories/interfaces/language.repository.interface";
+import { IWordRepository } from "../../repositories/interfaces/word.repository.interface";
+import { languageScripting } from "../../dictionary/schemas/word.schema";
+import { UpdateLanguageMorphologyDto } from "../dto/language-morphology.dto";
+import { UpdateLanguageOrthographyDto } from "../dto/language-orthography.dto";
+import { UpdateLanguageTransliterationsDto } from "../dto/language-transliteration.dto";
 
 /**
  * Service de gestion des langues avec workflow de modération
@@ -58,7 +63,9 @@ import { ILanguageRepository } from "../../repositories/interfaces/language.repo
 export class LanguagesService {
   constructor(
     @Inject("ILanguageRepository")
-    private languageRepository: ILanguageRepository
+    private languageRepository: ILanguageRepository,
+    @Inject("IWordRepository")
+    private wordRepository: IWordRepository
   ) {}
 
   /**
@@ -235,6 +242,253 @@ export class LanguagesService {
     );
   }
 
+  /**
+   * 🧬 DÉFINIR les règles morphologiques d'une langue (admins uniquement)
+   *
+   * Remplace classes nominales et paradigmes verbaux, puis recalcule les
+   * formes fléchies indexées de tous les mots de la langue.
+   */
+  async updateMorphology(
+    languageId: string,
+    morphologyDto: UpdateLanguageMorphologyDto,
+    admin: User
+  ): Promise<{ language: Language; reindexedWords: number }> {
+    if (!this.canManageLanguages(admin)) {
+      throw new ForbiddenException(
+        "Permissions insuffisantes pour modifier la morphologie d'une langue"
+      );
+    }
+
+    if (!Types.ObjectId.isValid(languageId)) {
+      throw new BadRequestException("ID de langue invalide");
+    }
+
+    const morphology = {
+      nounClasses: morphologyDto.nounClasses || [],
+      verbInfinitivePrefixes: morphologyDto.verbInfinitivePrefixes || [],
+      verbParadigms: morphologyDto.verbParadigms || [],
+    };
+
+    const codes = new Set(morphology.nounClasses.map((rule) => rule.code));
+    if (codes.size !== morphology.nounClasses.length) {
+      throw new BadRequestException("Codes de classes nominales en double");
+    }
+    const unknownPairing = morphology.nounClasses.find(
+      (rule) => rule.pluralClass && !codes.has(rule.pluralClass)
+    );
+    if (unknownPairing) {
+      throw new BadRequestException(
+        `Classe du pluriel inconnue pour la classe ${unknownPairing.code} : ${unknownPairing.pluralClass}`
+      );
+    }
+
+    const language = await DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        const updatedLanguage = await this.languageRepository.update(
+          languageId,
+          { morphology } as Partial<Language>
+        );
+        if (!updatedLanguage) {
+          throw new NotFoundException("Langue non trouvée");
+        }
+        return updatedLanguage;
+      },
+      "Language",
+      languageId
+    );
+
+    const reindexedWords =
+      await this.wordRepository.refreshInflectionKeysByLanguage(
+        languageId,
+        language.iso639_3 || language.iso639_1,
+        morphology
+      );
+
+    return { language, reindexedWords };
+  }
+
+  /**
+   * 🔤 DÉFINIR le profil orthographique d'une langue (admins uniquement)
+   *
+   * L'écriture doit faire partie des scripts de la langue et chaque
+   * diacritique de ton être un unique caractère combinant ; l'alphabet est
+   * dédoublonné après normalisation.
+   */
+  async updateOrthography(
+    languageId: string,
+    orthographyDto: UpdateLanguageOrthographyDto,
+    admin: User
+  ): Promise<Language> {
+    if (!this.canManageLanguages(admin)) {
+      throw new ForbiddenException(
+        "Permissions insuffisantes pour modifier l'orthographe d'une langue"
+      );
+    }
+
+    if (!Types.ObjectId.isValid(languageId)) {
+      throw new BadRequestException("ID de langue invalide");
+    }
+
+    const language = await this.languageRepository.findById(languageId);
+    if (!language) {
+      throw new NotFoundException("Langue non trouvée");
+    }
+
+    const scriptCodes = (language.scripts || []).map((script) => script.code);
+    if (
+      orthographyDto.scriptCode &&
+      !scriptCodes.includes(orthographyDto.scriptCode)
+    ) {
+      throw new BadRequestException(
+        `Écriture ${orthographyDto.scriptCode} absente des scripts de la langue ${language.name} (${scriptCodes.join(", ") || "aucun"})`
+      );
+    }
+
+    const toneDiacritics = [...new Set(orthographyDto.toneDiacritics || [])];
+    const invalidTone = toneDiacritics.find((mark) => !/^\p{M}$/u.test(mark));
+    if (invalidTone) {
+      throw new BadRequestException(
+        `Diacritique de ton invalide (U+${invalidTone
+          .codePointAt(0)
+          .toString(16)
+          .toUpperCase()
+          .padStart(4, "0")}) : un caractère combinant est attendu`
+      );
+    }
+
+    const orthography = {
+      scriptCode: orthographyDto.scriptCode,
+      graphemes: [
+        ...new Set(
+          (orthographyDto.graphemes || []).map((grapheme) =>
+            grapheme.normalize("NFC").toLowerCase()
+          )
+        ),
+      ],
+      toneDiacritics,
+      punctuation: [...new Set(orthographyDto.punctuation || [])],
+      normalization: orthographyDto.normalization || "NFC",
+    };
+
+    const updated = await DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        const updatedLanguage = await this.languageRepository.update(
+          languageId,
+          { orthography } as Partial<Language>
+        );
+        if (!updatedLanguage) {
+          throw new NotFoundException("Langue non trouvée");
+        }
+        return updatedLanguage;
+      },
+      "Language",
+      languageId
+    );
+
+    // L'écriture de saisie détermine les graphies générées
+    if (
+      language.transliterations?.length &&
+      language.orthography?.scriptCode !== orthography.scriptCode
+    ) {
+      await this.refreshScriptForms(updated);
+    }
+
+    return updated;
+  }
+
+  /**
+   * 🔠 DÉFINIR les tables de translittération d'une langue (admins uniquement)
+   *
+   * Chaque table relie deux écritures déclarées de la langue ; les
+   * graphies des mots dans les autres écritures sont ensuite recalculées.
+   */
+  async updateTransliterations(
+    languageId: string,
+    transliterationsDto: UpdateLanguageTransliterationsDto,
+    admin: User
+  ): Promise<{ language: Language; reindexedWords: number }> {
+    if (!this.canManageLanguages(admin)) {
+      throw new ForbiddenException(
+        "Permissions insuffisantes pour modifier les translittérations d'une langue"
+      );
+    }
+
+    if (!Types.ObjectId.isValid(languageId)) {
+      throw new BadRequestException("ID de langue invalide");
+    }
+
+    const language = await this.languageRepository.findById(languageId);
+    if (!language) {
+      throw new NotFoundException("Langue non trouvée");
+    }
+
+    const scriptCodes = (language.scripts || []).map((script) => script.code);
+    const pairs = new Set<string>();
+    for (const table of transliterationsDto.tables) {
+      const unknown = [table.fromScript, table.toScript].find(
+        (code) => !scriptCodes.includes(code)
+      );
+      if (unknown) {
+        throw new BadRequestException(
+          `Écriture ${unknown} absente des scripts de la langue ${language.name} (${scriptCodes.join(", ") || "aucun"})`
+        );
+      }
+      if (table.fromScript === table.toScript) {
+        throw new BadRequestException(
+          `Table de translittération ${table.fromScript} → ${table.toScript} : les écritures doivent différer`
+        );
+      }
+      const pair = `${table.fromScript}→${table.toScript}`;
+      if (pairs.has(pair)) {
+        throw new BadRequestException(
+          `Table de translittération ${table.fromScript} → ${table.toScript} en double`
+        );
+      }
+      pairs.add(pair);
+    }
+
+    const transliterations = transliterationsDto.tables.map((table) => ({
+      fromScript: table.fromScript,
+      toScript: table.toScript,
+      rules: table.rules.map((rule) => ({
+        source: rule.source.normalize("NFC"),
+        target: rule.target.normalize("NFC"),
+      })),
+      reversible: table.reversible ?? false,
+    }));
+
+    const updated = await DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        const updatedLanguage = await this.languageRepository.update(
+          languageId,
+          { transliterations } as Partial<Language>
+        );
+        if (!updatedLanguage) {
+          throw new NotFoundException("Langue non trouvée");
+        }
+        return updatedLanguage;
+      },
+      "Language",
+      languageId
+    );
+
+    const reindexedWords = await this.refreshScriptForms(updated);
+    return { language: updated, reindexedWords };
+  }
+
+  /**
+   * Recalcule les graphies des mots d'une langue dans ses autres écritures
+   */
+  private async refreshScriptForms(language: Language): Promise<number> {
+    const languageRef: any = language;
+    return this.wordRepository.refreshScriptFormsByLanguage(
+      String(languageRef._id),
+      language.iso639_3 || language.iso639_1,
+      language.morphology,
+      languageScripting(language)
+    );
+  }
+
   /**
    * 📋 LISTER les langues actives (pour les dropdowns, etc.)
    */
@@ -321,7 +575,11 @@ export class LanguagesService {
    */
   async getLanguageStats(): Promise<any> {
     return DatabaseErrorHandler.handleAggregationOperation(async () => {
-      const statusCounts = await this.languageRepository.countByStatus();
+      const [statusCounts, variantCounts, languages] = await Promise.all([
+        this.languageRepository.countByStatus(),
+        this.wordRepository.countByVariant(),
+        this.languageRepository.findApproved(),
+      ]);
 
       // Les statistiques d'agrégation complexes nécessiteraient une extension du repository
       // Pour l'instant, retourner les statistiques de base
@@ -332,12 +590,54 @@ export class LanguagesService {
           { _id: "rejected", count: statusCounts.rejected },
         ],
         byRegion: [], // À implémenter avec des méthodes d'agrégation
+        byVariant: this.describeVariantCounts(variantCounts, languages),
         totalActive: statusCounts.approved,
         totalPending: statusCounts.pending,
       };
     }, "Language");
   }
 
+  /**
+   * Associe les décomptes de mots par variante aux noms des langues et
+   * des variantes (les variantes supprimées depuis sont ignorées)
+   */
+  private describeVariantCounts(
+    counts: Array<{ languageId: string; variantId: string; count: number }>,
+    languages: Language[]
+  ): Array<{
+    languageId: string;
+    language: string;
+    variantId: string;
+    variant: string;
+    region: string;
+    wordCount: number;
+  }> {
+    const variantsById = new Map<string, { language: Language; variant: any }>();
+    for (const language of languages) {
+      for (const variant of language.variants || []) {
+        variantsById.set(String((variant as any)._id), { language, variant });
+      }
+    }
+
+    return counts
+      .filter((entry) => variantsById.has(entry.variantId))
+      .map((entry) => {
+        const { language, variant } = variantsById.get(entry.variantId)!;
+        return {
+          languageId: entry.languageId,
+          language: language.name,
+          variantId: entry.variantId,
+          variant: variant.name,
+          region: variant.region,
+          wordCount: entry.count,
+        };
+      })
+      .sort(
+        (a, b) =>
+          a.language.localeCompare(b.language) || b.wordCount - a.wordCount
+      );
+  }
+
   /**
    * 🔍 RECHERCHER des langues
    */
@@ -15,7 +15,8 @@ import { AppModule } from './app.module';
 import { ValidationPipe } from '@nestjs/common';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import { ConfigService } from '@nestjs/config';
-import { IoAdapter } from '@nestjs/platform-socket.io';
+import { RealtimeIoAdapter } from './realtime/realtime-io.adapter';
+import { REALTIME_BACKEND } from './realtime/realtime.types';
 import { SecurityHeadersMiddleware } from './auth/security/security-headers.middleware';
 
 /**
@@ -159,8 +160,10 @@ async function bootstrap() {
   const document = SwaggerModule.createDocument(app, config);
   SwaggerModule.setup('api-docs', app, document);
 
-  // Configuration WebSocket avec CORS
-  app.useWebSocketAdapter(new IoAdapter(app));
+  // Configuration WebSocket avec CORS, diffusion partagée entre instances
+  app.useWebSocketAdapter(
+    new RealtimeIoAdapter(app, app.get(REALTIME_BACKEND)),
+  );
 
   const port = configService.get('PORT') || 3000;
   await app.listen(port, '0.0.0.0');
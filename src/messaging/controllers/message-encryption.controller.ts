@@ -0,0 +1,150 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Request,
+  UseGuards,
+} from "@nestjs/common";
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from "@nestjs/swagger";
+import { JwtAuthGuard } from "../../auth/guards/jwt-auth.guard";
+import { MessageEncryptionService } from "../services/message-encryption.service";
+import {
+  AddOneTimePreKeysDto,
+  RegisterDeviceKeyDto,
+} from "../dto/message-encryption.dto";
+
+interface AuthenticatedRequest extends Request {
+  user: {
+    userId?: string;
+    _id?: string;
+    [key: string]: any;
+  };
+}
+
+/**
+ * Contrôleur des clés du chiffrement de bout en bout
+ * Responsabilité: inscription des appareils et distribution des clés publiques
+ */
+@ApiTags("messaging")
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller("messaging/encryption")
+export class MessageEncryptionController {
+  constructor(
+    private readonly messageEncryptionService: MessageEncryptionService
+  ) {}
+
+  /**
+   * Inscrire un appareil (ou renouveler ses clés)
+   */
+  @Post("devices")
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: "Inscrire un appareil au chiffrement de bout en bout",
+    description:
+      "Clé d'identité, pré-clé signée et pré-clés à usage unique publiques ; un appareil déjà inscrit voit ses clés remplacées",
+  })
+  @ApiResponse({ status: 201, description: "Appareil inscrit" })
+  @ApiResponse({
+    status: 400,
+    description: "Clés invalides ou nombre maximal d'appareils atteint",
+  })
+  async registerDevice(
+    @Request() req: AuthenticatedRequest,
+    @Body() dto: RegisterDeviceKeyDto
+  ) {
+    const userId = String(req.user.userId || req.user._id || req.user.sub);
+    return {
+      success: true,
+      data: await this.messageEncryptionService.registerDevice(userId, dto),
+    };
+  }
+
+  /**
+   * Mes appareils inscrits
+   */
+  @Get("devices")
+  @ApiOperation({ summary: "Lister mes appareils inscrits" })
+  @ApiResponse({
+    status: 200,
+    description: "Appareils avec le nombre de pré-clés restantes",
+  })
+  async listDevices(@Request() req: AuthenticatedRequest) {
+    const userId = String(req.user.userId || req.user._id || req.user.sub);
+    return {
+      success: true,
+      data: await this.messageEncryptionService.listDevices(userId),
+    };
+  }
+
+  /**
+   * Retirer un appareil
+   */
+  @Delete("devices/:deviceId")
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: "Retirer un appareil" })
+  @ApiParam({ name: "deviceId", description: "Identifiant de l'appareil" })
+  @ApiResponse({ status: 204, description: "Appareil retiré" })
+  @ApiResponse({ status: 404, description: "Appareil introuvable" })
+  async removeDevice(
+    @Request() req: AuthenticatedRequest,
+    @Param("deviceId") deviceId: string
+  ) {
+    const userId = String(req.user.userId || req.user._id || req.user.sub);
+    await this.messageEncryptionService.removeDevice(userId, deviceId);
+  }
+
+  /**
+   * Réapprovisionner les pré-clés à usage unique d'un appareil
+   */
+  @Post("devices/:deviceId/one-time-prekeys")
+  @ApiOperation({ summary: "Ajouter des pré-clés à usage unique" })
+  @ApiParam({ name: "deviceId", description: "Identifiant de l'appareil" })
+  @ApiResponse({ status: 201, description: "Pré-clés ajoutées" })
+  @ApiResponse({ status: 404, description: "Appareil introuvable" })
+  async addOneTimePreKeys(
+    @Request() req: AuthenticatedRequest,
+    @Param("deviceId") deviceId: string,
+    @Body() dto: AddOneTimePreKeysDto
+  ) {
+    const userId = String(req.user.userId || req.user._id || req.user.sub);
+    return {
+      success: true,
+      data: await this.messageEncryptionService.addOneTimePreKeys(
+        userId,
+        deviceId,
+        dto.oneTimePreKeys
+      ),
+    };
+  }
+
+  /**
+   * Clés des appareils d'un utilisateur, pour ouvrir une session chiffrée
+   */
+  @Get("users/:userId/key-bundle")
+  @ApiOperation({
+    summary: "Récupérer les clés des appareils d'un utilisateur",
+    description:
+      "Une pré-clé à usage unique de chaque appareil est consommée ; une liste vide signifie que l'utilisateur n'a inscrit aucun appareil",
+  })
+  @ApiParam({ name: "userId", description: "ID de l'utilisateur" })
+  @ApiResponse({ status: 200, description: "Clés des appareils" })
+  @ApiResponse({ status: 404, description: "Utilisateur introuvable" })
+  async getKeyBundle(@Param("userId") userId: string) {
+    return {
+      success: true,
+      data: await this.messageEncryptionService.getKeyBundle(userId),
+    };
+  }
+}
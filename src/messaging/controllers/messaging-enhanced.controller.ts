@@ -38,6 +38,7 @@ import {
 import { FileInterceptor, FilesInterceptor } from '@nestjs/platform-express';
 import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
 import { MessagingEnhancedService } from '../services/messaging-enhanced.service';
+import { MessageDeliveryService } from '../services/message-delivery.service';
 
 /**
  * Interface pour les requêtes authentifiées avec données utilisateur JWT
@@ -182,8 +183,12 @@ export class MessagingEnhancedController {
    * 
    * @constructor
    * @param {MessagingEnhancedService} messagingEnhancedService - Service des fonctionnalités avancées
+   * @param {MessageDeliveryService} messageDeliveryService - Accusés de réception et de lecture
    */
-  constructor(private readonly messagingEnhancedService: MessagingEnhancedService) {}
+  constructor(
+    private readonly messagingEnhancedService: MessagingEnhancedService,
+    private readonly messageDeliveryService: MessageDeliveryService,
+  ) {}
 
   // ========== GESTION DES GROUPES ==========
 
@@ -413,6 +418,21 @@ export class MessagingEnhancedController {
     );
   }
 
+  @Get('messages/:messageId/receipts')
+  @ApiOperation({
+    summary: 'Statut de distribution d\'un message par destinataire et par appareil',
+  })
+  @ApiParam({ name: 'messageId', description: 'ID du message' })
+  async getMessageReceipts(
+    @Param('messageId') messageId: string,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    return this.messageDeliveryService.getMessageReceipts(
+      req.user.userId,
+      messageId,
+    );
+  }
+
   @Post('messages/:messageId/pin')
   @ApiOperation({ summary: 'Épingler un message dans une conversation' })
   @ApiParam({ name: 'messageId', description: 'ID du message à épingler' })
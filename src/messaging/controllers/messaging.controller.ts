@@ -23,17 +23,22 @@ import {
   Request,
   HttpStatus,
   HttpCode,
+  Headers,
 } from "@nestjs/common";
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
+  ApiHeader,
 } from "@nestjs/swagger";
 import { MessagingService } from "../services/messaging.service";
 import { MessagingEnhancedService } from "../services/messaging-enhanced.service";
 import { SendMessageDto } from "../dto/send-message.dto";
 import { GetMessagesDto } from "../dto/get-messages.dto";
+import { TranslateMessageQueryDto } from "../dto/translate-message.dto";
+import { CreateDirectConversationDto } from "../dto/message-encryption.dto";
+import { MessageEncryptionService } from "../services/message-encryption.service";
 import { JwtAuthGuard } from "../../auth/guards/jwt-auth.guard";
 
 /**
@@ -97,10 +102,12 @@ export class MessagingController {
    * @constructor
    * @param {MessagingService} messagingService - Service basique (compatibilité)
    * @param {MessagingEnhancedService} messagingEnhancedService - Service avancé utilisé
+   * @param {MessageEncryptionService} messageEncryptionService - Chiffrement de bout en bout
    */
   constructor(
     private readonly messagingService: MessagingService,
-    private readonly messagingEnhancedService: MessagingEnhancedService
+    private readonly messagingEnhancedService: MessagingEnhancedService,
+    private readonly messageEncryptionService: MessageEncryptionService
   ) {}
 
   /**
@@ -141,6 +148,19 @@ export class MessagingController {
   ) {
     // Utiliser req.user._id ou sub comme fallback et s'assurer que c'est une string
     const userId = String(req.user.userId || req.user._id || req.user.sub);
+
+    // 🔒 Les messages chiffrés passent par le service basique, qui les vérifie
+    if (sendMessageDto.encryption) {
+      const message = await this.messagingService.sendMessage(
+        userId,
+        sendMessageDto
+      );
+      return {
+        success: true,
+        message: "Message envoyé avec succès",
+        data: message,
+      };
+    }
     
     // 🚀 Utilise le nouveau service Enhanced en maintenant la compatibilité
     const result = await this.messagingEnhancedService.sendSimpleMessage(
@@ -204,11 +224,57 @@ export class MessagingController {
     };
   }
 
+  /**
+   * Traduit un message mot à mot avec le dictionnaire O'Ypunu
+   *
+   * Les mots reconnus sont remplacés par leur traduction dans la langue
+   * demandée (par défaut, la langue maternelle du lecteur) ; les autres
+   * sont laissés tels quels.
+   *
+   * @example
+   * ```bash
+   * GET /messaging/messages/:messageId/translation?languageId=<language-id>
+   * ```
+   */
+  @Get("messages/:messageId/translation")
+  @ApiOperation({
+    summary: "Traduire un message avec le dictionnaire O'Ypunu",
+  })
+  @ApiResponse({ status: 200, description: "Traduction du message" })
+  @ApiResponse({ status: 400, description: "Langue cible inconnue" })
+  @ApiResponse({
+    status: 403,
+    description: "Accès interdit à cette conversation",
+  })
+  @ApiResponse({ status: 404, description: "Message introuvable" })
+  async translateMessage(
+    @Request() req: AuthenticatedRequest,
+    @Param("messageId") messageId: string,
+    @Query() query: TranslateMessageQueryDto
+  ) {
+    const userId = String(req.user.userId || req.user._id || req.user.sub);
+
+    const translation = await this.messagingService.translateMessage(
+      userId,
+      messageId,
+      query.languageId
+    );
+    return {
+      success: true,
+      data: translation,
+    };
+  }
+
   @Patch("conversations/:conversationId/read")
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: "Marquer les messages d'une conversation comme lus",
   })
+  @ApiHeader({
+    name: "X-Device-Id",
+    required: false,
+    description: "Appareil de lecture (accusés de lecture par appareil)",
+  })
   @ApiResponse({ status: 200, description: "Messages marqués comme lus" })
   @ApiResponse({
     status: 403,
@@ -217,7 +283,8 @@ export class MessagingController {
   @ApiResponse({ status: 404, description: "Conversation introuvable" })
   async markMessagesAsRead(
     @Request() req: AuthenticatedRequest,
-    @Param("conversationId") conversationId: string
+    @Param("conversationId") conversationId: string,
+    @Headers("x-device-id") deviceId?: string
   ) {
     // Utiliser req.user._id ou sub comme fallback et s'assurer que c'est une string
     const userId = String(req.user.userId || req.user._id || req.user.sub);
@@ -225,7 +292,8 @@ export class MessagingController {
     // 🚀 Utilise le nouveau service Enhanced
     const result = await this.messagingEnhancedService.markMessagesAsRead(
       userId,
-      conversationId
+      conversationId,
+      deviceId || undefined
     );
     return {
       success: true,
@@ -281,24 +349,37 @@ export class MessagingController {
 
   @Post("conversations/direct")
   @HttpCode(HttpStatus.CREATED)
-  @ApiOperation({ summary: "Créer une conversation directe avec un utilisateur" })
+  @ApiOperation({
+    summary: "Créer une conversation directe avec un utilisateur",
+    description:
+      "Avec `encrypted: true`, active le chiffrement de bout en bout (définitif) ; les deux participants doivent avoir inscrit un appareil",
+  })
   @ApiResponse({ status: 201, description: "Conversation créée avec succès" })
-  @ApiResponse({ status: 400, description: "Paramètres invalides" })
+  @ApiResponse({
+    status: 400,
+    description: "Paramètres invalides ou appareil manquant pour le chiffrement",
+  })
   @ApiResponse({ status: 404, description: "Utilisateur destinataire introuvable" })
   @ApiResponse({ status: 401, description: "Non autorisé" })
   @ApiBearerAuth()
   async createDirectConversation(
-    @Body() { participantId }: { participantId: string },
+    @Body() { participantId, encrypted }: CreateDirectConversationDto,
     @Request() req: AuthenticatedRequest
   ) {
     // Utiliser req.user._id ou sub comme fallback et s'assurer que c'est une string
     const userId = String(req.user.userId || req.user._id || req.user.sub);
     
     // Utilise la méthode existante du service basique pour créer/trouver une conversation
-    const conversation = await this.messagingService.findOrCreateConversation(
+    let conversation = await this.messagingService.findOrCreateConversation(
       userId,
       participantId
     );
+    if (encrypted) {
+      conversation = await this.messageEncryptionService.enableEncryption(
+        userId,
+        conversation
+      );
+    }
     
     
     const result = {
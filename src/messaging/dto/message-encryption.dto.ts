@@ -0,0 +1,194 @@
+/**
+ * @fileoverview DTOs du chiffrement de bout en bout de la messagerie O'Ypunu
+ *
+ * Clés publiques des appareils et messages chiffrés. Le serveur ne voit
+ * que des clés publiques et des contenus chiffrés encodés en base64.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBase64,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsMongoId,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/** Identifiant d'appareil choisi par le client */
+const DEVICE_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/** Nombre maximal de pré-clés à usage unique conservées par appareil */
+export const MAX_ONE_TIME_PRE_KEYS = 100;
+
+/**
+ * Pré-clé signée d'un appareil
+ */
+export class SignedPreKeyDto {
+  @ApiProperty({ description: 'Identifiant de la pré-clé' })
+  @IsInt({ message: "L'identifiant de clé doit être un entier" })
+  @Min(0)
+  keyId: number;
+
+  @ApiProperty({ description: 'Clé publique (base64)' })
+  @IsBase64({}, { message: 'La clé publique doit être encodée en base64' })
+  @MaxLength(256)
+  publicKey: string;
+
+  @ApiProperty({ description: "Signature par la clé d'identité (base64)" })
+  @IsBase64({}, { message: 'La signature doit être encodée en base64' })
+  @MaxLength(256)
+  signature: string;
+}
+
+/**
+ * Pré-clé à usage unique
+ */
+export class OneTimePreKeyDto {
+  @ApiProperty({ description: 'Identifiant de la pré-clé' })
+  @IsInt({ message: "L'identifiant de clé doit être un entier" })
+  @Min(0)
+  keyId: number;
+
+  @ApiProperty({ description: 'Clé publique (base64)' })
+  @IsBase64({}, { message: 'La clé publique doit être encodée en base64' })
+  @MaxLength(256)
+  publicKey: string;
+}
+
+/**
+ * Inscription (ou renouvellement des clés) d'un appareil
+ */
+export class RegisterDeviceKeyDto {
+  @ApiProperty({
+    description: "Identifiant de l'appareil, unique pour l'utilisateur",
+    example: 'pixel-7-a1b2',
+  })
+  @Matches(DEVICE_ID_PATTERN, {
+    message:
+      "Identifiant d'appareil invalide (lettres, chiffres, - et _, 64 caractères max)",
+  })
+  deviceId: string;
+
+  @ApiPropertyOptional({ description: "Nom affiché de l'appareil" })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiProperty({ description: "Clé d'identité publique (base64)" })
+  @IsBase64({}, { message: "La clé d'identité doit être encodée en base64" })
+  @MaxLength(256)
+  identityKey: string;
+
+  @ApiProperty({ type: SignedPreKeyDto })
+  @ValidateNested()
+  @Type(() => SignedPreKeyDto)
+  signedPreKey: SignedPreKeyDto;
+
+  @ApiPropertyOptional({
+    type: [OneTimePreKeyDto],
+    maxItems: MAX_ONE_TIME_PRE_KEYS,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_ONE_TIME_PRE_KEYS)
+  @ValidateNested({ each: true })
+  @Type(() => OneTimePreKeyDto)
+  oneTimePreKeys?: OneTimePreKeyDto[];
+}
+
+/**
+ * Réapprovisionnement des pré-clés à usage unique d'un appareil
+ */
+export class AddOneTimePreKeysDto {
+  @ApiProperty({
+    type: [OneTimePreKeyDto],
+    maxItems: MAX_ONE_TIME_PRE_KEYS,
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_ONE_TIME_PRE_KEYS)
+  @ValidateNested({ each: true })
+  @Type(() => OneTimePreKeyDto)
+  oneTimePreKeys: OneTimePreKeyDto[];
+}
+
+/**
+ * Copie chiffrée d'un message pour un appareil
+ */
+export class MessageCiphertextDto {
+  @ApiProperty({ description: "ID de l'utilisateur destinataire" })
+  @IsMongoId({ message: 'ID utilisateur invalide' })
+  userId: string;
+
+  @ApiProperty({ description: "Identifiant de l'appareil destinataire" })
+  @Matches(DEVICE_ID_PATTERN, { message: "Identifiant d'appareil invalide" })
+  deviceId: string;
+
+  @ApiPropertyOptional({ enum: ['prekey', 'message'], default: 'message' })
+  @IsOptional()
+  @IsIn(['prekey', 'message'])
+  type?: 'prekey' | 'message';
+
+  @ApiProperty({ description: 'Contenu chiffré (base64)' })
+  @IsBase64({}, { message: 'Le contenu chiffré doit être encodé en base64' })
+  @MaxLength(16384, { message: 'Contenu chiffré trop long' })
+  body: string;
+}
+
+/**
+ * Message chiffré de bout en bout : une copie par appareil destinataire
+ */
+export class EncryptedMessageDto {
+  @ApiProperty({ description: "Identifiant de l'appareil expéditeur" })
+  @Matches(DEVICE_ID_PATTERN, { message: "Identifiant d'appareil invalide" })
+  senderDeviceId: string;
+
+  @ApiProperty({
+    description: 'Protocole de chiffrement des clients',
+    example: 'x3dh-double-ratchet-v1',
+  })
+  @IsString()
+  @MaxLength(50)
+  algorithm: string;
+
+  @ApiProperty({ type: [MessageCiphertextDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => MessageCiphertextDto)
+  ciphertexts: MessageCiphertextDto[];
+}
+
+/**
+ * Création d'une conversation directe, chiffrée sur demande
+ */
+export class CreateDirectConversationDto {
+  @ApiProperty({ description: "ID de l'autre participant" })
+  @IsMongoId({ message: 'ID du participant invalide' })
+  participantId: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Activer le chiffrement de bout en bout (définitif pour la conversation)',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  encrypted?: boolean;
+}
@@ -22,10 +22,12 @@ import {
   IsObject,
   ValidateNested,
   IsBoolean,
+  ValidateIf,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { MESSAGING_LIMITS, VALIDATION_MESSAGES } from '../../common/constants/validation-limits.constants';
+import { EncryptedMessageDto } from './message-encryption.dto';
 
 /**
  * DTO pour les métadonnées de message avec validation stricte
@@ -92,7 +94,8 @@ export class SendMessageDto {
   receiverId: string;
 
   /**
-   * Contenu textuel du message avec limites configurables
+   * Contenu textuel du message avec limites configurables (absent pour
+   * un message chiffré)
    * @type {string}
    * @required
    * @minLength Défini par MESSAGING_LIMITS.MESSAGE_CONTENT.MIN
@@ -104,6 +107,7 @@ export class SendMessageDto {
     minLength: MESSAGING_LIMITS.MESSAGE_CONTENT.MIN,
     maxLength: MESSAGING_LIMITS.MESSAGE_CONTENT.MAX
   })
+  @ValidateIf((dto: SendMessageDto) => !dto.encryption)
   @IsString({ message: 'Le contenu doit être une chaîne de caractères' })
   @IsNotEmpty({ message: 'Le contenu du message ne peut pas être vide' })
   @MinLength(MESSAGING_LIMITS.MESSAGE_CONTENT.MIN, {
@@ -154,4 +158,19 @@ export class SendMessageDto {
   @ValidateNested({ message: 'Structure des métadonnées invalide' })
   @Type(() => MessageMetadata)
   metadata?: MessageMetadata;
+
+  /**
+   * Contenu chiffré de bout en bout, obligatoire dans une conversation
+   * chiffrée (le contenu et les métadonnées en clair sont alors ignorés)
+   * @type {EncryptedMessageDto}
+   * @optional
+   */
+  @ApiPropertyOptional({
+    description: 'Message chiffré de bout en bout (conversations chiffrées)',
+    type: EncryptedMessageDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => EncryptedMessageDto)
+  encryption?: EncryptedMessageDto;
 }
@@ -0,0 +1,29 @@
+/**
+ * @fileoverview DTO de traduction d'un message avec le dictionnaire O'Ypunu
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { IsMongoId, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Paramètres de la traduction mot à mot d'un message
+ *
+ * @class TranslateMessageQueryDto
+ */
+export class TranslateMessageQueryDto {
+  /**
+   * Langue cible ; par défaut, la langue maternelle du lecteur
+   * @example "507f1f77bcf86cd799439011"
+   */
+  @ApiPropertyOptional({
+    description:
+      'ID de la langue cible (par défaut, la langue maternelle du lecteur)',
+  })
+  @IsOptional()
+  @IsMongoId({ message: 'ID de langue invalide' })
+  languageId?: string;
+}
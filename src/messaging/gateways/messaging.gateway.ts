@@ -21,11 +21,19 @@ import {
   OnGatewayDisconnect,
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
+import { OnEvent } from '@nestjs/event-emitter';
 import { MessagingService } from '../services/messaging.service';
+import {
+  MESSAGING_DELIVERY_EVENT,
+  MessageDeliveryService,
+  MessagingDeliveryPayload,
+} from '../services/message-delivery.service';
+import { DEFAULT_DEVICE_ID } from '../schemas/message.schema';
 import { SendMessageDto } from '../dto/send-message.dto';
 import { JwtService } from '@nestjs/jwt';
 import { Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { PresenceService } from '../../realtime/services/presence.service';
 
 /**
  * Type étendu de Socket avec données d'authentification
@@ -33,10 +41,12 @@ import { ConfigService } from '@nestjs/config';
  * @typedef {Socket & Object} AuthenticatedSocket
  * @property {string} [userId] - ID de l'utilisateur authentifié
  * @property {string} [username] - Nom d'utilisateur pour affichage
+ * @property {string} [deviceId] - Appareil du client (accusés de réception)
  */
 type AuthenticatedSocket = Socket & {
   userId?: string;
   username?: string;
+  deviceId?: string;
 };
 
 /**
@@ -57,18 +67,24 @@ type AuthenticatedSocket = Socket & {
  * - Room personnelle par utilisateur (user_${userId})
  * - Rooms par conversation (conversation_${conversationId})
  * - Gestion automatique des jointures/sorties
- * - Diffusion ciblée par room
+ * - Diffusion ciblée par room, sur toutes les instances (RealtimeIoAdapter)
  * 
  * ### 📡 Messagerie temps réel
  * - Envoi messages instantané via WebSocket
  * - Notification automatique au destinataire connecté
  * - Accusé de réception pour l'expéditeur
  * - Persistance via MessagingService intégré
+ *
+ * ### 📬 Distribution hors ligne
+ * - Rattrapage à la reconnexion depuis le curseur de l'appareil
+ * - Accusés de réception et de lecture par appareil
+ * - Diffusion des événements de MessageDeliveryService
  * 
  * ### 👀 Fonctionnalités avancées
- * - Indicateurs de présence (online/offline)
+ * - Indicateurs de présence (online/offline) partagés via PresenceService
  * - Typing indicators avec start/stop
- * - Gestion des sessions multiples par utilisateur
+ * - Gestion des sessions multiples par utilisateur (hors ligne à la
+ *   fermeture de la dernière, toutes instances confondues)
  * - Debug mode pour développement
  * 
  * ### 🛠️ Utilitaires d'administration
@@ -97,9 +113,6 @@ export class MessagingGateway
 
   /** Logger pour traçabilité */
   private readonly logger = new Logger(MessagingGateway.name);
-  
-  /** Map des utilisateurs connectés : userId -> socketId */
-  private connectedUsers = new Map<string, string>();
 
   /**
    * Constructeur avec injection des services
@@ -108,11 +121,15 @@ export class MessagingGateway
    * @param {MessagingService} _messagingService - Service de messagerie
    * @param {JwtService} _jwtService - Service JWT pour authentification
    * @param {ConfigService} _configService - Service de configuration
+   * @param {PresenceService} _presenceService - Présence partagée entre instances
+   * @param {MessageDeliveryService} _messageDeliveryService - Distribution et accusés
    */
   constructor(
     private readonly _messagingService: MessagingService,
     private readonly _jwtService: JwtService,
     private readonly _configService: ConfigService,
+    private readonly _presenceService: PresenceService,
+    private readonly _messageDeliveryService: MessageDeliveryService,
   ) {}
 
   /**
@@ -129,9 +146,9 @@ export class MessagingGateway
    * 
    * @example
    * ```javascript
-   * // Côté client - Connexion avec token
+   * // Côté client - Connexion avec token et identifiant d'appareil
    * const socket = io('/messaging', {
-   *   auth: { token: jwtToken },
+   *   auth: { token: jwtToken, deviceId: 'phone-1' },
    *   query: { token: jwtToken } // Alternative
    * });
    * ```
@@ -160,11 +177,11 @@ export class MessagingGateway
 
       client.userId = payload.sub;
       client.username = payload.username;
-
-      // Ajouter l'utilisateur à la liste des connectés
-      if (client.userId) {
-        this.connectedUsers.set(client.userId, client.id);
-      }
+      client.deviceId = String(
+        client.handshake.auth?.deviceId ||
+          client.handshake.query?.deviceId ||
+          DEFAULT_DEVICE_ID,
+      );
 
       // Joindre l'utilisateur à sa "room" personnelle
       client.join(`user_${client.userId}`);
@@ -173,11 +190,6 @@ export class MessagingGateway
         `✅ Utilisateur ${client.username} (${client.userId}) connecté via WebSocket`,
       );
 
-      // Notifier les autres utilisateurs que cet utilisateur est en ligne
-      client.broadcast.emit('user_online', {
-        userId: client.userId,
-        username: client.username,
-      });
     } catch (error) {
       this.logger.error("❌ Erreur lors de l'authentification WebSocket:", error);
 
@@ -191,32 +203,56 @@ export class MessagingGateway
       const errorMessage = this._getAuthErrorMessage(errorCode);
       
       this._sendErrorAndDisconnect(client, errorCode, errorMessage);
+      return;
+    }
+
+    try {
+      // Enregistrer la connexion et, s'il était hors ligne, notifier les
+      // autres utilisateurs que cet utilisateur est en ligne
+      if (
+        client.userId &&
+        (await this._presenceService.userConnected(client.userId, client.id))
+      ) {
+        client.broadcast.emit('user_online', {
+          userId: client.userId,
+          username: client.username,
+        });
+      }
+    } catch (error) {
+      this.logger.error('❌ Erreur lors de la mise à jour de présence:', error);
     }
   }
 
-  handleDisconnect(client: AuthenticatedSocket) {
+  async handleDisconnect(client: AuthenticatedSocket) {
     if (client.userId) {
-      // Retirer l'utilisateur de la liste des connectés
-      this.connectedUsers.delete(client.userId);
-
       this.logger.log(
         `🔌 Utilisateur ${client.username} (${client.userId}) déconnecté`,
       );
 
-      // Notifier les autres utilisateurs que cet utilisateur est hors ligne
-      client.broadcast.emit('user_offline', {
-        userId: client.userId,
-        username: client.username,
-      });
+      try {
+        // Notifier les autres utilisateurs que cet utilisateur est hors
+        // ligne, s'il n'a plus aucune connexion ouverte
+        if (
+          await this._presenceService.userDisconnected(client.userId, client.id)
+        ) {
+          client.broadcast.emit('user_offline', {
+            userId: client.userId,
+            username: client.username,
+          });
+        }
+      } catch (error) {
+        this.logger.error('❌ Erreur lors de la mise à jour de présence:', error);
+      }
     }
   }
 
   /**
    * Gère l'envoi d'un message via WebSocket
    * 
-   * Cette méthode handler reçoit un message du client, le persiste
-   * via le service de messagerie et le diffuse en temps réel au
-   * destinataire s'il est connecté. L'expéditeur reçoit confirmation.
+   * Cette méthode handler reçoit un message du client et le persiste
+   * via le service de messagerie, qui le distribue au destinataire
+   * (immédiatement s'il est connecté, sinon à sa reconnexion).
+   * L'expéditeur reçoit confirmation.
    * 
    * @async
    * @method handleSendMessage
@@ -246,18 +282,12 @@ export class MessagingGateway
         return;
       }
 
-      // Envoyer le message via le service
+      // Envoyer le message via le service (qui le distribue au destinataire)
       const message = await this._messagingService.sendMessage(
         client.userId,
         data,
       );
 
-      // Envoyer le message au destinataire s'il est connecté
-      const receiverSocketId = this.connectedUsers.get(data.receiverId);
-      if (receiverSocketId) {
-        this.server.to(receiverSocketId).emit('new_message', message);
-      }
-
       // Confirmer l'envoi à l'expéditeur
       client.emit('message_sent', message);
 
@@ -270,6 +300,100 @@ export class MessagingGateway
     }
   }
 
+  /**
+   * Rejoue les événements manqués depuis le curseur de l'appareil
+   *
+   * Le client répète la demande avec le curseur reçu tant que `hasMore`
+   * est vrai ; les messages rejoués sont marqués reçus par l'appareil.
+   *
+   * @example
+   * ```javascript
+   * socket.emit('sync_messages', { cursor: lastCursor, limit: 100 });
+   * socket.on('sync_batch', ({ events, cursor, hasMore }) => { ... });
+   * ```
+   */
+  @SubscribeMessage('sync_messages')
+  async handleSyncMessages(
+    @ConnectedSocket() client: AuthenticatedSocket,
+    @MessageBody() data: { cursor?: string; limit?: number },
+  ) {
+    try {
+      if (!client.userId) {
+        client.emit('error', { message: 'Non authentifié' });
+        return;
+      }
+
+      const batch = await this._messageDeliveryService.sync(
+        client.userId,
+        client.deviceId || DEFAULT_DEVICE_ID,
+        { cursor: data?.cursor, limit: data?.limit },
+      );
+      client.emit('sync_batch', batch);
+    } catch (error) {
+      this.logger.error('❌ Erreur lors du rattrapage des messages:', error);
+      client.emit('error', {
+        message: 'Erreur lors du rattrapage des messages',
+      });
+    }
+  }
+
+  /**
+   * Accusé de réception de messages reçus en direct par l'appareil
+   */
+  @SubscribeMessage('message_delivered')
+  async handleMessageDelivered(
+    @ConnectedSocket() client: AuthenticatedSocket,
+    @MessageBody() data: { messageIds: string[] },
+  ) {
+    try {
+      if (!client.userId || !Array.isArray(data?.messageIds)) return;
+
+      await this._messageDeliveryService.markDelivered(
+        client.userId,
+        client.deviceId || DEFAULT_DEVICE_ID,
+        data.messageIds,
+      );
+    } catch (error) {
+      this.logger.error("❌ Erreur lors de l'accusé de réception:", error);
+    }
+  }
+
+  /**
+   * Marque une conversation comme lue depuis l'appareil
+   */
+  @SubscribeMessage('mark_read')
+  async handleMarkRead(
+    @ConnectedSocket() client: AuthenticatedSocket,
+    @MessageBody() data: { conversationId: string },
+  ) {
+    try {
+      if (!client.userId) {
+        client.emit('error', { message: 'Non authentifié' });
+        return;
+      }
+
+      await this._messagingService.markMessagesAsRead(
+        client.userId,
+        data.conversationId,
+        client.deviceId || DEFAULT_DEVICE_ID,
+      );
+    } catch (error) {
+      this.logger.error('❌ Erreur lors du marquage comme lu:', error);
+      client.emit('error', { message: 'Erreur lors du marquage comme lu' });
+    }
+  }
+
+  /**
+   * Diffuse aux connexions ouvertes des destinataires les événements de
+   * distribution (nouveaux messages, accusés, lectures, suppressions)
+   */
+  @OnEvent(MESSAGING_DELIVERY_EVENT)
+  handleDeliveryEvent(payload: MessagingDeliveryPayload) {
+    for (const userId of payload.userIds) {
+      this.sendToUser(userId, payload.event, payload.data);
+    }
+  }
+
   @SubscribeMessage('join_conversation')
   async handleJoinConversation(
     @ConnectedSocket() client: AuthenticatedSocket,
@@ -323,6 +447,11 @@ export class MessagingGateway
     try {
       if (!client.userId) return;
 
+      await this._presenceService.startTyping(
+        data.conversationId,
+        client.userId,
+      );
+
       // Notifier les autres participants de la conversation que l'utilisateur tape
       client.to(`conversation_${data.conversationId}`).emit('user_typing', {
         userId: client.userId,
@@ -342,6 +471,11 @@ export class MessagingGateway
     try {
       if (!client.userId) return;
 
+      await this._presenceService.stopTyping(
+        data.conversationId,
+        client.userId,
+      );
+
       // Notifier les autres participants que l'utilisateur a arrêté de taper
       client
         .to(`conversation_${data.conversationId}`)
@@ -388,12 +522,10 @@ export class MessagingGateway
 
   /**
    * Méthode utilitaire pour envoyer un message à un utilisateur spécifique
+   * (toutes ses connexions, sur toutes les instances)
    */
   sendToUser(userId: string, event: string, data: any) {
-    const socketId = this.connectedUsers.get(userId);
-    if (socketId) {
-      this.server.to(socketId).emit(event, data);
-    }
+    this.server.to(`user_${userId}`).emit(event, data);
   }
 
   /**
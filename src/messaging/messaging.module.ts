@@ -16,9 +16,14 @@ import { MessagingService } from "./services/messaging.service";
 import { MessagingController } from "./controllers/messaging.controller";
 import { MessagingEnhancedService } from "./services/messaging-enhanced.service";
 import { MessagingEnhancedController } from "./controllers/messaging-enhanced.controller";
+import { MessageDictionaryService } from "./services/message-dictionary.service";
+import { MessageEncryptionService } from "./services/message-encryption.service";
+import { MessageEncryptionController } from "./controllers/message-encryption.controller";
+import { MessageDeliveryService } from "./services/message-delivery.service";
 import { MessagingGateway } from "./gateways/messaging.gateway";
 import { RepositoriesModule } from "../repositories/repositories.module";
 import { DictionaryModule } from "../dictionary/dictionary.module";
+import { ModerationModule } from "../moderation/moderation.module";
 import { JwtModule } from "@nestjs/jwt";
 
 /**
@@ -42,10 +47,12 @@ import { JwtModule } from "@nestjs/jwt";
  * ### 🔗 Intégrations
  * - RepositoriesModule : Accès données optimisé
  * - DictionaryModule : Traductions contextuelles dans messages
+ * - ModerationModule : Modération automatique des messages
  * - JwtModule : Authentification sécurisée des connexions
  * 
  * ### 📡 Fonctionnalités temps réel
- * - Messages instantanés avec accusés de réception
+ * - Messages instantanés avec accusés de réception et de lecture par appareil
+ * - Rattrapage des messages manqués à la reconnexion
  * - Indicateurs de frappe (typing indicators)
  * - Présence utilisateur (online/offline)
  * - Notifications push intégrées
@@ -59,6 +66,8 @@ import { JwtModule } from "@nestjs/jwt";
     RepositoriesModule,
     /** Intégration dictionnaire pour traductions contextuelles */
     DictionaryModule,
+    /** Modération automatique des messages envoyés */
+    ModerationModule,
     /** Configuration JWT pour authentification WebSocket */
     JwtModule.register({
       secret: process.env.JWT_SECRET || "your-secret-key",
@@ -70,12 +79,20 @@ import { JwtModule } from "@nestjs/jwt";
     MessagingController,
     /** Contrôleur avancé avec fonctionnalités complètes */
     MessagingEnhancedController,
+    /** Clés publiques des appareils (chiffrement de bout en bout) */
+    MessageEncryptionController,
   ],
   providers: [
     /** Service de messagerie basique */
     MessagingService,
     /** Service de messagerie avancé avec features étendues */
     MessagingEnhancedService,
+    /** Détection des mots du dictionnaire et traductions dans les messages */
+    MessageDictionaryService,
+    /** Chiffrement de bout en bout des conversations privées */
+    MessageEncryptionService,
+    /** File de distribution hors ligne et accusés par appareil */
+    MessageDeliveryService,
     /** Gateway WebSocket pour communications temps réel */
     MessagingGateway,
   ],
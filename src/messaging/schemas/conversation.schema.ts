@@ -37,6 +37,16 @@ export class Conversation {
 
   @Prop({ type: Boolean, default: true })
   isActive: boolean;
+
+  /**
+   * Chiffrement de bout en bout activé (conversations privées, sans retour
+   * arrière) : les messages suivants ne sont stockés que chiffrés
+   */
+  @Prop({ type: Boolean, default: false })
+  isEncrypted: boolean;
+
+  @Prop({ type: Date, default: null })
+  encryptedAt?: Date;
 }
 
 export const ConversationSchema = SchemaFactory.createForClass(Conversation);
@@ -0,0 +1,88 @@
+/**
+ * @fileoverview Schéma de la file de distribution des messages O'Ypunu
+ *
+ * Chaque événement de messagerie destiné à un utilisateur (nouveau
+ * message, accusé de réception, lecture d'une conversation, suppression)
+ * est conservé dans sa file : un appareil qui se reconnecte rejoue les
+ * événements postérieurs à son curseur, le numéro d'ordre du dernier
+ * événement reçu. Les événements expirent après la période de rétention :
+ * un client plus ancien recharge ses conversations.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+
+export type MessageDeliveryEventDocument = MessageDeliveryEvent & Document;
+
+/** Durée de conservation des événements de distribution */
+export const MESSAGE_DELIVERY_RETENTION_DAYS = 30;
+
+/**
+ * Délai au-delà duquel un numéro d'ordre réservé mais jamais écrit est
+ * considéré comme perdu : le rattrapage ne l'attend plus
+ */
+export const MESSAGE_DELIVERY_SEQUENCE_GRACE_MS = 10_000;
+
+export type MessageDeliveryEventType =
+  | 'message'
+  | 'message_status'
+  | 'conversation_read'
+  | 'message_deleted';
+
+@Schema({
+  collection: 'message_delivery_events',
+  timestamps: { createdAt: true, updatedAt: false },
+})
+export class MessageDeliveryEvent {
+  /** Utilisateur à qui l'événement est destiné */
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'User', required: true })
+  userId: string;
+
+  /**
+   * Numéro d'ordre dans la file de l'utilisateur, attribué par son
+   * compteur : croissant, sans trou hors écriture perdue
+   */
+  @Prop({ type: Number, required: true })
+  sequence: number;
+
+  @Prop({
+    type: String,
+    enum: ['message', 'message_status', 'conversation_read', 'message_deleted'],
+    required: true,
+  })
+  type: MessageDeliveryEventType;
+
+  @Prop({
+    type: MongooseSchema.Types.ObjectId,
+    ref: 'Conversation',
+    required: true,
+  })
+  conversationId: string;
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'Message' })
+  messageId?: string;
+
+  /**
+   * Données de l'événement :
+   * - message_status : `userId`, `deviceId`, `status`, `at`
+   * - conversation_read : `userId`, `deviceId`, `readAt`
+   */
+  @Prop({ type: Object, default: null })
+  data?: Record<string, any> | null;
+
+  createdAt?: Date;
+}
+
+export const MessageDeliveryEventSchema =
+  SchemaFactory.createForClass(MessageDeliveryEvent);
+
+// === INDEX OPTIMISÉS POUR PERFORMANCES ===
+MessageDeliveryEventSchema.index({ userId: 1, sequence: 1 }, { unique: true }); // Pour rattrapage par curseur
+MessageDeliveryEventSchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: MESSAGE_DELIVERY_RETENTION_DAYS * 24 * 3600 },
+); // Expiration après la période de rétention
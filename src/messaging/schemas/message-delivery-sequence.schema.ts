@@ -0,0 +1,37 @@
+/**
+ * @fileoverview Compteur de la file de distribution des messages O'Ypunu
+ *
+ * Chaque utilisateur dispose d'un compteur incrémenté atomiquement à
+ * chaque ajout dans sa file : les numéros obtenus ordonnent ses
+ * événements de distribution, quelle que soit l'instance qui les écrit.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+
+export type MessageDeliverySequenceDocument = MessageDeliverySequence &
+  Document;
+
+@Schema({ collection: 'message_delivery_sequences' })
+export class MessageDeliverySequence {
+  /** Utilisateur propriétaire de la file */
+  @Prop({
+    type: MongooseSchema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    unique: true,
+  })
+  userId: string;
+
+  /** Dernier numéro attribué dans la file */
+  @Prop({ type: Number, default: 0 })
+  value: number;
+}
+
+export const MessageDeliverySequenceSchema = SchemaFactory.createForClass(
+  MessageDeliverySequence,
+);
@@ -22,6 +22,74 @@ import { Conversation } from './conversation.schema';
  */
 export type MessageDocument = Message & Document;
 
+/**
+ * Message chiffré pour un appareil destinataire
+ */
+@Schema({ _id: false })
+export class MessageCiphertext {
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'User', required: true })
+  userId: User;
+
+  @Prop({ required: true })
+  deviceId: string;
+
+  /** 'prekey' pour le premier message d'une session, sinon 'message' */
+  @Prop({ type: String, enum: ['prekey', 'message'], default: 'message' })
+  type: string;
+
+  /** Contenu chiffré encodé en base64 */
+  @Prop({ required: true })
+  body: string;
+}
+
+export const MessageCiphertextSchema =
+  SchemaFactory.createForClass(MessageCiphertext);
+
+/**
+ * Contenu d'un message chiffré de bout en bout : une copie chiffrée par
+ * appareil, illisible par le serveur
+ */
+@Schema({ _id: false })
+export class MessageEncryption {
+  /** Appareil expéditeur */
+  @Prop({ required: true })
+  senderDeviceId: string;
+
+  /** Protocole utilisé par les clients, ex: 'x3dh-double-ratchet-v1' */
+  @Prop({ required: true })
+  algorithm: string;
+
+  @Prop({ type: [MessageCiphertextSchema], default: [] })
+  ciphertexts: MessageCiphertext[];
+}
+
+export const MessageEncryptionSchema =
+  SchemaFactory.createForClass(MessageEncryption);
+
+/** Appareil attribué aux clients qui ne s'identifient pas */
+export const DEFAULT_DEVICE_ID = 'default';
+
+/**
+ * Accusé de réception d'un message par un appareil destinataire
+ */
+@Schema({ _id: false })
+export class MessageReceipt {
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'User', required: true })
+  userId: User;
+
+  @Prop({ required: true })
+  deviceId: string;
+
+  @Prop({ type: Date, required: true })
+  deliveredAt: Date;
+
+  @Prop({ type: Date, default: null })
+  readAt?: Date | null;
+}
+
+export const MessageReceiptSchema =
+  SchemaFactory.createForClass(MessageReceipt);
+
 /**
  * Schéma de message O'Ypunu
  * 
@@ -68,13 +136,27 @@ export class Message {
   receiverId: User;
 
   /**
-   * Contenu textuel du message (max 1000 caractères)
+   * Contenu textuel du message (max 1000 caractères), vide pour un
+   * message chiffré
    * @type {string}
    * @maxLength 1000
    */
-  @Prop({ required: true, maxlength: 1000 })
+  @Prop({
+    required: function (this: Message) {
+      return !this.encryption;
+    },
+    maxlength: 1000,
+  })
   content: string;
 
+  /**
+   * Contenu chiffré de bout en bout (conversations chiffrées uniquement)
+   * @type {MessageEncryption}
+   * @default null
+   */
+  @Prop({ type: MessageEncryptionSchema, default: null })
+  encryption?: MessageEncryption;
+
   /**
    * Type de message pour différencier le contenu
    * @type {string}
@@ -90,9 +172,10 @@ export class Message {
 
   /**
    * Métadonnées extensibles pour enrichissements
-   * - word_share: informations du mot partagé
+   * - word_share: informations du mot partagé (`wordId`, `sharedWord`)
    * - language: langue du message si spécifiée
-   * - translation: traduction automatique si applicable
+   * - dictionary: mots du dictionnaire reconnus et leurs traductions
+   * - translation: traduction par le dictionnaire si demandée (`translationRequested`)
    * @type {Record<string, any>}
    * @default null
    */
@@ -115,6 +198,16 @@ export class Message {
   @Prop({ type: Date, default: null })
   readAt: Date;
 
+  /**
+   * Accusés de réception et de lecture par destinataire et par appareil
+   * (statut `sent` tant qu'aucun appareil du destinataire n'a reçu le
+   * message, puis `delivered` et `read`)
+   * @type {MessageReceipt[]}
+   * @default []
+   */
+  @Prop({ type: [MessageReceiptSchema], default: [] })
+  receipts: MessageReceipt[];
+
   /**
    * Indicateur de suppression soft du message
    * @type {boolean}
@@ -123,6 +216,14 @@ export class Message {
   @Prop({ type: Boolean, default: false })
   isDeleted: boolean;
 
+  /**
+   * Indicateur de masquage par la modération automatique
+   * @type {boolean}
+   * @default false
+   */
+  @Prop({ type: Boolean, default: false })
+  isHidden: boolean;
+
   /**
    * Horodatage de suppression du message
    * @type {Date}
@@ -156,7 +257,9 @@ export const MessageSchema = SchemaFactory.createForClass(Message);
  * - conversationId + createdAt : Récupération chronologique des messages par conversation
  * - senderId : Messages envoyés par un utilisateur spécifique
  * - receiverId + isRead : Messages non lus pour un utilisateur (notifications)
+ * - conversationId + receipts.userId : Accusés de lecture d'une conversation
  */
 MessageSchema.index({ conversationId: 1, createdAt: -1 });
 MessageSchema.index({ senderId: 1 });
 MessageSchema.index({ receiverId: 1, isRead: 1 });
+MessageSchema.index({ conversationId: 1, 'receipts.userId': 1 });
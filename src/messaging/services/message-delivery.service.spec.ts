@@ -0,0 +1,259 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { EventEmitter2 } from "@nestjs/event-emitter";
+import {
+  MESSAGING_DELIVERY_EVENT,
+  MessageDeliveryService,
+} from "./message-delivery.service";
+
+describe("MessageDeliveryService", () => {
+  let service: MessageDeliveryService;
+  let messages: Record<string, any>;
+  let queue: any[];
+  let eventEmitter: { emit: jest.Mock };
+
+  const aliceId = "64d000000000000000000001";
+  const bobId = "64d000000000000000000002";
+  const conversationId = "64d000000000000000000100";
+
+  function message(id: string, overrides: Record<string, any> = {}) {
+    messages[id] = {
+      _id: id,
+      conversationId,
+      senderId: aliceId,
+      receiverId: bobId,
+      content: `Message ${id}`,
+      isRead: false,
+      isHidden: false,
+      receipts: [],
+      ...overrides,
+    };
+    return messages[id];
+  }
+
+  beforeEach(async () => {
+    messages = {};
+    queue = [];
+    eventEmitter = { emit: jest.fn() };
+
+    const messageRepository = {
+      findById: jest.fn((id: string) => Promise.resolve(messages[id] || null)),
+      findByIds: jest.fn((ids: string[]) =>
+        Promise.resolve(ids.map((id) => messages[id]).filter(Boolean))
+      ),
+      addDeliveryReceipts: jest.fn(
+        (ids: string[], userId: string, deviceId: string) => {
+          for (const id of ids) {
+            messages[id].receipts.push({
+              userId,
+              deviceId,
+              deliveredAt: new Date(),
+              readAt: null,
+            });
+          }
+          return Promise.resolve(ids.length);
+        }
+      ),
+    };
+    // File en mémoire : numéros d'ordre par utilisateur servant de curseur
+    const deliveryEventRepository = {
+      enqueue: jest.fn((events: any[]) => {
+        for (const event of events) {
+          queue.push({
+            _id: `e${String(queue.length + 1).padStart(4, "0")}`,
+            sequence:
+              queue.filter(({ userId }) => userId === event.userId).length + 1,
+            createdAt: new Date(),
+            ...event,
+          });
+        }
+        return Promise.resolve();
+      }),
+      findForUser: jest.fn((userId: string, after: number, limit: number) =>
+        Promise.resolve(
+          queue
+            .filter(
+              (event) =>
+                event.userId === userId && event.sequence > (after ?? 0)
+            )
+            .slice(0, limit)
+        )
+      ),
+    };
+    const conversationRepository = {
+      isParticipant: jest.fn((id: string, userId: string) =>
+        Promise.resolve(
+          id === conversationId && [aliceId, bobId].includes(userId)
+        )
+      ),
+      getParticipants: jest.fn().mockResolvedValue([aliceId, bobId]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MessageDeliveryService,
+        { provide: "IMessageRepository", useValue: messageRepository },
+        {
+          provide: "IMessageDeliveryEventRepository",
+          useValue: deliveryEventRepository,
+        },
+        {
+          provide: "IConversationRepository",
+          useValue: conversationRepository,
+        },
+        { provide: EventEmitter2, useValue: eventEmitter },
+      ],
+    }).compile();
+
+    service = module.get<MessageDeliveryService>(MessageDeliveryService);
+  });
+
+  it("should replay undelivered messages once per device and notify the sender", async () => {
+    await service.dispatchMessage(message("64d000000000000000000201"), [bobId]);
+    expect(eventEmitter.emit).toHaveBeenCalledWith(MESSAGING_DELIVERY_EVENT, {
+      userIds: [bobId],
+      event: "new_message",
+      data: expect.objectContaining({ _id: "64d000000000000000000201" }),
+    });
+
+    const batch = await service.sync(bobId, "bob-phone");
+    expect(batch.events).toEqual([
+      expect.objectContaining({
+        type: "message",
+        messageId: "64d000000000000000000201",
+        message: expect.objectContaining({
+          content: "Message 64d000000000000000000201",
+        }),
+      }),
+    ]);
+    expect(batch.hasMore).toBe(false);
+
+    // L'expéditeur reçoit l'accusé, en direct et dans sa file
+    expect(eventEmitter.emit).toHaveBeenLastCalledWith(
+      MESSAGING_DELIVERY_EVENT,
+      expect.objectContaining({
+        userIds: [aliceId],
+        event: "message_status",
+        data: expect.objectContaining({
+          messageId: "64d000000000000000000201",
+          userId: bobId,
+          deviceId: "bob-phone",
+          status: "delivered",
+        }),
+      })
+    );
+    expect((await service.sync(aliceId, "alice-phone")).events).toEqual([
+      expect.objectContaining({ type: "message_status" }),
+    ]);
+
+    // Déjà reçu par ce téléphone, mais pas par l'ordinateur
+    expect(
+      (await service.sync(bobId, "bob-phone", { cursor: batch.cursor! })).events
+    ).toEqual([]);
+    expect((await service.sync(bobId, "bob-phone")).events).toEqual([]);
+    expect((await service.sync(bobId, "bob-laptop")).events).toHaveLength(1);
+
+    // Un curseur de l'ancien format (identifiant d'événement) rejoue la file
+    expect(
+      (
+        await service.sync(bobId, "bob-tablet", {
+          cursor: "64d000000000000000000999",
+        })
+      ).events
+    ).toHaveLength(1);
+  });
+
+  it("should page through the queue and skip deleted or hidden messages", async () => {
+    await service.dispatchMessage(message("64d000000000000000000201"), [bobId]);
+    await service.dispatchMessage(
+      message("64d000000000000000000202", { isHidden: true }),
+      [bobId]
+    );
+    await service.dispatchMessage(message("64d000000000000000000203"), [bobId]);
+    delete messages["64d000000000000000000201"];
+    await service.messageDeleted(conversationId, "64d000000000000000000201", [
+      aliceId,
+      bobId,
+    ]);
+
+    const first = await service.sync(bobId, "bob-phone", { limit: 2 });
+    expect(first.events).toEqual([]);
+    expect(first.cursor).toBe("2");
+    expect(first.hasMore).toBe(true);
+
+    const second = await service.sync(bobId, "bob-phone", {
+      cursor: first.cursor!,
+      limit: 2,
+    });
+    expect(second.events.map((event) => event.type)).toEqual([
+      "message",
+      "message_deleted",
+    ]);
+    expect(second.events[0].messageId).toBe("64d000000000000000000203");
+    expect(second.hasMore).toBe(false);
+  });
+
+  it("should ignore delivery receipts for own messages and foreign conversations", async () => {
+    message("64d000000000000000000201");
+    message("64d000000000000000000202", {
+      senderId: bobId,
+      receiverId: aliceId,
+    });
+    message("64d000000000000000000203", {
+      conversationId: "64d000000000000000000999",
+    });
+
+    await expect(
+      service.markDelivered(bobId, "bob-phone", [
+        "64d000000000000000000201",
+        "64d000000000000000000202",
+        "64d000000000000000000203",
+      ])
+    ).resolves.toEqual({ deliveredCount: 1 });
+    await expect(
+      service.markDelivered(bobId, "bob-phone", ["64d000000000000000000201"])
+    ).resolves.toEqual({ deliveredCount: 0 });
+  });
+
+  it("should derive sent, delivered and read statuses per recipient", async () => {
+    const carolId = "64d000000000000000000003";
+    const groupMessage = message("64d000000000000000000201", {
+      receiverId: "64d000000000000000000100",
+      receipts: [
+        {
+          userId: bobId,
+          deviceId: "bob-phone",
+          deliveredAt: new Date("2025-01-01T10:00:00Z"),
+          readAt: null,
+        },
+        {
+          userId: bobId,
+          deviceId: "bob-laptop",
+          deliveredAt: new Date("2025-01-01T10:05:00Z"),
+          readAt: new Date("2025-01-01T10:06:00Z"),
+        },
+      ],
+    });
+
+    expect(
+      MessageDeliveryService.getRecipientReceipt(groupMessage, bobId)
+    ).toEqual(
+      expect.objectContaining({
+        status: "read",
+        deliveredAt: new Date("2025-01-01T10:00:00Z"),
+        readAt: new Date("2025-01-01T10:06:00Z"),
+      })
+    );
+    expect(
+      MessageDeliveryService.getRecipientReceipt(groupMessage, carolId).status
+    ).toBe("sent");
+
+    // Lu avant l'introduction des accusés
+    const legacyMessage = message("64d000000000000000000202", {
+      isRead: true,
+      readAt: new Date("2025-01-01T09:00:00Z"),
+    });
+    expect(
+      MessageDeliveryService.getRecipientReceipt(legacyMessage, bobId).status
+    ).toBe("read");
+  });
+});
@@ -0,0 +1,422 @@
+import {
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import { EventEmitter2 } from "@nestjs/event-emitter";
+import { IMessageRepository } from "../../repositories/interfaces/message.repository.interface";
+import { IMessageDeliveryEventRepository } from "../../repositories/interfaces/message-delivery-event.repository.interface";
+import { IConversationRepository } from "../../repositories/interfaces/conversation.repository.interface";
+import { Message, MessageReceipt } from "../schemas/message.schema";
+import { MessageDeliveryEventType } from "../schemas/message-delivery-event.schema";
+
+/** Nombre d'événements rejoués par défaut à chaque rattrapage */
+export const DEFAULT_SYNC_LIMIT = 100;
+
+/** Nombre maximal d'événements rejoués à chaque rattrapage */
+export const MAX_SYNC_LIMIT = 500;
+
+/** Événement émis pour une diffusion immédiate par la gateway */
+export const MESSAGING_DELIVERY_EVENT = "messaging.delivery";
+
+export type DeliveryStatus = "sent" | "delivered" | "read";
+
+/**
+ * Diffusion temps réel demandée à la gateway de messagerie
+ */
+export interface MessagingDeliveryPayload {
+  userIds: string[];
+  event:
+    | "new_message"
+    | "message_status"
+    | "conversation_read"
+    | "message_deleted";
+  data: Record<string, any>;
+}
+
+/**
+ * Événement rejoué lors d'un rattrapage ; `id`, son numéro d'ordre dans
+ * la file de l'utilisateur, sert de curseur
+ */
+export interface MessageSyncEvent {
+  id: string;
+  type: MessageDeliveryEventType;
+  conversationId: string;
+  messageId?: string;
+  /** Message complet (événements `message`) */
+  message?: Message;
+  data?: Record<string, any> | null;
+  createdAt?: Date;
+}
+
+export interface MessageSyncBatch {
+  events: MessageSyncEvent[];
+  /** Curseur à renvoyer au prochain rattrapage */
+  cursor: string | null;
+  hasMore: boolean;
+}
+
+/**
+ * Statut d'un message pour l'un de ses destinataires
+ */
+export interface RecipientReceipt {
+  userId: string;
+  status: DeliveryStatus;
+  deliveredAt: Date | null;
+  readAt: Date | null;
+  devices: Array<{
+    deviceId: string;
+    deliveredAt: Date;
+    readAt: Date | null;
+  }>;
+}
+
+/** Identifiant d'une référence, peuplée ou non */
+function idOf(value: any): string {
+  return String(value?._id ?? value);
+}
+
+/**
+ * Service de distribution des messages
+ *
+ * Chaque événement destiné à un utilisateur est ajouté à sa file de
+ * distribution puis diffusé immédiatement à ses connexions ouvertes. Un
+ * appareil qui se reconnecte rejoue sa file depuis son curseur : les
+ * messages qu'il n'avait pas reçus lui sont renvoyés et reçoivent son
+ * accusé de réception, ce qui notifie l'expéditeur. Les statuts
+ * (`sent`, `delivered`, `read`) se déduisent des accusés par appareil.
+ */
+@Injectable()
+export class MessageDeliveryService {
+  constructor(
+    @Inject("IMessageRepository") private messageRepository: IMessageRepository,
+    @Inject("IMessageDeliveryEventRepository")
+    private deliveryEventRepository: IMessageDeliveryEventRepository,
+    @Inject("IConversationRepository")
+    private conversationRepository: IConversationRepository,
+    private eventEmitter: EventEmitter2
+  ) {}
+
+  /**
+   * Distribue un nouveau message à ses destinataires
+   *
+   * @param message - Message tel qu'envoyé aux clients
+   */
+  async dispatchMessage(message: any, recipientIds: string[]): Promise<void> {
+    const conversationId = idOf(message.conversationId);
+    const messageId = String(message._id ?? message.id);
+    await this.deliveryEventRepository.enqueue(
+      recipientIds.map((userId) => ({
+        userId,
+        type: "message" as const,
+        conversationId,
+        messageId,
+      }))
+    );
+    this.emit({ userIds: recipientIds, event: "new_message", data: message });
+  }
+
+  /**
+   * Enregistre la réception de messages par un appareil
+   *
+   * Les messages de l'utilisateur, masqués, déjà reçus par l'appareil ou
+   * de conversations dont il ne fait pas partie sont ignorés.
+   */
+  async markDelivered(
+    userId: string,
+    deviceId: string,
+    messageIds: string[]
+  ): Promise<{ deliveredCount: number }> {
+    const messages = (
+      await this.messageRepository.findByIds(messageIds)
+    ).filter(
+      (message) =>
+        idOf(message.senderId) !== userId &&
+        !message.isHidden &&
+        !MessageDeliveryService.hasReceipt(message, userId, deviceId)
+    );
+
+    const conversationIds = [
+      ...new Set(messages.map((message) => idOf(message.conversationId))),
+    ];
+    const allowed = new Set<string>();
+    for (const conversationId of conversationIds) {
+      if (
+        await this.conversationRepository.isParticipant(conversationId, userId)
+      ) {
+        allowed.add(conversationId);
+      }
+    }
+
+    return {
+      deliveredCount: await this.recordDelivery(
+        userId,
+        deviceId,
+        messages.filter((message) => allowed.has(idOf(message.conversationId)))
+      ),
+    };
+  }
+
+  /**
+   * Notifie les participants de la lecture d'une conversation, y compris
+   * les autres appareils du lecteur
+   */
+  async conversationRead(
+    userId: string,
+    deviceId: string,
+    conversationId: string,
+    participantIds: string[]
+  ): Promise<void> {
+    const data = { userId, deviceId, readAt: new Date() };
+    await this.deliveryEventRepository.enqueue(
+      participantIds.map((participantId) => ({
+        userId: participantId,
+        type: "conversation_read" as const,
+        conversationId,
+        data,
+      }))
+    );
+    this.emit({
+      userIds: participantIds,
+      event: "conversation_read",
+      data: { conversationId, ...data },
+    });
+  }
+
+  /**
+   * Notifie les participants de la suppression d'un message pour tous
+   */
+  async messageDeleted(
+    conversationId: string,
+    messageId: string,
+    participantIds: string[]
+  ): Promise<void> {
+    await this.deliveryEventRepository.enqueue(
+      participantIds.map((userId) => ({
+        userId,
+        type: "message_deleted" as const,
+        conversationId,
+        messageId,
+      }))
+    );
+    this.emit({
+      userIds: participantIds,
+      event: "message_deleted",
+      data: { conversationId, messageId },
+    });
+  }
+
+  /**
+   * Rejoue la file d'un utilisateur depuis le curseur de l'appareil
+   *
+   * Les messages déjà reçus par l'appareil, supprimés ou masqués ne sont
+   * pas renvoyés ; les autres reçoivent son accusé de réception. Sans
+   * curseur, ou avec un curseur qui n'est pas un numéro d'ordre (ancien
+   * format), toute la file conservée est parcourue : les accusés évitent
+   * de renvoyer les messages déjà reçus.
+   */
+  async sync(
+    userId: string,
+    deviceId: string,
+    options: { cursor?: string; limit?: number } = {}
+  ): Promise<MessageSyncBatch> {
+    const limit = Math.min(
+      Math.max(Math.floor(options.limit || DEFAULT_SYNC_LIMIT), 1),
+      MAX_SYNC_LIMIT
+    );
+    const after = Number(options.cursor);
+    const queued = await this.deliveryEventRepository.findForUser(
+      userId,
+      options.cursor && Number.isSafeInteger(after) && after >= 0
+        ? after
+        : undefined,
+      limit + 1
+    );
+    const page = queued.slice(0, limit);
+
+    const messages = new Map(
+      (
+        await this.messageRepository.findByIds(
+          page
+            .filter((event) => event.type === "message" && event.messageId)
+            .map((event) => idOf(event.messageId))
+        )
+      ).map((message) => [idOf(message), message])
+    );
+
+    const events: MessageSyncEvent[] = [];
+    const delivered: Message[] = [];
+    for (const event of page) {
+      const syncEvent: MessageSyncEvent = {
+        id: String(event.sequence),
+        type: event.type,
+        conversationId: idOf(event.conversationId),
+        messageId: event.messageId ? idOf(event.messageId) : undefined,
+        createdAt: event.createdAt,
+      };
+      if (event.type !== "message") {
+        events.push({ ...syncEvent, data: event.data });
+        continue;
+      }
+
+      const message = messages.get(syncEvent.messageId!);
+      const hiddenForUsers: string[] = message?.metadata?.hiddenForUsers || [];
+      if (
+        !message ||
+        message.isHidden ||
+        hiddenForUsers.includes(userId) ||
+        MessageDeliveryService.hasReceipt(message, userId, deviceId)
+      ) {
+        continue;
+      }
+      events.push({ ...syncEvent, message });
+      delivered.push(message);
+    }
+
+    await this.recordDelivery(userId, deviceId, delivered);
+
+    return {
+      events,
+      cursor: page.length
+        ? String(page[page.length - 1].sequence)
+        : options.cursor || null,
+      hasMore: queued.length > limit,
+    };
+  }
+
+  /**
+   * Statut d'un message pour chacun de ses destinataires, avec le détail
+   * par appareil
+   *
+   * @throws {NotFoundException} Si le message n'existe pas
+   * @throws {ForbiddenException} Si l'utilisateur ne participe pas à la conversation
+   */
+  async getMessageReceipts(
+    userId: string,
+    messageId: string
+  ): Promise<{ messageId: string; recipients: RecipientReceipt[] }> {
+    const message = await this.messageRepository.findById(messageId);
+    if (!message) {
+      throw new NotFoundException("Message not found");
+    }
+    const participants = (
+      await this.conversationRepository.getParticipants(
+        idOf(message.conversationId)
+      )
+    ).map(String);
+    if (!participants.includes(userId)) {
+      throw new ForbiddenException("Access denied to this conversation");
+    }
+
+    const senderId = idOf(message.senderId);
+    return {
+      messageId,
+      recipients: participants
+        .filter((participantId) => participantId !== senderId)
+        .map((participantId) =>
+          MessageDeliveryService.getRecipientReceipt(message, participantId)
+        ),
+    };
+  }
+
+  /**
+   * Déduit le statut d'un message pour un destinataire de ses accusés
+   * (et du statut de lecture historique des conversations privées)
+   */
+  static getRecipientReceipt(
+    message: Message,
+    userId: string
+  ): RecipientReceipt {
+    const devices = (message.receipts || [])
+      .filter((receipt) => idOf(receipt.userId) === userId)
+      .map((receipt) => ({
+        deviceId: receipt.deviceId,
+        deliveredAt: receipt.deliveredAt,
+        readAt: receipt.readAt || null,
+      }));
+    const earliest = (dates: Array<Date | null>) => {
+      const times = dates
+        .filter((date): date is Date => !!date)
+        .map((date) => new Date(date).getTime());
+      return times.length ? new Date(Math.min(...times)) : null;
+    };
+
+    const legacyRead = idOf(message.receiverId) === userId && message.isRead;
+    const readAt =
+      earliest(devices.map((device) => device.readAt)) ||
+      (legacyRead ? message.readAt || null : null);
+    const deliveredAt =
+      earliest(devices.map((device) => device.deliveredAt)) || readAt;
+
+    return {
+      userId,
+      status:
+        readAt || legacyRead ? "read" : deliveredAt ? "delivered" : "sent",
+      deliveredAt,
+      readAt,
+      devices,
+    };
+  }
+
+  private static hasReceipt(
+    message: Message,
+    userId: string,
+    deviceId: string
+  ): boolean {
+    return (message.receipts || []).some(
+      (receipt: MessageReceipt) =>
+        idOf(receipt.userId) === userId && receipt.deviceId === deviceId
+    );
+  }
+
+  /**
+   * Ajoute l'accusé de l'appareil et notifie les expéditeurs
+   */
+  private async recordDelivery(
+    userId: string,
+    deviceId: string,
+    messages: Message[]
+  ): Promise<number> {
+    if (!messages.length) {
+      return 0;
+    }
+    const deliveredCount = await this.messageRepository.addDeliveryReceipts(
+      messages.map((message) => idOf(message)),
+      userId,
+      deviceId
+    );
+    if (!deliveredCount) {
+      return 0;
+    }
+
+    const at = new Date();
+    const statuses = messages.map((message) => ({
+      senderId: idOf(message.senderId),
+      conversationId: idOf(message.conversationId),
+      messageId: idOf(message),
+      data: { userId, deviceId, status: "delivered", at },
+    }));
+    await this.deliveryEventRepository.enqueue(
+      statuses.map(({ senderId, conversationId, messageId, data }) => ({
+        userId: senderId,
+        type: "message_status" as const,
+        conversationId,
+        messageId,
+        data,
+      }))
+    );
+    for (const { senderId, conversationId, messageId, data } of statuses) {
+      this.emit({
+        userIds: [senderId],
+        event: "message_status",
+        data: { conversationId, messageId, ...data },
+      });
+    }
+    return deliveredCount;
+  }
+
+  private emit(payload: MessagingDeliveryPayload): void {
+    this.eventEmitter.emit(MESSAGING_DELIVERY_EVENT, payload);
+  }
+}
@@ -0,0 +1,175 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { MessageDictionaryService } from "./message-dictionary.service";
+
+describe("MessageDictionaryService", () => {
+  let service: MessageDictionaryService;
+  let wordRepository: any;
+
+  const fangId = "64d000000000000000000001";
+  const fraId = "64d000000000000000000002";
+  const engId = "64d000000000000000000003";
+
+  const users: Record<string, any> = {
+    sender: {
+      _id: "sender",
+      nativeLanguageId: fraId,
+      learningLanguageIds: [fangId],
+    },
+    receiver: {
+      _id: "receiver",
+      nativeLanguageId: engId,
+      learningLanguageIds: [fangId],
+    },
+  };
+  const words = [
+    {
+      _id: "64d000000000000000000101",
+      word: "akok",
+      languageId: fangId,
+      searchKey: "akok",
+      inflectionKeys: ["biakok"],
+      translations: [
+        { languageId: engId, translatedWord: "stone" },
+        { languageId: fraId, translatedWord: "pierre" },
+      ],
+    },
+    {
+      _id: "64d000000000000000000102",
+      word: "mbolo",
+      languageId: fangId,
+      searchKey: "mbolo",
+      inflectionKeys: [],
+      translations: [{ languageId: engId, translatedWord: "hi" }],
+    },
+    {
+      _id: "64d000000000000000000103",
+      word: "mbolo aye",
+      languageId: fangId,
+      searchKey: "mbolo aye",
+      inflectionKeys: [],
+      translations: [{ languageId: engId, translatedWord: "hello" }],
+    },
+  ];
+  const content = "Mbolo aye ! Biakok ni 3 fois";
+
+  beforeEach(async () => {
+    wordRepository = {
+      findApprovedByKeys: jest.fn().mockResolvedValue(words),
+      findSummariesByIds: jest.fn().mockResolvedValue([
+        {
+          _id: words[0]._id,
+          word: "akok",
+          languageId: fangId,
+          status: "approved",
+        },
+      ]),
+    };
+    const codes: Record<string, string> = {
+      [fangId]: "fan",
+      [fraId]: "fr",
+      [engId]: "en",
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MessageDictionaryService,
+        { provide: "IWordRepository", useValue: wordRepository },
+        {
+          provide: "IUserRepository",
+          useValue: {
+            findById: jest.fn((id: string) => Promise.resolve(users[id])),
+          },
+        },
+        {
+          provide: "ILanguageRepository",
+          useValue: {
+            findById: jest.fn((id: string) =>
+              Promise.resolve({ _id: id, iso639_1: codes[id] })
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<MessageDictionaryService>(MessageDictionaryService);
+  });
+
+  it("should link expressions and inflected forms with glosses into the receiver's native language", async () => {
+    const metadata = await service.enrichMetadata(content, {
+      senderId: "sender",
+      recipientIds: ["receiver"],
+      metadata: { translationRequested: true },
+    });
+
+    expect(wordRepository.findApprovedByKeys).toHaveBeenCalledWith(
+      [fraId, fangId, engId],
+      expect.arrayContaining(["mbolo aye", "biakok"]),
+      200
+    );
+    expect(metadata!.dictionary.targetLanguageIds).toEqual([engId]);
+    expect(metadata!.dictionary.links).toEqual([
+      expect.objectContaining({
+        wordId: words[2]._id,
+        text: "Mbolo aye",
+        start: 0,
+        end: 9,
+        glosses: { [engId]: ["hello"] },
+      }),
+      expect.objectContaining({
+        wordId: words[0]._id,
+        text: "Biakok",
+        glosses: { [engId]: ["stone"] },
+      }),
+    ]);
+    expect(metadata!.translation).toEqual(
+      expect.objectContaining({
+        languageId: engId,
+        text: "hello ! stone ni 3 fois",
+        coverage: 0.6,
+      })
+    );
+  });
+
+  it("should describe the shared word of a word_share message", async () => {
+    const metadata = await service.enrichMetadata("Regarde ce mot", {
+      senderId: "sender",
+      recipientIds: ["receiver"],
+      messageType: "word_share",
+      metadata: { wordId: words[0]._id },
+    });
+
+    expect(metadata!.sharedWord).toEqual({
+      id: words[0]._id,
+      word: "akok",
+      languageId: fangId,
+    });
+    expect(metadata!.translation).toBeUndefined();
+  });
+
+  it("should keep the original metadata when detection fails", async () => {
+    wordRepository.findApprovedByKeys.mockRejectedValue(new Error("timeout"));
+
+    await expect(
+      service.enrichMetadata(content, {
+        senderId: "sender",
+        recipientIds: ["receiver"],
+        metadata: { language: "fan" },
+      })
+    ).resolves.toEqual({ language: "fan" });
+  });
+
+  it("should render a message for a reader, leaving untranslated words as written", async () => {
+    const translation = await service.translate(
+      { content, senderId: "sender" },
+      fraId,
+      "receiver"
+    );
+
+    expect(translation.text).toBe("Mbolo aye ! pierre ni 3 fois");
+    expect(translation.segments[0]).toEqual({
+      text: "Mbolo aye",
+      wordId: words[2]._id,
+    });
+    expect(translation.coverage).toBe(0.2);
+  });
+});
@@ -0,0 +1,401 @@
+import { Inject, Injectable, Logger } from "@nestjs/common";
+import { IWordRepository } from "../../repositories/interfaces/word.repository.interface";
+import { IUserRepository } from "../../repositories/interfaces/user.repository.interface";
+import { ILanguageRepository } from "../../repositories/interfaces/language.repository.interface";
+import { SearchNormalizer } from "../../common/utils/search-normalizer.util";
+
+/** Nombre maximal de mots consécutifs d'une expression recherchée */
+const MAX_EXPRESSION_LENGTH = 3;
+
+/** Nombre maximal de mots candidats chargés pour un message */
+const MAX_CANDIDATE_WORDS = 200;
+
+/** Mot : lettres et chiffres, apostrophes et traits d'union internes */
+const TOKEN_PATTERN = /[\p{L}\p{M}\p{N}]+(?:['’ʼ-][\p{L}\p{M}\p{N}]+)*/gu;
+
+/**
+ * Passage d'un message reconnu comme mot du dictionnaire
+ */
+export interface MessageWordLink {
+  wordId: string;
+  word: string;
+  languageId: string;
+  /** Position du passage dans le contenu (fin exclue) */
+  start: number;
+  end: number;
+  text: string;
+  /** Traductions du mot, par ID de langue cible */
+  glosses: Record<string, string[]>;
+}
+
+/**
+ * Enrichissement `metadata.dictionary` d'un message
+ */
+export interface MessageDictionaryMetadata {
+  /** Langues de la conversation dans lesquelles les mots sont cherchés */
+  languageIds: string[];
+  /** Langues maternelles des destinataires */
+  targetLanguageIds: string[];
+  links: MessageWordLink[];
+  annotatedAt: Date;
+}
+
+/**
+ * Rendu d'un message traduit mot à mot avec le dictionnaire
+ */
+export interface MessageTranslation {
+  languageId: string;
+  text: string;
+  /** Passages du message ; `gloss` est absent hors des mots reconnus */
+  segments: Array<{ text: string; wordId?: string; gloss?: string }>;
+  /** Part des mots du message traduits (0 à 1) */
+  coverage: number;
+}
+
+type Token = { start: number; end: number };
+
+/**
+ * Service de détection des mots du dictionnaire dans les messages
+ *
+ * Les mots d'un message sont cherchés (seuls ou en expressions de trois
+ * mots au plus, formes fléchies comprises) dans les langues de la
+ * conversation, c'est-à-dire les langues maternelles et apprises de ses
+ * participants. Chaque mot reconnu est relié à son entrée et accompagné
+ * de ses traductions dans la langue maternelle des destinataires.
+ */
+@Injectable()
+export class MessageDictionaryService {
+  private readonly logger = new Logger(MessageDictionaryService.name);
+
+  constructor(
+    @Inject("IWordRepository") private wordRepository: IWordRepository,
+    @Inject("IUserRepository") private userRepository: IUserRepository,
+    @Inject("ILanguageRepository")
+    private languageRepository: ILanguageRepository
+  ) {}
+
+  /**
+   * Métadonnées d'un message à l'envoi, complétées des mots reconnus
+   * (`dictionary`), du mot partagé (`sharedWord`, pour `word_share`) et,
+   * si `translationRequested` est demandé et que les destinataires ont
+   * une seule langue maternelle, de sa traduction (`translation`)
+   *
+   * L'enrichissement ne bloque jamais l'envoi : en cas d'erreur, les
+   * métadonnées reçues sont renvoyées telles quelles.
+   */
+  async enrichMetadata(
+    content: string,
+    context: {
+      senderId: string;
+      recipientIds: string[];
+      messageType?: string;
+      metadata?: Record<string, any> | null;
+    }
+  ): Promise<Record<string, any> | undefined> {
+    const metadata = context.metadata ? { ...context.metadata } : undefined;
+    try {
+      const [sender, ...recipients] = await Promise.all(
+        [context.senderId, ...context.recipientIds].map((id) =>
+          this.userRepository.findById(id)
+        )
+      );
+      const languageIds = MessageDictionaryService.languagesOf([
+        sender,
+        ...recipients,
+      ]);
+      if (!languageIds.length) {
+        return metadata;
+      }
+      const targetLanguageIds = [
+        ...new Set(
+          recipients
+            .map((user: any) => user?.nativeLanguageId)
+            .filter(Boolean)
+            .map(String)
+        ),
+      ];
+
+      const links = await this.detect(content, languageIds, targetLanguageIds);
+      const enriched: Record<string, any> = {
+        ...metadata,
+        dictionary: {
+          languageIds,
+          targetLanguageIds,
+          links,
+          annotatedAt: new Date(),
+        } as MessageDictionaryMetadata,
+      };
+
+      if (context.messageType === "word_share" && metadata?.wordId) {
+        const [shared] = await this.wordRepository.findSummariesByIds([
+          metadata.wordId,
+        ]);
+        if (shared?.status === "approved") {
+          enriched.sharedWord = {
+            id: shared._id,
+            word: shared.word,
+            languageId: shared.languageId,
+          };
+        }
+      }
+
+      if (metadata?.translationRequested && targetLanguageIds.length === 1) {
+        enriched.translation = MessageDictionaryService.render(
+          content,
+          links,
+          targetLanguageIds[0]
+        );
+      }
+      return enriched;
+    } catch (error) {
+      this.logger.warn(
+        `Détection des mots impossible: ${error instanceof Error ? error.message : error}`
+      );
+      return metadata;
+    }
+  }
+
+  /**
+   * Traduction d'un message mot à mot avec le dictionnaire, pour un lecteur
+   *
+   * Les mots sont cherchés dans les langues de l'expéditeur et du lecteur ;
+   * ceux sans traduction dans la langue cible sont laissés tels quels.
+   */
+  async translate(
+    message: { content: string; senderId: unknown },
+    languageId: string,
+    readerId: string
+  ): Promise<MessageTranslation> {
+    const users = await Promise.all(
+      [...new Set([String(message.senderId), readerId])].map((id) =>
+        this.userRepository.findById(id)
+      )
+    );
+    const links = await this.detect(
+      message.content,
+      MessageDictionaryService.languagesOf(users),
+      [languageId]
+    );
+    return MessageDictionaryService.render(message.content, links, languageId);
+  }
+
+  /**
+   * Recherche les mots du texte, de gauche à droite en privilégiant les
+   * expressions les plus longues ; à passage égal, un mot traduit dans
+   * une langue cible l'emporte
+   */
+  private async detect(
+    content: string,
+    languageIds: string[],
+    targetLanguageIds: string[]
+  ): Promise<MessageWordLink[]> {
+    const tokens = MessageDictionaryService.tokenize(content);
+    if (!tokens.length || !languageIds.length) {
+      return [];
+    }
+    const codes = await this.languageCodes(languageIds);
+
+    const keyOf = new Map<string, string>();
+    const spanKey = (start: number, end: number, languageId: string) => {
+      const cacheKey = `${start}:${end}:${languageId}`;
+      if (!keyOf.has(cacheKey)) {
+        keyOf.set(
+          cacheKey,
+          SearchNormalizer.normalize(
+            content.slice(start, end),
+            codes.get(languageId)
+          )
+        );
+      }
+      return keyOf.get(cacheKey)!;
+    };
+    const spans = MessageDictionaryService.spans(content, tokens);
+    const keys = new Set<string>();
+    for (const span of spans.flat()) {
+      for (const languageId of languageIds) {
+        keys.add(spanKey(span.start, span.end, languageId));
+      }
+    }
+    keys.delete("");
+
+    const words = await this.wordRepository.findApprovedByKeys(
+      languageIds,
+      [...keys],
+      MAX_CANDIDATE_WORDS
+    );
+    const index = MessageDictionaryService.indexWords(words);
+
+    const links: MessageWordLink[] = [];
+    let i = 0;
+    while (i < tokens.length) {
+      let matched = 0;
+      for (let n = spans[i].length; n && !matched; n--) {
+        const { start, end } = spans[i][n - 1];
+        const candidates = languageIds
+          .map((languageId) =>
+            index.get(languageId)?.get(spanKey(start, end, languageId))
+          )
+          .filter(Boolean)
+          .map((word) =>
+            MessageDictionaryService.toLink(word, targetLanguageIds)
+          );
+        const link =
+          candidates.find(
+            (candidate) => Object.keys(candidate.glosses).length
+          ) || candidates[0];
+        if (link) {
+          links.push({ ...link, start, end, text: content.slice(start, end) });
+          matched = n;
+        }
+      }
+      i += matched || 1;
+    }
+    return links;
+  }
+
+  private async languageCodes(
+    languageIds: string[]
+  ): Promise<Map<string, string | undefined>> {
+    const languages = await Promise.all(
+      languageIds.map((id) => this.languageRepository.findById(id))
+    );
+    return new Map(
+      languageIds.map((id, position) => {
+        const language: any = languages[position];
+        return [id, language?.iso639_3 || language?.iso639_1];
+      })
+    );
+  }
+
+  /**
+   * Langues maternelles et apprises des utilisateurs, sans doublon
+   */
+  private static languagesOf(users: any[]): string[] {
+    const ids = users.flatMap((user) => [
+      user?.nativeLanguageId,
+      ...(user?.learningLanguageIds || []),
+    ]);
+    return [...new Set(ids.filter(Boolean).map(String))];
+  }
+
+  private static tokenize(content: string): Token[] {
+    return [...content.matchAll(TOKEN_PATTERN)]
+      .filter((match) => /\p{L}/u.test(match[0]))
+      .map((match) => ({
+        start: match.index!,
+        end: match.index! + match[0].length,
+      }));
+  }
+
+  /**
+   * Passages candidats commençant à chaque mot, du plus court au plus
+   * long : le mot seul, puis les suites de mots séparés seulement par
+   * des espaces
+   */
+  private static spans(content: string, tokens: Token[]): Token[][] {
+    return tokens.map((token, i) => {
+      const spans: Token[] = [token];
+      for (
+        let j = i + 1;
+        j < tokens.length &&
+        j - i < MAX_EXPRESSION_LENGTH &&
+        /^\s+$/.test(content.slice(tokens[j - 1].end, tokens[j].start));
+        j++
+      ) {
+        spans.push({ start: token.start, end: tokens[j].end });
+      }
+      return spans;
+    });
+  }
+
+  /**
+   * Mots par langue puis par clé ; la forme de base l'emporte sur une
+   * forme fléchie identique d'un autre mot
+   */
+  private static indexWords(words: any[]): Map<string, Map<string, any>> {
+    const index = new Map<string, Map<string, any>>();
+    const byLanguage = (word: any) => {
+      const languageId = String(word.languageId?._id ?? word.languageId);
+      if (!index.has(languageId)) {
+        index.set(languageId, new Map());
+      }
+      return index.get(languageId)!;
+    };
+    for (const word of words) {
+      if (word.searchKey && !byLanguage(word).has(word.searchKey)) {
+        byLanguage(word).set(word.searchKey, word);
+      }
+    }
+    for (const word of words) {
+      for (const key of word.inflectionKeys || []) {
+        if (!byLanguage(word).has(key)) {
+          byLanguage(word).set(key, word);
+        }
+      }
+    }
+    return index;
+  }
+
+  private static toLink(
+    word: any,
+    targetLanguageIds: string[]
+  ): Omit<MessageWordLink, "start" | "end" | "text"> {
+    const glosses: Record<string, string[]> = {};
+    for (const translation of word.translations || []) {
+      const languageId = String(
+        translation.languageId?._id ?? translation.languageId
+      );
+      if (!targetLanguageIds.includes(languageId)) {
+        continue;
+      }
+      glosses[languageId] = [
+        ...new Set([
+          ...(glosses[languageId] || []),
+          translation.translatedWord,
+        ]),
+      ];
+    }
+    return {
+      wordId: String(word._id),
+      word: word.word,
+      languageId: String(word.languageId?._id ?? word.languageId),
+      glosses,
+    };
+  }
+
+  private static render(
+    content: string,
+    links: MessageWordLink[],
+    languageId: string
+  ): MessageTranslation {
+    const segments: MessageTranslation["segments"] = [];
+    let position = 0;
+    let translatedTokens = 0;
+    for (const link of links) {
+      if (link.start > position) {
+        segments.push({ text: content.slice(position, link.start) });
+      }
+      const gloss = link.glosses[languageId]?.[0];
+      if (gloss) {
+        segments.push({ text: gloss, wordId: link.wordId, gloss });
+        translatedTokens += MessageDictionaryService.tokenize(link.text).length;
+      } else {
+        segments.push({ text: link.text, wordId: link.wordId });
+      }
+      position = link.end;
+    }
+    if (position < content.length) {
+      segments.push({ text: content.slice(position) });
+    }
+
+    const tokenCount = MessageDictionaryService.tokenize(content).length;
+    return {
+      languageId,
+      text: segments.map((segment) => segment.text).join(""),
+      segments,
+      coverage: tokenCount
+        ? Math.round((translatedTokens / tokenCount) * 100) / 100
+        : 0,
+    };
+  }
+}
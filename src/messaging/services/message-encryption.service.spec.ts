@@ -0,0 +1,176 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { BadRequestException } from "@nestjs/common";
+import {
+  MAX_DEVICES_PER_USER,
+  MessageEncryptionService,
+} from "./message-encryption.service";
+
+describe("MessageEncryptionService", () => {
+  let service: MessageEncryptionService;
+  let userRepository: any;
+  let conversationRepository: any;
+  let devicesByUser: Record<string, any[]>;
+
+  const aliceId = "64d000000000000000000001";
+  const bobId = "64d000000000000000000002";
+
+  function device(deviceId: string, oneTimePreKeys: number[] = []) {
+    return {
+      deviceId,
+      identityKey: `${deviceId}-identity`,
+      signedPreKey: { keyId: 1, publicKey: "c3Br", signature: "c2ln" },
+      oneTimePreKeys: oneTimePreKeys.map((keyId) => ({
+        keyId,
+        publicKey: `b3Rw${keyId}`,
+      })),
+      registeredAt: new Date(),
+    };
+  }
+
+  const conversation = {
+    _id: "64d000000000000000000100",
+    type: "private",
+    participants: [aliceId, bobId],
+    isEncrypted: true,
+  } as any;
+
+  beforeEach(async () => {
+    devicesByUser = {
+      [aliceId]: [device("alice-phone"), device("alice-laptop")],
+      [bobId]: [device("bob-phone", [7, 8])],
+    };
+    userRepository = {
+      findById: jest.fn((id: string) => Promise.resolve({ _id: id })),
+      findDeviceKeys: jest.fn((id: string) =>
+        Promise.resolve(devicesByUser[id] || [])
+      ),
+      saveDeviceKey: jest.fn().mockResolvedValue(true),
+      claimOneTimePreKey: jest.fn((id: string, deviceId: string) => {
+        const owned = devicesByUser[id].find(
+          (candidate) => candidate.deviceId === deviceId
+        );
+        return Promise.resolve(owned.oneTimePreKeys.shift() || null);
+      }),
+    };
+    conversationRepository = {
+      update: jest.fn((id: string, data: any) =>
+        Promise.resolve({ ...conversation, ...data })
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MessageEncryptionService,
+        { provide: "IUserRepository", useValue: userRepository },
+        {
+          provide: "IConversationRepository",
+          useValue: conversationRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<MessageEncryptionService>(MessageEncryptionService);
+  });
+
+  it("should replace a registered device and cap the number of devices", async () => {
+    const dto = {
+      deviceId: "alice-phone",
+      identityKey: "bmV3",
+      signedPreKey: { keyId: 2, publicKey: "c3Br", signature: "c2ln" },
+      oneTimePreKeys: [{ keyId: 1, publicKey: "b3Rw" }],
+    };
+
+    await expect(service.registerDevice(aliceId, dto)).resolves.toEqual(
+      expect.objectContaining({
+        deviceId: "alice-phone",
+        signedPreKeyId: 2,
+        oneTimePreKeyCount: 1,
+      })
+    );
+
+    devicesByUser[aliceId] = Array.from(
+      { length: MAX_DEVICES_PER_USER },
+      (_, i) => device(`device-${i}`)
+    );
+    await expect(service.registerDevice(aliceId, dto)).rejects.toThrow(
+      BadRequestException
+    );
+    expect(userRepository.saveDeviceKey).toHaveBeenCalledTimes(1);
+  });
+
+  it("should hand out one one-time prekey per device in a key bundle", async () => {
+    const first = await service.getKeyBundle(bobId);
+    await service.getKeyBundle(bobId);
+    const third = await service.getKeyBundle(bobId);
+
+    expect(first.devices).toEqual([
+      expect.objectContaining({
+        deviceId: "bob-phone",
+        oneTimePreKey: { keyId: 7, publicKey: "b3Rw7" },
+      }),
+    ]);
+    expect(third.devices[0].oneTimePreKey).toBeNull();
+    expect(third.devices[0].signedPreKey.keyId).toBe(1);
+  });
+
+  it("should only encrypt a private conversation once every participant has a device", async () => {
+    const plaintext = { ...conversation, isEncrypted: false };
+    devicesByUser[bobId] = [];
+
+    await expect(service.enableEncryption(aliceId, plaintext)).rejects.toThrow(
+      BadRequestException
+    );
+    await expect(
+      service.enableEncryption(aliceId, { ...plaintext, type: "group" })
+    ).rejects.toThrow("réservé aux conversations privées");
+
+    devicesByUser[bobId] = [device("bob-phone")];
+    const encrypted = await service.enableEncryption(aliceId, plaintext);
+    expect(encrypted.isEncrypted).toBe(true);
+    expect(conversationRepository.update).toHaveBeenCalledWith(
+      conversation._id,
+      expect.objectContaining({ isEncrypted: true })
+    );
+  });
+
+  it("should require a ciphertext for every other device of the participants", async () => {
+    const ciphertext = (userId: string, deviceId: string) => ({
+      userId,
+      deviceId,
+      body: "Y2lwaGVy",
+    });
+
+    const encryption = await service.checkEncryptedMessage(
+      conversation,
+      aliceId,
+      {
+        senderDeviceId: "alice-phone",
+        algorithm: "x3dh-double-ratchet-v1",
+        ciphertexts: [
+          ciphertext(bobId, "bob-phone"),
+          ciphertext(aliceId, "alice-laptop"),
+        ],
+      }
+    );
+    expect(encryption.ciphertexts).toHaveLength(2);
+    expect(encryption.ciphertexts[0].type).toBe("message");
+
+    const error = await service
+      .checkEncryptedMessage(conversation, aliceId, {
+        senderDeviceId: "alice-phone",
+        algorithm: "x3dh-double-ratchet-v1",
+        ciphertexts: [
+          ciphertext(bobId, "bob-tablet"),
+          ciphertext(aliceId, "alice-laptop"),
+        ],
+      })
+      .catch((caught) => caught);
+    expect(error).toBeInstanceOf(BadRequestException);
+    expect(error.getResponse()).toEqual(
+      expect.objectContaining({
+        missingDevices: [`${bobId}:bob-phone`],
+        staleDevices: [`${bobId}:bob-tablet`],
+      })
+    );
+  });
+});
@@ -0,0 +1,316 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import { Types } from "mongoose";
+import { IUserRepository } from "../../repositories/interfaces/user.repository.interface";
+import { IConversationRepository } from "../../repositories/interfaces/conversation.repository.interface";
+import {
+  DeviceKey,
+  OneTimePreKey,
+  SignedPreKey,
+} from "../../users/schemas/user.schema";
+import { Conversation } from "../schemas/conversation.schema";
+import { MessageEncryption } from "../schemas/message.schema";
+import {
+  EncryptedMessageDto,
+  MAX_ONE_TIME_PRE_KEYS,
+  OneTimePreKeyDto,
+  RegisterDeviceKeyDto,
+} from "../dto/message-encryption.dto";
+
+/** Nombre maximal d'appareils inscrits par utilisateur */
+export const MAX_DEVICES_PER_USER = 10;
+
+/**
+ * Appareil inscrit, sans ses pré-clés à usage unique
+ */
+export interface DeviceKeySummary {
+  deviceId: string;
+  name?: string;
+  identityKey: string;
+  signedPreKeyId: number;
+  /** Pré-clés à usage unique restantes (à réapprovisionner) */
+  oneTimePreKeyCount: number;
+  registeredAt: Date;
+}
+
+/**
+ * Clés nécessaires pour ouvrir une session avec chaque appareil d'un
+ * utilisateur
+ */
+export interface KeyBundle {
+  userId: string;
+  devices: Array<{
+    deviceId: string;
+    identityKey: string;
+    signedPreKey: SignedPreKey;
+    /** Null quand la réserve de l'appareil est épuisée */
+    oneTimePreKey: OneTimePreKey | null;
+  }>;
+}
+
+/**
+ * Service du chiffrement de bout en bout des conversations privées
+ *
+ * Le serveur distribue les clés publiques des appareils (identité,
+ * pré-clé signée, pré-clés à usage unique consommées à chaque
+ * distribution) et ne stocke des messages chiffrés que les copies
+ * destinées à chaque appareil. Il vérifie seulement que chaque appareil
+ * des participants reçoit sa copie ; le contenu lui reste illisible.
+ */
+@Injectable()
+export class MessageEncryptionService {
+  constructor(
+    @Inject("IUserRepository") private userRepository: IUserRepository,
+    @Inject("IConversationRepository")
+    private conversationRepository: IConversationRepository
+  ) {}
+
+  /**
+   * Inscrit un appareil, ou remplace ses clés s'il est déjà inscrit
+   *
+   * @throws {BadRequestException} Si le nombre maximal d'appareils est atteint
+   * @throws {NotFoundException} Si l'utilisateur n'existe pas
+   */
+  async registerDevice(
+    userId: string,
+    dto: RegisterDeviceKeyDto
+  ): Promise<DeviceKeySummary> {
+    const devices = await this.userRepository.findDeviceKeys(userId);
+    const isNew = !devices.some((device) => device.deviceId === dto.deviceId);
+    if (isNew && devices.length >= MAX_DEVICES_PER_USER) {
+      throw new BadRequestException(
+        `Nombre maximal d'appareils atteint (${MAX_DEVICES_PER_USER}) : retirez un appareil`
+      );
+    }
+
+    const device: DeviceKey = {
+      deviceId: dto.deviceId,
+      name: dto.name,
+      identityKey: dto.identityKey,
+      signedPreKey: {
+        keyId: dto.signedPreKey.keyId,
+        publicKey: dto.signedPreKey.publicKey,
+        signature: dto.signedPreKey.signature,
+      },
+      oneTimePreKeys: MessageEncryptionService.toPreKeys(
+        dto.oneTimePreKeys || []
+      ).slice(-MAX_ONE_TIME_PRE_KEYS),
+      registeredAt: new Date(),
+    };
+    if (!(await this.userRepository.saveDeviceKey(userId, device))) {
+      throw new NotFoundException("Utilisateur introuvable");
+    }
+    return MessageEncryptionService.summarize(device);
+  }
+
+  /**
+   * Appareils inscrits de l'utilisateur
+   */
+  async listDevices(userId: string): Promise<DeviceKeySummary[]> {
+    const devices = await this.userRepository.findDeviceKeys(userId);
+    return devices.map((device) => MessageEncryptionService.summarize(device));
+  }
+
+  /**
+   * Retire un appareil ; il ne recevra plus les nouveaux messages
+   *
+   * @throws {NotFoundException} Si l'appareil n'est pas inscrit
+   */
+  async removeDevice(userId: string, deviceId: string): Promise<void> {
+    if (!(await this.userRepository.removeDeviceKey(userId, deviceId))) {
+      throw new NotFoundException("Appareil introuvable");
+    }
+  }
+
+  /**
+   * Réapprovisionne les pré-clés à usage unique d'un appareil
+   *
+   * @throws {NotFoundException} Si l'appareil n'est pas inscrit
+   */
+  async addOneTimePreKeys(
+    userId: string,
+    deviceId: string,
+    keys: OneTimePreKeyDto[]
+  ): Promise<DeviceKeySummary> {
+    const added = await this.userRepository.addOneTimePreKeys(
+      userId,
+      deviceId,
+      MessageEncryptionService.toPreKeys(keys),
+      MAX_ONE_TIME_PRE_KEYS
+    );
+    const device = added
+      ? (await this.userRepository.findDeviceKeys(userId)).find(
+          (candidate) => candidate.deviceId === deviceId
+        )
+      : undefined;
+    if (!device) {
+      throw new NotFoundException("Appareil introuvable");
+    }
+    return MessageEncryptionService.summarize(device);
+  }
+
+  /**
+   * Clés de tous les appareils d'un utilisateur ; une pré-clé à usage
+   * unique de chaque appareil est consommée
+   *
+   * @throws {NotFoundException} Si l'utilisateur n'existe pas
+   */
+  async getKeyBundle(userId: string): Promise<KeyBundle> {
+    const user = Types.ObjectId.isValid(userId)
+      ? await this.userRepository.findById(userId)
+      : null;
+    if (!user) {
+      throw new NotFoundException("Utilisateur introuvable");
+    }
+    const devices = await this.userRepository.findDeviceKeys(userId);
+    return {
+      userId,
+      devices: await Promise.all(
+        devices.map(async (device) => ({
+          deviceId: device.deviceId,
+          identityKey: device.identityKey,
+          signedPreKey: device.signedPreKey,
+          oneTimePreKey: await this.userRepository.claimOneTimePreKey(
+            userId,
+            device.deviceId
+          ),
+        }))
+      ),
+    };
+  }
+
+  /**
+   * Active le chiffrement d'une conversation privée (sans retour arrière ;
+   * les messages déjà envoyés restent en clair)
+   *
+   * @throws {BadRequestException} Si la conversation est un groupe ou si un
+   * participant n'a inscrit aucun appareil
+   * @throws {ForbiddenException} Si l'utilisateur n'y participe pas
+   */
+  async enableEncryption(
+    userId: string,
+    conversation: Conversation
+  ): Promise<Conversation> {
+    const participants = conversation.participants.map(String);
+    if (!participants.includes(userId)) {
+      throw new ForbiddenException(
+        "Vous n'avez pas accès à cette conversation"
+      );
+    }
+    if (conversation.type !== "private") {
+      throw new BadRequestException(
+        "Le chiffrement de bout en bout est réservé aux conversations privées"
+      );
+    }
+    if (conversation.isEncrypted) {
+      return conversation;
+    }
+
+    const devices = await Promise.all(
+      participants.map((id) => this.userRepository.findDeviceKeys(id))
+    );
+    const usersWithoutDevice = participants.filter(
+      (_, position) => !devices[position].length
+    );
+    if (usersWithoutDevice.length) {
+      throw new BadRequestException({
+        message:
+          "Chaque participant doit inscrire un appareil avant d'activer le chiffrement",
+        usersWithoutDevice,
+      });
+    }
+
+    const updated = await this.conversationRepository.update(
+      String((conversation as any)._id),
+      { isEncrypted: true, encryptedAt: new Date() }
+    );
+    return updated || conversation;
+  }
+
+  /**
+   * Vérifie qu'un message chiffré est destiné à chaque appareil inscrit des
+   * participants (hors appareil expéditeur) et à aucun autre
+   *
+   * @throws {BadRequestException} Si l'appareil expéditeur est inconnu ou si
+   * les appareils ciblés ne correspondent plus (`missingDevices`,
+   * `staleDevices` : le client doit récupérer les clés et chiffrer à nouveau)
+   */
+  async checkEncryptedMessage(
+    conversation: Conversation,
+    senderId: string,
+    payload: EncryptedMessageDto
+  ): Promise<MessageEncryption> {
+    const participants = conversation.participants.map(String);
+    const devices = await Promise.all(
+      participants.map((id) => this.userRepository.findDeviceKeys(id))
+    );
+    const senderDevices = devices[participants.indexOf(senderId)] || [];
+    if (
+      !senderDevices.some(
+        (device) => device.deviceId === payload.senderDeviceId
+      )
+    ) {
+      throw new BadRequestException("Appareil expéditeur inconnu");
+    }
+
+    const expected = new Set(
+      participants.flatMap((userId, position) =>
+        devices[position]
+          .filter(
+            (device) =>
+              userId !== senderId || device.deviceId !== payload.senderDeviceId
+          )
+          .map((device) => `${userId}:${device.deviceId}`)
+      )
+    );
+    const targeted = payload.ciphertexts.map(
+      (ciphertext) => `${ciphertext.userId}:${ciphertext.deviceId}`
+    );
+    const missingDevices = [...expected].filter(
+      (target) => !targeted.includes(target)
+    );
+    const staleDevices = targeted.filter(
+      (target, position) =>
+        !expected.has(target) || targeted.indexOf(target) !== position
+    );
+    if (missingDevices.length || staleDevices.length) {
+      throw new BadRequestException({
+        message:
+          "Les appareils des participants ont changé : récupérez leurs clés et chiffrez à nouveau",
+        missingDevices,
+        staleDevices,
+      });
+    }
+
+    return {
+      senderDeviceId: payload.senderDeviceId,
+      algorithm: payload.algorithm,
+      ciphertexts: payload.ciphertexts.map((ciphertext) => ({
+        userId: ciphertext.userId as any,
+        deviceId: ciphertext.deviceId,
+        type: ciphertext.type || "message",
+        body: ciphertext.body,
+      })),
+    };
+  }
+
+  private static toPreKeys(keys: OneTimePreKeyDto[]): OneTimePreKey[] {
+    return keys.map((key) => ({ keyId: key.keyId, publicKey: key.publicKey }));
+  }
+
+  private static summarize(device: DeviceKey): DeviceKeySummary {
+    return {
+      deviceId: device.deviceId,
+      name: device.name,
+      identityKey: device.identityKey,
+      signedPreKeyId: device.signedPreKey.keyId,
+      oneTimePreKeyCount: (device.oneTimePreKeys || []).length,
+      registeredAt: device.registeredAt,
+    };
+  }
+}
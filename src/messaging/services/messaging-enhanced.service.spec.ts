@@ -0,0 +1,133 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { BadRequestException } from "@nestjs/common";
+import { MessagingEnhancedService } from "./messaging-enhanced.service";
+import { AudioService } from "../../dictionary/services/audio.service";
+import { AutoModerationService } from "../../moderation/services/auto-moderation.service";
+import { MessageDictionaryService } from "./message-dictionary.service";
+import { PresenceService } from "../../realtime/services/presence.service";
+import { MessageDeliveryService } from "./message-delivery.service";
+
+describe("MessagingEnhancedService", () => {
+  let service: MessagingEnhancedService;
+  let conversations: Record<string, any>;
+  let messageRepository: any;
+  let messageDeliveryService: { dispatchMessage: jest.Mock };
+
+  const aliceId = "64d000000000000000000001";
+  const bobId = "64d000000000000000000002";
+  const encryptedId = "64d000000000000000000100";
+  const groupId = "64d000000000000000000200";
+
+  beforeEach(async () => {
+    conversations = {
+      [encryptedId]: {
+        _id: encryptedId,
+        type: "private",
+        participants: [aliceId, bobId],
+        isEncrypted: true,
+      },
+      [groupId]: {
+        _id: groupId,
+        type: "group",
+        participants: [aliceId, bobId],
+        isEncrypted: false,
+      },
+    };
+    messageRepository = {
+      create: jest.fn((data) =>
+        Promise.resolve({ _id: "64d000000000000000000300", ...data })
+      ),
+    };
+    messageDeliveryService = { dispatchMessage: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MessagingEnhancedService,
+        { provide: "IMessageRepository", useValue: messageRepository },
+        {
+          provide: "IConversationRepository",
+          useValue: {
+            findById: jest.fn((id: string) =>
+              Promise.resolve(conversations[id] || null)
+            ),
+            findByUser: jest.fn(() =>
+              Promise.resolve({ conversations: Object.values(conversations) })
+            ),
+            getParticipants: jest.fn((id: string) =>
+              Promise.resolve(conversations[id]?.participants || [])
+            ),
+            updateLastActivity: jest.fn(),
+          },
+        },
+        {
+          provide: "IUserRepository",
+          useValue: {
+            findById: jest.fn((id: string) => Promise.resolve({ _id: id })),
+          },
+        },
+        { provide: AudioService, useValue: {} },
+        {
+          provide: AutoModerationService,
+          useValue: { screen: jest.fn().mockResolvedValue({ hidden: false }) },
+        },
+        {
+          provide: MessageDictionaryService,
+          useValue: {
+            enrichMetadata: jest.fn((content, { metadata }) =>
+              Promise.resolve(metadata)
+            ),
+          },
+        },
+        { provide: PresenceService, useValue: {} },
+        { provide: MessageDeliveryService, useValue: messageDeliveryService },
+      ],
+    }).compile();
+
+    service = module.get<MessagingEnhancedService>(MessagingEnhancedService);
+  });
+
+  it("should refuse plaintext sent to an encrypted conversation by its ID", async () => {
+    await expect(
+      service.sendMessage(aliceId, {
+        groupId: encryptedId,
+        content: "Mbolo",
+        messageType: "text",
+      })
+    ).rejects.toThrow(BadRequestException);
+    await expect(
+      service.sendLocation(aliceId, {
+        latitude: 0.39,
+        longitude: 9.45,
+        groupId: encryptedId,
+      })
+    ).rejects.toThrow(BadRequestException);
+
+    expect(messageRepository.create).not.toHaveBeenCalled();
+    expect(messageDeliveryService.dispatchMessage).not.toHaveBeenCalled();
+  });
+
+  it("should refuse plaintext sent to the recipient of an encrypted conversation", async () => {
+    await expect(
+      service.sendMessage(aliceId, {
+        recipientId: bobId,
+        content: "Mbolo",
+        messageType: "text",
+      })
+    ).rejects.toThrow(BadRequestException);
+    expect(messageRepository.create).not.toHaveBeenCalled();
+  });
+
+  it("should deliver plaintext to unencrypted conversations", async () => {
+    const result = await service.sendMessage(aliceId, {
+      groupId,
+      content: "Mbolo",
+      messageType: "text",
+    });
+
+    expect(result.success).toBe(true);
+    expect(messageDeliveryService.dispatchMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ conversationId: groupId }),
+      [bobId]
+    );
+  });
+});
@@ -8,6 +8,11 @@ import { IMessageRepository } from "../../repositories/interfaces/message.reposi
 import { IConversationRepository } from "../../repositories/interfaces/conversation.repository.interface";
 import { IUserRepository } from "../../repositories/interfaces/user.repository.interface";
 import { AudioService } from "../../dictionary/services/audio.service";
+import { AutoModerationService } from "../../moderation/services/auto-moderation.service";
+import { MessageDictionaryService } from "./message-dictionary.service";
+import { PresenceService } from "../../realtime/services/presence.service";
+import { MessageDeliveryService } from "./message-delivery.service";
+import { DEFAULT_DEVICE_ID } from "../schemas/message.schema";
 import { DatabaseErrorHandler } from "../../common/errors"
 import { v2 as cloudinary } from 'cloudinary';
 
@@ -18,7 +23,11 @@ export class MessagingEnhancedService {
     @Inject("IConversationRepository")
     private conversationRepository: IConversationRepository,
     @Inject("IUserRepository") private userRepository: IUserRepository,
-    private audioService: AudioService
+    private audioService: AudioService,
+    private autoModerationService: AutoModerationService,
+    private messageDictionaryService: MessageDictionaryService,
+    private presenceService: PresenceService,
+    private messageDeliveryService: MessageDeliveryService
   ) {}
 
   // ========== MÉTHODES DE COMPATIBILITÉ (pour migration douce) ==========
@@ -214,7 +223,11 @@ export class MessagingEnhancedService {
   /**
    * 🔄 Marquer comme lu (compatible)
    */
-  async markMessagesAsRead(userId: string, conversationId: string) {
+  async markMessagesAsRead(
+    userId: string,
+    conversationId: string,
+    deviceId: string = DEFAULT_DEVICE_ID
+  ) {
     return DatabaseErrorHandler.handleUpdateOperation(
       async () => {
         // Vérifier l'accès à la conversation
@@ -225,11 +238,20 @@ export class MessagingEnhancedService {
           throw new BadRequestException("Access denied to this conversation");
         }
 
-        // Marquer tous les messages non lus comme lus
+        // Marquer tous les messages non lus comme lus et notifier les participants
         const result = await this.messageRepository.markConversationAsRead(
           conversationId,
-          userId
+          userId,
+          deviceId
         );
+        if (result) {
+          await this.messageDeliveryService.conversationRead(
+            userId,
+            deviceId,
+            conversationId,
+            participants
+          );
+        }
 
         return { modifiedCount: result };
       },
@@ -329,8 +351,19 @@ export class MessagingEnhancedService {
         }
 
         // Vérifier l'accès à la conversation/groupe
+        let participants: string[] = [];
         if (conversationId) {
-          const participants =
+          // Une conversation chiffrée refuse le texte clair, quel que soit
+          // le point d'entrée (vocal, localisation, transfert...)
+          const target =
+            await this.conversationRepository.findById(conversationId);
+          if (target?.isEncrypted) {
+            throw new BadRequestException(
+              "Encrypted conversation: messages must be end-to-end encrypted"
+            );
+          }
+
+          participants =
             await this.conversationRepository.getParticipants(conversationId);
           if (!participants.includes(senderId)) {
             throw new BadRequestException("Access denied to this conversation");
@@ -340,6 +373,23 @@ export class MessagingEnhancedService {
         // Déterminer le receiverId pour l'interface
         const receiverId = messageData.recipientId || "group"; // Pour les groupes
 
+        // Relier les mots du dictionnaire et leurs traductions
+        const metadata = await this.messageDictionaryService.enrichMetadata(
+          messageData.content,
+          {
+            senderId,
+            recipientIds: participants
+              .map(String)
+              .filter((participantId) => participantId !== senderId),
+            metadata: {
+              originalType: messageData.messageType,
+              replyToMessageId: messageData.replyToMessageId,
+              isEphemeral: messageData.isEphemeral || false,
+              ephemeralDuration: messageData.ephemeralDuration,
+            },
+          }
+        );
+
         // Créer le message selon l'interface existante
         const messageToCreate = {
           senderId,
@@ -347,28 +397,42 @@ export class MessagingEnhancedService {
           conversationId: conversationId!,
           content: messageData.content,
           messageType: "text" as const, // Simplifier pour l'interface existante
-          metadata: {
-            originalType: messageData.messageType,
-            replyToMessageId: messageData.replyToMessageId,
-            isEphemeral: messageData.isEphemeral || false,
-            ephemeralDuration: messageData.ephemeralDuration,
-          },
+          metadata,
         };
 
         const createdMessage =
           await this.messageRepository.create(messageToCreate);
 
+        // Modération automatique : un message masqué n'est pas distribué
+        const screening = await this.autoModerationService.screen({
+          contentType: "message",
+          contentId: String((createdMessage as any)._id),
+          authorId: senderId,
+          text: messageData.content,
+        });
+
         // Mettre à jour la dernière activité de la conversation
         await this.conversationRepository.updateLastActivity(conversationId!);
 
+        // Distribuer le message aux autres participants, connectés ou non
+        if (!screening.hidden) {
+          await this.messageDeliveryService.dispatchMessage(
+            (createdMessage as any).toObject?.() ?? createdMessage,
+            participants
+              .map(String)
+              .filter((participantId) => participantId !== senderId)
+          );
+        }
+
         return {
           success: true,
           messageId: (createdMessage as any).id || (createdMessage as any)._id,
           message: "Message sent successfully",
           data: {
             ...createdMessage,
+            isHidden: screening.hidden,
             sentAt: (createdMessage as any).createdAt || new Date(),
-            status: "sent",
+            status: screening.hidden ? "hidden" : "sent",
           },
         };
       },
@@ -1068,6 +1132,11 @@ export class MessagingEnhancedService {
         if (!originalMessage) {
           throw new NotFoundException("Message not found");
         }
+        if (originalMessage.encryption) {
+          throw new BadRequestException(
+            "Encrypted messages cannot be forwarded by the server"
+          );
+        }
 
         // Vérifier l'accès au message original
         const originalConversationId =
@@ -1206,6 +1275,11 @@ export class MessagingEnhancedService {
 
           // Supprimer le message pour tout le monde
           await this.messageRepository.delete(messageId);
+          await this.messageDeliveryService.messageDeleted(
+            String(messageConversationId),
+            messageId,
+            participants
+          );
 
           return {
             success: true,
@@ -1257,6 +1331,11 @@ export class MessagingEnhancedService {
         if (messageSenderId !== userId) {
           throw new BadRequestException("Only message author can edit message");
         }
+        if (message.encryption) {
+          throw new BadRequestException(
+            "Encrypted messages cannot be edited by the server"
+          );
+        }
 
         // Vérifier l'accès au message
         const messageConversationId =
@@ -1440,37 +1519,20 @@ export class MessagingEnhancedService {
   // ========== STATUTS ET PRÉSENCE ==========
 
   // ========== PRÉSENCE UTILISATEUR ==========
-  
-  // Cache en mémoire pour le tracking de présence
-  private onlineUsersMap = new Map<string, {
-    userId: string;
-    status: 'online' | 'away' | 'busy' | 'offline';
-    lastSeen: Date;
-    customMessage?: string;
-  }>();
-
-  private typingUsersMap = new Map<string, Set<string>>(); // conversationId -> Set of userIds
-  private typingTimeouts = new Map<string, NodeJS.Timeout>(); // userId -> timeout
+
+  // Présence et frappe sont partagées entre les instances (PresenceService)
 
   async getOnlineUsers(userId: string) {
     return DatabaseErrorHandler.handleFindOperation(
       async () => {
-        // Nettoyer les utilisateurs inactifs (plus de 5 minutes)
-        const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
-        for (const [id, userData] of this.onlineUsersMap.entries()) {
-          if (userData.lastSeen < fiveMinutesAgo) {
-            this.onlineUsersMap.delete(id);
-          }
-        }
-
-        const onlineUsers = Array.from(this.onlineUsersMap.values())
-          .filter(user => user.status !== 'offline')
-          .map(user => ({
+        const onlineUsers = (await this.presenceService.listOnline()).map(
+          (user) => ({
             userId: user.userId,
             status: user.status,
             lastSeen: user.lastSeen,
             customMessage: user.customMessage
-          }));
+          })
+        );
 
         return { onlineUsers };
       },
@@ -1492,30 +1554,9 @@ export class MessagingEnhancedService {
           throw new BadRequestException('Invalid status');
         }
 
-        // Mettre à jour la présence en mémoire
-        this.onlineUsersMap.set(userId, {
-          userId,
-          status,
-          lastSeen: new Date(),
-          customMessage
-        });
-
-        // Si l'utilisateur se déconnecte, nettoyer les indications de frappe
-        if (status === 'offline') {
-          for (const [conversationId, typingUsers] of this.typingUsersMap.entries()) {
-            typingUsers.delete(userId);
-            if (typingUsers.size === 0) {
-              this.typingUsersMap.delete(conversationId);
-            }
-          }
-          
-          // Nettoyer les timeouts
-          const timeout = this.typingTimeouts.get(userId);
-          if (timeout) {
-            clearTimeout(timeout);
-            this.typingTimeouts.delete(userId);
-          }
-        }
+        // Mettre à jour la présence partagée (un utilisateur hors ligne
+        // cesse d'écrire dans toutes ses conversations)
+        await this.presenceService.setStatus(userId, status, customMessage);
 
         return { 
           success: true, 
@@ -1532,9 +1573,8 @@ export class MessagingEnhancedService {
   async getTypingUsers(conversationId: string) {
     return DatabaseErrorHandler.handleFindOperation(
       async () => {
-        const typingUsers = Array.from(
-          this.typingUsersMap.get(conversationId) || new Set()
-        );
+        const typingUsers =
+          await this.presenceService.getTypingUsers(conversationId);
         return { typingUsers };
       },
       "MessagingEnhanced",
@@ -1551,23 +1591,8 @@ export class MessagingEnhancedService {
           throw new BadRequestException("Access denied to this conversation");
         }
 
-        // Ajouter l'utilisateur aux utilisateurs qui tapent
-        if (!this.typingUsersMap.has(conversationId)) {
-          this.typingUsersMap.set(conversationId, new Set());
-        }
-        this.typingUsersMap.get(conversationId)!.add(userId);
-
-        // Arrêter automatiquement après 10 secondes
-        const existingTimeout = this.typingTimeouts.get(userId);
-        if (existingTimeout) {
-          clearTimeout(existingTimeout);
-        }
-
-        const timeout = setTimeout(() => {
-          this.stopTyping(conversationId, userId);
-        }, 10000);
-        
-        this.typingTimeouts.set(userId, timeout);
+        // L'indication expire d'elle-même après 10 secondes sans renouvellement
+        await this.presenceService.startTyping(conversationId, userId);
 
         return { success: true };
       },
@@ -1579,21 +1604,7 @@ export class MessagingEnhancedService {
   async stopTyping(conversationId: string, userId: string) {
     return DatabaseErrorHandler.handleUpdateOperation(
       async () => {
-        // Retirer l'utilisateur des utilisateurs qui tapent
-        const typingUsers = this.typingUsersMap.get(conversationId);
-        if (typingUsers) {
-          typingUsers.delete(userId);
-          if (typingUsers.size === 0) {
-            this.typingUsersMap.delete(conversationId);
-          }
-        }
-
-        // Nettoyer le timeout
-        const timeout = this.typingTimeouts.get(userId);
-        if (timeout) {
-          clearTimeout(timeout);
-          this.typingTimeouts.delete(userId);
-        }
+        await this.presenceService.stopTyping(conversationId, userId);
 
         return { success: true };
       },
@@ -1629,6 +1640,20 @@ export class MessagingEnhancedService {
             throw new BadRequestException("Access denied to this conversation");
           }
           searchOptions.conversationId = conversationId;
+
+          // Conversation chiffrée : la recherche se fait sur les appareils
+          const conversation =
+            await this.conversationRepository.findById(conversationId);
+          if (conversation?.isEncrypted) {
+            return {
+              messages: [],
+              total: 0,
+              query: query.trim(),
+              conversationId,
+              messageType,
+              encrypted: true,
+            };
+          }
         }
 
         if (messageType) {
@@ -1653,7 +1678,8 @@ export class MessagingEnhancedService {
           total: filteredMessages.length,
           query: query.trim(),
           conversationId,
-          messageType
+          messageType,
+          encrypted: false
         };
       },
       "MessagingEnhanced",
@@ -1717,7 +1743,7 @@ export class MessagingEnhancedService {
         const privateConversations = conversations.filter(conv => (conv as any).type === 'private');
         
         // Statistiques de présence
-        const presenceData = this.onlineUsersMap.get(userId);
+        const presenceData = await this.presenceService.getPresence(userId);
         
         const stats = {
           ...basicStats,
@@ -1794,6 +1820,31 @@ export class MessagingEnhancedService {
           }
         });
 
+        // Accusés de lecture : position de lecture de chaque participant
+        // et lecteurs du dernier message
+        const lastMessageSenderId = lastMessage
+          ? String((lastMessage.senderId as any)?._id ?? lastMessage.senderId)
+          : null;
+        const lastMessageReadBy = lastMessage
+          ? participants.filter(
+              (participantId) =>
+                participantId !== lastMessageSenderId &&
+                MessageDeliveryService.getRecipientReceipt(lastMessage, participantId)
+                  .status === "read"
+            )
+          : [];
+        const readReceipts = {
+          participants: await this.messageRepository.getReadReceipts(
+            conversationId,
+            participants
+          ),
+          lastMessageReadBy,
+          readByAll:
+            !!lastMessage &&
+            lastMessageReadBy.length ===
+              participants.filter((participantId) => participantId !== lastMessageSenderId).length,
+        };
+
         const stats = {
           conversationId,
           type: (conversation as any).type || 'private',
@@ -1809,6 +1860,7 @@ export class MessagingEnhancedService {
             senderId: lastMessage.senderId
           } : null,
           participantStats,
+          readReceipts,
           isActive: lastMessage && 
             new Date(lastMessage.createdAt).getTime() > Date.now() - 24 * 60 * 60 * 1000,
           generatedAt: new Date()
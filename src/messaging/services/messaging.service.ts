@@ -24,6 +24,14 @@ import { GetMessagesDto } from "../dto/get-messages.dto";
 import { IMessageRepository } from "../../repositories/interfaces/message.repository.interface";
 import { IConversationRepository } from "../../repositories/interfaces/conversation.repository.interface";
 import { IUserRepository } from "../../repositories/interfaces/user.repository.interface";
+import { AutoModerationService } from "../../moderation/services/auto-moderation.service";
+import {
+  MessageDictionaryService,
+  MessageTranslation,
+} from "./message-dictionary.service";
+import { MessageEncryptionService } from "./message-encryption.service";
+import { MessageDeliveryService } from "./message-delivery.service";
+import { DEFAULT_DEVICE_ID } from "../schemas/message.schema";
 
 /**
  * Service de messagerie basique O'Ypunu
@@ -46,7 +54,8 @@ import { IUserRepository } from "../../repositories/interfaces/user.repository.i
  * - Mise à jour des derniers messages pour UI
  * 
  * ### 🔍 Suivi et notifications
- * - Marquage messages lus/non lus par conversation
+ * - Marquage messages lus/non lus par conversation et par appareil
+ * - Distribution des messages aux destinataires connectés ou non
  * - Compteur global messages non lus par utilisateur
  * - Validation stricte des permissions d'accès
  * - Transformation données pour cohérence frontend
@@ -69,12 +78,19 @@ export class MessagingService {
    * @param {IMessageRepository} messageRepository - Repository des messages
    * @param {IConversationRepository} conversationRepository - Repository des conversations
    * @param {IUserRepository} userRepository - Repository des utilisateurs
+   * @param {AutoModerationService} autoModerationService - Modération automatique des messages
+   * @param {MessageDictionaryService} messageDictionaryService - Détection des mots du dictionnaire
+   * @param {MessageEncryptionService} messageEncryptionService - Chiffrement de bout en bout
    */
   constructor(
     @Inject("IMessageRepository") private messageRepository: IMessageRepository,
     @Inject("IConversationRepository")
     private conversationRepository: IConversationRepository,
-    @Inject("IUserRepository") private userRepository: IUserRepository
+    @Inject("IUserRepository") private userRepository: IUserRepository,
+    private autoModerationService: AutoModerationService,
+    private messageDictionaryService: MessageDictionaryService,
+    private messageEncryptionService: MessageEncryptionService,
+    private messageDeliveryService: MessageDeliveryService
   ) {}
 
   /**
@@ -91,7 +107,8 @@ export class MessagingService {
    * @param {SendMessageDto} sendMessageDto - Données du message à envoyer
    * @returns {Promise<any>} Message créé avec données enrichies
    * @throws {NotFoundException} Si expéditeur ou destinataire n'existe pas
-   * @throws {BadRequestException} Si tentative d'auto-envoi
+   * @throws {BadRequestException} Si tentative d'auto-envoi, ou si le
+   * message n'est pas chiffré comme la conversation
    * 
    * @example
    * ```typescript
@@ -110,7 +127,8 @@ export class MessagingService {
     senderId: string,
     sendMessageDto: SendMessageDto
   ): Promise<any> {
-    const { receiverId, content, messageType, metadata } = sendMessageDto;
+    const { receiverId, content, messageType, metadata, encryption } =
+      sendMessageDto;
 
     // Vérifier que l'expéditeur et le destinataire existent
     const [sender, receiver] = await Promise.all([
@@ -138,6 +156,52 @@ export class MessagingService {
       receiverId
     );
 
+    // Conversation chiffrée : seul le contenu chiffré est stocké, sans
+    // détection des mots ni modération automatique (contenu illisible)
+    const isEncrypted = !!(conversation as any).isEncrypted;
+    if (isEncrypted !== !!encryption) {
+      throw new BadRequestException(
+        isEncrypted
+          ? "Conversation chiffrée : le message doit être chiffré"
+          : "Cette conversation n'est pas chiffrée"
+      );
+    }
+    if (isEncrypted) {
+      const encryptedMessage = await this.messageRepository.create({
+        conversationId: (conversation as any)._id,
+        senderId,
+        receiverId,
+        content: "",
+        messageType: "text",
+        encryption: await this.messageEncryptionService.checkEncryptedMessage(
+          conversation,
+          senderId,
+          encryption!
+        ),
+      });
+      await this.conversationRepository.updateLastMessage(
+        (conversation as any)._id,
+        (encryptedMessage as any)._id,
+        ""
+      );
+      const sentEncryptedMessage = this.toSentMessage(
+        encryptedMessage,
+        sender,
+        receiver,
+        false
+      );
+      await this.messageDeliveryService.dispatchMessage(sentEncryptedMessage, [
+        receiverId,
+      ]);
+      return sentEncryptedMessage;
+    }
+
+    // Relier les mots du dictionnaire et leurs traductions
+    const enrichedMetadata = await this.messageDictionaryService.enrichMetadata(
+      content,
+      { senderId, recipientIds: [receiverId], messageType, metadata }
+    );
+
     // Créer le message
     const message = await this.messageRepository.create({
       conversationId: (conversation as any)._id,
@@ -146,28 +210,61 @@ export class MessagingService {
       content,
       messageType:
         (messageType as "text" | "image" | "file" | "system") || "text",
-      metadata,
+      metadata: enrichedMetadata,
     });
 
-    // Mettre à jour la conversation
-    await this.conversationRepository.updateLastMessage(
-      (conversation as any)._id,
-      (message as any)._id,
-      content.substring(0, 100) // Preview du message
+    // Modération automatique : un message masqué n'est pas distribué
+    const screening = await this.autoModerationService.screen({
+      contentType: "message",
+      contentId: (message as any)._id?.toString(),
+      authorId: senderId,
+      text: content,
+      language: metadata?.language,
+    });
+
+    const sentMessage = this.toSentMessage(
+      message,
+      sender,
+      receiver,
+      screening.hidden
     );
 
-    // Transformer pour la cohérence frontend
+    // Mettre à jour la conversation et distribuer le message
+    if (!screening.hidden) {
+      await this.conversationRepository.updateLastMessage(
+        (conversation as any)._id,
+        (message as any)._id,
+        content.substring(0, 100) // Preview du message
+      );
+      await this.messageDeliveryService.dispatchMessage(sentMessage, [
+        receiverId,
+      ]);
+    }
+
+    return sentMessage;
+  }
+
+  /**
+   * Transformer un message envoyé pour la cohérence frontend
+   */
+  private toSentMessage(
+    message: any,
+    sender: any,
+    receiver: any,
+    isHidden: boolean
+  ): any {
     return {
       ...message,
-      id: (message as any)._id?.toString(),
-      conversationId: (message as any).conversationId?.toString(),
+      isHidden,
+      id: message._id?.toString(),
+      conversationId: message.conversationId?.toString(),
       senderId: {
         ...sender,
-        id: (sender as any)._id?.toString(),
+        id: sender._id?.toString(),
       },
       receiverId: {
         ...receiver,
-        id: (receiver as any)._id?.toString(),
+        id: receiver._id?.toString(),
       },
     };
   }
@@ -304,11 +401,13 @@ export class MessagingService {
   }
 
   /**
-   * Marquer les messages comme lus
+   * Marquer les messages comme lus depuis un appareil et notifier les
+   * participants
    */
   async markMessagesAsRead(
     userId: string,
-    conversationId: string
+    conversationId: string,
+    deviceId: string = DEFAULT_DEVICE_ID
   ): Promise<{ modifiedCount: number }> {
     // Vérifier l'accès à la conversation
     const conversation =
@@ -330,12 +429,76 @@ export class MessagingService {
     // Marquer comme lus tous les messages reçus dans cette conversation
     const modifiedCount = await this.messageRepository.markConversationAsRead(
       conversationId,
-      userId
+      userId,
+      deviceId
     );
+    if (modifiedCount) {
+      await this.messageDeliveryService.conversationRead(
+        userId,
+        deviceId,
+        conversationId,
+        conversation.participants.map((participant: any) =>
+          String(participant?._id ?? participant)
+        )
+      );
+    }
 
     return { modifiedCount };
   }
 
+  /**
+   * Traduit un message mot à mot avec le dictionnaire O'Ypunu
+   *
+   * @param languageId - Langue cible (par défaut, la langue maternelle du lecteur)
+   * @throws {NotFoundException} Si le message n'existe pas ou n'est plus visible
+   * @throws {BadRequestException} Si le message est chiffré
+   * @throws {ForbiddenException} Si l'utilisateur ne participe pas à la conversation
+   * @throws {BadRequestException} Si aucune langue cible n'est connue
+   */
+  async translateMessage(
+    userId: string,
+    messageId: string,
+    languageId?: string
+  ): Promise<MessageTranslation> {
+    const message: any = await this.messageRepository.findById(messageId);
+    const isSender = String(message?.senderId) === userId;
+    if (!message || message.isDeleted || (message.isHidden && !isSender)) {
+      throw new NotFoundException("Message introuvable");
+    }
+    if (message.encryption) {
+      throw new BadRequestException(
+        "Message chiffré : la traduction se fait sur l'appareil du lecteur"
+      );
+    }
+
+    const isParticipant =
+      isSender ||
+      String(message.receiverId) === userId ||
+      (await this.conversationRepository.isParticipant(
+        String(message.conversationId),
+        userId
+      ));
+    if (!isParticipant) {
+      throw new ForbiddenException(
+        "Vous n'avez pas accès à cette conversation"
+      );
+    }
+
+    if (!languageId) {
+      const reader: any = await this.userRepository.findById(userId);
+      languageId = reader?.nativeLanguageId
+        ? String(reader.nativeLanguageId)
+        : undefined;
+    }
+    if (!languageId) {
+      throw new BadRequestException(
+        "Aucune langue maternelle renseignée : précisez la langue cible"
+      );
+    }
+
+    return this.messageDictionaryService.translate(message, languageId, userId);
+  }
+
   /**
    * Trouver ou créer une conversation entre deux utilisateurs
    */
@@ -22,7 +22,31 @@ import {
 import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../../common/guards/roles.guard';
 import { Roles } from '../../common/decorators/roles.decorator';
-import { ModerationService } from '../services/moderation.service';
+import {
+  ModerationService,
+  ReportStatusFilter,
+} from '../services/moderation.service';
+import { AutoModerationService } from '../services/auto-moderation.service';
+import { ModerationAppealsService } from '../services/moderation-appeals.service';
+import {
+  AutoModerationConfigDto,
+  RevertAutoModerationDecisionDto,
+} from '../dto/auto-moderation-config.dto';
+import {
+  AssignModerationAppealDto,
+  DecideModerationAppealDto,
+  FileModerationAppealDto,
+} from '../dto/moderation-appeal.dto';
+import {
+  AUTO_MODERATED_CONTENT_TYPES,
+  AutoModeratedContentType,
+} from '../schemas/auto-moderation-decision.schema';
+import {
+  APPEALABLE_DECISION_TYPES,
+  AppealableDecisionType,
+  MODERATION_APPEAL_STATUSES,
+  ModerationAppealStatus,
+} from '../schemas/moderation-appeal.schema';
 
 interface RequestWithUser {
   user: {
@@ -53,12 +77,29 @@ class ModerationActionDto {
   newStatus?: 'approved' | 'rejected' | 'pending';
 }
 
+class AssignCaseDto {
+  /** Modérateur désigné (l'utilisateur courant par défaut) */
+  moderatorId?: string;
+}
+
+class EscalateCaseDto {
+  reason: string;
+}
+
+class DismissCaseDto {
+  reason?: string;
+}
+
 @ApiTags('moderation')
 @Controller('moderation')
 @UseGuards(JwtAuthGuard)
 @ApiBearerAuth()
 export class ModerationController {
-  constructor(private readonly moderationService: ModerationService) {}
+  constructor(
+    private readonly moderationService: ModerationService,
+    private readonly autoModerationService: AutoModerationService,
+    private readonly moderationAppealsService: ModerationAppealsService,
+  ) {}
 
   @Get('reported-content')
   @UseGuards(RolesGuard)
@@ -81,8 +122,8 @@ export class ModerationController {
   @ApiQuery({
     name: 'status',
     required: false,
-    enum: ['pending', 'resolved', 'dismissed', 'all'],
-    description: 'Statut des signalements',
+    enum: ['pending', 'open', 'assigned', 'escalated', 'resolved', 'dismissed', 'all'],
+    description: 'Statut des dossiers (pending = open, assigned et escalated)',
   })
   @ApiQuery({
     name: 'type',
@@ -114,10 +155,17 @@ export class ModerationController {
               description: { type: 'string' },
               reportedBy: { type: 'string' },
               reportedAt: { type: 'string', format: 'date-time' },
-              status: { type: 'string', enum: ['pending', 'resolved', 'dismissed'] },
+              status: {
+                type: 'string',
+                enum: ['open', 'assigned', 'escalated', 'resolved', 'dismissed'],
+              },
               severity: { type: 'string', enum: ['low', 'medium', 'high', 'critical'] },
+              reportCount: { type: 'number' },
+              assignedTo: { type: 'string' },
               moderatorId: { type: 'string' },
               resolvedAt: { type: 'string', format: 'date-time' },
+              slaDueAt: { type: 'string', format: 'date-time' },
+              slaBreached: { type: 'boolean' },
               content: { type: 'object' },
             },
           },
@@ -132,7 +180,7 @@ export class ModerationController {
   async getReportedContent(
     @Query('page') page: number = 1,
     @Query('limit') limit: number = 20,
-    @Query('status') status: 'pending' | 'resolved' | 'dismissed' | 'all' = 'pending',
+    @Query('status') status: ReportStatusFilter = 'pending',
     @Query('type') type: 'word' | 'comment' | 'user' | 'all' = 'all',
     @Query('severity') severity?: 'low' | 'medium' | 'high' | 'critical',
   ) {
@@ -146,7 +194,11 @@ export class ModerationController {
   }
 
   @Post('words/:id/flag')
-  @ApiOperation({ summary: 'Signaler un mot comme inapproprié' })
+  @ApiOperation({
+    summary: 'Signaler un mot comme inapproprié',
+    description:
+      'Le signalement est fusionné dans le dossier déjà ouvert pour ce mot, le cas échéant',
+  })
   @ApiParam({
     name: 'id',
     description: 'ID du mot à signaler',
@@ -161,6 +213,8 @@ export class ModerationController {
       properties: {
         success: { type: 'boolean' },
         reportId: { type: 'string' },
+        merged: { type: 'boolean' },
+        reportCount: { type: 'number' },
         message: { type: 'string' },
       },
     },
@@ -366,7 +420,10 @@ export class ModerationController {
   @Patch('reports/:reportId')
   @UseGuards(RolesGuard)
   @Roles('admin', 'superadmin', 'moderator')
-  @ApiOperation({ summary: 'Traiter un signalement' })
+  @ApiOperation({
+    summary: 'Traiter un signalement',
+    description: 'Applique l\'action au contenu et clôt le dossier (resolved)',
+  })
   @ApiParam({
     name: 'reportId',
     description: 'ID du signalement',
@@ -400,6 +457,87 @@ export class ModerationController {
     );
   }
 
+  @Get('cases/:caseId')
+  @UseGuards(RolesGuard)
+  @Roles('admin', 'superadmin', 'moderator')
+  @ApiOperation({
+    summary: 'Détail d\'un dossier de modération',
+    description:
+      'Signalements fusionnés, journal des actions et contenu concerné',
+  })
+  @ApiParam({
+    name: 'caseId',
+    description: 'ID du dossier',
+    example: '60a1b2c3d4e5f6a7b8c9d0e1',
+  })
+  @ApiResponse({ status: 200, description: 'Dossier récupéré' })
+  @ApiResponse({ status: 404, description: 'Dossier introuvable' })
+  async getCase(@Param('caseId') caseId: string) {
+    return this.moderationService.getCase(caseId);
+  }
+
+  @Patch('cases/:caseId/assign')
+  @UseGuards(RolesGuard)
+  @Roles('admin', 'superadmin', 'moderator')
+  @ApiOperation({
+    summary: 'Attribuer un dossier à un modérateur',
+    description:
+      'Sans moderatorId, le dossier est attribué à l\'utilisateur courant. Un dossier escaladé ne peut être attribué qu\'à un administrateur.',
+  })
+  @ApiParam({ name: 'caseId', description: 'ID du dossier' })
+  @ApiBody({ type: AssignCaseDto })
+  @ApiResponse({ status: 200, description: 'Dossier attribué' })
+  @ApiResponse({ status: 409, description: 'Dossier modifié entre-temps' })
+  async assignCase(
+    @Param('caseId') caseId: string,
+    @Body() assignDto: AssignCaseDto,
+    @Request() req: RequestWithUser,
+  ) {
+    return this.moderationService.assignCase(
+      caseId,
+      assignDto.moderatorId || req.user._id,
+      req.user._id,
+    );
+  }
+
+  @Patch('cases/:caseId/escalate')
+  @UseGuards(RolesGuard)
+  @Roles('admin', 'superadmin', 'moderator')
+  @ApiOperation({ summary: 'Escalader un dossier vers les administrateurs' })
+  @ApiParam({ name: 'caseId', description: 'ID du dossier' })
+  @ApiBody({ type: EscalateCaseDto })
+  @ApiResponse({ status: 200, description: 'Dossier escaladé' })
+  async escalateCase(
+    @Param('caseId') caseId: string,
+    @Body() escalateDto: EscalateCaseDto,
+    @Request() req: RequestWithUser,
+  ) {
+    return this.moderationService.escalateCase(
+      caseId,
+      req.user._id,
+      escalateDto.reason,
+    );
+  }
+
+  @Patch('cases/:caseId/dismiss')
+  @UseGuards(RolesGuard)
+  @Roles('admin', 'superadmin', 'moderator')
+  @ApiOperation({ summary: 'Classer un dossier sans suite' })
+  @ApiParam({ name: 'caseId', description: 'ID du dossier' })
+  @ApiBody({ type: DismissCaseDto })
+  @ApiResponse({ status: 200, description: 'Dossier classé sans suite' })
+  async dismissCase(
+    @Param('caseId') caseId: string,
+    @Body() dismissDto: DismissCaseDto,
+    @Request() req: RequestWithUser,
+  ) {
+    return this.moderationService.dismissCase(
+      caseId,
+      req.user._id,
+      dismissDto.reason,
+    );
+  }
+
   @Get('queue')
   @UseGuards(RolesGuard)
   @Roles('admin', 'superadmin', 'moderator')
@@ -417,6 +555,12 @@ export class ModerationController {
     enum: ['high_priority', 'reported', 'auto_flagged', 'pending_review'],
     description: 'Type de file d\'attente',
   })
+  @ApiQuery({
+    name: 'assignedTo',
+    required: false,
+    type: String,
+    description: 'Dossiers attribués à ce modérateur (\'me\' pour soi-même)',
+  })
   @ApiResponse({
     status: 200,
     description: 'File d\'attente de modération récupérée',
@@ -435,6 +579,11 @@ export class ModerationController {
               reason: { type: 'string' },
               waitTime: { type: 'number' },
               content: { type: 'object' },
+              status: { type: 'string' },
+              reportCount: { type: 'number' },
+              assignedTo: { type: 'string' },
+              slaDueAt: { type: 'string', format: 'date-time' },
+              slaBreached: { type: 'boolean' },
             },
           },
         },
@@ -446,8 +595,14 @@ export class ModerationController {
   async getModerationQueue(
     @Query('limit') limit: number = 10,
     @Query('type') type: 'high_priority' | 'reported' | 'auto_flagged' | 'pending_review' = 'high_priority',
+    @Request() req: RequestWithUser,
+    @Query('assignedTo') assignedTo?: string,
   ) {
-    return this.moderationService.getModerationQueue(+limit, type);
+    return this.moderationService.getModerationQueue(
+      +limit,
+      type,
+      assignedTo === 'me' ? req.user._id : assignedTo,
+    );
   }
 
   @Get('stats')
@@ -472,6 +627,9 @@ export class ModerationController {
             totalReports: { type: 'number' },
             pendingReports: { type: 'number' },
             resolvedReports: { type: 'number' },
+            dismissedReports: { type: 'number' },
+            escalatedReports: { type: 'number' },
+            slaBreached: { type: 'number' },
             averageResolutionTime: { type: 'number' },
           },
         },
@@ -515,47 +673,226 @@ export class ModerationController {
     return this.moderationService.getModerationStats(timeframe);
   }
 
+  @Get('auto-moderation/config')
+  @UseGuards(RolesGuard)
+  @Roles('admin', 'superadmin', 'moderator')
+  @ApiOperation({
+    summary: 'Règles de modération automatique actives',
+    description: 'Version 0 : aucune configuration enregistrée, valeurs par défaut',
+  })
+  @ApiResponse({ status: 200, description: 'Version active et ses règles' })
+  async getAutoModerationConfig() {
+    return this.autoModerationService.getConfiguration();
+  }
+
   @Post('auto-moderation/configure')
   @UseGuards(RolesGuard)
   @Roles('admin', 'superadmin')
-  @ApiOperation({ summary: 'Configurer les règles de modération automatique' })
-  @ApiBody({
-    schema: {
-      type: 'object',
-      properties: {
-        rules: {
-          type: 'array',
-          items: {
-            type: 'object',
-            properties: {
-              type: { type: 'string', enum: ['keyword', 'pattern', 'ml_model'] },
-              condition: { type: 'string' },
-              action: { type: 'string', enum: ['flag', 'auto_reject', 'review'] },
-              severity: { type: 'string', enum: ['low', 'medium', 'high'] },
-              enabled: { type: 'boolean' },
-            },
-          },
-        },
-        thresholds: {
-          type: 'object',
-          properties: {
-            autoApprove: { type: 'number' },
-            autoReject: { type: 'number' },
-            requireReview: { type: 'number' },
-          },
-        },
-      },
-    },
+  @ApiOperation({
+    summary: 'Configurer les règles de modération automatique',
+    description:
+      'Les sections fournies remplacent celles de la version active ; le résultat est enregistré et activé comme nouvelle version.',
   })
+  @ApiBody({ type: AutoModerationConfigDto })
   @ApiResponse({
     status: 200,
     description: 'Configuration de modération automatique mise à jour',
   })
+  @ApiResponse({ status: 400, description: 'Seuils incohérents' })
   async configureAutoModeration(
-    @Body() config: any,
+    @Body() config: AutoModerationConfigDto,
+    @Request() req: RequestWithUser,
+  ) {
+    return this.autoModerationService.configure(config, req.user._id);
+  }
+
+  @Get('auto-moderation/versions')
+  @UseGuards(RolesGuard)
+  @Roles('admin', 'superadmin')
+  @ApiOperation({ summary: 'Historique des versions de règles' })
+  @ApiQuery({ name: 'limit', required: false, type: Number, example: 20 })
+  @ApiResponse({ status: 200, description: 'Versions, les plus récentes d\'abord' })
+  async getAutoModerationVersions(@Query('limit') limit: number = 20) {
+    return this.autoModerationService.listVersions(+limit);
+  }
+
+  @Post('auto-moderation/versions/:version/activate')
+  @UseGuards(RolesGuard)
+  @Roles('admin', 'superadmin')
+  @ApiOperation({
+    summary: 'Réactiver une version de règles (retour arrière)',
+  })
+  @ApiParam({ name: 'version', description: 'Numéro de version', example: 3 })
+  @ApiResponse({ status: 200, description: 'Version activée' })
+  @ApiResponse({ status: 404, description: 'Version introuvable' })
+  async activateAutoModerationVersion(@Param('version') version: string) {
+    return this.autoModerationService.activateVersion(+version);
+  }
+
+  @Get('auto-moderation/decisions')
+  @UseGuards(RolesGuard)
+  @Roles('admin', 'superadmin', 'moderator')
+  @ApiOperation({
+    summary: 'Journal des décisions automatiques',
+    description: 'Contenus signalés ou masqués par les règles ou par le cumul des signalements',
+  })
+  @ApiQuery({ name: 'page', required: false, type: Number, example: 1 })
+  @ApiQuery({ name: 'limit', required: false, type: Number, example: 20 })
+  @ApiQuery({
+    name: 'contentType',
+    required: false,
+    enum: AUTO_MODERATED_CONTENT_TYPES,
+  })
+  @ApiQuery({ name: 'action', required: false, enum: ['flag', 'hide'] })
+  @ApiQuery({ name: 'status', required: false, enum: ['applied', 'reverted'] })
+  @ApiResponse({ status: 200, description: 'Décisions paginées' })
+  async getAutoModerationDecisions(
+    @Query('page') page: number = 1,
+    @Query('limit') limit: number = 20,
+    @Query('contentType') contentType?: AutoModeratedContentType,
+    @Query('action') action?: 'flag' | 'hide',
+    @Query('status') status?: 'applied' | 'reverted',
+  ) {
+    return this.autoModerationService.listDecisions(
+      { contentType, action, status },
+      +page,
+      +limit,
+    );
+  }
+
+  @Patch('auto-moderation/decisions/:decisionId/revert')
+  @UseGuards(RolesGuard)
+  @Roles('admin', 'superadmin', 'moderator')
+  @ApiOperation({
+    summary: 'Annuler une décision automatique',
+    description:
+      'Rétablit le contenu masqué et classe le dossier ouvert par les règles, sauf s\'il contient des signalements d\'utilisateurs',
+  })
+  @ApiParam({ name: 'decisionId', description: 'ID de la décision' })
+  @ApiBody({ type: RevertAutoModerationDecisionDto })
+  @ApiResponse({ status: 200, description: 'Décision annulée' })
+  @ApiResponse({ status: 400, description: 'Décision déjà annulée' })
+  async revertAutoModerationDecision(
+    @Param('decisionId') decisionId: string,
+    @Body() revertDto: RevertAutoModerationDecisionDto,
     @Request() req: RequestWithUser,
   ) {
-    return this.moderationService.configureAutoModeration(config, req.user._id);
+    return this.autoModerationService.revertDecision(
+      decisionId,
+      req.user._id,
+      revertDto.reason,
+    );
+  }
+
+  @Post('appeals')
+  @ApiOperation({
+    summary: 'Faire appel d\'une décision de modération',
+    description:
+      'Rejet d\'un de ses mots ou d\'une de ses révisions, ou suspension de son compte. L\'appel est confié à un autre administrateur que l\'auteur de la décision.',
+  })
+  @ApiBody({ type: FileModerationAppealDto })
+  @ApiResponse({ status: 201, description: 'Appel enregistré' })
+  @ApiResponse({ status: 400, description: 'Décision non contestable' })
+  @ApiResponse({ status: 409, description: 'Décision déjà contestée' })
+  async fileAppeal(
+    @Body() appealDto: FileModerationAppealDto,
+    @Request() req: RequestWithUser,
+  ) {
+    return this.moderationAppealsService.fileAppeal(
+      req.user,
+      appealDto.decisionType,
+      appealDto.targetId,
+      appealDto.statement,
+    );
+  }
+
+  @Get('appeals/mine')
+  @ApiOperation({ summary: 'Mes appels' })
+  @ApiQuery({ name: 'page', required: false, type: Number, example: 1 })
+  @ApiQuery({ name: 'limit', required: false, type: Number, example: 20 })
+  @ApiResponse({ status: 200, description: 'Appels paginés' })
+  async getMyAppeals(
+    @Request() req: RequestWithUser,
+    @Query('page') page: number = 1,
+    @Query('limit') limit: number = 20,
+  ) {
+    return this.moderationAppealsService.listUserAppeals(
+      req.user._id,
+      +page,
+      +limit,
+    );
+  }
+
+  @Get('appeals')
+  @UseGuards(RolesGuard)
+  @Roles('admin', 'superadmin')
+  @ApiOperation({ summary: 'File des appels' })
+  @ApiQuery({ name: 'page', required: false, type: Number, example: 1 })
+  @ApiQuery({ name: 'limit', required: false, type: Number, example: 20 })
+  @ApiQuery({ name: 'status', required: false, enum: MODERATION_APPEAL_STATUSES })
+  @ApiQuery({ name: 'decisionType', required: false, enum: APPEALABLE_DECISION_TYPES })
+  @ApiQuery({ name: 'assignedTo', required: false, type: String })
+  @ApiResponse({ status: 200, description: 'Appels paginés, les plus anciens d\'abord' })
+  async getAppeals(
+    @Query('page') page: number = 1,
+    @Query('limit') limit: number = 20,
+    @Query('status') status: ModerationAppealStatus = 'pending',
+    @Query('decisionType') decisionType?: AppealableDecisionType,
+    @Query('assignedTo') assignedTo?: string,
+  ) {
+    return this.moderationAppealsService.listAppeals(
+      { status, decisionType, assignedTo },
+      +page,
+      +limit,
+    );
+  }
+
+  @Patch('appeals/:appealId/assign')
+  @UseGuards(RolesGuard)
+  @Roles('admin', 'superadmin')
+  @ApiOperation({
+    summary: 'Attribuer un appel à un administrateur',
+    description: 'L\'auteur de la décision contestée ne peut pas être désigné',
+  })
+  @ApiParam({ name: 'appealId', description: 'ID de l\'appel' })
+  @ApiBody({ type: AssignModerationAppealDto })
+  @ApiResponse({ status: 200, description: 'Appel attribué' })
+  @ApiResponse({ status: 403, description: 'Auteur de la décision contestée' })
+  async assignAppeal(
+    @Param('appealId') appealId: string,
+    @Body() assignDto: AssignModerationAppealDto,
+    @Request() req: RequestWithUser,
+  ) {
+    return this.moderationAppealsService.assignAppeal(
+      appealId,
+      assignDto.moderatorId || req.user._id,
+    );
+  }
+
+  @Patch('appeals/:appealId/decide')
+  @UseGuards(RolesGuard)
+  @Roles('admin', 'superadmin')
+  @ApiOperation({
+    summary: 'Trancher un appel',
+    description:
+      'Une décision annulée est défaite (statut du mot, révision ou suspension) et l\'auteur de l\'appel est prévenu par email',
+  })
+  @ApiParam({ name: 'appealId', description: 'ID de l\'appel' })
+  @ApiBody({ type: DecideModerationAppealDto })
+  @ApiResponse({ status: 200, description: 'Appel tranché' })
+  @ApiResponse({ status: 403, description: 'Auteur de la décision ou appel attribué à un autre administrateur' })
+  @ApiResponse({ status: 409, description: 'Appel tranché entre-temps' })
+  async decideAppeal(
+    @Param('appealId') appealId: string,
+    @Body() decideDto: DecideModerationAppealDto,
+    @Request() req: RequestWithUser,
+  ) {
+    return this.moderationAppealsService.decideAppeal(
+      appealId,
+      req.user,
+      decideDto.outcome,
+      decideDto.note,
+    );
   }
 
   @Get('my-reports')
@@ -577,8 +914,8 @@ export class ModerationController {
   @ApiQuery({
     name: 'status',
     required: false,
-    enum: ['pending', 'resolved', 'dismissed', 'all'],
-    description: 'Statut des signalements',
+    enum: ['pending', 'open', 'assigned', 'escalated', 'resolved', 'dismissed', 'all'],
+    description: 'Statut des dossiers (pending = open, assigned et escalated)',
   })
   @ApiResponse({
     status: 200,
@@ -588,7 +925,7 @@ export class ModerationController {
     @Request() req: RequestWithUser,
     @Query('page') page: number = 1,
     @Query('limit') limit: number = 10,
-    @Query('status') status: 'pending' | 'resolved' | 'dismissed' | 'all' = 'all',
+    @Query('status') status: ReportStatusFilter = 'all',
   ) {
     return this.moderationService.getUserReports(req.user._id, {
       page: +page,
@@ -0,0 +1,263 @@
+/**
+ * @fileoverview DTOs de configuration de la modération automatique O'Ypunu
+ *
+ * Chaque section est optionnelle : les valeurs fournies remplacent celles
+ * de la version active et le résultat est enregistré comme nouvelle
+ * version de la configuration.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class BannedTermListDto {
+  @ApiProperty({
+    description: 'Code de langue, ou "*" pour toutes les langues',
+    example: 'fr',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(10)
+  language: string;
+
+  @ApiProperty({ description: 'Termes interdits', example: ['arnaque'] })
+  @IsArray()
+  @ArrayMaxSize(1000)
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  terms: string[];
+
+  @ApiProperty({ description: 'Score ajouté par terme trouvé', example: 10 })
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  score: number;
+}
+
+export class LinkRulesDto {
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ApiProperty({ description: 'Liens tolérés par contenu', required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxLinks?: number;
+
+  @ApiProperty({
+    description: 'Domaines bloqués (sous-domaines inclus)',
+    example: ['spam.example'],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(500)
+  @IsString({ each: true })
+  @MaxLength(253, { each: true })
+  blockedDomains?: string[];
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  score?: number;
+}
+
+export class SpamRulesDto {
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ApiProperty({
+    description: 'Répétitions consécutives tolérées',
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(2)
+  maxRepeatedChars?: number;
+
+  @ApiProperty({
+    description: 'Part maximale de majuscules (0 à 1)',
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  maxUppercaseRatio?: number;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  minLengthForCaps?: number;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  score?: number;
+}
+
+export class NewAccountRulesDto {
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ApiProperty({
+    description: 'Âge en heures en dessous duquel un compte est nouveau',
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  minAccountAgeHours?: number;
+
+  @ApiProperty({
+    description: 'Contenus par heure tolérés pour un nouveau compte',
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxItemsPerHour?: number;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  score?: number;
+}
+
+export class ReporterReputationRulesDto {
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minWeight?: number;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxWeight?: number;
+
+  @ApiProperty({
+    description: 'Poids cumulé des signalements déclenchant le masquage',
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  hideThreshold?: number;
+}
+
+export class ModerationThresholdsDto {
+  @ApiProperty({ description: 'Score ouvrant un dossier', required: false })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  flag?: number;
+
+  @ApiProperty({ description: 'Score masquant le contenu', required: false })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  hide?: number;
+}
+
+export class AutoModerationConfigDto {
+  @ApiProperty({
+    description: 'Listes de termes interdits (remplacent les listes actives)',
+    type: [BannedTermListDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => BannedTermListDto)
+  bannedTerms?: BannedTermListDto[];
+
+  @ApiProperty({ type: LinkRulesDto, required: false })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => LinkRulesDto)
+  links?: LinkRulesDto;
+
+  @ApiProperty({ type: SpamRulesDto, required: false })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SpamRulesDto)
+  spam?: SpamRulesDto;
+
+  @ApiProperty({ type: NewAccountRulesDto, required: false })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NewAccountRulesDto)
+  newAccount?: NewAccountRulesDto;
+
+  @ApiProperty({ type: ReporterReputationRulesDto, required: false })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ReporterReputationRulesDto)
+  reporterReputation?: ReporterReputationRulesDto;
+
+  @ApiProperty({ type: ModerationThresholdsDto, required: false })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ModerationThresholdsDto)
+  thresholds?: ModerationThresholdsDto;
+
+  @ApiProperty({
+    description: 'Note de version',
+    example: 'Ajout des termes interdits en yipunu',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
+
+export class RevertAutoModerationDecisionDto {
+  @ApiProperty({
+    description: "Motif de l'annulation",
+    example: 'Faux positif : citation légitime',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  reason?: string;
+}
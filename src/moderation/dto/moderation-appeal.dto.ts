@@ -0,0 +1,84 @@
+/**
+ * @fileoverview DTOs des appels de décisions de modération O'Ypunu
+ *
+ * Un utilisateur conteste le rejet d'un de ses mots ou d'une de ses
+ * révisions, ou sa propre suspension ; un autre modérateur que l'auteur
+ * de la décision tranche ensuite l'appel.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import {
+  IsIn,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  APPEALABLE_DECISION_TYPES,
+  AppealableDecisionType,
+} from '../schemas/moderation-appeal.schema';
+
+export class FileModerationAppealDto {
+  @ApiProperty({
+    description: 'Décision contestée',
+    enum: APPEALABLE_DECISION_TYPES,
+    example: 'word_rejection',
+  })
+  @IsIn(APPEALABLE_DECISION_TYPES)
+  decisionType: AppealableDecisionType;
+
+  @ApiProperty({
+    description:
+      'Mot ou révision rejeté (inutile pour une suspension : le compte courant est visé)',
+    required: false,
+    example: '60a1b2c3d4e5f6a7b8c9d0e1',
+  })
+  @ValidateIf((dto) => dto.decisionType !== 'suspension')
+  @IsMongoId()
+  targetId?: string;
+
+  @ApiProperty({
+    description: "Arguments de l'appel",
+    example: 'Cette définition est attestée dans le dictionnaire de 1952.',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  statement: string;
+}
+
+export class DecideModerationAppealDto {
+  @ApiProperty({
+    description: "Issue de l'appel",
+    enum: ['upheld', 'overturned'],
+    example: 'overturned',
+  })
+  @IsIn(['upheld', 'overturned'])
+  outcome: 'upheld' | 'overturned';
+
+  @ApiProperty({
+    description: "Explication transmise à l'auteur de l'appel",
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+}
+
+export class AssignModerationAppealDto {
+  @ApiProperty({
+    description: "Modérateur désigné (l'utilisateur courant par défaut)",
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  moderatorId?: string;
+}
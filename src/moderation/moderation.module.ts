@@ -1,7 +1,11 @@
 import { Module } from '@nestjs/common';
 import { ModerationController } from './controllers/moderation.controller';
 import { ModerationService } from './services/moderation.service';
+import { AutoModerationService } from './services/auto-moderation.service';
+import { ModerationAppealsService } from './services/moderation-appeals.service';
 import { RepositoriesModule } from '../repositories/repositories.module';
+import { AuthModule } from '../auth/auth.module';
+import { MailService } from '../common/services/mail.service';
 
 /**
  * 🛡️ MODULE MODERATION
@@ -12,25 +16,37 @@ import { RepositoriesModule } from '../repositories/repositories.module';
  * 
  * Fonctionnalités :
  * - Système de signalements (mots, commentaires, utilisateurs)
+ * - Dossiers persistants : fusion des signalements, attribution,
+ *   escalade, échéances (SLA) et journal des actions
  * - Approbation/rejet en masse de contenu
  * - File d'attente de modération prioritaire
  * - Historique des contributions par utilisateur
  * - Statistiques de modération et performance
- * - Configuration de modération automatique
+ * - Modération automatique : règles versionnées (termes interdits par
+ *   langue, liens, spam, nouveaux comptes) appliquées aux mots, publications,
+ *   commentaires et messages, masquage selon le poids des signalements et
+ *   décisions enregistrées et annulables
+ * - Appels des rejets de mots et de révisions et des suspensions,
+ *   examinés par un autre administrateur que l'auteur de la décision
  * - Gestion des rapports et actions
  */
 @Module({
   imports: [
     RepositoriesModule, // Pour accès aux repositories (Word, User, etc.)
+    AuthModule, // Journal d'audit des appels
   ],
   controllers: [
     ModerationController, // Controller avec tous les endpoints de modération
   ],
   providers: [
     ModerationService, // Service principal pour logique de modération
+    AutoModerationService, // Règles automatiques et décisions annulables
+    ModerationAppealsService, // Appels des décisions de modération
+    MailService, // Notification de l'issue des appels
   ],
   exports: [
     ModerationService, // Exporté pour utilisation par d'autres modules
+    AutoModerationService, // Contrôle des contenus publiés par les autres modules
   ],
 })
 export class ModerationModule {}
\ No newline at end of file
@@ -0,0 +1,65 @@
+/**
+ * @fileoverview Schéma des versions de configuration de la modération
+ * automatique pour O'Ypunu
+ *
+ * Chaque enregistrement de règles crée une nouvelle version ; une seule
+ * version est active à la fois et une version antérieure peut être
+ * réactivée.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+import { User } from '../../users/schemas/user.schema';
+import { AutoModerationRules } from '../../common/utils/moderation-rules.util';
+
+export type AutoModerationConfigDocument = AutoModerationConfig & Document;
+
+/**
+ * Version de la configuration de modération automatique
+ *
+ * @class AutoModerationConfig
+ * @version 1.0.0
+ */
+@Schema({
+  timestamps: true,
+  collection: 'auto_moderation_configs',
+})
+export class AutoModerationConfig {
+  /** Numéro de version, croissant */
+  @Prop({ required: true, unique: true, min: 1 })
+  version: number;
+
+  @Prop({ default: false })
+  isActive: boolean;
+
+  /** Règles complètes (fusionnées avec les valeurs par défaut) */
+  @Prop({ type: MongooseSchema.Types.Mixed, required: true })
+  rules: AutoModerationRules;
+
+  @Prop({ maxlength: 500 })
+  note?: string;
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'User', required: true })
+  createdBy: User;
+
+  /** Dernière activation (création ou retour à cette version) */
+  @Prop()
+  activatedAt?: Date;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const AutoModerationConfigSchema =
+  SchemaFactory.createForClass(AutoModerationConfig);
+
+// === INDEX OPTIMISÉS POUR PERFORMANCES ===
+
+AutoModerationConfigSchema.index({ isActive: 1 });
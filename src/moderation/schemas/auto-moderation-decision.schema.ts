@@ -0,0 +1,122 @@
+/**
+ * @fileoverview Schéma des décisions de la modération automatique pour O'Ypunu
+ *
+ * Trace chaque contenu signalé ou masqué par le moteur de règles ou par
+ * le cumul pondéré des signalements, avec l'état antérieur du contenu
+ * pour permettre l'annulation depuis la file de modération. Les simples
+ * contrôles de nouveaux comptes sont aussi tracés (sans action) le temps
+ * de calculer leur rythme de publication.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+import { User } from '../../users/schemas/user.schema';
+import { ModerationRuleMatch } from '../../common/utils/moderation-rules.util';
+
+export type AutoModerationDecisionDocument = AutoModerationDecision & Document;
+
+export const AUTO_MODERATED_CONTENT_TYPES = [
+  'word',
+  'post',
+  'comment',
+  'message',
+] as const;
+export type AutoModeratedContentType =
+  (typeof AUTO_MODERATED_CONTENT_TYPES)[number];
+
+/**
+ * Décision automatique sur un contenu
+ *
+ * ## ⚙️ Actions :
+ * - `none` : contrôle sans suite (nouveau compte, expire après 24 h)
+ * - `flag` : dossier de modération ouvert
+ * - `hide` : dossier ouvert et contenu masqué en attendant revue
+ *
+ * @class AutoModerationDecision
+ * @version 1.0.0
+ */
+@Schema({
+  timestamps: true,
+  collection: 'auto_moderation_decisions',
+})
+export class AutoModerationDecision {
+  @Prop({ type: String, enum: AUTO_MODERATED_CONTENT_TYPES, required: true })
+  contentType: AutoModeratedContentType;
+
+  @Prop({ required: true })
+  contentId: string;
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'User' })
+  authorId?: User;
+
+  /** Origine : règles sur le contenu ou cumul des signalements */
+  @Prop({ type: String, enum: ['rules', 'reports'], default: 'rules' })
+  trigger: string;
+
+  @Prop({ type: String, enum: ['none', 'flag', 'hide'], required: true })
+  action: string;
+
+  @Prop({ default: 0 })
+  score: number;
+
+  @Prop({ type: [MongooseSchema.Types.Mixed], default: [] })
+  matches: ModerationRuleMatch[];
+
+  /** Version de configuration appliquée (0 : valeurs par défaut) */
+  @Prop({ default: 0 })
+  configVersion: number;
+
+  /** Dossier de modération ouvert ou alimenté par la décision */
+  @Prop()
+  caseId?: string;
+
+  /** État du contenu avant masquage (ex: { status: 'approved' }) */
+  @Prop({ type: MongooseSchema.Types.Mixed })
+  previousState?: Record<string, any>;
+
+  @Prop({
+    type: String,
+    enum: ['applied', 'reverted'],
+    default: 'applied',
+  })
+  status: string;
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'User' })
+  revertedBy?: User;
+
+  @Prop()
+  revertedAt?: Date;
+
+  @Prop({ maxlength: 1000 })
+  revertReason?: string;
+
+  /** Expiration des contrôles sans action */
+  @Prop()
+  expiresAt?: Date;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const AutoModerationDecisionSchema = SchemaFactory.createForClass(
+  AutoModerationDecision,
+);
+
+// === INDEX OPTIMISÉS POUR PERFORMANCES ===
+
+// Purge des contrôles sans action
+AutoModerationDecisionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Rythme de publication d'un auteur
+AutoModerationDecisionSchema.index({ authorId: 1, createdAt: -1 });
+
+// Journal des décisions et annulation
+AutoModerationDecisionSchema.index({ action: 1, status: 1, createdAt: -1 });
+AutoModerationDecisionSchema.index({ contentType: 1, contentId: 1 });
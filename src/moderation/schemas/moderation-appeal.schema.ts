@@ -0,0 +1,127 @@
+/**
+ * @fileoverview Schéma des appels de décisions de modération pour O'Ypunu
+ *
+ * Un utilisateur peut contester le rejet d'un de ses mots, le rejet d'une
+ * de ses révisions ou sa suspension. L'appel conserve la décision
+ * contestée (auteur, motif, date) et l'état antérieur à rétablir, et il
+ * est confié à un autre modérateur que celui qui a tranché.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+import { User } from '../../users/schemas/user.schema';
+
+export type ModerationAppealDocument = ModerationAppeal & Document;
+
+export const APPEALABLE_DECISION_TYPES = [
+  'word_rejection',
+  'revision_rejection',
+  'suspension',
+] as const;
+export type AppealableDecisionType = (typeof APPEALABLE_DECISION_TYPES)[number];
+
+export const MODERATION_APPEAL_STATUSES = [
+  'pending',
+  'upheld',
+  'overturned',
+] as const;
+export type ModerationAppealStatus =
+  (typeof MODERATION_APPEAL_STATUSES)[number];
+
+/**
+ * Appel d'une décision de modération
+ *
+ * ## ⚖️ Issues :
+ * - `upheld` : décision maintenue
+ * - `overturned` : décision annulée, l'état antérieur est rétabli
+ *
+ * @class ModerationAppeal
+ * @version 1.0.0
+ */
+@Schema({
+  timestamps: true,
+  collection: 'moderation_appeals',
+})
+export class ModerationAppeal {
+  @Prop({ type: String, enum: APPEALABLE_DECISION_TYPES, required: true })
+  decisionType: AppealableDecisionType;
+
+  /** Mot, révision ou utilisateur visé par la décision */
+  @Prop({ required: true })
+  targetId: string;
+
+  /** Mot concerné par une révision rejetée */
+  @Prop()
+  wordId?: string;
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'User', required: true })
+  appellantId: User;
+
+  /** Auteur de la décision contestée (absent pour les décisions anciennes) */
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'User' })
+  originalModeratorId?: User;
+
+  @Prop({ maxlength: 1000 })
+  originalReason?: string;
+
+  /** Date de la décision contestée, un seul appel par décision */
+  @Prop()
+  decidedAt?: Date;
+
+  @Prop({ required: true, maxlength: 2000 })
+  statement: string;
+
+  /** État rétabli si la décision est annulée (ex: { status: 'pending' }) */
+  @Prop({ type: MongooseSchema.Types.Mixed })
+  previousState?: Record<string, any>;
+
+  @Prop({
+    type: String,
+    enum: MODERATION_APPEAL_STATUSES,
+    default: 'pending',
+  })
+  status: ModerationAppealStatus;
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'User' })
+  assignedTo?: User;
+
+  @Prop()
+  assignedAt?: Date;
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'User' })
+  resolvedBy?: User;
+
+  @Prop()
+  resolvedAt?: Date;
+
+  @Prop({ maxlength: 1000 })
+  resolutionNote?: string;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const ModerationAppealSchema =
+  SchemaFactory.createForClass(ModerationAppeal);
+
+// === INDEX OPTIMISÉS POUR PERFORMANCES ===
+
+// Un seul appel en cours par décision
+ModerationAppealSchema.index(
+  { decisionType: 1, targetId: 1 },
+  { unique: true, partialFilterExpression: { status: 'pending' } },
+);
+
+// File des appels d'un modérateur et charge de travail
+ModerationAppealSchema.index({ assignedTo: 1, status: 1, createdAt: 1 });
+
+// Appels d'un utilisateur
+ModerationAppealSchema.index({ appellantId: 1, createdAt: -1 });
+ModerationAppealSchema.index({ status: 1, createdAt: 1 });
@@ -0,0 +1,294 @@
+/**
+ * @fileoverview Schéma des dossiers de modération pour O'Ypunu
+ *
+ * Un dossier regroupe tous les signalements portant sur un même contenu
+ * (mot, publication, commentaire, message ou utilisateur) tant qu'il n'est
+ * pas clos. Il suit un cycle de vie open → assigned → escalated → resolved/dismissed, porte une
+ * échéance de traitement (SLA) selon sa gravité et conserve le journal
+ * des actions effectuées, qui n'est jamais réécrit.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+import { User } from '../../users/schemas/user.schema';
+
+export type ModerationCaseDocument = ModerationCase & Document;
+
+export const MODERATION_CONTENT_TYPES = [
+  'word',
+  'comment',
+  'user',
+  'post',
+  'message',
+] as const;
+export type ModerationContentType = (typeof MODERATION_CONTENT_TYPES)[number];
+
+export const MODERATION_REPORT_REASONS = [
+  'inappropriate',
+  'spam',
+  'incorrect',
+  'offensive',
+  'copyright',
+  'other',
+] as const;
+export type ModerationReportReason = (typeof MODERATION_REPORT_REASONS)[number];
+
+export const MODERATION_SEVERITIES = [
+  'low',
+  'medium',
+  'high',
+  'critical',
+] as const;
+export type ModerationSeverity = (typeof MODERATION_SEVERITIES)[number];
+
+export const MODERATION_CASE_STATUSES = [
+  'open',
+  'assigned',
+  'escalated',
+  'resolved',
+  'dismissed',
+] as const;
+export type ModerationCaseStatus = (typeof MODERATION_CASE_STATUSES)[number];
+
+/** Statuts d'un dossier encore en attente de traitement */
+export const ACTIVE_CASE_STATUSES: ModerationCaseStatus[] = [
+  'open',
+  'assigned',
+  'escalated',
+];
+
+/** Rang de priorité de chaque gravité (tri de la file d'attente) */
+export const SEVERITY_PRIORITY: Record<ModerationSeverity, number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+  critical: 4,
+};
+
+/** Délai de traitement attendu selon la gravité, en heures */
+export const CASE_SLA_HOURS: Record<ModerationSeverity, number> = {
+  low: 168,
+  medium: 72,
+  high: 24,
+  critical: 4,
+};
+
+/**
+ * Signalement individuel rattaché à un dossier
+ */
+@Schema({ _id: false })
+export class ModerationCaseReport {
+  /** Signaleur (absent pour un signalement automatique) */
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'User' })
+  reportedBy?: User;
+
+  @Prop({ type: String, enum: ['user', 'auto'], default: 'user' })
+  source?: string;
+
+  /** Poids selon la fiabilité passée du signaleur */
+  @Prop({ default: 1 })
+  weight?: number;
+
+  @Prop({ type: String, enum: MODERATION_REPORT_REASONS, required: true })
+  reason: ModerationReportReason;
+
+  @Prop({ maxlength: 1000 })
+  description?: string;
+
+  @Prop()
+  category?: string;
+
+  @Prop({ type: String, enum: MODERATION_SEVERITIES, required: true })
+  severity: ModerationSeverity;
+
+  @Prop({ required: true })
+  reportedAt: Date;
+}
+
+export const ModerationCaseReportSchema =
+  SchemaFactory.createForClass(ModerationCaseReport);
+
+/**
+ * Entrée du journal des actions d'un dossier (ajout uniquement)
+ */
+@Schema({ _id: false })
+export class ModerationCaseAction {
+  /** Ex: reported, report_merged, assigned, escalated, resolved, dismissed */
+  @Prop({ required: true })
+  action: string;
+
+  /** Auteur de l'action (absent pour les actions système) */
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'User' })
+  actorId?: User;
+
+  @Prop({ type: String, enum: MODERATION_CASE_STATUSES })
+  fromStatus?: ModerationCaseStatus;
+
+  @Prop({ type: String, enum: MODERATION_CASE_STATUSES })
+  toStatus?: ModerationCaseStatus;
+
+  @Prop({ maxlength: 1000 })
+  note?: string;
+
+  @Prop({ type: MongooseSchema.Types.Mixed })
+  metadata?: Record<string, any>;
+
+  @Prop({ required: true })
+  at: Date;
+}
+
+export const ModerationCaseActionSchema =
+  SchemaFactory.createForClass(ModerationCaseAction);
+
+/**
+ * Décision finale portée sur un dossier
+ */
+@Schema({ _id: false })
+export class ModerationCaseResolution {
+  /** Action appliquée au contenu (approve, reject, delete, warn_user...) */
+  @Prop({ required: true })
+  action: string;
+
+  /** Effet constaté (ex: "Word rejected") */
+  @Prop()
+  outcome?: string;
+
+  @Prop({ maxlength: 1000 })
+  reason?: string;
+
+  @Prop({ maxlength: 2000 })
+  notes?: string;
+}
+
+export const ModerationCaseResolutionSchema = SchemaFactory.createForClass(
+  ModerationCaseResolution,
+);
+
+/**
+ * Dossier de modération d'un contenu signalé
+ *
+ * ## 🔄 Cycle de vie :
+ * - `open` : au moins un signalement, aucun modérateur
+ * - `assigned` : pris en charge par un modérateur
+ * - `escalated` : transmis à un administrateur
+ * - `resolved` / `dismissed` : clos, avec ou sans action sur le contenu
+ *
+ * Un seul dossier actif par contenu : les nouveaux signalements sont
+ * fusionnés dans le dossier existant, dont la gravité et l'échéance
+ * sont réévaluées. Les signalements de la modération automatique y
+ * figurent sans signaleur (`source: 'auto'`).
+ *
+ * @class ModerationCase
+ * @version 1.0.0
+ */
+@Schema({
+  timestamps: true,
+  collection: 'moderation_cases',
+})
+export class ModerationCase {
+  @Prop({ type: String, enum: MODERATION_CONTENT_TYPES, required: true })
+  contentType: ModerationContentType;
+
+  @Prop({ required: true })
+  contentId: string;
+
+  @Prop({
+    type: String,
+    enum: MODERATION_CASE_STATUSES,
+    default: 'open',
+  })
+  status: ModerationCaseStatus;
+
+  /** Vrai tant que le dossier n'est pas clos (unicité par contenu) */
+  @Prop({ default: true })
+  isActive: boolean;
+
+  /** Gravité la plus élevée parmi les signalements */
+  @Prop({ type: String, enum: MODERATION_SEVERITIES, required: true })
+  severity: ModerationSeverity;
+
+  /** Rang numérique de la gravité, pour le tri de la file */
+  @Prop({ required: true, min: 1, max: 4 })
+  priority: number;
+
+  /** Motif du premier signalement */
+  @Prop({ type: String, enum: MODERATION_REPORT_REASONS, required: true })
+  reason: ModerationReportReason;
+
+  @Prop({ type: [ModerationCaseReportSchema], default: [] })
+  reports: ModerationCaseReport[];
+
+  @Prop({ default: 1 })
+  reportCount: number;
+
+  /** Somme des poids des signalements d'utilisateurs */
+  @Prop({ default: 0 })
+  reportScore: number;
+
+  /** Dossier ouvert par la modération automatique */
+  @Prop({ default: false })
+  autoFlagged: boolean;
+
+  /** Dernière décision automatique liée au dossier */
+  @Prop()
+  autoDecisionId?: string;
+
+  /** Contenu masqué en attendant la revue */
+  @Prop({ default: false })
+  contentHidden: boolean;
+
+  /** Échéance de traitement, recalculée si la gravité augmente */
+  @Prop({ required: true })
+  slaDueAt: Date;
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'User' })
+  assignedTo?: User;
+
+  @Prop()
+  assignedAt?: Date;
+
+  @Prop()
+  escalatedAt?: Date;
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'User' })
+  closedBy?: User;
+
+  @Prop()
+  closedAt?: Date;
+
+  @Prop({ type: ModerationCaseResolutionSchema })
+  resolution?: ModerationCaseResolution;
+
+  @Prop({ type: [ModerationCaseActionSchema], default: [] })
+  actions: ModerationCaseAction[];
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const ModerationCaseSchema =
+  SchemaFactory.createForClass(ModerationCase);
+
+// === INDEX OPTIMISÉS POUR PERFORMANCES ===
+
+// Un seul dossier actif par contenu (fusion des signalements)
+ModerationCaseSchema.index(
+  { contentType: 1, contentId: 1 },
+  { unique: true, partialFilterExpression: { isActive: true } },
+);
+
+// File d'attente : gravité puis échéance
+ModerationCaseSchema.index({ isActive: 1, priority: -1, slaDueAt: 1 });
+ModerationCaseSchema.index({ autoFlagged: 1, isActive: 1, priority: -1 });
+
+// Listes filtrées et statistiques par période
+ModerationCaseSchema.index({ status: 1, createdAt: -1 });
+ModerationCaseSchema.index({ assignedTo: 1, status: 1 });
+ModerationCaseSchema.index({ 'reports.reportedBy': 1, createdAt: -1 });
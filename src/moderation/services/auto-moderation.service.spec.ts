@@ -0,0 +1,311 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { BadRequestException, ConflictException } from "@nestjs/common";
+import { AutoModerationService } from "./auto-moderation.service";
+import { DEFAULT_AUTO_MODERATION_RULES } from "../../common/utils/moderation-rules.util";
+
+describe("AutoModerationService", () => {
+  let service: AutoModerationService;
+  let configRepository: any;
+  let decisionRepository: any;
+  let moderationCaseRepository: any;
+  let userRepository: any;
+  let postRepository: any;
+  let messageRepository: any;
+
+  const HOUR_MS = 60 * 60 * 1000;
+  const postId = "64d000000000000000000010";
+  const rules = {
+    ...DEFAULT_AUTO_MODERATION_RULES,
+    bannedTerms: [{ language: "*", terms: ["arnaque"], score: 10 }],
+  };
+  const decision = (overrides: Record<string, any> = {}) => ({
+    _id: "d1",
+    contentType: "post",
+    contentId: postId,
+    trigger: "rules",
+    action: "hide",
+    status: "applied",
+    previousState: { status: "active" },
+    caseId: "c1",
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    configRepository = {
+      findActive: jest.fn().mockResolvedValue({ version: 3, rules }),
+      createVersion: jest.fn((newRules) =>
+        Promise.resolve({ version: 4, rules: newRules })
+      ),
+      activate: jest.fn().mockResolvedValue(null),
+      listVersions: jest.fn(),
+    };
+    decisionRepository = {
+      create: jest.fn((data) => Promise.resolve({ _id: "d1", ...data })),
+      findById: jest.fn().mockResolvedValue(decision()),
+      findMany: jest.fn(),
+      attachCase: jest.fn(),
+      markReverted: jest.fn(() =>
+        Promise.resolve(decision({ status: "reverted" }))
+      ),
+      countRecentByAuthor: jest.fn().mockResolvedValue(0),
+    };
+    moderationCaseRepository = {
+      create: jest.fn().mockResolvedValue({ _id: "c1" }),
+      findById: jest.fn().mockResolvedValue({
+        _id: "c1",
+        status: "open",
+        reports: [{ source: "auto" }],
+      }),
+      findActiveByContent: jest.fn().mockResolvedValue(null),
+      addReport: jest.fn(),
+      transition: jest.fn().mockResolvedValue({}),
+      countReporterOutcomes: jest
+        .fn()
+        .mockResolvedValue({ upheld: 0, dismissed: 6 }),
+    };
+    userRepository = {
+      findById: jest.fn().mockResolvedValue({
+        _id: "author",
+        createdAt: new Date(Date.now() - 30 * 24 * HOUR_MS),
+      }),
+    };
+    postRepository = {
+      findById: jest.fn().mockResolvedValue({ _id: postId, status: "active" }),
+      updateStatus: jest.fn().mockResolvedValue(true),
+    };
+    messageRepository = {
+      findById: jest.fn(),
+      update: jest.fn().mockResolvedValue({}),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AutoModerationService,
+        {
+          provide: "IAutoModerationConfigRepository",
+          useValue: configRepository,
+        },
+        {
+          provide: "IAutoModerationDecisionRepository",
+          useValue: decisionRepository,
+        },
+        {
+          provide: "IModerationCaseRepository",
+          useValue: moderationCaseRepository,
+        },
+        { provide: "IUserRepository", useValue: userRepository },
+        {
+          provide: "IWordRepository",
+          useValue: { findById: jest.fn(), updateStatus: jest.fn() },
+        },
+        { provide: "ICommunityPostRepository", useValue: postRepository },
+        {
+          provide: "IPostCommentRepository",
+          useValue: { findById: jest.fn(), updateStatus: jest.fn() },
+        },
+        { provide: "IMessageRepository", useValue: messageRepository },
+      ],
+    }).compile();
+
+    service = module.get<AutoModerationService>(AutoModerationService);
+  });
+
+  describe("screen", () => {
+    const post = {
+      contentType: "post" as const,
+      contentId: postId,
+      authorId: "author",
+      text: "Une arnaque évidente",
+    };
+
+    it("should hide matching content, record the decision and open a case", async () => {
+      const result = await service.screen(post);
+
+      expect(postRepository.updateStatus).toHaveBeenCalledWith(
+        postId,
+        "hidden"
+      );
+      expect(decisionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: "hide",
+          score: 10,
+          configVersion: 3,
+          previousState: { status: "active" },
+        })
+      );
+      expect(moderationCaseRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          autoFlagged: true,
+          autoDecisionId: "d1",
+          contentHidden: true,
+          severity: "high",
+          report: expect.objectContaining({ source: "auto", weight: 0 }),
+        })
+      );
+      expect(decisionRepository.attachCase).toHaveBeenCalledWith("d1", "c1");
+      expect(result).toMatchObject({ hidden: true, caseId: "c1" });
+    });
+
+    it("should add the decision to a case opened concurrently", async () => {
+      moderationCaseRepository.create.mockResolvedValueOnce(null);
+      moderationCaseRepository.findActiveByContent
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ _id: "c2" });
+
+      const result = await service.screen(post);
+
+      expect(moderationCaseRepository.addReport).toHaveBeenCalledWith(
+        "c2",
+        expect.objectContaining({ source: "auto" })
+      );
+      expect(result).toMatchObject({ hidden: true, caseId: "c2" });
+    });
+
+    it("should throttle new accounts using their recent screenings", async () => {
+      userRepository.findById.mockResolvedValue({
+        createdAt: new Date(Date.now() - 2 * HOUR_MS),
+      });
+
+      await service.screen({ ...post, text: "Bonjour" });
+      expect(decisionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: "none",
+          expiresAt: expect.any(Date),
+        })
+      );
+
+      decisionRepository.countRecentByAuthor.mockResolvedValue(5);
+      const result = await service.screen({ ...post, text: "Bonjour" });
+      expect(result.action).toBe("flag");
+      expect(result.matches[0].rule).toBe("new-account-rate");
+    });
+
+    it("should never block publishing when screening fails", async () => {
+      configRepository.findActive.mockRejectedValue(new Error("down"));
+
+      await expect(service.screen(post)).resolves.toMatchObject({
+        action: "allow",
+        hidden: false,
+      });
+    });
+  });
+
+  it("should hide reported content once the weighted reports reach the threshold", async () => {
+    const moderationCase: any = {
+      _id: "c1",
+      contentType: "post",
+      contentId: postId,
+      reportScore: 4.5,
+      contentHidden: false,
+    };
+    await expect(service.hideForReports(moderationCase)).resolves.toBe(false);
+
+    moderationCase.reportScore = 5;
+    await expect(service.hideForReports(moderationCase)).resolves.toBe(true);
+    expect(decisionRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({ trigger: "reports", action: "hide" })
+    );
+    const [, , changes, action] =
+      moderationCaseRepository.transition.mock.calls[0];
+    expect(changes).toEqual({ contentHidden: true, autoDecisionId: "d1" });
+    expect(action.action).toBe("auto_hidden");
+  });
+
+  it("should down-weight reporters whose reports were dismissed", async () => {
+    await expect(service.reporterWeight("reporter")).resolves.toBe(0.25);
+  });
+
+  describe("revertDecision", () => {
+    it("should restore the content and dismiss the case opened by the rules", async () => {
+      const result = await service.revertDecision("d1", "mod", "Faux positif");
+
+      expect(postRepository.updateStatus).toHaveBeenCalledWith(
+        postId,
+        "active"
+      );
+      const [caseId, , changes, action] =
+        moderationCaseRepository.transition.mock.calls[0];
+      expect(caseId).toBe("c1");
+      expect(changes).toMatchObject({
+        status: "dismissed",
+        contentHidden: false,
+      });
+      expect(action).toMatchObject({
+        action: "auto_decision_reverted",
+        actorId: "mod",
+      });
+      expect(result).toMatchObject({
+        contentRestored: true,
+        caseDismissed: true,
+      });
+    });
+
+    it("should keep the case open when users reported the content too", async () => {
+      moderationCaseRepository.findById.mockResolvedValue({
+        _id: "c1",
+        status: "open",
+        reports: [{ source: "auto" }, { source: "user" }],
+      });
+
+      const result = await service.revertDecision("d1", "mod");
+
+      expect(moderationCaseRepository.transition.mock.calls[0][2]).toEqual({
+        contentHidden: false,
+      });
+      expect(result.caseDismissed).toBe(false);
+    });
+
+    it("should refuse to revert twice", async () => {
+      decisionRepository.findById.mockResolvedValueOnce(
+        decision({ status: "reverted" })
+      );
+      await expect(service.revertDecision("d1", "mod")).rejects.toThrow(
+        BadRequestException
+      );
+
+      decisionRepository.markReverted.mockResolvedValueOnce(null);
+      await expect(service.revertDecision("d1", "mod")).rejects.toThrow(
+        ConflictException
+      );
+      expect(postRepository.updateStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("configuration", () => {
+    it("should build a new version from the active rules", async () => {
+      const result = await service.configure(
+        {
+          links: { blockedDomains: [" WWW.Spam.example "] },
+          thresholds: { hide: 12 },
+        },
+        "admin"
+      );
+
+      const [newRules, adminId] = configRepository.createVersion.mock.calls[0];
+      expect(adminId).toBe("admin");
+      expect(newRules.bannedTerms).toEqual(rules.bannedTerms);
+      expect(newRules.links).toEqual({
+        ...rules.links,
+        blockedDomains: ["spam.example"],
+      });
+      expect(newRules.thresholds).toEqual({ flag: 5, hide: 12 });
+      expect(result.version).toBe(4);
+    });
+
+    it("should reject a hide threshold below the flag threshold", async () => {
+      await expect(
+        service.configure({ thresholds: { flag: 8, hide: 6 } }, "admin")
+      ).rejects.toThrow(BadRequestException);
+      expect(configRepository.createVersion).not.toHaveBeenCalled();
+    });
+
+    it("should fall back to the default rules without a stored version", async () => {
+      configRepository.findActive.mockResolvedValue(null);
+
+      await expect(service.getConfiguration()).resolves.toEqual({
+        version: 0,
+        rules: DEFAULT_AUTO_MODERATION_RULES,
+      });
+    });
+  });
+});
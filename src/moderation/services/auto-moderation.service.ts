@@ -0,0 +1,717 @@
+/**
+ * @fileoverview Service de modération automatique pour O'Ypunu
+ *
+ * Ce service applique la version active des règles de modération
+ * automatique aux contenus publiés (mots, publications, commentaires,
+ * messages) : termes interdits par langue, liens, heuristiques de spam
+ * et limites des nouveaux comptes. Il masque aussi un contenu lorsque
+ * le poids cumulé de ses signalements, pondéré par la fiabilité des
+ * signaleurs, atteint le seuil configuré.
+ *
+ * Chaque décision est enregistrée avec l'état antérieur du contenu et
+ * peut être annulée depuis la file de modération.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "@nestjs/common";
+import { IAutoModerationConfigRepository } from "../../repositories/interfaces/auto-moderation-config.repository.interface";
+import {
+  AutoModerationDecisionFilters,
+  IAutoModerationDecisionRepository,
+} from "../../repositories/interfaces/auto-moderation-decision.repository.interface";
+import { IModerationCaseRepository } from "../../repositories/interfaces/moderation-case.repository.interface";
+import { IUserRepository } from "../../repositories/interfaces/user.repository.interface";
+import { IWordRepository } from "../../repositories/interfaces/word.repository.interface";
+import { ICommunityPostRepository } from "../../repositories/interfaces/community-post.repository.interface";
+import { IPostCommentRepository } from "../../repositories/interfaces/post-comment.repository.interface";
+import { IMessageRepository } from "../../repositories/interfaces/message.repository.interface";
+import {
+  AUTO_MODERATED_CONTENT_TYPES,
+  AutoModeratedContentType,
+  AutoModerationDecision,
+} from "../schemas/auto-moderation-decision.schema";
+import { AutoModerationConfig } from "../schemas/auto-moderation-config.schema";
+import {
+  ACTIVE_CASE_STATUSES,
+  CASE_SLA_HOURS,
+  ModerationCase,
+  ModerationContentType,
+  ModerationSeverity,
+} from "../schemas/moderation-case.schema";
+import {
+  AutoModerationRules,
+  DEFAULT_AUTO_MODERATION_RULES,
+  ModerationRuleEngine,
+  ModerationVerdict,
+} from "../../common/utils/moderation-rules.util";
+import { AutoModerationConfigDto } from "../dto/auto-moderation-config.dto";
+import { DatabaseErrorHandler } from "../../common/errors";
+
+/**
+ * Contenu publié à contrôler
+ */
+export interface ScreenableContent {
+  contentType: AutoModeratedContentType;
+  contentId: string;
+  authorId: string;
+  text: string;
+  language?: string;
+}
+
+export interface ScreeningResult extends ModerationVerdict {
+  /** Décision enregistrée (absente si le contenu est accepté) */
+  decisionId?: string;
+  caseId?: string;
+  hidden: boolean;
+}
+
+/**
+ * Version de règles appliquée (0 : valeurs par défaut, aucune version
+ * enregistrée)
+ */
+export interface ActiveAutoModerationRules {
+  version: number;
+  rules: AutoModerationRules;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Durée de conservation des contrôles sans action (rythme des nouveaux comptes) */
+const SCREENING_RETENTION_MS = 24 * HOUR_MS;
+
+/** Durée de mise en cache de la version active */
+const RULES_CACHE_TTL_MS = 60 * 1000;
+
+@Injectable()
+export class AutoModerationService {
+  private readonly logger = new Logger(AutoModerationService.name);
+  private cachedRules:
+    | (ActiveAutoModerationRules & { loadedAt: number })
+    | null = null;
+
+  constructor(
+    @Inject("IAutoModerationConfigRepository")
+    private configRepository: IAutoModerationConfigRepository,
+    @Inject("IAutoModerationDecisionRepository")
+    private decisionRepository: IAutoModerationDecisionRepository,
+    @Inject("IModerationCaseRepository")
+    private moderationCaseRepository: IModerationCaseRepository,
+    @Inject("IUserRepository") private userRepository: IUserRepository,
+    @Inject("IWordRepository") private wordRepository: IWordRepository,
+    @Inject("ICommunityPostRepository")
+    private postRepository: ICommunityPostRepository,
+    @Inject("IPostCommentRepository")
+    private commentRepository: IPostCommentRepository,
+    @Inject("IMessageRepository") private messageRepository: IMessageRepository
+  ) {}
+
+  // ========== CONTRÔLE DES CONTENUS ==========
+
+  /**
+   * Appliquer les règles actives à un contenu qui vient d'être publié
+   *
+   * Ne lève jamais d'erreur : une panne de la modération automatique ne
+   * doit pas empêcher la publication.
+   */
+  async screen(content: ScreenableContent): Promise<ScreeningResult> {
+    try {
+      const { version, rules } = await this.getActiveRules();
+      const author = await this.userRepository.findById(content.authorId);
+      const accountAgeHours = author?.createdAt
+        ? (Date.now() - new Date(author.createdAt).getTime()) / HOUR_MS
+        : undefined;
+      const isNewAccount =
+        rules.newAccount.enabled &&
+        accountAgeHours !== undefined &&
+        accountAgeHours < rules.newAccount.minAccountAgeHours;
+
+      const verdict = ModerationRuleEngine.evaluate(rules, {
+        text: content.text,
+        language: content.language,
+        accountAgeHours,
+        recentItemCount: isNewAccount
+          ? await this.decisionRepository.countRecentByAuthor(
+              content.authorId,
+              new Date(Date.now() - HOUR_MS)
+            )
+          : undefined,
+      });
+
+      if (verdict.action === "allow") {
+        // Trace temporaire pour limiter le rythme des nouveaux comptes
+        if (isNewAccount) {
+          await this.decisionRepository.create({
+            ...this.decisionBase(content, verdict, version),
+            action: "none",
+            expiresAt: new Date(Date.now() + SCREENING_RETENTION_MS),
+          });
+        }
+        return { ...verdict, hidden: false };
+      }
+
+      const previousState =
+        verdict.action === "hide"
+          ? await this.hideContent(content.contentType, content.contentId)
+          : undefined;
+      const decision = await this.decisionRepository.create({
+        ...this.decisionBase(content, verdict, version),
+        action: verdict.action,
+        previousState: previousState || undefined,
+      });
+      const decisionId = String((decision as any)._id);
+      const caseId = await this.openCase(
+        content,
+        verdict,
+        decisionId,
+        !!previousState
+      );
+      if (caseId) {
+        await this.decisionRepository.attachCase(decisionId, caseId);
+      }
+
+      this.logger.log(
+        `🤖 ${content.contentType} ${content.contentId}: ${verdict.action} (score ${verdict.score})`
+      );
+      return { ...verdict, decisionId, caseId, hidden: !!previousState };
+    } catch (error) {
+      this.logger.warn(
+        `Auto-moderation skipped for ${content.contentType} ${content.contentId}: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+      return { action: "allow", score: 0, matches: [], hidden: false };
+    }
+  }
+
+  /**
+   * Poids du signalement d'un utilisateur selon l'issue de ses
+   * signalements précédents
+   */
+  async reporterWeight(userId: string): Promise<number> {
+    const { rules } = await this.getActiveRules();
+    if (!rules.reporterReputation.enabled) {
+      return 1;
+    }
+    const outcomes =
+      await this.moderationCaseRepository.countReporterOutcomes(userId);
+    return ModerationRuleEngine.reporterWeight(rules, outcomes);
+  }
+
+  /**
+   * Masquer le contenu d'un dossier dont le poids des signalements atteint
+   * le seuil de masquage
+   *
+   * @returns Vrai si le contenu vient d'être masqué
+   */
+  async hideForReports(moderationCase: ModerationCase): Promise<boolean> {
+    if (
+      moderationCase.contentHidden ||
+      !this.isAutoModerated(moderationCase.contentType)
+    ) {
+      return false;
+    }
+    const { version, rules } = await this.getActiveRules();
+    if (
+      (moderationCase.reportScore || 0) < rules.reporterReputation.hideThreshold
+    ) {
+      return false;
+    }
+
+    const contentType = moderationCase.contentType as AutoModeratedContentType;
+    const previousState = await this.hideContent(
+      contentType,
+      moderationCase.contentId
+    );
+    if (!previousState) {
+      return false;
+    }
+
+    const caseId = String((moderationCase as any)._id);
+    const decision = await this.decisionRepository.create({
+      contentType,
+      contentId: moderationCase.contentId,
+      trigger: "reports",
+      action: "hide",
+      score: moderationCase.reportScore,
+      matches: [],
+      configVersion: version,
+      previousState,
+    });
+    const decisionId = String((decision as any)._id);
+    await this.decisionRepository.attachCase(decisionId, caseId);
+    await this.moderationCaseRepository.transition(
+      caseId,
+      ACTIVE_CASE_STATUSES,
+      { contentHidden: true, autoDecisionId: decisionId },
+      {
+        action: "auto_hidden",
+        note: "Seuil de signalements atteint",
+        metadata: { decisionId, reportScore: moderationCase.reportScore },
+      }
+    );
+    return true;
+  }
+
+  // ========== DÉCISIONS ==========
+
+  async listDecisions(
+    filters: AutoModerationDecisionFilters,
+    page: number,
+    limit: number
+  ): Promise<{
+    decisions: AutoModerationDecision[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const { decisions, total } = await this.decisionRepository.findMany(
+      filters,
+      { page, limit }
+    );
+    return {
+      decisions,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Annuler une décision automatique : le contenu masqué est rétabli et
+   * le dossier ouvert par les règles est classé, sauf si des utilisateurs
+   * l'ont aussi signalé
+   */
+  async revertDecision(
+    decisionId: string,
+    actorId: string,
+    reason?: string
+  ): Promise<{
+    success: boolean;
+    decision: AutoModerationDecision;
+    contentRestored: boolean;
+    caseDismissed: boolean;
+  }> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        const { decision, contentRestored } = await this.undoDecision(
+          decisionId,
+          actorId,
+          reason
+        );
+
+        let caseDismissed = false;
+        const moderationCase = decision.caseId
+          ? await this.moderationCaseRepository.findById(decision.caseId)
+          : null;
+        if (
+          moderationCase &&
+          ACTIVE_CASE_STATUSES.includes(moderationCase.status)
+        ) {
+          const hasUserReports = moderationCase.reports.some(
+            (report) => report.source !== "auto"
+          );
+          caseDismissed = decision.trigger === "rules" && !hasUserReports;
+          await this.moderationCaseRepository.transition(
+            decision.caseId!,
+            ACTIVE_CASE_STATUSES,
+            caseDismissed
+              ? {
+                  status: "dismissed",
+                  closedBy: actorId,
+                  closedAt: new Date(),
+                  contentHidden: false,
+                  resolution: {
+                    action: "revert_auto_decision",
+                    outcome: "Automated decision reverted",
+                    reason,
+                  },
+                }
+              : { contentHidden: false },
+            {
+              action: "auto_decision_reverted",
+              actorId,
+              fromStatus: moderationCase.status,
+              toStatus: caseDismissed ? "dismissed" : moderationCase.status,
+              note: reason,
+              metadata: { decisionId },
+            }
+          );
+        }
+
+        return { success: true, decision, contentRestored, caseDismissed };
+      },
+      "AutoModeration",
+      decisionId,
+      actorId
+    );
+  }
+
+  /**
+   * Rétablir le contenu masqué d'un dossier approuvé par un modérateur
+   * (le dossier est clos par l'appelant)
+   */
+  async restoreCaseContent(
+    moderationCase: ModerationCase,
+    actorId: string,
+    reason?: string
+  ): Promise<boolean> {
+    if (!moderationCase.contentHidden || !moderationCase.autoDecisionId) {
+      return false;
+    }
+    const { contentRestored } = await this.undoDecision(
+      moderationCase.autoDecisionId,
+      actorId,
+      reason
+    );
+    return contentRestored;
+  }
+
+  // ========== CONFIGURATION ==========
+
+  /**
+   * Version de règles active, mise en cache une minute
+   */
+  async getActiveRules(): Promise<ActiveAutoModerationRules> {
+    if (
+      this.cachedRules &&
+      Date.now() - this.cachedRules.loadedAt < RULES_CACHE_TTL_MS
+    ) {
+      return this.cachedRules;
+    }
+    const active = await this.configRepository.findActive();
+    this.cachedRules = {
+      version: active?.version || 0,
+      rules: active?.rules || DEFAULT_AUTO_MODERATION_RULES,
+      loadedAt: Date.now(),
+    };
+    return this.cachedRules;
+  }
+
+  /**
+   * Enregistrer et activer une nouvelle version des règles, construite à
+   * partir de la version active
+   */
+  async configure(
+    changes: AutoModerationConfigDto,
+    adminId: string
+  ): Promise<{
+    success: boolean;
+    version: number;
+    rules: AutoModerationRules;
+    message: string;
+  }> {
+    const { rules: current } = await this.getActiveRules();
+    const rules: AutoModerationRules = {
+      bannedTerms: (changes.bannedTerms || current.bannedTerms).map((list) => ({
+        language: list.language.trim().toLowerCase(),
+        terms: Array.from(
+          new Set(list.terms.map((term) => term.trim()).filter(Boolean))
+        ),
+        score: list.score,
+      })),
+      links: this.merge(current.links, changes.links),
+      spam: this.merge(current.spam, changes.spam),
+      newAccount: this.merge(current.newAccount, changes.newAccount),
+      reporterReputation: this.merge(
+        current.reporterReputation,
+        changes.reporterReputation
+      ),
+      thresholds: this.merge(current.thresholds, changes.thresholds),
+    };
+    rules.links.blockedDomains = Array.from(
+      new Set(
+        rules.links.blockedDomains.map((domain) =>
+          domain
+            .trim()
+            .toLowerCase()
+            .replace(/^www\./, "")
+        )
+      )
+    ).filter(Boolean);
+
+    if (rules.thresholds.hide < rules.thresholds.flag) {
+      throw new BadRequestException(
+        "The hide threshold must be greater than or equal to the flag threshold"
+      );
+    }
+    if (
+      rules.reporterReputation.minWeight > rules.reporterReputation.maxWeight
+    ) {
+      throw new BadRequestException(
+        "The minimum reporter weight cannot exceed the maximum weight"
+      );
+    }
+
+    const config = await this.configRepository.createVersion(
+      rules,
+      adminId,
+      changes.note
+    );
+    this.cachedRules = null;
+
+    return {
+      success: true,
+      version: config.version,
+      rules: config.rules,
+      message: `Auto-moderation configuration updated successfully (version ${config.version})`,
+    };
+  }
+
+  async getConfiguration(): Promise<ActiveAutoModerationRules> {
+    const { version, rules } = await this.getActiveRules();
+    return { version, rules };
+  }
+
+  async listVersions(limit: number): Promise<AutoModerationConfig[]> {
+    return this.configRepository.listVersions(limit);
+  }
+
+  /**
+   * Réactiver une version précédente (retour arrière)
+   */
+  async activateVersion(version: number): Promise<AutoModerationConfig> {
+    const activated = await this.configRepository.activate(version);
+    if (!activated) {
+      throw new NotFoundException(
+        `Auto-moderation configuration version ${version} not found`
+      );
+    }
+    this.cachedRules = null;
+    return activated;
+  }
+
+  // ========== MÉTHODES PRIVÉES ==========
+
+  private isAutoModerated(
+    contentType: ModerationContentType
+  ): contentType is AutoModeratedContentType {
+    return (AUTO_MODERATED_CONTENT_TYPES as readonly string[]).includes(
+      contentType
+    );
+  }
+
+  private decisionBase(
+    content: ScreenableContent,
+    verdict: ModerationVerdict,
+    configVersion: number
+  ) {
+    return {
+      contentType: content.contentType,
+      contentId: content.contentId,
+      authorId: content.authorId,
+      trigger: "rules" as const,
+      score: verdict.score,
+      matches: verdict.matches,
+      configVersion,
+    };
+  }
+
+  /**
+   * Marquer la décision comme annulée puis rétablir le contenu masqué
+   */
+  private async undoDecision(
+    decisionId: string,
+    actorId: string,
+    reason?: string
+  ): Promise<{ decision: AutoModerationDecision; contentRestored: boolean }> {
+    const existing = await this.decisionRepository.findById(decisionId);
+    if (!existing) {
+      throw new NotFoundException("Automated decision not found");
+    }
+    if (existing.action === "none") {
+      throw new BadRequestException("This screening took no action to revert");
+    }
+    if (existing.status === "reverted") {
+      throw new BadRequestException("This decision has already been reverted");
+    }
+
+    const decision = await this.decisionRepository.markReverted(
+      decisionId,
+      actorId,
+      reason
+    );
+    if (!decision) {
+      throw new ConflictException(
+        "This decision was reverted by another moderator in the meantime"
+      );
+    }
+
+    const contentRestored =
+      decision.action === "hide" && !!decision.previousState
+        ? await this.restoreContent(
+            decision.contentType,
+            decision.contentId,
+            decision.previousState
+          )
+        : false;
+    return { decision, contentRestored };
+  }
+
+  /**
+   * Ouvrir un dossier pour une décision, ou l'ajouter au dossier actif
+   */
+  private async openCase(
+    content: ScreenableContent,
+    verdict: ModerationVerdict,
+    decisionId: string,
+    contentHidden: boolean
+  ): Promise<string | undefined> {
+    const severity: ModerationSeverity =
+      verdict.action === "hide" ? "high" : "medium";
+    const reportedAt = new Date();
+    const report = {
+      source: "auto",
+      weight: 0,
+      reason: verdict.matches.some((match) => match.rule === "banned-term")
+        ? ("inappropriate" as const)
+        : ("spam" as const),
+      description: verdict.matches
+        .map((match) => `${match.rule}: ${match.detail}`)
+        .join("; ")
+        .slice(0, 1000),
+      category: "auto-moderation",
+      severity,
+      reportedAt,
+    };
+
+    let existing = await this.moderationCaseRepository.findActiveByContent(
+      content.contentType,
+      content.contentId
+    );
+    if (!existing) {
+      const created = await this.moderationCaseRepository.create({
+        contentType: content.contentType,
+        contentId: content.contentId,
+        severity,
+        slaDueAt: new Date(
+          reportedAt.getTime() + CASE_SLA_HOURS[severity] * HOUR_MS
+        ),
+        report,
+        autoFlagged: true,
+        autoDecisionId: decisionId,
+        contentHidden,
+      });
+      if (created) {
+        return String((created as any)._id);
+      }
+      // Dossier ouvert en parallèle : la décision y est ajoutée
+      existing = await this.moderationCaseRepository.findActiveByContent(
+        content.contentType,
+        content.contentId
+      );
+      if (!existing) {
+        throw new ConflictException(
+          "The moderation case could not be recorded, please try again"
+        );
+      }
+    }
+
+    const caseId = String((existing as any)._id);
+    await this.moderationCaseRepository.addReport(caseId, report);
+    await this.moderationCaseRepository.transition(
+      caseId,
+      ACTIVE_CASE_STATUSES,
+      { autoDecisionId: decisionId, ...(contentHidden && { contentHidden }) },
+      {
+        action: contentHidden ? "auto_hidden" : "auto_flagged",
+        metadata: { decisionId, score: verdict.score },
+      }
+    );
+    return caseId;
+  }
+
+  /**
+   * Masquer un contenu en attendant la revue
+   *
+   * @returns L'état à rétablir en cas d'annulation, ou null si le contenu
+   *          est introuvable ou déjà masqué
+   */
+  private async hideContent(
+    contentType: AutoModeratedContentType,
+    contentId: string
+  ): Promise<Record<string, any> | null> {
+    switch (contentType) {
+      case "word": {
+        // Un mot masqué repasse en attente d'approbation
+        const word = await this.wordRepository.findById(contentId);
+        if (!word || word.status === "pending") {
+          return null;
+        }
+        await this.wordRepository.updateStatus(contentId, "pending");
+        return { status: word.status };
+      }
+      case "post": {
+        const post = await this.postRepository.findById(contentId);
+        if (!post || ["hidden", "deleted"].includes(post.status)) {
+          return null;
+        }
+        await this.postRepository.updateStatus(contentId, "hidden");
+        return { status: post.status };
+      }
+      case "comment": {
+        const comment = await this.commentRepository.findById(contentId);
+        if (!comment || ["hidden", "deleted"].includes(comment.status)) {
+          return null;
+        }
+        await this.commentRepository.updateStatus(contentId, "hidden");
+        return { status: comment.status };
+      }
+      case "message": {
+        const message = await this.messageRepository.findById(contentId);
+        if (!message || message.isHidden || message.isDeleted) {
+          return null;
+        }
+        await this.messageRepository.update(contentId, { isHidden: true });
+        return { isHidden: false };
+      }
+    }
+  }
+
+  private async restoreContent(
+    contentType: AutoModeratedContentType,
+    contentId: string,
+    previousState: Record<string, any>
+  ): Promise<boolean> {
+    switch (contentType) {
+      case "word":
+        return !!(await this.wordRepository.updateStatus(
+          contentId,
+          previousState.status
+        ));
+      case "post":
+        return this.postRepository.updateStatus(
+          contentId,
+          previousState.status
+        );
+      case "comment":
+        return this.commentRepository.updateStatus(
+          contentId,
+          previousState.status
+        );
+      case "message":
+        return !!(await this.messageRepository.update(contentId, {
+          isHidden: false,
+        }));
+    }
+  }
+
+  /** Valeurs définies de `changes` appliquées sur `current` */
+  private merge<T extends object>(current: T, changes?: Partial<T>): T {
+    const defined = Object.entries(changes || {}).filter(
+      ([, value]) => value !== undefined
+    );
+    return { ...current, ...Object.fromEntries(defined) } as T;
+  }
+}
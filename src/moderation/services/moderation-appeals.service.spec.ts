@@ -0,0 +1,263 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { ConflictException, ForbiddenException } from "@nestjs/common";
+import { ModerationAppealsService } from "./moderation-appeals.service";
+import { AuditService } from "../../auth/services/audit.service";
+import { AuditAction } from "../../auth/schemas/audit-log.schema";
+import { MailService } from "../../common/services/mail.service";
+
+describe("ModerationAppealsService", () => {
+  let service: ModerationAppealsService;
+  let appealRepository: any;
+  let wordRepository: any;
+  let revisionRepository: any;
+  let userRepository: any;
+  let auditService: any;
+  let mailService: any;
+
+  const rejectedAt = new Date("2025-03-01T10:00:00Z");
+  const appellant = { _id: "author", username: "auteur", role: "user" };
+  const reviewer = { _id: "admin2", username: "admin2", role: "admin" };
+  const appeal = (overrides: Record<string, any> = {}) => ({
+    _id: "a1",
+    decisionType: "word_rejection",
+    targetId: "w1",
+    appellantId: "author",
+    originalModeratorId: "admin1",
+    decidedAt: rejectedAt,
+    previousState: { status: "pending" },
+    status: "pending",
+    assignedTo: "admin2",
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    appealRepository = {
+      create: jest.fn((data) => Promise.resolve({ _id: "a1", ...data })),
+      findById: jest.fn().mockResolvedValue(appeal()),
+      findLatestForDecision: jest.fn().mockResolvedValue(null),
+      findMany: jest.fn(),
+      countPendingByAssignee: jest
+        .fn()
+        .mockResolvedValue({ admin2: 4, admin3: 1 }),
+      assign: jest.fn(),
+      resolve: jest.fn((id, resolution) => Promise.resolve(appeal(resolution))),
+    };
+    wordRepository = {
+      findById: jest.fn().mockResolvedValue({
+        _id: "w1",
+        word: "mbolo",
+        status: "rejected",
+        createdBy: { _id: "author" },
+        moderatedBy: "admin1",
+        moderationReason: "Doublon",
+        moderatedAt: rejectedAt,
+        previousStatus: "pending",
+      }),
+      updateStatus: jest.fn().mockResolvedValue({}),
+    };
+    revisionRepository = {
+      findById: jest.fn().mockResolvedValue({
+        _id: "r1",
+        wordId: "w1",
+        status: "rejected",
+        modifiedBy: { _id: "author" },
+        reviewedBy: { _id: "admin1" },
+        metadata: { source: "web" },
+      }),
+      update: jest.fn().mockResolvedValue({}),
+    };
+    userRepository = {
+      findById: jest.fn((id) =>
+        Promise.resolve({
+          _id: id,
+          username: id === "author" ? "auteur" : id,
+          email: `${id}@example.com`,
+          role: "admin",
+          isSuspended: true,
+          suspendedBy: "admin1",
+        })
+      ),
+      findAdmins: jest
+        .fn()
+        .mockResolvedValue([
+          { _id: "admin1" },
+          { _id: "admin2" },
+          { _id: "admin3" },
+        ]),
+      update: jest.fn().mockResolvedValue({}),
+    };
+    auditService = {
+      logContentChange: jest.fn(),
+      logUserChange: jest.fn(),
+    };
+    mailService = { sendModerationAppealDecision: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ModerationAppealsService,
+        { provide: "IModerationAppealRepository", useValue: appealRepository },
+        { provide: "IWordRepository", useValue: wordRepository },
+        { provide: "IRevisionHistoryRepository", useValue: revisionRepository },
+        { provide: "IUserRepository", useValue: userRepository },
+        { provide: AuditService, useValue: auditService },
+        { provide: MailService, useValue: mailService },
+      ],
+    }).compile();
+
+    service = module.get<ModerationAppealsService>(ModerationAppealsService);
+  });
+
+  describe("fileAppeal", () => {
+    it("should route the appeal to the least loaded other administrator", async () => {
+      await service.fileAppeal(
+        appellant,
+        "word_rejection",
+        "w1",
+        "Mot attesté"
+      );
+
+      expect(appealRepository.countPendingByAssignee).toHaveBeenCalledWith([
+        "admin2",
+        "admin3",
+      ]);
+      expect(appealRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          targetId: "w1",
+          appellantId: "author",
+          originalModeratorId: "admin1",
+          originalReason: "Doublon",
+          previousState: { status: "pending" },
+          assignedTo: "admin3",
+        })
+      );
+      expect(auditService.logContentChange).toHaveBeenCalledWith(
+        AuditAction.APPEAL_FILE,
+        expect.objectContaining({ userId: "author" }),
+        "appeal",
+        "a1",
+        undefined,
+        expect.objectContaining({ assignedTo: "admin3" })
+      );
+    });
+
+    it("should accept a single appeal per decision", async () => {
+      appealRepository.findLatestForDecision.mockResolvedValue(
+        appeal({ status: "upheld" })
+      );
+
+      await expect(
+        service.fileAppeal(appellant, "word_rejection", "w1", "Encore")
+      ).rejects.toThrow(ConflictException);
+      expect(appealRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("decideAppeal", () => {
+    it("should refuse a decision by the original moderator", async () => {
+      await expect(
+        service.decideAppeal(
+          "a1",
+          { _id: "admin1", role: "superadmin" },
+          "upheld"
+        )
+      ).rejects.toThrow(ForbiddenException);
+      expect(appealRepository.resolve).not.toHaveBeenCalled();
+    });
+
+    it("should restore the word status and mail the appellant", async () => {
+      const result = await service.decideAppeal(
+        "a1",
+        reviewer,
+        "overturned",
+        "Source fournie"
+      );
+
+      expect(wordRepository.updateStatus).toHaveBeenCalledWith("w1", "pending");
+      expect(auditService.logContentChange).toHaveBeenCalledWith(
+        AuditAction.APPEAL_OVERTURN,
+        expect.objectContaining({ userId: "admin2" }),
+        "word",
+        "w1",
+        { status: "rejected" },
+        expect.objectContaining({ restored: true, status: "pending" })
+      );
+      expect(mailService.sendModerationAppealDecision).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: "author@example.com",
+          overturned: true,
+          decisionLabel: "le rejet du mot « mbolo »",
+          resolutionNote: "Source fournie",
+        })
+      );
+      expect(result.restored).toBe(true);
+    });
+
+    it("should reopen an overturned revision for review", async () => {
+      appealRepository.findById.mockResolvedValue(
+        appeal({ decisionType: "revision_rejection", targetId: "r1" })
+      );
+      appealRepository.resolve.mockImplementation((id, resolution) =>
+        Promise.resolve(
+          appeal({
+            decisionType: "revision_rejection",
+            targetId: "r1",
+            ...resolution,
+          })
+        )
+      );
+
+      await service.decideAppeal("a1", reviewer, "overturned");
+
+      expect(revisionRepository.update).toHaveBeenCalledWith(
+        "r1",
+        expect.objectContaining({
+          status: "pending",
+          metadata: { source: "web", appealId: "a1" },
+        })
+      );
+    });
+
+    it("should lift an overturned suspension", async () => {
+      const suspension = {
+        decisionType: "suspension",
+        targetId: "author",
+        previousState: { isSuspended: false },
+      };
+      appealRepository.findById.mockResolvedValue(appeal(suspension));
+      appealRepository.resolve.mockImplementation((id, resolution) =>
+        Promise.resolve(appeal({ ...suspension, ...resolution }))
+      );
+
+      await service.decideAppeal("a1", reviewer, "overturned");
+
+      expect(userRepository.update).toHaveBeenCalledWith("author", {
+        isSuspended: false,
+      });
+      expect(auditService.logUserChange).toHaveBeenCalledWith(
+        AuditAction.APPEAL_OVERTURN,
+        expect.anything(),
+        "author",
+        { isSuspended: true },
+        expect.objectContaining({ isSuspended: false })
+      );
+    });
+
+    it("should leave the decision in place when the appeal is upheld", async () => {
+      await service.decideAppeal("a1", reviewer, "upheld");
+
+      expect(wordRepository.updateStatus).not.toHaveBeenCalled();
+      expect(mailService.sendModerationAppealDecision).toHaveBeenCalledWith(
+        expect.objectContaining({ overturned: false })
+      );
+    });
+
+    it("should not restore twice when the appeal was decided meanwhile", async () => {
+      appealRepository.resolve.mockResolvedValue(null);
+
+      await expect(
+        service.decideAppeal("a1", reviewer, "overturned")
+      ).rejects.toThrow(ConflictException);
+      expect(wordRepository.updateStatus).not.toHaveBeenCalled();
+    });
+  });
+});
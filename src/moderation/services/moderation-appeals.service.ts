@@ -0,0 +1,484 @@
+/**
+ * @fileoverview Service des appels de décisions de modération pour O'Ypunu
+ *
+ * Un utilisateur peut faire appel du rejet d'un de ses mots
+ * (`PATCH /admin/words/:id/moderate`), du rejet d'une de ses révisions
+ * ou de sa suspension (`PATCH /admin/users/:id/suspension`). L'appel est
+ * confié à un administrateur autre que l'auteur de la décision ; s'il est
+ * accepté, le statut du mot, la révision ou la suspension sont rétablis
+ * dans leur état antérieur. L'issue est envoyée par email et chaque étape
+ * est consignée dans le journal d'audit.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "@nestjs/common";
+import {
+  IModerationAppealRepository,
+  ModerationAppealData,
+  ModerationAppealFilters,
+} from "../../repositories/interfaces/moderation-appeal.repository.interface";
+import { IWordRepository } from "../../repositories/interfaces/word.repository.interface";
+import { IRevisionHistoryRepository } from "../../repositories/interfaces/revision-history.repository.interface";
+import { IUserRepository } from "../../repositories/interfaces/user.repository.interface";
+import {
+  AppealableDecisionType,
+  ModerationAppeal,
+} from "../schemas/moderation-appeal.schema";
+import { AuditService, AuditContext } from "../../auth/services/audit.service";
+import { AuditAction } from "../../auth/schemas/audit-log.schema";
+import { MailService } from "../../common/services/mail.service";
+import { UserRole } from "../../users/schemas/user.schema";
+
+/**
+ * Utilisateur authentifié à l'origine d'une action sur un appel
+ */
+export interface AppealActor {
+  _id: string;
+  username?: string;
+  role?: string;
+}
+
+/** Décision contestée telle qu'elle est enregistrée dans l'appel */
+type ContestedDecision = Omit<
+  ModerationAppealData,
+  "decisionType" | "appellantId" | "statement" | "assignedTo"
+>;
+
+@Injectable()
+export class ModerationAppealsService {
+  private readonly logger = new Logger(ModerationAppealsService.name);
+
+  constructor(
+    @Inject("IModerationAppealRepository")
+    private appealRepository: IModerationAppealRepository,
+    @Inject("IWordRepository") private wordRepository: IWordRepository,
+    @Inject("IRevisionHistoryRepository")
+    private revisionRepository: IRevisionHistoryRepository,
+    @Inject("IUserRepository") private userRepository: IUserRepository,
+    private auditService: AuditService,
+    private mailService: MailService
+  ) {}
+
+  /**
+   * Déposer un appel contre une décision visant l'utilisateur
+   *
+   * L'appel est attribué à l'administrateur le moins chargé parmi ceux
+   * qui n'ont pas pris la décision ; sans candidat, il reste dans la file
+   * commune.
+   */
+  async fileAppeal(
+    appellant: AppealActor,
+    decisionType: AppealableDecisionType,
+    targetId: string | undefined,
+    statement: string
+  ): Promise<ModerationAppeal> {
+    const decision = await this.loadContestedDecision(
+      decisionType,
+      decisionType === "suspension" ? appellant._id : targetId,
+      appellant._id
+    );
+
+    const latest = await this.appealRepository.findLatestForDecision(
+      decisionType,
+      decision.targetId
+    );
+    if (
+      latest &&
+      (latest.status === "pending" ||
+        this.sameDate(latest.decidedAt, decision.decidedAt))
+    ) {
+      throw new ConflictException(
+        "Cette décision a déjà fait l'objet d'un appel"
+      );
+    }
+
+    const assignedTo = await this.pickReviewer([
+      decision.originalModeratorId,
+      appellant._id,
+    ]);
+    const appeal = await this.appealRepository.create({
+      ...decision,
+      decisionType,
+      appellantId: appellant._id,
+      statement,
+      assignedTo,
+    });
+
+    await this.auditService.logContentChange(
+      AuditAction.APPEAL_FILE,
+      this.auditContext(appellant),
+      "appeal",
+      this.idOf(appeal),
+      undefined,
+      {
+        decisionType,
+        targetId: decision.targetId,
+        originalModeratorId: decision.originalModeratorId,
+        assignedTo,
+      }
+    );
+    return appeal;
+  }
+
+  /**
+   * Attribuer un appel à un autre administrateur
+   */
+  async assignAppeal(
+    appealId: string,
+    moderatorId: string
+  ): Promise<ModerationAppeal> {
+    const appeal = await this.getPendingAppeal(appealId);
+    this.ensureIndependentReviewer(appeal, moderatorId);
+
+    const moderator = await this.userRepository.findById(moderatorId);
+    if (
+      !moderator ||
+      ![UserRole.ADMIN, UserRole.SUPERADMIN].includes(
+        moderator.role as UserRole
+      )
+    ) {
+      throw new BadRequestException(
+        "Un appel ne peut être attribué qu'à un administrateur"
+      );
+    }
+
+    const updated = await this.appealRepository.assign(appealId, moderatorId);
+    if (!updated) {
+      throw new ConflictException("Cet appel a été tranché entre-temps");
+    }
+    return updated;
+  }
+
+  /**
+   * Trancher un appel
+   *
+   * Seul l'administrateur désigné (ou un superadmin) peut trancher, et
+   * jamais l'auteur de la décision contestée. Une décision annulée est
+   * défaite si elle est toujours en vigueur.
+   */
+  async decideAppeal(
+    appealId: string,
+    moderator: AppealActor,
+    outcome: "upheld" | "overturned",
+    note?: string
+  ): Promise<ModerationAppeal & { restored: boolean }> {
+    const appeal = await this.getPendingAppeal(appealId);
+    this.ensureIndependentReviewer(appeal, moderator._id);
+
+    const assignee = this.idOf(appeal.assignedTo);
+    if (
+      assignee &&
+      assignee !== moderator._id &&
+      moderator.role !== UserRole.SUPERADMIN
+    ) {
+      throw new ForbiddenException(
+        "Cet appel est attribué à un autre administrateur"
+      );
+    }
+
+    const resolved = await this.appealRepository.resolve(appealId, {
+      status: outcome,
+      resolvedBy: moderator._id,
+      resolutionNote: note,
+    });
+    if (!resolved) {
+      throw new ConflictException("Cet appel a été tranché entre-temps");
+    }
+
+    const restored =
+      outcome === "overturned" ? await this.restore(resolved) : false;
+
+    const context = this.auditContext(moderator);
+    const action =
+      outcome === "overturned"
+        ? AuditAction.APPEAL_OVERTURN
+        : AuditAction.APPEAL_UPHOLD;
+    const afterState = {
+      appealId,
+      outcome,
+      restored,
+      ...(restored ? resolved.previousState : {}),
+    };
+    if (resolved.decisionType === "suspension") {
+      await this.auditService.logUserChange(
+        action,
+        context,
+        resolved.targetId,
+        { isSuspended: true },
+        afterState
+      );
+    } else {
+      await this.auditService.logContentChange(
+        action,
+        context,
+        resolved.decisionType === "word_rejection" ? "word" : "revision",
+        resolved.targetId,
+        { status: "rejected" },
+        afterState
+      );
+    }
+
+    await this.notifyAppellant(resolved, moderator, outcome === "overturned");
+    return { ...resolved, restored };
+  }
+
+  /**
+   * Liste des appels pour les administrateurs
+   */
+  async listAppeals(
+    filters: ModerationAppealFilters,
+    page: number,
+    limit: number
+  ): Promise<{
+    appeals: ModerationAppeal[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const { appeals, total } = await this.appealRepository.findMany(filters, {
+      page,
+      limit,
+    });
+    return {
+      appeals,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Appels déposés par un utilisateur
+   */
+  async listUserAppeals(userId: string, page: number, limit: number) {
+    return this.listAppeals({ appellantId: userId }, page, limit);
+  }
+
+  /**
+   * Décision contestée, vérifiée comme visant l'auteur de l'appel
+   */
+  private async loadContestedDecision(
+    decisionType: AppealableDecisionType,
+    targetId: string | undefined,
+    appellantId: string
+  ): Promise<ContestedDecision> {
+    if (!targetId) {
+      throw new BadRequestException("La décision contestée est requise");
+    }
+
+    if (decisionType === "word_rejection") {
+      const word: any = await this.wordRepository.findById(targetId);
+      if (!word || this.idOf(word.createdBy) !== appellantId) {
+        throw new NotFoundException("Mot introuvable");
+      }
+      if (word.status !== "rejected") {
+        throw new BadRequestException("Ce mot n'a pas été rejeté");
+      }
+      return {
+        targetId,
+        originalModeratorId: this.idOf(word.moderatedBy),
+        originalReason: word.moderationReason,
+        decidedAt: word.moderatedAt,
+        previousState: { status: word.previousStatus || "pending" },
+      };
+    }
+
+    if (decisionType === "revision_rejection") {
+      const revision = await this.revisionRepository.findById(targetId);
+      if (!revision || this.idOf(revision.modifiedBy) !== appellantId) {
+        throw new NotFoundException("Révision introuvable");
+      }
+      if (revision.status !== "rejected") {
+        throw new BadRequestException("Cette révision n'a pas été rejetée");
+      }
+      return {
+        targetId,
+        wordId: this.idOf(revision.wordId),
+        originalModeratorId: this.idOf(revision.reviewedBy),
+        originalReason: revision.reviewNotes,
+        decidedAt: revision.reviewedAt,
+        previousState: { status: "pending" },
+      };
+    }
+
+    const user = await this.userRepository.findById(targetId);
+    if (!user) {
+      throw new NotFoundException("Utilisateur introuvable");
+    }
+    if (!user.isSuspended) {
+      throw new BadRequestException("Votre compte n'est pas suspendu");
+    }
+    return {
+      targetId,
+      originalModeratorId: this.idOf(user.suspendedBy),
+      originalReason: user.suspensionReason,
+      decidedAt: user.suspendedAt,
+      previousState: { isSuspended: false },
+    };
+  }
+
+  /**
+   * Administrateur actif le moins chargé, hors personnes exclues
+   */
+  private async pickReviewer(
+    excluded: Array<string | undefined>
+  ): Promise<string | undefined> {
+    const candidates = (await this.userRepository.findAdmins())
+      .map((admin) => this.idOf(admin))
+      .filter((id): id is string => !!id && !excluded.includes(id));
+    if (!candidates.length) {
+      return undefined;
+    }
+
+    const load = await this.appealRepository.countPendingByAssignee(candidates);
+    return candidates.reduce((best, id) =>
+      (load[id] || 0) < (load[best] || 0) ? id : best
+    );
+  }
+
+  /**
+   * Défaire la décision si elle est toujours en vigueur
+   */
+  private async restore(appeal: ModerationAppeal): Promise<boolean> {
+    try {
+      if (appeal.decisionType === "word_rejection") {
+        const word = await this.wordRepository.findById(appeal.targetId);
+        if (word?.status !== "rejected") {
+          return false;
+        }
+        await this.wordRepository.updateStatus(
+          appeal.targetId,
+          appeal.previousState?.status || "pending"
+        );
+        return true;
+      }
+
+      if (appeal.decisionType === "revision_rejection") {
+        const revision = await this.revisionRepository.findById(
+          appeal.targetId
+        );
+        if (revision?.status !== "rejected") {
+          return false;
+        }
+        await this.revisionRepository.update(appeal.targetId, {
+          status: "pending",
+          reviewNotes: "Rejet annulé en appel",
+          metadata: {
+            ...revision.metadata,
+            appealId: this.idOf(appeal),
+          },
+        });
+        return true;
+      }
+
+      const user = await this.userRepository.findById(appeal.targetId);
+      if (!user?.isSuspended) {
+        return false;
+      }
+      await this.userRepository.update(appeal.targetId, {
+        isSuspended: false,
+      });
+      return true;
+    } catch (error) {
+      this.logger.error(
+        `Rétablissement impossible pour l'appel ${this.idOf(appeal)}`,
+        error instanceof Error ? error.stack : undefined
+      );
+      return false;
+    }
+  }
+
+  private async notifyAppellant(
+    appeal: ModerationAppeal,
+    moderator: AppealActor,
+    overturned: boolean
+  ): Promise<void> {
+    const appellant = await this.userRepository.findById(
+      this.idOf(appeal.appellantId)
+    );
+    if (!appellant?.email) {
+      return;
+    }
+
+    let decisionLabel = "la suspension de votre compte";
+    if (appeal.decisionType === "word_rejection") {
+      const word = await this.wordRepository.findById(appeal.targetId);
+      decisionLabel = word
+        ? `le rejet du mot « ${word.word} »`
+        : "le rejet de votre mot";
+    } else if (appeal.decisionType === "revision_rejection") {
+      decisionLabel = "le rejet de votre révision";
+    }
+
+    await this.mailService.sendModerationAppealDecision({
+      to: appellant.email,
+      username: appellant.username,
+      decisionLabel,
+      overturned,
+      reviewerName: moderator.username || "un administrateur",
+      resolutionNote: appeal.resolutionNote,
+    });
+  }
+
+  private async getPendingAppeal(appealId: string): Promise<ModerationAppeal> {
+    const appeal = await this.appealRepository.findById(appealId);
+    if (!appeal) {
+      throw new NotFoundException("Appel introuvable");
+    }
+    if (appeal.status !== "pending") {
+      throw new BadRequestException("Cet appel a déjà été tranché");
+    }
+    return appeal;
+  }
+
+  private ensureIndependentReviewer(
+    appeal: ModerationAppeal,
+    moderatorId: string
+  ): void {
+    if (this.idOf(appeal.originalModeratorId) === moderatorId) {
+      throw new ForbiddenException(
+        "L'auteur de la décision ne peut pas examiner son appel"
+      );
+    }
+    if (this.idOf(appeal.appellantId) === moderatorId) {
+      throw new ForbiddenException(
+        "Un utilisateur ne peut pas examiner son propre appel"
+      );
+    }
+  }
+
+  private auditContext(actor: AppealActor): AuditContext {
+    return {
+      userId: actor._id,
+      username: actor.username,
+      userRole: actor.role,
+    };
+  }
+
+  /** Même décision : dates identiques, ou toutes deux inconnues */
+  private sameDate(a?: Date, b?: Date): boolean {
+    const time = (date?: Date) => (date ? new Date(date).getTime() : null);
+    return time(a) === time(b);
+  }
+
+  /** ID d'une référence, peuplée ou non */
+  private idOf(value: any): string | undefined {
+    if (!value) {
+      return undefined;
+    }
+    return (value._id ?? value).toString();
+  }
+}
@@ -0,0 +1,391 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from "@nestjs/common";
+import { ModerationService } from "./moderation.service";
+import { AutoModerationService } from "./auto-moderation.service";
+
+describe("ModerationService", () => {
+  let service: ModerationService;
+  let wordRepository: any;
+  let userRepository: any;
+  let moderationCaseRepository: any;
+  let autoModerationService: any;
+
+  const HOUR_MS = 60 * 60 * 1000;
+  const wordId = "64d000000000000000000001";
+  const caseId = "64d0000000000000000000c1";
+  const users: Record<string, any> = {
+    reporter: { _id: "reporter", username: "ada", role: "user" },
+    other: { _id: "other", username: "bo", role: "user" },
+    mod: { _id: "mod", username: "mina", role: "moderator" },
+    admin: { _id: "admin", username: "ali", role: "admin" },
+  };
+
+  const activeCase = (overrides: Record<string, any> = {}) => ({
+    _id: caseId,
+    contentType: "word",
+    contentId: wordId,
+    status: "open",
+    severity: "medium",
+    priority: 2,
+    reason: "spam",
+    reportCount: 1,
+    reports: [
+      {
+        reportedBy: "reporter",
+        reason: "spam",
+        severity: "medium",
+        reportedAt: new Date(),
+      },
+    ],
+    slaDueAt: new Date(Date.now() + 72 * HOUR_MS),
+    createdAt: new Date(Date.now() - 3 * HOUR_MS),
+    actions: [],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    wordRepository = {
+      findById: jest.fn().mockResolvedValue({ _id: wordId, word: "kalara" }),
+      updateStatus: jest.fn().mockResolvedValue({}),
+    };
+    userRepository = {
+      findById: jest.fn((id: string) => Promise.resolve(users[id] || null)),
+    };
+    moderationCaseRepository = {
+      create: jest.fn((data) =>
+        Promise.resolve(activeCase({ severity: data.severity }))
+      ),
+      findById: jest.fn().mockResolvedValue(activeCase()),
+      findActiveByContent: jest.fn().mockResolvedValue(null),
+      addReport: jest.fn(() => Promise.resolve(activeCase({ reportCount: 2 }))),
+      transition: jest.fn((id, from, changes) =>
+        Promise.resolve(activeCase(changes))
+      ),
+      findMany: jest.fn(),
+      findQueue: jest.fn(),
+      getStats: jest.fn(),
+    };
+    autoModerationService = {
+      reporterWeight: jest.fn().mockResolvedValue(1),
+      hideForReports: jest.fn().mockResolvedValue(false),
+      restoreCaseContent: jest.fn().mockResolvedValue(false),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ModerationService,
+        { provide: "IWordRepository", useValue: wordRepository },
+        { provide: "IUserRepository", useValue: userRepository },
+        {
+          provide: "IPostCommentRepository",
+          useValue: { findById: jest.fn() },
+        },
+        {
+          provide: "IWordRelationRepository",
+          useValue: { deleteByWordIds: jest.fn() },
+        },
+        {
+          provide: "IModerationCaseRepository",
+          useValue: moderationCaseRepository,
+        },
+        {
+          provide: "ICommunityPostRepository",
+          useValue: { findById: jest.fn() },
+        },
+        { provide: "IMessageRepository", useValue: { findById: jest.fn() } },
+        { provide: AutoModerationService, useValue: autoModerationService },
+      ],
+    }).compile();
+
+    service = module.get<ModerationService>(ModerationService);
+  });
+
+  describe("flagContent", () => {
+    it("should open a case with a deadline matching the severity", async () => {
+      const result = await service.flagContent(
+        "word",
+        wordId,
+        "offensive",
+        "reporter"
+      );
+
+      const [data] = moderationCaseRepository.create.mock.calls[0];
+      expect(data).toMatchObject({
+        contentType: "word",
+        contentId: wordId,
+        severity: "critical",
+        report: { reportedBy: "reporter", reason: "offensive" },
+      });
+      expect(data.slaDueAt.getTime() - data.report.reportedAt.getTime()).toBe(
+        4 * HOUR_MS
+      );
+      expect(result).toMatchObject({
+        success: true,
+        reportId: caseId,
+        merged: false,
+      });
+    });
+
+    it("should merge further reports into the active case and raise its severity", async () => {
+      const existing = activeCase();
+      moderationCaseRepository.findActiveByContent.mockResolvedValue(existing);
+
+      const result = await service.flagContent(
+        "word",
+        wordId,
+        "inappropriate",
+        "other"
+      );
+
+      expect(moderationCaseRepository.create).not.toHaveBeenCalled();
+      const [id, report, escalation] =
+        moderationCaseRepository.addReport.mock.calls[0];
+      expect(id).toBe(caseId);
+      expect(report).toMatchObject({ reportedBy: "other", severity: "high" });
+      expect(escalation.severity).toBe("high");
+      expect(escalation.slaDueAt.getTime()).toBeLessThan(
+        existing.slaDueAt.getTime()
+      );
+      expect(result).toMatchObject({ merged: true, reportCount: 2 });
+    });
+
+    it("should not lower the severity nor accept a second report from the same user", async () => {
+      moderationCaseRepository.findActiveByContent.mockResolvedValue(
+        activeCase({ severity: "critical", priority: 4 })
+      );
+
+      await service.flagContent("word", wordId, "spam", "other");
+      expect(
+        moderationCaseRepository.addReport.mock.calls[0][2]
+      ).toBeUndefined();
+
+      await expect(
+        service.flagContent("word", wordId, "spam", "reporter")
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it("should weight the report by the reporter's track record and hide past the threshold", async () => {
+      autoModerationService.reporterWeight.mockResolvedValue(0.5);
+      autoModerationService.hideForReports.mockResolvedValue(true);
+
+      const result = await service.flagContent(
+        "word",
+        wordId,
+        "spam",
+        "reporter"
+      );
+
+      expect(autoModerationService.reporterWeight).toHaveBeenCalledWith(
+        "reporter"
+      );
+      expect(
+        moderationCaseRepository.create.mock.calls[0][0].report
+      ).toMatchObject({ source: "user", weight: 0.5 });
+      expect(autoModerationService.hideForReports).toHaveBeenCalled();
+      expect(result.contentHidden).toBe(true);
+    });
+
+    it("should merge into a case opened concurrently", async () => {
+      moderationCaseRepository.create.mockResolvedValueOnce(null);
+      moderationCaseRepository.findActiveByContent
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(activeCase());
+
+      const result = await service.flagContent("word", wordId, "spam", "other");
+      expect(result.merged).toBe(true);
+    });
+
+    it("should not retry case creation after other database errors", async () => {
+      moderationCaseRepository.create.mockRejectedValueOnce(
+        new Error("connection reset")
+      );
+
+      await expect(
+        service.flagContent("word", wordId, "spam", "other")
+      ).rejects.not.toBeInstanceOf(ConflictException);
+      expect(
+        moderationCaseRepository.findActiveByContent
+      ).toHaveBeenCalledTimes(1);
+      expect(moderationCaseRepository.create).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("case lifecycle", () => {
+    it("should assign a case to a moderator", async () => {
+      await service.assignCase(caseId, "mod", "admin");
+
+      const [id, from, changes, action] =
+        moderationCaseRepository.transition.mock.calls[0];
+      expect([id, from]).toEqual([caseId, ["open"]]);
+      expect(changes).toMatchObject({ status: "assigned", assignedTo: "mod" });
+      expect(action).toMatchObject({
+        action: "assigned",
+        actorId: "admin",
+        fromStatus: "open",
+        toStatus: "assigned",
+      });
+    });
+
+    it("should only assign escalated cases to administrators", async () => {
+      await expect(
+        service.assignCase(caseId, "reporter", "mod")
+      ).rejects.toThrow(BadRequestException);
+
+      moderationCaseRepository.findById.mockResolvedValue(
+        activeCase({ status: "escalated" })
+      );
+      await expect(service.assignCase(caseId, "mod", "mod")).rejects.toThrow(
+        ForbiddenException
+      );
+      await expect(
+        service.assignCase(caseId, "admin", "mod")
+      ).resolves.toMatchObject({ status: "assigned" });
+    });
+
+    it("should escalate with a reason and release the assignee", async () => {
+      await expect(service.escalateCase(caseId, "mod", " ")).rejects.toThrow(
+        BadRequestException
+      );
+
+      await service.escalateCase(caseId, "mod", "Contenu haineux récurrent");
+      const [, , changes, action] =
+        moderationCaseRepository.transition.mock.calls[0];
+      expect(changes).toMatchObject({ status: "escalated", assignedTo: null });
+      expect(action.note).toBe("Contenu haineux récurrent");
+    });
+
+    it("should resolve the case after acting on the content", async () => {
+      const result = await service.handleReport(
+        caseId,
+        "reject",
+        "mod",
+        "Spam"
+      );
+
+      expect(wordRepository.updateStatus).toHaveBeenCalledWith(
+        wordId,
+        "rejected",
+        "mod"
+      );
+      const [, , changes, action] =
+        moderationCaseRepository.transition.mock.calls[0];
+      expect(changes).toMatchObject({
+        status: "resolved",
+        closedBy: "mod",
+        resolution: { action: "reject", outcome: "Word rejected" },
+      });
+      expect(action.toStatus).toBe("resolved");
+      expect(result.actionTaken).toBe("Word rejected");
+    });
+
+    it("should refuse to act on closed or concurrently closed cases", async () => {
+      moderationCaseRepository.transition.mockResolvedValueOnce(null);
+      await expect(service.dismissCase(caseId, "mod")).rejects.toThrow(
+        ConflictException
+      );
+
+      moderationCaseRepository.findById.mockResolvedValue(
+        activeCase({ status: "dismissed" })
+      );
+      await expect(
+        service.handleReport(caseId, "approve", "mod")
+      ).rejects.toThrow(BadRequestException);
+      expect(wordRepository.updateStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  it("should build the queue from the stored cases", async () => {
+    moderationCaseRepository.findQueue.mockResolvedValue({
+      cases: [
+        activeCase({
+          severity: "critical",
+          slaDueAt: new Date(Date.now() - HOUR_MS),
+        }),
+      ],
+      total: 7,
+    });
+
+    const queue = await service.getModerationQueue(10, "high_priority", "mod");
+
+    expect(moderationCaseRepository.findQueue).toHaveBeenCalledWith(
+      { minPriority: 3, assignedTo: "mod" },
+      10
+    );
+    expect(queue.totalInQueue).toBe(7);
+    expect(queue.queue[0]).toMatchObject({
+      id: caseId,
+      priority: "critical",
+      waitTime: 3,
+      slaBreached: true,
+    });
+  });
+
+  it("should list the cases opened by the automatic moderation", async () => {
+    moderationCaseRepository.findQueue.mockResolvedValue({
+      cases: [
+        activeCase({
+          autoFlagged: true,
+          contentHidden: true,
+          autoDecisionId: "d1",
+        }),
+      ],
+      total: 1,
+    });
+
+    const queue = await service.getModerationQueue(10, "auto_flagged");
+
+    expect(moderationCaseRepository.findQueue).toHaveBeenCalledWith(
+      { minPriority: undefined, autoFlagged: true, assignedTo: undefined },
+      10
+    );
+    expect(queue.queue[0]).toMatchObject({
+      autoFlagged: true,
+      contentHidden: true,
+      autoDecisionId: "d1",
+    });
+  });
+
+  it("should compute the statistics from the stored cases", async () => {
+    const stats = (total: number, resolved: number) => ({
+      total,
+      byStatus: { open: total - resolved - 1, escalated: 1, resolved },
+      bySeverity: { medium: total },
+      byReason: [{ reason: "spam", count: total }],
+      averageResolutionHours: 1.5,
+      slaBreached: 0,
+      moderators: [
+        {
+          moderatorId: "mod",
+          actionsCount: resolved,
+          averageResponseHours: 1.5,
+        },
+      ],
+    });
+    moderationCaseRepository.getStats
+      .mockResolvedValueOnce(stats(10, 5))
+      .mockResolvedValueOnce(stats(5, 5));
+
+    const result = await service.getModerationStats("week");
+
+    expect(result.overview).toMatchObject({
+      totalReports: 10,
+      pendingReports: 5,
+      resolvedReports: 5,
+      escalatedReports: 1,
+    });
+    expect(result.reportsByType[1]).toEqual({
+      type: "spam",
+      count: 10,
+      percentage: 100,
+    });
+    expect(result.moderatorActivity[0].username).toBe("mina");
+    expect(result.trends).toMatchObject({
+      reportsGrowth: 100,
+      resolutionRateImprovement: -50,
+    });
+  });
+});
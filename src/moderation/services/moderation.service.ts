@@ -5,6 +5,12 @@
  * avec gestion des rapports, actions en lot, suivi des statistiques
  * et workflow complet de modération pour maintenir la qualité.
  * 
+ * Les signalements sont regroupés en dossiers persistants (un dossier
+ * actif par contenu) suivant le cycle open → assigned → escalated →
+ * resolved/dismissed, avec échéance de traitement et journal d'actions.
+ * Les signalements sont pondérés par la fiabilité passée du signaleur ;
+ * les règles automatiques relèvent de l'AutoModerationService.
+ * 
  * @author Équipe O'Ypunu
  * @version 1.0.0
  * @since 2025-01-01
@@ -14,19 +20,48 @@ import {
   Injectable,
   Inject,
   BadRequestException,
+  ConflictException,
+  ForbiddenException,
   NotFoundException,
 } from "@nestjs/common";
 import { IWordRepository } from "../../repositories/interfaces/word.repository.interface";
 import { IUserRepository } from "../../repositories/interfaces/user.repository.interface";
 import { IPostCommentRepository } from "../../repositories/interfaces/post-comment.repository.interface";
+import { IWordRelationRepository } from "../../repositories/interfaces/word-relation.repository.interface";
+import { ICommunityPostRepository } from "../../repositories/interfaces/community-post.repository.interface";
+import { IMessageRepository } from "../../repositories/interfaces/message.repository.interface";
+import {
+  IModerationCaseRepository,
+  ModerationCaseStats,
+} from "../../repositories/interfaces/moderation-case.repository.interface";
+import {
+  ACTIVE_CASE_STATUSES,
+  CASE_SLA_HOURS,
+  MODERATION_REPORT_REASONS,
+  ModerationCase,
+  ModerationCaseAction,
+  ModerationCaseStatus,
+  ModerationContentType,
+  ModerationReportReason,
+  ModerationSeverity,
+  SEVERITY_PRIORITY,
+} from "../schemas/moderation-case.schema";
+import { UserRole } from "../../users/schemas/user.schema";
+import { AutoModerationService } from "./auto-moderation.service";
 import { DatabaseErrorHandler } from "../../common/errors"
 
+/**
+ * Filtre de statut des listes de signalements
+ * (`pending` regroupe les dossiers open, assigned et escalated)
+ */
+export type ReportStatusFilter = "pending" | ModerationCaseStatus | "all";
+
 export interface ReportedContentOptions {
   page: number;
   limit: number;
-  status: "pending" | "resolved" | "dismissed" | "all";
-  type: "word" | "comment" | "user" | "all";
-  severity?: "low" | "medium" | "high" | "critical";
+  status: ReportStatusFilter;
+  type: ModerationContentType | "all";
+  severity?: ModerationSeverity;
 }
 
 export interface UserContributionsOptions {
@@ -38,24 +73,56 @@ export interface UserContributionsOptions {
 export interface UserReportsOptions {
   page: number;
   limit: number;
-  status: "pending" | "resolved" | "dismissed" | "all";
+  status: ReportStatusFilter;
 }
 
 export interface ModerationReport {
+  /** Identifiant du dossier */
   id: string;
-  contentType: "word" | "comment" | "user";
+  contentType: ModerationContentType;
   contentId: string;
   reason: string;
   description?: string;
   reportedBy: string;
   reportedAt: Date;
-  status: "pending" | "resolved" | "dismissed";
-  severity: "low" | "medium" | "high" | "critical";
+  status: ModerationCaseStatus;
+  severity: ModerationSeverity;
+  /** Nombre de signalements fusionnés dans le dossier */
+  reportCount: number;
+  assignedTo?: string;
+  escalatedAt?: Date;
   moderatorId?: string;
   resolvedAt?: Date;
+  resolution?: ModerationCase["resolution"];
+  slaDueAt: Date;
+  slaBreached: boolean;
+  /** Dossier ouvert par la modération automatique */
+  autoFlagged: boolean;
+  /** Contenu masqué en attendant la revue */
+  contentHidden: boolean;
+  /** Décision automatique annulable depuis la file */
+  autoDecisionId?: string;
   content: any;
 }
 
+/**
+ * Dossier complet avec signalements et journal des actions
+ */
+export interface ModerationCaseDetails extends ModerationReport {
+  reports: Array<{
+    /** Vide pour un signalement automatique */
+    reportedBy: string;
+    source?: string;
+    weight?: number;
+    reason: string;
+    description?: string;
+    category?: string;
+    severity: ModerationSeverity;
+    reportedAt: Date;
+  }>;
+  actions: ModerationCaseAction[];
+}
+
 export interface BulkModerationResult {
   success: boolean;
   processed: number;
@@ -76,6 +143,14 @@ export interface ModerationQueue {
     reason: string;
     waitTime: number;
     content: any;
+    status?: ModerationCaseStatus;
+    reportCount?: number;
+    assignedTo?: string;
+    slaDueAt?: Date;
+    slaBreached?: boolean;
+    autoFlagged?: boolean;
+    contentHidden?: boolean;
+    autoDecisionId?: string;
   }>;
   totalInQueue: number;
   averageWaitTime: number;
@@ -86,6 +161,9 @@ export interface ModerationStats {
     totalReports: number;
     pendingReports: number;
     resolvedReports: number;
+    dismissedReports: number;
+    escalatedReports: number;
+    slaBreached: number;
     averageResolutionTime: number;
   };
   reportsByType: Array<{
@@ -106,16 +184,25 @@ export interface ModerationStats {
   };
 }
 
+/** Rôles autorisés à traiter un dossier */
+const MODERATOR_ROLES = [UserRole.ADMIN, UserRole.SUPERADMIN, "moderator"];
+
+const HOUR_MS = 60 * 60 * 1000;
+
 @Injectable()
 export class ModerationService {
-  // Simuler une base de données de signalements en mémoire pour cette démo
-  private reports: Map<string, ModerationReport> = new Map();
-  private reportCounter = 1;
-
   constructor(
     @Inject("IWordRepository") private wordRepository: IWordRepository,
     @Inject("IUserRepository") private userRepository: IUserRepository,
-    @Inject("IPostCommentRepository") private commentRepository: IPostCommentRepository
+    @Inject("IPostCommentRepository") private commentRepository: IPostCommentRepository,
+    @Inject("IWordRelationRepository")
+    private wordRelationRepository: IWordRelationRepository,
+    @Inject("IModerationCaseRepository")
+    private moderationCaseRepository: IModerationCaseRepository,
+    @Inject("ICommunityPostRepository")
+    private postRepository: ICommunityPostRepository,
+    @Inject("IMessageRepository") private messageRepository: IMessageRepository,
+    private autoModerationService: AutoModerationService
   ) {}
 
   async getReportedContent(options: ReportedContentOptions): Promise<{
@@ -127,66 +214,24 @@ export class ModerationService {
   }> {
     return DatabaseErrorHandler.handleFindOperation(
       async () => {
-        // Filtrer les rapports selon les critères
-        let filteredReports = Array.from(this.reports.values());
-
-        if (options.status !== "all") {
-          filteredReports = filteredReports.filter(
-            (report) => report.status === options.status
-          );
-        }
-
-        if (options.type !== "all") {
-          filteredReports = filteredReports.filter(
-            (report) => report.contentType === options.type
-          );
-        }
-
-        if (options.severity) {
-          filteredReports = filteredReports.filter(
-            (report) => report.severity === options.severity
-          );
-        }
-
-        // Pagination
-        const total = filteredReports.length;
-        const startIndex = (options.page - 1) * options.limit;
-        const paginatedReports = filteredReports.slice(
-          startIndex,
-          startIndex + options.limit
+        const { cases, total } = await this.moderationCaseRepository.findMany(
+          {
+            statuses: this.statusesFor(options.status),
+            contentType: options.type !== "all" ? options.type : undefined,
+            severity: options.severity,
+          },
+          { page: options.page, limit: options.limit }
         );
 
         // Enrichir avec le contenu réel
         const enrichedReports = await Promise.all(
-          paginatedReports.map(async (report) => {
-            let content = {};
-            try {
-              switch (report.contentType) {
-                case "word":
-                  content = await this.wordRepository.findById(
-                    report.contentId
-                  );
-                  break;
-                case "user":
-                  content = await this.userRepository.findById(
-                    report.contentId
-                  );
-                  break;
-                case "comment":
-                  content = await this.commentRepository.findById(
-                    report.contentId
-                  );
-                  break;
-              }
-            } catch (error) {
-              content = { error: "Content not found" };
-            }
-
-            return {
-              ...report,
-              content,
-            };
-          })
+          cases.map(async (moderationCase) => ({
+            ...this.toReport(moderationCase),
+            content: await this.loadContent(
+              moderationCase.contentType,
+              moderationCase.contentId
+            ),
+          }))
         );
 
         return {
@@ -203,19 +248,20 @@ export class ModerationService {
   }
 
   async flagContent(
-    contentType: "word" | "comment" | "user",
+    contentType: ModerationContentType,
     contentId: string,
-    reason:
-      | "inappropriate"
-      | "spam"
-      | "incorrect"
-      | "offensive"
-      | "copyright"
-      | "other",
+    reason: ModerationReportReason,
     reportedBy: string,
     description?: string,
     category?: string
-  ): Promise<{ success: boolean; reportId: string; message: string }> {
+  ): Promise<{
+    success: boolean;
+    reportId: string;
+    merged: boolean;
+    reportCount: number;
+    contentHidden: boolean;
+    message: string;
+  }> {
     return DatabaseErrorHandler.handleCreateOperation(
       async () => {
         // Vérifier que le contenu existe
@@ -232,6 +278,13 @@ export class ModerationService {
               contentExists =
                 !!(await this.commentRepository.findById(contentId));
               break;
+            case "post":
+              contentExists = !!(await this.postRepository.findById(contentId));
+              break;
+            case "message":
+              contentExists =
+                !!(await this.messageRepository.findById(contentId));
+              break;
           }
         } catch (error) {
           throw new NotFoundException(`${contentType} not found`);
@@ -241,47 +294,94 @@ export class ModerationService {
           throw new NotFoundException(`${contentType} not found`);
         }
 
-        // Vérifier si l'utilisateur n'a pas déjà signalé ce contenu
-        const existingReport = Array.from(this.reports.values()).find(
-          (report) =>
-            report.contentType === contentType &&
-            report.contentId === contentId &&
-            report.reportedBy === reportedBy &&
-            report.status === "pending"
-        );
-
-        if (existingReport) {
-          throw new BadRequestException(
-            "You have already reported this content"
-          );
-        }
-
         // Déterminer la gravité automatiquement
         const severity = this.calculateSeverity(reason, description);
-
-        // Créer le signalement
-        const reportId = `report_${this.reportCounter++}`;
-        const report: ModerationReport = {
-          id: reportId,
-          contentType,
-          contentId,
+        const report = {
+          reportedBy,
+          source: "user",
+          // Poids selon la fiabilité des signalements passés de l'utilisateur
+          weight: await this.autoModerationService.reporterWeight(reportedBy),
           reason,
           description,
-          reportedBy,
-          reportedAt: new Date(),
-          status: "pending",
+          category,
           severity,
-          content: {},
+          reportedAt: new Date(),
         };
 
-        this.reports.set(reportId, report);
+        // Fusionner dans le dossier actif du contenu ou en ouvrir un
+        let moderationCase: ModerationCase | null = null;
+        let merged = false;
+        let escalated = false;
+        for (let attempt = 0; attempt < 2 && !moderationCase; attempt++) {
+          const existing = await this.moderationCaseRepository.findActiveByContent(
+            contentType,
+            contentId
+          );
+
+          if (existing) {
+            if (
+              existing.reports.some(
+                (previous) => String(previous.reportedBy) === reportedBy
+              )
+            ) {
+              throw new BadRequestException(
+                "You have already reported this content"
+              );
+            }
+            escalated = SEVERITY_PRIORITY[severity] > existing.priority;
+            moderationCase = await this.moderationCaseRepository.addReport(
+              String((existing as any)._id),
+              report,
+              escalated
+                ? {
+                    severity,
+                    slaDueAt: new Date(
+                      Math.min(
+                        new Date(existing.slaDueAt).getTime(),
+                        this.slaDueAt(severity, report.reportedAt).getTime()
+                      )
+                    ),
+                  }
+                : undefined
+            );
+            merged = !!moderationCase;
+            continue;
+          }
+
+          // null si un dossier a été ouvert en parallèle : nouvelle
+          // tentative de fusion
+          moderationCase = await this.moderationCaseRepository.create({
+            contentType,
+            contentId,
+            severity,
+            slaDueAt: this.slaDueAt(severity, report.reportedAt),
+            report,
+          });
+        }
+
+        if (!moderationCase) {
+          throw new ConflictException(
+            "The report could not be recorded, please try again"
+          );
+        }
+
+        const reportId = String((moderationCase as any)._id);
+
+        // Masquer le contenu si le poids des signalements atteint le seuil
+        const hidden =
+          await this.autoModerationService.hideForReports(moderationCase);
 
         // Envoyer une notification aux modérateurs selon la gravité
-        await this.notifyModerators(reportId, severity, contentType, reason);
+        if (!merged || escalated) {
+          await this.notifyModerators(reportId, severity, contentType, reason);
+        }
 
         return {
           success: true,
           reportId,
+          merged,
+          reportCount: moderationCase.reportCount,
+          contentHidden: moderationCase.contentHidden || hidden,
           message:
             "Content reported successfully. Our moderation team will review it shortly.",
         };
@@ -476,14 +576,23 @@ export class ModerationService {
   }> {
     return DatabaseErrorHandler.handleUpdateOperation(
       async () => {
-        const report = this.reports.get(reportId);
-        if (!report) {
-          throw new NotFoundException("Report not found");
-        }
+        const report = await this.findActiveCase(reportId);
 
         // Effectuer l'action sur le contenu signalé
         let actionTaken = "";
         try {
+          // Un contenu approuvé masqué automatiquement est rétabli
+          if (
+            action === "approve" &&
+            (await this.autoModerationService.restoreCaseContent(
+              report,
+              moderatorId,
+              reason
+            ))
+          ) {
+            actionTaken = "Content restored";
+          }
+
           switch (report.contentType) {
             case "word":
               switch (action) {
@@ -505,6 +614,9 @@ export class ModerationService {
                   break;
                 case "delete":
                   await this.wordRepository.delete(report.contentId);
+                  await this.wordRelationRepository.deleteByWordIds([
+                    report.contentId,
+                  ]);
                   actionTaken = "Word deleted";
                   break;
                 case "edit":
@@ -531,23 +643,42 @@ export class ModerationService {
               }
               break;
           }
-
-          // Marquer le signalement comme résolu
-          report.status = "resolved";
-          report.moderatorId = moderatorId;
-          report.resolvedAt = new Date();
-          this.reports.set(reportId, report);
-
-          return {
-            success: true,
-            report,
-            actionTaken,
-          };
         } catch (error) {
           throw new BadRequestException(
             `Failed to handle report: ${error instanceof Error ? error.message : "Unknown error"}`
           );
         }
+
+        // Clore le dossier
+        const resolved = await this.moderationCaseRepository.transition(
+          reportId,
+          ACTIVE_CASE_STATUSES,
+          {
+            status: "resolved",
+            closedBy: moderatorId,
+            closedAt: new Date(),
+            resolution: { action, outcome: actionTaken, reason, notes },
+          },
+          {
+            action: "resolved",
+            actorId: moderatorId,
+            fromStatus: report.status,
+            toStatus: "resolved",
+            note: reason,
+            metadata: { contentAction: action, outcome: actionTaken },
+          }
+        );
+        if (!resolved) {
+          throw new ConflictException(
+            "This case was closed by another moderator in the meantime"
+          );
+        }
+
+        return {
+          success: true,
+          report: this.toReport(resolved),
+          actionTaken,
+        };
       },
       "Moderation",
       reportId,
@@ -555,268 +686,319 @@ export class ModerationService {
     );
   }
 
-  async getModerationQueue(
-    limit: number,
-    type: "high_priority" | "reported" | "auto_flagged" | "pending_review"
-  ): Promise<ModerationQueue> {
-    return DatabaseErrorHandler.handleFindOperation(
+  /**
+   * Attribuer un dossier à un modérateur (lui-même par défaut)
+   *
+   * Un dossier escaladé ne peut être attribué qu'à un administrateur.
+   */
+  async assignCase(
+    caseId: string,
+    assigneeId: string,
+    actorId: string
+  ): Promise<ModerationReport> {
+    return DatabaseErrorHandler.handleUpdateOperation(
       async () => {
-        let queueItems: any[] = [];
-
-        switch (type) {
-          case "high_priority":
-            // Signalements critiques et élevés
-            queueItems = Array.from(this.reports.values())
-              .filter(
-                (report) =>
-                  report.status === "pending" &&
-                  (report.severity === "high" || report.severity === "critical")
-              )
-              .slice(0, limit);
-            break;
-          case "reported":
-            // Tous les signalements en attente
-            queueItems = Array.from(this.reports.values())
-              .filter((report) => report.status === "pending")
-              .slice(0, limit);
-            break;
-          case "pending_review":
-            // Mots en attente d'approbation
-            const pendingWords = await this.wordRepository.findAll({
-              page: 1,
-              limit,
-              status: "pending",
-            });
-            queueItems = pendingWords.words;
-            break;
-        }
+        const moderationCase = await this.findActiveCase(caseId);
 
-        const queue = queueItems.map((item) => ({
-          id: item.id || item._id,
-          type: item.contentType || "word",
-          contentId: item.contentId || item._id,
-          priority: item.severity || "medium",
-          reason: item.reason || "Pending review",
-          waitTime: item.reportedAt
-            ? Math.floor(
-                (Date.now() - item.reportedAt.getTime()) / (1000 * 60 * 60)
-              )
-            : 0,
-          content: item.content || item,
-        }));
-
-        const totalInQueue = Array.from(this.reports.values()).filter(
-          (r) => r.status === "pending"
-        ).length;
-        const averageWaitTime =
-          queue.length > 0
-            ? queue.reduce((sum, item) => sum + item.waitTime, 0) / queue.length
-            : 0;
+        const assignee = await this.userRepository.findById(assigneeId);
+        if (!assignee) {
+          throw new NotFoundException("Moderator not found");
+        }
+        if (!MODERATOR_ROLES.includes(assignee.role)) {
+          throw new BadRequestException(
+            "Cases can only be assigned to moderators or administrators"
+          );
+        }
+        if (
+          moderationCase.status === "escalated" &&
+          assignee.role !== UserRole.ADMIN &&
+          assignee.role !== UserRole.SUPERADMIN
+        ) {
+          throw new ForbiddenException(
+            "An escalated case can only be assigned to an administrator"
+          );
+        }
 
-        return {
-          queue,
-          totalInQueue,
-          averageWaitTime: Math.round(averageWaitTime * 100) / 100,
-        };
+        const updated = await this.moderationCaseRepository.transition(
+          caseId,
+          [moderationCase.status],
+          { status: "assigned", assignedTo: assigneeId, assignedAt: new Date() },
+          {
+            action: "assigned",
+            actorId,
+            fromStatus: moderationCase.status,
+            toStatus: "assigned",
+            metadata: { assignedTo: assigneeId },
+          }
+        );
+        if (!updated) {
+          throw new ConflictException(
+            "This case was updated by another moderator in the meantime"
+          );
+        }
+        return this.toReport(updated);
       },
       "Moderation",
-      "queue"
+      caseId,
+      actorId
     );
   }
 
-  async getModerationStats(
-    timeframe: "day" | "week" | "month" | "quarter"
-  ): Promise<ModerationStats> {
-    return DatabaseErrorHandler.handleAggregationOperation(
+  /**
+   * Transmettre un dossier aux administrateurs
+   */
+  async escalateCase(
+    caseId: string,
+    actorId: string,
+    reason: string
+  ): Promise<ModerationReport> {
+    return DatabaseErrorHandler.handleUpdateOperation(
       async () => {
-        const now = new Date();
-        let startDate: Date;
-
-        switch (timeframe) {
-          case "day":
-            startDate = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-            break;
-          case "week":
-            startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-            break;
-          case "month":
-            startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-            break;
-          case "quarter":
-            startDate = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
-            break;
+        if (!reason?.trim()) {
+          throw new BadRequestException("An escalation reason is required");
+        }
+        const moderationCase = await this.findActiveCase(caseId);
+        if (moderationCase.status === "escalated") {
+          throw new BadRequestException("This case is already escalated");
         }
 
-        const reports = Array.from(this.reports.values()).filter(
-          (report) => report.reportedAt >= startDate
+        const updated = await this.moderationCaseRepository.transition(
+          caseId,
+          [moderationCase.status],
+          { status: "escalated", escalatedAt: new Date(), assignedTo: null },
+          {
+            action: "escalated",
+            actorId,
+            fromStatus: moderationCase.status,
+            toStatus: "escalated",
+            note: reason,
+          }
         );
+        if (!updated) {
+          throw new ConflictException(
+            "This case was updated by another moderator in the meantime"
+          );
+        }
 
-        const totalReports = reports.length;
-        const pendingReports = reports.filter(
-          (r) => r.status === "pending"
-        ).length;
-        const resolvedReports = reports.filter(
-          (r) => r.status === "resolved"
-        ).length;
-
-        // Calculer le temps moyen de résolution
-        const resolvedWithTime = reports.filter(
-          (r) => r.status === "resolved" && r.resolvedAt
+        await this.notifyModerators(
+          caseId,
+          "critical",
+          updated.contentType,
+          updated.reason
         );
-        const averageResolutionTime =
-          resolvedWithTime.length > 0
-            ? resolvedWithTime.reduce(
-                (sum, report) =>
-                  sum +
-                  (report.resolvedAt!.getTime() - report.reportedAt.getTime()),
-                0
-              ) /
-              (resolvedWithTime.length * 1000 * 60 * 60)
-            : 0; // en heures
-
-        // Statistiques par type
-        const reportsByType = [
-          "inappropriate",
-          "spam",
-          "incorrect",
-          "offensive",
-          "copyright",
-          "other",
-        ].map((type) => {
-          const count = reports.filter((r) => r.reason === type).length;
-          return {
-            type,
-            count,
-            percentage:
-              totalReports > 0
-                ? Math.round((count / totalReports) * 100 * 100) / 100
-                : 0,
-          };
-        });
+        return this.toReport(updated);
+      },
+      "Moderation",
+      caseId,
+      actorId
+    );
+  }
+
+  /**
+   * Classer un dossier sans suite (signalements non fondés)
+   */
+  async dismissCase(
+    caseId: string,
+    actorId: string,
+    reason?: string
+  ): Promise<ModerationReport> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        const moderationCase = await this.findActiveCase(caseId);
+
+        const updated = await this.moderationCaseRepository.transition(
+          caseId,
+          ACTIVE_CASE_STATUSES,
+          {
+            status: "dismissed",
+            closedBy: actorId,
+            closedAt: new Date(),
+            resolution: { action: "dismiss", reason },
+          },
+          {
+            action: "dismissed",
+            actorId,
+            fromStatus: moderationCase.status,
+            toStatus: "dismissed",
+            note: reason,
+          }
+        );
+        if (!updated) {
+          throw new ConflictException(
+            "This case was closed by another moderator in the meantime"
+          );
+        }
+        return this.toReport(updated);
+      },
+      "Moderation",
+      caseId,
+      actorId
+    );
+  }
 
-        // Calculer les statistiques d'activité des modérateurs
-        const moderatorActivity = await this.calculateModeratorActivity(
-          reports,
-          startDate
+  /**
+   * Dossier complet : signalements, journal des actions et contenu
+   */
+  async getCase(caseId: string): Promise<ModerationCaseDetails> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        const moderationCase = await this.moderationCaseRepository.findById(
+          caseId
         );
+        if (!moderationCase) {
+          throw new NotFoundException("Report not found");
+        }
 
         return {
-          overview: {
-            totalReports,
-            pendingReports,
-            resolvedReports,
-            averageResolutionTime:
-              Math.round(averageResolutionTime * 100) / 100,
-          },
-          reportsByType,
-          moderatorActivity,
-          trends: await this.calculateTrends(
-            timeframe,
-            reports,
-            resolvedReports,
-            totalReports
+          ...this.toReport(moderationCase),
+          content: await this.loadContent(
+            moderationCase.contentType,
+            moderationCase.contentId
           ),
+          reports: moderationCase.reports.map((report) => ({
+            ...report,
+            reportedBy: report.reportedBy ? String(report.reportedBy) : "",
+          })),
+          actions: moderationCase.actions,
         };
       },
       "Moderation",
-      "stats"
+      caseId
     );
   }
 
-  async configureAutoModeration(
-    config: any,
-    adminId: string
-  ): Promise<{ success: boolean; message: string }> {
-    return DatabaseErrorHandler.handleUpdateOperation(
+  async getModerationQueue(
+    limit: number,
+    type: "high_priority" | "reported" | "auto_flagged" | "pending_review",
+    assignedTo?: string
+  ): Promise<ModerationQueue> {
+    return DatabaseErrorHandler.handleFindOperation(
       async () => {
-        // Valider la configuration
-        const validatedConfig = await this.validateModerationConfig(config);
-
-        // Sauvegarder la configuration
-        const configEntry = {
-          config: validatedConfig,
-          updatedBy: adminId,
-          updatedAt: new Date(),
-          version: this.generateConfigVersion(),
-          isActive: true,
-        };
-
-        console.log("📋 Auto-moderation config updated:", {
-          adminId,
-          version: configEntry.version,
-          rules: Object.keys(validatedConfig),
-        });
+        if (type === "pending_review") {
+          // Mots en attente d'approbation
+          const pendingWords = await this.wordRepository.findAll({
+            page: 1,
+            limit,
+            status: "pending",
+          });
+          const queue = pendingWords.words.map((word: any) => ({
+            id: word._id,
+            type: "word",
+            contentId: word._id,
+            priority: "medium" as const,
+            reason: "Pending review",
+            waitTime: this.hoursSince(word.createdAt),
+            content: word,
+          }));
+          return {
+            queue,
+            totalInQueue: pendingWords.total,
+            averageWaitTime: this.averageWaitTime(queue),
+          };
+        }
 
-        // Log de l'action administrative
-        await this.logModerationAction(
-          "update_auto_moderation_config",
-          "system",
-          "auto-moderation",
-          adminId,
-          "Configuration updated",
+        // Dossiers actifs, les plus graves et les plus urgents d'abord
+        const { cases, total } = await this.moderationCaseRepository.findQueue(
           {
-            configVersion: configEntry.version,
-            rulesCount: Object.keys(validatedConfig).length,
-          }
+            minPriority:
+              type === "high_priority" ? SEVERITY_PRIORITY.high : undefined,
+            autoFlagged: type === "auto_flagged" ? true : undefined,
+            assignedTo,
+          },
+          limit
         );
 
-        // TODO: Sauvegarder dans une vraie base de données de configuration
-        // await this.moderationConfigRepository.create(configEntry);
+        const queue = await Promise.all(
+          cases.map(async (moderationCase) => {
+            const report = this.toReport(moderationCase);
+            return {
+              id: report.id,
+              type: report.contentType,
+              contentId: report.contentId,
+              priority: report.severity,
+              reason: report.reason,
+              waitTime: this.hoursSince(moderationCase.createdAt),
+              content: await this.loadContent(
+                report.contentType,
+                report.contentId
+              ),
+              status: report.status,
+              reportCount: report.reportCount,
+              assignedTo: report.assignedTo,
+              slaDueAt: report.slaDueAt,
+              slaBreached: report.slaBreached,
+              autoFlagged: report.autoFlagged,
+              contentHidden: report.contentHidden,
+              autoDecisionId: report.autoDecisionId,
+            };
+          })
+        );
 
         return {
-          success: true,
-          message: `Auto-moderation configuration updated successfully (version ${configEntry.version})`,
+          queue,
+          totalInQueue: total,
+          averageWaitTime: this.averageWaitTime(queue),
         };
       },
       "Moderation",
-      "config",
-      adminId
+      "queue"
     );
   }
 
-  private async validateModerationConfig(config: any): Promise<any> {
-    // Règles de validation de base
-    const defaultConfig = {
-      autoApprove: {
-        enabled: false,
-        thresholds: {
-          minWords: 2,
-          maxWords: 100,
-          qualityScore: 80,
-        },
-      },
-      autoReject: {
-        enabled: true,
-        rules: {
-          spam: true,
-          offensive: true,
-          duplicate: true,
-        },
-      },
-      flagging: {
-        autoFlag: true,
-        thresholds: {
-          reportCount: 3,
-          severityEscalation: "medium",
-        },
-      },
-      notifications: {
-        urgentAlerts: true,
-        dailyDigest: true,
-        slackIntegration: false,
-      },
-    };
+  async getModerationStats(
+    timeframe: "day" | "week" | "month" | "quarter"
+  ): Promise<ModerationStats> {
+    return DatabaseErrorHandler.handleAggregationOperation(
+      async () => {
+        const periodMs = this.timeframeDays(timeframe) * 24 * HOUR_MS;
+        const now = Date.now();
+        const startDate = new Date(now - periodMs);
+
+        const [current, previous] = await Promise.all([
+          this.moderationCaseRepository.getStats(startDate),
+          this.moderationCaseRepository.getStats(
+            new Date(now - 2 * periodMs),
+            startDate
+          ),
+        ]);
 
-    // Fusionner avec la configuration par défaut
-    return { ...defaultConfig, ...config };
-  }
+        const totalReports = current.total;
+        const count = (status: ModerationCaseStatus) =>
+          current.byStatus[status] || 0;
+
+        // Statistiques par motif
+        const reportsByType = MODERATION_REPORT_REASONS.map((type) => {
+          const reasonCount =
+            current.byReason.find((row) => row.reason === type)?.count || 0;
+          return {
+            type,
+            count: reasonCount,
+            percentage: this.percentage(reasonCount, totalReports),
+          };
+        });
 
-  private generateConfigVersion(): string {
-    const timestamp = new Date()
-      .toISOString()
-      .slice(0, 19)
-      .replace(/[-:]/g, "");
-    return `v${timestamp}`;
+        return {
+          overview: {
+            totalReports,
+            pendingReports: ACTIVE_CASE_STATUSES.reduce(
+              (sum, status) => sum + count(status),
+              0
+            ),
+            resolvedReports: count("resolved"),
+            dismissedReports: count("dismissed"),
+            escalatedReports: count("escalated"),
+            slaBreached: current.slaBreached,
+            averageResolutionTime:
+              Math.round(current.averageResolutionHours * 100) / 100,
+          },
+          reportsByType,
+          moderatorActivity: await this.describeModeratorActivity(current),
+          trends: this.calculateTrends(current, previous),
+        };
+      },
+      "Moderation",
+      "stats"
+    );
   }
 
   async getUserReports(
@@ -830,25 +1012,18 @@ export class ModerationService {
   }> {
     return DatabaseErrorHandler.handleFindOperation(
       async () => {
-        let userReports = Array.from(this.reports.values()).filter(
-          (report) => report.reportedBy === userId
-        );
-
-        if (options.status !== "all") {
-          userReports = userReports.filter(
-            (report) => report.status === options.status
-          );
-        }
-
-        const total = userReports.length;
-        const startIndex = (options.page - 1) * options.limit;
-        const paginatedReports = userReports.slice(
-          startIndex,
-          startIndex + options.limit
+        const { cases, total } = await this.moderationCaseRepository.findMany(
+          {
+            reportedBy: userId,
+            statuses: this.statusesFor(options.status),
+          },
+          { page: options.page, limit: options.limit }
         );
 
         return {
-          reports: paginatedReports,
+          reports: cases.map((moderationCase) =>
+            this.toReport(moderationCase, userId)
+          ),
           total,
           page: options.page,
           limit: options.limit,
@@ -977,234 +1152,220 @@ export class ModerationService {
     );
   }
 
-  private async calculateModeratorActivity(
-    reports: ModerationReport[],
-    startDate: Date
-  ): Promise<
-    Array<{
-      moderatorId: string;
-      username: string;
-      actionsCount: number;
-      averageResponseTime: number;
-    }>
-  > {
-    return DatabaseErrorHandler.handleAggregationOperation(
-      async () => {
-        // Grouper par modérateur
-        const moderatorStats = new Map<
-          string,
-          {
-            actionsCount: number;
-            totalResponseTime: number;
-            username: string;
-          }
-        >();
+  // ========== MÉTHODES DES DOSSIERS ==========
 
-        const resolvedReports = reports.filter(
-          (r) => r.status === "resolved" && r.moderatorId
-        );
-
-        for (const report of resolvedReports) {
-          if (!report.moderatorId || !report.resolvedAt) continue;
+  private async findActiveCase(caseId: string): Promise<ModerationCase> {
+    const moderationCase = await this.moderationCaseRepository.findById(caseId);
+    if (!moderationCase) {
+      throw new NotFoundException("Report not found");
+    }
+    if (!ACTIVE_CASE_STATUSES.includes(moderationCase.status)) {
+      throw new BadRequestException(
+        `This case is already ${moderationCase.status}`
+      );
+    }
+    return moderationCase;
+  }
 
-          const responseTime =
-            (report.resolvedAt.getTime() - report.reportedAt.getTime()) /
-            (1000 * 60 * 60); // en heures
+  private async loadContent(
+    contentType: ModerationContentType,
+    contentId: string
+  ): Promise<any> {
+    try {
+      switch (contentType) {
+        case "word":
+          return await this.wordRepository.findById(contentId);
+        case "user":
+          return await this.userRepository.findById(contentId);
+        case "comment":
+          return await this.commentRepository.findById(contentId);
+        case "post":
+          return await this.postRepository.findById(contentId);
+        case "message":
+          return await this.messageRepository.findById(contentId);
+      }
+    } catch (error) {
+      return { error: "Content not found" };
+    }
+  }
 
-          if (!moderatorStats.has(report.moderatorId)) {
-            // Récupérer le nom d'utilisateur du modérateur
-            let username = "Unknown";
-            try {
-              const moderator = await this.userRepository.findById(
-                report.moderatorId
-              );
-              username = moderator?.username || "Unknown";
-            } catch (error) {
-              console.warn(`Could not fetch moderator ${report.moderatorId}`);
-            }
+  /**
+   * Vue « signalement » d'un dossier ; pour un signaleur, le motif et la
+   * description sont ceux de son propre signalement
+   */
+  private toReport(
+    moderationCase: ModerationCase,
+    viewerId?: string
+  ): ModerationReport {
+    const reports = moderationCase.reports || [];
+    const report =
+      (viewerId &&
+        reports.find((entry) => String(entry.reportedBy) === viewerId)) ||
+      reports[0];
+    const closedAt = moderationCase.closedAt
+      ? new Date(moderationCase.closedAt)
+      : undefined;
+    const slaDueAt = new Date(moderationCase.slaDueAt);
+
+    return {
+      id: String((moderationCase as any)._id),
+      contentType: moderationCase.contentType,
+      contentId: moderationCase.contentId,
+      reason: report?.reason || moderationCase.reason,
+      description: report?.description,
+      reportedBy: report?.reportedBy ? String(report.reportedBy) : "",
+      reportedAt: report?.reportedAt || moderationCase.createdAt,
+      status: moderationCase.status,
+      severity: moderationCase.severity,
+      reportCount: moderationCase.reportCount,
+      assignedTo: moderationCase.assignedTo
+        ? String(moderationCase.assignedTo)
+        : undefined,
+      escalatedAt: moderationCase.escalatedAt,
+      moderatorId: moderationCase.closedBy
+        ? String(moderationCase.closedBy)
+        : undefined,
+      resolvedAt: closedAt,
+      resolution: moderationCase.resolution,
+      slaDueAt,
+      slaBreached: (closedAt?.getTime() ?? Date.now()) > slaDueAt.getTime(),
+      autoFlagged: !!moderationCase.autoFlagged,
+      contentHidden: !!moderationCase.contentHidden,
+      autoDecisionId: moderationCase.autoDecisionId,
+      content: {},
+    };
+  }
 
-            moderatorStats.set(report.moderatorId, {
-              actionsCount: 0,
-              totalResponseTime: 0,
-              username,
-            });
-          }
+  private statusesFor(
+    status: ReportStatusFilter
+  ): ModerationCaseStatus[] | undefined {
+    if (status === "all") {
+      return undefined;
+    }
+    return status === "pending" ? ACTIVE_CASE_STATUSES : [status];
+  }
 
-          const stats = moderatorStats.get(report.moderatorId)!;
-          stats.actionsCount++;
-          stats.totalResponseTime += responseTime;
-        }
+  /** Échéance de traitement d'un dossier ouvert à `from` */
+  private slaDueAt(severity: ModerationSeverity, from: Date): Date {
+    return new Date(from.getTime() + CASE_SLA_HOURS[severity] * HOUR_MS);
+  }
 
-        // Convertir en tableau avec moyennes
-        return Array.from(moderatorStats.entries())
-          .map(([moderatorId, stats]) => ({
-            moderatorId,
-            username: stats.username,
-            actionsCount: stats.actionsCount,
-            averageResponseTime:
-              stats.actionsCount > 0
-                ? Math.round(
-                    (stats.totalResponseTime / stats.actionsCount) * 100
-                  ) / 100
-                : 0,
-          }))
-          .sort((a, b) => b.actionsCount - a.actionsCount);
-      },
-      "Moderation",
-      "moderator-activity"
-    );
+  private hoursSince(date?: Date): number {
+    return date
+      ? Math.floor((Date.now() - new Date(date).getTime()) / HOUR_MS)
+      : 0;
   }
 
-  private async calculateTrends(
-    timeframe: "day" | "week" | "month" | "quarter",
-    currentReports: ModerationReport[],
-    currentResolved: number,
-    currentTotal: number
-  ): Promise<{
-    reportsGrowth: number;
-    resolutionRateImprovement: number;
-    qualityScore: number;
-  }> {
-    return DatabaseErrorHandler.handleAggregationOperation(
-      async () => {
-        // Calculer la période précédente pour comparaison
-        const now = new Date();
-        let previousStartDate: Date;
-        let periodDays: number;
-
-        switch (timeframe) {
-          case "day":
-            previousStartDate = new Date(
-              now.getTime() - 2 * 24 * 60 * 60 * 1000
-            );
-            periodDays = 1;
-            break;
-          case "week":
-            previousStartDate = new Date(
-              now.getTime() - 2 * 7 * 24 * 60 * 60 * 1000
-            );
-            periodDays = 7;
-            break;
-          case "month":
-            previousStartDate = new Date(
-              now.getTime() - 2 * 30 * 24 * 60 * 60 * 1000
-            );
-            periodDays = 30;
-            break;
-          case "quarter":
-            previousStartDate = new Date(
-              now.getTime() - 2 * 90 * 24 * 60 * 60 * 1000
-            );
-            periodDays = 90;
-            break;
-        }
+  private averageWaitTime(queue: Array<{ waitTime: number }>): number {
+    const averageWaitTime =
+      queue.length > 0
+        ? queue.reduce((sum, item) => sum + item.waitTime, 0) / queue.length
+        : 0;
+    return Math.round(averageWaitTime * 100) / 100;
+  }
 
-        const previousEndDate = new Date(
-          now.getTime() - periodDays * 24 * 60 * 60 * 1000
-        );
+  private timeframeDays(timeframe: "day" | "week" | "month" | "quarter"): number {
+    switch (timeframe) {
+      case "day":
+        return 1;
+      case "week":
+        return 7;
+      case "month":
+        return 30;
+      case "quarter":
+        return 90;
+    }
+  }
 
-        // Récupérer les rapports de la période précédente
-        const previousReports = Array.from(this.reports.values()).filter(
-          (report) =>
-            report.reportedAt >= previousStartDate &&
-            report.reportedAt <= previousEndDate
-        );
+  private percentage(count: number, total: number): number {
+    return total > 0 ? Math.round((count / total) * 100 * 100) / 100 : 0;
+  }
 
-        const previousTotal = previousReports.length;
-        const previousResolved = previousReports.filter(
-          (r) => r.status === "resolved"
-        ).length;
-
-        // Calculer la croissance des signalements
-        const reportsGrowth =
-          previousTotal > 0
-            ? Math.round(
-                ((currentTotal - previousTotal) / previousTotal) * 100 * 100
-              ) / 100
-            : currentTotal > 0
-              ? 100
-              : 0;
-
-        // Calculer l'amélioration du taux de résolution
-        const currentResolutionRate =
-          currentTotal > 0 ? (currentResolved / currentTotal) * 100 : 0;
-        const previousResolutionRate =
-          previousTotal > 0 ? (previousResolved / previousTotal) * 100 : 0;
-        const resolutionRateImprovement =
-          Math.round((currentResolutionRate - previousResolutionRate) * 100) /
-          100;
-
-        // Calculer le score de qualité basé sur plusieurs métriques
-        const avgResolutionTime =
-          this.calculateAverageResolutionTime(currentReports);
-        const severityDistribution =
-          this.calculateSeverityDistribution(currentReports);
-
-        // Score de qualité composite (0-100)
-        let qualityScore = 85; // Score de base
-
-        // Ajustements basés sur les métriques
-        if (avgResolutionTime < 2)
-          qualityScore += 10; // Résolution rapide
-        else if (avgResolutionTime > 24) qualityScore -= 15; // Résolution lente
-
-        if (severityDistribution.critical < 5) qualityScore += 5; // Peu de problèmes critiques
-        if (currentResolutionRate > 90)
-          qualityScore += 5; // Bon taux de résolution
-        else if (currentResolutionRate < 70) qualityScore -= 10; // Mauvais taux
-
-        qualityScore = Math.max(0, Math.min(100, qualityScore)); // Limiter entre 0-100
+  private async describeModeratorActivity(
+    stats: ModerationCaseStats
+  ): Promise<ModerationStats["moderatorActivity"]> {
+    return Promise.all(
+      stats.moderators.map(async (moderator) => {
+        // Récupérer le nom d'utilisateur du modérateur
+        let username = "Unknown";
+        try {
+          const user = await this.userRepository.findById(
+            moderator.moderatorId
+          );
+          username = user?.username || "Unknown";
+        } catch (error) {
+          console.warn(`Could not fetch moderator ${moderator.moderatorId}`);
+        }
 
         return {
-          reportsGrowth,
-          resolutionRateImprovement,
-          qualityScore: Math.round(qualityScore * 100) / 100,
+          moderatorId: moderator.moderatorId,
+          username,
+          actionsCount: moderator.actionsCount,
+          averageResponseTime:
+            Math.round(moderator.averageResponseHours * 100) / 100,
         };
-      },
-      "Moderation",
-      "trends"
+      })
     );
   }
 
-  private calculateAverageResolutionTime(reports: ModerationReport[]): number {
-    const resolvedReports = reports.filter(
-      (r) => r.status === "resolved" && r.resolvedAt
+  private calculateTrends(
+    current: ModerationCaseStats,
+    previous: ModerationCaseStats
+  ): ModerationStats["trends"] {
+    const currentTotal = current.total;
+    const previousTotal = previous.total;
+
+    // Calculer la croissance des signalements
+    const reportsGrowth =
+      previousTotal > 0
+        ? Math.round(
+            ((currentTotal - previousTotal) / previousTotal) * 100 * 100
+          ) / 100
+        : currentTotal > 0
+          ? 100
+          : 0;
+
+    // Calculer l'amélioration du taux de résolution
+    const currentResolutionRate = this.percentage(
+      current.byStatus.resolved || 0,
+      currentTotal
+    );
+    const previousResolutionRate = this.percentage(
+      previous.byStatus.resolved || 0,
+      previousTotal
     );
-    if (resolvedReports.length === 0) return 0;
+    const resolutionRateImprovement =
+      Math.round((currentResolutionRate - previousResolutionRate) * 100) / 100;
 
-    const totalTime = resolvedReports.reduce((sum, report) => {
-      return sum + (report.resolvedAt!.getTime() - report.reportedAt.getTime());
-    }, 0);
+    // Score de qualité composite (0-100)
+    let qualityScore = 85; // Score de base
 
-    return totalTime / (resolvedReports.length * 1000 * 60 * 60); // en heures
-  }
+    // Ajustements basés sur les métriques
+    const avgResolutionTime = current.averageResolutionHours;
+    if (avgResolutionTime < 2)
+      qualityScore += 10; // Résolution rapide
+    else if (avgResolutionTime > 24) qualityScore -= 15; // Résolution lente
 
-  private calculateSeverityDistribution(reports: ModerationReport[]): {
-    low: number;
-    medium: number;
-    high: number;
-    critical: number;
-  } {
-    const distribution = { low: 0, medium: 0, high: 0, critical: 0 };
-    const total = reports.length;
-
-    reports.forEach((report) => {
-      distribution[report.severity]++;
-    });
-
-    // Convertir en pourcentages
-    Object.keys(distribution).forEach((key) => {
-      distribution[key as keyof typeof distribution] =
-        total > 0
-          ? Math.round(
-              (distribution[key as keyof typeof distribution] / total) *
-                100 *
-                100
-            ) / 100
-          : 0;
-    });
+    const criticalShare = this.percentage(
+      current.bySeverity.critical || 0,
+      currentTotal
+    );
+    if (criticalShare < 5) qualityScore += 5; // Peu de problèmes critiques
+    if (currentResolutionRate > 90)
+      qualityScore += 5; // Bon taux de résolution
+    else if (currentResolutionRate < 70) qualityScore -= 10; // Mauvais taux
+
+    // Échéances dépassées
+    if (this.percentage(current.slaBreached, currentTotal) > 10)
+      qualityScore -= 10;
 
-    return distribution;
+    qualityScore = Math.max(0, Math.min(100, qualityScore)); // Limiter entre 0-100
+
+    return {
+      reportsGrowth,
+      resolutionRateImprovement,
+      qualityScore: Math.round(qualityScore * 100) / 100,
+    };
   }
 
   private calculateSeverity(
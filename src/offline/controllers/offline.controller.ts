@@ -0,0 +1,65 @@
+import { Controller, Get, Query, StreamableFile } from "@nestjs/common";
+import { ApiTags, ApiOperation, ApiResponse } from "@nestjs/swagger";
+import { OfflinePackService } from "../services/offline-pack.service";
+import {
+  OfflinePackQueryDto,
+  OfflineSyncQueryDto,
+} from "../dto/offline-pack.dto";
+
+/**
+ * Contrôleur des paquets de dictionnaire hors ligne
+ * Responsabilité: téléchargement des paquets et synchronisation différentielle
+ */
+@ApiTags("offline")
+@Controller("offline")
+export class OfflineController {
+  constructor(private readonly offlinePackService: OfflinePackService) {}
+
+  /**
+   * Télécharger le paquet complet d'une ou plusieurs langues
+   */
+  @Get("packs")
+  @ApiOperation({
+    summary: "Télécharger un paquet hors ligne",
+    description:
+      "Mots approuvés des langues (sens, traductions, graphies) et manifeste audio optionnel, générés au fil de l'eau ; le champ `version` sert de `since` à la synchronisation",
+  })
+  @ApiResponse({ status: 200, description: "Paquet JSON (gzip par défaut)" })
+  @ApiResponse({ status: 400, description: "Langues invalides" })
+  @ApiResponse({ status: 404, description: "Langue non trouvée" })
+  async downloadPack(
+    @Query() query: OfflinePackQueryDto
+  ): Promise<StreamableFile> {
+    const pack = await this.offlinePackService.buildPack(query.languages, {
+      includeAudio: query.includeAudio,
+      compress: query.compress,
+    });
+    return new StreamableFile(pack.stream, {
+      type: pack.contentType,
+      disposition: `attachment; filename="${pack.fileName}"`,
+    });
+  }
+
+  /**
+   * Modifications depuis une version de paquet
+   */
+  @Get("sync")
+  @ApiOperation({
+    summary: "Synchroniser un paquet hors ligne",
+    description:
+      "Mots créés ou modifiés et suppressions depuis `since`, par pages ; la dernière page porte la nouvelle version",
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      "Page de modifications (resetRequired si la version est trop ancienne)",
+  })
+  @ApiResponse({ status: 400, description: "Version ou langues invalides" })
+  @ApiResponse({ status: 404, description: "Langue non trouvée" })
+  async sync(@Query() query: OfflineSyncQueryDto) {
+    return this.offlinePackService.sync(query.languages, query.since, {
+      cursor: query.cursor,
+      limit: query.limit,
+    });
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * @fileoverview DTOs des paquets hors ligne O'Ypunu
+ *
+ * Ces DTOs décrivent le téléchargement d'un paquet complet pour une ou
+ * plusieurs langues et la synchronisation différentielle qui le tient
+ * ensuite à jour sur les applications mobiles.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+/** Langues d'un paquet, séparées par des virgules dans la requête */
+const toLanguageIds = ({ value }: { value: unknown }) => {
+  if (typeof value === 'string') {
+    return value
+      .split(',')
+      .map((id) => id.trim())
+      .filter((id) => id.length > 0);
+  }
+  return Array.isArray(value) ? value : [];
+};
+
+export class OfflinePackQueryDto {
+  @ApiProperty({
+    description: 'IDs des langues du paquet (séparés par des virgules)',
+    example: '60a1b2c3d4e5f6a7b8c9d0e1,60a1b2c3d4e5f6a7b8c9d0e2',
+  })
+  @Transform(toLanguageIds)
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(10)
+  @IsMongoId({ each: true })
+  languages: string[];
+
+  @ApiProperty({
+    description: 'Ajouter le manifeste des fichiers audio',
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @Transform(({ value }) => value === 'true' || value === true)
+  @IsBoolean()
+  includeAudio?: boolean = false;
+
+  @ApiProperty({
+    description: 'Compresser le paquet (gzip)',
+    required: false,
+    default: true,
+  })
+  @IsOptional()
+  @Transform(({ value }) => !(value === 'false' || value === false))
+  @IsBoolean()
+  compress?: boolean = true;
+}
+
+export class OfflineSyncQueryDto {
+  @ApiProperty({
+    description: 'IDs des langues synchronisées (séparés par des virgules)',
+    example: '60a1b2c3d4e5f6a7b8c9d0e1',
+  })
+  @Transform(toLanguageIds)
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(10)
+  @IsMongoId({ each: true })
+  languages: string[];
+
+  @ApiProperty({
+    description:
+      'Version du paquet ou de la dernière synchronisation (millisecondes epoch) ou date ISO 8601',
+    example: '1735689600000',
+  })
+  @IsString()
+  @IsNotEmpty()
+  since: string;
+
+  @ApiProperty({
+    description: 'Curseur renvoyé par la page précédente',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @ApiProperty({ required: false, default: 500 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(2000)
+  limit?: number = 500;
+}
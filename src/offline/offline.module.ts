@@ -0,0 +1,44 @@
+/**
+ * @fileoverview Module des paquets de dictionnaire hors ligne pour O'Ypunu
+ *
+ * Ce module permet aux applications mobiles de télécharger le dictionnaire
+ * d'une ou plusieurs langues pour un usage sans connexion, puis de le
+ * tenir à jour par synchronisation différentielle.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { Module } from '@nestjs/common';
+import { OfflineController } from './controllers/offline.controller';
+import { OfflinePackService } from './services/offline-pack.service';
+import { RepositoriesModule } from '../repositories/repositories.module';
+import { LanguagesModule } from '../languages/languages.module';
+
+/**
+ * Module hors ligne O'Ypunu
+ *
+ * ## 📱 Fonctionnalités principales :
+ * - **Paquets** : Mots approuvés, sens, traductions et graphies, gzip
+ * - **Audio** : Manifeste optionnel des enregistrements à précharger
+ * - **Synchronisation** : Mots modifiés depuis une version, par pages
+ * - **Suppressions** : Pierres tombales conservées 90 jours
+ *
+ * ## 📊 Architecture modulaire :
+ * - **Controller** : OfflineController - Endpoints `/offline`
+ * - **Service** : OfflinePackService - Génération et synchronisation
+ * - **Repositories** : Via RepositoriesModule - IWord/WordTombstoneRepository
+ *
+ * Les pierres tombales sont écrites par les hooks de suppression du
+ * schéma `Word`.
+ *
+ * @module OfflineModule
+ * @version 1.0.0
+ */
+@Module({
+  imports: [RepositoriesModule, LanguagesModule],
+  controllers: [OfflineController],
+  providers: [OfflinePackService],
+})
+export class OfflineModule {}
@@ -0,0 +1,45 @@
+/**
+ * @fileoverview Schéma des pierres tombales de mots O'Ypunu
+ *
+ * Une pierre tombale garde la trace d'un mot approuvé supprimé, pour que
+ * la synchronisation différentielle des paquets hors ligne le retire des
+ * applications mobiles. Elles expirent après la période de rétention :
+ * un client plus ancien doit retélécharger un paquet complet.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+
+export type WordTombstoneDocument = WordTombstone & Document;
+
+/** Durée de conservation des pierres tombales */
+export const WORD_TOMBSTONE_RETENTION_DAYS = 90;
+
+@Schema({ collection: 'word_tombstones' })
+export class WordTombstone {
+  @Prop({ type: MongooseSchema.Types.ObjectId, required: true })
+  wordId: string;
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'Language' })
+  languageId?: string;
+
+  /** Code de langue hérité des mots sans `languageId` */
+  @Prop()
+  language?: string;
+
+  @Prop({ default: Date.now })
+  deletedAt: Date;
+}
+
+export const WordTombstoneSchema = SchemaFactory.createForClass(WordTombstone);
+
+// === INDEX OPTIMISÉS POUR PERFORMANCES ===
+WordTombstoneSchema.index({ languageId: 1, deletedAt: 1 }); // Pour synchronisation différentielle
+WordTombstoneSchema.index(
+  { deletedAt: 1 },
+  { expireAfterSeconds: WORD_TOMBSTONE_RETENTION_DAYS * 24 * 3600 },
+); // Expiration après la période de rétention
@@ -0,0 +1,182 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { BadRequestException } from "@nestjs/common";
+import { Readable } from "stream";
+import { gunzipSync } from "zlib";
+import { OfflinePackService } from "./offline-pack.service";
+import { LanguagesService } from "../../languages/services/languages.service";
+
+describe("OfflinePackService", () => {
+  let service: OfflinePackService;
+  let wordRepository: any;
+  let wordTombstoneRepository: any;
+
+  const fangId = "64d000000000000000000001";
+  const akok = {
+    _id: "64d000000000000000000101",
+    word: "akok",
+    languageId: fangId,
+    status: "approved",
+    version: 3,
+    meanings: [
+      {
+        partOfSpeech: "noun",
+        definitions: [{ definition: "Pierre", examples: [] }],
+      },
+    ],
+    audioFiles: {
+      standard: { url: "https://cdn.test/akok.mp3", accent: "standard" },
+    },
+    translations: [
+      {
+        languageId: { _id: "lang-fra", iso639_1: "fr" },
+        translatedWord: "pierre",
+      },
+    ],
+    scriptForms: [],
+  };
+  const nda = {
+    _id: "64d000000000000000000102",
+    word: "nda",
+    languageId: fangId,
+    status: "approved",
+    meanings: [],
+    translations: [],
+  };
+
+  async function* cursor() {
+    yield akok;
+    yield nda;
+  }
+
+  async function read(stream: Readable): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  beforeEach(async () => {
+    wordRepository = {
+      streamApprovedByLanguage: jest.fn().mockImplementation(() => cursor()),
+      findChangedSince: jest
+        .fn()
+        .mockResolvedValue({ words: [], nextCursor: null }),
+    };
+    wordTombstoneRepository = { findSince: jest.fn().mockResolvedValue([]) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OfflinePackService,
+        { provide: "IWordRepository", useValue: wordRepository },
+        {
+          provide: "IWordTombstoneRepository",
+          useValue: wordTombstoneRepository,
+        },
+        {
+          provide: LanguagesService,
+          useValue: {
+            getLanguageById: jest.fn().mockResolvedValue({
+              _id: fangId,
+              name: "Fang",
+              iso639_3: "fan",
+              scripts: [{ code: "Latn", name: "Latin", direction: "ltr" }],
+            }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OfflinePackService>(OfflinePackService);
+  });
+
+  it("should stream a gzipped versioned pack with its audio manifest", async () => {
+    const pack = await service.buildPack([fangId], { includeAudio: true });
+    const content = JSON.parse(gunzipSync(await read(pack.stream)).toString());
+
+    expect(pack.contentType).toBe("application/gzip");
+    expect(pack.fileName).toBe(`oypunu-fan-${content.version}.json.gz`);
+    expect(content).toEqual(
+      expect.objectContaining({
+        format: "oypunu-offline-pack",
+        formatVersion: 1,
+        wordCount: 2,
+        audioManifest: [
+          {
+            wordId: akok._id,
+            accent: "standard",
+            url: "https://cdn.test/akok.mp3",
+          },
+        ],
+      })
+    );
+    expect(content.languages[0]).toEqual(
+      expect.objectContaining({ id: fangId, code: "fan" })
+    );
+    expect(content.words[0]).toEqual(
+      expect.objectContaining({
+        id: akok._id,
+        languageId: fangId,
+        version: 3,
+        translations: [
+          { language: "fr", translatedWord: "pierre", context: [] },
+        ],
+      })
+    );
+  });
+
+  it("should leave audio out of the pack unless requested", async () => {
+    const pack = await service.buildPack([fangId], { compress: false });
+    const content = JSON.parse((await read(pack.stream)).toString());
+
+    expect(pack.contentType).toBe("application/json");
+    expect(content.audioManifest).toBeUndefined();
+    expect(content.words[0].audio).toBeUndefined();
+  });
+
+  it("should page changes and send deletions with the new version on the last page", async () => {
+    const since = String(Date.now() - 3600 * 1000);
+    wordRepository.findChangedSince
+      .mockResolvedValueOnce({ words: [akok], nextCursor: "next" })
+      .mockResolvedValueOnce({
+        words: [{ ...nda, status: "rejected" }],
+        nextCursor: null,
+      });
+    wordTombstoneRepository.findSince.mockResolvedValue([
+      { wordId: "64d000000000000000000103" },
+    ]);
+
+    const first = await service.sync([fangId], since, { limit: 1 });
+    const last = await service.sync([fangId], since, {
+      cursor: first.nextCursor,
+      limit: 1,
+    });
+
+    expect(first).toEqual(
+      expect.objectContaining({ hasMore: true, version: null, deletions: [] })
+    );
+    expect(first.upserts.map((entry) => entry.id)).toEqual([akok._id]);
+    expect(wordTombstoneRepository.findSince).toHaveBeenCalledTimes(1);
+    expect(last.hasMore).toBe(false);
+    expect(Number(last.version)).toBeGreaterThanOrEqual(Number(since));
+    expect(last.deletions).toEqual([nda._id, "64d000000000000000000103"]);
+  });
+
+  it("should require a full pack once tombstones may have expired", async () => {
+    const since = new Date(Date.now() - 120 * 24 * 3600 * 1000).toISOString();
+
+    const page = await service.sync([fangId], since);
+
+    expect(page.resetRequired).toBe(true);
+    expect(wordRepository.findChangedSince).not.toHaveBeenCalled();
+  });
+
+  it("should reject an unreadable or future version", async () => {
+    await expect(service.sync([fangId], "hier")).rejects.toThrow(
+      BadRequestException
+    );
+    await expect(
+      service.sync([fangId], String(Date.now() + 3600 * 1000))
+    ).rejects.toThrow(BadRequestException);
+  });
+});
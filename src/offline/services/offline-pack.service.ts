@@ -0,0 +1,289 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+} from "@nestjs/common";
+import { Readable } from "stream";
+import { createGzip } from "zlib";
+import { IWordRepository } from "../../repositories/interfaces/word.repository.interface";
+import { IWordTombstoneRepository } from "../../repositories/interfaces/word-tombstone.repository.interface";
+import { LanguagesService } from "../../languages/services/languages.service";
+import {
+  exportLanguageCode,
+  toLexiconExportEntry,
+} from "../../languages/services/export/lexicon-export.mapper";
+import { LexiconExportEntry } from "../../languages/services/export/lexicon-export.types";
+import { WORD_TOMBSTONE_RETENTION_DAYS } from "../schemas/word-tombstone.schema";
+
+/** Identifiant du format, lu par les applications avant décodage */
+export const OFFLINE_PACK_FORMAT = "oypunu-offline-pack";
+export const OFFLINE_PACK_FORMAT_VERSION = 1;
+
+/** Au-delà, le client doit retélécharger un paquet complet */
+const MAX_SYNC_DELETIONS = 5000;
+
+/**
+ * Langue décrite dans un paquet
+ */
+export interface OfflinePackLanguage {
+  id: string;
+  name: string;
+  code: string;
+  scripts: Array<{ code: string; name: string; direction: string }>;
+}
+
+/**
+ * Mot d'un paquet hors ligne
+ */
+export type OfflinePackEntry = Omit<LexiconExportEntry, "audio"> & {
+  languageId: string;
+  /** Version de révision du mot */
+  version: number;
+  scriptForms: Array<{ scriptCode: string; form: string }>;
+  /** Absent quand le manifeste audio n'est pas demandé */
+  audio?: Array<{ accent: string; url: string }>;
+};
+
+/**
+ * Fichier de paquet prêt à être envoyé
+ */
+export interface OfflinePackFile {
+  fileName: string;
+  contentType: string;
+  stream: Readable;
+}
+
+/**
+ * Page de synchronisation différentielle
+ */
+export interface OfflineSyncPage {
+  /** Le client doit retélécharger un paquet complet */
+  resetRequired: boolean;
+  /** Nouvelle version du client, présente sur la dernière page */
+  version: string | null;
+  hasMore: boolean;
+  nextCursor: string | null;
+  /** Mots approuvés créés ou modifiés, à remplacer en entier */
+  upserts: OfflinePackEntry[];
+  /** IDs des mots à retirer (supprimés ou dépubliés) */
+  deletions: string[];
+}
+
+/**
+ * Service des paquets de dictionnaire hors ligne
+ *
+ * Un paquet contient les mots approuvés d'une ou plusieurs langues (sens,
+ * traductions, graphies) et, sur demande, le manifeste des fichiers audio.
+ * Il est écrit au fil de l'eau et porte une version (horodatage en
+ * millisecondes du début de sa génération) ; la synchronisation renvoie
+ * ensuite les mots modifiés depuis cette version (`Word.updatedAt`) et les
+ * suppressions enregistrées dans les pierres tombales.
+ */
+@Injectable()
+export class OfflinePackService {
+  private readonly logger = new Logger(OfflinePackService.name);
+
+  constructor(
+    @Inject("IWordRepository") private wordRepository: IWordRepository,
+    @Inject("IWordTombstoneRepository")
+    private wordTombstoneRepository: IWordTombstoneRepository,
+    private languagesService: LanguagesService
+  ) {}
+
+  /**
+   * Prépare le paquet complet des langues
+   *
+   * @param options.includeAudio - Ajouter les URLs audio et leur manifeste
+   * @param options.compress - Compresser en gzip (par défaut)
+   * @throws {NotFoundException} Si une langue n'existe pas
+   */
+  async buildPack(
+    languageIds: string[],
+    options: { includeAudio?: boolean; compress?: boolean } = {}
+  ): Promise<OfflinePackFile> {
+    const version = String(Date.now());
+    const languages = await this.findLanguages(languageIds);
+    const compress = options.compress !== false;
+
+    this.logger.log(
+      `Paquet hors ligne ${version} : ${languages.map((language) => language.name).join(", ")}`
+    );
+
+    const json = Readable.from(
+      this.writePack(languages, version, !!options.includeAudio)
+    );
+    return {
+      fileName: `oypunu-${languages
+        .map((language) => language.code)
+        .join("-")}-${version}.json${compress ? ".gz" : ""}`,
+      contentType: compress ? "application/gzip" : "application/json",
+      stream: compress ? json.pipe(createGzip()) : json,
+    };
+  }
+
+  /**
+   * Modifications depuis une version de paquet ou de synchronisation
+   *
+   * Les pages sont triées par date de modification ; les suppressions
+   * sont envoyées avec la dernière page, qui porte la nouvelle version.
+   *
+   * @param since - Version (millisecondes epoch) ou date ISO 8601
+   * @throws {BadRequestException} Si `since` est illisible ou dans le futur
+   * @throws {NotFoundException} Si une langue n'existe pas
+   */
+  async sync(
+    languageIds: string[],
+    since: string,
+    options: { cursor?: string; limit?: number } = {}
+  ): Promise<OfflineSyncPage> {
+    const startedAt = Date.now();
+    const sinceDate = OfflinePackService.parseVersion(since);
+    if (sinceDate.getTime() > startedAt) {
+      throw new BadRequestException("Version de synchronisation dans le futur");
+    }
+    await this.findLanguages(languageIds);
+
+    const retentionStart =
+      startedAt - WORD_TOMBSTONE_RETENTION_DAYS * 24 * 3600 * 1000;
+    if (sinceDate.getTime() < retentionStart) {
+      return OfflinePackService.reset();
+    }
+
+    const { words, nextCursor } = await this.wordRepository.findChangedSince(
+      languageIds,
+      sinceDate,
+      { cursor: options.cursor, limit: options.limit || 500 }
+    );
+
+    const upserts: OfflinePackEntry[] = [];
+    const deletions: string[] = [];
+    for (const word of words) {
+      if (word.status === "approved") {
+        upserts.push(OfflinePackService.toEntry(word, true));
+      } else {
+        deletions.push(String((word as any)._id));
+      }
+    }
+
+    if (!nextCursor) {
+      const tombstones = await this.wordTombstoneRepository.findSince(
+        languageIds,
+        sinceDate,
+        MAX_SYNC_DELETIONS + 1
+      );
+      if (tombstones.length > MAX_SYNC_DELETIONS) {
+        return OfflinePackService.reset();
+      }
+      deletions.push(
+        ...tombstones.map((tombstone) => String(tombstone.wordId))
+      );
+    }
+
+    return {
+      resetRequired: false,
+      version: nextCursor ? null : String(startedAt),
+      hasMore: !!nextCursor,
+      nextCursor,
+      upserts,
+      deletions: [...new Set(deletions)],
+    };
+  }
+
+  private async findLanguages(
+    languageIds: string[]
+  ): Promise<OfflinePackLanguage[]> {
+    const languages: any[] = await Promise.all(
+      [...new Set(languageIds)].map((id) =>
+        this.languagesService.getLanguageById(id)
+      )
+    );
+    return languages.map((language) => ({
+      id: String(language._id),
+      name: language.name,
+      code: exportLanguageCode(language, String(language._id)),
+      scripts: (language.scripts || []).map((script: any) => ({
+        code: script.code,
+        name: script.name,
+        direction: script.direction || "ltr",
+      })),
+    }));
+  }
+
+  /**
+   * Document JSON du paquet, écrit mot par mot
+   */
+  private async *writePack(
+    languages: OfflinePackLanguage[],
+    version: string,
+    includeAudio: boolean
+  ): AsyncGenerator<string> {
+    const header = {
+      format: OFFLINE_PACK_FORMAT,
+      formatVersion: OFFLINE_PACK_FORMAT_VERSION,
+      version,
+      generatedAt: new Date(Number(version)).toISOString(),
+      languages,
+    };
+    yield `${JSON.stringify(header).slice(0, -1)},"words":[`;
+
+    let wordCount = 0;
+    const audioManifest: Array<{
+      wordId: string;
+      accent: string;
+      url: string;
+    }> = [];
+    for (const language of languages) {
+      for await (const word of this.wordRepository.streamApprovedByLanguage(
+        language.id
+      )) {
+        const entry = OfflinePackService.toEntry(word, includeAudio);
+        yield `${wordCount ? "," : ""}${JSON.stringify(entry)}`;
+        wordCount++;
+        for (const audio of entry.audio || []) {
+          audioManifest.push({ wordId: entry.id, ...audio });
+        }
+      }
+    }
+
+    const footer = includeAudio ? { wordCount, audioManifest } : { wordCount };
+    yield `],${JSON.stringify(footer).slice(1)}`;
+  }
+
+  private static toEntry(word: any, includeAudio: boolean): OfflinePackEntry {
+    const { audio, ...entry } = toLexiconExportEntry(word);
+    return {
+      ...entry,
+      ...(includeAudio ? { audio } : {}),
+      languageId: String(word.languageId?._id ?? word.languageId),
+      version: word.version || 1,
+      scriptForms: (word.scriptForms || []).map((scriptForm: any) => ({
+        scriptCode: scriptForm.scriptCode,
+        form: scriptForm.form,
+      })),
+    };
+  }
+
+  private static parseVersion(since: string): Date {
+    const date = /^\d+$/.test(since)
+      ? new Date(Number(since))
+      : new Date(since);
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException(
+        "Version de synchronisation invalide (millisecondes epoch ou date ISO 8601)"
+      );
+    }
+    return date;
+  }
+
+  private static reset(): OfflineSyncPage {
+    return {
+      resetRequired: true,
+      version: null,
+      hasMore: false,
+      nextCursor: null,
+      upserts: [],
+      deletions: [],
+    };
+  }
+}
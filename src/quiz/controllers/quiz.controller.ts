@@ -0,0 +1,160 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Body,
+  Query,
+  UseGuards,
+  Request as NestRequest,
+  HttpCode,
+  HttpStatus,
+  Header,
+  ParseIntPipe,
+  StreamableFile,
+} from "@nestjs/common";
+import { Request } from "express";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiQuery,
+} from "@nestjs/swagger";
+import { JwtAuthGuard } from "../../auth/guards/jwt-auth.guard";
+import { User } from "../../users/schemas/user.schema";
+import { QuizService } from "../services/quiz.service";
+import { GenerateQuizDto } from "../dto/generate-quiz.dto";
+import { SubmitQuizDto } from "../dto/submit-quiz.dto";
+
+interface RequestWithUser extends Request {
+  user: User & { _id: any };
+}
+
+/**
+ * Contrôleur des quiz générés à partir du dictionnaire
+ * Responsabilité: génération, correction, historique et statistiques
+ */
+@ApiTags("quiz")
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller("quiz")
+export class QuizController {
+  constructor(private readonly quizService: QuizService) {}
+
+  /**
+   * Générer un quiz
+   */
+  @Post()
+  @ApiOperation({
+    summary: "Générer un quiz",
+    description:
+      "Questions à choix multiple (traduction, audio, définition, texte à trous) tirées des mots approuvés d'une langue ; les bonnes réponses restent côté serveur",
+  })
+  @ApiResponse({ status: 201, description: "Quiz généré" })
+  @ApiResponse({
+    status: 400,
+    description: "Langue ou catégorie introuvable, ou mots insuffisants",
+  })
+  async generate(
+    @Body() dto: GenerateQuizDto,
+    @NestRequest() req: RequestWithUser
+  ) {
+    return this.quizService.generate(String(req.user._id), dto);
+  }
+
+  /**
+   * Historique des quiz terminés
+   */
+  @Get("history")
+  @ApiOperation({ summary: "Historique de mes quiz" })
+  @ApiQuery({ name: "page", required: false, type: Number })
+  @ApiQuery({ name: "limit", required: false, type: Number })
+  @ApiResponse({ status: 200, description: "Liste paginée des tentatives" })
+  async getHistory(
+    @NestRequest() req: RequestWithUser,
+    @Query("page") page?: string,
+    @Query("limit") limit?: string
+  ) {
+    const pageNumber = Math.max(1, parseInt(page || "1", 10) || 1);
+    const limitNumber = Math.min(
+      50,
+      Math.max(1, parseInt(limit || "20", 10) || 20)
+    );
+    return this.quizService.getHistory(
+      String(req.user._id),
+      pageNumber,
+      limitNumber
+    );
+  }
+
+  /**
+   * Statistiques de quiz
+   */
+  @Get("stats")
+  @ApiOperation({
+    summary: "Statistiques de mes quiz",
+    description:
+      "Score moyen, meilleur score, quiz parfaits et réussite par type de question",
+  })
+  @ApiResponse({ status: 200, description: "Statistiques" })
+  async getStats(@NestRequest() req: RequestWithUser) {
+    return this.quizService.getStats(String(req.user._id));
+  }
+
+  /**
+   * Écouter l'audio d'une question
+   */
+  @Get(":attemptId/questions/:index/audio")
+  @Header("Cache-Control", "private, no-store")
+  @ApiOperation({
+    summary: "Audio d'une question",
+    description:
+      "Relaie l'enregistrement du mot sans exposer son URL de stockage",
+  })
+  @ApiParam({ name: "attemptId", description: "ID de la tentative" })
+  @ApiParam({ name: "index", description: "Position de la question" })
+  @ApiResponse({ status: 200, description: "Fichier audio" })
+  @ApiResponse({
+    status: 404,
+    description: "Quiz, question ou audio introuvable",
+  })
+  async getQuestionAudio(
+    @Param("attemptId") attemptId: string,
+    @Param("index", ParseIntPipe) index: number,
+    @NestRequest() req: RequestWithUser
+  ): Promise<StreamableFile> {
+    const audio = await this.quizService.getQuestionAudio(
+      String(req.user._id),
+      attemptId,
+      index
+    );
+    return new StreamableFile(audio.stream, { type: audio.contentType });
+  }
+
+  /**
+   * Soumettre ses réponses
+   */
+  @Post(":attemptId/submit")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Corriger un quiz",
+    description:
+      "Renvoie le score, les corrections, l'XP gagnée et les achievements débloqués",
+  })
+  @ApiParam({ name: "attemptId", description: "ID de la tentative" })
+  @ApiResponse({ status: 200, description: "Quiz corrigé" })
+  @ApiResponse({
+    status: 400,
+    description: "Quiz déjà corrigé ou nombre de réponses incorrect",
+  })
+  @ApiResponse({ status: 404, description: "Quiz introuvable" })
+  async submit(
+    @Param("attemptId") attemptId: string,
+    @Body() dto: SubmitQuizDto,
+    @NestRequest() req: RequestWithUser
+  ) {
+    return this.quizService.submit(String(req.user._id), attemptId, dto);
+  }
+}
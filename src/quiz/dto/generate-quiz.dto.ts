@@ -0,0 +1,59 @@
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsMongoId,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+import {
+  QUIZ_ITEM_TYPES,
+  QuizItemType,
+} from '../../common/utils/quiz-generator.util';
+
+/**
+ * Paramètres de génération d'un quiz
+ */
+export class GenerateQuizDto {
+  @ApiProperty({ description: 'Langue des mots interrogés' })
+  @IsMongoId()
+  languageId: string;
+
+  @ApiProperty({
+    description:
+      'Langue des traductions (requise pour les questions de traduction)',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  targetLanguageId?: string;
+
+  @ApiProperty({ description: 'Restreindre à une catégorie', required: false })
+  @IsOptional()
+  @IsMongoId()
+  categoryId?: string;
+
+  @ApiProperty({
+    enum: QUIZ_ITEM_TYPES,
+    isArray: true,
+    required: false,
+    description: 'Types de questions (tous par défaut)',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsIn(QUIZ_ITEM_TYPES, { each: true })
+  types?: QuizItemType[];
+
+  @ApiProperty({ required: false, default: 10 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(30)
+  count?: number = 10;
+}
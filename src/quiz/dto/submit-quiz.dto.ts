@@ -0,0 +1,29 @@
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { ArrayMaxSize, IsArray, IsInt, IsOptional, Min } from 'class-validator';
+
+/**
+ * Réponses à un quiz, dans l'ordre des questions
+ */
+export class SubmitQuizDto {
+  @ApiProperty({
+    type: [Number],
+    description: "Index de l'option choisie pour chaque question, -1 si passée",
+    example: [2, 0, -1, 3],
+  })
+  @IsArray()
+  @ArrayMaxSize(30)
+  @IsInt({ each: true })
+  @Min(-1, { each: true })
+  answers: number[];
+
+  @ApiProperty({
+    description: 'Durée du quiz en millisecondes',
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  durationMs?: number;
+}
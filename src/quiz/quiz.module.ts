@@ -0,0 +1,46 @@
+/**
+ * @fileoverview Module de quiz et d'exercices pour O'Ypunu
+ *
+ * Ce module génère des quiz à choix multiple à partir des mots approuvés
+ * du dictionnaire, corrige les tentatives et récompense les résultats.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { Module } from '@nestjs/common';
+import { QuizController } from './controllers/quiz.controller';
+import { QuizService } from './services/quiz.service';
+import { RepositoriesModule } from '../repositories/repositories.module';
+import { AchievementsModule } from '../achievements/achievements.module';
+import { DictionaryModule } from '../dictionary/dictionary.module';
+
+/**
+ * Module de quiz O'Ypunu
+ *
+ * ## 📝 Fonctionnalités principales :
+ * - **Traduction** : Choisir la traduction d'un mot dans la langue cible
+ * - **Audio** : Reconnaître un mot à partir de son enregistrement
+ * - **Définition** : Retrouver le mot correspondant à une définition
+ * - **Texte à trous** : Compléter un exemple d'usage
+ * - **Distracteurs** : Même catégorie et même nature grammaticale
+ *
+ * ## 📊 Architecture modulaire :
+ * - **Controller** : QuizController - Endpoints `/quiz`
+ * - **Service** : QuizService - Génération, correction et récompenses
+ * - **Repository** : Via RepositoriesModule - IQuizAttemptRepository
+ *
+ * Les résultats alimentent l'XP (GamificationEngineService) et les
+ * achievements d'apprentissage (AchievementsService). L'audio des
+ * questions est relu depuis le stockage audio du dictionnaire.
+ *
+ * @module QuizModule
+ * @version 1.0.0
+ */
+@Module({
+  imports: [RepositoriesModule, AchievementsModule, DictionaryModule],
+  controllers: [QuizController],
+  providers: [QuizService],
+})
+export class QuizModule {}
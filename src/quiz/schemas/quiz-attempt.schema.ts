@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Schéma des tentatives de quiz O'Ypunu
+ *
+ * Une tentative conserve les questions générées avec leur bonne réponse :
+ * la correction se fait côté serveur à la soumission, puis le score et
+ * l'XP obtenus sont enregistrés.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+import { User } from '../../users/schemas/user.schema';
+import { Language } from '../../languages/schemas/language.schema';
+import {
+  QUIZ_ITEM_TYPES,
+  QuizItemType,
+} from '../../common/utils/quiz-generator.util';
+
+export type QuizAttemptDocument = QuizAttempt & Document;
+
+/**
+ * Question d'une tentative et réponse de l'utilisateur
+ */
+@Schema({ _id: false })
+export class QuizAttemptItem {
+  @Prop({ type: String, enum: QUIZ_ITEM_TYPES, required: true })
+  type: QuizItemType;
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'Word', required: true })
+  wordId: string;
+
+  @Prop({ required: true })
+  prompt: string;
+
+  @Prop()
+  audioUrl?: string;
+
+  @Prop({ type: [String], required: true })
+  options: string[];
+
+  @Prop({ required: true })
+  correctIndex: number;
+
+  @Prop()
+  explanation?: string;
+
+  /** Option choisie (absente si la question a été passée) */
+  @Prop()
+  answerIndex?: number;
+
+  @Prop()
+  correct?: boolean;
+}
+
+/**
+ * Tentative de quiz d'un utilisateur
+ *
+ * @class QuizAttempt
+ * @version 1.0.0
+ */
+@Schema({
+  timestamps: true,
+  collection: 'quiz_attempts',
+})
+export class QuizAttempt {
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'User', required: true })
+  userId: User;
+
+  /** Langue des mots interrogés */
+  @Prop({
+    type: MongooseSchema.Types.ObjectId,
+    ref: 'Language',
+    required: true,
+  })
+  languageId: Language;
+
+  /** Langue des traductions proposées */
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'Language' })
+  targetLanguageId?: Language;
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'Category' })
+  categoryId?: string;
+
+  @Prop({ type: [QuizAttemptItem], default: [] })
+  items: QuizAttemptItem[];
+
+  @Prop({
+    type: String,
+    enum: ['in_progress', 'completed'],
+    default: 'in_progress',
+  })
+  status: 'in_progress' | 'completed';
+
+  @Prop({ default: 0 })
+  correctCount: number;
+
+  /** Pourcentage de bonnes réponses */
+  @Prop({ default: 0, min: 0, max: 100 })
+  score: number;
+
+  @Prop()
+  durationMs?: number;
+
+  @Prop({ default: 0 })
+  xpAwarded: number;
+
+  @Prop()
+  completedAt?: Date;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const QuizAttemptSchema = SchemaFactory.createForClass(QuizAttempt);
+
+// === INDEX OPTIMISÉS POUR PERFORMANCES ===
+
+// Historique d'un utilisateur et compteurs d'achievements
+QuizAttemptSchema.index({ userId: 1, status: 1, completedAt: -1 });
@@ -0,0 +1,263 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { BadRequestException, NotFoundException } from "@nestjs/common";
+import { Readable } from "stream";
+import { QuizService } from "./quiz.service";
+import { GamificationEngineService } from "../../achievements/services/gamification-engine.service";
+import { AchievementsService } from "../../achievements/services/achievements.service";
+import { AUDIO_STORAGE } from "../../dictionary/services/audio-processing/audio-processing.types";
+
+describe("QuizService", () => {
+  let service: QuizService;
+  let quizAttemptRepository: any;
+  let wordRepository: any;
+  let languageRepository: any;
+  let gamificationEngineService: any;
+  let achievementsService: any;
+  let audioStorage: { name: string; open: jest.Mock };
+
+  const userId = "64d000000000000000000001";
+  const languageId = "64d0000000000000000000a1";
+  const targetLanguageId = "64d0000000000000000000a2";
+  const word = (id: string, text: string, translation: string) => ({
+    _id: id,
+    word: text,
+    categoryId: "famille",
+    meanings: [
+      {
+        partOfSpeech: "noun",
+        definitions: [
+          { definition: `Définition de ${text}`, examples: [`${text} ayei`] },
+        ],
+      },
+    ],
+    translations: [
+      { languageId: targetLanguageId, translatedWord: translation },
+    ],
+    audioFiles: { standard: { url: `https://cdn/${text}.mp3` } },
+  });
+  const words = [
+    word("w1", "mama", "mère"),
+    word("w2", "tata", "père"),
+    word("w3", "ndeko", "frère"),
+    word("w4", "koko", "grand-parent"),
+    word("w5", "mwana", "enfant"),
+  ];
+  const attempt = (overrides: Record<string, any> = {}) => ({
+    _id: "a1",
+    userId,
+    status: "in_progress",
+    items: [
+      {
+        type: "definition",
+        wordId: "w1",
+        options: ["a", "b", "c", "d"],
+        correctIndex: 1,
+      },
+      {
+        type: "audio",
+        wordId: "w2",
+        options: ["a", "b", "c", "d"],
+        correctIndex: 3,
+      },
+    ],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    quizAttemptRepository = {
+      create: jest.fn((data) => Promise.resolve({ _id: "a1", ...data })),
+      findById: jest.fn().mockResolvedValue(attempt()),
+      complete: jest.fn((id, result) =>
+        Promise.resolve(attempt({ status: "completed", ...result }))
+      ),
+      setXpAwarded: jest.fn(),
+    };
+    wordRepository = { sampleApproved: jest.fn().mockResolvedValue(words) };
+    languageRepository = {
+      findById: jest.fn((id) => Promise.resolve({ _id: id })),
+    };
+    gamificationEngineService = {
+      addXP: jest.fn().mockResolvedValue({ xpGained: 10 }),
+    };
+    achievementsService = {
+      checkAndUpdateProgress: jest.fn().mockResolvedValue({
+        newAchievements: [{ id: "flawless", name: "Sans Faute", points: 250 }],
+      }),
+    };
+    audioStorage = { name: "cloudinary", open: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QuizService,
+        { provide: "IQuizAttemptRepository", useValue: quizAttemptRepository },
+        { provide: "IWordRepository", useValue: wordRepository },
+        { provide: "ILanguageRepository", useValue: languageRepository },
+        { provide: "ICategoryRepository", useValue: { findById: jest.fn() } },
+        {
+          provide: GamificationEngineService,
+          useValue: gamificationEngineService,
+        },
+        { provide: AchievementsService, useValue: achievementsService },
+        { provide: AUDIO_STORAGE, useValue: audioStorage },
+      ],
+    }).compile();
+
+    service = module.get<QuizService>(QuizService);
+  });
+
+  describe("generate", () => {
+    it("should rotate question types and keep the answers server-side", async () => {
+      const quiz = await service.generate(userId, {
+        languageId,
+        targetLanguageId,
+        count: 4,
+      });
+
+      const { items } = quizAttemptRepository.create.mock.calls[0][0];
+      expect(items.map((item) => item.type)).toEqual([
+        "translation",
+        "audio",
+        "definition",
+        "fill_blank",
+      ]);
+      items.forEach((item) => expect(item.options).toHaveLength(4));
+      expect(items[0].options[items[0].correctIndex]).toBe("mère");
+      expect(quiz.attemptId).toBe("a1");
+      expect(quiz.questions[0]).not.toHaveProperty("correctIndex");
+      expect(quiz.questions[0]).not.toHaveProperty("explanation");
+      expect(quiz.questions[1].audioUrl).toBe("/api/quiz/a1/questions/1/audio");
+      expect(JSON.stringify(quiz.questions)).not.toContain("https://cdn/");
+    });
+
+    it("should not identify the quizzed word before the attempt is graded", async () => {
+      const quiz = await service.generate(userId, {
+        languageId,
+        targetLanguageId,
+        count: 4,
+      });
+
+      quiz.questions.forEach((question) =>
+        expect(question).not.toHaveProperty("wordId")
+      );
+      const serialized = JSON.stringify(quiz.questions);
+      words.forEach(({ _id }) => expect(serialized).not.toContain(`"${_id}"`));
+
+      // L'identifiant n'est rendu qu'avec la correction
+      const result = await service.submit(userId, "a1", { answers: [1, 3] });
+      expect(result.corrections.map(({ wordId }) => wordId)).toEqual([
+        "w1",
+        "w2",
+      ]);
+    });
+
+    it("should refuse translation questions without a target language", async () => {
+      await expect(
+        service.generate(userId, { languageId, types: ["translation"] })
+      ).rejects.toThrow(BadRequestException);
+      expect(wordRepository.sampleApproved).not.toHaveBeenCalled();
+    });
+
+    it("should fail when the sampled words cannot produce any question", async () => {
+      wordRepository.sampleApproved.mockResolvedValue(words.slice(0, 2));
+
+      await expect(service.generate(userId, { languageId })).rejects.toThrow(
+        BadRequestException
+      );
+      expect(quizAttemptRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getQuestionAudio", () => {
+    beforeEach(() => {
+      quizAttemptRepository.findById.mockResolvedValue(
+        attempt({
+          items: [
+            { type: "definition", wordId: "w1" },
+            { type: "audio", wordId: "w2", audioUrl: "https://cdn/tata.mp3" },
+          ],
+        })
+      );
+    });
+
+    it("should relay the recording of an audio question to its owner", async () => {
+      audioStorage.open.mockResolvedValue({
+        stream: Readable.from(["ID3"]),
+        contentType: "audio/mpeg",
+      });
+
+      const audio = await service.getQuestionAudio(userId, "a1", 1);
+
+      expect(audioStorage.open).toHaveBeenCalledWith("https://cdn/tata.mp3");
+      expect(audio.contentType).toBe("audio/mpeg");
+      await expect(
+        service.getQuestionAudio("64d000000000000000000009", "a1", 1)
+      ).rejects.toThrow(NotFoundException);
+      await expect(service.getQuestionAudio(userId, "a1", 0)).rejects.toThrow(
+        NotFoundException
+      );
+    });
+
+    it("should report a missing recording as not found", async () => {
+      audioStorage.open.mockRejectedValue(new Error("HTTP 404"));
+
+      await expect(service.getQuestionAudio(userId, "a1", 1)).rejects.toThrow(
+        NotFoundException
+      );
+    });
+
+    it("should not relay URLs from outside the audio storage", async () => {
+      // URL saisie par un contributeur : le stockage refuse de la suivre
+      audioStorage.open.mockResolvedValue(null);
+
+      await expect(service.getQuestionAudio(userId, "a1", 1)).rejects.toThrow(
+        NotFoundException
+      );
+    });
+  });
+
+  describe("submit", () => {
+    it("should grade answers, award XP and report new achievements", async () => {
+      const result = await service.submit(userId, "a1", {
+        answers: [1, -1],
+      });
+
+      expect(quizAttemptRepository.complete).toHaveBeenCalledWith(
+        "a1",
+        expect.objectContaining({ correctCount: 1, score: 50 })
+      );
+      expect(gamificationEngineService.addXP).toHaveBeenCalledWith(
+        userId,
+        "QUIZ_COMPLETED",
+        0.5,
+        expect.objectContaining({ attemptId: "a1" })
+      );
+      expect(quizAttemptRepository.setXpAwarded).toHaveBeenCalledWith("a1", 10);
+      expect(result.corrections[1]).toEqual(
+        expect.objectContaining({ correct: false, answerIndex: undefined })
+      );
+      expect(result.newAchievements).toEqual([
+        { id: "flawless", name: "Sans Faute" },
+      ]);
+    });
+
+    it("should not grade the same attempt twice", async () => {
+      quizAttemptRepository.findById.mockResolvedValue(
+        attempt({ status: "completed" })
+      );
+
+      await expect(
+        service.submit(userId, "a1", { answers: [1, 3] })
+      ).rejects.toThrow(BadRequestException);
+      expect(gamificationEngineService.addXP).not.toHaveBeenCalled();
+    });
+
+    it("should keep the result when the gamification engine fails", async () => {
+      gamificationEngineService.addXP.mockRejectedValue(new Error("down"));
+
+      const result = await service.submit(userId, "a1", { answers: [1, 3] });
+
+      expect(result.score).toBe(100);
+      expect(result.xpAwarded).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,416 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "@nestjs/common";
+import { QuizAttempt, QuizAttemptItem } from "../schemas/quiz-attempt.schema";
+import { GenerateQuizDto } from "../dto/generate-quiz.dto";
+import { SubmitQuizDto } from "../dto/submit-quiz.dto";
+import {
+  IQuizAttemptRepository,
+  QuizAttemptSummary,
+} from "../../repositories/interfaces/quiz-attempt.repository.interface";
+import { IWordRepository } from "../../repositories/interfaces/word.repository.interface";
+import { ILanguageRepository } from "../../repositories/interfaces/language.repository.interface";
+import { ICategoryRepository } from "../../repositories/interfaces/category.repository.interface";
+import { GamificationEngineService } from "../../achievements/services/gamification-engine.service";
+import { AchievementsService } from "../../achievements/services/achievements.service";
+import { Word } from "../../dictionary/schemas/word.schema";
+import {
+  AUDIO_STORAGE,
+  AudioFileStream,
+  AudioStorage,
+} from "../../dictionary/services/audio-processing/audio-processing.types";
+import {
+  QUIZ_ITEM_TYPES,
+  QuizGenerator,
+  QuizItemType,
+  QuizWord,
+} from "../../common/utils/quiz-generator.util";
+
+/**
+ * Question telle qu'envoyée à l'utilisateur (sans la réponse)
+ *
+ * Le mot interrogé n'est identifié qu'après correction : sa fiche
+ * donnerait la réponse.
+ */
+export type QuizQuestion = Pick<
+  QuizAttemptItem,
+  "type" | "prompt" | "audioUrl" | "options"
+>;
+
+/**
+ * Résultat d'un quiz corrigé
+ */
+export interface QuizResult {
+  attemptId: string;
+  score: number;
+  correctCount: number;
+  total: number;
+  xpAwarded: number;
+  /** Achievements débloqués par ce quiz */
+  newAchievements: Array<{ id: string; name: string }>;
+  corrections: Array<
+    Pick<
+      QuizAttemptItem,
+      "type" | "wordId" | "correctIndex" | "answerIndex" | "explanation"
+    > & { correct: boolean }
+  >;
+}
+
+/**
+ * Service de génération et de correction de quiz
+ *
+ * Les questions (traduction, audio, définition, texte à trous) sont
+ * tirées d'un échantillon de mots approuvés de la langue choisie, qui
+ * fournit aussi les distracteurs. La tentative est stockée avec les
+ * bonnes réponses et corrigée côté serveur ; le score alimente l'XP
+ * (`QUIZ_COMPLETED`) et les achievements d'apprentissage.
+ */
+@Injectable()
+export class QuizService {
+  private readonly logger = new Logger(QuizService.name);
+
+  /** Taille de l'échantillon par question demandée */
+  private static readonly POOL_FACTOR = 6;
+  private static readonly MIN_POOL = 40;
+  private static readonly MAX_POOL = 200;
+
+  constructor(
+    @Inject("IQuizAttemptRepository")
+    private quizAttemptRepository: IQuizAttemptRepository,
+    @Inject("IWordRepository") private wordRepository: IWordRepository,
+    @Inject("ILanguageRepository")
+    private languageRepository: ILanguageRepository,
+    @Inject("ICategoryRepository")
+    private categoryRepository: ICategoryRepository,
+    private gamificationEngineService: GamificationEngineService,
+    private achievementsService: AchievementsService,
+    @Inject(AUDIO_STORAGE) private audioStorage: AudioStorage
+  ) {}
+
+  /**
+   * Générer un quiz et enregistrer la tentative
+   *
+   * @throws {BadRequestException} Si la langue ou la catégorie est introuvable,
+   * ou si les mots disponibles ne permettent aucune question
+   */
+  async generate(
+    userId: string,
+    dto: GenerateQuizDto
+  ): Promise<{ attemptId: string; questions: QuizQuestion[] }> {
+    const types = await this.validate(dto);
+    const count = dto.count || 10;
+
+    const words = await this.wordRepository.sampleApproved(
+      { languageId: dto.languageId, categoryId: dto.categoryId },
+      Math.min(
+        QuizService.MAX_POOL,
+        Math.max(QuizService.MIN_POOL, count * QuizService.POOL_FACTOR)
+      )
+    );
+    const pool = words.map((word) =>
+      QuizService.toQuizWord(word, dto.targetLanguageId)
+    );
+
+    // Types en alternance : chaque mot reçoit le premier type possible
+    // à partir de celui de son tour
+    const items: QuizAttemptItem[] = [];
+    for (const word of pool) {
+      if (items.length === count) {
+        break;
+      }
+      for (let shift = 0; shift < types.length; shift++) {
+        const type = types[(items.length + shift) % types.length];
+        const item = QuizGenerator.build(type, word, pool);
+        if (item) {
+          items.push(item);
+          break;
+        }
+      }
+    }
+
+    if (!items.length) {
+      throw new BadRequestException(
+        "Pas assez de mots approuvés pour générer ce quiz"
+      );
+    }
+
+    const attempt = await this.quizAttemptRepository.create({
+      userId,
+      languageId: dto.languageId,
+      targetLanguageId: dto.targetLanguageId,
+      categoryId: dto.categoryId,
+      items,
+    });
+
+    const attemptId = String((attempt as any)._id);
+    return {
+      attemptId,
+      questions: attempt.items.map(
+        ({ type, prompt, audioUrl, options }, index) => ({
+          type,
+          prompt,
+          // L'URL de stockage contient le mot : l'audio est relayé par l'API
+          audioUrl: audioUrl
+            ? `/api/quiz/${attemptId}/questions/${index}/audio`
+            : undefined,
+          options,
+        })
+      ),
+    };
+  }
+
+  /**
+   * Corriger une tentative, attribuer l'XP et vérifier les achievements
+   *
+   * Un échec de la gamification n'annule pas la correction.
+   *
+   * @throws {BadRequestException} Si la tentative est déjà corrigée ou si
+   * le nombre de réponses ne correspond pas
+   */
+  async submit(
+    userId: string,
+    attemptId: string,
+    dto: SubmitQuizDto
+  ): Promise<QuizResult> {
+    const attempt = await this.quizAttemptRepository.findById(attemptId);
+    if (!attempt || String(attempt.userId) !== userId) {
+      throw new NotFoundException(`Quiz ${attemptId} introuvable`);
+    }
+    if (attempt.status !== "in_progress") {
+      throw new BadRequestException("Ce quiz a déjà été corrigé");
+    }
+    if (dto.answers.length !== attempt.items.length) {
+      throw new BadRequestException(
+        `${attempt.items.length} réponse(s) attendue(s)`
+      );
+    }
+
+    const items = attempt.items.map((item, index) => {
+      const answer = dto.answers[index];
+      const answered = answer >= 0 && answer < item.options.length;
+      return {
+        ...item,
+        answerIndex: answered ? answer : undefined,
+        correct: answered && answer === item.correctIndex,
+      };
+    });
+    const correctCount = items.filter((item) => item.correct).length;
+    const score = Math.round((correctCount / items.length) * 100);
+
+    const completed = await this.quizAttemptRepository.complete(attemptId, {
+      items,
+      correctCount,
+      score,
+      durationMs: dto.durationMs,
+    });
+    if (!completed) {
+      throw new BadRequestException("Ce quiz a déjà été corrigé");
+    }
+
+    const xpAwarded = await this.awardXp(userId, attemptId, completed);
+    const newAchievements = await this.checkAchievements(userId);
+
+    return {
+      attemptId,
+      score,
+      correctCount,
+      total: items.length,
+      xpAwarded,
+      newAchievements,
+      corrections: items.map(
+        ({
+          type,
+          wordId,
+          correctIndex,
+          answerIndex,
+          explanation,
+          correct,
+        }) => ({
+          type,
+          wordId: String(wordId),
+          correctIndex,
+          answerIndex,
+          explanation,
+          correct,
+        })
+      ),
+    };
+  }
+
+  /**
+   * Relayer l'enregistrement d'une question audio
+   *
+   * Seuls les fichiers du stockage audio configuré sont relus : une URL
+   * saisie librement par un contributeur n'est jamais suivie.
+   *
+   * @throws {NotFoundException} Si la tentative, la question ou l'audio
+   * est introuvable
+   */
+  async getQuestionAudio(
+    userId: string,
+    attemptId: string,
+    index: number
+  ): Promise<AudioFileStream> {
+    const attempt = await this.quizAttemptRepository.findById(attemptId);
+    if (!attempt || String(attempt.userId) !== userId) {
+      throw new NotFoundException(`Quiz ${attemptId} introuvable`);
+    }
+    const audioUrl = attempt.items[index]?.audioUrl;
+    if (!audioUrl) {
+      throw new NotFoundException("Aucun audio pour cette question");
+    }
+
+    try {
+      const audio = await this.audioStorage.open(audioUrl);
+      if (!audio) {
+        throw new Error(`hors du stockage ${this.audioStorage.name}`);
+      }
+      return audio;
+    } catch (error) {
+      this.logger.warn(
+        `Audio de la question ${index} du quiz ${attemptId} indisponible: ${error.message}`
+      );
+      throw new NotFoundException("Audio indisponible");
+    }
+  }
+
+  /**
+   * Quiz terminés de l'utilisateur
+   */
+  async getHistory(
+    userId: string,
+    page = 1,
+    limit = 20
+  ): Promise<{
+    attempts: QuizAttempt[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const { attempts, total } =
+      await this.quizAttemptRepository.findCompletedByUser(userId, {
+        page,
+        limit,
+      });
+    return { attempts, total, page, limit };
+  }
+
+  /**
+   * Scores moyens et réussite par type de question
+   */
+  async getStats(userId: string): Promise<QuizAttemptSummary> {
+    return this.quizAttemptRepository.getSummary(userId);
+  }
+
+  // ========== MÉTHODES PRIVÉES ==========
+
+  private async validate(dto: GenerateQuizDto): Promise<QuizItemType[]> {
+    const [language, targetLanguage, category] = await Promise.all([
+      this.languageRepository.findById(dto.languageId),
+      dto.targetLanguageId
+        ? this.languageRepository.findById(dto.targetLanguageId)
+        : null,
+      dto.categoryId ? this.categoryRepository.findById(dto.categoryId) : null,
+    ]);
+    if (!language || (dto.targetLanguageId && !targetLanguage)) {
+      throw new BadRequestException("Langue introuvable");
+    }
+    if (dto.categoryId && !category) {
+      throw new BadRequestException("Catégorie introuvable");
+    }
+
+    const types = (dto.types || QUIZ_ITEM_TYPES).filter(
+      (type) => type !== "translation" || !!dto.targetLanguageId
+    );
+    if (!types.length) {
+      throw new BadRequestException(
+        "Les questions de traduction nécessitent une langue cible"
+      );
+    }
+    return types;
+  }
+
+  private async awardXp(
+    userId: string,
+    attemptId: string,
+    attempt: QuizAttempt
+  ): Promise<number> {
+    if (!attempt.correctCount) {
+      return 0;
+    }
+    try {
+      const { xpGained } = await this.gamificationEngineService.addXP(
+        userId,
+        "QUIZ_COMPLETED",
+        attempt.score / 100,
+        { attemptId, score: attempt.score }
+      );
+      await this.quizAttemptRepository.setXpAwarded(attemptId, xpGained);
+      return xpGained;
+    } catch (error) {
+      this.logger.warn(
+        `XP non attribuée pour le quiz ${attemptId}: ${error.message}`
+      );
+      return 0;
+    }
+  }
+
+  private async checkAchievements(
+    userId: string
+  ): Promise<Array<{ id: string; name: string }>> {
+    try {
+      const { newAchievements } =
+        await this.achievementsService.checkAndUpdateProgress(userId);
+      return newAchievements.map(({ id, name }) => ({ id, name }));
+    } catch (error) {
+      this.logger.warn(
+        `Achievements non vérifiés pour ${userId}: ${error.message}`
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Réduire un mot aux données utiles aux questions
+   */
+  private static toQuizWord(word: Word, targetLanguageId?: string): QuizWord {
+    const meanings = word.meanings || [];
+    const definitions = meanings.flatMap(
+      (meaning) => meaning.definitions || []
+    );
+    const examples = [
+      ...definitions.flatMap((definition) => definition.examples || []),
+      ...meanings.flatMap((meaning) => meaning.examples || []),
+    ];
+    const translation = targetLanguageId
+      ? (word.translations || []).find(
+          (candidate) => String(candidate.languageId) === targetLanguageId
+        )
+      : undefined;
+    const recordings = Object.values(word.audioFiles || {}) as Array<{
+      url?: string;
+    }>;
+    const phonetic = meanings
+      .flatMap((meaning) => meaning.phonetics || [])
+      .find((candidate) => candidate.audio?.url);
+
+    return {
+      id: String((word as any)._id),
+      word: word.word,
+      categoryId: word.categoryId ? String(word.categoryId) : undefined,
+      partOfSpeech: meanings[0]?.partOfSpeech,
+      definition: definitions[0]?.definition,
+      example: examples.find((example) =>
+        QuizGenerator.blank(example, word.word)
+      ),
+      translation: translation?.translatedWord,
+      audioUrl:
+        recordings.find((recording) => recording?.url)?.url ||
+        phonetic?.audio.url,
+    };
+  }
+}
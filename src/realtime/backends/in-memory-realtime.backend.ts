@@ -0,0 +1,101 @@
+import { RealtimeBackend, RealtimeMember } from "../realtime.types";
+
+/**
+ * Backend temps réel limité au processus
+ *
+ * Utilisé sans `REDIS_URL` (une seule instance) et dans les tests. Deux
+ * adaptateurs partageant le même backend se comportent comme deux
+ * instances reliées.
+ */
+export class InMemoryRealtimeBackend implements RealtimeBackend {
+  readonly name = "memory";
+
+  private readonly listeners = new Map<
+    string,
+    Set<(message: string) => void>
+  >();
+
+  private readonly sets = new Map<
+    string,
+    Map<string, { data: Record<string, any>; expiresAt: number }>
+  >();
+
+  async publish(channel: string, message: string): Promise<void> {
+    for (const listener of this.listeners.get(channel) || []) {
+      // Livraison asynchrone, comme un vrai broker
+      setImmediate(() => listener(message));
+    }
+  }
+
+  async subscribe(
+    channel: string,
+    listener: (message: string) => void
+  ): Promise<void> {
+    if (!this.listeners.has(channel)) {
+      this.listeners.set(channel, new Set());
+    }
+    this.listeners.get(channel)!.add(listener);
+  }
+
+  async unsubscribe(
+    channel: string,
+    listener: (message: string) => void
+  ): Promise<void> {
+    this.listeners.get(channel)?.delete(listener);
+  }
+
+  async setMember(
+    set: string,
+    member: string,
+    data: Record<string, any>,
+    ttlMs: number
+  ): Promise<void> {
+    if (!this.sets.has(set)) {
+      this.sets.set(set, new Map());
+    }
+    this.sets.get(set)!.set(member, { data, expiresAt: Date.now() + ttlMs });
+  }
+
+  async removeMember(set: string, member: string): Promise<void> {
+    const members = this.sets.get(set);
+    members?.delete(member);
+    if (members && !members.size) {
+      this.sets.delete(set);
+    }
+  }
+
+  async getMember<T = Record<string, any>>(
+    set: string,
+    member: string
+  ): Promise<T | null> {
+    const entry = this.sets.get(set)?.get(member);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      return null;
+    }
+    return entry.data as T;
+  }
+
+  async listMembers<T = Record<string, any>>(
+    set: string
+  ): Promise<RealtimeMember<T>[]> {
+    const members = this.sets.get(set);
+    if (!members) {
+      return [];
+    }
+    const now = Date.now();
+    const live: RealtimeMember<T>[] = [];
+    for (const [member, entry] of members.entries()) {
+      if (entry.expiresAt <= now) {
+        members.delete(member);
+      } else {
+        live.push({ member, data: entry.data as T });
+      }
+    }
+    return live;
+  }
+
+  async close(): Promise<void> {
+    this.listeners.clear();
+    this.sets.clear();
+  }
+}
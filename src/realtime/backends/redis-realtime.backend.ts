@@ -0,0 +1,139 @@
+import Redis from "ioredis";
+import { RealtimeBackend, RealtimeMember } from "../realtime.types";
+
+/**
+ * Backend temps réel partagé par les instances via Redis
+ *
+ * Un ensemble est stocké en deux clés : un ensemble trié dont le score
+ * est la date d'expiration de chaque membre, et un hash de leurs
+ * données. Les membres d'un même ensemble ont la même durée de vie ; les
+ * deux clés expirent avec le dernier membre renouvelé. Clés et canaux
+ * sont préfixés. La réception des messages utilise une connexion
+ * dédiée, Redis réservant une connexion abonnée aux commandes de
+ * publication/abonnement.
+ */
+export class RedisRealtimeBackend implements RealtimeBackend {
+  readonly name = "redis";
+
+  private readonly subscriber: Redis;
+
+  private readonly listeners = new Map<
+    string,
+    Set<(message: string) => void>
+  >();
+
+  constructor(
+    private readonly redis: Redis,
+    private readonly prefix = "oypunu:realtime:"
+  ) {
+    this.subscriber = redis.duplicate();
+    this.subscriber.on("message", (channel: string, message: string) => {
+      for (const listener of this.listeners.get(channel) || []) {
+        listener(message);
+      }
+    });
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    await this.redis.publish(this.prefix + channel, message);
+  }
+
+  async subscribe(
+    channel: string,
+    listener: (message: string) => void
+  ): Promise<void> {
+    const key = this.prefix + channel;
+    if (!this.listeners.has(key)) {
+      this.listeners.set(key, new Set());
+      await this.subscriber.subscribe(key);
+    }
+    this.listeners.get(key)!.add(listener);
+  }
+
+  async unsubscribe(
+    channel: string,
+    listener: (message: string) => void
+  ): Promise<void> {
+    const key = this.prefix + channel;
+    const listeners = this.listeners.get(key);
+    listeners?.delete(listener);
+    if (listeners && !listeners.size) {
+      this.listeners.delete(key);
+      await this.subscriber.unsubscribe(key);
+    }
+  }
+
+  async setMember(
+    set: string,
+    member: string,
+    data: Record<string, any>,
+    ttlMs: number
+  ): Promise<void> {
+    const [key, dataKey] = this.keysOf(set);
+    await this.redis
+      .multi()
+      .zadd(key, Date.now() + ttlMs, member)
+      .hset(dataKey, member, JSON.stringify(data))
+      .pexpire(key, ttlMs)
+      .pexpire(dataKey, ttlMs)
+      .exec();
+  }
+
+  async removeMember(set: string, member: string): Promise<void> {
+    const [key, dataKey] = this.keysOf(set);
+    await this.redis.multi().zrem(key, member).hdel(dataKey, member).exec();
+  }
+
+  async getMember<T = Record<string, any>>(
+    set: string,
+    member: string
+  ): Promise<T | null> {
+    const [key, dataKey] = this.keysOf(set);
+    const expiresAt = await this.redis.zscore(key, member);
+    if (!expiresAt || Number(expiresAt) <= Date.now()) {
+      return null;
+    }
+    const data = await this.redis.hget(dataKey, member);
+    return data ? (JSON.parse(data) as T) : null;
+  }
+
+  async listMembers<T = Record<string, any>>(
+    set: string
+  ): Promise<RealtimeMember<T>[]> {
+    const [key, dataKey] = this.keysOf(set);
+    const now = Date.now();
+
+    const expired = await this.redis.zrangebyscore(key, "-inf", now);
+    if (expired.length) {
+      await this.redis
+        .multi()
+        .zrem(key, ...expired)
+        .hdel(dataKey, ...expired)
+        .exec();
+    }
+
+    const members = await this.redis.zrangebyscore(key, `(${now}`, "+inf");
+    if (!members.length) {
+      return [];
+    }
+    const data = await this.redis.hmget(dataKey, ...members);
+    return members
+      .map((member, position) => ({ member, data: data[position] }))
+      .filter((entry): entry is { member: string; data: string } =>
+        Boolean(entry.data)
+      )
+      .map(({ member, data: json }) => ({
+        member,
+        data: JSON.parse(json) as T,
+      }));
+  }
+
+  async close(): Promise<void> {
+    this.listeners.clear();
+    await Promise.all([this.subscriber.quit(), this.redis.quit()]);
+  }
+
+  private keysOf(set: string): [string, string] {
+    return [`${this.prefix}${set}`, `${this.prefix}${set}:data`];
+  }
+}
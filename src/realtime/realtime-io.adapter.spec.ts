@@ -0,0 +1,73 @@
+import { Server } from "socket.io";
+import { PubSubClusterAdapter } from "./realtime-io.adapter";
+import { InMemoryRealtimeBackend } from "./backends/in-memory-realtime.backend";
+
+describe("PubSubClusterAdapter", () => {
+  let backend: InMemoryRealtimeBackend;
+  let servers: Server[];
+  let namespaces: any[];
+
+  // Deux serveurs Socket.IO reliés par le même backend, comme deux instances
+  function createServer(): Server {
+    const server = new Server();
+    server.adapter(
+      class extends PubSubClusterAdapter {
+        constructor(nsp: any) {
+          super(nsp, backend);
+        }
+      } as any
+    );
+    servers.push(server);
+    return server;
+  }
+
+  function createNamespace(name: string) {
+    const namespace = createServer().of(name);
+    namespaces.push(namespace);
+    return namespace;
+  }
+
+  beforeEach(() => {
+    backend = new InMemoryRealtimeBackend();
+    servers = [];
+    namespaces = [];
+  });
+
+  afterEach(() => {
+    for (const namespace of namespaces) {
+      namespace.adapter.close();
+    }
+    for (const server of servers) {
+      server.of("/").adapter.close();
+    }
+  });
+
+  it("should deliver server-side events to the other instances of the namespace", async () => {
+    const first = createNamespace("/messaging");
+    const second = createNamespace("/messaging");
+    const other = createNamespace("/activities");
+
+    const otherListener = jest.fn();
+    other.on("presence_changed", otherListener);
+    const received = new Promise((resolve) =>
+      second.on("presence_changed", resolve)
+    );
+
+    first.serverSideEmit("presence_changed", { userId: "alice" });
+
+    await expect(received).resolves.toEqual({ userId: "alice" });
+    expect(otherListener).not.toHaveBeenCalled();
+  });
+
+  it("should discover the other instances through heartbeats", async () => {
+    const first = createNamespace("/messaging");
+    createNamespace("/messaging");
+
+    await new Promise((resolve) => setImmediate(resolve));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    await expect(
+      (first.adapter as PubSubClusterAdapter).serverCount()
+    ).resolves.toBe(2);
+  });
+});
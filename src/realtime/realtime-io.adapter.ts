@@ -0,0 +1,104 @@
+import { INestApplicationContext } from "@nestjs/common";
+import { IoAdapter } from "@nestjs/platform-socket.io";
+import { ServerOptions } from "socket.io";
+import {
+  ClusterAdapterWithHeartbeat,
+  ClusterMessage,
+  ClusterResponse,
+  Offset,
+  ServerId,
+} from "socket.io-adapter";
+import { RealtimeBackend } from "./realtime.types";
+
+/**
+ * Les paquets Socket.IO peuvent contenir des Buffers, que JSON
+ * sérialise en `{ type: "Buffer", data: [...] }`
+ */
+function decode<T>(raw: string): T {
+  return JSON.parse(raw, (_key, value) =>
+    value && value.type === "Buffer" && Array.isArray(value.data)
+      ? Buffer.from(value.data)
+      : value
+  ) as T;
+}
+
+/**
+ * Adaptateur Socket.IO reliant les instances par le backend temps réel
+ *
+ * Diffusions, rooms (`socketsJoin`, `socketsLeave`), `fetchSockets` et
+ * `serverSideEmit` s'appliquent à toutes les instances : chaque espace de
+ * noms publie sur son canal, et les réponses sont adressées au canal de
+ * l'instance qui les attend. Les battements de cœur détectent les
+ * instances arrêtées.
+ */
+export class PubSubClusterAdapter extends ClusterAdapterWithHeartbeat {
+  private readonly channel: string;
+
+  private readonly responseChannel: string;
+
+  private readonly onChannelMessage = (raw: string) =>
+    this.onMessage(decode<ClusterMessage>(raw));
+
+  private readonly onChannelResponse = (raw: string) =>
+    this.onResponse(decode<ClusterResponse>(raw));
+
+  constructor(
+    nsp: any,
+    private readonly backend: RealtimeBackend
+  ) {
+    super(nsp, {});
+    this.channel = `socket.io#${nsp.name}#`;
+    this.responseChannel = `${this.channel}${this.uid}#`;
+    void this.backend.subscribe(this.channel, this.onChannelMessage);
+    void this.backend.subscribe(this.responseChannel, this.onChannelResponse);
+    // Socket.IO n'appelle pas `init()` : premier battement de cœur
+    this.init();
+  }
+
+  close(): void {
+    super.close();
+    void this.backend.unsubscribe(this.channel, this.onChannelMessage);
+    void this.backend.unsubscribe(this.responseChannel, this.onChannelResponse);
+  }
+
+  protected async doPublish(message: ClusterMessage): Promise<Offset> {
+    await this.backend.publish(this.channel, JSON.stringify(message));
+    return "";
+  }
+
+  protected async doPublishResponse(
+    requesterUid: ServerId,
+    response: ClusterResponse
+  ): Promise<void> {
+    await this.backend.publish(
+      `${this.channel}${requesterUid}#`,
+      JSON.stringify(response)
+    );
+  }
+}
+
+/**
+ * Adaptateur WebSocket NestJS installant {@link PubSubClusterAdapter} sur
+ * le serveur Socket.IO partagé par les gateways
+ */
+export class RealtimeIoAdapter extends IoAdapter {
+  constructor(
+    app: INestApplicationContext,
+    private readonly backend: RealtimeBackend
+  ) {
+    super(app);
+  }
+
+  createIOServer(port: number, options?: ServerOptions): any {
+    const server = super.createIOServer(port, options);
+    const backend = this.backend;
+    server.adapter(
+      class extends PubSubClusterAdapter {
+        constructor(nsp: any) {
+          super(nsp, backend);
+        }
+      }
+    );
+    return server;
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * @fileoverview Module de la couche temps réel partagée pour O'Ypunu
+ *
+ * Ce module relie les gateways WebSocket de plusieurs instances de
+ * l'application : diffusion Socket.IO entre instances et état partagé de
+ * présence, de frappe et de connexion.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { Global, Inject, Module, OnApplicationShutdown } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { createRedisConnection } from "@nestjs-modules/ioredis";
+import Redis from "ioredis";
+import { REALTIME_BACKEND, RealtimeBackend } from "./realtime.types";
+import { InMemoryRealtimeBackend } from "./backends/in-memory-realtime.backend";
+import { RedisRealtimeBackend } from "./backends/redis-realtime.backend";
+import { PresenceService } from "./services/presence.service";
+
+/**
+ * Module temps réel O'Ypunu
+ *
+ * ## 📡 Fonctionnalités principales :
+ * - **Backend** : Redis (`REALTIME_BACKEND=redis`, connexion `REDIS_URL`)
+ *   ou mémoire du processus (par défaut, une seule instance)
+ * - **Adaptateur** : RealtimeIoAdapter, installé dans `main.ts`, diffuse
+ *   les événements des gateways `/messaging` et `/activities` à toutes
+ *   les instances
+ * - **Présence** : PresenceService - statuts, frappe et connexions avec
+ *   durée de vie
+ *
+ * Global : les gateways et services de messagerie injectent
+ * PresenceService sans importer le module.
+ *
+ * @module RealtimeModule
+ * @version 1.0.0
+ */
+@Global()
+@Module({
+  providers: [
+    {
+      provide: REALTIME_BACKEND,
+      useFactory: (configService: ConfigService): RealtimeBackend =>
+        configService.get<string>("REALTIME_BACKEND") === "redis"
+          ? new RedisRealtimeBackend(
+              createRedisConnection({
+                type: "single",
+                url:
+                  configService.get<string>("REDIS_URL") ||
+                  "redis://localhost:6379",
+              }) as Redis
+            )
+          : new InMemoryRealtimeBackend(),
+      inject: [ConfigService],
+    },
+    PresenceService,
+  ],
+  exports: [REALTIME_BACKEND, PresenceService],
+})
+export class RealtimeModule implements OnApplicationShutdown {
+  constructor(@Inject(REALTIME_BACKEND) private backend: RealtimeBackend) {}
+
+  async onApplicationShutdown(): Promise<void> {
+    await this.backend.close();
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * @fileoverview Types partagés par la couche temps réel
+ *
+ * Les gateways Socket.IO de plusieurs instances communiquent par un
+ * backend de publication/abonnement, qui conserve aussi l'état partagé
+ * à durée de vie limitée (présence, frappe, connexions). Le backend est
+ * injecté par jeton : Redis en production, mémoire en développement et
+ * dans les tests.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+/** Jeton d'injection du backend temps réel */
+export const REALTIME_BACKEND = "REALTIME_BACKEND";
+
+/**
+ * Membre d'un ensemble partagé, avec ses données
+ */
+export interface RealtimeMember<T = Record<string, any>> {
+  member: string;
+  data: T;
+}
+
+/**
+ * Publication/abonnement entre instances et ensembles partagés dont les
+ * membres expirent
+ */
+export interface RealtimeBackend {
+  readonly name: string;
+
+  /**
+   * Publie un message à toutes les instances abonnées au canal, y compris
+   * celle qui publie
+   */
+  publish(channel: string, message: string): Promise<void>;
+
+  subscribe(
+    channel: string,
+    listener: (message: string) => void
+  ): Promise<void>;
+
+  unsubscribe(
+    channel: string,
+    listener: (message: string) => void
+  ): Promise<void>;
+
+  /**
+   * Ajoute ou remplace un membre d'un ensemble, qui expire après `ttlMs`
+   * s'il n'est pas renouvelé
+   */
+  setMember(
+    set: string,
+    member: string,
+    data: Record<string, any>,
+    ttlMs: number
+  ): Promise<void>;
+
+  removeMember(set: string, member: string): Promise<void>;
+
+  getMember<T = Record<string, any>>(
+    set: string,
+    member: string
+  ): Promise<T | null>;
+
+  /**
+   * Membres non expirés d'un ensemble
+   */
+  listMembers<T = Record<string, any>>(
+    set: string
+  ): Promise<RealtimeMember<T>[]>;
+
+  close(): Promise<void>;
+}
@@ -0,0 +1,99 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { PresenceService, TYPING_TTL_MS } from "./presence.service";
+import { InMemoryRealtimeBackend } from "../backends/in-memory-realtime.backend";
+import { REALTIME_BACKEND } from "../realtime.types";
+
+describe("PresenceService", () => {
+  let backend: InMemoryRealtimeBackend;
+  let instanceA: PresenceService;
+  let instanceB: PresenceService;
+
+  // Deux instances de l'application partageant le même backend
+  async function createInstance(): Promise<PresenceService> {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PresenceService,
+        { provide: REALTIME_BACKEND, useValue: backend },
+      ],
+    }).compile();
+    return module.get<PresenceService>(PresenceService);
+  }
+
+  beforeEach(async () => {
+    backend = new InMemoryRealtimeBackend();
+    instanceA = await createInstance();
+    instanceB = await createInstance();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should keep a user online until their last connection closes on any instance", async () => {
+    await expect(instanceA.userConnected("alice", "socket-a")).resolves.toBe(
+      true
+    );
+    await expect(instanceB.userConnected("alice", "socket-b")).resolves.toBe(
+      false
+    );
+
+    await expect(instanceA.userDisconnected("alice", "socket-a")).resolves.toBe(
+      false
+    );
+    expect(await instanceA.listOnline()).toEqual([
+      expect.objectContaining({ userId: "alice", status: "online" }),
+    ]);
+
+    await expect(instanceB.userDisconnected("alice", "socket-b")).resolves.toBe(
+      true
+    );
+    expect(await instanceA.listOnline()).toEqual([]);
+    expect((await instanceA.getPresence("alice"))!.status).toBe("offline");
+  });
+
+  it("should share statuses between instances and keep them on reconnection", async () => {
+    await instanceA.setStatus("bob", "busy", "En réunion");
+    await instanceB.userConnected("bob", "socket-b");
+
+    expect(await instanceA.getPresence("bob")).toEqual(
+      expect.objectContaining({ status: "busy", customMessage: "En réunion" })
+    );
+  });
+
+  it("should expire typing indicators and clear them when the user goes offline", async () => {
+    jest.useFakeTimers({ doNotFake: ["setImmediate"] });
+    await instanceA.startTyping("conversation-1", "alice");
+    await instanceA.startTyping("conversation-2", "alice");
+    await instanceB.startTyping("conversation-1", "bob");
+
+    expect(await instanceB.getTypingUsers("conversation-1")).toEqual([
+      "alice",
+      "bob",
+    ]);
+
+    await instanceB.setStatus("alice", "offline");
+    expect(await instanceA.getTypingUsers("conversation-1")).toEqual(["bob"]);
+    expect(await instanceA.getTypingUsers("conversation-2")).toEqual([]);
+
+    jest.advanceTimersByTime(TYPING_TTL_MS + 1);
+    expect(await instanceA.getTypingUsers("conversation-1")).toEqual([]);
+  });
+
+  it("should count connections of every instance", async () => {
+    await instanceA.trackConnection("activities", "socket-1", {
+      userRegion: "GA",
+    });
+    await instanceB.trackConnection("activities", "socket-2", {
+      userRegion: "CM",
+    });
+    await instanceB.untrackConnection("activities", "socket-2");
+    await instanceB.trackConnection("activities", "socket-3", {
+      userRegion: "GA",
+    });
+
+    expect(await instanceA.listConnections("activities")).toEqual([
+      { userRegion: "GA" },
+      { userRegion: "GA" },
+    ]);
+  });
+});
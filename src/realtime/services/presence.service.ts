@@ -0,0 +1,259 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from "@nestjs/common";
+import { REALTIME_BACKEND, RealtimeBackend } from "../realtime.types";
+
+export type PresenceStatus = "online" | "away" | "busy" | "offline";
+
+export interface UserPresence {
+  userId: string;
+  status: PresenceStatus;
+  lastSeen: Date;
+  customMessage?: string;
+}
+
+/** Durée après laquelle un utilisateur sans nouvelles est oublié */
+export const PRESENCE_TTL_MS = 5 * 60 * 1000;
+
+/** Durée d'une indication de frappe sans renouvellement */
+export const TYPING_TTL_MS = 10 * 1000;
+
+/** Durée d'une connexion WebSocket sans battement de cœur */
+export const CONNECTION_TTL_MS = 90 * 1000;
+
+/** Intervalle de renouvellement des connexions de l'instance */
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+type StoredPresence = {
+  status: PresenceStatus;
+  lastSeen: string;
+  customMessage?: string;
+};
+
+/**
+ * Service de présence partagé entre les instances
+ *
+ * Statuts, indications de frappe et connexions WebSocket sont conservés
+ * dans le backend temps réel avec une durée de vie : chaque instance
+ * renouvelle périodiquement ses propres connexions, de sorte que celles
+ * d'une instance arrêtée expirent d'elles-mêmes. Un utilisateur passe
+ * hors ligne quand sa dernière connexion, toutes instances confondues,
+ * se ferme.
+ */
+@Injectable()
+export class PresenceService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(PresenceService.name);
+
+  /** Connexions ouvertes sur cette instance, renouvelées par le battement */
+  private readonly localSockets = new Map<
+    string,
+    { set: string; data: Record<string, any>; userId?: string }
+  >();
+
+  private heartbeatInterval: NodeJS.Timeout;
+
+  constructor(@Inject(REALTIME_BACKEND) private backend: RealtimeBackend) {}
+
+  onModuleInit(): void {
+    this.heartbeatInterval = setInterval(() => {
+      this.heartbeat().catch((error) =>
+        this.logger.warn(`Battement de présence impossible: ${error.message}`)
+      );
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.heartbeatInterval);
+  }
+
+  // ========== PRÉSENCE ==========
+
+  /**
+   * Enregistre une connexion de l'utilisateur
+   *
+   * @returns `true` si l'utilisateur était hors ligne
+   */
+  async userConnected(userId: string, socketId: string): Promise<boolean> {
+    const set = `presence:sockets:${userId}`;
+    this.localSockets.set(socketId, { set, data: {}, userId });
+    await this.backend.setMember(set, socketId, {}, CONNECTION_TTL_MS);
+
+    const presence = await this.getPresence(userId);
+    if (!presence || presence.status === "offline") {
+      await this.setStatus(userId, "online");
+      return true;
+    }
+    await this.setStatus(userId, presence.status, presence.customMessage);
+    return false;
+  }
+
+  /**
+   * Retire une connexion de l'utilisateur
+   *
+   * @returns `true` si c'était sa dernière connexion (il passe hors ligne)
+   */
+  async userDisconnected(userId: string, socketId: string): Promise<boolean> {
+    const set = `presence:sockets:${userId}`;
+    this.localSockets.delete(socketId);
+    await this.backend.removeMember(set, socketId);
+
+    if ((await this.backend.listMembers(set)).length) {
+      return false;
+    }
+    await this.setStatus(userId, "offline");
+    return true;
+  }
+
+  /**
+   * Met à jour le statut ; un utilisateur hors ligne cesse d'écrire
+   */
+  async setStatus(
+    userId: string,
+    status: PresenceStatus,
+    customMessage?: string
+  ): Promise<UserPresence> {
+    const stored: StoredPresence = {
+      status,
+      lastSeen: new Date().toISOString(),
+      customMessage,
+    };
+    await this.backend.setMember("presence", userId, stored, PRESENCE_TTL_MS);
+    if (status === "offline") {
+      await this.clearTyping(userId);
+    }
+    return PresenceService.toPresence(userId, stored);
+  }
+
+  async getPresence(userId: string): Promise<UserPresence | null> {
+    const stored = await this.backend.getMember<StoredPresence>(
+      "presence",
+      userId
+    );
+    return stored ? PresenceService.toPresence(userId, stored) : null;
+  }
+
+  /**
+   * Utilisateurs en ligne, absents ou occupés sur l'ensemble des instances
+   */
+  async listOnline(): Promise<UserPresence[]> {
+    const members = await this.backend.listMembers<StoredPresence>("presence");
+    return members
+      .filter(({ data }) => data.status !== "offline")
+      .map(({ member, data }) => PresenceService.toPresence(member, data));
+  }
+
+  // ========== FRAPPE ==========
+
+  async startTyping(conversationId: string, userId: string): Promise<void> {
+    await Promise.all([
+      this.backend.setMember(
+        `typing:${conversationId}`,
+        userId,
+        {},
+        TYPING_TTL_MS
+      ),
+      this.backend.setMember(
+        `typing:users:${userId}`,
+        conversationId,
+        {},
+        TYPING_TTL_MS
+      ),
+    ]);
+  }
+
+  async stopTyping(conversationId: string, userId: string): Promise<void> {
+    await Promise.all([
+      this.backend.removeMember(`typing:${conversationId}`, userId),
+      this.backend.removeMember(`typing:users:${userId}`, conversationId),
+    ]);
+  }
+
+  async getTypingUsers(conversationId: string): Promise<string[]> {
+    const members = await this.backend.listMembers(`typing:${conversationId}`);
+    return members.map(({ member }) => member);
+  }
+
+  // ========== CONNEXIONS ==========
+
+  /**
+   * Enregistre une connexion à un espace de noms, avec ses métadonnées
+   */
+  async trackConnection(
+    namespace: string,
+    socketId: string,
+    data: Record<string, any>
+  ): Promise<void> {
+    const set = `connections:${namespace}`;
+    this.localSockets.set(socketId, { set, data });
+    await this.backend.setMember(set, socketId, data, CONNECTION_TTL_MS);
+  }
+
+  async untrackConnection(namespace: string, socketId: string): Promise<void> {
+    this.localSockets.delete(socketId);
+    await this.backend.removeMember(`connections:${namespace}`, socketId);
+  }
+
+  /**
+   * Connexions à un espace de noms sur l'ensemble des instances
+   */
+  async listConnections<T = Record<string, any>>(
+    namespace: string
+  ): Promise<T[]> {
+    const members = await this.backend.listMembers<T>(
+      `connections:${namespace}`
+    );
+    return members.map(({ data }) => data);
+  }
+
+  /**
+   * Renouvelle les connexions de l'instance et la présence de leurs
+   * utilisateurs
+   */
+  private async heartbeat(): Promise<void> {
+    const userIds = new Set<string>();
+    for (const [socketId, socket] of this.localSockets.entries()) {
+      await this.backend.setMember(
+        socket.set,
+        socketId,
+        socket.data,
+        CONNECTION_TTL_MS
+      );
+      if (socket.userId) {
+        userIds.add(socket.userId);
+      }
+    }
+    for (const userId of userIds) {
+      const presence = await this.getPresence(userId);
+      await this.setStatus(
+        userId,
+        presence && presence.status !== "offline" ? presence.status : "online",
+        presence?.customMessage
+      );
+    }
+  }
+
+  private async clearTyping(userId: string): Promise<void> {
+    const conversations = await this.backend.listMembers(
+      `typing:users:${userId}`
+    );
+    await Promise.all(
+      conversations.map(({ member }) => this.stopTyping(member, userId))
+    );
+  }
+
+  private static toPresence(
+    userId: string,
+    stored: StoredPresence
+  ): UserPresence {
+    return {
+      userId,
+      status: stored.status,
+      lastSeen: new Date(stored.lastSeen),
+      customMessage: stored.customMessage,
+    };
+  }
+}
@@ -0,0 +1,120 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, Types } from "mongoose";
+import {
+  AutoModerationConfig,
+  AutoModerationConfigDocument,
+} from "../../moderation/schemas/auto-moderation-config.schema";
+import { IAutoModerationConfigRepository } from "../interfaces/auto-moderation-config.repository.interface";
+import { AutoModerationRules } from "../../common/utils/moderation-rules.util";
+import { DatabaseErrorHandler } from "../../common/errors";
+
+/**
+ * 📦 REPOSITORY AUTO MODERATION CONFIG - IMPLÉMENTATION MONGOOSE
+ *
+ * Implémentation concrète du repository AutoModerationConfig utilisant Mongoose.
+ */
+@Injectable()
+export class AutoModerationConfigRepository
+  implements IAutoModerationConfigRepository
+{
+  constructor(
+    @InjectModel(AutoModerationConfig.name)
+    private autoModerationConfigModel: Model<AutoModerationConfigDocument>
+  ) {}
+
+  async findActive(): Promise<AutoModerationConfig | null> {
+    return DatabaseErrorHandler.handleFindOperation(async () => {
+      return this.autoModerationConfigModel
+        .findOne({ isActive: true })
+        .sort({ activatedAt: -1 })
+        .lean<AutoModerationConfig>()
+        .exec();
+    }, "AutoModerationConfig");
+  }
+
+  async findByVersion(version: number): Promise<AutoModerationConfig | null> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        return this.autoModerationConfigModel
+          .findOne({ version })
+          .lean<AutoModerationConfig>()
+          .exec();
+      },
+      "AutoModerationConfig",
+      String(version)
+    );
+  }
+
+  async listVersions(limit: number): Promise<AutoModerationConfig[]> {
+    return DatabaseErrorHandler.handleFindOperation(async () => {
+      return this.autoModerationConfigModel
+        .find()
+        .sort({ version: -1 })
+        .limit(limit)
+        .lean<AutoModerationConfig[]>()
+        .exec();
+    }, "AutoModerationConfig");
+  }
+
+  async createVersion(
+    rules: AutoModerationRules,
+    createdBy: string,
+    note?: string
+  ): Promise<AutoModerationConfig> {
+    return DatabaseErrorHandler.handleCreateOperation(
+      async () => {
+        const latest = await this.autoModerationConfigModel
+          .findOne()
+          .sort({ version: -1 })
+          .select("version")
+          .lean<{ version: number }>()
+          .exec();
+
+        // L'index unique sur `version` protège des créations simultanées
+        const created = await this.autoModerationConfigModel.create({
+          version: (latest?.version || 0) + 1,
+          isActive: true,
+          rules,
+          note,
+          createdBy: new Types.ObjectId(createdBy),
+          activatedAt: new Date(),
+        });
+        await this.deactivateOthers(created.version);
+        return created.toObject() as AutoModerationConfig;
+      },
+      "AutoModerationConfig",
+      createdBy
+    );
+  }
+
+  async activate(version: number): Promise<AutoModerationConfig | null> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        const activated = await this.autoModerationConfigModel
+          .findOneAndUpdate(
+            { version },
+            { $set: { isActive: true, activatedAt: new Date() } },
+            { new: true }
+          )
+          .lean<AutoModerationConfig>()
+          .exec();
+        if (activated) {
+          await this.deactivateOthers(version);
+        }
+        return activated;
+      },
+      "AutoModerationConfig",
+      String(version)
+    );
+  }
+
+  private async deactivateOthers(version: number): Promise<void> {
+    await this.autoModerationConfigModel
+      .updateMany(
+        { version: { $ne: version }, isActive: true },
+        { $set: { isActive: false } }
+      )
+      .exec();
+  }
+}
@@ -0,0 +1,157 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, Types } from "mongoose";
+import {
+  AutoModerationDecision,
+  AutoModerationDecisionDocument,
+} from "../../moderation/schemas/auto-moderation-decision.schema";
+import {
+  AutoModerationDecisionData,
+  AutoModerationDecisionFilters,
+  IAutoModerationDecisionRepository,
+} from "../interfaces/auto-moderation-decision.repository.interface";
+import { DatabaseErrorHandler } from "../../common/errors";
+
+/**
+ * 📦 REPOSITORY AUTO MODERATION DECISION - IMPLÉMENTATION MONGOOSE
+ *
+ * Implémentation concrète du repository AutoModerationDecision utilisant Mongoose.
+ */
+@Injectable()
+export class AutoModerationDecisionRepository
+  implements IAutoModerationDecisionRepository
+{
+  constructor(
+    @InjectModel(AutoModerationDecision.name)
+    private autoModerationDecisionModel: Model<AutoModerationDecisionDocument>
+  ) {}
+
+  async create(
+    data: AutoModerationDecisionData
+  ): Promise<AutoModerationDecision> {
+    return DatabaseErrorHandler.handleCreateOperation(
+      async () => {
+        const created = await this.autoModerationDecisionModel.create({
+          ...data,
+          authorId:
+            data.authorId && Types.ObjectId.isValid(data.authorId)
+              ? new Types.ObjectId(data.authorId)
+              : undefined,
+        });
+        return created.toObject() as AutoModerationDecision;
+      },
+      "AutoModerationDecision",
+      data.contentId
+    );
+  }
+
+  async findById(id: string): Promise<AutoModerationDecision | null> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(id)) {
+          return null;
+        }
+        return this.autoModerationDecisionModel
+          .findById(id)
+          .lean<AutoModerationDecision>()
+          .exec();
+      },
+      "AutoModerationDecision",
+      id
+    );
+  }
+
+  async findMany(
+    filters: AutoModerationDecisionFilters,
+    options: { page: number; limit: number }
+  ): Promise<{ decisions: AutoModerationDecision[]; total: number }> {
+    return DatabaseErrorHandler.handleFindOperation(async () => {
+      const filter: Record<string, any> = {
+        action: filters.action || { $in: ["flag", "hide"] },
+      };
+      if (filters.contentType) {
+        filter.contentType = filters.contentType;
+      }
+      if (filters.contentId) {
+        filter.contentId = filters.contentId;
+      }
+      if (filters.status) {
+        filter.status = filters.status;
+      }
+
+      const [decisions, total] = await Promise.all([
+        this.autoModerationDecisionModel
+          .find(filter)
+          .sort({ createdAt: -1 })
+          .skip((options.page - 1) * options.limit)
+          .limit(options.limit)
+          .lean<AutoModerationDecision[]>()
+          .exec(),
+        this.autoModerationDecisionModel.countDocuments(filter).exec(),
+      ]);
+      return { decisions, total };
+    }, "AutoModerationDecision");
+  }
+
+  async attachCase(id: string, caseId: string): Promise<void> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        await this.autoModerationDecisionModel
+          .updateOne({ _id: new Types.ObjectId(id) }, { $set: { caseId } })
+          .exec();
+      },
+      "AutoModerationDecision",
+      id
+    );
+  }
+
+  async markReverted(
+    id: string,
+    revertedBy: string,
+    reason?: string
+  ): Promise<AutoModerationDecision | null> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(id)) {
+          return null;
+        }
+        return this.autoModerationDecisionModel
+          .findOneAndUpdate(
+            { _id: new Types.ObjectId(id), status: "applied" },
+            {
+              $set: {
+                status: "reverted",
+                revertedBy: new Types.ObjectId(revertedBy),
+                revertedAt: new Date(),
+                revertReason: reason,
+              },
+            },
+            { new: true }
+          )
+          .lean<AutoModerationDecision>()
+          .exec();
+      },
+      "AutoModerationDecision",
+      id,
+      revertedBy
+    );
+  }
+
+  async countRecentByAuthor(authorId: string, since: Date): Promise<number> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(authorId)) {
+          return 0;
+        }
+        return this.autoModerationDecisionModel
+          .countDocuments({
+            authorId: new Types.ObjectId(authorId),
+            createdAt: { $gte: since },
+          })
+          .exec();
+      },
+      "AutoModerationDecision",
+      authorId
+    );
+  }
+}
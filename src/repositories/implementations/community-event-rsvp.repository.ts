@@ -0,0 +1,144 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, Types } from "mongoose";
+import {
+  CommunityEventRsvp,
+  CommunityEventRsvpDocument,
+  RSVP_STATUSES,
+  RsvpStatus,
+} from "../../communities/schemas/community-event-rsvp.schema";
+import { ICommunityEventRsvpRepository } from "../interfaces/community-event-rsvp.repository.interface";
+import { DatabaseErrorHandler } from "../../common/errors";
+
+/**
+ * 📅 REPOSITORY COMMUNITY EVENT RSVP - IMPLÉMENTATION MONGOOSE
+ *
+ * Implémentation concrète du repository CommunityEventRsvp utilisant Mongoose.
+ */
+@Injectable()
+export class CommunityEventRsvpRepository
+  implements ICommunityEventRsvpRepository
+{
+  constructor(
+    @InjectModel(CommunityEventRsvp.name)
+    private communityEventRsvpModel: Model<CommunityEventRsvpDocument>
+  ) {}
+
+  async findOne(
+    eventId: string,
+    userId: string
+  ): Promise<CommunityEventRsvp | null> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        if (
+          !Types.ObjectId.isValid(eventId) ||
+          !Types.ObjectId.isValid(userId)
+        ) {
+          return null;
+        }
+        return this.communityEventRsvpModel
+          .findOne({
+            eventId: new Types.ObjectId(eventId),
+            userId: new Types.ObjectId(userId),
+          })
+          .lean<CommunityEventRsvp>()
+          .exec();
+      },
+      "CommunityEventRsvp",
+      eventId
+    );
+  }
+
+  async upsert(
+    eventId: string,
+    userId: string,
+    status: RsvpStatus,
+    waitlistedAt: Date | null = null
+  ): Promise<CommunityEventRsvp> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        return this.communityEventRsvpModel
+          .findOneAndUpdate(
+            {
+              eventId: new Types.ObjectId(eventId),
+              userId: new Types.ObjectId(userId),
+            },
+            { $set: { status, waitlistedAt } },
+            { new: true, upsert: true }
+          )
+          .lean<CommunityEventRsvp>()
+          .exec();
+      },
+      "CommunityEventRsvp",
+      eventId,
+      userId
+    );
+  }
+
+  async findByEvent(
+    eventId: string,
+    status?: RsvpStatus
+  ): Promise<CommunityEventRsvp[]> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(eventId)) {
+          return [];
+        }
+        const filter: Record<string, any> = {
+          eventId: new Types.ObjectId(eventId),
+        };
+        if (status) {
+          filter.status = status;
+        }
+        return this.communityEventRsvpModel
+          .find(filter)
+          .sort({ waitlistedAt: 1, createdAt: 1 })
+          .populate("userId", "username email")
+          .lean<CommunityEventRsvp[]>()
+          .exec();
+      },
+      "CommunityEventRsvp",
+      eventId
+    );
+  }
+
+  async countByStatus(eventId: string): Promise<Record<RsvpStatus, number>> {
+    return DatabaseErrorHandler.handleAggregationOperation(async () => {
+      const counts = Object.fromEntries(
+        RSVP_STATUSES.map((status) => [status, 0])
+      ) as Record<RsvpStatus, number>;
+      if (!Types.ObjectId.isValid(eventId)) {
+        return counts;
+      }
+      const rows = await this.communityEventRsvpModel
+        .aggregate<{
+          _id: RsvpStatus;
+          count: number;
+        }>([{ $match: { eventId: new Types.ObjectId(eventId) } }, { $group: { _id: "$status", count: { $sum: 1 } } }])
+        .exec();
+      rows.forEach((row) => {
+        counts[row._id] = row.count;
+      });
+      return counts;
+    }, "CommunityEventRsvp");
+  }
+
+  async findFirstWaitlisted(
+    eventId: string
+  ): Promise<CommunityEventRsvp | null> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        return this.communityEventRsvpModel
+          .findOne({
+            eventId: new Types.ObjectId(eventId),
+            status: "waitlisted",
+          })
+          .sort({ waitlistedAt: 1 })
+          .lean<CommunityEventRsvp>()
+          .exec();
+      },
+      "CommunityEventRsvp",
+      eventId
+    );
+  }
+}
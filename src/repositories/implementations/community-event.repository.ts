@@ -0,0 +1,242 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, Types } from "mongoose";
+import {
+  CommunityEvent,
+  CommunityEventDocument,
+  CommunityEventSummary,
+  CommunityEventType,
+} from "../../communities/schemas/community-event.schema";
+import { ICommunityEventRepository } from "../interfaces/community-event.repository.interface";
+import { DatabaseErrorHandler } from "../../common/errors";
+
+/**
+ * 📅 REPOSITORY COMMUNITY EVENT - IMPLÉMENTATION MONGOOSE
+ *
+ * Implémentation concrète du repository CommunityEvent utilisant Mongoose.
+ * Les places et les rappels sont réservés par des mises à jour
+ * conditionnelles, sans verrou.
+ */
+@Injectable()
+export class CommunityEventRepository implements ICommunityEventRepository {
+  constructor(
+    @InjectModel(CommunityEvent.name)
+    private communityEventModel: Model<CommunityEventDocument>
+  ) {}
+
+  async create(data: {
+    communityId: string;
+    createdBy: string;
+    title: string;
+    description?: string;
+    type?: CommunityEventType;
+    startsAt: Date;
+    endsAt: Date;
+    timezone: string;
+    location?: string;
+    meetingUrl?: string;
+    capacity?: number | null;
+    reminderMinutesBefore?: number;
+  }): Promise<CommunityEvent> {
+    return DatabaseErrorHandler.handleCreateOperation(
+      async () => {
+        const created = await this.communityEventModel.create({
+          ...data,
+          communityId: new Types.ObjectId(data.communityId),
+          createdBy: new Types.ObjectId(data.createdBy),
+        });
+        return created.toObject() as CommunityEvent;
+      },
+      "CommunityEvent",
+      data.createdBy
+    );
+  }
+
+  async findById(id: string): Promise<CommunityEvent | null> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(id)) {
+          return null;
+        }
+        return this.communityEventModel
+          .findById(id)
+          .lean<CommunityEvent>()
+          .exec();
+      },
+      "CommunityEvent",
+      id
+    );
+  }
+
+  async update(
+    id: string,
+    updateData: Partial<CommunityEvent>
+  ): Promise<CommunityEvent | null> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(id)) {
+          return null;
+        }
+        return this.communityEventModel
+          .findByIdAndUpdate(
+            id,
+            { $set: updateData, $inc: { sequence: 1 } },
+            { new: true }
+          )
+          .lean<CommunityEvent>()
+          .exec();
+      },
+      "CommunityEvent",
+      id
+    );
+  }
+
+  async findByCommunity(
+    communityId: string,
+    options: {
+      from?: Date;
+      to?: Date;
+      includeCancelled?: boolean;
+      limit?: number;
+    } = {}
+  ): Promise<CommunityEvent[]> {
+    return DatabaseErrorHandler.handleFindOperation(async () => {
+      if (!Types.ObjectId.isValid(communityId)) {
+        return [];
+      }
+      const filter: Record<string, any> = {
+        communityId: new Types.ObjectId(communityId),
+      };
+      if (!options.includeCancelled) {
+        filter.status = "scheduled";
+      }
+      // Un événement en cours reste visible jusqu'à sa fin
+      if (options.from) {
+        filter.endsAt = { $gte: options.from };
+      }
+      if (options.to) {
+        filter.startsAt = { $lte: options.to };
+      }
+      return this.communityEventModel
+        .find(filter)
+        .sort({ startsAt: 1 })
+        .limit(options.limit || 50)
+        .lean<CommunityEvent[]>()
+        .exec();
+    }, "CommunityEvent");
+  }
+
+  async reserveSeat(id: string): Promise<boolean> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        const result = await this.communityEventModel
+          .updateOne(
+            {
+              _id: new Types.ObjectId(id),
+              status: "scheduled",
+              $or: [
+                { capacity: null },
+                { $expr: { $lt: ["$goingCount", "$capacity"] } },
+              ],
+            },
+            { $inc: { goingCount: 1 } }
+          )
+          .exec();
+        return result.modifiedCount > 0;
+      },
+      "CommunityEvent",
+      id
+    );
+  }
+
+  async releaseSeat(id: string): Promise<void> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        await this.communityEventModel
+          .updateOne(
+            { _id: new Types.ObjectId(id), goingCount: { $gt: 0 } },
+            { $inc: { goingCount: -1 } }
+          )
+          .exec();
+      },
+      "CommunityEvent",
+      id
+    );
+  }
+
+  async findDueForReminder(
+    now: Date,
+    limit: number
+  ): Promise<CommunityEvent[]> {
+    return DatabaseErrorHandler.handleFindOperation(async () => {
+      return this.communityEventModel
+        .find({
+          status: "scheduled",
+          reminderSentAt: null,
+          startsAt: { $gt: now },
+          $expr: {
+            $lte: [
+              {
+                $subtract: [
+                  "$startsAt",
+                  { $multiply: ["$reminderMinutesBefore", 60000] },
+                ],
+              },
+              now,
+            ],
+          },
+        })
+        .sort({ startsAt: 1 })
+        .limit(limit)
+        .lean<CommunityEvent[]>()
+        .exec();
+    }, "CommunityEvent");
+  }
+
+  async claimReminder(id: string): Promise<boolean> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        const result = await this.communityEventModel
+          .updateOne(
+            { _id: new Types.ObjectId(id), reminderSentAt: null },
+            { $set: { reminderSentAt: new Date() } }
+          )
+          .exec();
+        return result.modifiedCount > 0;
+      },
+      "CommunityEvent",
+      id
+    );
+  }
+
+  async setSummary(
+    id: string,
+    summary: CommunityEventSummary
+  ): Promise<CommunityEvent | null> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        return this.communityEventModel
+          .findByIdAndUpdate(
+            id,
+            {
+              $set: {
+                summary: {
+                  ...summary,
+                  words: summary.words.map((word) => ({
+                    ...word,
+                    wordId: new Types.ObjectId(String(word.wordId)),
+                  })),
+                  recordedBy: new Types.ObjectId(String(summary.recordedBy)),
+                },
+              },
+            },
+            { new: true }
+          )
+          .lean<CommunityEvent>()
+          .exec();
+      },
+      "CommunityEvent",
+      id
+    );
+  }
+}
@@ -0,0 +1,205 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, Types } from "mongoose";
+import {
+  CorpusExample,
+  CorpusExampleDocument,
+} from "../../corpus/schemas/corpus-example.schema";
+import {
+  ICorpusExampleRepository,
+  CorpusExampleData,
+  CorpusSearchCriteria,
+} from "../interfaces/corpus-example.repository.interface";
+import { DatabaseErrorHandler } from "../../common/errors";
+
+/**
+ * 📦 REPOSITORY CORPUS EXAMPLE - IMPLÉMENTATION MONGOOSE
+ *
+ * Implémentation concrète du repository CorpusExample utilisant Mongoose.
+ */
+@Injectable()
+export class CorpusExampleRepository implements ICorpusExampleRepository {
+  constructor(
+    @InjectModel(CorpusExample.name)
+    private corpusExampleModel: Model<CorpusExampleDocument>
+  ) {}
+
+  async create(
+    data: CorpusExampleData,
+    userId: string
+  ): Promise<CorpusExample> {
+    return DatabaseErrorHandler.handleCreateOperation(
+      async () => {
+        const example = new this.corpusExampleModel({
+          ...this.toDocument(data),
+          createdBy: new Types.ObjectId(userId),
+        });
+        return example.save();
+      },
+      "CorpusExample",
+      userId
+    );
+  }
+
+  async findById(id: string): Promise<CorpusExample | null> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(id)) {
+          return null;
+        }
+        return this.populate(this.corpusExampleModel.findById(id)).exec();
+      },
+      "CorpusExample",
+      id
+    );
+  }
+
+  async update(
+    id: string,
+    data: Partial<CorpusExampleData>,
+    userId: string
+  ): Promise<CorpusExample | null> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(id)) {
+          return null;
+        }
+        return this.populate(
+          this.corpusExampleModel.findByIdAndUpdate(
+            id,
+            {
+              $set: {
+                ...this.toDocument(data),
+                updatedBy: new Types.ObjectId(userId),
+              },
+            },
+            { new: true, runValidators: true }
+          )
+        ).exec();
+      },
+      "CorpusExample",
+      id,
+      userId
+    );
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return DatabaseErrorHandler.handleDeleteOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(id)) {
+          return false;
+        }
+        const result = await this.corpusExampleModel
+          .findByIdAndDelete(id)
+          .exec();
+        return result !== null;
+      },
+      "CorpusExample",
+      id
+    );
+  }
+
+  async findByWordId(
+    wordId: string,
+    options: { page: number; limit: number }
+  ): Promise<{ examples: CorpusExample[]; total: number }> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(wordId)) {
+          return { examples: [], total: 0 };
+        }
+        return this.paginate(
+          { linkedWordIds: new Types.ObjectId(wordId) },
+          options.page,
+          options.limit
+        );
+      },
+      "CorpusExample",
+      wordId
+    );
+  }
+
+  async search(
+    criteria: CorpusSearchCriteria
+  ): Promise<{ examples: CorpusExample[]; total: number }> {
+    return DatabaseErrorHandler.handleSearchOperation(
+      async () => {
+        const filter: any = {};
+        if (criteria.morphemeKey) {
+          filter.morphemeKeys = criteria.morphemeKey;
+        }
+        if (criteria.glossTag) {
+          filter.glossTags = criteria.glossTag;
+        }
+        if (criteria.text) {
+          filter.$text = { $search: criteria.text };
+        }
+        if (criteria.languageId) {
+          if (!Types.ObjectId.isValid(criteria.languageId)) {
+            return { examples: [], total: 0 };
+          }
+          filter.languageId = new Types.ObjectId(criteria.languageId);
+        }
+
+        return this.paginate(filter, criteria.page, criteria.limit);
+      },
+      "CorpusExample",
+      criteria.morphemeKey || criteria.glossTag || criteria.text
+    );
+  }
+
+  private async paginate(
+    filter: any,
+    page: number,
+    limit: number
+  ): Promise<{ examples: CorpusExample[]; total: number }> {
+    const [examples, total] = await Promise.all([
+      this.populate(
+        this.corpusExampleModel
+          .find(filter)
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit)
+      ).exec(),
+      this.corpusExampleModel.countDocuments(filter).exec(),
+    ]);
+
+    return { examples, total };
+  }
+
+  private populate<Q extends { populate: (...args: any[]) => any }>(
+    query: Q
+  ): Q {
+    return query
+      .populate("languageId", "name nativeName iso639_1 iso639_3")
+      .populate("createdBy", "username")
+      .populate("tokens.morphemes.wordId", "word");
+  }
+
+  /**
+   * Convertit les identifiants en ObjectId pour le stockage
+   */
+  private toDocument(data: Partial<CorpusExampleData>): any {
+    const document: any = { ...data };
+    if (data.languageId) {
+      document.languageId = new Types.ObjectId(data.languageId);
+    }
+    if (data.linkedWordIds) {
+      document.linkedWordIds = data.linkedWordIds.map(
+        (wordId) => new Types.ObjectId(wordId)
+      );
+    }
+    if (data.tokens) {
+      document.tokens = data.tokens.map((token) => ({
+        ...token,
+        morphemes: token.morphemes.map((morpheme) => ({
+          ...morpheme,
+          wordId: morpheme.wordId
+            ? new Types.ObjectId(morpheme.wordId)
+            : undefined,
+        })),
+      }));
+    }
+    return document;
+  }
+}
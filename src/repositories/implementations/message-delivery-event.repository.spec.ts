@@ -0,0 +1,145 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { getModelToken } from "@nestjs/mongoose";
+import { Types } from "mongoose";
+import { MessageDeliveryEventRepository } from "./message-delivery-event.repository";
+import {
+  MESSAGE_DELIVERY_SEQUENCE_GRACE_MS,
+  MessageDeliveryEvent,
+} from "../../messaging/schemas/message-delivery-event.schema";
+import { MessageDeliverySequence } from "../../messaging/schemas/message-delivery-sequence.schema";
+
+/**
+ * 🧪 TESTS UNITAIRES - MESSAGE DELIVERY EVENT REPOSITORY
+ *
+ * Couverture :
+ * - Numérotation des événements par le compteur de chaque file
+ * - Rattrapage par numéro d'ordre
+ * - Arrêt avant un numéro réservé mais pas encore écrit
+ */
+
+describe("MessageDeliveryEventRepository", () => {
+  let repository: MessageDeliveryEventRepository;
+  let eventModel: any;
+  let sequenceModel: any;
+  let counters: Record<string, number>;
+
+  const aliceId = new Types.ObjectId().toString();
+  const bobId = new Types.ObjectId().toString();
+  const conversationId = new Types.ObjectId().toString();
+
+  const execResolving = (value: any) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  function queued(sequence: number, ageMs = 0) {
+    return {
+      _id: new Types.ObjectId(),
+      userId: bobId,
+      sequence,
+      type: "message",
+      conversationId,
+      createdAt: new Date(Date.now() - ageMs),
+    };
+  }
+
+  function stored(events: any[]) {
+    const limit = jest.fn().mockReturnValue({
+      lean: jest.fn().mockReturnValue(execResolving(events)),
+    });
+    eventModel.find.mockReturnValue({
+      sort: jest.fn().mockReturnValue({ limit }),
+    });
+  }
+
+  beforeEach(async () => {
+    counters = {};
+    eventModel = {
+      insertMany: jest.fn().mockResolvedValue([]),
+      find: jest.fn(),
+    };
+    sequenceModel = {
+      findOneAndUpdate: jest.fn((filter: any, update: any) => {
+        const key = String(filter.userId);
+        counters[key] = (counters[key] || 0) + update.$inc.value;
+        return {
+          lean: jest
+            .fn()
+            .mockReturnValue(execResolving({ value: counters[key] })),
+        };
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MessageDeliveryEventRepository,
+        {
+          provide: getModelToken(MessageDeliveryEvent.name),
+          useValue: eventModel,
+        },
+        {
+          provide: getModelToken(MessageDeliverySequence.name),
+          useValue: sequenceModel,
+        },
+      ],
+    }).compile();
+
+    repository = module.get<MessageDeliveryEventRepository>(
+      MessageDeliveryEventRepository
+    );
+  });
+
+  it("should number events with one counter reservation per user", async () => {
+    counters[bobId] = 4;
+    await repository.enqueue([
+      { userId: aliceId, type: "message", conversationId },
+      { userId: bobId, type: "message", conversationId },
+      { userId: bobId, type: "message_deleted", conversationId },
+    ]);
+
+    expect(sequenceModel.findOneAndUpdate).toHaveBeenCalledTimes(2);
+    expect(sequenceModel.findOneAndUpdate).toHaveBeenCalledWith(
+      { userId: new Types.ObjectId(bobId) },
+      { $inc: { value: 2 } },
+      { upsert: true, new: true }
+    );
+    const [inserted] = eventModel.insertMany.mock.calls[0];
+    expect(
+      inserted.map(({ userId, sequence }: any) => [userId, sequence])
+    ).toEqual([
+      [aliceId, 1],
+      [bobId, 5],
+      [bobId, 6],
+    ]);
+  });
+
+  it("should read the queue after the cursor in sequence order", async () => {
+    stored([queued(4), queued(5)]);
+
+    await expect(repository.findForUser(bobId, 3, 10)).resolves.toHaveLength(2);
+    expect(eventModel.find).toHaveBeenCalledWith({
+      userId: new Types.ObjectId(bobId),
+      sequence: { $gt: 3 },
+    });
+
+    await expect(repository.findForUser("invalid-id", 3, 10)).resolves.toEqual(
+      []
+    );
+    expect(eventModel.find).toHaveBeenCalledTimes(1);
+  });
+
+  it("should stop before a sequence number whose write may still be pending", async () => {
+    // Le numéro 5, réservé par une autre instance, n'est pas encore écrit
+    stored([queued(4), queued(6), queued(7)]);
+    const events = await repository.findForUser(bobId, 3, 10);
+    expect(events.map(({ sequence }) => sequence)).toEqual([4]);
+
+    // Passé le délai de grâce, le numéro est considéré comme perdu
+    stored([
+      queued(4, 2 * MESSAGE_DELIVERY_SEQUENCE_GRACE_MS),
+      queued(6, 2 * MESSAGE_DELIVERY_SEQUENCE_GRACE_MS),
+      queued(7),
+    ]);
+    const settled = await repository.findForUser(bobId, 3, 10);
+    expect(settled.map(({ sequence }) => sequence)).toEqual([4, 6, 7]);
+  });
+});
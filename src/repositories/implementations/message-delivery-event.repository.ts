@@ -0,0 +1,118 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, Types } from "mongoose";
+import {
+  MESSAGE_DELIVERY_SEQUENCE_GRACE_MS,
+  MessageDeliveryEvent,
+  MessageDeliveryEventDocument,
+  MessageDeliveryEventType,
+} from "../../messaging/schemas/message-delivery-event.schema";
+import {
+  MessageDeliverySequence,
+  MessageDeliverySequenceDocument,
+} from "../../messaging/schemas/message-delivery-sequence.schema";
+import { IMessageDeliveryEventRepository } from "../interfaces/message-delivery-event.repository.interface";
+import { DatabaseErrorHandler } from "../../common/errors";
+
+/**
+ * 📬 REPOSITORY MESSAGE DELIVERY EVENT - IMPLÉMENTATION MONGOOSE
+ *
+ * Implémentation concrète de la file de distribution utilisant Mongoose.
+ * Les numéros d'ordre, réservés par le compteur de chaque file, servent
+ * de curseur : contrairement aux ObjectId, ils ne dépendent ni de
+ * l'horloge ni du processus de l'instance qui écrit.
+ */
+@Injectable()
+export class MessageDeliveryEventRepository
+  implements IMessageDeliveryEventRepository
+{
+  constructor(
+    @InjectModel(MessageDeliveryEvent.name)
+    private messageDeliveryEventModel: Model<MessageDeliveryEventDocument>,
+    @InjectModel(MessageDeliverySequence.name)
+    private messageDeliverySequenceModel: Model<MessageDeliverySequenceDocument>
+  ) {}
+
+  async enqueue(
+    events: Array<{
+      userId: string;
+      type: MessageDeliveryEventType;
+      conversationId: string;
+      messageId?: string;
+      data?: Record<string, any>;
+    }>
+  ): Promise<void> {
+    return DatabaseErrorHandler.handleCreateOperation(async () => {
+      if (!events.length) {
+        return;
+      }
+
+      const countByUser = new Map<string, number>();
+      for (const event of events) {
+        countByUser.set(event.userId, (countByUser.get(event.userId) || 0) + 1);
+      }
+      // Dernier numéro réservé par utilisateur, décrémenté à l'attribution
+      const nextByUser = new Map<string, number>();
+      for (const [userId, count] of countByUser) {
+        const counter = await this.messageDeliverySequenceModel
+          .findOneAndUpdate(
+            { userId: new Types.ObjectId(userId) },
+            { $inc: { value: count } },
+            { upsert: true, new: true }
+          )
+          .lean<MessageDeliverySequence>()
+          .exec();
+        nextByUser.set(userId, counter!.value - count + 1);
+      }
+
+      await this.messageDeliveryEventModel.insertMany(
+        events.map((event) => {
+          const sequence = nextByUser.get(event.userId)!;
+          nextByUser.set(event.userId, sequence + 1);
+          return { ...event, sequence };
+        }),
+        { ordered: true }
+      );
+    }, "MessageDeliveryEvent");
+  }
+
+  async findForUser(
+    userId: string,
+    after: number | undefined,
+    limit: number
+  ): Promise<MessageDeliveryEvent[]> {
+    return DatabaseErrorHandler.handleFindOperation(async () => {
+      if (!Types.ObjectId.isValid(userId)) {
+        return [];
+      }
+      const events = await this.messageDeliveryEventModel
+        .find({
+          userId: new Types.ObjectId(userId),
+          sequence: { $gt: after ?? 0 },
+        })
+        .sort({ sequence: 1 })
+        .limit(limit)
+        .lean<MessageDeliveryEvent[]>()
+        .exec();
+
+      // Un numéro manquant peut appartenir à une écriture encore en cours
+      // sur une autre instance : on s'arrête avant lui tant qu'il est
+      // récent, pour ne pas le dépasser avec le curseur
+      const settledBefore = Date.now() - MESSAGE_DELIVERY_SEQUENCE_GRACE_MS;
+      let expected = after;
+      for (let index = 0; index < events.length; index++) {
+        const event = events[index];
+        if (
+          expected !== undefined &&
+          event.sequence !== expected + 1 &&
+          (!event.createdAt ||
+            new Date(event.createdAt).getTime() > settledBefore)
+        ) {
+          return events.slice(0, index);
+        }
+        expected = event.sequence;
+      }
+      return events;
+    }, "MessageDeliveryEvent");
+  }
+}
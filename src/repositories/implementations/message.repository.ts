@@ -1,7 +1,12 @@
 import { Injectable } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
-import { Message, MessageDocument } from '../../messaging/schemas/message.schema';
+import {
+  DEFAULT_DEVICE_ID,
+  Message,
+  MessageDocument,
+  MessageEncryption,
+} from '../../messaging/schemas/message.schema';
 import { IMessageRepository } from '../interfaces/message.repository.interface';
 import { DatabaseErrorHandler } from "../../common/errors";
 
@@ -13,7 +18,7 @@ import { DatabaseErrorHandler } from "../../common/errors";
  * 
  * Fonctionnalités :
  * - CRUD complet des messages
- * - Gestion des statuts de lecture
+ * - Gestion des statuts de lecture et des accusés par appareil
  * - Recherche et filtrage avancés
  * - Statistiques et analytics
  * - Nettoyage automatisé
@@ -33,6 +38,7 @@ export class MessageRepository implements IMessageRepository {
     content: string;
     messageType?: 'text' | 'image' | 'file' | 'system';
     metadata?: any;
+    encryption?: MessageEncryption;
   }): Promise<Message> {
     return DatabaseErrorHandler.handleCreateOperation(
       async () => {
@@ -62,6 +68,19 @@ export class MessageRepository implements IMessageRepository {
     );
   }
 
+  async findByIds(ids: string[]): Promise<Message[]> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        const validIds = ids.filter((id) => Types.ObjectId.isValid(id));
+        if (!validIds.length) {
+          return [];
+        }
+        return this.messageModel.find({ _id: { $in: validIds } }).exec();
+      },
+      'Message'
+    );
+  }
+
   async update(id: string, updateData: Partial<Message>): Promise<Message | null> {
     return DatabaseErrorHandler.handleUpdateOperation(
       async () => {
@@ -131,7 +150,7 @@ export class MessageRepository implements IMessageRepository {
         } = options;
 
         // Construire le filtre
-        const filter: any = { conversationId };
+        const filter: any = { conversationId, isHidden: { $ne: true } };
         if (before || after) {
           filter.createdAt = {};
           if (before) filter.createdAt.$lt = before;
@@ -182,7 +201,10 @@ export class MessageRepository implements IMessageRepository {
               ]
             },
             { content: { $regex: searchRegex } }
-          ]
+          ],
+          isHidden: { $ne: true },
+          // Le contenu des messages chiffrés n'est pas lisible par le serveur
+          encryption: null,
         };
 
         if (conversationId) {
@@ -220,7 +242,8 @@ export class MessageRepository implements IMessageRepository {
           $or: [
             { senderId: user1Id, receiverId: user2Id },
             { senderId: user2Id, receiverId: user1Id },
-          ]
+          ],
+          isHidden: { $ne: true },
         };
 
         if (before || after) {
@@ -269,35 +292,176 @@ export class MessageRepository implements IMessageRepository {
     );
   }
 
-  async markConversationAsRead(conversationId: string, userId: string): Promise<number> {
+  async markConversationAsRead(
+    conversationId: string,
+    userId: string,
+    deviceId: string = DEFAULT_DEVICE_ID
+  ): Promise<number> {
     return DatabaseErrorHandler.handleUpdateOperation(
       async () => {
-        if (!Types.ObjectId.isValid(conversationId)) {
+        if (!Types.ObjectId.isValid(conversationId) || !Types.ObjectId.isValid(userId)) {
           return 0;
         }
 
-        const result = await this.messageModel
+        const reader = new Types.ObjectId(userId);
+        const readAt = new Date();
+        const unreadIds = await this.messageModel
+          .distinct('_id', { conversationId, ...this.unreadBy(reader) })
+          .exec();
+        if (!unreadIds.length) {
+          return 0;
+        }
+
+        // Statut de lecture historique des conversations privées
+        await this.messageModel
           .updateMany(
             {
-              conversationId,
-              receiverId: userId,
+              _id: { $in: unreadIds },
+              receiverId: reader,
               isRead: false
             },
             {
               isRead: true,
-              readAt: new Date(),
-              updatedAt: new Date()
+              readAt,
+              updatedAt: readAt
             }
           )
           .exec();
 
-        return result.modifiedCount;
+        // Messages déjà reçus par l'appareil : compléter son accusé
+        await this.messageModel
+          .updateMany(
+            { _id: { $in: unreadIds } },
+            { $set: { 'receipts.$[receipt].readAt': readAt } },
+            {
+              arrayFilters: [
+                { 'receipt.userId': reader, 'receipt.deviceId': deviceId },
+              ],
+            }
+          )
+          .exec();
+
+        // Messages jamais reçus par l'appareil : lus, donc reçus
+        await this.messageModel
+          .updateMany(
+            {
+              _id: { $in: unreadIds },
+              receipts: { $not: { $elemMatch: { userId: reader, deviceId } } },
+            },
+            {
+              $push: {
+                receipts: { userId: reader, deviceId, deliveredAt: readAt, readAt },
+              },
+            }
+          )
+          .exec();
+
+        return unreadIds.length;
       },
       'Message',
       conversationId
     );
   }
 
+  async addDeliveryReceipts(
+    messageIds: string[],
+    userId: string,
+    deviceId: string
+  ): Promise<number> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        const validIds = messageIds.filter((id) => Types.ObjectId.isValid(id));
+        if (!validIds.length || !Types.ObjectId.isValid(userId)) {
+          return 0;
+        }
+
+        const recipient = new Types.ObjectId(userId);
+        const result = await this.messageModel
+          .updateMany(
+            {
+              _id: { $in: validIds.map((id) => new Types.ObjectId(id)) },
+              senderId: { $ne: recipient },
+              receipts: { $not: { $elemMatch: { userId: recipient, deviceId } } },
+            },
+            {
+              $push: {
+                receipts: {
+                  userId: recipient,
+                  deviceId,
+                  deliveredAt: new Date(),
+                  readAt: null,
+                },
+              },
+            }
+          )
+          .exec();
+
+        return result.modifiedCount;
+      },
+      'Message',
+      userId
+    );
+  }
+
+  async getReadReceipts(conversationId: string, userIds: string[]): Promise<Array<{
+    userId: string;
+    lastReadMessageId: string | null;
+    lastReadAt: Date | null;
+    unreadCount: number;
+  }>> {
+    return DatabaseErrorHandler.handleSearchOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(conversationId)) {
+          return [];
+        }
+
+        return Promise.all(
+          userIds
+            .filter((userId) => Types.ObjectId.isValid(userId))
+            .map(async (userId) => {
+              const reader = new Types.ObjectId(userId);
+              const [lastRead, unreadCount] = await Promise.all([
+                this.messageModel
+                  .findOne({
+                    conversationId,
+                    senderId: { $ne: reader },
+                    $or: [
+                      { receipts: { $elemMatch: { userId: reader, readAt: { $ne: null } } } },
+                      { receiverId: reader, isRead: true },
+                    ],
+                  })
+                  .sort({ createdAt: -1 })
+                  .exec(),
+                this.messageModel
+                  .countDocuments({
+                    conversationId,
+                    isDeleted: { $ne: true },
+                    isHidden: { $ne: true },
+                    ...this.unreadBy(reader),
+                  })
+                  .exec(),
+              ]);
+
+              // Première lecture du dernier message lu, tous appareils confondus
+              const readDates = (lastRead?.receipts || [])
+                .filter((receipt) => String(receipt.userId) === userId && receipt.readAt)
+                .map((receipt) => new Date(receipt.readAt!).getTime());
+
+              return {
+                userId,
+                lastReadMessageId: lastRead ? String(lastRead._id) : null,
+                lastReadAt: readDates.length
+                  ? new Date(Math.min(...readDates))
+                  : lastRead?.readAt || null,
+                unreadCount,
+              };
+            })
+        );
+      },
+      'Message'
+    );
+  }
+
   async findUnreadForUser(userId: string): Promise<Message[]> {
     return DatabaseErrorHandler.handleSearchOperation(
       async () => {
@@ -421,6 +585,18 @@ export class MessageRepository implements IMessageRepository {
     );
   }
 
+  /**
+   * Filtre des messages d'autrui que l'utilisateur n'a lus sur aucun
+   * appareil (ni via le statut historique des conversations privées)
+   */
+  private unreadBy(userId: Types.ObjectId): Record<string, any> {
+    return {
+      senderId: { $ne: userId },
+      receipts: { $not: { $elemMatch: { userId, readAt: { $ne: null } } } },
+      $nor: [{ receiverId: userId, isRead: true }],
+    };
+  }
+
   // ========== NETTOYAGE ==========
 
   async deleteOlderThan(date: Date): Promise<number> {
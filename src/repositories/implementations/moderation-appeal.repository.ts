@@ -0,0 +1,208 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, Types } from "mongoose";
+import {
+  AppealableDecisionType,
+  ModerationAppeal,
+  ModerationAppealDocument,
+  ModerationAppealStatus,
+} from "../../moderation/schemas/moderation-appeal.schema";
+import {
+  IModerationAppealRepository,
+  ModerationAppealData,
+  ModerationAppealFilters,
+} from "../interfaces/moderation-appeal.repository.interface";
+import { DatabaseErrorHandler } from "../../common/errors";
+
+/**
+ * 📦 REPOSITORY MODERATION APPEAL - IMPLÉMENTATION MONGOOSE
+ *
+ * Implémentation concrète du repository ModerationAppeal utilisant Mongoose.
+ */
+@Injectable()
+export class ModerationAppealRepository implements IModerationAppealRepository {
+  constructor(
+    @InjectModel(ModerationAppeal.name)
+    private moderationAppealModel: Model<ModerationAppealDocument>
+  ) {}
+
+  async create(data: ModerationAppealData): Promise<ModerationAppeal> {
+    return DatabaseErrorHandler.handleCreateOperation(
+      async () => {
+        const created = await this.moderationAppealModel.create({
+          ...data,
+          appellantId: new Types.ObjectId(data.appellantId),
+          originalModeratorId: data.originalModeratorId
+            ? new Types.ObjectId(data.originalModeratorId)
+            : undefined,
+          assignedTo: data.assignedTo
+            ? new Types.ObjectId(data.assignedTo)
+            : undefined,
+          assignedAt: data.assignedTo ? new Date() : undefined,
+        });
+        return created.toObject() as ModerationAppeal;
+      },
+      "ModerationAppeal",
+      data.targetId
+    );
+  }
+
+  async findById(id: string): Promise<ModerationAppeal | null> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(id)) {
+          return null;
+        }
+        return this.moderationAppealModel
+          .findById(id)
+          .lean<ModerationAppeal>()
+          .exec();
+      },
+      "ModerationAppeal",
+      id
+    );
+  }
+
+  async findLatestForDecision(
+    decisionType: AppealableDecisionType,
+    targetId: string
+  ): Promise<ModerationAppeal | null> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () =>
+        this.moderationAppealModel
+          .findOne({ decisionType, targetId })
+          .sort({ createdAt: -1 })
+          .lean<ModerationAppeal>()
+          .exec(),
+      "ModerationAppeal",
+      targetId
+    );
+  }
+
+  async findMany(
+    filters: ModerationAppealFilters,
+    options: { page: number; limit: number }
+  ): Promise<{ appeals: ModerationAppeal[]; total: number }> {
+    return DatabaseErrorHandler.handleFindOperation(async () => {
+      const filter: Record<string, any> = {};
+      if (filters.status) {
+        filter.status = filters.status;
+      }
+      if (filters.decisionType) {
+        filter.decisionType = filters.decisionType;
+      }
+      if (filters.appellantId) {
+        filter.appellantId = new Types.ObjectId(filters.appellantId);
+      }
+      if (filters.assignedTo) {
+        filter.assignedTo = new Types.ObjectId(filters.assignedTo);
+      }
+
+      const [appeals, total] = await Promise.all([
+        this.moderationAppealModel
+          .find(filter)
+          .sort({ createdAt: 1 })
+          .skip((options.page - 1) * options.limit)
+          .limit(options.limit)
+          .populate("appellantId", "username")
+          .populate("assignedTo", "username")
+          .lean<ModerationAppeal[]>()
+          .exec(),
+        this.moderationAppealModel.countDocuments(filter).exec(),
+      ]);
+      return { appeals, total };
+    }, "ModerationAppeal");
+  }
+
+  async countPendingByAssignee(
+    moderatorIds: string[]
+  ): Promise<Record<string, number>> {
+    return DatabaseErrorHandler.handleAggregationOperation(async () => {
+      const counts: Record<string, number> = {};
+      moderatorIds.forEach((id) => (counts[id] = 0));
+      if (!moderatorIds.length) {
+        return counts;
+      }
+
+      const rows = await this.moderationAppealModel
+        .aggregate<{ _id: Types.ObjectId; count: number }>([
+          {
+            $match: {
+              status: "pending",
+              assignedTo: {
+                $in: moderatorIds.map((id) => new Types.ObjectId(id)),
+              },
+            },
+          },
+          { $group: { _id: "$assignedTo", count: { $sum: 1 } } },
+        ])
+        .exec();
+      rows.forEach((row) => (counts[row._id.toString()] = row.count));
+      return counts;
+    }, "ModerationAppeal");
+  }
+
+  async assign(
+    id: string,
+    moderatorId: string
+  ): Promise<ModerationAppeal | null> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(id)) {
+          return null;
+        }
+        return this.moderationAppealModel
+          .findOneAndUpdate(
+            { _id: new Types.ObjectId(id), status: "pending" },
+            {
+              $set: {
+                assignedTo: new Types.ObjectId(moderatorId),
+                assignedAt: new Date(),
+              },
+            },
+            { new: true }
+          )
+          .lean<ModerationAppeal>()
+          .exec();
+      },
+      "ModerationAppeal",
+      id,
+      moderatorId
+    );
+  }
+
+  async resolve(
+    id: string,
+    resolution: {
+      status: Exclude<ModerationAppealStatus, "pending">;
+      resolvedBy: string;
+      resolutionNote?: string;
+    }
+  ): Promise<ModerationAppeal | null> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(id)) {
+          return null;
+        }
+        return this.moderationAppealModel
+          .findOneAndUpdate(
+            { _id: new Types.ObjectId(id), status: "pending" },
+            {
+              $set: {
+                status: resolution.status,
+                resolvedBy: new Types.ObjectId(resolution.resolvedBy),
+                resolvedAt: new Date(),
+                resolutionNote: resolution.resolutionNote,
+              },
+            },
+            { new: true }
+          )
+          .lean<ModerationAppeal>()
+          .exec();
+      },
+      "ModerationAppeal",
+      id,
+      resolution.resolvedBy
+    );
+  }
+}
@@ -0,0 +1,443 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, Types } from "mongoose";
+import {
+  ACTIVE_CASE_STATUSES,
+  ModerationCase,
+  ModerationCaseDocument,
+  ModerationCaseStatus,
+  ModerationContentType,
+  SEVERITY_PRIORITY,
+} from "../../moderation/schemas/moderation-case.schema";
+import {
+  IModerationCaseRepository,
+  ModerationCaseActionData,
+  ModerationCaseData,
+  ModerationCaseEscalation,
+  ModerationCaseFilters,
+  ModerationCaseStats,
+} from "../interfaces/moderation-case.repository.interface";
+import { DatabaseErrorHandler } from "../../common/errors";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * 📦 REPOSITORY MODERATION CASE - IMPLÉMENTATION MONGOOSE
+ *
+ * Implémentation concrète du repository ModerationCase utilisant Mongoose.
+ */
+@Injectable()
+export class ModerationCaseRepository implements IModerationCaseRepository {
+  constructor(
+    @InjectModel(ModerationCase.name)
+    private moderationCaseModel: Model<ModerationCaseDocument>
+  ) {}
+
+  async create(data: ModerationCaseData): Promise<ModerationCase | null> {
+    return DatabaseErrorHandler.handleCreateOperation(
+      async () => {
+        const reportedBy = data.report.reportedBy
+          ? new Types.ObjectId(data.report.reportedBy)
+          : undefined;
+        let created: ModerationCaseDocument;
+        try {
+          created = await this.moderationCaseModel.create({
+            contentType: data.contentType,
+            contentId: data.contentId,
+            status: "open",
+            isActive: true,
+            severity: data.severity,
+            priority: SEVERITY_PRIORITY[data.severity],
+            reason: data.report.reason,
+            reports: [{ ...data.report, reportedBy }],
+            reportCount: 1,
+            reportScore: this.scoreOf(data.report),
+            autoFlagged: data.autoFlagged || false,
+            autoDecisionId: data.autoDecisionId,
+            contentHidden: data.contentHidden || false,
+            slaDueAt: data.slaDueAt,
+            actions: [
+              {
+                action: data.autoFlagged ? "auto_flagged" : "reported",
+                actorId: reportedBy,
+                toStatus: "open",
+                note: data.report.description,
+                metadata: { reason: data.report.reason },
+                at: data.report.reportedAt,
+              },
+            ],
+          });
+        } catch (error) {
+          // Index unique : un dossier actif vient d'être ouvert en parallèle
+          if (error?.code === 11000) {
+            return null;
+          }
+          throw error;
+        }
+        return created.toObject() as ModerationCase;
+      },
+      "ModerationCase",
+      data.report.reportedBy
+    );
+  }
+
+  async findById(id: string): Promise<ModerationCase | null> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(id)) {
+          return null;
+        }
+        return this.moderationCaseModel
+          .findById(id)
+          .lean<ModerationCase>()
+          .exec();
+      },
+      "ModerationCase",
+      id
+    );
+  }
+
+  async findActiveByContent(
+    contentType: ModerationContentType,
+    contentId: string
+  ): Promise<ModerationCase | null> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        return this.moderationCaseModel
+          .findOne({ contentType, contentId, isActive: true })
+          .lean<ModerationCase>()
+          .exec();
+      },
+      "ModerationCase",
+      contentId
+    );
+  }
+
+  async addReport(
+    caseId: string,
+    report: ModerationCaseData["report"],
+    escalation?: ModerationCaseEscalation
+  ): Promise<ModerationCase | null> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        const reportedBy = report.reportedBy
+          ? new Types.ObjectId(report.reportedBy)
+          : undefined;
+        const update: Record<string, any> = {
+          $push: {
+            reports: { ...report, reportedBy },
+            actions: {
+              action: "report_merged",
+              actorId: reportedBy,
+              note: report.description,
+              metadata: {
+                reason: report.reason,
+                ...(escalation && { severity: escalation.severity }),
+              },
+              at: report.reportedAt,
+            },
+          },
+          $inc: { reportCount: 1, reportScore: this.scoreOf(report) },
+        };
+        if (escalation) {
+          update.$set = {
+            severity: escalation.severity,
+            priority: SEVERITY_PRIORITY[escalation.severity],
+            slaDueAt: escalation.slaDueAt,
+          };
+        }
+
+        return this.moderationCaseModel
+          .findOneAndUpdate(
+            {
+              _id: new Types.ObjectId(caseId),
+              isActive: true,
+              ...(reportedBy && { "reports.reportedBy": { $ne: reportedBy } }),
+            },
+            update,
+            { new: true }
+          )
+          .lean<ModerationCase>()
+          .exec();
+      },
+      "ModerationCase",
+      caseId,
+      report.reportedBy
+    );
+  }
+
+  async countReporterOutcomes(
+    userId: string
+  ): Promise<{ upheld: number; dismissed: number }> {
+    return DatabaseErrorHandler.handleAggregationOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(userId)) {
+          return { upheld: 0, dismissed: 0 };
+        }
+        const [result] = await this.moderationCaseModel
+          .aggregate([
+            {
+              $match: {
+                "reports.reportedBy": new Types.ObjectId(userId),
+                isActive: false,
+              },
+            },
+            {
+              $group: {
+                _id: null,
+                dismissed: {
+                  $sum: {
+                    $cond: [
+                      {
+                        $or: [
+                          { $eq: ["$status", "dismissed"] },
+                          { $eq: ["$resolution.action", "approve"] },
+                        ],
+                      },
+                      1,
+                      0,
+                    ],
+                  },
+                },
+                total: { $sum: 1 },
+              },
+            },
+          ])
+          .exec();
+        return result
+          ? {
+              upheld: result.total - result.dismissed,
+              dismissed: result.dismissed,
+            }
+          : { upheld: 0, dismissed: 0 };
+      },
+      "ModerationCase",
+      "reporter-outcomes"
+    );
+  }
+
+  async transition(
+    caseId: string,
+    fromStatuses: ModerationCaseStatus[],
+    changes: Parameters<IModerationCaseRepository["transition"]>[2],
+    action: ModerationCaseActionData
+  ): Promise<ModerationCase | null> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(caseId)) {
+          return null;
+        }
+
+        const $set: Record<string, any> = { ...changes };
+        const $unset: Record<string, 1> = {};
+        if (changes.assignedTo === null) {
+          delete $set.assignedTo;
+          $unset.assignedTo = 1;
+        } else if (changes.assignedTo) {
+          $set.assignedTo = new Types.ObjectId(changes.assignedTo);
+        }
+        if (changes.closedBy) {
+          $set.closedBy = new Types.ObjectId(changes.closedBy);
+        }
+        if (changes.status) {
+          $set.isActive = ACTIVE_CASE_STATUSES.includes(changes.status);
+        }
+
+        return this.moderationCaseModel
+          .findOneAndUpdate(
+            {
+              _id: new Types.ObjectId(caseId),
+              status: { $in: fromStatuses },
+            },
+            {
+              $set,
+              ...(Object.keys($unset).length && { $unset }),
+              $push: {
+                actions: {
+                  ...action,
+                  actorId: action.actorId
+                    ? new Types.ObjectId(action.actorId)
+                    : undefined,
+                  at: new Date(),
+                },
+              },
+            },
+            { new: true }
+          )
+          .lean<ModerationCase>()
+          .exec();
+      },
+      "ModerationCase",
+      caseId,
+      action.actorId
+    );
+  }
+
+  async findMany(
+    filters: ModerationCaseFilters,
+    options: { page: number; limit: number }
+  ): Promise<{ cases: ModerationCase[]; total: number }> {
+    return DatabaseErrorHandler.handleFindOperation(async () => {
+      const filter = this.buildFilter(filters);
+      const [cases, total] = await Promise.all([
+        this.moderationCaseModel
+          .find(filter)
+          .select("-actions")
+          .sort({ createdAt: -1 })
+          .skip((options.page - 1) * options.limit)
+          .limit(options.limit)
+          .lean<ModerationCase[]>()
+          .exec(),
+        this.moderationCaseModel.countDocuments(filter).exec(),
+      ]);
+      return { cases, total };
+    }, "ModerationCase");
+  }
+
+  async findQueue(
+    filters: ModerationCaseFilters,
+    limit: number
+  ): Promise<{ cases: ModerationCase[]; total: number }> {
+    return DatabaseErrorHandler.handleFindOperation(async () => {
+      const filter = this.buildFilter({
+        statuses: ACTIVE_CASE_STATUSES,
+        ...filters,
+      });
+      const [cases, total] = await Promise.all([
+        this.moderationCaseModel
+          .find(filter)
+          .select("-actions")
+          .sort({ priority: -1, slaDueAt: 1 })
+          .limit(limit)
+          .lean<ModerationCase[]>()
+          .exec(),
+        this.moderationCaseModel.countDocuments(filter).exec(),
+      ]);
+      return { cases, total };
+    }, "ModerationCase");
+  }
+
+  async getStats(since: Date, until?: Date): Promise<ModerationCaseStats> {
+    return DatabaseErrorHandler.handleAggregationOperation(async () => {
+      const now = new Date();
+      const [result] = await this.moderationCaseModel
+        .aggregate([
+          {
+            $match: {
+              createdAt: { $gte: since, ...(until && { $lte: until }) },
+            },
+          },
+          {
+            $facet: {
+              byStatus: [{ $group: { _id: "$status", count: { $sum: 1 } } }],
+              bySeverity: [
+                { $group: { _id: "$severity", count: { $sum: 1 } } },
+              ],
+              byReason: [
+                { $group: { _id: "$reason", count: { $sum: 1 } } },
+                { $sort: { count: -1 } },
+              ],
+              closed: [
+                { $match: { isActive: false, closedAt: { $exists: true } } },
+                {
+                  $group: {
+                    _id: null,
+                    count: { $sum: 1 },
+                    totalMs: {
+                      $sum: { $subtract: ["$closedAt", "$createdAt"] },
+                    },
+                  },
+                },
+              ],
+              slaBreached: [
+                {
+                  $match: {
+                    $or: [
+                      { isActive: true, slaDueAt: { $lt: now } },
+                      {
+                        isActive: false,
+                        $expr: { $gt: ["$closedAt", "$slaDueAt"] },
+                      },
+                    ],
+                  },
+                },
+                { $count: "count" },
+              ],
+              moderators: [
+                { $match: { isActive: false, closedBy: { $exists: true } } },
+                {
+                  $group: {
+                    _id: "$closedBy",
+                    actionsCount: { $sum: 1 },
+                    totalMs: {
+                      $sum: { $subtract: ["$closedAt", "$createdAt"] },
+                    },
+                  },
+                },
+                { $sort: { actionsCount: -1 } },
+              ],
+            },
+          },
+        ])
+        .exec();
+
+      const toRecord = (rows: Array<{ _id: string; count: number }>) =>
+        Object.fromEntries(rows.map((row) => [row._id, row.count]));
+      const byStatus = toRecord(result.byStatus);
+      const closed = result.closed[0];
+
+      return {
+        total: Object.values(byStatus).reduce(
+          (sum: number, count: number) => sum + count,
+          0
+        ),
+        byStatus,
+        bySeverity: toRecord(result.bySeverity),
+        byReason: result.byReason.map((row) => ({
+          reason: row._id,
+          count: row.count,
+        })),
+        averageResolutionHours: closed
+          ? closed.totalMs / closed.count / HOUR_MS
+          : 0,
+        slaBreached: result.slaBreached[0]?.count || 0,
+        moderators: result.moderators.map((row) => ({
+          moderatorId: String(row._id),
+          actionsCount: row.actionsCount,
+          averageResponseHours: row.totalMs / row.actionsCount / HOUR_MS,
+        })),
+      };
+    }, "ModerationCase");
+  }
+
+  private buildFilter(filters: ModerationCaseFilters): Record<string, any> {
+    const filter: Record<string, any> = {};
+    if (filters.statuses?.length) {
+      filter.status = { $in: filters.statuses };
+    }
+    if (filters.contentType) {
+      filter.contentType = filters.contentType;
+    }
+    if (filters.severity) {
+      filter.severity = filters.severity;
+    }
+    if (filters.minPriority) {
+      filter.priority = { $gte: filters.minPriority };
+    }
+    if (filters.reportedBy && Types.ObjectId.isValid(filters.reportedBy)) {
+      filter["reports.reportedBy"] = new Types.ObjectId(filters.reportedBy);
+    }
+    if (filters.assignedTo && Types.ObjectId.isValid(filters.assignedTo)) {
+      filter.assignedTo = new Types.ObjectId(filters.assignedTo);
+    }
+    if (filters.autoFlagged !== undefined) {
+      filter.autoFlagged = filters.autoFlagged;
+    }
+    return filter;
+  }
+
+  /** Poids d'un signalement d'utilisateur (les signalements automatiques ne comptent pas) */
+  private scoreOf(report: ModerationCaseData["report"]): number {
+    return report.source === "auto" ? 0 : (report.weight ?? 1);
+  }
+}
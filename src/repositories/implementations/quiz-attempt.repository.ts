@@ -0,0 +1,224 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, Types } from "mongoose";
+import {
+  QuizAttempt,
+  QuizAttemptDocument,
+  QuizAttemptItem,
+} from "../../quiz/schemas/quiz-attempt.schema";
+import {
+  IQuizAttemptRepository,
+  QuizAttemptSummary,
+} from "../interfaces/quiz-attempt.repository.interface";
+import { DatabaseErrorHandler } from "../../common/errors";
+import { QUIZ_ITEM_TYPES } from "../../common/utils/quiz-generator.util";
+
+/**
+ * 📦 REPOSITORY QUIZ ATTEMPT - IMPLÉMENTATION MONGOOSE
+ *
+ * Implémentation concrète du repository QuizAttempt utilisant Mongoose.
+ */
+@Injectable()
+export class QuizAttemptRepository implements IQuizAttemptRepository {
+  constructor(
+    @InjectModel(QuizAttempt.name)
+    private quizAttemptModel: Model<QuizAttemptDocument>
+  ) {}
+
+  async create(data: {
+    userId: string;
+    languageId: string;
+    targetLanguageId?: string;
+    categoryId?: string;
+    items: QuizAttemptItem[];
+  }): Promise<QuizAttempt> {
+    return DatabaseErrorHandler.handleCreateOperation(
+      async () => {
+        const created = await this.quizAttemptModel.create({
+          ...data,
+          userId: new Types.ObjectId(data.userId),
+          languageId: new Types.ObjectId(data.languageId),
+          targetLanguageId: data.targetLanguageId
+            ? new Types.ObjectId(data.targetLanguageId)
+            : undefined,
+          categoryId: data.categoryId
+            ? new Types.ObjectId(data.categoryId)
+            : undefined,
+        });
+        return created.toObject() as QuizAttempt;
+      },
+      "QuizAttempt",
+      data.userId
+    );
+  }
+
+  async findById(id: string): Promise<QuizAttempt | null> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(id)) {
+          return null;
+        }
+        return this.quizAttemptModel.findById(id).lean<QuizAttempt>().exec();
+      },
+      "QuizAttempt",
+      id
+    );
+  }
+
+  async complete(
+    id: string,
+    result: {
+      items: QuizAttemptItem[];
+      correctCount: number;
+      score: number;
+      durationMs?: number;
+    }
+  ): Promise<QuizAttempt | null> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () =>
+        this.quizAttemptModel
+          .findOneAndUpdate(
+            { _id: new Types.ObjectId(id), status: "in_progress" },
+            {
+              $set: {
+                ...result,
+                status: "completed",
+                completedAt: new Date(),
+              },
+            },
+            { new: true }
+          )
+          .lean<QuizAttempt>()
+          .exec(),
+      "QuizAttempt",
+      id
+    );
+  }
+
+  async setXpAwarded(id: string, xp: number): Promise<void> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        await this.quizAttemptModel
+          .updateOne(
+            { _id: new Types.ObjectId(id) },
+            { $set: { xpAwarded: xp } }
+          )
+          .exec();
+      },
+      "QuizAttempt",
+      id
+    );
+  }
+
+  async findCompletedByUser(
+    userId: string,
+    options: { page: number; limit: number }
+  ): Promise<{ attempts: QuizAttempt[]; total: number }> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        const filter = {
+          userId: new Types.ObjectId(userId),
+          status: "completed",
+        };
+        const [attempts, total] = await Promise.all([
+          this.quizAttemptModel
+            .find(filter)
+            .sort({ completedAt: -1 })
+            .skip((options.page - 1) * options.limit)
+            .limit(options.limit)
+            .lean<QuizAttempt[]>()
+            .exec(),
+          this.quizAttemptModel.countDocuments(filter).exec(),
+        ]);
+        return { attempts, total };
+      },
+      "QuizAttempt",
+      userId
+    );
+  }
+
+  async countCompleted(
+    userId: string,
+    options: { perfectOnly?: boolean } = {}
+  ): Promise<number> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () =>
+        this.quizAttemptModel
+          .countDocuments({
+            userId: new Types.ObjectId(userId),
+            status: "completed",
+            ...(options.perfectOnly ? { score: 100 } : {}),
+          })
+          .exec(),
+      "QuizAttempt",
+      userId
+    );
+  }
+
+  async getSummary(userId: string): Promise<QuizAttemptSummary> {
+    return DatabaseErrorHandler.handleAggregationOperation(async () => {
+      const [row] = await this.quizAttemptModel
+        .aggregate([
+          {
+            $match: {
+              userId: new Types.ObjectId(userId),
+              status: "completed",
+            },
+          },
+          {
+            $facet: {
+              overall: [
+                {
+                  $group: {
+                    _id: null,
+                    completed: { $sum: 1 },
+                    averageScore: { $avg: "$score" },
+                    bestScore: { $max: "$score" },
+                    perfect: {
+                      $sum: { $cond: [{ $eq: ["$score", 100] }, 1, 0] },
+                    },
+                  },
+                },
+              ],
+              byType: [
+                { $unwind: "$items" },
+                { $match: { "items.answerIndex": { $exists: true } } },
+                {
+                  $group: {
+                    _id: "$items.type",
+                    answered: { $sum: 1 },
+                    correct: {
+                      $sum: { $cond: ["$items.correct", 1, 0] },
+                    },
+                  },
+                },
+              ],
+            },
+          },
+        ])
+        .exec();
+
+      const overall = row?.overall?.[0];
+      const byType = Object.fromEntries(
+        QUIZ_ITEM_TYPES.map((type) => [type, { answered: 0, correct: 0 }])
+      ) as QuizAttemptSummary["byType"];
+      (row?.byType || []).forEach(
+        (group: { _id: string; answered: number; correct: number }) =>
+          (byType[group._id] = {
+            answered: group.answered,
+            correct: group.correct,
+          })
+      );
+
+      return {
+        completed: overall?.completed || 0,
+        averageScore: overall
+          ? Math.round(overall.averageScore * 10) / 10
+          : null,
+        bestScore: overall ? overall.bestScore : null,
+        perfect: overall?.perfect || 0,
+        byType,
+      };
+    }, "QuizAttempt");
+  }
+}
@@ -0,0 +1,143 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { getModelToken } from "@nestjs/mongoose";
+import { Types } from "mongoose";
+import { SavedSearchRepository } from "./saved-search.repository";
+import {
+  SavedSearch,
+  SavedSearchSchema,
+  SAVED_SEARCH_RETENTION_DAYS,
+} from "../../search/schemas/saved-search.schema";
+
+/**
+ * 🧪 TESTS UNITAIRES - SAVED SEARCH REPOSITORY
+ *
+ * Couverture :
+ * - CRUD des recherches sauvegardées (create, findByUser, deleteByIdForUser)
+ * - Cloisonnement par utilisateur et validation ObjectId
+ * - Rétention : index TTL et expiration repoussée à chaque utilisation
+ */
+
+describe("SavedSearchRepository", () => {
+  let repository: SavedSearchRepository;
+  let model: any;
+
+  const userId = new Types.ObjectId().toString();
+  const otherUserId = new Types.ObjectId().toString();
+  const searchId = new Types.ObjectId().toString();
+
+  const execResolving = (value: any) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  beforeEach(async () => {
+    // Le modèle est un constructeur : `new model(data).save()`
+    model = jest.fn().mockImplementation((data) => ({
+      ...data,
+      save: jest.fn().mockResolvedValue({ _id: searchId, ...data }),
+    }));
+    model.find = jest.fn();
+    model.deleteOne = jest.fn();
+    model.updateMany = jest.fn();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SavedSearchRepository,
+        { provide: getModelToken(SavedSearch.name), useValue: model },
+      ],
+    }).compile();
+
+    repository = module.get<SavedSearchRepository>(SavedSearchRepository);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should declare a TTL index on expiresAt", () => {
+    expect(SavedSearchSchema.indexes()).toContainEqual([
+      { expiresAt: 1 },
+      expect.objectContaining({ expireAfterSeconds: 0 }),
+    ]);
+  });
+
+  it("should create a saved search owned by the user with a normalized query", async () => {
+    const created = await repository.create({
+      userId,
+      name: "Salutations",
+      query: "  Mbolo ",
+      filters: { language: "yi" },
+    } as any);
+
+    expect(created).toEqual(
+      expect.objectContaining({
+        _id: searchId,
+        name: "Salutations",
+        query: "  Mbolo ",
+        normalizedQuery: "mbolo",
+        useCount: 0,
+      })
+    );
+    expect(model.mock.calls[0][0].userId).toEqual(new Types.ObjectId(userId));
+  });
+
+  it("should list only the user's saved searches, most recent first", async () => {
+    const sort = jest.fn().mockReturnValue(execResolving([{ _id: searchId }]));
+    model.find.mockReturnValue({ sort });
+
+    await expect(repository.findByUser(userId)).resolves.toEqual([
+      { _id: searchId },
+    ]);
+    expect(model.find).toHaveBeenCalledWith({
+      userId: new Types.ObjectId(userId),
+    });
+    expect(sort).toHaveBeenCalledWith({ savedAt: -1 });
+
+    await expect(repository.findByUser("invalid-id")).resolves.toEqual([]);
+    expect(model.find).toHaveBeenCalledTimes(1);
+  });
+
+  it("should delete a saved search only within the owner's scope", async () => {
+    model.deleteOne
+      .mockReturnValueOnce(execResolving({ deletedCount: 1 }))
+      .mockReturnValueOnce(execResolving({ deletedCount: 0 }));
+
+    await expect(repository.deleteByIdForUser(userId, searchId)).resolves.toBe(
+      true
+    );
+    await expect(
+      repository.deleteByIdForUser(otherUserId, searchId)
+    ).resolves.toBe(false);
+    expect(model.deleteOne).toHaveBeenNthCalledWith(2, {
+      _id: new Types.ObjectId(searchId),
+      userId: new Types.ObjectId(otherUserId),
+    });
+
+    await expect(
+      repository.deleteByIdForUser(userId, "invalid-id")
+    ).resolves.toBe(false);
+    expect(model.deleteOne).toHaveBeenCalledTimes(2);
+  });
+
+  it("should push back the expiration each time the search is reused", async () => {
+    const now = new Date("2025-03-01T08:00:00.000Z");
+    jest.useFakeTimers({ now });
+    model.updateMany.mockReturnValue(execResolving({ modifiedCount: 2 }));
+
+    await expect(repository.markUsed(userId, " MBOLO ")).resolves.toBe(2);
+    expect(model.updateMany).toHaveBeenCalledWith(
+      { userId: new Types.ObjectId(userId), normalizedQuery: "mbolo" },
+      {
+        $inc: { useCount: 1 },
+        $set: {
+          lastUsed: now,
+          expiresAt: new Date(
+            now.getTime() + SAVED_SEARCH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+          ),
+        },
+      }
+    );
+
+    await expect(repository.markUsed("invalid-id", "mbolo")).resolves.toBe(0);
+    expect(model.updateMany).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,114 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, Types } from "mongoose";
+import {
+  SavedSearch,
+  SavedSearchDocument,
+  SAVED_SEARCH_RETENTION_DAYS,
+} from "../../search/schemas/saved-search.schema";
+import {
+  ISavedSearchRepository,
+  CreateSavedSearchData,
+} from "../interfaces/saved-search.repository.interface";
+import { DatabaseErrorHandler } from "../../common/errors";
+
+/**
+ * ⭐ REPOSITORY SAVED SEARCH - IMPLÉMENTATION MONGOOSE
+ *
+ * Implémentation concrète du repository SavedSearch utilisant Mongoose.
+ */
+@Injectable()
+export class SavedSearchRepository implements ISavedSearchRepository {
+  constructor(
+    @InjectModel(SavedSearch.name)
+    private savedSearchModel: Model<SavedSearchDocument>
+  ) {}
+
+  async create(data: CreateSavedSearchData): Promise<SavedSearch> {
+    return DatabaseErrorHandler.handleCreateOperation(
+      async () => {
+        const savedSearch = new this.savedSearchModel({
+          userId: new Types.ObjectId(data.userId),
+          name: data.name,
+          query: data.query,
+          normalizedQuery: data.query.trim().toLowerCase(),
+          filters: data.filters,
+          savedAt: new Date(),
+          useCount: 0,
+        });
+        return savedSearch.save();
+      },
+      "SavedSearch",
+      data.userId
+    );
+  }
+
+  async findByUser(userId: string): Promise<SavedSearch[]> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(userId)) {
+          return [];
+        }
+        return this.savedSearchModel
+          .find({ userId: new Types.ObjectId(userId) })
+          .sort({ savedAt: -1 })
+          .exec();
+      },
+      "SavedSearch",
+      `user-${userId}`
+    );
+  }
+
+  async deleteByIdForUser(userId: string, id: string): Promise<boolean> {
+    return DatabaseErrorHandler.handleDeleteOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(id) || !Types.ObjectId.isValid(userId)) {
+          return false;
+        }
+        const result = await this.savedSearchModel
+          .deleteOne({
+            _id: new Types.ObjectId(id),
+            userId: new Types.ObjectId(userId),
+          })
+          .exec();
+        return result.deletedCount > 0;
+      },
+      "SavedSearch",
+      id,
+      userId
+    );
+  }
+
+  async markUsed(userId: string, query: string): Promise<number> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(userId)) {
+          return 0;
+        }
+        const now = new Date();
+        const result = await this.savedSearchModel
+          .updateMany(
+            {
+              userId: new Types.ObjectId(userId),
+              normalizedQuery: query.trim().toLowerCase(),
+            },
+            {
+              $inc: { useCount: 1 },
+              $set: {
+                lastUsed: now,
+                expiresAt: new Date(
+                  now.getTime() +
+                    SAVED_SEARCH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+                ),
+              },
+            }
+          )
+          .exec();
+        return result.modifiedCount || 0;
+      },
+      "SavedSearch",
+      `use-${query}`,
+      userId
+    );
+  }
+}
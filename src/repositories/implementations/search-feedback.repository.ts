@@ -0,0 +1,51 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, Types } from "mongoose";
+import {
+  SearchFeedback,
+  SearchFeedbackDocument,
+} from "../../search/schemas/search-feedback.schema";
+import {
+  ISearchFeedbackRepository,
+  CreateSearchFeedbackData,
+} from "../interfaces/search-feedback.repository.interface";
+import { DatabaseErrorHandler } from "../../common/errors";
+
+/**
+ * 💬 REPOSITORY SEARCH FEEDBACK - IMPLÉMENTATION MONGOOSE
+ *
+ * Implémentation concrète du repository SearchFeedback utilisant Mongoose.
+ */
+@Injectable()
+export class SearchFeedbackRepository implements ISearchFeedbackRepository {
+  constructor(
+    @InjectModel(SearchFeedback.name)
+    private searchFeedbackModel: Model<SearchFeedbackDocument>
+  ) {}
+
+  async create(data: CreateSearchFeedbackData): Promise<SearchFeedback> {
+    return DatabaseErrorHandler.handleCreateOperation(
+      async () => {
+        const feedback = new this.searchFeedbackModel({
+          userId:
+            data.userId && Types.ObjectId.isValid(data.userId)
+              ? new Types.ObjectId(data.userId)
+              : undefined,
+          query: data.query,
+          normalizedQuery: data.query.trim().toLowerCase(),
+          searchId:
+            data.searchId && Types.ObjectId.isValid(data.searchId)
+              ? new Types.ObjectId(data.searchId)
+              : undefined,
+          rating: data.rating,
+          feedback: data.feedback,
+          relevantResults: data.relevantResults || [],
+          irrelevantResults: data.irrelevantResults || [],
+        });
+        return feedback.save();
+      },
+      "SearchFeedback",
+      data.userId
+    );
+  }
+}
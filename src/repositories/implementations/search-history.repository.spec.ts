@@ -0,0 +1,196 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { getModelToken } from "@nestjs/mongoose";
+import { Types } from "mongoose";
+import { SearchHistoryRepository } from "./search-history.repository";
+import { SearchFeedbackRepository } from "./search-feedback.repository";
+import {
+  SearchHistory,
+  SearchHistorySchema,
+  SEARCH_HISTORY_RETENTION_DAYS,
+} from "../../search/schemas/search-history.schema";
+import {
+  SearchFeedback,
+  SearchFeedbackSchema,
+  SEARCH_FEEDBACK_RETENTION_DAYS,
+} from "../../search/schemas/search-feedback.schema";
+
+/**
+ * 🧪 TESTS UNITAIRES - SEARCH HISTORY & FEEDBACK REPOSITORIES
+ *
+ * Couverture :
+ * - Persistance de l'historique (utilisateurs connectés et anonymes)
+ * - Cloisonnement par utilisateur (lecture, suppression unitaire et totale)
+ * - Persistance des retours de recherche
+ * - Rétention : index TTL de l'historique et des retours
+ */
+
+describe("SearchHistoryRepository", () => {
+  let repository: SearchHistoryRepository;
+  let model: any;
+
+  const userId = new Types.ObjectId().toString();
+  const otherUserId = new Types.ObjectId().toString();
+  const entryId = new Types.ObjectId().toString();
+
+  const execResolving = (value: any) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  beforeEach(async () => {
+    model = jest.fn().mockImplementation((data) => ({
+      ...data,
+      save: jest.fn().mockResolvedValue({ _id: entryId, ...data }),
+    }));
+    model.find = jest.fn();
+    model.countDocuments = jest.fn();
+    model.deleteOne = jest.fn();
+    model.deleteMany = jest.fn();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SearchHistoryRepository,
+        { provide: getModelToken(SearchHistory.name), useValue: model },
+      ],
+    }).compile();
+
+    repository = module.get<SearchHistoryRepository>(SearchHistoryRepository);
+  });
+
+  it("should expire history entries after the retention period", () => {
+    expect(SearchHistorySchema.indexes()).toContainEqual([
+      { searchedAt: 1 },
+      expect.objectContaining({
+        expireAfterSeconds: SEARCH_HISTORY_RETENTION_DAYS * 24 * 60 * 60,
+      }),
+    ]);
+  });
+
+  it("should record searches for signed-in and anonymous users", async () => {
+    await repository.create({
+      userId,
+      query: " Mbolo ",
+      filters: { language: "yi", category: "salutations" },
+      resultsCount: 3,
+    } as any);
+    await repository.create({ query: "Mbolo", resultsCount: 3 } as any);
+
+    const [[signedIn], [anonymous]] = model.mock.calls;
+    expect(signedIn).toEqual(
+      expect.objectContaining({
+        userId: new Types.ObjectId(userId),
+        normalizedQuery: "mbolo",
+        language: "yi",
+        category: "salutations",
+        searchedAt: expect.any(Date),
+      })
+    );
+    expect(anonymous.userId).toBeUndefined();
+    expect(anonymous.normalizedQuery).toBe("mbolo");
+  });
+
+  it("should read a user's history only", async () => {
+    const limit = jest.fn().mockReturnValue(execResolving([{ _id: entryId }]));
+    const sort = jest.fn().mockReturnValue({ limit });
+    model.find.mockReturnValue({ sort });
+    model.countDocuments.mockReturnValue(execResolving(1));
+
+    await expect(
+      repository.findByUser(userId, { limit: 5, language: "yi" })
+    ).resolves.toEqual({ entries: [{ _id: entryId }], total: 1 });
+
+    const filter = { userId: new Types.ObjectId(userId), language: "yi" };
+    expect(model.find).toHaveBeenCalledWith(filter);
+    expect(model.countDocuments).toHaveBeenCalledWith(filter);
+    expect(sort).toHaveBeenCalledWith({ searchedAt: -1 });
+    expect(limit).toHaveBeenCalledWith(5);
+
+    await expect(repository.findByUser("invalid-id")).resolves.toEqual({
+      entries: [],
+      total: 0,
+    });
+    expect(model.find).toHaveBeenCalledTimes(1);
+  });
+
+  it("should delete entries within the owner's scope only", async () => {
+    model.deleteOne.mockReturnValue(execResolving({ deletedCount: 0 }));
+    model.deleteMany.mockReturnValue(execResolving({ deletedCount: 4 }));
+
+    await expect(
+      repository.deleteByIdForUser(otherUserId, entryId)
+    ).resolves.toBe(false);
+    expect(model.deleteOne).toHaveBeenCalledWith({
+      _id: new Types.ObjectId(entryId),
+      userId: new Types.ObjectId(otherUserId),
+    });
+
+    await expect(repository.deleteByUser(userId)).resolves.toBe(4);
+    expect(model.deleteMany).toHaveBeenCalledWith({
+      userId: new Types.ObjectId(userId),
+    });
+
+    await expect(repository.deleteByUser("invalid-id")).resolves.toBe(0);
+    expect(model.deleteMany).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("SearchFeedbackRepository", () => {
+  let repository: SearchFeedbackRepository;
+  let model: any;
+
+  beforeEach(async () => {
+    model = jest.fn().mockImplementation((data) => ({
+      ...data,
+      save: jest.fn().mockResolvedValue(data),
+    }));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SearchFeedbackRepository,
+        { provide: getModelToken(SearchFeedback.name), useValue: model },
+      ],
+    }).compile();
+
+    repository = module.get<SearchFeedbackRepository>(SearchFeedbackRepository);
+  });
+
+  it("should expire feedback after the retention period", () => {
+    expect(SearchFeedbackSchema.indexes()).toContainEqual([
+      { createdAt: 1 },
+      expect.objectContaining({
+        expireAfterSeconds: SEARCH_FEEDBACK_RETENTION_DAYS * 24 * 60 * 60,
+      }),
+    ]);
+  });
+
+  it("should persist feedback with a normalized query", async () => {
+    const userId = new Types.ObjectId().toString();
+    const searchId = new Types.ObjectId().toString();
+
+    const feedback = await repository.create({
+      userId,
+      searchId,
+      query: " Mbolo ",
+      rating: 4,
+    } as any);
+
+    expect(feedback).toEqual(
+      expect.objectContaining({
+        userId: new Types.ObjectId(userId),
+        searchId: new Types.ObjectId(searchId),
+        normalizedQuery: "mbolo",
+        rating: 4,
+        relevantResults: [],
+        irrelevantResults: [],
+      })
+    );
+
+    await repository.create({
+      userId: "anonymous",
+      searchId: "not-an-id",
+      query: "mbolo",
+      rating: 2,
+    } as any);
+    expect(model.mock.calls[1][0].userId).toBeUndefined();
+    expect(model.mock.calls[1][0].searchId).toBeUndefined();
+  });
+});
@@ -0,0 +1,379 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, PipelineStage, Types } from "mongoose";
+import {
+  SearchHistory,
+  SearchHistoryDocument,
+} from "../../search/schemas/search-history.schema";
+import {
+  ISearchHistoryRepository,
+  CreateSearchHistoryData,
+  SearchQueryAggregate,
+  UserSearchStats,
+} from "../interfaces/search-history.repository.interface";
+import { DatabaseErrorHandler } from "../../common/errors";
+
+/**
+ * 🔍 REPOSITORY SEARCH HISTORY - IMPLÉMENTATION MONGOOSE
+ *
+ * Implémentation concrète du repository SearchHistory utilisant Mongoose.
+ * Les tendances et termes populaires sont calculés par agrégation MongoDB
+ * pour rester cohérents entre toutes les instances.
+ */
+@Injectable()
+export class SearchHistoryRepository implements ISearchHistoryRepository {
+  constructor(
+    @InjectModel(SearchHistory.name)
+    private searchHistoryModel: Model<SearchHistoryDocument>
+  ) {}
+
+  // ========== CRUD DE BASE ==========
+
+  async create(data: CreateSearchHistoryData): Promise<SearchHistory> {
+    return DatabaseErrorHandler.handleCreateOperation(
+      async () => {
+        const entry = new this.searchHistoryModel({
+          userId:
+            data.userId && Types.ObjectId.isValid(data.userId)
+              ? new Types.ObjectId(data.userId)
+              : undefined,
+          query: data.query,
+          normalizedQuery: data.query.trim().toLowerCase(),
+          language: data.filters?.language,
+          category: data.filters?.category,
+          filters: data.filters,
+          resultsCount: data.resultsCount || 0,
+          clickedResults: data.clickedResults || [],
+          searchDuration: data.searchDuration,
+          searchedAt: new Date(),
+        });
+        return entry.save();
+      },
+      "SearchHistory",
+      data.userId
+    );
+  }
+
+  async deleteByIdForUser(userId: string, id: string): Promise<boolean> {
+    return DatabaseErrorHandler.handleDeleteOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(id) || !Types.ObjectId.isValid(userId)) {
+          return false;
+        }
+        const result = await this.searchHistoryModel
+          .deleteOne({
+            _id: new Types.ObjectId(id),
+            userId: new Types.ObjectId(userId),
+          })
+          .exec();
+        return result.deletedCount > 0;
+      },
+      "SearchHistory",
+      id,
+      userId
+    );
+  }
+
+  async deleteByUser(userId: string): Promise<number> {
+    return DatabaseErrorHandler.handleDeleteOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(userId)) {
+          return 0;
+        }
+        const result = await this.searchHistoryModel
+          .deleteMany({ userId: new Types.ObjectId(userId) })
+          .exec();
+        return result.deletedCount || 0;
+      },
+      "SearchHistory",
+      `user-${userId}`,
+      userId
+    );
+  }
+
+  // ========== HISTORIQUE PERSONNEL ==========
+
+  async findByUser(
+    userId: string,
+    options: {
+      limit?: number;
+      language?: string;
+    } = {}
+  ): Promise<{
+    entries: SearchHistory[];
+    total: number;
+  }> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(userId)) {
+          return { entries: [], total: 0 };
+        }
+
+        const { limit = 20, language } = options;
+        const filter: any = { userId: new Types.ObjectId(userId) };
+        if (language) {
+          filter.language = language;
+        }
+
+        const [entries, total] = await Promise.all([
+          this.searchHistoryModel
+            .find(filter)
+            .sort({ searchedAt: -1 })
+            .limit(limit)
+            .exec(),
+          this.searchHistoryModel.countDocuments(filter).exec(),
+        ]);
+
+        return { entries, total };
+      },
+      "SearchHistory",
+      `user-${userId}`
+    );
+  }
+
+  async findRecentByUserMatching(
+    userId: string,
+    query: string,
+    limit: number
+  ): Promise<SearchHistory[]> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(userId) || limit <= 0) {
+          return [];
+        }
+        return this.searchHistoryModel
+          .find({
+            userId: new Types.ObjectId(userId),
+            normalizedQuery: {
+              $regex: this.escapeRegexCharacters(query.trim().toLowerCase()),
+            },
+          })
+          .sort({ searchedAt: -1 })
+          .limit(limit)
+          .exec();
+      },
+      "SearchHistory",
+      `user-${userId}`
+    );
+  }
+
+  // ========== AGRÉGATIONS ==========
+
+  async aggregateQueries(options: {
+    since: Date;
+    until?: Date;
+    language?: string;
+    category?: string;
+    queries?: string[];
+    matching?: string;
+    limit?: number;
+  }): Promise<SearchQueryAggregate[]> {
+    return DatabaseErrorHandler.handleAggregationOperation(
+      async () => {
+        const pipeline: PipelineStage[] = [
+          { $match: this.buildPeriodFilter(options) },
+          {
+            $group: {
+              _id: "$normalizedQuery",
+              searchCount: { $sum: 1 },
+              users: { $addToSet: "$userId" },
+              languages: { $addToSet: "$language" },
+              categories: { $addToSet: "$category" },
+            },
+          },
+          {
+            $project: {
+              _id: 0,
+              query: "$_id",
+              searchCount: 1,
+              uniqueUsers: { $size: "$users" },
+              languages: 1,
+              categories: 1,
+            },
+          },
+          { $sort: { searchCount: -1, query: 1 } },
+        ];
+
+        if (options.limit) {
+          pipeline.push({ $limit: options.limit });
+        }
+
+        const results = await this.searchHistoryModel
+          .aggregate<SearchQueryAggregate>(pipeline)
+          .exec();
+
+        // $addToSet conserve les valeurs nulles (recherches sans filtre)
+        return results.map((result) => ({
+          ...result,
+          languages: result.languages.filter(Boolean),
+          categories: result.categories.filter(Boolean),
+        }));
+      },
+      "SearchHistory",
+      "queries"
+    );
+  }
+
+  async countDistinctQueries(options: {
+    since?: Date;
+    language?: string;
+    category?: string;
+  }): Promise<number> {
+    return DatabaseErrorHandler.handleAggregationOperation(
+      async () => {
+        const [result] = await this.searchHistoryModel
+          .aggregate<{ total: number }>([
+            { $match: this.buildPeriodFilter(options) },
+            { $group: { _id: "$normalizedQuery" } },
+            { $count: "total" },
+          ])
+          .exec();
+        return result?.total || 0;
+      },
+      "SearchHistory",
+      "distinct-queries"
+    );
+  }
+
+  async getUserStats(userId: string, since: Date): Promise<UserSearchStats> {
+    return DatabaseErrorHandler.handleAggregationOperation(
+      async () => {
+        const emptyStats: UserSearchStats = {
+          totalSearches: 0,
+          uniqueQueries: 0,
+          averageResultsPerSearch: 0,
+          searchesWithoutClick: 0,
+          mostSearchedTerms: [],
+          languageDistribution: [],
+          hourDistribution: [],
+        };
+
+        if (!Types.ObjectId.isValid(userId)) {
+          return emptyStats;
+        }
+
+        const [result] = await this.searchHistoryModel
+          .aggregate([
+            {
+              $match: {
+                userId: new Types.ObjectId(userId),
+                searchedAt: { $gte: since },
+              },
+            },
+            {
+              $facet: {
+                totals: [
+                  {
+                    $group: {
+                      _id: null,
+                      totalSearches: { $sum: 1 },
+                      uniqueQueries: { $addToSet: "$normalizedQuery" },
+                      averageResultsPerSearch: { $avg: "$resultsCount" },
+                      searchesWithoutClick: {
+                        $sum: {
+                          $cond: [
+                            {
+                              $eq: [
+                                { $size: { $ifNull: ["$clickedResults", []] } },
+                                0,
+                              ],
+                            },
+                            1,
+                            0,
+                          ],
+                        },
+                      },
+                    },
+                  },
+                ],
+                terms: [
+                  { $group: { _id: "$normalizedQuery", count: { $sum: 1 } } },
+                  { $sort: { count: -1, _id: 1 } },
+                  { $limit: 10 },
+                  { $project: { _id: 0, term: "$_id", count: 1 } },
+                ],
+                languages: [
+                  {
+                    $group: {
+                      _id: { $ifNull: ["$language", "all"] },
+                      searchCount: { $sum: 1 },
+                    },
+                  },
+                  { $sort: { searchCount: -1 } },
+                  { $project: { _id: 0, language: "$_id", searchCount: 1 } },
+                ],
+                hours: [
+                  { $group: { _id: { $hour: "$searchedAt" }, count: { $sum: 1 } } },
+                  { $project: { _id: 0, hour: "$_id", count: 1 } },
+                ],
+              },
+            },
+          ])
+          .exec();
+
+        const totals = result?.totals?.[0];
+        if (!totals) {
+          return emptyStats;
+        }
+
+        return {
+          totalSearches: totals.totalSearches,
+          uniqueQueries: totals.uniqueQueries.length,
+          averageResultsPerSearch: totals.averageResultsPerSearch || 0,
+          searchesWithoutClick: totals.searchesWithoutClick,
+          mostSearchedTerms: result.terms,
+          languageDistribution: result.languages,
+          hourDistribution: result.hours,
+        };
+      },
+      "SearchHistory",
+      `user-stats-${userId}`
+    );
+  }
+
+  // ========== UTILITAIRES PRIVÉS ==========
+
+  private buildPeriodFilter(options: {
+    since?: Date;
+    until?: Date;
+    language?: string;
+    category?: string;
+    queries?: string[];
+    matching?: string;
+  }): Record<string, any> {
+    const filter: Record<string, any> = {};
+
+    if (options.since || options.until) {
+      filter.searchedAt = {};
+      if (options.since) filter.searchedAt.$gte = options.since;
+      if (options.until) filter.searchedAt.$lt = options.until;
+    }
+
+    if (options.language) {
+      filter.language = options.language;
+    }
+
+    if (options.category) {
+      filter.category = options.category;
+    }
+
+    if (options.queries) {
+      filter.normalizedQuery = { $in: options.queries };
+    } else if (options.matching && options.matching.trim()) {
+      filter.normalizedQuery = {
+        $regex: this.escapeRegexCharacters(
+          options.matching.trim().toLowerCase()
+        ),
+      };
+    }
+
+    return filter;
+  }
+
+  /**
+   * Échappe les caractères spéciaux regex pour éviter les attaques ReDoS
+   */
+  private escapeRegexCharacters(input: string): string {
+    return input.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  }
+}
@@ -0,0 +1,324 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, Types } from "mongoose";
+import {
+  StudyCard,
+  StudyCardDocument,
+} from "../../study/schemas/study-card.schema";
+import {
+  IStudyCardRepository,
+  StudyCardCounts,
+} from "../interfaces/study-card.repository.interface";
+import { DatabaseErrorHandler } from "../../common/errors";
+import {
+  SchedulingState,
+  SpacedRepetition,
+} from "../../common/utils/spaced-repetition.util";
+
+const WORD_FIELDS = "word language pronunciation meanings audioFiles";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 📦 REPOSITORY STUDY CARD - IMPLÉMENTATION MONGOOSE
+ *
+ * Implémentation concrète du repository StudyCard utilisant Mongoose.
+ */
+@Injectable()
+export class StudyCardRepository implements IStudyCardRepository {
+  constructor(
+    @InjectModel(StudyCard.name)
+    private studyCardModel: Model<StudyCardDocument>
+  ) {}
+
+  async addWords(
+    userId: string,
+    deckId: string,
+    wordIds: string[]
+  ): Promise<number> {
+    return DatabaseErrorHandler.handleCreateOperation(
+      async () => {
+        if (!wordIds.length) {
+          return 0;
+        }
+        const now = new Date();
+        const deck = new Types.ObjectId(deckId);
+        // Upsert sans écrasement : les cartes existantes gardent leur état
+        const result = await this.studyCardModel.bulkWrite(
+          wordIds.map((wordId) => ({
+            updateOne: {
+              filter: { deckId: deck, wordId: new Types.ObjectId(wordId) },
+              update: {
+                $setOnInsert: {
+                  userId: new Types.ObjectId(userId),
+                  ...SpacedRepetition.initial(now),
+                },
+              },
+              upsert: true,
+            },
+          })),
+          { ordered: false }
+        );
+        return result.upsertedCount;
+      },
+      "StudyCard",
+      userId
+    );
+  }
+
+  async findById(id: string): Promise<StudyCard | null> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(id)) {
+          return null;
+        }
+        return this.studyCardModel.findById(id).lean<StudyCard>().exec();
+      },
+      "StudyCard",
+      id
+    );
+  }
+
+  async findByIds(ids: string[]): Promise<StudyCard[]> {
+    return DatabaseErrorHandler.handleFindOperation(async () => {
+      if (!ids.length) {
+        return [];
+      }
+      return this.studyCardModel
+        .find({ _id: { $in: ids.map((id) => new Types.ObjectId(id)) } })
+        .populate("wordId", WORD_FIELDS)
+        .lean<StudyCard[]>()
+        .exec();
+    }, "StudyCard");
+  }
+
+  async findDue(
+    deckId: string,
+    now: Date,
+    limit: number
+  ): Promise<StudyCard[]> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () =>
+        this.studyCardModel
+          .find({
+            deckId: new Types.ObjectId(deckId),
+            state: { $ne: "new" },
+            due: { $lte: now },
+          })
+          .sort({ due: 1, _id: 1 })
+          .limit(limit)
+          .populate("wordId", WORD_FIELDS)
+          .lean<StudyCard[]>()
+          .exec(),
+      "StudyCard",
+      deckId
+    );
+  }
+
+  async findNew(deckId: string, limit: number): Promise<StudyCard[]> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        if (limit <= 0) {
+          return [];
+        }
+        return this.studyCardModel
+          .find({ deckId: new Types.ObjectId(deckId), state: "new" })
+          .sort({ due: 1, _id: 1 })
+          .limit(limit)
+          .populate("wordId", WORD_FIELDS)
+          .lean<StudyCard[]>()
+          .exec();
+      },
+      "StudyCard",
+      deckId
+    );
+  }
+
+  async countIntroducedSince(deckId: string, since: Date): Promise<number> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () =>
+        this.studyCardModel
+          .countDocuments({
+            deckId: new Types.ObjectId(deckId),
+            introducedAt: { $gte: since },
+          })
+          .exec(),
+      "StudyCard",
+      deckId
+    );
+  }
+
+  async countByDeck(deckId: string): Promise<number> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () =>
+        this.studyCardModel
+          .countDocuments({ deckId: new Types.ObjectId(deckId) })
+          .exec(),
+      "StudyCard",
+      deckId
+    );
+  }
+
+  async countQueuesByDeck(
+    userId: string,
+    now: Date
+  ): Promise<Record<string, { due: number; new: number }>> {
+    return DatabaseErrorHandler.handleAggregationOperation(async () => {
+      const rows = await this.studyCardModel
+        .aggregate<{ _id: Types.ObjectId; due: number; new: number }>([
+          { $match: { userId: new Types.ObjectId(userId) } },
+          {
+            $group: {
+              _id: "$deckId",
+              due: {
+                $sum: {
+                  $cond: [
+                    {
+                      $and: [
+                        { $ne: ["$state", "new"] },
+                        { $lte: ["$due", now] },
+                      ],
+                    },
+                    1,
+                    0,
+                  ],
+                },
+              },
+              new: {
+                $sum: { $cond: [{ $eq: ["$state", "new"] }, 1, 0] },
+              },
+            },
+          },
+        ])
+        .exec();
+
+      const queues: Record<string, { due: number; new: number }> = {};
+      rows.forEach(
+        (row) => (queues[row._id.toString()] = { due: row.due, new: row.new })
+      );
+      return queues;
+    }, "StudyCard");
+  }
+
+  async getCounts(userId: string, now: Date): Promise<StudyCardCounts> {
+    return DatabaseErrorHandler.handleAggregationOperation(async () => {
+      const [row] = await this.studyCardModel
+        .aggregate([
+          { $match: { userId: new Types.ObjectId(userId) } },
+          {
+            $facet: {
+              byState: [{ $group: { _id: "$state", count: { $sum: 1 } } }],
+              learned: [
+                {
+                  $match: {
+                    state: { $ne: "new" },
+                    interval: { $gt: 0 },
+                    lastReviewedAt: { $exists: true },
+                  },
+                },
+                {
+                  $group: {
+                    _id: null,
+                    mature: {
+                      $sum: {
+                        $cond: [
+                          {
+                            $gte: [
+                              "$interval",
+                              SpacedRepetition.MATURE_INTERVAL,
+                            ],
+                          },
+                          1,
+                          0,
+                        ],
+                      },
+                    },
+                    due: {
+                      $sum: { $cond: [{ $lte: ["$due", now] }, 1, 0] },
+                    },
+                    // Courbe d'oubli : (1 + t / (9·S))⁻¹, t en jours
+                    retention: {
+                      $avg: {
+                        $divide: [
+                          1,
+                          {
+                            $add: [
+                              1,
+                              {
+                                $divide: [
+                                  {
+                                    $max: [
+                                      0,
+                                      {
+                                        $subtract: [now, "$lastReviewedAt"],
+                                      },
+                                    ],
+                                  },
+                                  { $multiply: [9, "$interval", DAY_MS] },
+                                ],
+                              },
+                            ],
+                          },
+                        ],
+                      },
+                    },
+                  },
+                },
+              ],
+            },
+          },
+        ])
+        .exec();
+
+      const byState = { new: 0, learning: 0, review: 0, relearning: 0 };
+      (row?.byState || []).forEach(
+        (group: { _id: string; count: number }) =>
+          (byState[group._id] = group.count)
+      );
+      const learned = row?.learned?.[0];
+
+      return {
+        total: Object.values(byState).reduce((sum, count) => sum + count, 0),
+        byState,
+        mature: learned?.mature || 0,
+        due: learned?.due || 0,
+        estimatedRetention: learned
+          ? Math.round(learned.retention * 1000) / 1000
+          : null,
+      };
+    }, "StudyCard");
+  }
+
+  async updateSchedule(
+    id: string,
+    schedule: SchedulingState & { lastReviewedAt: Date; introducedAt?: Date },
+    expectedUpdatedAt?: Date
+  ): Promise<StudyCard | null> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        const filter: Record<string, any> = { _id: new Types.ObjectId(id) };
+        if (expectedUpdatedAt) {
+          filter.updatedAt = expectedUpdatedAt;
+        }
+        return this.studyCardModel
+          .findOneAndUpdate(filter, { $set: schedule }, { new: true })
+          .lean<StudyCard>()
+          .exec();
+      },
+      "StudyCard",
+      id
+    );
+  }
+
+  async deleteByDeck(deckId: string): Promise<number> {
+    return DatabaseErrorHandler.handleDeleteOperation(
+      async () => {
+        const result = await this.studyCardModel
+          .deleteMany({ deckId: new Types.ObjectId(deckId) })
+          .exec();
+        return result.deletedCount;
+      },
+      "StudyCard",
+      deckId
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, Types } from "mongoose";
+import {
+  StudyDeck,
+  StudyDeckDocument,
+  StudyDeckSource,
+} from "../../study/schemas/study-deck.schema";
+import { IStudyDeckRepository } from "../interfaces/study-deck.repository.interface";
+import { DatabaseErrorHandler } from "../../common/errors";
+
+/**
+ * 📦 REPOSITORY STUDY DECK - IMPLÉMENTATION MONGOOSE
+ *
+ * Implémentation concrète du repository StudyDeck utilisant Mongoose.
+ */
+@Injectable()
+export class StudyDeckRepository implements IStudyDeckRepository {
+  constructor(
+    @InjectModel(StudyDeck.name)
+    private studyDeckModel: Model<StudyDeckDocument>
+  ) {}
+
+  async create(data: {
+    userId: string;
+    name: string;
+    description?: string;
+    source: StudyDeckSource;
+    newCardsPerDay?: number;
+  }): Promise<StudyDeck> {
+    return DatabaseErrorHandler.handleCreateOperation(
+      async () => {
+        const created = await this.studyDeckModel.create({
+          ...data,
+          userId: new Types.ObjectId(data.userId),
+        });
+        return created.toObject() as StudyDeck;
+      },
+      "StudyDeck",
+      data.userId
+    );
+  }
+
+  async findById(id: string): Promise<StudyDeck | null> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(id)) {
+          return null;
+        }
+        return this.studyDeckModel.findById(id).lean<StudyDeck>().exec();
+      },
+      "StudyDeck",
+      id
+    );
+  }
+
+  async findByUser(userId: string): Promise<StudyDeck[]> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () =>
+        this.studyDeckModel
+          .find({ userId: new Types.ObjectId(userId) })
+          .sort({ createdAt: -1 })
+          .lean<StudyDeck[]>()
+          .exec(),
+      "StudyDeck",
+      userId
+    );
+  }
+
+  async update(
+    id: string,
+    data: Partial<Pick<StudyDeck, "name" | "description" | "newCardsPerDay">>
+  ): Promise<StudyDeck | null> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(id)) {
+          return null;
+        }
+        return this.studyDeckModel
+          .findByIdAndUpdate(id, { $set: data }, { new: true })
+          .lean<StudyDeck>()
+          .exec();
+      },
+      "StudyDeck",
+      id
+    );
+  }
+
+  async markSynced(id: string, cardCount: number): Promise<StudyDeck | null> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () =>
+        this.studyDeckModel
+          .findByIdAndUpdate(
+            id,
+            { $set: { cardCount, lastSyncedAt: new Date() } },
+            { new: true }
+          )
+          .lean<StudyDeck>()
+          .exec(),
+      "StudyDeck",
+      id
+    );
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return DatabaseErrorHandler.handleDeleteOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(id)) {
+          return false;
+        }
+        const result = await this.studyDeckModel.deleteOne({ _id: id }).exec();
+        return result.deletedCount > 0;
+      },
+      "StudyDeck",
+      id
+    );
+  }
+}
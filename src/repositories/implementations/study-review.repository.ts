@@ -0,0 +1,188 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, Types } from "mongoose";
+import {
+  StudyReview,
+  StudyReviewDocument,
+} from "../../study/schemas/study-review.schema";
+import {
+  IStudyReviewRepository,
+  StudyReviewSummary,
+} from "../interfaces/study-review.repository.interface";
+import { DatabaseErrorHandler } from "../../common/errors";
+import {
+  CardState,
+  RecallGrade,
+} from "../../common/utils/spaced-repetition.util";
+
+/**
+ * 📦 REPOSITORY STUDY REVIEW - IMPLÉMENTATION MONGOOSE
+ *
+ * Implémentation concrète du repository StudyReview utilisant Mongoose.
+ */
+@Injectable()
+export class StudyReviewRepository implements IStudyReviewRepository {
+  constructor(
+    @InjectModel(StudyReview.name)
+    private studyReviewModel: Model<StudyReviewDocument>
+  ) {}
+
+  async create(data: {
+    userId: string;
+    deckId: string;
+    cardId: string;
+    wordId: string;
+    sessionId?: string;
+    grade: RecallGrade;
+    previousState: CardState;
+    state: CardState;
+    interval: number;
+    elapsedDays: number;
+    durationMs?: number;
+  }): Promise<StudyReview> {
+    return DatabaseErrorHandler.handleCreateOperation(
+      async () => {
+        const created = await this.studyReviewModel.create({
+          ...data,
+          userId: new Types.ObjectId(data.userId),
+          deckId: new Types.ObjectId(data.deckId),
+          cardId: new Types.ObjectId(data.cardId),
+          wordId: new Types.ObjectId(data.wordId),
+          sessionId: data.sessionId
+            ? new Types.ObjectId(data.sessionId)
+            : undefined,
+        });
+        return created.toObject() as StudyReview;
+      },
+      "StudyReview",
+      data.userId
+    );
+  }
+
+  async summarize(userId: string, since: Date): Promise<StudyReviewSummary> {
+    return DatabaseErrorHandler.handleAggregationOperation(async () => {
+      const rows = await this.studyReviewModel
+        .aggregate<{
+          _id: { grade: RecallGrade; mature: boolean };
+          count: number;
+          duration: number;
+        }>([
+          {
+            $match: {
+              userId: new Types.ObjectId(userId),
+              createdAt: { $gte: since },
+            },
+          },
+          {
+            $group: {
+              _id: {
+                grade: "$grade",
+                mature: { $eq: ["$previousState", "review"] },
+              },
+              count: { $sum: 1 },
+              duration: { $sum: { $ifNull: ["$durationMs", 0] } },
+            },
+          },
+        ])
+        .exec();
+
+      const summary: StudyReviewSummary = {
+        total: 0,
+        byGrade: { again: 0, hard: 0, good: 0, easy: 0 },
+        matureReviews: 0,
+        matureRecalled: 0,
+        totalDurationMs: 0,
+      };
+      rows.forEach((row) => {
+        summary.total += row.count;
+        summary.byGrade[row._id.grade] += row.count;
+        summary.totalDurationMs += row.duration;
+        if (row._id.mature) {
+          summary.matureReviews += row.count;
+          if (row._id.grade !== "again") {
+            summary.matureRecalled += row.count;
+          }
+        }
+      });
+      return summary;
+    }, "StudyReview");
+  }
+
+  async countByDay(
+    userId: string,
+    since: Date
+  ): Promise<Array<{ date: string; reviews: number }>> {
+    return DatabaseErrorHandler.handleAggregationOperation(async () => {
+      const rows = await this.studyReviewModel
+        .aggregate<{ _id: string; reviews: number }>([
+          {
+            $match: {
+              userId: new Types.ObjectId(userId),
+              createdAt: { $gte: since },
+            },
+          },
+          {
+            $group: {
+              _id: {
+                $dateToString: { format: "%Y-%m-%d", date: "$createdAt" },
+              },
+              reviews: { $sum: 1 },
+            },
+          },
+          { $sort: { _id: 1 } },
+        ])
+        .exec();
+      return rows.map((row) => ({ date: row._id, reviews: row.reviews }));
+    }, "StudyReview");
+  }
+
+  async findWordsLearned(
+    userIds: string[],
+    from: Date,
+    to: Date,
+    limit: number
+  ): Promise<Array<{ wordId: string; learnerCount: number }>> {
+    return DatabaseErrorHandler.handleAggregationOperation(
+      async () => {
+        const validIds = userIds.filter((id) => Types.ObjectId.isValid(id));
+        if (!validIds.length) {
+          return [];
+        }
+        const rows = await this.studyReviewModel
+          .aggregate<{ _id: Types.ObjectId; learnerCount: number }>([
+            {
+              $match: {
+                userId: { $in: validIds.map((id) => new Types.ObjectId(id)) },
+                previousState: "new",
+                createdAt: { $gte: from, $lte: to },
+              },
+            },
+            { $group: { _id: "$wordId", learners: { $addToSet: "$userId" } } },
+            { $project: { learnerCount: { $size: "$learners" } } },
+            { $sort: { learnerCount: -1, _id: 1 } },
+            { $limit: limit },
+          ])
+          .exec();
+        return rows.map((row) => ({
+          wordId: row._id.toString(),
+          learnerCount: row.learnerCount,
+        }));
+      },
+      "StudyReview",
+      "words_learned"
+    );
+  }
+
+  async deleteByDeck(deckId: string): Promise<number> {
+    return DatabaseErrorHandler.handleDeleteOperation(
+      async () => {
+        const result = await this.studyReviewModel
+          .deleteMany({ deckId: new Types.ObjectId(deckId) })
+          .exec();
+        return result.deletedCount;
+      },
+      "StudyReview",
+      deckId
+    );
+  }
+}
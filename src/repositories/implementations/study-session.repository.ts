@@ -0,0 +1,123 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, Types } from "mongoose";
+import {
+  StudySession,
+  StudySessionDocument,
+} from "../../study/schemas/study-session.schema";
+import { IStudySessionRepository } from "../interfaces/study-session.repository.interface";
+import { DatabaseErrorHandler } from "../../common/errors";
+
+/**
+ * 📦 REPOSITORY STUDY SESSION - IMPLÉMENTATION MONGOOSE
+ *
+ * Implémentation concrète du repository StudySession utilisant Mongoose.
+ */
+@Injectable()
+export class StudySessionRepository implements IStudySessionRepository {
+  constructor(
+    @InjectModel(StudySession.name)
+    private studySessionModel: Model<StudySessionDocument>
+  ) {}
+
+  async create(data: {
+    userId: string;
+    deckId: string;
+    cardIds: string[];
+  }): Promise<StudySession> {
+    return DatabaseErrorHandler.handleCreateOperation(
+      async () => {
+        const created = await this.studySessionModel.create({
+          userId: new Types.ObjectId(data.userId),
+          deckId: new Types.ObjectId(data.deckId),
+          cardIds: data.cardIds.map((id) => new Types.ObjectId(id)),
+        });
+        return created.toObject() as StudySession;
+      },
+      "StudySession",
+      data.userId
+    );
+  }
+
+  async findById(id: string): Promise<StudySession | null> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(id)) {
+          return null;
+        }
+        return this.studySessionModel.findById(id).lean<StudySession>().exec();
+      },
+      "StudySession",
+      id
+    );
+  }
+
+  async recordReview(
+    id: string,
+    review: { correct: boolean; isNew: boolean }
+  ): Promise<StudySession | null> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () =>
+        this.studySessionModel
+          .findOneAndUpdate(
+            { _id: new Types.ObjectId(id), status: "active" },
+            {
+              $inc: {
+                reviewCount: 1,
+                correctCount: review.correct ? 1 : 0,
+                newCount: review.isNew ? 1 : 0,
+              },
+            },
+            { new: true }
+          )
+          .lean<StudySession>()
+          .exec(),
+      "StudySession",
+      id
+    );
+  }
+
+  async complete(id: string): Promise<StudySession | null> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () =>
+        this.studySessionModel
+          .findOneAndUpdate(
+            { _id: new Types.ObjectId(id), status: "active" },
+            { $set: { status: "completed", completedAt: new Date() } },
+            { new: true }
+          )
+          .lean<StudySession>()
+          .exec(),
+      "StudySession",
+      id
+    );
+  }
+
+  async setXpAwarded(id: string, xp: number): Promise<void> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        await this.studySessionModel
+          .updateOne(
+            { _id: new Types.ObjectId(id) },
+            { $set: { xpAwarded: xp } }
+          )
+          .exec();
+      },
+      "StudySession",
+      id
+    );
+  }
+
+  async deleteByDeck(deckId: string): Promise<number> {
+    return DatabaseErrorHandler.handleDeleteOperation(
+      async () => {
+        const result = await this.studySessionModel
+          .deleteMany({ deckId: new Types.ObjectId(deckId) })
+          .exec();
+        return result.deletedCount;
+      },
+      "StudySession",
+      deckId
+    );
+  }
+}
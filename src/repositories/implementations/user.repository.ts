@@ -8,7 +8,11 @@
 import { Injectable, NotFoundException } from "@nestjs/common";
 import { InjectModel } from "@nestjs/mongoose";
 import { Model, Types } from "mongoose";
-import { User } from "../../users/schemas/user.schema";
+import {
+  DeviceKey,
+  OneTimePreKey,
+  User,
+} from "../../users/schemas/user.schema";
 import { RegisterDto } from "../../users/dto/register.dto";
 import { IUserRepository } from "../interfaces/user.repository.interface";
 
@@ -383,6 +387,86 @@ export class UserRepository implements IUserRepository {
     return result.modifiedCount > 0;
   }
 
+  // ========== CHIFFREMENT DE BOUT EN BOUT ==========
+
+  async findDeviceKeys(userId: string): Promise<DeviceKey[]> {
+    if (!Types.ObjectId.isValid(userId)) {
+      return [];
+    }
+    const user = await this.userModel
+      .findById(userId)
+      .select("deviceKeys")
+      .lean<{ deviceKeys?: DeviceKey[] }>()
+      .exec();
+    return user?.deviceKeys || [];
+  }
+
+  async saveDeviceKey(userId: string, device: DeviceKey): Promise<boolean> {
+    const replaced = await this.userModel
+      .updateOne(
+        { _id: userId, "deviceKeys.deviceId": device.deviceId },
+        { $set: { "deviceKeys.$": device } }
+      )
+      .exec();
+    if (replaced.matchedCount > 0) {
+      return true;
+    }
+    const added = await this.userModel
+      .updateOne(
+        { _id: userId, "deviceKeys.deviceId": { $ne: device.deviceId } },
+        { $push: { deviceKeys: device } }
+      )
+      .exec();
+    return added.modifiedCount > 0;
+  }
+
+  async removeDeviceKey(userId: string, deviceId: string): Promise<boolean> {
+    const result = await this.userModel
+      .updateOne({ _id: userId }, { $pull: { deviceKeys: { deviceId } } })
+      .exec();
+    return result.modifiedCount > 0;
+  }
+
+  async addOneTimePreKeys(
+    userId: string,
+    deviceId: string,
+    keys: OneTimePreKey[],
+    max: number
+  ): Promise<boolean> {
+    const result = await this.userModel
+      .updateOne(
+        { _id: userId, "deviceKeys.deviceId": deviceId },
+        {
+          $push: {
+            "deviceKeys.$.oneTimePreKeys": { $each: keys, $slice: -max },
+          },
+        }
+      )
+      .exec();
+    return result.matchedCount > 0;
+  }
+
+  async claimOneTimePreKey(
+    userId: string,
+    deviceId: string
+  ): Promise<OneTimePreKey | null> {
+    // Document renvoyé avant retrait : la pré-clé retirée est la première
+    const user = await this.userModel
+      .findOneAndUpdate(
+        {
+          _id: userId,
+          deviceKeys: {
+            $elemMatch: { deviceId, "oneTimePreKeys.0": { $exists: true } },
+          },
+        },
+        { $pop: { "deviceKeys.$.oneTimePreKeys": -1 } },
+        { projection: { "deviceKeys.$": 1 } }
+      )
+      .lean<{ deviceKeys?: DeviceKey[] }>()
+      .exec();
+    return user?.deviceKeys?.[0]?.oneTimePreKeys?.[0] || null;
+  }
+
   // ========== STATISTIQUES ==========
 
   async countByRole(role: string): Promise<number> {
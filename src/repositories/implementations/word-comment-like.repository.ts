@@ -0,0 +1,95 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, Types } from "mongoose";
+import {
+  WordCommentLike,
+  WordCommentLikeDocument,
+} from "../../social/schemas/word-comment-like.schema";
+import { IWordCommentLikeRepository } from "../interfaces/word-comment-like.repository.interface";
+import { DatabaseErrorHandler } from "../../common/errors";
+
+/**
+ * 📦 REPOSITORY WORD COMMENT LIKE - IMPLÉMENTATION MONGOOSE
+ *
+ * Implémentation concrète du repository WordCommentLike utilisant Mongoose.
+ */
+@Injectable()
+export class WordCommentLikeRepository implements IWordCommentLikeRepository {
+  constructor(
+    @InjectModel(WordCommentLike.name)
+    private wordCommentLikeModel: Model<WordCommentLikeDocument>
+  ) {}
+
+  async toggle(
+    commentId: string,
+    userId: string
+  ): Promise<{ liked: boolean; changed: boolean }> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        const key = {
+          commentId: new Types.ObjectId(commentId),
+          userId: new Types.ObjectId(userId),
+        };
+        const removed = await this.wordCommentLikeModel.deleteOne(key).exec();
+        if (removed.deletedCount > 0) {
+          return { liked: false, changed: true };
+        }
+
+        try {
+          await this.wordCommentLikeModel.create(key);
+          return { liked: true, changed: true };
+        } catch (error) {
+          // Index unique : un like concurrent a déjà été enregistré
+          if (error?.code === 11000) {
+            return { liked: true, changed: false };
+          }
+          throw error;
+        }
+      },
+      "WordCommentLike",
+      commentId,
+      userId
+    );
+  }
+
+  async findLikedCommentIds(
+    userId: string,
+    commentIds: string[]
+  ): Promise<string[]> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        if (!commentIds.length) {
+          return [];
+        }
+        const likes = await this.wordCommentLikeModel
+          .find(
+            {
+              userId: new Types.ObjectId(userId),
+              commentId: {
+                $in: commentIds.map((id) => new Types.ObjectId(id)),
+              },
+            },
+            { commentId: 1 }
+          )
+          .lean()
+          .exec();
+        return likes.map((like) => like.commentId.toString());
+      },
+      "WordCommentLike",
+      userId
+    );
+  }
+
+  async deleteByComment(commentId: string): Promise<number> {
+    return DatabaseErrorHandler.handleDeleteOperation(
+      async () => {
+        const result = await this.wordCommentLikeModel
+          .deleteMany({ commentId: new Types.ObjectId(commentId) })
+          .exec();
+        return result.deletedCount;
+      },
+      "WordCommentLike",
+      commentId
+    );
+  }
+}
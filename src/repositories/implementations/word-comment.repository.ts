@@ -0,0 +1,324 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, Types } from "mongoose";
+import {
+  WordComment,
+  WordCommentDocument,
+} from "../../social/schemas/word-comment.schema";
+import {
+  IWordCommentRepository,
+  WordCommentPage,
+  WordCommentSort,
+} from "../interfaces/word-comment.repository.interface";
+import { DatabaseErrorHandler } from "../../common/errors";
+import { PaginationCursor } from "../../common/utils/pagination-cursor.util";
+
+const AUTHOR_FIELDS = "username profilePicture role";
+
+/** Champ de tri des fils (départagé par `_id` dans le même sens) */
+const THREAD_SORTS: Record<
+  WordCommentSort,
+  { field: keyof WordComment; direction: 1 | -1 }
+> = {
+  newest: { field: "createdAt", direction: -1 },
+  oldest: { field: "createdAt", direction: 1 },
+  most_liked: { field: "likesCount", direction: -1 },
+  most_replies: { field: "repliesCount", direction: -1 },
+};
+
+/**
+ * 📦 REPOSITORY WORD COMMENT - IMPLÉMENTATION MONGOOSE
+ *
+ * Implémentation concrète du repository WordComment utilisant Mongoose.
+ */
+@Injectable()
+export class WordCommentRepository implements IWordCommentRepository {
+  constructor(
+    @InjectModel(WordComment.name)
+    private wordCommentModel: Model<WordCommentDocument>
+  ) {}
+
+  async create(data: {
+    wordId: string;
+    authorId: string;
+    content: string;
+    parentId?: string;
+    rootId?: string;
+  }): Promise<WordComment> {
+    return DatabaseErrorHandler.handleCreateOperation(
+      async () => {
+        const created = await this.wordCommentModel.create({
+          wordId: new Types.ObjectId(data.wordId),
+          authorId: new Types.ObjectId(data.authorId),
+          content: data.content,
+          parentId: data.parentId
+            ? new Types.ObjectId(data.parentId)
+            : undefined,
+          rootId: data.rootId ? new Types.ObjectId(data.rootId) : undefined,
+        });
+        await created.populate("authorId", AUTHOR_FIELDS);
+        return created.toObject() as WordComment;
+      },
+      "WordComment",
+      data.authorId
+    );
+  }
+
+  async findById(id: string): Promise<WordComment | null> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(id)) {
+          return null;
+        }
+        return this.wordCommentModel
+          .findById(id)
+          .populate("authorId", AUTHOR_FIELDS)
+          .lean<WordComment>()
+          .exec();
+      },
+      "WordComment",
+      id
+    );
+  }
+
+  async findThreads(
+    wordId: string,
+    options: {
+      sort: WordCommentSort;
+      limit: number;
+      page?: number;
+      cursor?: string;
+    }
+  ): Promise<WordCommentPage> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        const { field, direction } =
+          THREAD_SORTS[options.sort] || THREAD_SORTS.newest;
+        const filter: Record<string, any> = {
+          wordId: new Types.ObjectId(wordId),
+          parentId: null,
+        };
+        return this.paginate(filter, field, direction, options);
+      },
+      "WordComment",
+      wordId
+    );
+  }
+
+  async findReplies(
+    rootId: string,
+    options: { limit: number; cursor?: string }
+  ): Promise<WordCommentPage> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () =>
+        this.paginate(
+          { rootId: new Types.ObjectId(rootId) },
+          "createdAt",
+          1,
+          options
+        ),
+      "WordComment",
+      rootId
+    );
+  }
+
+  async findReplyPreviews(
+    rootIds: string[],
+    perThread: number
+  ): Promise<Record<string, WordComment[]>> {
+    return DatabaseErrorHandler.handleAggregationOperation(async () => {
+      const previews: Record<string, WordComment[]> = {};
+      rootIds.forEach((id) => (previews[id] = []));
+      if (!rootIds.length || perThread <= 0) {
+        return previews;
+      }
+
+      const groups = await this.wordCommentModel
+        .aggregate<{ _id: Types.ObjectId; replies: WordComment[] }>([
+          {
+            $match: {
+              rootId: { $in: rootIds.map((id) => new Types.ObjectId(id)) },
+            },
+          },
+          { $sort: { createdAt: 1, _id: 1 } },
+          { $group: { _id: "$rootId", replies: { $push: "$$ROOT" } } },
+          { $project: { replies: { $slice: ["$replies", perThread] } } },
+        ])
+        .exec();
+
+      const replies = groups.flatMap((group) => group.replies);
+      await this.wordCommentModel.populate(replies, {
+        path: "authorId",
+        select: AUTHOR_FIELDS,
+      });
+      groups.forEach(
+        (group) => (previews[group._id.toString()] = group.replies)
+      );
+      return previews;
+    }, "WordComment");
+  }
+
+  async hasReplies(id: string): Promise<boolean> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        const reply = await this.wordCommentModel
+          .exists({ parentId: new Types.ObjectId(id) })
+          .exec();
+        return !!reply;
+      },
+      "WordComment",
+      id
+    );
+  }
+
+  async updateContent(
+    id: string,
+    content: string
+  ): Promise<WordComment | null> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(id)) {
+          return null;
+        }
+        // Pipeline : "$content" désigne encore l'ancien contenu, archivé
+        // dans la même écriture que le nouveau
+        return this.wordCommentModel
+          .findOneAndUpdate(
+            { _id: new Types.ObjectId(id), isDeleted: false },
+            [
+              {
+                $set: {
+                  editHistory: {
+                    $concatArrays: [
+                      { $ifNull: ["$editHistory", []] },
+                      [{ content: "$content", editedAt: "$$NOW" }],
+                    ],
+                  },
+                  content: { $literal: content },
+                  editedAt: "$$NOW",
+                },
+              },
+            ],
+            { new: true }
+          )
+          .populate("authorId", AUTHOR_FIELDS)
+          .lean<WordComment>()
+          .exec();
+      },
+      "WordComment",
+      id
+    );
+  }
+
+  async incrementCounters(
+    id: string,
+    deltas: { likesCount?: number; repliesCount?: number }
+  ): Promise<WordComment | null> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(id)) {
+          return null;
+        }
+        return this.wordCommentModel
+          .findByIdAndUpdate(id, { $inc: deltas }, { new: true })
+          .lean<WordComment>()
+          .exec();
+      },
+      "WordComment",
+      id
+    );
+  }
+
+  async softDelete(id: string): Promise<WordComment | null> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(id)) {
+          return null;
+        }
+        return this.wordCommentModel
+          .findOneAndUpdate(
+            { _id: new Types.ObjectId(id), isDeleted: false },
+            { $set: { isDeleted: true, content: "", editHistory: [] } },
+            { new: true }
+          )
+          .lean<WordComment>()
+          .exec();
+      },
+      "WordComment",
+      id
+    );
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return DatabaseErrorHandler.handleDeleteOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(id)) {
+          return false;
+        }
+        const result = await this.wordCommentModel
+          .deleteOne({ _id: id })
+          .exec();
+        return result.deletedCount > 0;
+      },
+      "WordComment",
+      id
+    );
+  }
+
+  async hasUserCommented(wordId: string, userId: string): Promise<boolean> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        const comment = await this.wordCommentModel
+          .exists({
+            wordId: new Types.ObjectId(wordId),
+            authorId: new Types.ObjectId(userId),
+            isDeleted: false,
+          })
+          .exec();
+        return !!comment;
+      },
+      "WordComment",
+      wordId
+    );
+  }
+
+  /**
+   * Page triée sur `field` puis `_id` ; le curseur désigne le dernier
+   * élément de la page précédente
+   */
+  private async paginate(
+    filter: Record<string, any>,
+    field: keyof WordComment,
+    direction: 1 | -1,
+    options: { limit: number; page?: number; cursor?: string }
+  ): Promise<WordCommentPage> {
+    const position = PaginationCursor.decode(options.cursor);
+    const pageFilter = position
+      ? { $and: [filter, PaginationCursor.after(field, direction, position)] }
+      : filter;
+
+    let query = this.wordCommentModel
+      .find(pageFilter)
+      .sort({ [field]: direction, _id: direction })
+      .limit(options.limit + 1);
+    if (!position && options.page && options.page > 1) {
+      query = query.skip((options.page - 1) * options.limit);
+    }
+
+    const [found, total] = await Promise.all([
+      query.populate("authorId", AUTHOR_FIELDS).lean<WordComment[]>().exec(),
+      this.wordCommentModel.countDocuments(filter).exec(),
+    ]);
+
+    const comments = found.slice(0, options.limit);
+    const last = comments[comments.length - 1] as any;
+    return {
+      comments,
+      total,
+      nextCursor:
+        found.length > options.limit && last
+          ? PaginationCursor.encode(last[field], last._id.toString())
+          : null,
+    };
+  }
+}
@@ -0,0 +1,128 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, Types } from "mongoose";
+import {
+  WordImportBatch,
+  WordImportBatchDocument,
+} from "../../dictionary/schemas/word-import-batch.schema";
+import {
+  IWordImportBatchRepository,
+  CreateWordImportBatchData,
+} from "../interfaces/word-import-batch.repository.interface";
+import { DatabaseErrorHandler } from "../../common/errors";
+
+/**
+ * 📦 REPOSITORY WORD IMPORT BATCH - IMPLÉMENTATION MONGOOSE
+ *
+ * Implémentation concrète du repository WordImportBatch utilisant Mongoose.
+ */
+@Injectable()
+export class WordImportBatchRepository implements IWordImportBatchRepository {
+  constructor(
+    @InjectModel(WordImportBatch.name)
+    private batchModel: Model<WordImportBatchDocument>
+  ) {}
+
+  async create(data: CreateWordImportBatchData): Promise<WordImportBatch> {
+    return DatabaseErrorHandler.handleCreateOperation(
+      async () => {
+        const batch = new this.batchModel({
+          ...data,
+          createdBy: new Types.ObjectId(data.createdBy),
+          status: "completed",
+        });
+        return batch.save();
+      },
+      "WordImportBatch",
+      data.batchId
+    );
+  }
+
+  async findByBatchId(batchId: string): Promise<WordImportBatch | null> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        return this.batchModel
+          .findOne({ batchId })
+          .populate("createdBy", "username")
+          .exec();
+      },
+      "WordImportBatch",
+      batchId
+    );
+  }
+
+  async findAll(options: {
+    createdBy?: string;
+    page: number;
+    limit: number;
+  }): Promise<{ batches: WordImportBatch[]; total: number }> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        const filter: any = {};
+        if (options.createdBy) {
+          if (!Types.ObjectId.isValid(options.createdBy)) {
+            return { batches: [], total: 0 };
+          }
+          filter.createdBy = new Types.ObjectId(options.createdBy);
+        }
+
+        const [batches, total] = await Promise.all([
+          this.batchModel
+            .find(filter)
+            .sort({ createdAt: -1 })
+            .skip((options.page - 1) * options.limit)
+            .limit(options.limit)
+            .populate("createdBy", "username")
+            .exec(),
+          this.batchModel.countDocuments(filter).exec(),
+        ]);
+
+        return { batches, total };
+      },
+      "WordImportBatch",
+      options.createdBy || "all"
+    );
+  }
+
+  async updateSummary(
+    batchId: string,
+    summary: CreateWordImportBatchData["summary"]
+  ): Promise<WordImportBatch | null> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        return this.batchModel
+          .findOneAndUpdate({ batchId }, { $set: { summary } }, { new: true })
+          .exec();
+      },
+      "WordImportBatch",
+      batchId
+    );
+  }
+
+  async markRolledBack(
+    batchId: string,
+    userId: string,
+    deletedCount: number
+  ): Promise<WordImportBatch | null> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        return this.batchModel
+          .findOneAndUpdate(
+            { batchId },
+            {
+              $set: {
+                status: "rolled_back",
+                rolledBackBy: new Types.ObjectId(userId),
+                rolledBackAt: new Date(),
+                rolledBackCount: deletedCount,
+              },
+            },
+            { new: true }
+          )
+          .exec();
+      },
+      "WordImportBatch",
+      batchId
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, Types } from "mongoose";
+import {
+  WordRating,
+  WordRatingDocument,
+} from "../../social/schemas/word-rating.schema";
+import { IWordRatingRepository } from "../interfaces/word-rating.repository.interface";
+import { DatabaseErrorHandler } from "../../common/errors";
+
+/**
+ * 📦 REPOSITORY WORD RATING - IMPLÉMENTATION MONGOOSE
+ *
+ * Implémentation concrète du repository WordRating utilisant Mongoose.
+ */
+@Injectable()
+export class WordRatingRepository implements IWordRatingRepository {
+  constructor(
+    @InjectModel(WordRating.name)
+    private wordRatingModel: Model<WordRatingDocument>
+  ) {}
+
+  async upsert(
+    wordId: string,
+    userId: string,
+    rating: number,
+    comment?: string
+  ): Promise<number | null> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        const previous = await this.wordRatingModel
+          .findOneAndUpdate(
+            {
+              wordId: new Types.ObjectId(wordId),
+              userId: new Types.ObjectId(userId),
+            },
+            { $set: { rating, comment } },
+            { upsert: true, new: false, projection: { rating: 1 } }
+          )
+          .lean<Pick<WordRating, "rating">>()
+          .exec();
+        return previous ? previous.rating : null;
+      },
+      "WordRating",
+      wordId,
+      userId
+    );
+  }
+
+  async findUserRating(
+    wordId: string,
+    userId: string
+  ): Promise<WordRating | null> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () =>
+        this.wordRatingModel
+          .findOne({
+            wordId: new Types.ObjectId(wordId),
+            userId: new Types.ObjectId(userId),
+          })
+          .lean<WordRating>()
+          .exec(),
+      "WordRating",
+      wordId
+    );
+  }
+
+  async getDistribution(wordId: string): Promise<Record<string, number>> {
+    return DatabaseErrorHandler.handleAggregationOperation(async () => {
+      const distribution: Record<string, number> = {
+        "1": 0,
+        "2": 0,
+        "3": 0,
+        "4": 0,
+        "5": 0,
+      };
+      const rows = await this.wordRatingModel
+        .aggregate<{
+          _id: number;
+          count: number;
+        }>([{ $match: { wordId: new Types.ObjectId(wordId) } }, { $group: { _id: "$rating", count: { $sum: 1 } } }])
+        .exec();
+      rows.forEach((row) => (distribution[row._id.toString()] = row.count));
+      return distribution;
+    }, "WordRating");
+  }
+}
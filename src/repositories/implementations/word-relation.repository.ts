@@ -0,0 +1,148 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, Types } from "mongoose";
+import {
+  WordRelation,
+  WordRelationDocument,
+} from "../../dictionary/schemas/word-relation.schema";
+import {
+  IWordRelationRepository,
+  WordRelationData,
+} from "../interfaces/word-relation.repository.interface";
+import { DatabaseErrorHandler } from "../../common/errors";
+
+/**
+ * 📦 REPOSITORY WORD RELATION - IMPLÉMENTATION MONGOOSE
+ *
+ * Implémentation concrète du repository WordRelation utilisant Mongoose.
+ */
+@Injectable()
+export class WordRelationRepository implements IWordRelationRepository {
+  constructor(
+    @InjectModel(WordRelation.name)
+    private wordRelationModel: Model<WordRelationDocument>
+  ) {}
+
+  async createPair(
+    relations: [WordRelationData, WordRelationData],
+    userId: string
+  ): Promise<WordRelation[]> {
+    return DatabaseErrorHandler.handleCreateOperation(
+      async () => {
+        const documents = relations.map((relation) => ({
+          ...relation,
+          sourceWordId: new Types.ObjectId(relation.sourceWordId),
+          targetWordId: new Types.ObjectId(relation.targetWordId),
+          createdBy: new Types.ObjectId(userId),
+        }));
+        const created = await this.wordRelationModel.insertMany(documents);
+        return created as unknown as WordRelation[];
+      },
+      "WordRelation",
+      userId
+    );
+  }
+
+  async findById(id: string): Promise<WordRelation | null> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(id)) {
+          return null;
+        }
+        return this.wordRelationModel.findById(id).exec();
+      },
+      "WordRelation",
+      id
+    );
+  }
+
+  async findBetween(
+    sourceWordId: string,
+    targetWordId: string
+  ): Promise<WordRelation[]> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        if (
+          !Types.ObjectId.isValid(sourceWordId) ||
+          !Types.ObjectId.isValid(targetWordId)
+        ) {
+          return [];
+        }
+        return this.wordRelationModel
+          .find({
+            sourceWordId: new Types.ObjectId(sourceWordId),
+            targetWordId: new Types.ObjectId(targetWordId),
+          })
+          .lean<WordRelation[]>()
+          .exec();
+      },
+      "WordRelation",
+      sourceWordId
+    );
+  }
+
+  async findBySourceWordIds(
+    wordIds: string[],
+    types?: string[]
+  ): Promise<WordRelation[]> {
+    return DatabaseErrorHandler.handleFindOperation(async () => {
+      const validIds = wordIds.filter((id) => Types.ObjectId.isValid(id));
+      if (!validIds.length) {
+        return [];
+      }
+
+      const filter: Record<string, any> = {
+        sourceWordId: {
+          $in: validIds.map((id) => new Types.ObjectId(id)),
+        },
+      };
+      if (types?.length) {
+        filter.type = { $in: types };
+      }
+
+      return this.wordRelationModel
+        .find(filter)
+        .sort({ type: 1, createdAt: 1 })
+        .lean<WordRelation[]>()
+        .exec();
+    }, "WordRelation");
+  }
+
+  async deletePair(pairId: string): Promise<number> {
+    return DatabaseErrorHandler.handleDeleteOperation(
+      async () => {
+        const result = await this.wordRelationModel
+          .deleteMany({ pairId })
+          .exec();
+        return result.deletedCount || 0;
+      },
+      "WordRelation",
+      pairId
+    );
+  }
+
+  async deleteByWordIds(wordIds: string[]): Promise<number> {
+    return DatabaseErrorHandler.handleDeleteOperation(
+      async () => {
+        const objectIds = wordIds
+          .filter((id) => Types.ObjectId.isValid(id))
+          .map((id) => new Types.ObjectId(id));
+        if (!objectIds.length) {
+          return 0;
+        }
+
+        const result = await this.wordRelationModel
+          .deleteMany({
+            $or: [
+              { sourceWordId: { $in: objectIds } },
+              { targetWordId: { $in: objectIds } },
+            ],
+          })
+          .exec();
+        return result.deletedCount || 0;
+      },
+      "WordRelation",
+      wordIds.join(",")
+    );
+  }
+}
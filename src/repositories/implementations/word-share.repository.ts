@@ -0,0 +1,59 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, Types } from "mongoose";
+import {
+  WordShare,
+  WordShareDocument,
+  WordSharePlatform,
+} from "../../social/schemas/word-share.schema";
+import { IWordShareRepository } from "../interfaces/word-share.repository.interface";
+import { DatabaseErrorHandler } from "../../common/errors";
+
+/**
+ * 📦 REPOSITORY WORD SHARE - IMPLÉMENTATION MONGOOSE
+ *
+ * Implémentation concrète du repository WordShare utilisant Mongoose.
+ */
+@Injectable()
+export class WordShareRepository implements IWordShareRepository {
+  constructor(
+    @InjectModel(WordShare.name)
+    private wordShareModel: Model<WordShareDocument>
+  ) {}
+
+  async create(data: {
+    wordId: string;
+    userId: string;
+    platform: WordSharePlatform;
+    message?: string;
+  }): Promise<WordShare> {
+    return DatabaseErrorHandler.handleCreateOperation(
+      async () => {
+        const created = await this.wordShareModel.create({
+          ...data,
+          wordId: new Types.ObjectId(data.wordId),
+          userId: new Types.ObjectId(data.userId),
+        });
+        return created.toObject() as WordShare;
+      },
+      "WordShare",
+      data.userId
+    );
+  }
+
+  async hasUserShared(wordId: string, userId: string): Promise<boolean> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        const share = await this.wordShareModel
+          .exists({
+            wordId: new Types.ObjectId(wordId),
+            userId: new Types.ObjectId(userId),
+          })
+          .exec();
+        return !!share;
+      },
+      "WordShare",
+      wordId
+    );
+  }
+}
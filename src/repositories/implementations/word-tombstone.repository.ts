@@ -0,0 +1,44 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, Types } from "mongoose";
+import {
+  WordTombstone,
+  WordTombstoneDocument,
+} from "../../offline/schemas/word-tombstone.schema";
+import { IWordTombstoneRepository } from "../interfaces/word-tombstone.repository.interface";
+import { DatabaseErrorHandler } from "../../common/errors";
+
+/**
+ * 📦 REPOSITORY WORD TOMBSTONE - IMPLÉMENTATION MONGOOSE
+ *
+ * Implémentation concrète du repository WordTombstone utilisant Mongoose.
+ */
+@Injectable()
+export class WordTombstoneRepository implements IWordTombstoneRepository {
+  constructor(
+    @InjectModel(WordTombstone.name)
+    private wordTombstoneModel: Model<WordTombstoneDocument>
+  ) {}
+
+  async findSince(
+    languageIds: string[],
+    since: Date,
+    limit: number
+  ): Promise<WordTombstone[]> {
+    return DatabaseErrorHandler.handleFindOperation(async () => {
+      const validIds = languageIds.filter((id) => Types.ObjectId.isValid(id));
+      if (!validIds.length) {
+        return [];
+      }
+      return this.wordTombstoneModel
+        .find({
+          languageId: { $in: validIds.map((id) => new Types.ObjectId(id)) },
+          deletedAt: { $gte: since },
+        })
+        .sort({ deletedAt: 1, _id: 1 })
+        .limit(limit)
+        .lean<WordTombstone[]>()
+        .exec();
+    }, "WordTombstone");
+  }
+}
@@ -0,0 +1,112 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, Types } from "mongoose";
+import {
+  UsageExampleContext,
+  WordUsageExample,
+  WordUsageExampleDocument,
+} from "../../social/schemas/word-usage-example.schema";
+import { IWordUsageExampleRepository } from "../interfaces/word-usage-example.repository.interface";
+import { DatabaseErrorHandler } from "../../common/errors";
+import { PaginationCursor } from "../../common/utils/pagination-cursor.util";
+
+/**
+ * 📦 REPOSITORY WORD USAGE EXAMPLE - IMPLÉMENTATION MONGOOSE
+ *
+ * Implémentation concrète du repository WordUsageExample utilisant Mongoose.
+ */
+@Injectable()
+export class WordUsageExampleRepository implements IWordUsageExampleRepository {
+  constructor(
+    @InjectModel(WordUsageExample.name)
+    private wordUsageExampleModel: Model<WordUsageExampleDocument>
+  ) {}
+
+  async create(data: {
+    wordId: string;
+    contributorId: string;
+    sentence: string;
+    context: UsageExampleContext;
+    difficulty: string;
+    translation?: string;
+    source?: string;
+  }): Promise<WordUsageExample> {
+    return DatabaseErrorHandler.handleCreateOperation(
+      async () => {
+        const created = await this.wordUsageExampleModel.create({
+          ...data,
+          wordId: new Types.ObjectId(data.wordId),
+          contributorId: new Types.ObjectId(data.contributorId),
+        });
+        await created.populate("contributorId", "username");
+        return created.toObject() as WordUsageExample;
+      },
+      "WordUsageExample",
+      data.contributorId
+    );
+  }
+
+  async findByWord(
+    wordId: string,
+    options: { limit: number; context?: UsageExampleContext; cursor?: string }
+  ): Promise<{
+    examples: WordUsageExample[];
+    total: number;
+    nextCursor: string | null;
+  }> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        const filter: Record<string, any> = {
+          wordId: new Types.ObjectId(wordId),
+        };
+        if (options.context) {
+          filter.context = options.context;
+        }
+        const position = PaginationCursor.decode(options.cursor);
+        const pageFilter = position
+          ? {
+              $and: [
+                filter,
+                PaginationCursor.after("likesCount", -1, position),
+              ],
+            }
+          : filter;
+
+        const [found, total] = await Promise.all([
+          this.wordUsageExampleModel
+            .find(pageFilter)
+            .sort({ likesCount: -1, _id: -1 })
+            .limit(options.limit + 1)
+            .populate("contributorId", "username")
+            .lean<WordUsageExample[]>()
+            .exec(),
+          this.wordUsageExampleModel.countDocuments(filter).exec(),
+        ]);
+
+        const examples = found.slice(0, options.limit);
+        const last = examples[examples.length - 1] as any;
+        return {
+          examples,
+          total,
+          nextCursor:
+            found.length > options.limit && last
+              ? PaginationCursor.encode(last.likesCount, last._id.toString())
+              : null,
+        };
+      },
+      "WordUsageExample",
+      wordId
+    );
+  }
+
+  async getContexts(wordId: string): Promise<UsageExampleContext[]> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () =>
+        this.wordUsageExampleModel
+          .distinct("context", { wordId: new Types.ObjectId(wordId) })
+          .exec() as Promise<UsageExampleContext[]>,
+      "WordUsageExample",
+      wordId
+    );
+  }
+}
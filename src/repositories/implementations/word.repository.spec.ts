@@ -0,0 +1,106 @@
+import { createConnection, Types } from "mongoose";
+import { WordRepository } from "./word.repository";
+import { Word, WordSchema } from "../../dictionary/schemas/word.schema";
+
+/**
+ * 🧪 TESTS UNITAIRES - WORD REPOSITORY
+ *
+ * Le modèle Mongoose est réel (middlewares et horodatage compris) ; seule
+ * la collection du driver est simulée pour inspecter les écritures.
+ *
+ * Couverture :
+ * - Synchronisation différentielle : les compteurs ne modifient pas updatedAt
+ * - Doublons d'import : filtre indépendant de la normalisation Unicode
+ */
+
+describe("WordRepository", () => {
+  const connection = createConnection();
+  const wordModel = connection.model(Word.name, WordSchema);
+  const collection = wordModel.collection as any;
+  let repository: WordRepository;
+
+  const wordId = new Types.ObjectId().toString();
+
+  beforeEach(() => {
+    collection.updateOne = jest
+      .fn()
+      .mockResolvedValue({ acknowledged: true, modifiedCount: 1 });
+    collection.findOneAndUpdate = jest
+      .fn()
+      .mockResolvedValue({ _id: wordId, social: { likes: 1 } });
+    repository = new WordRepository(wordModel as any);
+  });
+
+  afterAll(() => connection.close());
+
+  describe("delta sync", () => {
+    // findChangedSince() lit les mots dont updatedAt a bougé
+    const sentUpdate = (method: jest.Mock) => method.mock.calls[0]?.[1] || {};
+
+    it("should keep view counts out of the delta sync", async () => {
+      await repository.incrementViewCount(wordId);
+
+      expect(JSON.stringify(sentUpdate(collection.updateOne))).not.toContain(
+        "updatedAt"
+      );
+    });
+
+    it("should keep social counters out of the delta sync", async () => {
+      await expect(
+        repository.incrementSocialCounters(wordId, { likes: 1 })
+      ).resolves.toEqual({ likes: 1 });
+
+      const update = sentUpdate(collection.findOneAndUpdate);
+      expect(update.$inc).toEqual({ "social.likes": 1 });
+      expect(JSON.stringify(update)).not.toContain("updatedAt");
+    });
+
+    it("should still stamp content updates for the delta sync", async () => {
+      await wordModel.updateOne({ _id: wordId }, { etymology: "Proto-bantu" });
+
+      expect(sentUpdate(collection.updateOne).$set).toEqual(
+        expect.objectContaining({ updatedAt: expect.any(Date) })
+      );
+    });
+  });
+
+  describe("import duplicates", () => {
+    const languageId = new Types.ObjectId().toString();
+
+    // Les mots stockés sont filtrés par le filtre réellement reçu du driver
+    function store(words: string[]) {
+      const documents = words.map((word) => ({
+        _id: new Types.ObjectId(),
+        word,
+        languageId: new Types.ObjectId(languageId),
+      }));
+      collection.find = jest.fn((filter: any) => ({
+        toArray: () =>
+          Promise.resolve(
+            documents.filter(
+              (document) =>
+                String(filter.languageId) === String(document.languageId) &&
+                filter.word.$in.some((pattern: RegExp) =>
+                  pattern.test(document.word)
+                )
+            )
+          ),
+      }));
+    }
+
+    it("should match existing words whatever their Unicode normalization", async () => {
+      store(["ÉBƆ̀".normalize("NFD"), "ndɔ́".normalize("NFC"), "akiba"]);
+
+      const found = await repository.findExistingByWordAndLanguage([
+        { word: "ébɔ̀".normalize("NFC"), languageId },
+        { word: " Ndɔ́ ".normalize("NFD"), languageId },
+        { word: "mbote", languageId },
+      ]);
+
+      expect(found.map(({ word }) => word)).toEqual([
+        "ÉBƆ̀".normalize("NFD"),
+        "ndɔ́".normalize("NFC"),
+      ]);
+    });
+  });
+});
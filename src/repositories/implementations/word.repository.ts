@@ -1,12 +1,24 @@
 import { Injectable } from "@nestjs/common";
 import { InjectModel } from "@nestjs/mongoose";
-import { Model, Types } from "mongoose";
-import { Word } from "../../dictionary/schemas/word.schema";
+import { Model, PipelineStage, Types } from "mongoose";
+import {
+  LanguageScripting,
+  Word,
+  WordSocialCounters,
+  buildWordInflectionKeys,
+  buildWordScriptForms,
+} from "../../dictionary/schemas/word.schema";
 import { CreateWordDto } from "../../dictionary/dto/create-word.dto";
 import { UpdateWordDto } from "../../dictionary/dto/update-word.dto";
 import { SearchWordsDto } from "../../dictionary/dto/search-words.dto";
-import { IWordRepository } from "../interfaces/word.repository.interface";
+import {
+  IWordRepository,
+  WordSpellingCandidate,
+} from "../interfaces/word.repository.interface";
 import { DatabaseErrorHandler } from "../../common/errors";
+import { SearchNormalizer } from "../../common/utils/search-normalizer.util";
+import { MorphologyRules } from "../../common/utils/inflection.util";
+import { PaginationCursor } from "../../common/utils/pagination-cursor.util";
 
 /**
  * 📚 REPOSITORY WORD - IMPLÉMENTATION MONGOOSE
@@ -30,7 +42,8 @@ export class WordRepository implements IWordRepository {
   async create(
     wordData: CreateWordDto,
     userId: string,
-    status: string = "pending"
+    status: string = "pending",
+    importBatchId?: string
   ): Promise<Word> {
     // 🔍 DEBUG: Log détaillé pour pronunciation dans repository
     console.log("🎯 DEBUG pronunciation - word.repository avant sauvegarde:", {
@@ -50,6 +63,7 @@ export class WordRepository implements IWordRepository {
       updatedAt: new Date(),
       translationCount: wordData.translations?.length || 0,
       version: 1,
+      ...(importBatchId && { importBatchId }),
     };
 
     // 🔍 DEBUG: Log l'objet final avant sauvegarde
@@ -89,6 +103,7 @@ export class WordRepository implements IWordRepository {
     status?: string;
     language?: string;
     categoryId?: string;
+    variantId?: string;
   }): Promise<{
     words: Word[];
     total: number;
@@ -113,6 +128,10 @@ export class WordRepository implements IWordRepository {
       filter.categoryId = options.categoryId;
     }
 
+    if (options.variantId) {
+      Object.assign(filter, this.variantFilter([options.variantId]));
+    }
+
     const [words, total] = await Promise.all([
       this.wordModel
         .find(filter)
@@ -195,12 +214,17 @@ export class WordRepository implements IWordRepository {
     const skip = (page - 1) * limit;
 
     const filter: any = { status: "approved" };
+    const query = searchParams.query?.trim() || "";
 
     // Recherche textuelle sécurisée (protection contre ReDoS)
-    if (searchParams.query && searchParams.query.trim()) {
-      const escapedQuery = this.escapeRegexCharacters(
-        searchParams.query.trim()
-      );
+    // La clé normalisée rend la recherche insensible aux diacritiques et aux tons
+    const languageCode =
+      searchParams.languages?.length === 1 ? searchParams.languages[0] : undefined;
+    const searchKey = SearchNormalizer.normalize(query, languageCode);
+    const escapedQuery = this.escapeRegexCharacters(query);
+    const escapedKey = this.escapeRegexCharacters(searchKey);
+
+    if (query) {
       filter.$or = [
         { word: { $regex: escapedQuery, $options: "i" } },
         { "meanings.definition": { $regex: escapedQuery, $options: "i" } },
@@ -212,6 +236,11 @@ export class WordRepository implements IWordRepository {
           },
         },
       ];
+      if (escapedKey) {
+        filter.$or.push({ searchKey: { $regex: escapedKey } });
+        // Forme fléchie (pluriel, conjugaison) : on retrouve le lemme
+        filter.$or.push({ inflectionKeys: searchKey });
+      }
     }
 
     // Filtrer par langues
@@ -234,19 +263,86 @@ export class WordRepository implements IWordRepository {
       filter["meanings.partOfSpeech"] = { $in: searchParams.partsOfSpeech };
     }
 
-    const [words, total] = await Promise.all([
-      this.wordModel
-        .find(filter)
-        .populate("languageId", "name nativeName iso639_1 iso639_2 iso639_3")
-        .populate("categoryId", "name description")
-        .populate("createdBy", "username email")
-        .skip(skip)
-        .limit(limit)
-        .sort({ createdAt: -1 })
-        .exec(),
+    // Filtrer par classes nominales
+    if (searchParams.nounClasses && searchParams.nounClasses.length > 0) {
+      filter["meanings.grammaticalFeatures.nounClass"] = {
+        $in: searchParams.nounClasses,
+      };
+    }
+
+    // Filtrer par variantes dialectales
+    if (searchParams.variants && searchParams.variants.length > 0) {
+      Object.assign(filter, this.variantFilter(searchParams.variants));
+    }
+
+    // Classement : forme exacte > clé exacte > début de clé > autres correspondances
+    const rankedPipeline: PipelineStage[] = [{ $match: filter }];
+    if (query) {
+      rankedPipeline.push({
+        $addFields: {
+          _searchRank: {
+            $switch: {
+              branches: [
+                {
+                  case: {
+                    $regexMatch: {
+                      input: "$word",
+                      regex: `^${escapedQuery}$`,
+                      options: "i",
+                    },
+                  },
+                  then: 3,
+                },
+                {
+                  case: { $eq: ["$searchKey", searchKey] },
+                  then: 2,
+                },
+                {
+                  case: {
+                    $in: [searchKey, { $ifNull: ["$inflectionKeys", []] }],
+                  },
+                  then: 2,
+                },
+                {
+                  case: {
+                    $regexMatch: {
+                      input: { $ifNull: ["$searchKey", ""] },
+                      regex: `^${escapedKey}`,
+                    },
+                  },
+                  then: 1,
+                },
+              ],
+              default: 0,
+            },
+          },
+        },
+      });
+    }
+    rankedPipeline.push(
+      { $sort: query ? { _searchRank: -1, createdAt: -1 } : { createdAt: -1 } },
+      { $skip: skip },
+      { $limit: limit },
+      { $unset: "_searchRank" }
+    );
+
+    const [rankedWords, total] = await Promise.all([
+      this.wordModel.aggregate(rankedPipeline).exec(),
       this.wordModel.countDocuments(filter).exec(),
     ]);
 
+    const words = await this.wordModel.populate(
+      rankedWords.map((word) => this.wordModel.hydrate(word)),
+      [
+        {
+          path: "languageId",
+          select: "name nativeName iso639_1 iso639_2 iso639_3",
+        },
+        { path: "categoryId", select: "name description" },
+        { path: "createdBy", select: "username email" },
+      ]
+    );
+
     return {
       words,
       total,
@@ -255,6 +351,199 @@ export class WordRepository implements IWordRepository {
     };
   }
 
+  async findSpellingCandidates(params: {
+    searchGrams: string[];
+    phoneticKey?: string;
+    languages?: string[];
+    limit: number;
+  }): Promise<WordSpellingCandidate[]> {
+    return DatabaseErrorHandler.handleSearchOperation(
+      async () => {
+        const or: any[] = [];
+        if (params.searchGrams.length > 0) {
+          or.push({ searchGrams: { $in: params.searchGrams } });
+        }
+        if (params.phoneticKey) {
+          or.push({ phoneticKeys: params.phoneticKey });
+        }
+        if (or.length === 0) {
+          return [];
+        }
+
+        const filter: any = { status: "approved", $or: or };
+        if (params.languages && params.languages.length > 0) {
+          filter.language = { $in: params.languages };
+        }
+
+        // Les mots partageant le plus de trigrammes avec la requête d'abord
+        return this.wordModel
+          .aggregate<WordSpellingCandidate>([
+            { $match: filter },
+            {
+              $addFields: {
+                _sharedGrams: {
+                  $size: {
+                    $setIntersection: [
+                      { $ifNull: ["$searchGrams", []] },
+                      params.searchGrams,
+                    ],
+                  },
+                },
+              },
+            },
+            { $sort: { _sharedGrams: -1, translationCount: -1 } },
+            { $limit: params.limit },
+            {
+              $project: {
+                word: 1,
+                language: 1,
+                searchKey: 1,
+                phoneticKeys: { $ifNull: ["$phoneticKeys", []] },
+                translationCount: { $ifNull: ["$translationCount", 0] },
+              },
+            },
+          ])
+          .exec();
+      },
+      "Word",
+      "spelling-candidates"
+    );
+  }
+
+  async findByDefinitionKeywords(params: {
+    keywords: string[];
+    translationGroupIds?: string[];
+    languageId?: string;
+    limit: number;
+  }): Promise<Word[]> {
+    return DatabaseErrorHandler.handleSearchOperation(
+      async () => {
+        if (params.keywords.length === 0) {
+          return [];
+        }
+
+        const keywordPattern = params.keywords
+          .map((keyword) => this.escapeRegexCharacters(keyword))
+          .join("|");
+        const or: any[] = [
+          { extractedKeywords: { $in: params.keywords } },
+          {
+            "meanings.definitions.definition": {
+              $regex: keywordPattern,
+              $options: "i",
+            },
+          },
+        ];
+
+        const groupIds = (params.translationGroupIds || [])
+          .filter(Types.ObjectId.isValid)
+          .map((id) => new Types.ObjectId(id));
+        if (groupIds.length > 0) {
+          or.push({ "translations.translationGroupId": { $in: groupIds } });
+        }
+
+        const filter: any = { status: "approved", $or: or };
+        if (params.languageId) {
+          if (!Types.ObjectId.isValid(params.languageId)) {
+            return [];
+          }
+          filter.languageId = new Types.ObjectId(params.languageId);
+        }
+
+        // Classement par qualité de correspondance avant troncature :
+        // un mot-clé compte s'il figure dans les mots-clés extraits ou
+        // dans une définition, chaque groupe de traduction partagé aussi
+        const matchedKeywords = params.keywords.map((keyword) => ({
+          $cond: [
+            {
+              $or: [
+                {
+                  $in: [keyword, { $ifNull: ["$extractedKeywords", []] }],
+                },
+                {
+                  $regexMatch: {
+                    input: "$_definitionText",
+                    regex: this.escapeRegexCharacters(keyword),
+                    options: "i",
+                  },
+                },
+              ],
+            },
+            1,
+            0,
+          ],
+        }));
+
+        const rankedWords = await this.wordModel
+          .aggregate([
+            { $match: filter },
+            {
+              $addFields: {
+                _definitionText: {
+                  $reduce: {
+                    input: { $ifNull: ["$meanings", []] },
+                    initialValue: "",
+                    in: {
+                      $concat: [
+                        "$$value",
+                        " ",
+                        {
+                          $reduce: {
+                            input: { $ifNull: ["$$this.definitions", []] },
+                            initialValue: "",
+                            in: {
+                              $concat: [
+                                "$$value",
+                                " ",
+                                { $ifNull: ["$$this.definition", ""] },
+                              ],
+                            },
+                          },
+                        },
+                      ],
+                    },
+                  },
+                },
+              },
+            },
+            {
+              $addFields: {
+                _matchRank: {
+                  $add: [
+                    ...matchedKeywords,
+                    {
+                      $size: {
+                        $setIntersection: [
+                          {
+                            $ifNull: ["$translations.translationGroupId", []],
+                          },
+                          groupIds,
+                        ],
+                      },
+                    },
+                  ],
+                },
+              },
+            },
+            { $sort: { _matchRank: -1, translationCount: -1, _id: 1 } },
+            { $limit: params.limit },
+            { $unset: ["_definitionText", "_matchRank"] },
+          ])
+          .exec();
+
+        return this.wordModel.populate(
+          rankedWords.map((word) => this.wordModel.hydrate(word)),
+          {
+            path: "languageId",
+            select: "name nativeName iso639_1 iso639_3",
+          }
+        );
+      },
+      "Word",
+      "reverse-lookup"
+    );
+  }
+
   async existsByWordAndLanguage(
     word: string,
     language: string,
@@ -722,13 +1011,15 @@ export class WordRepository implements IWordRepository {
       return;
     }
 
+    // Compteur seul : updatedAt reste la clé de la synchronisation hors ligne
     await this.wordModel
       .updateOne(
         { _id: id },
         {
           $inc: { viewCount: 1 },
           lastViewedAt: new Date(),
-        }
+        },
+        { timestamps: false }
       )
       .exec();
   }
@@ -749,6 +1040,118 @@ export class WordRepository implements IWordRepository {
       .exec();
   }
 
+  async incrementSocialCounters(
+    id: string,
+    deltas: Partial<WordSocialCounters>
+  ): Promise<WordSocialCounters | null> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        if (!Types.ObjectId.isValid(id)) {
+          return null;
+        }
+        const increments: Record<string, number> = {};
+        Object.entries(deltas).forEach(([counter, delta]) => {
+          if (delta) {
+            increments[`social.${counter}`] = delta;
+          }
+        });
+
+        const word = await this.wordModel
+          .findByIdAndUpdate(
+            id,
+            Object.keys(increments).length ? { $inc: increments } : {},
+            { new: true, projection: { social: 1 }, timestamps: false }
+          )
+          .lean<Pick<Word, "social">>()
+          .exec();
+        return word ? word.social || ({} as WordSocialCounters) : null;
+      },
+      "Word",
+      id
+    );
+  }
+
+  async findTrending(options: {
+    limit: number;
+    language?: string;
+  }): Promise<Word[]> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        const filter: Record<string, any> = { status: "approved" };
+        if (options.language) {
+          filter.language = options.language;
+        }
+        return this.wordModel
+          .find(filter)
+          .sort({ "social.score": -1, _id: 1 })
+          .limit(options.limit)
+          .populate("languageId", "name nativeName iso639_1 iso639_2 iso639_3")
+          .populate("createdBy", "username")
+          .exec();
+      },
+      "Word",
+      "trending"
+    );
+  }
+
+  async findApprovedIds(
+    filter: { languageId?: string; categoryId?: string },
+    limit: number
+  ): Promise<string[]> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        const query: Record<string, any> = { status: "approved" };
+        if (filter.languageId) {
+          query.languageId = new Types.ObjectId(filter.languageId);
+        }
+        if (filter.categoryId) {
+          query.categoryId = new Types.ObjectId(filter.categoryId);
+        }
+        const words = await this.wordModel
+          .find(query)
+          .select("_id")
+          .sort({ createdAt: 1, _id: 1 })
+          .limit(limit)
+          .lean()
+          .exec();
+        return words.map((word) => String(word._id));
+      },
+      "Word",
+      "approved-ids"
+    );
+  }
+
+  async sampleApproved(
+    filter: { languageId: string; categoryId?: string },
+    size: number
+  ): Promise<Word[]> {
+    return DatabaseErrorHandler.handleAggregationOperation(async () => {
+      const match: Record<string, any> = {
+        status: "approved",
+        languageId: new Types.ObjectId(filter.languageId),
+      };
+      if (filter.categoryId) {
+        match.categoryId = new Types.ObjectId(filter.categoryId);
+      }
+      return this.wordModel
+        .aggregate<Word>([
+          { $match: match },
+          { $sample: { size } },
+          {
+            $project: {
+              word: 1,
+              languageId: 1,
+              categoryId: 1,
+              meanings: 1,
+              translations: 1,
+              audioFiles: 1,
+            },
+          },
+        ])
+        .exec();
+    }, "Word");
+  }
+
   // ========== OPÉRATIONS EN MASSE ==========
 
   async deleteMany(ids: string[]): Promise<number> {
@@ -761,6 +1164,428 @@ export class WordRepository implements IWordRepository {
     return result.deletedCount || 0;
   }
 
+  async findExistingByWordAndLanguage(
+    pairs: Array<{ word: string; languageId: string }>
+  ): Promise<Array<{ _id: string; word: string; languageId: string }>> {
+    return DatabaseErrorHandler.handleSearchOperation(
+      async () => {
+        const wordsByLanguage = new Map<string, Set<string>>();
+        for (const { word, languageId } of pairs) {
+          if (!word || !Types.ObjectId.isValid(languageId)) continue;
+          if (!wordsByLanguage.has(languageId)) {
+            wordsByLanguage.set(languageId, new Set());
+          }
+          // Un mot peut être stocké en forme composée ou décomposée : les
+          // deux formes sont recherchées (é = é ou e + ◌́)
+          const trimmed = word.trim();
+          wordsByLanguage.get(languageId)!.add(trimmed.normalize("NFC"));
+          wordsByLanguage.get(languageId)!.add(trimmed.normalize("NFD"));
+        }
+
+        const conditions: any[] = [];
+        for (const [languageId, words] of wordsByLanguage) {
+          const patterns = [...words].map(
+            (word) => new RegExp(`^${this.escapeRegexCharacters(word)}$`, "i")
+          );
+          // Lots de 200 motifs pour garder des requêtes raisonnables
+          for (let i = 0; i < patterns.length; i += 200) {
+            conditions.push({
+              languageId: new Types.ObjectId(languageId),
+              word: { $in: patterns.slice(i, i + 200) },
+            });
+          }
+        }
+
+        const found: Array<{ _id: string; word: string; languageId: string }> =
+          [];
+        for (const condition of conditions) {
+          const words = await this.wordModel
+            .find(condition)
+            .select("_id word languageId")
+            .lean()
+            .exec();
+          for (const word of words) {
+            found.push({
+              _id: String(word._id),
+              word: word.word,
+              languageId: String(word.languageId),
+            });
+          }
+        }
+        return found;
+      },
+      "Word",
+      "import-duplicates"
+    );
+  }
+
+  streamApprovedByLanguage(languageId: string): AsyncIterable<Word> {
+    return this.wordModel
+      .find({
+        languageId: new Types.ObjectId(languageId),
+        status: "approved",
+      })
+      .sort({ word: 1 })
+      .populate("translations.languageId", "name iso639_1 iso639_2 iso639_3")
+      .lean<Word>()
+      .cursor({ batchSize: 200 });
+  }
+
+  async findChangedSince(
+    languageIds: string[],
+    since: Date,
+    options: { cursor?: string; limit: number }
+  ): Promise<{ words: Word[]; nextCursor: string | null }> {
+    return DatabaseErrorHandler.handleFindOperation(async () => {
+      const validIds = languageIds.filter((id) => Types.ObjectId.isValid(id));
+      if (!validIds.length) {
+        return { words: [], nextCursor: null };
+      }
+      const filter: Record<string, any> = {
+        languageId: { $in: validIds.map((id) => new Types.ObjectId(id)) },
+        updatedAt: { $gte: since },
+      };
+      const position = PaginationCursor.decode(options.cursor);
+      const pageFilter = position
+        ? { $and: [filter, PaginationCursor.after("updatedAt", 1, position)] }
+        : filter;
+
+      const found = await this.wordModel
+        .find(pageFilter)
+        .sort({ updatedAt: 1, _id: 1 })
+        .limit(options.limit + 1)
+        .populate("translations.languageId", "name iso639_1 iso639_2 iso639_3")
+        .lean<Word[]>()
+        .exec();
+
+      const words = found.slice(0, options.limit);
+      const last = words[words.length - 1] as any;
+      return {
+        words,
+        nextCursor:
+          found.length > options.limit && last
+            ? PaginationCursor.encode(last.updatedAt, last._id.toString())
+            : null,
+      };
+    }, "Word");
+  }
+
+  async findApprovedByKeys(
+    languageIds: string[],
+    keys: string[],
+    limit: number
+  ): Promise<Word[]> {
+    return DatabaseErrorHandler.handleFindOperation(async () => {
+      const validIds = languageIds.filter((id) => Types.ObjectId.isValid(id));
+      if (!validIds.length || !keys.length) {
+        return [];
+      }
+      return this.wordModel
+        .find({
+          languageId: { $in: validIds.map((id) => new Types.ObjectId(id)) },
+          status: "approved",
+          $or: [
+            { searchKey: { $in: keys } },
+            { inflectionKeys: { $in: keys } },
+          ],
+        })
+        .select("word languageId searchKey inflectionKeys translations")
+        .limit(limit)
+        .lean<Word[]>()
+        .exec();
+    }, "Word");
+  }
+
+  async refreshInflectionKeysByLanguage(
+    languageId: string,
+    languageCode: string | undefined,
+    morphology: MorphologyRules | undefined
+  ): Promise<number> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        const cursor = this.wordModel
+          .find({ languageId: new Types.ObjectId(languageId) })
+          .select(
+            "word meanings.partOfSpeech meanings.grammaticalFeatures scriptForms"
+          )
+          .lean<Word>()
+          .cursor({ batchSize: 200 });
+
+        let updated = 0;
+        let batch: any[] = [];
+        const flush = async () => {
+          if (batch.length) {
+            const result = await this.wordModel.bulkWrite(batch, {
+              ordered: false,
+            });
+            updated += result.modifiedCount;
+            batch = [];
+          }
+        };
+
+        for await (const word of cursor) {
+          batch.push({
+            updateOne: {
+              filter: { _id: word._id },
+              update: {
+                $set: {
+                  inflectionKeys: buildWordInflectionKeys(
+                    word,
+                    languageCode,
+                    morphology
+                  ),
+                },
+              },
+            },
+          });
+          if (batch.length >= 500) {
+            await flush();
+          }
+        }
+        await flush();
+
+        return updated;
+      },
+      "Word",
+      languageId
+    );
+  }
+
+  async refreshScriptFormsByLanguage(
+    languageId: string,
+    languageCode: string | undefined,
+    morphology: MorphologyRules | undefined,
+    scripting: LanguageScripting
+  ): Promise<number> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        const cursor = this.wordModel
+          .find({ languageId: new Types.ObjectId(languageId) })
+          .select(
+            "word meanings.partOfSpeech meanings.grammaticalFeatures variantForms.form"
+          )
+          .lean<Word>()
+          .cursor({ batchSize: 200 });
+
+        let updated = 0;
+        let batch: any[] = [];
+        const flush = async () => {
+          if (batch.length) {
+            const result = await this.wordModel.bulkWrite(batch, {
+              ordered: false,
+            });
+            updated += result.modifiedCount;
+            batch = [];
+          }
+        };
+
+        for await (const word of cursor) {
+          const scriptForms = buildWordScriptForms(word, scripting);
+          batch.push({
+            updateOne: {
+              filter: { _id: word._id },
+              update: {
+                $set: {
+                  scriptForms,
+                  inflectionKeys: buildWordInflectionKeys(
+                    { ...word, scriptForms },
+                    languageCode,
+                    morphology
+                  ),
+                },
+              },
+            },
+          });
+          if (batch.length >= 500) {
+            await flush();
+          }
+        }
+        await flush();
+
+        return updated;
+      },
+      "Word",
+      languageId
+    );
+  }
+
+  async countByVariant(): Promise<
+    Array<{ languageId: string; variantId: string; count: number }>
+  > {
+    return DatabaseErrorHandler.handleAggregationOperation(async () => {
+      const results = await this.wordModel
+        .aggregate([
+          {
+            $match: {
+              status: "approved",
+              $or: [
+                { "variantIds.0": { $exists: true } },
+                { "variantForms.0": { $exists: true } },
+              ],
+            },
+          },
+          {
+            $project: {
+              languageId: 1,
+              variants: {
+                $setUnion: [
+                  { $ifNull: ["$variantIds", []] },
+                  { $ifNull: ["$variantForms.variantId", []] },
+                ],
+              },
+            },
+          },
+          { $unwind: "$variants" },
+          {
+            $group: {
+              _id: { languageId: "$languageId", variantId: "$variants" },
+              count: { $sum: 1 },
+            },
+          },
+          { $sort: { count: -1 } },
+        ])
+        .exec();
+
+      return results.map((result) => ({
+        languageId: String(result._id.languageId),
+        variantId: String(result._id.variantId),
+        count: result.count,
+      }));
+    }, "Word");
+  }
+
+  async findForVariantComparison(
+    languageId: string,
+    criteria: { wordIds?: string[]; gloss?: string; limit: number }
+  ): Promise<Word[]> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        const conditions: any[] = [];
+        const wordIds = (criteria.wordIds || []).filter((id) =>
+          Types.ObjectId.isValid(id)
+        );
+        if (wordIds.length) {
+          conditions.push({
+            _id: { $in: wordIds.map((id) => new Types.ObjectId(id)) },
+          });
+        }
+        if (criteria.gloss?.trim()) {
+          conditions.push({
+            "translations.translatedWord": {
+              $regex: `^${this.escapeRegexCharacters(criteria.gloss.trim())}$`,
+              $options: "i",
+            },
+          });
+        }
+        if (!conditions.length || !Types.ObjectId.isValid(languageId)) {
+          return [];
+        }
+
+        return this.wordModel
+          .find({
+            languageId: new Types.ObjectId(languageId),
+            status: { $ne: "rejected" },
+            $or: conditions,
+          })
+          .select(
+            "word pronunciation variantIds variantForms audioFiles meanings.phonetics status"
+          )
+          .limit(criteria.limit)
+          .lean<Word[]>()
+          .exec();
+      },
+      "Word",
+      languageId
+    );
+  }
+
+  async findSpellingsByLanguage(
+    languageId: string,
+    options: { afterId?: string; limit: number }
+  ): Promise<Word[]> {
+    return DatabaseErrorHandler.handleFindOperation(async () => {
+      if (!Types.ObjectId.isValid(languageId)) {
+        return [];
+      }
+      const filter: Record<string, any> = {
+        languageId: new Types.ObjectId(languageId),
+      };
+      if (options.afterId && Types.ObjectId.isValid(options.afterId)) {
+        filter._id = { $gt: new Types.ObjectId(options.afterId) };
+      }
+      return this.wordModel
+        .find(filter)
+        .select(
+          "word status variantForms.form meanings.grammaticalFeatures.pluralForms"
+        )
+        .sort({ _id: 1 })
+        .limit(options.limit)
+        .lean<Word[]>()
+        .exec();
+    }, "Word");
+  }
+
+  async findSummariesByIds(ids: string[]): Promise<
+    Array<{
+      _id: string;
+      word: string;
+      language?: string;
+      languageId?: string;
+      status: string;
+    }>
+  > {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        const validIds = ids.filter((id) => Types.ObjectId.isValid(id));
+        if (!validIds.length) {
+          return [];
+        }
+
+        const words = await this.wordModel
+          .find({ _id: { $in: validIds.map((id) => new Types.ObjectId(id)) } })
+          .select("word language languageId status")
+          .lean()
+          .exec();
+        return words.map((word: any) => ({
+          _id: String(word._id),
+          word: word.word,
+          language: word.language,
+          languageId: word.languageId ? String(word.languageId) : undefined,
+          status: word.status,
+        }));
+      },
+      "Word"
+    );
+  }
+
+  async deleteByImportBatch(
+    batchId: string
+  ): Promise<{ deleted: number; kept: number; deletedIds: string[] }> {
+    return DatabaseErrorHandler.handleDeleteOperation(
+      async () => {
+        const toDelete = await this.wordModel
+          .find({
+            importBatchId: batchId,
+            status: { $in: ["pending", "rejected"] },
+          })
+          .select("_id")
+          .lean()
+          .exec();
+        const deletedIds = toDelete.map((word) => String(word._id));
+
+        const result = await this.wordModel
+          .deleteMany({ _id: { $in: toDelete.map((word) => word._id) } })
+          .exec();
+        const kept = await this.wordModel
+          .countDocuments({ importBatchId: batchId })
+          .exec();
+        return { deleted: result.deletedCount || 0, kept, deletedIds };
+      },
+      "Word",
+      batchId
+    );
+  }
+
   async updateManyStatus(
     ids: string[],
     status: string,
@@ -991,6 +1816,23 @@ export class WordRepository implements IWordRepository {
     );
   }
 
+  /**
+   * Filtre des mots attestés dans au moins une des variantes données
+   * (forme principale ou forme propre à la variante)
+   */
+  private variantFilter(variantIds: string[]): Record<string, any> {
+    return {
+      $and: [
+        {
+          $or: [
+            { variantIds: { $in: variantIds } },
+            { "variantForms.variantId": { $in: variantIds } },
+          ],
+        },
+      ],
+    };
+  }
+
   /**
    * 🔒 Échappe les caractères spéciaux regex pour prévenir les attaques ReDoS
    *
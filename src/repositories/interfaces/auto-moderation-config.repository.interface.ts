@@ -0,0 +1,43 @@
+import { AutoModerationConfig } from "../../moderation/schemas/auto-moderation-config.schema";
+import { AutoModerationRules } from "../../common/utils/moderation-rules.util";
+
+/**
+ * 📦 INTERFACE AUTO MODERATION CONFIG REPOSITORY
+ *
+ * Contrat abstrait pour les versions de configuration de la modération
+ * automatique. Une version n'est jamais modifiée : une nouvelle
+ * configuration crée une nouvelle version, et revenir en arrière
+ * consiste à réactiver une version existante.
+ */
+export interface IAutoModerationConfigRepository {
+  /**
+   * Version actuellement appliquée
+   */
+  findActive(): Promise<AutoModerationConfig | null>;
+
+  /**
+   * Récupérer une version par son numéro
+   */
+  findByVersion(version: number): Promise<AutoModerationConfig | null>;
+
+  /**
+   * Historique des versions, les plus récentes d'abord
+   */
+  listVersions(limit: number): Promise<AutoModerationConfig[]>;
+
+  /**
+   * Enregistrer une nouvelle version et l'activer
+   */
+  createVersion(
+    rules: AutoModerationRules,
+    createdBy: string,
+    note?: string
+  ): Promise<AutoModerationConfig>;
+
+  /**
+   * Activer une version existante (désactive les autres)
+   *
+   * @returns La version activée, ou null si elle n'existe pas
+   */
+  activate(version: number): Promise<AutoModerationConfig | null>;
+}
@@ -0,0 +1,78 @@
+import {
+  AutoModeratedContentType,
+  AutoModerationDecision,
+} from "../../moderation/schemas/auto-moderation-decision.schema";
+import { ModerationRuleMatch } from "../../common/utils/moderation-rules.util";
+
+/**
+ * Décision automatique à enregistrer
+ */
+export interface AutoModerationDecisionData {
+  contentType: AutoModeratedContentType;
+  contentId: string;
+  authorId?: string;
+  trigger: "rules" | "reports";
+  action: "none" | "flag" | "hide";
+  score: number;
+  matches: ModerationRuleMatch[];
+  configVersion: number;
+  previousState?: Record<string, any>;
+  expiresAt?: Date;
+}
+
+/**
+ * Critères de recherche des décisions
+ */
+export interface AutoModerationDecisionFilters {
+  contentType?: AutoModeratedContentType;
+  contentId?: string;
+  action?: "flag" | "hide";
+  status?: "applied" | "reverted";
+}
+
+/**
+ * 📦 INTERFACE AUTO MODERATION DECISION REPOSITORY
+ *
+ * Contrat abstrait pour le journal des décisions de la modération
+ * automatique. Chaque décision appliquée peut être annulée une fois.
+ */
+export interface IAutoModerationDecisionRepository {
+  /**
+   * Enregistrer une décision
+   */
+  create(data: AutoModerationDecisionData): Promise<AutoModerationDecision>;
+
+  /**
+   * Récupérer une décision par ID
+   */
+  findById(id: string): Promise<AutoModerationDecision | null>;
+
+  /**
+   * Liste paginée des décisions avec action, les plus récentes d'abord
+   */
+  findMany(
+    filters: AutoModerationDecisionFilters,
+    options: { page: number; limit: number }
+  ): Promise<{ decisions: AutoModerationDecision[]; total: number }>;
+
+  /**
+   * Rattacher la décision au dossier de modération ouvert
+   */
+  attachCase(id: string, caseId: string): Promise<void>;
+
+  /**
+   * Marquer une décision appliquée comme annulée
+   *
+   * @returns La décision mise à jour, ou null si elle était déjà annulée
+   */
+  markReverted(
+    id: string,
+    revertedBy: string,
+    reason?: string
+  ): Promise<AutoModerationDecision | null>;
+
+  /**
+   * Contenus contrôlés pour un auteur depuis une date
+   */
+  countRecentByAuthor(authorId: string, since: Date): Promise<number>;
+}
@@ -0,0 +1,38 @@
+import {
+  CommunityEventRsvp,
+  RsvpStatus,
+} from "../../communities/schemas/community-event-rsvp.schema";
+
+/**
+ * 📅 INTERFACE COMMUNITY EVENT RSVP REPOSITORY
+ *
+ * Contrat abstrait pour l'accès aux réponses des membres aux événements.
+ */
+export interface ICommunityEventRsvpRepository {
+  findOne(eventId: string, userId: string): Promise<CommunityEventRsvp | null>;
+
+  /**
+   * Créer ou remplacer la réponse d'un membre
+   */
+  upsert(
+    eventId: string,
+    userId: string,
+    status: RsvpStatus,
+    waitlistedAt?: Date | null
+  ): Promise<CommunityEventRsvp>;
+
+  /**
+   * Réponses d'un événement, avec le nom et l'email des membres
+   */
+  findByEvent(
+    eventId: string,
+    status?: RsvpStatus
+  ): Promise<CommunityEventRsvp[]>;
+
+  countByStatus(eventId: string): Promise<Record<RsvpStatus, number>>;
+
+  /**
+   * Premier membre de la liste d'attente
+   */
+  findFirstWaitlisted(eventId: string): Promise<CommunityEventRsvp | null>;
+}
@@ -0,0 +1,76 @@
+import {
+  CommunityEvent,
+  CommunityEventSummary,
+  CommunityEventType,
+} from "../../communities/schemas/community-event.schema";
+
+/**
+ * 📅 INTERFACE COMMUNITY EVENT REPOSITORY
+ *
+ * Contrat abstrait pour l'accès aux événements des communautés.
+ */
+export interface ICommunityEventRepository {
+  create(data: {
+    communityId: string;
+    createdBy: string;
+    title: string;
+    description?: string;
+    type?: CommunityEventType;
+    startsAt: Date;
+    endsAt: Date;
+    timezone: string;
+    location?: string;
+    meetingUrl?: string;
+    capacity?: number | null;
+    reminderMinutesBefore?: number;
+  }): Promise<CommunityEvent>;
+
+  findById(id: string): Promise<CommunityEvent | null>;
+
+  /**
+   * Mettre à jour un événement et incrémenter sa révision
+   */
+  update(
+    id: string,
+    updateData: Partial<CommunityEvent>
+  ): Promise<CommunityEvent | null>;
+
+  /**
+   * Agenda d'une communauté, trié par date de début
+   */
+  findByCommunity(
+    communityId: string,
+    options?: {
+      from?: Date;
+      to?: Date;
+      includeCancelled?: boolean;
+      limit?: number;
+    }
+  ): Promise<CommunityEvent[]>;
+
+  /**
+   * Réserver une place de manière atomique
+   *
+   * @returns false si l'événement est complet ou annulé
+   */
+  reserveSeat(id: string): Promise<boolean>;
+
+  releaseSeat(id: string): Promise<void>;
+
+  /**
+   * Événements à venir dont l'heure de rappel est atteinte
+   */
+  findDueForReminder(now: Date, limit: number): Promise<CommunityEvent[]>;
+
+  /**
+   * Marquer le rappel comme envoyé, une seule fois par événement
+   *
+   * @returns false si une autre instance l'a déjà pris en charge
+   */
+  claimReminder(id: string): Promise<boolean>;
+
+  setSummary(
+    id: string,
+    summary: CommunityEventSummary
+  ): Promise<CommunityEvent | null>;
+}
@@ -0,0 +1,98 @@
+import { CorpusExample } from "../../corpus/schemas/corpus-example.schema";
+
+/**
+ * Données d'un exemple de corpus, champs de recherche déjà calculés
+ */
+export interface CorpusExampleData {
+  text: string;
+  languageId: string;
+  tokens: Array<{
+    form: string;
+    morphemes: Array<{
+      form: string;
+      gloss: string;
+      type?: string;
+      wordId?: string;
+    }>;
+  }>;
+  translations: Array<{ language: string; text: string }>;
+  source?: {
+    title?: string;
+    author?: string;
+    year?: number;
+    page?: string;
+    url?: string;
+  };
+  speaker?: {
+    name?: string;
+    dialect?: string;
+    location?: string;
+    ageRange?: string;
+  };
+  audio?: { url: string; cloudinaryId?: string; duration?: number };
+  tags: string[];
+  linkedWordIds: string[];
+  morphemeKeys: string[];
+  glossTags: string[];
+}
+
+/**
+ * Critères de recherche dans le corpus
+ */
+export interface CorpusSearchCriteria {
+  /** Clé de morphème normalisée */
+  morphemeKey?: string;
+  /** Étiquette de glose en minuscules (ex: "pst", "1sg") */
+  glossTag?: string;
+  /** Recherche plein texte sur la phrase et ses traductions */
+  text?: string;
+  languageId?: string;
+  page: number;
+  limit: number;
+}
+
+/**
+ * 📦 INTERFACE CORPUS EXAMPLE REPOSITORY
+ *
+ * Contrat abstrait pour l'accès aux exemples de corpus glosés.
+ */
+export interface ICorpusExampleRepository {
+  /**
+   * Créer un exemple
+   */
+  create(data: CorpusExampleData, userId: string): Promise<CorpusExample>;
+
+  /**
+   * Récupérer un exemple par ID (langue, auteur et mots liés peuplés)
+   */
+  findById(id: string): Promise<CorpusExample | null>;
+
+  /**
+   * Mettre à jour un exemple
+   */
+  update(
+    id: string,
+    data: Partial<CorpusExampleData>,
+    userId: string
+  ): Promise<CorpusExample | null>;
+
+  /**
+   * Supprimer un exemple
+   */
+  delete(id: string): Promise<boolean>;
+
+  /**
+   * Exemples dont un morphème renvoie au mot donné, du plus récent au plus ancien
+   */
+  findByWordId(
+    wordId: string,
+    options: { page: number; limit: number }
+  ): Promise<{ examples: CorpusExample[]; total: number }>;
+
+  /**
+   * Rechercher des exemples par morphème, glose ou texte
+   */
+  search(
+    criteria: CorpusSearchCriteria
+  ): Promise<{ examples: CorpusExample[]; total: number }>;
+}
@@ -0,0 +1,37 @@
+import {
+  MessageDeliveryEvent,
+  MessageDeliveryEventType,
+} from "../../messaging/schemas/message-delivery-event.schema";
+
+/**
+ * 📬 INTERFACE MESSAGE DELIVERY EVENT REPOSITORY
+ *
+ * Contrat abstrait pour la file de distribution des événements de
+ * messagerie, rejouée par les appareils à leur reconnexion.
+ */
+export interface IMessageDeliveryEventRepository {
+  /**
+   * Ajouter des événements aux files de leurs destinataires, chacun
+   * numéroté par le compteur de sa file
+   */
+  enqueue(
+    events: Array<{
+      userId: string;
+      type: MessageDeliveryEventType;
+      conversationId: string;
+      messageId?: string;
+      data?: Record<string, any>;
+    }>
+  ): Promise<void>;
+
+  /**
+   * Événements d'un utilisateur postérieurs au curseur (numéro d'ordre du
+   * dernier événement reçu), les plus anciens d'abord. La lecture s'arrête
+   * avant un numéro réservé dont l'écriture est encore en cours.
+   */
+  findForUser(
+    userId: string,
+    after: number | undefined,
+    limit: number
+  ): Promise<MessageDeliveryEvent[]>;
+}
@@ -1,4 +1,7 @@
-import { Message } from '../../messaging/schemas/message.schema';
+import {
+  Message,
+  MessageEncryption,
+} from '../../messaging/schemas/message.schema';
 import { SendMessageDto } from '../../messaging/dto/send-message.dto';
 
 /**
@@ -20,6 +23,7 @@ export interface IMessageRepository {
     content: string;
     messageType?: 'text' | 'image' | 'file' | 'system';
     metadata?: any;
+    encryption?: MessageEncryption;
   }): Promise<Message>;
   
   /**
@@ -27,6 +31,11 @@ export interface IMessageRepository {
    */
   findById(id: string): Promise<Message | null>;
   
+  /**
+   * Récupérer plusieurs messages par ID
+   */
+  findByIds(ids: string[]): Promise<Message[]>;
+  
   /**
    * Mettre à jour un message
    */
@@ -82,9 +91,28 @@ export interface IMessageRepository {
   markAsRead(messageId: string, userId: string): Promise<Message | null>;
   
   /**
-   * Marquer tous les messages d'une conversation comme lus
+   * Marquer tous les messages d'une conversation comme lus, avec un
+   * accusé de lecture pour l'appareil
+   *
+   * @returns Nombre de messages que l'utilisateur n'avait pas encore lus
+   */
+  markConversationAsRead(conversationId: string, userId: string, deviceId?: string): Promise<number>;
+  
+  /**
+   * Ajouter un accusé de réception de l'appareil aux messages qui n'en
+   * ont pas encore
+   */
+  addDeliveryReceipts(messageIds: string[], userId: string, deviceId: string): Promise<number>;
+  
+  /**
+   * Résumé des lectures d'une conversation par participant
    */
-  markConversationAsRead(conversationId: string, userId: string): Promise<number>;
+  getReadReceipts(conversationId: string, userIds: string[]): Promise<Array<{
+    userId: string;
+    lastReadMessageId: string | null;
+    lastReadAt: Date | null;
+    unreadCount: number;
+  }>>;
   
   /**
    * Récupérer les messages non lus pour un utilisateur
@@ -0,0 +1,93 @@
+import {
+  AppealableDecisionType,
+  ModerationAppeal,
+  ModerationAppealStatus,
+} from "../../moderation/schemas/moderation-appeal.schema";
+
+/**
+ * Données d'un appel à enregistrer
+ */
+export interface ModerationAppealData {
+  decisionType: AppealableDecisionType;
+  targetId: string;
+  wordId?: string;
+  appellantId: string;
+  originalModeratorId?: string;
+  originalReason?: string;
+  decidedAt?: Date;
+  statement: string;
+  previousState?: Record<string, any>;
+  assignedTo?: string;
+}
+
+/**
+ * Critères de recherche des appels
+ */
+export interface ModerationAppealFilters {
+  status?: ModerationAppealStatus;
+  decisionType?: AppealableDecisionType;
+  appellantId?: string;
+  assignedTo?: string;
+}
+
+/**
+ * 📦 INTERFACE MODERATION APPEAL REPOSITORY
+ *
+ * Contrat abstrait pour l'accès aux appels de décisions de modération.
+ * Attribution et résolution ne s'appliquent qu'aux appels en cours.
+ */
+export interface IModerationAppealRepository {
+  /**
+   * Enregistrer un appel
+   */
+  create(data: ModerationAppealData): Promise<ModerationAppeal>;
+
+  /**
+   * Récupérer un appel par ID
+   */
+  findById(id: string): Promise<ModerationAppeal | null>;
+
+  /**
+   * Appel le plus récent visant une décision
+   */
+  findLatestForDecision(
+    decisionType: AppealableDecisionType,
+    targetId: string
+  ): Promise<ModerationAppeal | null>;
+
+  /**
+   * Liste paginée des appels, les plus anciens d'abord
+   */
+  findMany(
+    filters: ModerationAppealFilters,
+    options: { page: number; limit: number }
+  ): Promise<{ appeals: ModerationAppeal[]; total: number }>;
+
+  /**
+   * Nombre d'appels en cours attribués à chacun des modérateurs
+   */
+  countPendingByAssignee(
+    moderatorIds: string[]
+  ): Promise<Record<string, number>>;
+
+  /**
+   * Attribuer un appel en cours
+   *
+   * @returns L'appel mis à jour, ou null s'il a été tranché entre-temps
+   */
+  assign(id: string, moderatorId: string): Promise<ModerationAppeal | null>;
+
+  /**
+   * Trancher un appel en cours
+   *
+   * @returns L'appel mis à jour, ou null s'il a été tranché entre-temps
+   */
+  resolve(
+    id: string,
+    resolution: {
+      status: Exclude<ModerationAppealStatus, "pending">;
+      resolvedBy: string;
+      resolutionNote?: string;
+    }
+  ): Promise<ModerationAppeal | null>;
+}
@@ -0,0 +1,164 @@
+import {
+  ModerationCase,
+  ModerationCaseAction,
+  ModerationCaseReport,
+  ModerationCaseStatus,
+  ModerationContentType,
+  ModerationSeverity,
+} from "../../moderation/schemas/moderation-case.schema";
+
+/**
+ * Données d'un dossier à ouvrir sur un premier signalement
+ */
+export interface ModerationCaseData {
+  contentType: ModerationContentType;
+  contentId: string;
+  severity: ModerationSeverity;
+  slaDueAt: Date;
+  /** Signaleur absent pour un signalement automatique */
+  report: Omit<ModerationCaseReport, "reportedBy"> & { reportedBy?: string };
+  autoFlagged?: boolean;
+  autoDecisionId?: string;
+  contentHidden?: boolean;
+}
+
+/**
+ * Réévaluation de la gravité d'un dossier lors d'une fusion
+ */
+export interface ModerationCaseEscalation {
+  severity: ModerationSeverity;
+  slaDueAt: Date;
+}
+
+/**
+ * Entrée du journal à ajouter avec un changement d'état
+ */
+export type ModerationCaseActionData = Omit<
+  ModerationCaseAction,
+  "actorId" | "at"
+> & { actorId?: string };
+
+/**
+ * Critères de recherche des dossiers
+ */
+export interface ModerationCaseFilters {
+  statuses?: ModerationCaseStatus[];
+  contentType?: ModerationContentType;
+  severity?: ModerationSeverity;
+  reportedBy?: string;
+  assignedTo?: string;
+  autoFlagged?: boolean;
+  /** Priorité minimale (voir `SEVERITY_PRIORITY`) */
+  minPriority?: number;
+}
+
+/**
+ * Statistiques agrégées des dossiers ouverts sur une période
+ */
+export interface ModerationCaseStats {
+  total: number;
+  byStatus: Record<string, number>;
+  bySeverity: Record<string, number>;
+  byReason: Array<{ reason: string; count: number }>;
+  /** Durée moyenne entre ouverture et clôture, en heures */
+  averageResolutionHours: number;
+  /** Dossiers actifs en retard ou clos après leur échéance */
+  slaBreached: number;
+  moderators: Array<{
+    moderatorId: string;
+    actionsCount: number;
+    averageResponseHours: number;
+  }>;
+}
+
+/**
+ * 📦 INTERFACE MODERATION CASE REPOSITORY
+ *
+ * Contrat abstrait pour l'accès aux dossiers de modération.
+ * Les changements d'état sont conditionnels au statut courant et
+ * ajoutent toujours une entrée au journal des actions.
+ */
+export interface IModerationCaseRepository {
+  /**
+   * Ouvrir un dossier avec son premier signalement
+   * (null si un dossier actif a été ouvert en parallèle pour ce contenu)
+   */
+  create(data: ModerationCaseData): Promise<ModerationCase | null>;
+
+  /**
+   * Récupérer un dossier par ID
+   */
+  findById(id: string): Promise<ModerationCase | null>;
+
+  /**
+   * Dossier actif (non clos) d'un contenu
+   */
+  findActiveByContent(
+    contentType: ModerationContentType,
+    contentId: string
+  ): Promise<ModerationCase | null>;
+
+  /**
+   * Fusionner un signalement dans un dossier actif
+   *
+   * @returns Le dossier mis à jour, ou null s'il est clos ou si
+   *          l'utilisateur l'a déjà signalé
+   */
+  addReport(
+    caseId: string,
+    report: ModerationCaseData["report"],
+    escalation?: ModerationCaseEscalation
+  ): Promise<ModerationCase | null>;
+
+  /**
+   * Changer l'état d'un dossier s'il est dans l'un des statuts attendus
+   * (le statut lui-même peut rester inchangé)
+   *
+   * @returns Le dossier mis à jour, ou null si le statut a changé entre-temps
+   */
+  transition(
+    caseId: string,
+    fromStatuses: ModerationCaseStatus[],
+    changes: Partial<{
+      status: ModerationCaseStatus;
+      assignedTo: string | null;
+      assignedAt: Date;
+      escalatedAt: Date;
+      closedBy: string;
+      closedAt: Date;
+      resolution: ModerationCase["resolution"];
+      contentHidden: boolean;
+      autoDecisionId: string;
+    }>,
+    action: ModerationCaseActionData
+  ): Promise<ModerationCase | null>;
+
+  /**
+   * Liste paginée des dossiers, les plus récents d'abord
+   */
+  findMany(
+    filters: ModerationCaseFilters,
+    options: { page: number; limit: number }
+  ): Promise<{ cases: ModerationCase[]; total: number }>;
+
+  /**
+   * File d'attente : dossiers actifs par gravité puis échéance
+   */
+  findQueue(
+    filters: ModerationCaseFilters,
+    limit: number
+  ): Promise<{ cases: ModerationCase[]; total: number }>;
+
+  /**
+   * Issue des dossiers clos signalés par un utilisateur : fondés (action
+   * sur le contenu) ou non (classés ou contenu approuvé)
+   */
+  countReporterOutcomes(
+    userId: string
+  ): Promise<{ upheld: number; dismissed: number }>;
+
+  /**
+   * Statistiques des dossiers ouverts dans l'intervalle
+   */
+  getStats(since: Date, until?: Date): Promise<ModerationCaseStats>;
+}
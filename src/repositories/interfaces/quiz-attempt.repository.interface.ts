@@ -0,0 +1,72 @@
+import {
+  QuizAttempt,
+  QuizAttemptItem,
+} from "../../quiz/schemas/quiz-attempt.schema";
+import { QuizItemType } from "../../common/utils/quiz-generator.util";
+
+/**
+ * Bilan des quiz terminés d'un utilisateur
+ */
+export interface QuizAttemptSummary {
+  completed: number;
+  averageScore: number | null;
+  bestScore: number | null;
+  perfect: number;
+  byType: Record<QuizItemType, { answered: number; correct: number }>;
+}
+
+/**
+ * 📦 INTERFACE QUIZ ATTEMPT REPOSITORY
+ *
+ * Contrat abstrait pour l'accès aux tentatives de quiz. La correction
+ * n'est enregistrée que sur une tentative en cours.
+ */
+export interface IQuizAttemptRepository {
+  create(data: {
+    userId: string;
+    languageId: string;
+    targetLanguageId?: string;
+    categoryId?: string;
+    items: QuizAttemptItem[];
+  }): Promise<QuizAttempt>;
+
+  findById(id: string): Promise<QuizAttempt | null>;
+
+  /**
+   * Enregistrer la correction d'une tentative en cours
+   *
+   * @returns La tentative corrigée, ou null si elle l'était déjà
+   */
+  complete(
+    id: string,
+    result: {
+      items: QuizAttemptItem[];
+      correctCount: number;
+      score: number;
+      durationMs?: number;
+    }
+  ): Promise<QuizAttempt | null>;
+
+  /**
+   * Enregistrer l'XP attribué à la correction
+   */
+  setXpAwarded(id: string, xp: number): Promise<void>;
+
+  /**
+   * Tentatives terminées d'un utilisateur, les plus récentes d'abord
+   */
+  findCompletedByUser(
+    userId: string,
+    options: { page: number; limit: number }
+  ): Promise<{ attempts: QuizAttempt[]; total: number }>;
+
+  /**
+   * Nombre de quiz terminés (éventuellement sans faute)
+   */
+  countCompleted(
+    userId: string,
+    options?: { perfectOnly?: boolean }
+  ): Promise<number>;
+
+  getSummary(userId: string): Promise<QuizAttemptSummary>;
+}
@@ -0,0 +1,35 @@
+import { SavedSearch } from "../../search/schemas/saved-search.schema";
+
+export interface CreateSavedSearchData {
+  userId: string;
+  name: string;
+  query: string;
+  filters?: Record<string, any>;
+}
+
+/**
+ * ⭐ INTERFACE SAVED SEARCH REPOSITORY
+ *
+ * Contrat abstrait pour l'accès aux recherches sauvegardées des utilisateurs.
+ */
+export interface ISavedSearchRepository {
+  /**
+   * Sauvegarder une recherche
+   */
+  create(data: CreateSavedSearchData): Promise<SavedSearch>;
+
+  /**
+   * Récupérer les recherches sauvegardées d'un utilisateur
+   */
+  findByUser(userId: string): Promise<SavedSearch[]>;
+
+  /**
+   * Supprimer une recherche sauvegardée d'un utilisateur
+   */
+  deleteByIdForUser(userId: string, id: string): Promise<boolean>;
+
+  /**
+   * Marquer comme utilisées les recherches sauvegardées correspondant à une requête
+   */
+  markUsed(userId: string, query: string): Promise<number>;
+}
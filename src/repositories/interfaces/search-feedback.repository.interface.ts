@@ -0,0 +1,23 @@
+import { SearchFeedback } from "../../search/schemas/search-feedback.schema";
+
+export interface CreateSearchFeedbackData {
+  userId?: string;
+  query: string;
+  searchId?: string;
+  rating: number;
+  feedback?: string;
+  relevantResults?: string[];
+  irrelevantResults?: string[];
+}
+
+/**
+ * 💬 INTERFACE SEARCH FEEDBACK REPOSITORY
+ *
+ * Contrat abstrait pour l'accès aux retours sur la qualité de la recherche.
+ */
+export interface ISearchFeedbackRepository {
+  /**
+   * Enregistrer un retour utilisateur
+   */
+  create(data: CreateSearchFeedbackData): Promise<SearchFeedback>;
+}
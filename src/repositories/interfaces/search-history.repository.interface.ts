@@ -0,0 +1,108 @@
+import { SearchHistory } from "../../search/schemas/search-history.schema";
+
+export interface CreateSearchHistoryData {
+  userId?: string;
+  query: string;
+  filters?: Record<string, any>;
+  resultsCount: number;
+  clickedResults?: string[];
+  searchDuration?: number;
+}
+
+export interface SearchQueryAggregate {
+  query: string;
+  searchCount: number;
+  uniqueUsers: number;
+  languages: string[];
+  categories: string[];
+}
+
+export interface UserSearchStats {
+  totalSearches: number;
+  uniqueQueries: number;
+  averageResultsPerSearch: number;
+  searchesWithoutClick: number;
+  mostSearchedTerms: Array<{ term: string; count: number }>;
+  languageDistribution: Array<{ language: string; searchCount: number }>;
+  hourDistribution: Array<{ hour: number; count: number }>;
+}
+
+/**
+ * 🔍 INTERFACE SEARCH HISTORY REPOSITORY
+ *
+ * Contrat abstrait pour l'accès aux recherches effectuées.
+ * Sert à la fois l'historique personnel et les analytics globales
+ * (tendances, termes populaires) calculées par agrégation.
+ */
+export interface ISearchHistoryRepository {
+  // ========== CRUD DE BASE ==========
+
+  /**
+   * Enregistrer une recherche effectuée
+   */
+  create(data: CreateSearchHistoryData): Promise<SearchHistory>;
+
+  /**
+   * Supprimer une entrée de l'historique d'un utilisateur
+   */
+  deleteByIdForUser(userId: string, id: string): Promise<boolean>;
+
+  /**
+   * Vider l'historique d'un utilisateur
+   */
+  deleteByUser(userId: string): Promise<number>;
+
+  // ========== HISTORIQUE PERSONNEL ==========
+
+  /**
+   * Récupérer l'historique d'un utilisateur (plus récent en premier)
+   */
+  findByUser(
+    userId: string,
+    options?: {
+      limit?: number;
+      language?: string;
+    }
+  ): Promise<{
+    entries: SearchHistory[];
+    total: number;
+  }>;
+
+  /**
+   * Récupérer les requêtes récentes d'un utilisateur contenant un terme
+   */
+  findRecentByUserMatching(
+    userId: string,
+    query: string,
+    limit: number
+  ): Promise<SearchHistory[]>;
+
+  // ========== AGRÉGATIONS ==========
+
+  /**
+   * Regrouper les recherches par requête sur une période
+   */
+  aggregateQueries(options: {
+    since: Date;
+    until?: Date;
+    language?: string;
+    category?: string;
+    queries?: string[];
+    matching?: string;
+    limit?: number;
+  }): Promise<SearchQueryAggregate[]>;
+
+  /**
+   * Compter le nombre de requêtes distinctes sur une période
+   */
+  countDistinctQueries(options: {
+    since?: Date;
+    language?: string;
+    category?: string;
+  }): Promise<number>;
+
+  /**
+   * Statistiques de recherche d'un utilisateur depuis une date
+   */
+  getUserStats(userId: string, since: Date): Promise<UserSearchStats>;
+}
@@ -0,0 +1,87 @@
+import { StudyCard } from "../../study/schemas/study-card.schema";
+import {
+  CardState,
+  SchedulingState,
+} from "../../common/utils/spaced-repetition.util";
+
+/**
+ * Répartition des cartes d'un utilisateur
+ */
+export interface StudyCardCounts {
+  total: number;
+  byState: Record<CardState, number>;
+  /** Cartes révisées dont l'intervalle atteint le seuil de maturité */
+  mature: number;
+  /** Cartes déjà apprises arrivées à échéance */
+  due: number;
+  /** Probabilité de rappel moyenne estimée des cartes apprises */
+  estimatedRetention: number | null;
+}
+
+/**
+ * 📦 INTERFACE STUDY CARD REPOSITORY
+ *
+ * Contrat abstrait pour l'accès aux cartes de révision. Les mots des
+ * cartes renvoyées par les files sont peuplés (mot, langue,
+ * prononciation, sens, audio).
+ */
+export interface IStudyCardRepository {
+  /**
+   * Ajouter au paquet les mots qui n'y sont pas encore
+   *
+   * @returns Nombre de cartes créées
+   */
+  addWords(userId: string, deckId: string, wordIds: string[]): Promise<number>;
+
+  findById(id: string): Promise<StudyCard | null>;
+
+  /**
+   * Cartes de plusieurs IDs, dans un ordre quelconque
+   */
+  findByIds(ids: string[]): Promise<StudyCard[]>;
+
+  /**
+   * Cartes déjà vues arrivées à échéance, les plus en retard d'abord
+   */
+  findDue(deckId: string, now: Date, limit: number): Promise<StudyCard[]>;
+
+  /**
+   * Nouvelles cartes, dans l'ordre d'ajout au paquet
+   */
+  findNew(deckId: string, limit: number): Promise<StudyCard[]>;
+
+  /**
+   * Nouvelles cartes vues pour la première fois depuis une date
+   */
+  countIntroducedSince(deckId: string, since: Date): Promise<number>;
+
+  countByDeck(deckId: string): Promise<number>;
+
+  /**
+   * Cartes échues et nouvelles cartes de chaque paquet d'un utilisateur
+   */
+  countQueuesByDeck(
+    userId: string,
+    now: Date
+  ): Promise<Record<string, { due: number; new: number }>>;
+
+  /**
+   * Répartition et rétention estimée des cartes d'un utilisateur
+   */
+  getCounts(userId: string, now: Date): Promise<StudyCardCounts>;
+
+  /**
+   * Enregistrer le nouvel état de planification
+   *
+   * @param expectedUpdatedAt Si fourni, l'écriture n'a lieu que si la
+   *   carte n'a pas été modifiée entre-temps (double évaluation)
+   * @returns La carte mise à jour, ou null si elle a changé entre-temps
+   */
+  updateSchedule(
+    id: string,
+    schedule: SchedulingState & { lastReviewedAt: Date; introducedAt?: Date },
+    expectedUpdatedAt?: Date
+  ): Promise<StudyCard | null>;
+
+  deleteByDeck(deckId: string): Promise<number>;
+}
@@ -0,0 +1,47 @@
+import {
+  StudyDeck,
+  StudyDeckSource,
+} from "../../study/schemas/study-deck.schema";
+
+/**
+ * 📦 INTERFACE STUDY DECK REPOSITORY
+ *
+ * Contrat abstrait pour l'accès aux paquets de révision espacée.
+ */
+export interface IStudyDeckRepository {
+  /**
+   * Enregistrer un paquet
+   */
+  create(data: {
+    userId: string;
+    name: string;
+    description?: string;
+    source: StudyDeckSource;
+    newCardsPerDay?: number;
+  }): Promise<StudyDeck>;
+
+  /**
+   * Récupérer un paquet par ID
+   */
+  findById(id: string): Promise<StudyDeck | null>;
+
+  /**
+   * Paquets d'un utilisateur, les plus récents d'abord
+   */
+  findByUser(userId: string): Promise<StudyDeck[]>;
+
+  /**
+   * Modifier le nom, la description ou le rythme de nouvelles cartes
+   */
+  update(
+    id: string,
+    data: Partial<Pick<StudyDeck, "name" | "description" | "newCardsPerDay">>
+  ): Promise<StudyDeck | null>;
+
+  /**
+   * Enregistrer le résultat d'une synchronisation avec la source
+   */
+  markSynced(id: string, cardCount: number): Promise<StudyDeck | null>;
+
+  delete(id: string): Promise<boolean>;
+}
@@ -0,0 +1,68 @@
+import { StudyReview } from "../../study/schemas/study-review.schema";
+import {
+  CardState,
+  RecallGrade,
+} from "../../common/utils/spaced-repetition.util";
+
+/**
+ * Bilan des révisions d'un utilisateur sur une période
+ */
+export interface StudyReviewSummary {
+  total: number;
+  byGrade: Record<RecallGrade, number>;
+  /** Révisions de cartes déjà apprises (état `review` avant évaluation) */
+  matureReviews: number;
+  /** Parmi elles, celles qui n'ont pas été oubliées */
+  matureRecalled: number;
+  totalDurationMs: number;
+}
+
+/**
+ * 📦 INTERFACE STUDY REVIEW REPOSITORY
+ *
+ * Contrat abstrait pour l'accès au journal des révisions.
+ */
+export interface IStudyReviewRepository {
+  /**
+   * Journaliser une évaluation
+   */
+  create(data: {
+    userId: string;
+    deckId: string;
+    cardId: string;
+    wordId: string;
+    sessionId?: string;
+    grade: RecallGrade;
+    previousState: CardState;
+    state: CardState;
+    interval: number;
+    elapsedDays: number;
+    durationMs?: number;
+  }): Promise<StudyReview>;
+
+  /**
+   * Bilan des révisions depuis une date
+   */
+  summarize(userId: string, since: Date): Promise<StudyReviewSummary>;
+
+  /**
+   * Nombre de révisions par jour (AAAA-MM-JJ, UTC) depuis une date
+   */
+  countByDay(
+    userId: string,
+    since: Date
+  ): Promise<Array<{ date: string; reviews: number }>>;
+
+  /**
+   * Mots appris (première évaluation d'une carte nouvelle) par un groupe
+   * d'utilisateurs sur une période, les plus partagés d'abord
+   */
+  findWordsLearned(
+    userIds: string[],
+    from: Date,
+    to: Date,
+    limit: number
+  ): Promise<Array<{ wordId: string; learnerCount: number }>>;
+
+  deleteByDeck(deckId: string): Promise<number>;
+}
@@ -0,0 +1,42 @@
+import { StudySession } from "../../study/schemas/study-session.schema";
+
+/**
+ * 📦 INTERFACE STUDY SESSION REPOSITORY
+ *
+ * Contrat abstrait pour l'accès aux séances de révision. Les compteurs
+ * ne progressent et la clôture n'a lieu que sur une séance active.
+ */
+export interface IStudySessionRepository {
+  /**
+   * Ouvrir une séance avec sa file de cartes
+   */
+  create(data: {
+    userId: string;
+    deckId: string;
+    cardIds: string[];
+  }): Promise<StudySession>;
+
+  findById(id: string): Promise<StudySession | null>;
+
+  /**
+   * Cumuler une évaluation
+   */
+  recordReview(
+    id: string,
+    review: { correct: boolean; isNew: boolean }
+  ): Promise<StudySession | null>;
+
+  /**
+   * Clôturer une séance active
+   *
+   * @returns La séance clôturée, ou null si elle l'était déjà
+   */
+  complete(id: string): Promise<StudySession | null>;
+
+  /**
+   * Enregistrer l'XP attribué à la clôture
+   */
+  setXpAwarded(id: string, xp: number): Promise<void>;
+
+  deleteByDeck(deckId: string): Promise<number>;
+}
@@ -1,4 +1,8 @@
-import { User } from "../../users/schemas/user.schema";
+import {
+  DeviceKey,
+  OneTimePreKey,
+  User,
+} from "../../users/schemas/user.schema";
 import { RegisterDto } from "../../users/dto/register.dto";
 
 /**
@@ -144,6 +148,43 @@ export interface IUserRepository {
    */
   incrementWordCount(userId: string): Promise<boolean>;
 
+  // ========== CHIFFREMENT DE BOUT EN BOUT ==========
+
+  /**
+   * Appareils inscrits au chiffrement de bout en bout d'un utilisateur
+   */
+  findDeviceKeys(userId: string): Promise<DeviceKey[]>;
+
+  /**
+   * Inscrire un appareil, ou remplacer ses clés s'il est déjà inscrit
+   */
+  saveDeviceKey(userId: string, device: DeviceKey): Promise<boolean>;
+
+  /**
+   * Retirer un appareil
+   */
+  removeDeviceKey(userId: string, deviceId: string): Promise<boolean>;
+
+  /**
+   * Ajouter des pré-clés à usage unique à un appareil, en ne conservant
+   * que les `max` plus récentes
+   */
+  addOneTimePreKeys(
+    userId: string,
+    deviceId: string,
+    keys: OneTimePreKey[],
+    max: number
+  ): Promise<boolean>;
+
+  /**
+   * Retirer et renvoyer la plus ancienne pré-clé à usage unique d'un
+   * appareil (null si sa réserve est épuisée)
+   */
+  claimOneTimePreKey(
+    userId: string,
+    deviceId: string
+  ): Promise<OneTimePreKey | null>;
+
   // ========== STATISTIQUES ==========
 
   /**
@@ -0,0 +1,27 @@
+/**
+ * 📦 INTERFACE WORD COMMENT LIKE REPOSITORY
+ *
+ * Contrat abstrait pour l'accès aux likes de commentaires sur mots.
+ */
+export interface IWordCommentLikeRepository {
+  /**
+   * Ajouter ou retirer le like d'un utilisateur
+   *
+   * @returns L'état final et si un like a réellement été ajouté ou retiré
+   *   (faux quand une requête concurrente a déjà effectué le changement)
+   */
+  toggle(
+    commentId: string,
+    userId: string
+  ): Promise<{ liked: boolean; changed: boolean }>;
+
+  /**
+   * Parmi les commentaires donnés, ceux que l'utilisateur a likés
+   */
+  findLikedCommentIds(userId: string, commentIds: string[]): Promise<string[]>;
+
+  /**
+   * Supprimer les likes d'un commentaire
+   */
+  deleteByComment(commentId: string): Promise<number>;
+}
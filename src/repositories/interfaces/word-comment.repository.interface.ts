@@ -0,0 +1,105 @@
+import { WordComment } from "../../social/schemas/word-comment.schema";
+
+export type WordCommentSort =
+  | "newest"
+  | "oldest"
+  | "most_liked"
+  | "most_replies";
+
+/**
+ * Page de commentaires ; `nextCursor` est null sur la dernière page
+ */
+export interface WordCommentPage {
+  comments: WordComment[];
+  total: number;
+  nextCursor: string | null;
+}
+
+/**
+ * 📦 INTERFACE WORD COMMENT REPOSITORY
+ *
+ * Contrat abstrait pour l'accès aux commentaires sur mots, organisés en
+ * fils : les racines sont paginées selon le tri demandé, les réponses
+ * d'un fil dans l'ordre chronologique. Les auteurs sont peuplés
+ * (username, profilePicture, role).
+ */
+export interface IWordCommentRepository {
+  /**
+   * Enregistrer un commentaire ou une réponse
+   */
+  create(data: {
+    wordId: string;
+    authorId: string;
+    content: string;
+    parentId?: string;
+    rootId?: string;
+  }): Promise<WordComment>;
+
+  /**
+   * Récupérer un commentaire par ID
+   */
+  findById(id: string): Promise<WordComment | null>;
+
+  /**
+   * Commentaires racines d'un mot
+   *
+   * Le curseur, s'il est fourni et valide, prime sur le numéro de page.
+   */
+  findThreads(
+    wordId: string,
+    options: {
+      sort: WordCommentSort;
+      limit: number;
+      page?: number;
+      cursor?: string;
+    }
+  ): Promise<WordCommentPage>;
+
+  /**
+   * Réponses d'un fil, les plus anciennes d'abord
+   */
+  findReplies(
+    rootId: string,
+    options: { limit: number; cursor?: string }
+  ): Promise<WordCommentPage>;
+
+  /**
+   * Premières réponses de plusieurs fils, indexées par ID de racine
+   */
+  findReplyPreviews(
+    rootIds: string[],
+    perThread: number
+  ): Promise<Record<string, WordComment[]>>;
+
+  /**
+   * Indique si d'autres commentaires répondent directement à celui-ci
+   */
+  hasReplies(id: string): Promise<boolean>;
+
+  /**
+   * Remplacer le contenu en archivant l'ancien dans l'historique
+   *
+   * @returns Le commentaire modifié, ou null s'il est absent ou supprimé
+   */
+  updateContent(id: string, content: string): Promise<WordComment | null>;
+
+  /**
+   * Ajuster les compteurs de likes et de réponses
+   */
+  incrementCounters(
+    id: string,
+    deltas: { likesCount?: number; repliesCount?: number }
+  ): Promise<WordComment | null>;
+
+  /**
+   * Vider un commentaire tout en conservant sa place dans le fil
+   */
+  softDelete(id: string): Promise<WordComment | null>;
+
+  delete(id: string): Promise<boolean>;
+
+  /**
+   * Indique si l'utilisateur a commenté le mot
+   */
+  hasUserCommented(wordId: string, userId: string): Promise<boolean>;
+}
@@ -0,0 +1,58 @@
+import { WordImportBatch } from "../../dictionary/schemas/word-import-batch.schema";
+
+export interface CreateWordImportBatchData {
+  batchId: string;
+  format: string;
+  fileName?: string;
+  createdBy: string;
+  languages: string[];
+  summary: {
+    total: number;
+    created: number;
+    duplicates: number;
+    errors: number;
+  };
+}
+
+/**
+ * 📦 INTERFACE WORD IMPORT BATCH REPOSITORY
+ *
+ * Contrat abstrait pour l'accès aux lots d'import de dictionnaire.
+ */
+export interface IWordImportBatchRepository {
+  /**
+   * Enregistrer un lot d'import
+   */
+  create(data: CreateWordImportBatchData): Promise<WordImportBatch>;
+
+  /**
+   * Récupérer un lot par son identifiant public
+   */
+  findByBatchId(batchId: string): Promise<WordImportBatch | null>;
+
+  /**
+   * Lister les lots (tous, ou ceux d'un utilisateur), du plus récent au plus ancien
+   */
+  findAll(options: {
+    createdBy?: string;
+    page: number;
+    limit: number;
+  }): Promise<{ batches: WordImportBatch[]; total: number }>;
+
+  /**
+   * Mettre à jour le bilan d'un lot une fois les mots créés
+   */
+  updateSummary(
+    batchId: string,
+    summary: CreateWordImportBatchData["summary"]
+  ): Promise<WordImportBatch | null>;
+
+  /**
+   * Marquer un lot comme annulé
+   */
+  markRolledBack(
+    batchId: string,
+    userId: string,
+    deletedCount: number
+  ): Promise<WordImportBatch | null>;
+}
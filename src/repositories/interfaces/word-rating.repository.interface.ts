@@ -0,0 +1,31 @@
+import { WordRating } from "../../social/schemas/word-rating.schema";
+
+/**
+ * 📦 INTERFACE WORD RATING REPOSITORY
+ *
+ * Contrat abstrait pour l'accès aux notes attribuées aux mots (une note
+ * par utilisateur et par mot).
+ */
+export interface IWordRatingRepository {
+  /**
+   * Enregistrer ou remplacer la note d'un utilisateur
+   *
+   * @returns La note précédente, ou null s'il s'agit d'une première note
+   */
+  upsert(
+    wordId: string,
+    userId: string,
+    rating: number,
+    comment?: string
+  ): Promise<number | null>;
+
+  /**
+   * Note attribuée par l'utilisateur
+   */
+  findUserRating(wordId: string, userId: string): Promise<WordRating | null>;
+
+  /**
+   * Nombre de notes par valeur ("1" à "5")
+   */
+  getDistribution(wordId: string): Promise<Record<string, number>>;
+}
@@ -0,0 +1,64 @@
+import { WordRelation } from "../../dictionary/schemas/word-relation.schema";
+
+/**
+ * Données d'un sens de relation à créer
+ */
+export interface WordRelationData {
+  sourceWordId: string;
+  targetWordId: string;
+  type: string;
+  pairId: string;
+  isReciprocal: boolean;
+  note?: string;
+}
+
+/**
+ * 📦 INTERFACE WORD RELATION REPOSITORY
+ *
+ * Contrat abstrait pour l'accès au graphe de relations entre mots.
+ */
+export interface IWordRelationRepository {
+  /**
+   * Créer les deux sens d'une relation
+   */
+  createPair(
+    relations: [WordRelationData, WordRelationData],
+    userId: string
+  ): Promise<WordRelation[]>;
+
+  /**
+   * Récupérer un sens de relation par ID
+   */
+  findById(id: string): Promise<WordRelation | null>;
+
+  /**
+   * Relations existantes entre deux mots, dans le sens source → cible
+   */
+  findBetween(
+    sourceWordId: string,
+    targetWordId: string
+  ): Promise<WordRelation[]>;
+
+  /**
+   * Relations sortantes d'un ensemble de mots (parcours du graphe)
+   */
+  findBySourceWordIds(
+    wordIds: string[],
+    types?: string[]
+  ): Promise<WordRelation[]>;
+
+  /**
+   * Supprimer les deux sens d'une relation
+   *
+   * @returns Nombre de documents supprimés
+   */
+  deletePair(pairId: string): Promise<number>;
+
+  /**
+   * Supprimer toutes les relations touchant les mots donnés
+   * (intégrité du graphe après suppression de mots)
+   *
+   * @returns Nombre de documents supprimés
+   */
+  deleteByWordIds(wordIds: string[]): Promise<number>;
+}
@@ -0,0 +1,26 @@
+import {
+  WordShare,
+  WordSharePlatform,
+} from "../../social/schemas/word-share.schema";
+
+/**
+ * 📦 INTERFACE WORD SHARE REPOSITORY
+ *
+ * Contrat abstrait pour l'accès aux partages de mots.
+ */
+export interface IWordShareRepository {
+  /**
+   * Enregistrer un partage
+   */
+  create(data: {
+    wordId: string;
+    userId: string;
+    platform: WordSharePlatform;
+    message?: string;
+  }): Promise<WordShare>;
+
+  /**
+   * Indique si l'utilisateur a partagé le mot
+   */
+  hasUserShared(wordId: string, userId: string): Promise<boolean>;
+}
@@ -0,0 +1,18 @@
+import { WordTombstone } from "../../offline/schemas/word-tombstone.schema";
+
+/**
+ * 📦 INTERFACE WORD TOMBSTONE REPOSITORY
+ *
+ * Contrat abstrait pour l'accès aux pierres tombales des mots supprimés.
+ * Elles sont écrites par les hooks de suppression du schéma `Word`.
+ */
+export interface IWordTombstoneRepository {
+  /**
+   * Pierres tombales des langues depuis une date, les plus anciennes d'abord
+   */
+  findSince(
+    languageIds: string[],
+    since: Date,
+    limit: number
+  ): Promise<WordTombstone[]>;
+}
@@ -0,0 +1,43 @@
+import {
+  UsageExampleContext,
+  WordUsageExample,
+} from "../../social/schemas/word-usage-example.schema";
+
+/**
+ * 📦 INTERFACE WORD USAGE EXAMPLE REPOSITORY
+ *
+ * Contrat abstrait pour l'accès aux exemples d'usage contribués par la
+ * communauté, classés par popularité. Les contributeurs sont peuplés
+ * (username).
+ */
+export interface IWordUsageExampleRepository {
+  /**
+   * Enregistrer un exemple
+   */
+  create(data: {
+    wordId: string;
+    contributorId: string;
+    sentence: string;
+    context: UsageExampleContext;
+    difficulty: string;
+    translation?: string;
+    source?: string;
+  }): Promise<WordUsageExample>;
+
+  /**
+   * Exemples d'un mot, les plus appréciés d'abord
+   */
+  findByWord(
+    wordId: string,
+    options: { limit: number; context?: UsageExampleContext; cursor?: string }
+  ): Promise<{
+    examples: WordUsageExample[];
+    total: number;
+    nextCursor: string | null;
+  }>;
+
+  /**
+   * Contextes pour lesquels le mot a des exemples
+   */
+  getContexts(wordId: string): Promise<UsageExampleContext[]>;
+}
@@ -12,10 +12,27 @@
  */
 
 import { Types } from "mongoose";
-import { Word } from "../../dictionary/schemas/word.schema";
+import {
+  LanguageScripting,
+  Word,
+  WordSocialCounters,
+} from "../../dictionary/schemas/word.schema";
 import { CreateWordDto } from "../../dictionary/dto/create-word.dto";
 import { UpdateWordDto } from "../../dictionary/dto/update-word.dto";
 import { SearchWordsDto } from "../../dictionary/dto/search-words.dto";
+import { MorphologyRules } from "../../common/utils/inflection.util";
+
+/**
+ * Candidat "vouliez-vous dire" présélectionné en base
+ */
+export interface WordSpellingCandidate {
+  _id: string;
+  word: string;
+  language?: string;
+  searchKey?: string;
+  phoneticKeys: string[];
+  translationCount: number;
+}
 
 /**
  * Interface de repository pour la gestion des mots du dictionnaire
@@ -66,6 +83,7 @@ export interface IWordRepository {
    * @param {CreateWordDto} wordData - Données du mot à créer
    * @param {string} userId - ID de l'utilisateur créateur
    * @param {string} [status='pending'] - Statut initial du mot
+   * @param {string} [importBatchId] - Lot d'import à l'origine du mot
    * @returns {Promise<Word>} Mot créé avec son ID généré
    * @throws {ValidationError} Si les données sont invalides
    * @throws {DuplicationError} Si le mot existe déjà dans cette langue
@@ -73,7 +91,8 @@ export interface IWordRepository {
   create(
     wordData: CreateWordDto,
     userId: string,
-    status?: string
+    status?: string,
+    importBatchId?: string
   ): Promise<Word>;
 
   /**
@@ -95,6 +114,7 @@ export interface IWordRepository {
     status?: string;
     language?: string;
     categoryId?: string;
+    variantId?: string;
   }): Promise<{
     words: Word[];
     total: number;
@@ -138,6 +158,36 @@ export interface IWordRepository {
     limit: number;
   }>;
 
+  /**
+   * Présélectionne les mots approuvés proches d'une requête mal orthographiée
+   *
+   * @method findSpellingCandidates
+   * @param {Object} params - Trigrammes et clé phonétique de la requête
+   * @returns {Promise<WordSpellingCandidate[]>} Candidats triés par trigrammes communs
+   */
+  findSpellingCandidates(params: {
+    searchGrams: string[];
+    phoneticKey?: string;
+    languages?: string[];
+    limit: number;
+  }): Promise<WordSpellingCandidate[]>;
+
+  /**
+   * Trouve les mots approuvés dont les définitions, les mots-clés extraits
+   * ou les groupes de traduction correspondent à des mots-clés
+   *
+   * @method findByDefinitionKeywords
+   * @param {Object} params - Mots-clés, groupes de traduction et langue cible
+   * @returns {Promise<Word[]>} Candidats pour la recherche inversée, classés
+   * par nombre de correspondances puis par nombre de traductions
+   */
+  findByDefinitionKeywords(params: {
+    keywords: string[];
+    translationGroupIds?: string[];
+    languageId?: string;
+    limit: number;
+  }): Promise<Word[]>;
+
   /**
    * Trouver un mot par ID de traduction
    */
@@ -365,6 +415,83 @@ export interface IWordRepository {
    */
   updateTranslationCount(id: string, count: number): Promise<void>;
 
+  /**
+   * Ajuster les compteurs sociaux dénormalisés (deltas positifs ou négatifs)
+   *
+   * @returns Les compteurs mis à jour, ou null si le mot n'existe pas
+   */
+  incrementSocialCounters(
+    id: string,
+    deltas: Partial<WordSocialCounters>
+  ): Promise<WordSocialCounters | null>;
+
+  /**
+   * Mots approuvés au score d'engagement le plus élevé
+   */
+  findTrending(options: { limit: number; language?: string }): Promise<Word[]>;
+
+  /**
+   * IDs des mots approuvés d'une langue et/ou d'une catégorie
+   * (génération de paquets de révision)
+   */
+  findApprovedIds(
+    filter: { languageId?: string; categoryId?: string },
+    limit: number
+  ): Promise<string[]>;
+
+  /**
+   * Échantillon aléatoire de mots approuvés d'une langue (génération
+   * de quiz), réduit au mot, à sa catégorie, ses sens, ses traductions
+   * et ses fichiers audio
+   */
+  sampleApproved(
+    filter: { languageId: string; categoryId?: string },
+    size: number
+  ): Promise<Word[]>;
+
+  /**
+   * Graphies (mot, formes des variantes, pluriels) des mots d'une langue,
+   * par ordre d'ID croissant à partir de `afterId` (contrôle orthographique)
+   */
+  findSpellingsByLanguage(
+    languageId: string,
+    options: { afterId?: string; limit: number }
+  ): Promise<Word[]>;
+
+  /**
+   * Résumés (mot, langue, statut) d'un ensemble de mots, sans population
+   * (nœuds du graphe de relations)
+   */
+  findSummariesByIds(
+    ids: string[]
+  ): Promise<
+    Array<{
+      _id: string;
+      word: string;
+      language?: string;
+      languageId?: string;
+      status: string;
+    }>
+  >;
+
+  /**
+   * Nombre de mots approuvés attestés dans chaque variante dialectale
+   * (forme principale ou forme propre à la variante), par langue
+   */
+  countByVariant(): Promise<
+    Array<{ languageId: string; variantId: string; count: number }>
+  >;
+
+  /**
+   * Mots d'une langue exprimant un même concept, pour la comparaison entre
+   * variantes : mots donnés par ID et/ou mots dont une traduction correspond
+   * à la glose (insensible à la casse)
+   */
+  findForVariantComparison(
+    languageId: string,
+    criteria: { wordIds?: string[]; gloss?: string; limit: number }
+  ): Promise<Word[]>;
+
   // ========== OPÉRATIONS EN MASSE ==========
 
   /**
@@ -372,6 +499,78 @@ export interface IWordRepository {
    */
   deleteMany(ids: string[]): Promise<number>;
 
+  /**
+   * Retrouver les mots déjà présents pour une liste de couples
+   * mot / langue (comparaison insensible à la casse et à la normalisation
+   * Unicode NFC/NFD), pour l'import en masse
+   */
+  findExistingByWordAndLanguage(
+    pairs: Array<{ word: string; languageId: string }>
+  ): Promise<Array<{ _id: string; word: string; languageId: string }>>;
+
+  /**
+   * Parcourir les mots approuvés d'une langue par ordre alphabétique, via
+   * un curseur (export de lexique sans tout charger en mémoire).
+   * Les langues des traductions sont populées.
+   */
+  streamApprovedByLanguage(languageId: string): AsyncIterable<Word>;
+
+  /**
+   * Mots des langues modifiés depuis une date, tous statuts confondus,
+   * du plus ancien au plus récent (synchronisation différentielle).
+   * Les langues des traductions sont populées.
+   */
+  findChangedSince(
+    languageIds: string[],
+    since: Date,
+    options: { cursor?: string; limit: number }
+  ): Promise<{ words: Word[]; nextCursor: string | null }>;
+
+  /**
+   * Mots approuvés des langues dont la clé de recherche ou une forme
+   * fléchie figure parmi les clés normalisées (détection des mots du
+   * dictionnaire dans un texte libre)
+   */
+  findApprovedByKeys(
+    languageIds: string[],
+    keys: string[],
+    limit: number
+  ): Promise<Word[]>;
+
+  /**
+   * Recalculer les clés des formes fléchies de tous les mots d'une langue
+   * après modification de ses règles morphologiques
+   *
+   * @returns Nombre de mots mis à jour
+   */
+  refreshInflectionKeysByLanguage(
+    languageId: string,
+    languageCode: string | undefined,
+    morphology: MorphologyRules | undefined
+  ): Promise<number>;
+
+  /**
+   * Recalculer les graphies dans les autres écritures (et les clés de
+   * recherche qui en dépendent) de tous les mots d'une langue après
+   * modification de ses tables de translittération
+   *
+   * @returns Nombre de mots mis à jour
+   */
+  refreshScriptFormsByLanguage(
+    languageId: string,
+    languageCode: string | undefined,
+    morphology: MorphologyRules | undefined,
+    scripting: LanguageScripting
+  ): Promise<number>;
+
+  /**
+   * Supprimer les mots d'un lot d'import encore non approuvés
+   * (`pending` ou `rejected`) ; les mots approuvés sont conservés
+   */
+  deleteByImportBatch(
+    batchId: string
+  ): Promise<{ deleted: number; kept: number; deletedIds: string[] }>;
+
   /**
    * Mettre à jour le statut de plusieurs mots
    */
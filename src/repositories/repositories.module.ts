@@ -114,6 +114,55 @@ import { ITrainingDataRepository } from "./interfaces/training-data.repository.i
 import { ITranslationGroupRepository } from "./interfaces/translation-group.repository.interface";
 import { IUserRecommendationProfileRepository } from "./interfaces/user-recommendation-profile.repository.interface";
 import { IWordNotificationRepository } from "./interfaces/word-notification.repository.interface";
+import { SearchHistory, SearchHistorySchema } from "../search/schemas/search-history.schema";
+import { SearchHistoryRepository } from "./implementations/search-history.repository";
+import { SavedSearch, SavedSearchSchema } from "../search/schemas/saved-search.schema";
+import { SavedSearchRepository } from "./implementations/saved-search.repository";
+import { SearchFeedback, SearchFeedbackSchema } from "../search/schemas/search-feedback.schema";
+import { SearchFeedbackRepository } from "./implementations/search-feedback.repository";
+import { WordImportBatch, WordImportBatchSchema } from "../dictionary/schemas/word-import-batch.schema";
+import { WordImportBatchRepository } from "./implementations/word-import-batch.repository";
+import { CorpusExample, CorpusExampleSchema } from "../corpus/schemas/corpus-example.schema";
+import { CorpusExampleRepository } from "./implementations/corpus-example.repository";
+import { WordRelation, WordRelationSchema } from "../dictionary/schemas/word-relation.schema";
+import { WordRelationRepository } from "./implementations/word-relation.repository";
+import { ModerationCase, ModerationCaseSchema } from "../moderation/schemas/moderation-case.schema";
+import { ModerationCaseRepository } from "./implementations/moderation-case.repository";
+import { AutoModerationConfig, AutoModerationConfigSchema } from "../moderation/schemas/auto-moderation-config.schema";
+import { AutoModerationConfigRepository } from "./implementations/auto-moderation-config.repository";
+import { AutoModerationDecision, AutoModerationDecisionSchema } from "../moderation/schemas/auto-moderation-decision.schema";
+import { AutoModerationDecisionRepository } from "./implementations/auto-moderation-decision.repository";
+import { ModerationAppeal, ModerationAppealSchema } from "../moderation/schemas/moderation-appeal.schema";
+import { ModerationAppealRepository } from "./implementations/moderation-appeal.repository";
+import { WordComment, WordCommentSchema } from "../social/schemas/word-comment.schema";
+import { WordCommentRepository } from "./implementations/word-comment.repository";
+import { WordCommentLike, WordCommentLikeSchema } from "../social/schemas/word-comment-like.schema";
+import { WordCommentLikeRepository } from "./implementations/word-comment-like.repository";
+import { WordShare, WordShareSchema } from "../social/schemas/word-share.schema";
+import { WordShareRepository } from "./implementations/word-share.repository";
+import { WordRating, WordRatingSchema } from "../social/schemas/word-rating.schema";
+import { WordRatingRepository } from "./implementations/word-rating.repository";
+import { WordUsageExample, WordUsageExampleSchema } from "../social/schemas/word-usage-example.schema";
+import { WordUsageExampleRepository } from "./implementations/word-usage-example.repository";
+import { StudyDeck, StudyDeckSchema } from "../study/schemas/study-deck.schema";
+import { StudyDeckRepository } from "./implementations/study-deck.repository";
+import { StudyCard, StudyCardSchema } from "../study/schemas/study-card.schema";
+import { StudyCardRepository } from "./implementations/study-card.repository";
+import { StudySession, StudySessionSchema } from "../study/schemas/study-session.schema";
+import { StudySessionRepository } from "./implementations/study-session.repository";
+import { StudyReview, StudyReviewSchema } from "../study/schemas/study-review.schema";
+import { StudyReviewRepository } from "./implementations/study-review.repository";
+import { QuizAttempt, QuizAttemptSchema } from "../quiz/schemas/quiz-attempt.schema";
+import { QuizAttemptRepository } from "./implementations/quiz-attempt.repository";
+import { WordTombstone, WordTombstoneSchema } from "../offline/schemas/word-tombstone.schema";
+import { WordTombstoneRepository } from "./implementations/word-tombstone.repository";
+import { MessageDeliveryEvent, MessageDeliveryEventSchema } from "../messaging/schemas/message-delivery-event.schema";
+import { MessageDeliverySequence, MessageDeliverySequenceSchema } from "../messaging/schemas/message-delivery-sequence.schema";
+import { MessageDeliveryEventRepository } from "./implementations/message-delivery-event.repository";
+import { CommunityEvent, CommunityEventSchema } from "../communities/schemas/community-event.schema";
+import { CommunityEventRepository } from "./implementations/community-event.repository";
+import { CommunityEventRsvp, CommunityEventRsvpSchema } from "../communities/schemas/community-event-rsvp.schema";
+import { CommunityEventRsvpRepository } from "./implementations/community-event-rsvp.repository";
 
 /**
  * 🏭 MODULE DES REPOSITORIES
@@ -156,6 +205,31 @@ import { IWordNotificationRepository } from "./interfaces/word-notification.repo
       { name: TranslationGroup.name, schema: TranslationGroupSchema },
       { name: UserRecommendationProfile.name, schema: UserRecommendationProfileSchema },
       { name: WordNotification.name, schema: WordNotificationSchema },
+      { name: SearchHistory.name, schema: SearchHistorySchema },
+      { name: SavedSearch.name, schema: SavedSearchSchema },
+      { name: SearchFeedback.name, schema: SearchFeedbackSchema },
+      { name: WordImportBatch.name, schema: WordImportBatchSchema },
+      { name: CorpusExample.name, schema: CorpusExampleSchema },
+      { name: WordRelation.name, schema: WordRelationSchema },
+      { name: ModerationCase.name, schema: ModerationCaseSchema },
+      { name: AutoModerationConfig.name, schema: AutoModerationConfigSchema },
+      { name: AutoModerationDecision.name, schema: AutoModerationDecisionSchema },
+      { name: ModerationAppeal.name, schema: ModerationAppealSchema },
+      { name: WordComment.name, schema: WordCommentSchema },
+      { name: WordCommentLike.name, schema: WordCommentLikeSchema },
+      { name: WordShare.name, schema: WordShareSchema },
+      { name: WordRating.name, schema: WordRatingSchema },
+      { name: WordUsageExample.name, schema: WordUsageExampleSchema },
+      { name: StudyDeck.name, schema: StudyDeckSchema },
+      { name: StudyCard.name, schema: StudyCardSchema },
+      { name: StudySession.name, schema: StudySessionSchema },
+      { name: StudyReview.name, schema: StudyReviewSchema },
+      { name: QuizAttempt.name, schema: QuizAttemptSchema },
+      { name: WordTombstone.name, schema: WordTombstoneSchema },
+      { name: MessageDeliveryEvent.name, schema: MessageDeliveryEventSchema },
+      { name: MessageDeliverySequence.name, schema: MessageDeliverySequenceSchema },
+      { name: CommunityEvent.name, schema: CommunityEventSchema },
+      { name: CommunityEventRsvp.name, schema: CommunityEventRsvpSchema },
     ]),
   ],
   providers: [
@@ -289,6 +363,126 @@ import { IWordNotificationRepository } from "./interfaces/word-notification.repo
       provide: "IWordNotificationRepository",
       useClass: WordNotificationRepository,
     },
+    // Liaison interface -> implémentation pour SearchHistoryRepository
+    {
+      provide: "ISearchHistoryRepository",
+      useClass: SearchHistoryRepository,
+    },
+    // Liaison interface -> implémentation pour SavedSearchRepository
+    {
+      provide: "ISavedSearchRepository",
+      useClass: SavedSearchRepository,
+    },
+    // Liaison interface -> implémentation pour SearchFeedbackRepository
+    {
+      provide: "ISearchFeedbackRepository",
+      useClass: SearchFeedbackRepository,
+    },
+    // Liaison interface -> implémentation pour WordImportBatchRepository
+    {
+      provide: "IWordImportBatchRepository",
+      useClass: WordImportBatchRepository,
+    },
+    // Liaison interface -> implémentation pour CorpusExampleRepository
+    {
+      provide: "ICorpusExampleRepository",
+      useClass: CorpusExampleRepository,
+    },
+    // Liaison interface -> implémentation pour WordRelationRepository
+    {
+      provide: "IWordRelationRepository",
+      useClass: WordRelationRepository,
+    },
+    // Liaison interface -> implémentation pour ModerationCaseRepository
+    {
+      provide: "IModerationCaseRepository",
+      useClass: ModerationCaseRepository,
+    },
+    // Liaison interface -> implémentation pour AutoModerationConfigRepository
+    {
+      provide: "IAutoModerationConfigRepository",
+      useClass: AutoModerationConfigRepository,
+    },
+    // Liaison interface -> implémentation pour AutoModerationDecisionRepository
+    {
+      provide: "IAutoModerationDecisionRepository",
+      useClass: AutoModerationDecisionRepository,
+    },
+    // Liaison interface -> implémentation pour ModerationAppealRepository
+    {
+      provide: "IModerationAppealRepository",
+      useClass: ModerationAppealRepository,
+    },
+    // Liaison interface -> implémentation pour WordCommentRepository
+    {
+      provide: "IWordCommentRepository",
+      useClass: WordCommentRepository,
+    },
+    // Liaison interface -> implémentation pour WordCommentLikeRepository
+    {
+      provide: "IWordCommentLikeRepository",
+      useClass: WordCommentLikeRepository,
+    },
+    // Liaison interface -> implémentation pour WordShareRepository
+    {
+      provide: "IWordShareRepository",
+      useClass: WordShareRepository,
+    },
+    // Liaison interface -> implémentation pour WordRatingRepository
+    {
+      provide: "IWordRatingRepository",
+      useClass: WordRatingRepository,
+    },
+    // Liaison interface -> implémentation pour WordUsageExampleRepository
+    {
+      provide: "IWordUsageExampleRepository",
+      useClass: WordUsageExampleRepository,
+    },
+    // Liaison interface -> implémentation pour StudyDeckRepository
+    {
+      provide: "IStudyDeckRepository",
+      useClass: StudyDeckRepository,
+    },
+    // Liaison interface -> implémentation pour StudyCardRepository
+    {
+      provide: "IStudyCardRepository",
+      useClass: StudyCardRepository,
+    },
+    // Liaison interface -> implémentation pour StudySessionRepository
+    {
+      provide: "IStudySessionRepository",
+      useClass: StudySessionRepository,
+    },
+    // Liaison interface -> implémentation pour StudyReviewRepository
+    {
+      provide: "IStudyReviewRepository",
+      useClass: StudyReviewRepository,
+    },
+    // Liaison interface -> implémentation pour QuizAttemptRepository
+    {
+      provide: "IQuizAttemptRepository",
+      useClass: QuizAttemptRepository,
+    },
+    // Liaison interface -> implémentation pour WordTombstoneRepository
+    {
+      provide: "IWordTombstoneRepository",
+      useClass: WordTombstoneRepository,
+    },
+    // Liaison interface -> implémentation pour MessageDeliveryEventRepository
+    {
+      provide: "IMessageDeliveryEventRepository",
+      useClass: MessageDeliveryEventRepository,
+    },
+    // Liaison interface -> implémentation pour CommunityEventRepository
+    {
+      provide: "ICommunityEventRepository",
+      useClass: CommunityEventRepository,
+    },
+    // Liaison interface -> implémentation pour CommunityEventRsvpRepository
+    {
+      provide: "ICommunityEventRsvpRepository",
+      useClass: CommunityEventRsvpRepository,
+    },
     // Exports directs pour les tests et utilisations directes
     UserRepository,
     WordViewRepository,
@@ -316,6 +510,30 @@ import { IWordNotificationRepository } from "./interfaces/word-notification.repo
     TranslationGroupRepository,
     UserRecommendationProfileRepository,
     WordNotificationRepository,
+    SearchHistoryRepository,
+    SavedSearchRepository,
+    SearchFeedbackRepository,
+    WordImportBatchRepository,
+    CorpusExampleRepository,
+    WordRelationRepository,
+    ModerationCaseRepository,
+    AutoModerationConfigRepository,
+    AutoModerationDecisionRepository,
+    ModerationAppealRepository,
+    WordCommentRepository,
+    WordCommentLikeRepository,
+    WordShareRepository,
+    WordRatingRepository,
+    WordUsageExampleRepository,
+    StudyDeckRepository,
+    StudyCardRepository,
+    StudySessionRepository,
+    StudyReviewRepository,
+    QuizAttemptRepository,
+    WordTombstoneRepository,
+    MessageDeliveryEventRepository,
+    CommunityEventRepository,
+    CommunityEventRsvpRepository,
   ],
   exports: [
     "IUserRepository",
@@ -344,6 +562,30 @@ import { IWordNotificationRepository } from "./interfaces/word-notification.repo
     "ITranslationGroupRepository",
     "IUserRecommendationProfileRepository",
     "IWordNotificationRepository",
+    "ISearchHistoryRepository",
+    "ISavedSearchRepository",
+    "ISearchFeedbackRepository",
+    "IWordImportBatchRepository",
+    "ICorpusExampleRepository",
+    "IWordRelationRepository",
+    "IModerationCaseRepository",
+    "IAutoModerationConfigRepository",
+    "IAutoModerationDecisionRepository",
+    "IModerationAppealRepository",
+    "IWordCommentRepository",
+    "IWordCommentLikeRepository",
+    "IWordShareRepository",
+    "IWordRatingRepository",
+    "IWordUsageExampleRepository",
+    "IStudyDeckRepository",
+    "IStudyCardRepository",
+    "IStudySessionRepository",
+    "IStudyReviewRepository",
+    "IQuizAttemptRepository",
+    "IWordTombstoneRepository",
+    "IMessageDeliveryEventRepository",
+    "ICommunityEventRepository",
+    "ICommunityEventRsvpRepository",
     UserRepository,
     WordViewRepository,
     WordRepository,
@@ -370,6 +612,30 @@ import { IWordNotificationRepository } from "./interfaces/word-notification.repo
     TranslationGroupRepository,
     UserRecommendationProfileRepository,
     WordNotificationRepository,
+    SearchHistoryRepository,
+    SavedSearchRepository,
+    SearchFeedbackRepository,
+    WordImportBatchRepository,
+    CorpusExampleRepository,
+    WordRelationRepository,
+    ModerationCaseRepository,
+    AutoModerationConfigRepository,
+    AutoModerationDecisionRepository,
+    ModerationAppealRepository,
+    WordCommentRepository,
+    WordCommentLikeRepository,
+    WordShareRepository,
+    WordRatingRepository,
+    WordUsageExampleRepository,
+    StudyDeckRepository,
+    StudyCardRepository,
+    StudySessionRepository,
+    StudyReviewRepository,
+    QuizAttemptRepository,
+    WordTombstoneRepository,
+    MessageDeliveryEventRepository,
+    CommunityEventRepository,
+    CommunityEventRsvpRepository,
   ],
 })
 export class RepositoriesModule {}
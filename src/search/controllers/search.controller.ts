@@ -8,6 +8,7 @@ import {
   Param,
   UseGuards,
   Request,
+  BadRequestException,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -18,9 +19,22 @@ import {
   ApiParam,
   ApiBody,
 } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsInt,
+  IsMongoId,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
 import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
 import { OptionalJwtAuthGuard } from '../../auth/guards/optional-jwt-auth.guard';
+import {
+  RateLimit,
+  RateLimitGuard,
+} from '../../common/guards/rate-limit.guard';
 import { SearchService } from '../services/search.service';
+import { ReverseDictionaryService } from '../services/reverse-dictionary.service';
 import { WordsService } from '../../dictionary/services/words.service';
 
 interface RequestWithUser {
@@ -44,6 +58,22 @@ class SaveSearchDto {
 class SearchSuggestionsQuery {
   q: string;
   language?: string;
+  variant?: string;
+  limit?: number;
+}
+
+class ReverseSearchQuery {
+  @IsString()
+  @MaxLength(200)
+  q: string;
+
+  @IsOptional()
+  @IsMongoId()
+  languageId?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
   limit?: number;
 }
 
@@ -53,6 +83,7 @@ export class SearchController {
   constructor(
     private readonly searchService: SearchService,
     private readonly wordsService: WordsService,
+    private readonly reverseDictionaryService: ReverseDictionaryService,
   ) {}
 
   @Get('suggestions')
@@ -69,6 +100,12 @@ export class SearchController {
     description: 'Filtrer par langue',
     example: 'fr',
   })
+  @ApiQuery({
+    name: 'variant',
+    required: false,
+    description:
+      "Filtrer par variante dialectale (ID de Language.variants) ; la forme propre à la variante est proposée",
+  })
   @ApiQuery({
     name: 'limit',
     required: false,
@@ -104,6 +141,21 @@ export class SearchController {
         },
         query: { type: 'string' },
         hasMore: { type: 'boolean' },
+        didYouMean: {
+          type: 'array',
+          description: 'Corrections proposées lorsque aucun mot ne correspond',
+          items: {
+            type: 'object',
+            properties: {
+              text: { type: 'string' },
+              wordId: { type: 'string' },
+              language: { type: 'string' },
+              distance: { type: 'number' },
+              score: { type: 'number' },
+              matchType: { type: 'string', enum: ['spelling', 'phonetic'] },
+            },
+          },
+        },
       },
     },
   })
@@ -116,12 +168,93 @@ export class SearchController {
       query.q,
       {
         language: query.language,
+        variantId: query.variant,
         limit: query.limit || 10,
         userId,
       }
     );
   }
 
+  @Get('reverse')
+  @ApiOperation({
+    summary: 'Dictionnaire inversé : retrouver des mots depuis une définition',
+  })
+  @ApiQuery({
+    name: 'q',
+    description:
+      'Définition ou description du concept recherché (200 caractères maximum)',
+    example: 'instrument pour piler le manioc',
+  })
+  @ApiQuery({
+    name: 'languageId',
+    required: false,
+    description: 'ID de la langue cible des mots',
+    example: '60a1b2c3d4e5f6a7b8c9d0e1',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Nombre de résultats maximum',
+    example: 10,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Mots correspondant à la description, triés par score',
+    schema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string' },
+        keywords: { type: 'array', items: { type: 'string' } },
+        results: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              wordId: { type: 'string' },
+              word: { type: 'string' },
+              language: { type: 'string' },
+              languageId: { type: 'string' },
+              partOfSpeech: { type: 'string' },
+              definition: { type: 'string' },
+              score: { type: 'number' },
+              matchedKeywords: { type: 'array', items: { type: 'string' } },
+              matchedIn: {
+                type: 'array',
+                items: {
+                  type: 'string',
+                  enum: ['definition', 'sense', 'keywords'],
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Description manquante ou trop longue',
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'Trop de recherches, réessayer plus tard',
+  })
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ category: 'sensitive' })
+  async reverseLookup(@Query() query: ReverseSearchQuery) {
+    if (!query.q?.trim()) {
+      throw new BadRequestException(
+        'Le paramètre "q" est requis pour la recherche inversée',
+      );
+    }
+
+    return this.reverseDictionaryService.lookup(query.q.trim(), {
+      languageId: query.languageId,
+      limit: Math.min(Math.max(1, Number(query.limit) || 10), 50),
+    });
+  }
+
   @Get('history')
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Schéma des recherches sauvegardées pour O'Ypunu
+ *
+ * Ce schéma permet aux utilisateurs de conserver leurs recherches favorites
+ * avec leurs filtres, et de suivre leur fréquence d'utilisation.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+import { User } from '../../users/schemas/user.schema';
+
+/**
+ * Durée de rétention d'une recherche sauvegardée inutilisée (en jours)
+ *
+ * Le compteur est réinitialisé à chaque réutilisation de la recherche.
+ */
+export const SAVED_SEARCH_RETENTION_DAYS = 365;
+
+/**
+ * Type document Mongoose pour les recherches sauvegardées
+ *
+ * @typedef {SavedSearch & Document} SavedSearchDocument
+ */
+export type SavedSearchDocument = SavedSearch & Document;
+
+/**
+ * Schéma d'une recherche sauvegardée par un utilisateur
+ *
+ * @class SavedSearch
+ * @version 1.0.0
+ */
+@Schema({
+  timestamps: true,
+  collection: 'saved_searches',
+})
+export class SavedSearch {
+  /** Propriétaire de la recherche sauvegardée */
+  @Prop({
+    type: MongooseSchema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true,
+  })
+  userId: User;
+
+  /** Nom affiché de la recherche */
+  @Prop({ required: true, trim: true })
+  name: string;
+
+  /** Requête sauvegardée */
+  @Prop({ required: true, trim: true })
+  query: string;
+
+  /** Requête normalisée pour rapprochement avec les recherches effectuées */
+  @Prop({ required: true, lowercase: true, trim: true })
+  normalizedQuery: string;
+
+  /** Filtres associés à la recherche */
+  @Prop({ type: Object })
+  filters?: Record<string, any>;
+
+  /** Date de sauvegarde */
+  @Prop({ type: Date, default: Date.now })
+  savedAt: Date;
+
+  /** Dernière réutilisation */
+  @Prop()
+  lastUsed?: Date;
+
+  /** Nombre de réutilisations */
+  @Prop({ type: Number, default: 0 })
+  useCount: number;
+
+  /** Date d'expiration (repoussée à chaque utilisation) */
+  @Prop({ type: Date })
+  expiresAt: Date;
+}
+
+/**
+ * Schéma Mongoose compilé avec index optimisés
+ */
+export const SavedSearchSchema = SchemaFactory.createForClass(SavedSearch);
+
+// Recherches sauvegardées d'un utilisateur triées par date
+SavedSearchSchema.index({ userId: 1, savedAt: -1 });
+
+// Rapprochement requête effectuée -> recherche sauvegardée
+SavedSearchSchema.index({ userId: 1, normalizedQuery: 1 });
+
+// === TTL POUR AUTO-NETTOYAGE ===
+SavedSearchSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Initialiser l'expiration à la création
+SavedSearchSchema.pre('save', function (next) {
+  if (this.isNew && !this.expiresAt) {
+    this.expiresAt = new Date(
+      Date.now() + SAVED_SEARCH_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+    );
+  }
+  next();
+});
@@ -0,0 +1,92 @@
+/**
+ * @fileoverview Schéma des retours utilisateurs sur la recherche pour O'Ypunu
+ *
+ * Ce schéma conserve les évaluations de pertinence des résultats de
+ * recherche afin d'améliorer l'algorithme de classement.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+import { User } from '../../users/schemas/user.schema';
+
+/**
+ * Durée de rétention des retours de recherche (en jours)
+ */
+export const SEARCH_FEEDBACK_RETENTION_DAYS = 365;
+
+/**
+ * Type document Mongoose pour les retours de recherche
+ *
+ * @typedef {SearchFeedback & Document} SearchFeedbackDocument
+ */
+export type SearchFeedbackDocument = SearchFeedback & Document;
+
+/**
+ * Schéma d'un retour sur la qualité des résultats de recherche
+ *
+ * @class SearchFeedback
+ * @version 1.0.0
+ */
+@Schema({
+  timestamps: true,
+  collection: 'search_feedback',
+})
+export class SearchFeedback {
+  /** Utilisateur ayant laissé le retour (absent si anonyme) */
+  @Prop({
+    type: MongooseSchema.Types.ObjectId,
+    ref: 'User',
+    index: true,
+  })
+  userId?: User;
+
+  /** Requête évaluée */
+  @Prop({ required: true, trim: true })
+  query: string;
+
+  /** Requête normalisée pour regroupement */
+  @Prop({ required: true, lowercase: true, trim: true, index: true })
+  normalizedQuery: string;
+
+  /** Référence vers l'entrée d'historique évaluée */
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'SearchHistory' })
+  searchId?: string;
+
+  /** Note de 1 à 5 */
+  @Prop({ type: Number, required: true, min: 1, max: 5 })
+  rating: number;
+
+  /** Commentaire libre */
+  @Prop({ maxlength: 1000 })
+  feedback?: string;
+
+  /** Résultats jugés pertinents */
+  @Prop({ type: [String], default: [] })
+  relevantResults: string[];
+
+  /** Résultats jugés non pertinents */
+  @Prop({ type: [String], default: [] })
+  irrelevantResults: string[];
+
+  @Prop()
+  createdAt: Date;
+}
+
+/**
+ * Schéma Mongoose compilé avec index optimisés
+ */
+export const SearchFeedbackSchema =
+  SchemaFactory.createForClass(SearchFeedback);
+
+// Analyse de la satisfaction par requête
+SearchFeedbackSchema.index({ normalizedQuery: 1, createdAt: -1 });
+
+// === TTL POUR AUTO-NETTOYAGE ===
+SearchFeedbackSchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: SEARCH_FEEDBACK_RETENTION_DAYS * 24 * 60 * 60 },
+);
@@ -0,0 +1,114 @@
+/**
+ * @fileoverview Schéma de l'historique de recherche pour O'Ypunu
+ *
+ * Ce schéma persiste chaque recherche effectuée sur le dictionnaire
+ * (utilisateurs connectés et anonymes) afin d'alimenter l'historique
+ * personnel, les tendances et les analytics de recherche de manière
+ * cohérente entre toutes les instances de l'API.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+import { User } from '../../users/schemas/user.schema';
+
+/**
+ * Durée de rétention de l'historique de recherche (en jours)
+ *
+ * Au-delà, les entrées sont supprimées automatiquement par l'index TTL.
+ */
+export const SEARCH_HISTORY_RETENTION_DAYS = 180;
+
+/**
+ * Type document Mongoose pour l'historique de recherche
+ *
+ * @typedef {SearchHistory & Document} SearchHistoryDocument
+ */
+export type SearchHistoryDocument = SearchHistory & Document;
+
+/**
+ * Schéma d'une recherche effectuée
+ *
+ * ## 🎯 Fonctionnalités :
+ * - **Historique personnel** : Recherches liées à un utilisateur connecté
+ * - **Recherches anonymes** : Conservées sans `userId` pour les tendances
+ * - **Analytics** : Résultats, clics et durée de chaque recherche
+ * - **Rétention** : Suppression automatique via index TTL
+ *
+ * @class SearchHistory
+ * @version 1.0.0
+ */
+@Schema({
+  timestamps: true,
+  collection: 'search_history',
+})
+export class SearchHistory {
+  /** Utilisateur ayant effectué la recherche (absent si anonyme) */
+  @Prop({
+    type: MongooseSchema.Types.ObjectId,
+    ref: 'User',
+    index: true,
+  })
+  userId?: User;
+
+  /** Requête telle que saisie par l'utilisateur */
+  @Prop({ required: true, trim: true })
+  query: string;
+
+  /** Requête normalisée (minuscules) utilisée pour les regroupements */
+  @Prop({ required: true, lowercase: true, trim: true, index: true })
+  normalizedQuery: string;
+
+  /** Langue filtrée lors de la recherche (dupliquée depuis les filtres) */
+  @Prop({ index: true })
+  language?: string;
+
+  /** Catégorie filtrée lors de la recherche (dupliquée depuis les filtres) */
+  @Prop()
+  category?: string;
+
+  /** Filtres complets appliqués à la recherche */
+  @Prop({ type: Object })
+  filters?: Record<string, any>;
+
+  /** Nombre de résultats retournés */
+  @Prop({ type: Number, default: 0 })
+  resultsCount: number;
+
+  /** Identifiants des résultats consultés */
+  @Prop({ type: [String], default: [] })
+  clickedResults: string[];
+
+  /** Durée de la recherche en millisecondes */
+  @Prop()
+  searchDuration?: number;
+
+  /** Date de la recherche (sert de référence pour la rétention) */
+  @Prop({ type: Date, default: Date.now })
+  searchedAt: Date;
+}
+
+/**
+ * Schéma Mongoose compilé avec index optimisés
+ */
+export const SearchHistorySchema = SchemaFactory.createForClass(SearchHistory);
+
+// === INDEX OPTIMISÉS POUR PERFORMANCES ===
+
+// Historique personnel trié par date
+SearchHistorySchema.index({ userId: 1, searchedAt: -1 });
+
+// Tendances et termes populaires par langue sur une période
+SearchHistorySchema.index({ language: 1, searchedAt: -1, normalizedQuery: 1 });
+
+// Suggestions populaires par préfixe de requête
+SearchHistorySchema.index({ normalizedQuery: 1, searchedAt: -1 });
+
+// === TTL POUR AUTO-NETTOYAGE ===
+SearchHistorySchema.index(
+  { searchedAt: 1 },
+  { expireAfterSeconds: SEARCH_HISTORY_RETENTION_DAYS * 24 * 60 * 60 },
+);
@@ -1,8 +1,11 @@
 import { Module } from '@nestjs/common';
 import { SearchController } from './controllers/search.controller';
 import { SearchService } from './services/search.service';
+import { ReverseDictionaryService } from './services/reverse-dictionary.service';
 import { RepositoriesModule } from '../repositories/repositories.module';
 import { DictionaryModule } from '../dictionary/dictionary.module';
+import { TranslationModule } from '../translation/translation.module';
+import { ActivityModule } from '../common/activity.module';
 
 /**
  * 🔍 MODULE SEARCH
@@ -19,17 +22,21 @@ import { DictionaryModule } from '../dictionary/dictionary.module';
  * - Analytics de recherche personnalisées
  * - Feedback sur la qualité des résultats
  * - Tracking pour amélioration continue
+ * - Dictionnaire inversé (retrouver un mot depuis sa définition)
  */
 @Module({
   imports: [
     RepositoriesModule, // Pour accès aux repositories (Word, WordView)
     DictionaryModule,   // Pour intégration avec WordsService
+    TranslationModule,  // Pour l'extraction de mots-clés (SimilarityService)
+    ActivityModule,     // Limitation de taux du dictionnaire inversé
   ],
   controllers: [
     SearchController, // Controller avec tous les endpoints de recherche
   ],
   providers: [
     SearchService, // Service principal pour logique de recherche avancée
+    ReverseDictionaryService, // Recherche inversée concept → mots
   ],
   exports: [
     SearchService, // Exporté pour utilisation par d'autres modules
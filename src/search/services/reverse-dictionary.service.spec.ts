@@ -0,0 +1,135 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { ReverseDictionaryService } from "./reverse-dictionary.service";
+import { SimilarityService } from "../../translation/services/similarity.service";
+
+describe("ReverseDictionaryService", () => {
+  let service: ReverseDictionaryService;
+  let mockWordRepository: any;
+  let mockTranslationGroupRepository: any;
+
+  const mortar = {
+    _id: "507f1f77bcf86cd799439011",
+    word: "ébɔ̀",
+    language: "fan",
+    extractedKeywords: [],
+    meanings: [
+      {
+        partOfSpeech: "noun",
+        definitions: [
+          { definition: "Mortier en bois utilisé pour piler le manioc" },
+        ],
+      },
+    ],
+    translations: [],
+  };
+
+  const pestle = {
+    _id: "507f1f77bcf86cd799439012",
+    word: "ntúm",
+    language: "fan",
+    extractedKeywords: ["manioc"],
+    meanings: [],
+    translations: [
+      {
+        translationGroupId: "507f1f77bcf86cd799439099",
+        senseId: "GROUP_SENSE_1",
+      },
+    ],
+  };
+
+  beforeEach(async () => {
+    mockWordRepository = {
+      findByDefinitionKeywords: jest.fn().mockResolvedValue([mortar, pestle]),
+    };
+    mockTranslationGroupRepository = {
+      findByKeywords: jest.fn().mockResolvedValue([
+        {
+          _id: "507f1f77bcf86cd799439099",
+          senses: [
+            {
+              senseId: "GROUP_SENSE_1",
+              keywords: ["Mortier"],
+            },
+          ],
+        },
+      ]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReverseDictionaryService,
+        SimilarityService,
+        { provide: "IWordRepository", useValue: mockWordRepository },
+        {
+          provide: "ITranslationGroupRepository",
+          useValue: mockTranslationGroupRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ReverseDictionaryService>(ReverseDictionaryService);
+  });
+
+  it("should return no result when the query has no keyword", async () => {
+    const result = await service.lookup("le la les", { limit: 10 });
+
+    expect(result.keywords).toEqual([]);
+    expect(result.results).toEqual([]);
+    expect(mockWordRepository.findByDefinitionKeywords).not.toHaveBeenCalled();
+  });
+
+  it("should look up candidates with the extracted keywords", async () => {
+    await service.lookup("mortier pour le manioc", {
+      languageId: "507f1f77bcf86cd799439033",
+      limit: 10,
+    });
+
+    expect(mockTranslationGroupRepository.findByKeywords).toHaveBeenCalledWith([
+      "mortier",
+      "manioc",
+    ]);
+    expect(mockWordRepository.findByDefinitionKeywords).toHaveBeenCalledWith(
+      expect.objectContaining({
+        keywords: ["mortier", "manioc"],
+        translationGroupIds: ["507f1f77bcf86cd799439099"],
+        languageId: "507f1f77bcf86cd799439033",
+      })
+    );
+  });
+
+  it("should rank definition matches above sense and keyword matches", async () => {
+    const { results } = await service.lookup("mortier pour le manioc", {
+      limit: 10,
+    });
+
+    expect(results.map((r) => r.word)).toEqual(["ébɔ̀", "ntúm"]);
+    expect(results[0]).toEqual(
+      expect.objectContaining({
+        score: 1,
+        matchedKeywords: ["mortier", "manioc"],
+        matchedIn: ["definition"],
+        partOfSpeech: "noun",
+      })
+    );
+    expect(results[1].score).toBe(0.7);
+    expect(results[1].matchedIn.sort()).toEqual(["keywords", "sense"]);
+  });
+
+  it("should bound the keywords sent to the database and the result count", async () => {
+    const query = Array.from(
+      { length: 40 },
+      (_, index) => `mortier${String.fromCharCode(97 + (index % 26))}${index}`
+    ).join(" ");
+
+    const { keywords } = await service.lookup(query, { limit: 10 });
+    expect(keywords).toHaveLength(ReverseDictionaryService.MAX_KEYWORDS);
+    expect(
+      mockWordRepository.findByDefinitionKeywords.mock.calls[0][0].keywords
+    ).toHaveLength(ReverseDictionaryService.MAX_KEYWORDS);
+
+    const { results } = await service.lookup("mortier pour le manioc", {
+      limit: -1,
+    });
+    expect(results.map((r) => r.word)).toEqual(["ébɔ̀"]);
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * @fileoverview Service de dictionnaire inversé pour O'Ypunu
+ *
+ * Retrouve des mots à partir d'une définition ou de la description
+ * d'un concept ("ce qu'on utilise pour piler le manioc"), en comparant
+ * les mots-clés de la requête à ceux des définitions, des mots-clés
+ * extraits et des sens des groupes de traduction.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { Inject, Injectable } from "@nestjs/common";
+import { IWordRepository } from "../../repositories/interfaces/word.repository.interface";
+import { ITranslationGroupRepository } from "../../repositories/interfaces/translation-group.repository.interface";
+import { SimilarityService } from "../../translation/services/similarity.service";
+import { Word } from "../../dictionary/schemas/word.schema";
+import { TranslationGroup } from "../../translation/schemas/translation-group.schema";
+import { DatabaseErrorHandler } from "../../common/errors";
+
+export type ReverseMatchSource = "definition" | "sense" | "keywords";
+
+export interface ReverseDictionaryResult {
+  wordId: string;
+  word: string;
+  language?: string;
+  languageId?: string;
+  partOfSpeech?: string;
+  definition?: string;
+  score: number;
+  matchedKeywords: string[];
+  matchedIn: ReverseMatchSource[];
+}
+
+/**
+ * Service de recherche inversée (concept → mots)
+ *
+ * ## Score :
+ * Chaque mot-clé de la requête rapporte le poids de la meilleure source
+ * dans laquelle il apparaît (définition 1.0, sens d'un groupe de
+ * traduction 0.8, mots-clés extraits 0.6). Le score final est la somme
+ * rapportée au nombre de mots-clés de la requête (entre 0 et 1).
+ *
+ * L'extraction des mots-clés est celle de SimilarityService, afin que
+ * les résultats restent cohérents avec le moteur de traduction.
+ */
+@Injectable()
+export class ReverseDictionaryService {
+  private static readonly SOURCE_WEIGHTS: Record<ReverseMatchSource, number> = {
+    definition: 1.0,
+    sense: 0.8,
+    keywords: 0.6,
+  };
+
+  /** Nombre de candidats chargés avant classement */
+  private static readonly CANDIDATE_POOL_SIZE = 200;
+
+  /**
+   * Nombre maximal de mots-clés retenus : chacun ajoute une expression
+   * régulière à l'agrégation sur les mots approuvés
+   */
+  static readonly MAX_KEYWORDS = 12;
+
+  constructor(
+    @Inject("IWordRepository") private wordRepository: IWordRepository,
+    @Inject("ITranslationGroupRepository")
+    private translationGroupRepository: ITranslationGroupRepository,
+    private similarityService: SimilarityService
+  ) {}
+
+  /**
+   * Recherche les mots correspondant à une description
+   *
+   * @param query - Définition ou description du concept
+   * @param options - Langue cible (ID) et nombre maximal de résultats
+   * @returns Mots-clés retenus et résultats triés par score
+   */
+  async lookup(
+    query: string,
+    options: { languageId?: string; limit: number }
+  ): Promise<{
+    query: string;
+    keywords: string[];
+    results: ReverseDictionaryResult[];
+  }> {
+    return DatabaseErrorHandler.handleSearchOperation(
+      async () => {
+        const keywords = this.similarityService
+          .extractKeywordsFromText(query)
+          .slice(0, ReverseDictionaryService.MAX_KEYWORDS);
+        if (keywords.length === 0) {
+          return { query, keywords, results: [] };
+        }
+
+        const groups =
+          await this.translationGroupRepository.findByKeywords(keywords);
+        const senseKeywords = this.indexSenseKeywords(groups);
+
+        const candidates = await this.wordRepository.findByDefinitionKeywords({
+          keywords,
+          translationGroupIds: Array.from(senseKeywords.keys()),
+          languageId: options.languageId,
+          limit: ReverseDictionaryService.CANDIDATE_POOL_SIZE,
+        });
+
+        const results = candidates
+          .map((word) => this.scoreWord(word, keywords, senseKeywords))
+          .filter((result) => result.score > 0)
+          .sort((a, b) => b.score - a.score)
+          .slice(0, Math.max(1, options.limit));
+
+        return { query, keywords, results };
+      },
+      "ReverseDictionary",
+      `reverse-${query}`
+    );
+  }
+
+  /**
+   * Indexe les mots-clés de chaque sens par groupe de traduction
+   * (groupId → senseId → mots-clés)
+   */
+  private indexSenseKeywords(
+    groups: TranslationGroup[]
+  ): Map<string, Map<string, string[]>> {
+    const index = new Map<string, Map<string, string[]>>();
+    for (const group of groups) {
+      const groupId = (group as TranslationGroup & { _id: unknown })._id;
+      const senses = new Map<string, string[]>();
+      for (const sense of group.senses || []) {
+        senses.set(
+          sense.senseId,
+          (sense.keywords || []).map((keyword) => keyword.toLowerCase())
+        );
+      }
+      index.set(String(groupId), senses);
+    }
+    return index;
+  }
+
+  private scoreWord(
+    word: Word,
+    keywords: string[],
+    senseKeywords: Map<string, Map<string, string[]>>
+  ): ReverseDictionaryResult {
+    const sources: Record<ReverseMatchSource, Set<string>> = {
+      definition: new Set<string>(),
+      sense: new Set<string>(),
+      keywords: new Set(
+        (word.extractedKeywords || []).map((keyword) => keyword.toLowerCase())
+      ),
+    };
+
+    let bestDefinition: { text: string; partOfSpeech: string; hits: number };
+    for (const meaning of word.meanings || []) {
+      for (const definition of meaning.definitions || []) {
+        const extracted = this.similarityService.extractKeywordsFromText(
+          definition.definition
+        );
+        extracted.forEach((keyword) => sources.definition.add(keyword));
+
+        const hits = extracted.filter((k) => keywords.includes(k)).length;
+        if (!bestDefinition || hits > bestDefinition.hits) {
+          bestDefinition = {
+            text: definition.definition,
+            partOfSpeech: meaning.partOfSpeech,
+            hits,
+          };
+        }
+      }
+    }
+
+    for (const translation of word.translations || []) {
+      const senses = translation.translationGroupId
+        ? senseKeywords.get(String(translation.translationGroupId))
+        : undefined;
+      if (!senses) continue;
+
+      // Sens précis si connu, sinon tous les sens du groupe
+      const senseLists = translation.senseId
+        ? [senses.get(translation.senseId) || []]
+        : Array.from(senses.values());
+      senseLists.flat().forEach((keyword) => sources.sense.add(keyword));
+    }
+
+    let total = 0;
+    const matchedKeywords: string[] = [];
+    const matchedIn = new Set<ReverseMatchSource>();
+    for (const keyword of keywords) {
+      let best = 0;
+      for (const source of Object.keys(sources) as ReverseMatchSource[]) {
+        if (sources[source].has(keyword)) {
+          matchedIn.add(source);
+          best = Math.max(best, ReverseDictionaryService.SOURCE_WEIGHTS[source]);
+        }
+      }
+      if (best > 0) {
+        matchedKeywords.push(keyword);
+        total += best;
+      }
+    }
+
+    const language = word.languageId as unknown as {
+      _id?: unknown;
+      iso639_3?: string;
+      iso639_1?: string;
+    };
+
+    return {
+      wordId: String(word._id),
+      word: word.word,
+      language: word.language || language?.iso639_3 || language?.iso639_1,
+      languageId: language?._id ? String(language._id) : undefined,
+      partOfSpeech:
+        bestDefinition?.partOfSpeech || word.meanings?.[0]?.partOfSpeech,
+      definition: bestDefinition?.text,
+      score: Math.round((total / keywords.length) * 100) / 100,
+      matchedKeywords,
+      matchedIn: Array.from(matchedIn),
+    };
+  }
+}
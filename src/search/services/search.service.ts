@@ -13,7 +13,20 @@
 import { Injectable, Inject } from "@nestjs/common";
 import { IWordRepository } from "../../repositories/interfaces/word.repository.interface";
 import { IWordViewRepository } from "../../repositories/interfaces/word-view.repository.interface";
-import { DatabaseErrorHandler } from "../../common/errors"
+import { ISearchHistoryRepository } from "../../repositories/interfaces/search-history.repository.interface";
+import { ISavedSearchRepository } from "../../repositories/interfaces/saved-search.repository.interface";
+import { ISearchFeedbackRepository } from "../../repositories/interfaces/search-feedback.repository.interface";
+import {
+  SearchHistory,
+  SEARCH_HISTORY_RETENTION_DAYS,
+} from "../schemas/search-history.schema";
+import { SavedSearch as SavedSearchRecord } from "../schemas/saved-search.schema";
+import { DatabaseErrorHandler } from "../../common/errors";
+import { SearchNormalizer } from "../../common/utils/search-normalizer.util";
+import {
+  WordSpellingService,
+  SpellingCorrection,
+} from "../../dictionary/services/word-services/word-spelling.service";
 
 export interface SearchSuggestion {
   text: string;
@@ -88,36 +101,24 @@ export interface SearchAnalytics {
 
 @Injectable()
 export class SearchService {
-  // Simuler des bases de données en mémoire pour cette démo
-  private searchHistory: Map<string, SearchHistoryEntry[]> = new Map();
-  private savedSearches: Map<string, SavedSearch[]> = new Map();
-  private searchTracker: Array<{
-    query: string;
-    userId?: string;
-    timestamp: Date;
-    resultsCount: number;
-    language?: string;
-    clickedResults?: string[];
-    searchDuration?: number;
-  }> = [];
-  private searchFeedback: Array<{
-    query: string;
-    userId?: string;
-    rating: number;
-    feedback?: string;
-    timestamp: Date;
-  }> = [];
-
   constructor(
     @Inject("IWordRepository") private wordRepository: IWordRepository,
     @Inject("IWordViewRepository")
-    private wordViewRepository: IWordViewRepository
+    private wordViewRepository: IWordViewRepository,
+    @Inject("ISearchHistoryRepository")
+    private searchHistoryRepository: ISearchHistoryRepository,
+    @Inject("ISavedSearchRepository")
+    private savedSearchRepository: ISavedSearchRepository,
+    @Inject("ISearchFeedbackRepository")
+    private searchFeedbackRepository: ISearchFeedbackRepository,
+    private wordSpellingService: WordSpellingService
   ) {}
 
   async getSuggestions(
     query: string,
     options: {
       language?: string;
+      variantId?: string;
       limit: number;
       userId?: string;
     }
@@ -125,6 +126,7 @@ export class SearchService {
     suggestions: SearchSuggestion[];
     query: string;
     hasMore: boolean;
+    didYouMean: SpellingCorrection[];
   }> {
     return DatabaseErrorHandler.handleSearchOperation(
       async () => {
@@ -135,6 +137,7 @@ export class SearchService {
             suggestions: [],
             query,
             hasMore: false,
+            didYouMean: [],
           };
         }
 
@@ -142,13 +145,20 @@ export class SearchService {
         const wordSuggestions = await this.wordRepository.search({
           query,
           languages: options.language ? [options.language] : undefined,
+          variants: options.variantId ? [options.variantId] : undefined,
           page: 1,
           limit: Math.floor(options.limit * 0.6),
         });
 
         for (const word of wordSuggestions.words) {
+          // Proposer la forme propre à la variante demandée, si elle existe
+          const variantForm = options.variantId
+            ? word.variantForms?.find(
+                (form) => form.variantId === options.variantId
+              )
+            : undefined;
           suggestions.push({
-            text: word.word,
+            text: variantForm?.form || word.word,
             type: "word",
             language: word.language,
             frequency: word.translationCount || 0,
@@ -162,24 +172,24 @@ export class SearchService {
 
         // 2. Suggestions basées sur l'historique personnel (si utilisateur connecté)
         if (options.userId) {
-          const userHistory = this.searchHistory.get(options.userId) || [];
-          const recentQueries = userHistory
-            .filter((entry) =>
-              entry.query.toLowerCase().includes(query.toLowerCase())
-            )
-            .slice(0, Math.floor(options.limit * 0.2))
-            .map((entry) => ({
-              text: entry.query,
-              type: "recent" as const,
-              language: options.language || "all",
-              frequency: entry.resultsCount,
-            }));
+          const userHistory =
+            await this.searchHistoryRepository.findRecentByUserMatching(
+              options.userId,
+              query,
+              Math.floor(options.limit * 0.2)
+            );
+          const recentQueries = userHistory.map((entry) => ({
+            text: entry.query,
+            type: "recent" as const,
+            language: options.language || "all",
+            frequency: entry.resultsCount,
+          }));
 
           suggestions.push(...recentQueries);
         }
 
         // 3. Suggestions populaires basées sur les recherches tendances
-        const popularSuggestions = this.getPopularSuggestionsFor(query, {
+        const popularSuggestions = await this.getPopularSuggestionsFor(query, {
           limit: Math.floor(options.limit * 0.2),
           language: options.language,
         });
@@ -187,36 +197,48 @@ export class SearchService {
         suggestions.push(...popularSuggestions);
 
         // Trier par pertinence et fréquence
+        const normalizedQuery = SearchNormalizer.normalize(
+          query,
+          options.language
+        );
+        const relevanceScore = (suggestion: SearchSuggestion): number => {
+          // Priorité : forme exacte > clé exacte > début de clé > contient > fréquence
+          if (suggestion.text.toLowerCase() === query.toLowerCase()) {
+            return 1000;
+          }
+          const key = SearchNormalizer.normalize(
+            suggestion.text,
+            options.language
+          );
+          if (key === normalizedQuery) {
+            return 500;
+          }
+          return key.startsWith(normalizedQuery) ? 100 : 0;
+        };
+
         const sortedSuggestions = suggestions
           .sort((a, b) => {
-            // Priorité : correspondance exacte > début de mot > contient > fréquence
-            const aExact =
-              a.text.toLowerCase() === query.toLowerCase() ? 1000 : 0;
-            const bExact =
-              b.text.toLowerCase() === query.toLowerCase() ? 1000 : 0;
-
-            const aStartsWith = a.text
-              .toLowerCase()
-              .startsWith(query.toLowerCase())
-              ? 100
-              : 0;
-            const bStartsWith = b.text
-              .toLowerCase()
-              .startsWith(query.toLowerCase())
-              ? 100
-              : 0;
-
-            const scoreA = aExact + aStartsWith + a.frequency;
-            const scoreB = bExact + bStartsWith + b.frequency;
+            const scoreA = relevanceScore(a) + a.frequency;
+            const scoreB = relevanceScore(b) + b.frequency;
 
             return scoreB - scoreA;
           })
           .slice(0, options.limit);
 
+        // 4. Aucun mot trouvé : repli sur les corrections "vouliez-vous dire"
+        const didYouMean =
+          wordSuggestions.words.length === 0
+            ? await this.wordSpellingService.suggestCorrections(query, {
+                languages: options.language ? [options.language] : undefined,
+                limit: options.limit,
+              })
+            : [];
+
         return {
           suggestions: sortedSuggestions,
           query,
           hasMore: suggestions.length > options.limit,
+          didYouMean,
         };
       },
       "Search",
@@ -236,21 +258,17 @@ export class SearchService {
   }> {
     return DatabaseErrorHandler.handleFindOperation(
       async () => {
-        let userHistory = this.searchHistory.get(userId) || [];
-
-        if (options.language) {
-          userHistory = userHistory.filter(
-            (entry) => entry.filters?.language === options.language
-          );
-        }
-
-        const sortedHistory = userHistory
-          .sort((a, b) => b.searchedAt.getTime() - a.searchedAt.getTime())
-          .slice(0, options.limit);
+        const { entries, total } = await this.searchHistoryRepository.findByUser(
+          userId,
+          {
+            limit: options.limit,
+            language: options.language,
+          }
+        );
 
         return {
-          history: sortedHistory,
-          total: userHistory.length,
+          history: entries.map((entry) => this.toHistoryEntry(entry)),
+          total,
         };
       },
       "Search",
@@ -266,20 +284,14 @@ export class SearchService {
   ): Promise<SavedSearch> {
     return DatabaseErrorHandler.handleCreateOperation(
       async () => {
-        const savedSearch: SavedSearch = {
-          id: `saved_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        const savedSearch = await this.savedSearchRepository.create({
+          userId,
           name: name || query,
           query,
           filters,
-          savedAt: new Date(),
-          useCount: 0,
-        };
-
-        const userSavedSearches = this.savedSearches.get(userId) || [];
-        userSavedSearches.push(savedSearch);
-        this.savedSearches.set(userId, userSavedSearches);
+        });
 
-        return savedSearch;
+        return this.toSavedSearch(savedSearch);
       },
       "Search",
       userId
@@ -292,14 +304,14 @@ export class SearchService {
   }> {
     return DatabaseErrorHandler.handleFindOperation(
       async () => {
-        const userSavedSearches = this.savedSearches.get(userId) || [];
-        const sortedSearches = userSavedSearches.sort(
-          (a, b) => b.savedAt.getTime() - a.savedAt.getTime()
-        );
+        const userSavedSearches =
+          await this.savedSearchRepository.findByUser(userId);
 
         return {
-          savedSearches: sortedSearches,
-          total: sortedSearches.length,
+          savedSearches: userSavedSearches.map((search) =>
+            this.toSavedSearch(search)
+          ),
+          total: userSavedSearches.length,
         };
       },
       "Search",
@@ -313,13 +325,12 @@ export class SearchService {
   ): Promise<{ success: boolean }> {
     return DatabaseErrorHandler.handleDeleteOperation(
       async () => {
-        const userHistory = this.searchHistory.get(userId) || [];
-        const filteredHistory = userHistory.filter(
-          (entry) => entry.id !== historyId
+        const deleted = await this.searchHistoryRepository.deleteByIdForUser(
+          userId,
+          historyId
         );
-        this.searchHistory.set(userId, filteredHistory);
 
-        return { success: true };
+        return { success: deleted };
       },
       "Search",
       userId,
@@ -330,7 +341,7 @@ export class SearchService {
   async clearSearchHistory(userId: string): Promise<{ success: boolean }> {
     return DatabaseErrorHandler.handleDeleteOperation(
       async () => {
-        this.searchHistory.set(userId, []);
+        await this.searchHistoryRepository.deleteByUser(userId);
         return { success: true };
       },
       "Search",
@@ -344,13 +355,12 @@ export class SearchService {
   ): Promise<{ success: boolean }> {
     return DatabaseErrorHandler.handleDeleteOperation(
       async () => {
-        const userSavedSearches = this.savedSearches.get(userId) || [];
-        const filteredSavedSearches = userSavedSearches.filter(
-          (search) => search.id !== savedSearchId
+        const deleted = await this.savedSearchRepository.deleteByIdForUser(
+          userId,
+          savedSearchId
         );
-        this.savedSearches.set(userId, filteredSavedSearches);
 
-        return { success: true };
+        return { success: deleted };
       },
       "Search",
       userId,
@@ -370,72 +380,44 @@ export class SearchService {
     return DatabaseErrorHandler.handleAggregationOperation(
       async () => {
         const now = new Date();
-        let cutoffDate: Date;
-
-        switch (options.timeframe) {
-          case "hour":
-            cutoffDate = new Date(now.getTime() - 60 * 60 * 1000);
-            break;
-          case "day":
-            cutoffDate = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-            break;
-          case "week":
-            cutoffDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-            break;
-          case "month":
-            cutoffDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-            break;
-        }
+        const periodMs = this.getTimeframeDuration(options.timeframe);
+        const cutoffDate = new Date(now.getTime() - periodMs);
+        const previousCutoffDate = new Date(cutoffDate.getTime() - periodMs);
 
-        // Analyser les recherches récentes
-        const recentSearches = this.searchTracker.filter(
-          (search) =>
-            search.timestamp >= cutoffDate &&
-            (!options.language || search.language === options.language)
-        );
-
-        // Grouper par requête et calculer les statistiques
-        const searchGroups = new Map<
-          string,
+        // Grouper les recherches de la période par requête
+        const currentPeriod = await this.searchHistoryRepository.aggregateQueries(
           {
-            count: number;
-            uniqueUsers: Set<string>;
-            languages: Set<string>;
-          }
-        >();
-
-        recentSearches.forEach((search) => {
-          const key = search.query.toLowerCase();
-          if (!searchGroups.has(key)) {
-            searchGroups.set(key, {
-              count: 0,
-              uniqueUsers: new Set(),
-              languages: new Set(),
-            });
+            since: cutoffDate,
+            language: options.language,
+            limit: options.limit,
           }
+        );
 
-          const group = searchGroups.get(key)!;
-          group.count++;
-          if (search.userId) {
-            group.uniqueUsers.add(search.userId);
-          }
-          if (search.language) {
-            group.languages.add(search.language);
-          }
-        });
+        // Comparer avec la période précédente pour calculer la croissance
+        const previousPeriod =
+          currentPeriod.length > 0
+            ? await this.searchHistoryRepository.aggregateQueries({
+                since: previousCutoffDate,
+                until: cutoffDate,
+                language: options.language,
+                queries: currentPeriod.map((item) => item.query),
+              })
+            : [];
+        const previousCounts = new Map(
+          previousPeriod.map((item) => [item.query, item.searchCount])
+        );
 
-        // Convertir en format de sortie et trier
-        const trending: TrendingSearch[] = Array.from(searchGroups.entries())
-          .map(([query, stats]) => ({
-            query,
-            searchCount: stats.count,
-            uniqueUsers: stats.uniqueUsers.size,
-            growth: this.calculateGrowth(query, options.timeframe), // Calculer la croissance
-            language:
-              options.language || Array.from(stats.languages)[0] || "all",
-          }))
-          .sort((a, b) => b.searchCount - a.searchCount)
-          .slice(0, options.limit);
+        const trending: TrendingSearch[] = currentPeriod.map((stats) => ({
+          query: stats.query,
+          searchCount: stats.searchCount,
+          uniqueUsers: stats.uniqueUsers,
+          growth: this.calculateGrowth(
+            stats.searchCount,
+            previousCounts.get(stats.query) || 0
+          ),
+          category: stats.categories[0],
+          language: options.language || stats.languages[0] || "all",
+        }));
 
         return {
           trending,
@@ -458,38 +440,19 @@ export class SearchService {
   ): Promise<{ tracked: boolean }> {
     return DatabaseErrorHandler.handleCreateOperation(
       async () => {
-        // Enregistrer pour les analytics globaux
-        this.searchTracker.push({
-          query,
+        // Enregistrer la recherche (analytics globaux + historique utilisateur)
+        await this.searchHistoryRepository.create({
           userId,
-          timestamp: new Date(),
+          query,
+          filters,
           resultsCount,
-          language: filters?.language,
           clickedResults,
           searchDuration,
         });
 
-        // Ajouter à l'historique utilisateur si connecté
+        // Mettre à jour l'utilisation des recherches sauvegardées correspondantes
         if (userId) {
-          const historyEntry: SearchHistoryEntry = {
-            id: `history_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-            query,
-            filters,
-            searchedAt: new Date(),
-            resultsCount,
-            clickedResults: clickedResults || [],
-            searchDuration,
-          };
-
-          const userHistory = this.searchHistory.get(userId) || [];
-          userHistory.unshift(historyEntry);
-
-          // Garder seulement les 100 dernières recherches
-          if (userHistory.length > 100) {
-            userHistory.splice(100);
-          }
-
-          this.searchHistory.set(userId, userHistory);
+          await this.savedSearchRepository.markUsed(userId, query);
         }
 
         return { tracked: true };
@@ -509,55 +472,47 @@ export class SearchService {
   }> {
     return DatabaseErrorHandler.handleAggregationOperation(
       async () => {
-        // Analyser les recherches pour identifier les termes populaires
-        const termCounts = new Map<
-          string,
-          {
-            count: number;
-            languages: Set<string>;
-            recent: boolean;
-          }
-        >();
-
-        this.searchTracker.forEach((search) => {
-          const query = search.query.toLowerCase();
-          if (!options.language || search.language === options.language) {
-            if (!termCounts.has(query)) {
-              termCounts.set(query, {
-                count: 0,
-                languages: new Set(),
-                recent: false,
-              });
-            }
-
-            const term = termCounts.get(query)!;
-            term.count++;
-            if (search.language) {
-              term.languages.add(search.language);
-            }
-
-            // Marquer comme récent si dans les dernières 24h
-            const dayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
-            if (search.timestamp >= dayAgo) {
-              term.recent = true;
-            }
-          }
-        });
-
-        const popularTerms: PopularTerm[] = Array.from(termCounts.entries())
-          .map(([term, stats]) => ({
-            term,
-            frequency: stats.count,
-            language:
-              options.language || Array.from(stats.languages)[0] || "all",
-            trending: stats.recent && stats.count > 1,
-          }))
-          .sort((a, b) => b.frequency - a.frequency)
-          .slice(0, options.limit);
+        const since = new Date(
+          Date.now() - SEARCH_HISTORY_RETENTION_DAYS * 24 * 60 * 60 * 1000
+        );
+        const dayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+        const [terms, total] = await Promise.all([
+          this.searchHistoryRepository.aggregateQueries({
+            since,
+            language: options.language,
+            category: options.category,
+            limit: options.limit,
+          }),
+          this.searchHistoryRepository.countDistinctQueries({
+            language: options.language,
+            category: options.category,
+          }),
+        ]);
+
+        // Marquer comme tendance les termes recherchés dans les dernières 24h
+        const recentTerms =
+          terms.length > 0
+            ? await this.searchHistoryRepository.aggregateQueries({
+                since: dayAgo,
+                language: options.language,
+                category: options.category,
+                queries: terms.map((term) => term.query),
+              })
+            : [];
+        const recentSet = new Set(recentTerms.map((term) => term.query));
+
+        const popularTerms: PopularTerm[] = terms.map((stats) => ({
+          term: stats.query,
+          frequency: stats.searchCount,
+          language: options.language || stats.languages[0] || "all",
+          category: options.category || stats.categories[0],
+          trending: recentSet.has(stats.query) && stats.searchCount > 1,
+        }));
 
         return {
           popularTerms,
-          total: termCounts.size,
+          total,
         };
       },
       "Search",
@@ -571,77 +526,49 @@ export class SearchService {
   ): Promise<SearchAnalytics> {
     return DatabaseErrorHandler.handleAggregationOperation(
       async () => {
-        const userHistory = this.searchHistory.get(userId) || [];
         const cutoffDate = this.getCutoffDate(timeframe);
-
-        const relevantHistory = userHistory.filter(
-          (entry) => entry.searchedAt >= cutoffDate
+        const stats = await this.searchHistoryRepository.getUserStats(
+          userId,
+          cutoffDate
         );
-
-        // Calculer les statistiques
-        const totalSearches = relevantHistory.length;
-        const uniqueQueries = new Set(
-          relevantHistory.map((h) => h.query.toLowerCase())
-        ).size;
-        const averageResultsPerSearch =
-          relevantHistory.length > 0
-            ? relevantHistory.reduce((sum, h) => sum + h.resultsCount, 0) /
-              relevantHistory.length
-            : 0;
-
-        // Termes les plus recherchés
-        const termCounts = new Map<string, number>();
-        relevantHistory.forEach((entry) => {
-          const term = entry.query.toLowerCase();
-          termCounts.set(term, (termCounts.get(term) || 0) + 1);
-        });
-
-        const mostSearchedTerms = Array.from(termCounts.entries())
-          .sort((a, b) => b[1] - a[1])
-          .slice(0, 10)
-          .map(([term, count]) => ({ term, count }));
+        const totalSearches = stats.totalSearches;
 
         // Distribution par langue
-        const languageCounts = new Map<string, number>();
-        relevantHistory.forEach((entry) => {
-          const lang = entry.filters?.language || "all";
-          languageCounts.set(lang, (languageCounts.get(lang) || 0) + 1);
-        });
-
-        const languageDistribution = Array.from(languageCounts.entries()).map(
-          ([language, count]) => ({
+        const languageDistribution = stats.languageDistribution.map(
+          ({ language, searchCount }) => ({
             language,
-            searchCount: count,
-            percentage: Math.round((count / totalSearches) * 100 * 100) / 100,
+            searchCount,
+            percentage:
+              Math.round((searchCount / totalSearches) * 100 * 100) / 100,
           })
         );
 
         // Patterns de recherche
-        const hourCounts = new Array(24).fill(0);
-        relevantHistory.forEach((entry) => {
-          const hour = entry.searchedAt.getHours();
-          hourCounts[hour]++;
-        });
-
-        const peakHours = hourCounts
-          .map((count, hour) => ({ hour, count }))
+        const peakHours = [...stats.hourDistribution]
           .sort((a, b) => b.count - a.count)
           .slice(0, 3)
           .map((item) => item.hour);
 
+        // Une recherche sans aucun résultat consulté est considérée comme un rebond
+        const bounceRate =
+          totalSearches > 0
+            ? Math.round((stats.searchesWithoutClick / totalSearches) * 100) /
+              100
+            : 0;
+
         return {
           searchStats: {
             totalSearches,
-            uniqueQueries,
+            uniqueQueries: stats.uniqueQueries,
             averageResultsPerSearch:
-              Math.round(averageResultsPerSearch * 100) / 100,
-            mostSearchedTerms,
+              Math.round(stats.averageResultsPerSearch * 100) / 100,
+            mostSearchedTerms: stats.mostSearchedTerms,
           },
           languageDistribution,
           searchPatterns: {
             peakHours,
             averageSessionLength: 8.5, // TODO: Calculer réellement
-            bounceRate: 0.34, // TODO: Calculer réellement
+            bounceRate,
           },
         };
       },
@@ -661,12 +588,14 @@ export class SearchService {
   ): Promise<{ success: boolean; message: string }> {
     return DatabaseErrorHandler.handleCreateOperation(
       async () => {
-        this.searchFeedback.push({
+        await this.searchFeedbackRepository.create({
           query,
           userId,
+          searchId,
           rating,
           feedback,
-          timestamp: new Date(),
+          relevantResults,
+          irrelevantResults,
         });
 
         // TODO: Utiliser le feedback pour améliorer l'algorithme de recherche
@@ -682,34 +611,57 @@ export class SearchService {
     );
   }
 
-  private getPopularSuggestionsFor(
+  private async getPopularSuggestionsFor(
     query: string,
     options: {
       limit: number;
       language?: string;
     }
-  ): SearchSuggestion[] {
+  ): Promise<SearchSuggestion[]> {
+    if (options.limit <= 0) {
+      return [];
+    }
+
     // Analyser les recherches récentes pour des suggestions populaires
-    const recentSearches = this.searchTracker
-      .filter(
-        (search) =>
-          search.query.toLowerCase().includes(query.toLowerCase()) &&
-          (!options.language || search.language === options.language)
-      )
-      .slice(0, options.limit);
-
-    return recentSearches.map((search) => ({
+    const popularQueries = await this.searchHistoryRepository.aggregateQueries({
+      since: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+      language: options.language,
+      matching: query,
+      limit: options.limit,
+    });
+
+    return popularQueries.map((search) => ({
       text: search.query,
       type: "popular" as const,
-      language: search.language || "all",
-      frequency: search.resultsCount,
+      language: options.language || search.languages[0] || "all",
+      frequency: search.searchCount,
     }));
   }
 
-  private calculateGrowth(query: string, timeframe: string): number {
-    // Calculer la croissance par rapport à la période précédente
-    // Implémentation simplifiée - retourner une valeur aléatoire pour la démo
-    return Math.round((Math.random() - 0.5) * 100 * 100) / 100;
+  private calculateGrowth(currentCount: number, previousCount: number): number {
+    // Croissance en pourcentage par rapport à la période précédente
+    if (previousCount === 0) {
+      return currentCount > 0 ? 100 : 0;
+    }
+    return (
+      Math.round(((currentCount - previousCount) / previousCount) * 100 * 100) /
+      100
+    );
+  }
+
+  private getTimeframeDuration(
+    timeframe: "hour" | "day" | "week" | "month"
+  ): number {
+    switch (timeframe) {
+      case "hour":
+        return 60 * 60 * 1000;
+      case "day":
+        return 24 * 60 * 60 * 1000;
+      case "week":
+        return 7 * 24 * 60 * 60 * 1000;
+      case "month":
+        return 30 * 24 * 60 * 60 * 1000;
+    }
   }
 
   private getCutoffDate(
@@ -727,4 +679,28 @@ export class SearchService {
         return new Date(now.getTime() - 365 * 24 * 60 * 60 * 1000);
     }
   }
+
+  private toHistoryEntry(entry: SearchHistory): SearchHistoryEntry {
+    return {
+      id: (entry as any)._id?.toString(),
+      query: entry.query,
+      filters: entry.filters,
+      searchedAt: entry.searchedAt,
+      resultsCount: entry.resultsCount,
+      clickedResults: entry.clickedResults || [],
+      searchDuration: entry.searchDuration,
+    };
+  }
+
+  private toSavedSearch(search: SavedSearchRecord): SavedSearch {
+    return {
+      id: (search as any)._id?.toString(),
+      name: search.name,
+      query: search.query,
+      filters: search.filters,
+      savedAt: search.savedAt,
+      lastUsed: search.lastUsed,
+      useCount: search.useCount,
+    };
+  }
 }
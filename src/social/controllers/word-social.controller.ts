@@ -14,6 +14,7 @@ import {
   Controller,
   Get,
   Post,
+  Patch,
   Delete,
   Body,
   Param,
@@ -56,6 +57,15 @@ class CommentDto {
   parentId?: string;
 }
 
+/**
+ * DTO pour la modification d'un commentaire
+ * @class EditCommentDto
+ */
+class EditCommentDto {
+  /** Nouveau contenu (l'ancien est conservé dans l'historique) */
+  content: string;
+}
+
 /**
  * DTO pour le partage de mots sur les réseaux sociaux
  * @class ShareDto
@@ -273,6 +283,12 @@ export class WordSocialController {
     enum: ['newest', 'oldest', 'most_liked', 'most_replies'],
     description: 'Tri des commentaires',
   })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    type: String,
+    description: 'Curseur renvoyé par la page précédente (prioritaire sur page)',
+  })
   @ApiResponse({
     status: 200,
     description: 'Commentaires récupérés',
@@ -299,6 +315,9 @@ export class WordSocialController {
               updatedAt: { type: 'string', format: 'date-time' },
               likes: { type: 'number' },
               isLiked: { type: 'boolean' },
+              editedAt: { type: 'string', format: 'date-time' },
+              isDeleted: { type: 'boolean' },
+              repliesCount: { type: 'number' },
               replies: {
                 type: 'array',
                 items: { type: 'object' },
@@ -311,6 +330,7 @@ export class WordSocialController {
         page: { type: 'number' },
         limit: { type: 'number' },
         hasMore: { type: 'boolean' },
+        nextCursor: { type: 'string', nullable: true },
       },
     },
   })
@@ -320,11 +340,13 @@ export class WordSocialController {
     @Query('page') page: number = 1,
     @Query('limit') limit: number = 20,
     @Query('sort') sort: 'newest' | 'oldest' | 'most_liked' | 'most_replies' = 'newest',
+    @Query('cursor') cursor?: string,
   ) {
     return this.wordSocialService.getComments(wordId, {
       page: +page,
       limit: +limit,
       sort,
+      cursor,
       userId: req?.user?._id,
     });
   }
@@ -565,6 +587,86 @@ export class WordSocialController {
     return this.wordSocialService.toggleCommentLike(commentId, req.user!._id);
   }
 
+  @Get('comments/:commentId/replies')
+  @UseGuards(OptionalJwtAuthGuard)
+  @ApiOperation({ summary: 'Récupérer les réponses d\'un fil de commentaires' })
+  @ApiParam({
+    name: 'commentId',
+    description: 'ID du commentaire (racine ou réponse du fil)',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Nombre de réponses',
+    example: 20,
+  })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    type: String,
+    description: 'Curseur renvoyé par la page précédente',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Réponses du fil, les plus anciennes d\'abord',
+  })
+  @ApiResponse({ status: 404, description: 'Commentaire introuvable' })
+  async getCommentReplies(
+    @Param('commentId') commentId: string,
+    @Request() req?: RequestWithUser,
+    @Query('limit') limit: number = 20,
+    @Query('cursor') cursor?: string,
+  ) {
+    return this.wordSocialService.getCommentReplies(commentId, {
+      limit: +limit,
+      cursor,
+      userId: req?.user?._id,
+    });
+  }
+
+  @Patch('comments/:commentId')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Modifier un commentaire' })
+  @ApiParam({
+    name: 'commentId',
+    description: 'ID du commentaire',
+  })
+  @ApiBody({ type: EditCommentDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Commentaire modifié, ancienne version archivée',
+  })
+  @ApiResponse({ status: 403, description: 'Seul l\'auteur peut modifier' })
+  @ApiResponse({ status: 404, description: 'Commentaire introuvable' })
+  async editComment(
+    @Param('commentId') commentId: string,
+    @Body() editDto: EditCommentDto,
+    @Request() req: RequestWithUser,
+  ) {
+    return this.wordSocialService.editComment(
+      commentId,
+      req.user!._id,
+      editDto.content,
+    );
+  }
+
+  @Get('comments/:commentId/history')
+  @ApiOperation({ summary: 'Historique des modifications d\'un commentaire' })
+  @ApiParam({
+    name: 'commentId',
+    description: 'ID du commentaire',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Contenu actuel et versions précédentes',
+  })
+  @ApiResponse({ status: 404, description: 'Commentaire introuvable' })
+  async getCommentHistory(@Param('commentId') commentId: string) {
+    return this.wordSocialService.getCommentHistory(commentId);
+  }
+
   @Delete('comments/:commentId')
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
@@ -603,6 +705,12 @@ export class WordSocialController {
     enum: ['formal', 'informal', 'technical', 'literary', 'everyday'],
     description: 'Contexte d\'usage',
   })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    type: String,
+    description: 'Curseur renvoyé par la page précédente',
+  })
   @ApiResponse({
     status: 200,
     description: 'Exemples d\'usage récupérés',
@@ -628,6 +736,7 @@ export class WordSocialController {
         },
         total: { type: 'number' },
         contexts: { type: 'array', items: { type: 'string' } },
+        nextCursor: { type: 'string', nullable: true },
       },
     },
   })
@@ -635,10 +744,12 @@ export class WordSocialController {
     @Param('id') wordId: string,
     @Query('limit') limit: number = 10,
     @Query('context') context?: 'formal' | 'informal' | 'technical' | 'literary' | 'everyday',
+    @Query('cursor') cursor?: string,
   ) {
     return this.wordSocialService.getUsageExamples(wordId, {
       limit: +limit,
       context,
+      cursor,
     });
   }
 
@@ -0,0 +1,53 @@
+/**
+ * @fileoverview Schéma Mongoose des likes de commentaires sur mots O'Ypunu
+ *
+ * Un document par couple (commentaire, utilisateur) ; le total est
+ * dénormalisé dans `WordComment.likesCount`.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document, Schema as MongooseSchema } from "mongoose";
+import { User } from "../../users/schemas/user.schema";
+import { WordComment } from "./word-comment.schema";
+
+/**
+ * Type document Mongoose pour les likes de commentaires
+ * @typedef {WordCommentLike & Document} WordCommentLikeDocument
+ */
+export type WordCommentLikeDocument = WordCommentLike & Document;
+
+/**
+ * Like d'un utilisateur sur un commentaire
+ *
+ * @class WordCommentLike
+ * @version 1.0.0
+ */
+@Schema({
+  timestamps: true,
+  collection: "word_comment_likes",
+})
+export class WordCommentLike {
+  @Prop({
+    type: MongooseSchema.Types.ObjectId,
+    ref: "WordComment",
+    required: true,
+  })
+  commentId: WordComment;
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: "User", required: true })
+  userId: User;
+
+  @Prop({ type: Date })
+  createdAt: Date;
+}
+
+export const WordCommentLikeSchema =
+  SchemaFactory.createForClass(WordCommentLike);
+
+// Un seul like par utilisateur et par commentaire
+WordCommentLikeSchema.index({ commentId: 1, userId: 1 }, { unique: true });
+WordCommentLikeSchema.index({ userId: 1, createdAt: -1 });
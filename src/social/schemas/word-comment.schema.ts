@@ -0,0 +1,106 @@
+/**
+ * @fileoverview Schéma Mongoose des commentaires sur mots O'Ypunu
+ *
+ * Commentaires en fils de discussion : un commentaire racine porte le
+ * nombre de réponses de son fil, chaque réponse référence son parent
+ * direct et la racine du fil. Les modifications conservent le contenu
+ * précédent dans l'historique.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document, Schema as MongooseSchema, Types } from "mongoose";
+import { User } from "../../users/schemas/user.schema";
+import { Word } from "../../dictionary/schemas/word.schema";
+
+/**
+ * Type document Mongoose pour les commentaires sur mots
+ * @typedef {WordComment & Document} WordCommentDocument
+ */
+export type WordCommentDocument = WordComment & Document;
+
+/**
+ * Version antérieure d'un commentaire modifié
+ *
+ * @class WordCommentEdit
+ * @version 1.0.0
+ */
+@Schema({ _id: false })
+export class WordCommentEdit {
+  @Prop({ type: String, required: true })
+  content: string;
+
+  @Prop({ type: Date, required: true })
+  editedAt: Date;
+}
+
+/**
+ * Commentaire sur un mot
+ *
+ * ## 💬 Fils de discussion :
+ * - **Racine** : `parentId` et `rootId` absents, `repliesCount` compte
+ *   toutes les réponses du fil
+ * - **Réponse** : `parentId` (commentaire répondu) et `rootId` (racine)
+ * - **Suppression** : un commentaire ayant des réponses est vidé et
+ *   marqué `isDeleted` pour préserver le fil
+ *
+ * @class WordComment
+ * @version 1.0.0
+ */
+@Schema({
+  timestamps: true,
+  collection: "word_comments",
+})
+export class WordComment {
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: "Word", required: true })
+  wordId: Word;
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: "User", required: true })
+  authorId: User;
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: "WordComment" })
+  parentId?: Types.ObjectId;
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: "WordComment" })
+  rootId?: Types.ObjectId;
+
+  @Prop({ type: String, required: true, maxlength: 2000 })
+  content: string;
+
+  @Prop({ type: Number, default: 0 })
+  likesCount: number;
+
+  @Prop({ type: Number, default: 0 })
+  repliesCount: number;
+
+  @Prop({ type: [WordCommentEdit], default: [] })
+  editHistory: WordCommentEdit[];
+
+  @Prop({ type: Date })
+  editedAt?: Date;
+
+  @Prop({ type: Boolean, default: false })
+  isDeleted: boolean;
+
+  @Prop({ type: Date })
+  createdAt: Date;
+
+  @Prop({ type: Date })
+  updatedAt: Date;
+}
+
+export const WordCommentSchema = SchemaFactory.createForClass(WordComment);
+
+// Fils d'un mot selon chaque tri proposé (pagination par curseur)
+WordCommentSchema.index({ wordId: 1, parentId: 1, createdAt: -1, _id: -1 });
+WordCommentSchema.index({ wordId: 1, parentId: 1, likesCount: -1, _id: -1 });
+WordCommentSchema.index({ wordId: 1, parentId: 1, repliesCount: -1, _id: -1 });
+
+// Réponses d'un fil, dans l'ordre chronologique
+WordCommentSchema.index({ rootId: 1, createdAt: 1, _id: 1 });
+
+// Participation d'un utilisateur
+WordCommentSchema.index({ wordId: 1, authorId: 1 });
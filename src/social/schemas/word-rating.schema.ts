@@ -0,0 +1,57 @@
+/**
+ * @fileoverview Schéma Mongoose des notes attribuées aux mots O'Ypunu
+ *
+ * Une note de 1 à 5 par utilisateur et par mot, modifiable ; le nombre
+ * et la somme des notes sont dénormalisés dans `Word.social`.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document, Schema as MongooseSchema } from "mongoose";
+import { User } from "../../users/schemas/user.schema";
+import { Word } from "../../dictionary/schemas/word.schema";
+
+/**
+ * Type document Mongoose pour les notes de mots
+ * @typedef {WordRating & Document} WordRatingDocument
+ */
+export type WordRatingDocument = WordRating & Document;
+
+/**
+ * Note d'un utilisateur sur un mot
+ *
+ * @class WordRating
+ * @version 1.0.0
+ */
+@Schema({
+  timestamps: true,
+  collection: "word_ratings",
+})
+export class WordRating {
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: "Word", required: true })
+  wordId: Word;
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: "User", required: true })
+  userId: User;
+
+  @Prop({ type: Number, required: true, min: 1, max: 5 })
+  rating: number;
+
+  @Prop({ type: String, maxlength: 500 })
+  comment?: string;
+
+  @Prop({ type: Date })
+  createdAt: Date;
+
+  @Prop({ type: Date })
+  updatedAt: Date;
+}
+
+export const WordRatingSchema = SchemaFactory.createForClass(WordRating);
+
+// Une note par utilisateur et par mot (distribution par mot)
+WordRatingSchema.index({ wordId: 1, userId: 1 }, { unique: true });
+WordRatingSchema.index({ wordId: 1, rating: 1 });
@@ -0,0 +1,64 @@
+/**
+ * @fileoverview Schéma Mongoose des partages de mots O'Ypunu
+ *
+ * Chaque partage vers une plateforme externe est conservé pour les
+ * statistiques ; le total est dénormalisé dans `Word.social.shares`.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document, Schema as MongooseSchema } from "mongoose";
+import { User } from "../../users/schemas/user.schema";
+import { Word } from "../../dictionary/schemas/word.schema";
+
+/**
+ * Type document Mongoose pour les partages de mots
+ * @typedef {WordShare & Document} WordShareDocument
+ */
+export type WordShareDocument = WordShare & Document;
+
+export const WORD_SHARE_PLATFORMS = [
+  "facebook",
+  "twitter",
+  "linkedin",
+  "whatsapp",
+  "telegram",
+  "email",
+] as const;
+export type WordSharePlatform = (typeof WORD_SHARE_PLATFORMS)[number];
+
+/**
+ * Partage d'un mot par un utilisateur
+ *
+ * @class WordShare
+ * @version 1.0.0
+ */
+@Schema({
+  timestamps: true,
+  collection: "word_shares",
+})
+export class WordShare {
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: "Word", required: true })
+  wordId: Word;
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: "User", required: true })
+  userId: User;
+
+  @Prop({ type: String, enum: WORD_SHARE_PLATFORMS, required: true })
+  platform: WordSharePlatform;
+
+  @Prop({ type: String, maxlength: 500 })
+  message?: string;
+
+  @Prop({ type: Date })
+  createdAt: Date;
+}
+
+export const WordShareSchema = SchemaFactory.createForClass(WordShare);
+
+// Partages d'un mot et participation d'un utilisateur
+WordShareSchema.index({ wordId: 1, createdAt: -1 });
+WordShareSchema.index({ wordId: 1, userId: 1 });
@@ -0,0 +1,86 @@
+/**
+ * @fileoverview Schéma Mongoose des exemples d'usage communautaires O'Ypunu
+ *
+ * Phrases d'exemple proposées par les utilisateurs pour un mot, classées
+ * par contexte d'usage ; leur nombre est dénormalisé dans
+ * `Word.social.usageExamples`.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document, Schema as MongooseSchema } from "mongoose";
+import { User } from "../../users/schemas/user.schema";
+import { Word } from "../../dictionary/schemas/word.schema";
+
+/**
+ * Type document Mongoose pour les exemples d'usage
+ * @typedef {WordUsageExample & Document} WordUsageExampleDocument
+ */
+export type WordUsageExampleDocument = WordUsageExample & Document;
+
+export const USAGE_EXAMPLE_CONTEXTS = [
+  "formal",
+  "informal",
+  "technical",
+  "literary",
+  "everyday",
+] as const;
+export type UsageExampleContext = (typeof USAGE_EXAMPLE_CONTEXTS)[number];
+
+/**
+ * Exemple d'usage contribué par la communauté
+ *
+ * @class WordUsageExample
+ * @version 1.0.0
+ */
+@Schema({
+  timestamps: true,
+  collection: "word_usage_examples",
+})
+export class WordUsageExample {
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: "Word", required: true })
+  wordId: Word;
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: "User", required: true })
+  contributorId: User;
+
+  @Prop({ type: String, required: true, maxlength: 1000 })
+  sentence: string;
+
+  @Prop({ type: String, maxlength: 1000 })
+  translation?: string;
+
+  @Prop({ type: String, enum: USAGE_EXAMPLE_CONTEXTS, default: "everyday" })
+  context: UsageExampleContext;
+
+  @Prop({ type: String, maxlength: 300 })
+  source?: string;
+
+  /** Niveau estimé : Débutant, Intermédiaire ou Avancé */
+  @Prop({ type: String })
+  difficulty: string;
+
+  @Prop({ type: Number, default: 0 })
+  likesCount: number;
+
+  @Prop({ type: String })
+  audioUrl?: string;
+
+  @Prop({ type: Date })
+  createdAt: Date;
+}
+
+export const WordUsageExampleSchema =
+  SchemaFactory.createForClass(WordUsageExample);
+
+// Exemples d'un mot par popularité, filtrés ou non par contexte
+WordUsageExampleSchema.index({ wordId: 1, likesCount: -1, _id: -1 });
+WordUsageExampleSchema.index({
+  wordId: 1,
+  context: 1,
+  likesCount: -1,
+  _id: -1,
+});
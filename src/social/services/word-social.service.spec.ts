@@ -0,0 +1,248 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { ForbiddenException, NotFoundException } from "@nestjs/common";
+import { WordSocialService } from "./word-social.service";
+
+describe("WordSocialService", () => {
+  let service: WordSocialService;
+  let wordRepository: any;
+  let wordVoteRepository: any;
+  let commentRepository: any;
+  let commentLikeRepository: any;
+  let ratingRepository: any;
+
+  const wordId = "64d000000000000000000001";
+  const comment = (overrides: Record<string, any> = {}) => ({
+    _id: "c1",
+    wordId,
+    authorId: { _id: "u1", username: "auteur", role: "user" },
+    content: "Très utile",
+    likesCount: 2,
+    repliesCount: 0,
+    editHistory: [],
+    isDeleted: false,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    wordRepository = {
+      findById: jest.fn().mockResolvedValue({ _id: wordId, word: "mbolo" }),
+      incrementSocialCounters: jest.fn((id, deltas) =>
+        Promise.resolve({ likes: 1, ratings: 2, ratingSum: 9, ...deltas })
+      ),
+      findTrending: jest.fn(),
+    };
+    wordVoteRepository = { vote: jest.fn(), countByWord: jest.fn() };
+    commentRepository = {
+      create: jest.fn((data) =>
+        Promise.resolve(comment({ _id: "c2", ...data }))
+      ),
+      findById: jest.fn().mockResolvedValue(comment()),
+      findThreads: jest.fn(),
+      findReplyPreviews: jest.fn(),
+      hasReplies: jest.fn().mockResolvedValue(false),
+      updateContent: jest.fn(),
+      incrementCounters: jest.fn().mockResolvedValue(comment()),
+      softDelete: jest.fn(),
+      delete: jest.fn().mockResolvedValue(true),
+    };
+    commentLikeRepository = {
+      toggle: jest.fn(),
+      findLikedCommentIds: jest.fn().mockResolvedValue([]),
+      deleteByComment: jest.fn(),
+    };
+    ratingRepository = {
+      upsert: jest.fn(),
+      getDistribution: jest.fn().mockResolvedValue({}),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WordSocialService,
+        { provide: "IWordRepository", useValue: wordRepository },
+        { provide: "IUserRepository", useValue: {} },
+        { provide: "IWordViewRepository", useValue: {} },
+        { provide: "IWordVoteRepository", useValue: wordVoteRepository },
+        { provide: "IFavoriteWordRepository", useValue: {} },
+        { provide: "IWordCommentRepository", useValue: commentRepository },
+        {
+          provide: "IWordCommentLikeRepository",
+          useValue: commentLikeRepository,
+        },
+        { provide: "IWordShareRepository", useValue: {} },
+        { provide: "IWordRatingRepository", useValue: ratingRepository },
+        { provide: "IWordUsageExampleRepository", useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<WordSocialService>(WordSocialService);
+  });
+
+  describe("addComment", () => {
+    it("should attach a reply to the root of its thread", async () => {
+      commentRepository.findById.mockResolvedValue(
+        comment({ _id: "c1", rootId: "root" })
+      );
+
+      const reply = await service.addComment(wordId, " D'accord ", "u2", "c1");
+
+      expect(commentRepository.create).toHaveBeenCalledWith({
+        wordId,
+        authorId: "u2",
+        content: "D'accord",
+        parentId: "c1",
+        rootId: "root",
+      });
+      expect(commentRepository.incrementCounters).toHaveBeenCalledWith(
+        "root",
+        { repliesCount: 1 }
+      );
+      expect(wordRepository.incrementSocialCounters).toHaveBeenCalledWith(
+        wordId,
+        { comments: 1, score: 4 }
+      );
+      expect(reply.rootId).toBe("root");
+    });
+  });
+
+  describe("getComments", () => {
+    it("should return reply previews, user likes and the next cursor", async () => {
+      commentRepository.findThreads.mockResolvedValue({
+        comments: [comment({ repliesCount: 1 })],
+        total: 5,
+        nextCursor: "next",
+      });
+      commentRepository.findReplyPreviews.mockResolvedValue({
+        c1: [comment({ _id: "r1", parentId: "c1", rootId: "c1" })],
+      });
+      commentLikeRepository.findLikedCommentIds.mockResolvedValue(["r1"]);
+
+      const page = await service.getComments(wordId, {
+        page: 1,
+        limit: 1,
+        sort: "most_liked",
+        cursor: "prev",
+        userId: "u3",
+      });
+
+      expect(commentRepository.findThreads).toHaveBeenCalledWith(wordId, {
+        sort: "most_liked",
+        limit: 1,
+        page: 1,
+        cursor: "prev",
+      });
+      expect(commentLikeRepository.findLikedCommentIds).toHaveBeenCalledWith(
+        "u3",
+        ["c1", "r1"]
+      );
+      expect(page.comments[0].replies[0]).toEqual(
+        expect.objectContaining({ id: "r1", isLiked: true })
+      );
+      expect(page).toEqual(
+        expect.objectContaining({ hasMore: true, nextCursor: "next" })
+      );
+    });
+  });
+
+  describe("editComment", () => {
+    it("should refuse edits from someone other than the author", async () => {
+      await expect(
+        service.editComment("c1", "u2", "Autre chose")
+      ).rejects.toThrow(ForbiddenException);
+      expect(commentRepository.updateContent).not.toHaveBeenCalled();
+    });
+
+    it("should list previous versions most recent first", async () => {
+      const first = { content: "v1", editedAt: new Date("2025-01-01") };
+      const second = { content: "v2", editedAt: new Date("2025-02-01") };
+      commentRepository.findById.mockResolvedValue(
+        comment({ content: "v3", editHistory: [first, second] })
+      );
+
+      const history = await service.getCommentHistory("c1");
+
+      expect(history.content).toBe("v3");
+      expect(history.history).toEqual([second, first]);
+    });
+  });
+
+  describe("deleteComment", () => {
+    it("should keep a comment that has replies in its thread", async () => {
+      commentRepository.hasReplies.mockResolvedValue(true);
+
+      await service.deleteComment("c1", "u1");
+
+      expect(commentRepository.softDelete).toHaveBeenCalledWith("c1");
+      expect(commentRepository.delete).not.toHaveBeenCalled();
+      expect(wordRepository.incrementSocialCounters).toHaveBeenCalledWith(
+        wordId,
+        { comments: -1, score: -4 }
+      );
+    });
+
+    it("should remove a reply and decrement its thread", async () => {
+      commentRepository.findById.mockResolvedValue(
+        comment({ _id: "r1", rootId: "c1" })
+      );
+
+      await service.deleteComment("r1", "u1");
+
+      expect(commentRepository.delete).toHaveBeenCalledWith("r1");
+      expect(commentLikeRepository.deleteByComment).toHaveBeenCalledWith("r1");
+      expect(commentRepository.incrementCounters).toHaveBeenCalledWith("c1", {
+        repliesCount: -1,
+      });
+    });
+
+    it("should not let another user delete the comment", async () => {
+      await expect(service.deleteComment("c1", "u2")).rejects.toThrow(
+        NotFoundException
+      );
+    });
+  });
+
+  describe("toggleCommentLike", () => {
+    it("should leave the counter alone when a concurrent like won", async () => {
+      commentLikeRepository.toggle.mockResolvedValue({
+        liked: true,
+        changed: false,
+      });
+
+      const result = await service.toggleCommentLike("c1", "u2");
+
+      expect(commentRepository.incrementCounters).not.toHaveBeenCalled();
+      expect(result).toEqual({ liked: true, totalLikes: 2 });
+    });
+  });
+
+  describe("toggleLike", () => {
+    it("should decrement the word likes when the like is removed", async () => {
+      wordVoteRepository.vote.mockResolvedValue({
+        action: "removed",
+        previousReaction: "like",
+      });
+
+      const result = await service.toggleLike(wordId, "u1");
+
+      expect(wordRepository.incrementSocialCounters).toHaveBeenCalledWith(
+        wordId,
+        { likes: -1, score: -3 }
+      );
+      expect(result.liked).toBe(false);
+    });
+  });
+
+  describe("rateWord", () => {
+    it("should only shift the rating sum when a user rates again", async () => {
+      ratingRepository.upsert.mockResolvedValue(2);
+
+      const result = await service.rateWord(wordId, "u1", 5);
+
+      expect(wordRepository.incrementSocialCounters).toHaveBeenCalledWith(
+        wordId,
+        { ratingSum: 3, score: 1.5 }
+      );
+      expect(result.totalRatings).toBe(2);
+      expect(result.averageRating).toBe(1.5);
+    });
+  });
+});
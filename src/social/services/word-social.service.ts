@@ -10,13 +10,46 @@
  * @since 2025-01-01
  */
 
-import { Injectable, Inject } from "@nestjs/common";
+import {
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
 import { IWordRepository } from "../../repositories/interfaces/word.repository.interface";
 import { IUserRepository } from "../../repositories/interfaces/user.repository.interface";
 import { IWordViewRepository } from "../../repositories/interfaces/word-view.repository.interface";
 import { IWordVoteRepository } from "../../repositories/interfaces/word-vote.repository.interface";
 import { IFavoriteWordRepository } from "../../repositories/interfaces/favorite-word.repository.interface";
-import { DatabaseErrorHandler } from "../../common/errors"
+import {
+  IWordCommentRepository,
+  WordCommentSort,
+} from "../../repositories/interfaces/word-comment.repository.interface";
+import { IWordCommentLikeRepository } from "../../repositories/interfaces/word-comment-like.repository.interface";
+import { IWordShareRepository } from "../../repositories/interfaces/word-share.repository.interface";
+import { IWordRatingRepository } from "../../repositories/interfaces/word-rating.repository.interface";
+import { IWordUsageExampleRepository } from "../../repositories/interfaces/word-usage-example.repository.interface";
+import { WordSocialCounters } from "../../dictionary/schemas/word.schema";
+import { WordComment as StoredWordComment } from "../schemas/word-comment.schema";
+import { WordSharePlatform } from "../schemas/word-share.schema";
+import { WordUsageExample } from "../schemas/word-usage-example.schema";
+import { DatabaseErrorHandler } from "../../common/errors";
+
+/**
+ * Poids de chaque interaction dans `Word.social.score` (classement des
+ * tendances) ; les notes comptent via leur somme
+ */
+const SOCIAL_SCORE_WEIGHTS: Partial<Record<keyof WordSocialCounters, number>> =
+  {
+    likes: 3,
+    shares: 5,
+    comments: 4,
+    usageExamples: 2,
+    ratingSum: 0.5,
+  };
+
+/** Réponses affichées sous chaque fil dans la liste des commentaires */
+const REPLY_PREVIEW_SIZE = 3;
 
 /**
  * Interface pour les commentaires hiérarchiques sur les mots
@@ -38,14 +71,22 @@ export interface WordComment {
   createdAt: Date;
   /** Date de dernière modification */
   updatedAt: Date;
+  /** Date de la dernière modification du contenu (voir l'historique) */
+  editedAt?: Date;
+  /** Commentaire supprimé conservé pour ses réponses (contenu vidé) */
+  isDeleted: boolean;
   /** Nombre de likes reçus */
   likes: number;
   /** Indique si l'utilisateur actuel a liké le commentaire */
   isLiked: boolean;
-  /** Réponses au commentaire (structure hiérarchique) */
+  /** Nombre total de réponses du fil (commentaires racines) */
+  repliesCount: number;
+  /** Premières réponses du fil (voir `getCommentReplies` pour la suite) */
   replies: WordComment[];
   /** ID du commentaire parent (pour les réponses) */
   parentId?: string;
+  /** ID du commentaire racine du fil (pour les réponses) */
+  rootId?: string;
 }
 
 /**
@@ -159,20 +200,6 @@ export interface UsageExample {
  */
 @Injectable()
 export class WordSocialService {
-  // Simuler des bases de données en mémoire pour les fonctionnalités sociales
-  private comments: Map<string, WordComment[]> = new Map();
-  private likes: Map<string, Set<string>> = new Map(); // wordId -> Set<userId>
-  private shares: Map<
-    string,
-    Array<{ userId: string; platform: string; timestamp: Date }>
-  > = new Map();
-  private ratings: Map<
-    string,
-    Map<string, { rating: number; comment?: string; timestamp: Date }>
-  > = new Map();
-  private usageExamples: Map<string, UsageExample[]> = new Map();
-  private commentLikes: Map<string, Set<string>> = new Map(); // commentId -> Set<userId>
-
   constructor(
     @Inject("IWordRepository") private wordRepository: IWordRepository,
     @Inject("IUserRepository") private userRepository: IUserRepository,
@@ -181,7 +208,17 @@ export class WordSocialService {
     @Inject("IWordVoteRepository")
     private wordVoteRepository: IWordVoteRepository,
     @Inject("IFavoriteWordRepository")
-    private favoriteWordRepository: IFavoriteWordRepository
+    private favoriteWordRepository: IFavoriteWordRepository,
+    @Inject("IWordCommentRepository")
+    private wordCommentRepository: IWordCommentRepository,
+    @Inject("IWordCommentLikeRepository")
+    private wordCommentLikeRepository: IWordCommentLikeRepository,
+    @Inject("IWordShareRepository")
+    private wordShareRepository: IWordShareRepository,
+    @Inject("IWordRatingRepository")
+    private wordRatingRepository: IWordRatingRepository,
+    @Inject("IWordUsageExampleRepository")
+    private wordUsageExampleRepository: IWordUsageExampleRepository
   ) {}
 
   async getWordOfTheDay(): Promise<{
@@ -260,47 +297,36 @@ export class WordSocialService {
           throw new Error("Mot introuvable");
         }
 
-        // Récupérer les informations de l'auteur
-        const author = await this.userRepository.findById(authorId);
-        if (!author) {
-          throw new Error("Utilisateur introuvable");
+        // Une réponse rejoint le fil de son parent
+        let rootId: string | undefined;
+        if (parentId) {
+          const parent = await this.wordCommentRepository.findById(parentId);
+          if (
+            !parent ||
+            parent.isDeleted ||
+            this.idOf(parent.wordId) !== wordId
+          ) {
+            throw new NotFoundException("Commentaire parent introuvable");
+          }
+          rootId = this.idOf(parent.rootId) || parentId;
         }
 
-        const commentId = `comment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-        const comment: WordComment = {
-          id: commentId,
+        const comment = await this.wordCommentRepository.create({
+          wordId,
+          authorId,
           content: content.trim(),
-          author: {
-            id: authorId,
-            username: author.username,
-            profilePicture: author.profilePicture,
-            role: author.role,
-          },
-          createdAt: new Date(),
-          updatedAt: new Date(),
-          likes: 0,
-          isLiked: false,
-          replies: [],
           parentId,
-        };
-
-        // Ajouter le commentaire
-        const wordComments = this.comments.get(wordId) || [];
+          rootId,
+        });
 
-        if (parentId) {
-          // Ajouter comme réponse à un commentaire parent
-          const parentComment = wordComments.find((c) => c.id === parentId);
-          if (parentComment) {
-            parentComment.replies.push(comment);
-          }
-        } else {
-          // Ajouter comme commentaire principal
-          wordComments.unshift(comment);
+        if (rootId) {
+          await this.wordCommentRepository.incrementCounters(rootId, {
+            repliesCount: 1,
+          });
         }
+        await this.adjustSocialCounters(wordId, { comments: 1 });
 
-        this.comments.set(wordId, wordComments);
-
-        return comment;
+        return this.toComment(comment, new Set());
       },
       "WordSocial",
       authorId // Passer seulement userId
@@ -312,7 +338,8 @@ export class WordSocialService {
     options: {
       page: number;
       limit: number;
-      sort: "newest" | "oldest" | "most_liked" | "most_replies";
+      sort: WordCommentSort;
+      cursor?: string;
       userId?: string;
     }
   ): Promise<{
@@ -321,76 +348,148 @@ export class WordSocialService {
     page: number;
     limit: number;
     hasMore: boolean;
+    nextCursor: string | null;
   }> {
     return DatabaseErrorHandler.handleFindOperation(
       async () => {
-        let comments = this.comments.get(wordId) || [];
+        const threads = await this.wordCommentRepository.findThreads(wordId, {
+          sort: options.sort,
+          limit: options.limit,
+          page: options.page,
+          cursor: options.cursor,
+        });
+
+        const rootIds = threads.comments.map((c) => this.idOf(c));
+        const previews = await this.wordCommentRepository.findReplyPreviews(
+          rootIds,
+          REPLY_PREVIEW_SIZE
+        );
+        const replies = Object.values(previews).flat();
 
         // Marquer les likes de l'utilisateur si connecté
-        if (options.userId) {
-          comments = comments.map((comment) => ({
-            ...comment,
-            isLiked:
-              this.commentLikes.get(comment.id)?.has(options.userId!) || false,
-            replies: comment.replies.map((reply) => ({
-              ...reply,
-              isLiked:
-                this.commentLikes.get(reply.id)?.has(options.userId!) || false,
-            })),
-          }));
+        const likedIds = await this.findLikedIds(options.userId, [
+          ...threads.comments,
+          ...replies,
+        ]);
+
+        return {
+          comments: threads.comments.map((thread) => ({
+            ...this.toComment(thread, likedIds),
+            replies: (previews[this.idOf(thread)] || []).map((reply) =>
+              this.toComment(reply, likedIds)
+            ),
+          })),
+          total: threads.total,
+          page: options.page,
+          limit: options.limit,
+          hasMore: threads.nextCursor !== null,
+          nextCursor: threads.nextCursor,
+        };
+      },
+      "WordSocial",
+      wordId
+    );
+  }
+
+  async getCommentReplies(
+    commentId: string,
+    options: { limit: number; cursor?: string; userId?: string }
+  ): Promise<{
+    replies: WordComment[];
+    total: number;
+    nextCursor: string | null;
+  }> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        const comment = await this.wordCommentRepository.findById(commentId);
+        if (!comment) {
+          throw new NotFoundException("Commentaire introuvable");
         }
 
-        // Trier les commentaires
-        switch (options.sort) {
-          case "oldest":
-            comments.sort(
-              (a, b) => a.createdAt.getTime() - b.createdAt.getTime()
-            );
-            break;
-          case "most_liked":
-            comments.sort((a, b) => b.likes - a.likes);
-            break;
-          case "most_replies":
-            comments.sort((a, b) => b.replies.length - a.replies.length);
-            break;
-          case "newest":
-          default:
-            comments.sort(
-              (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
-            );
-            break;
+        // Les réponses sont rattachées à la racine du fil
+        const rootId = this.idOf(comment.rootId) || commentId;
+        const page = await this.wordCommentRepository.findReplies(rootId, {
+          limit: options.limit,
+          cursor: options.cursor,
+        });
+        const likedIds = await this.findLikedIds(options.userId, page.comments);
+
+        return {
+          replies: page.comments.map((reply) =>
+            this.toComment(reply, likedIds)
+          ),
+          total: page.total,
+          nextCursor: page.nextCursor,
+        };
+      },
+      "WordSocial",
+      commentId
+    );
+  }
+
+  async editComment(
+    commentId: string,
+    userId: string,
+    content: string
+  ): Promise<WordComment> {
+    return DatabaseErrorHandler.handleUpdateOperation(
+      async () => {
+        const comment = await this.wordCommentRepository.findById(commentId);
+        if (!comment || comment.isDeleted) {
+          throw new NotFoundException("Commentaire introuvable");
+        }
+        if (this.idOf(comment.authorId) !== userId) {
+          throw new ForbiddenException(
+            "Seul l'auteur peut modifier ce commentaire"
+          );
         }
 
-        // Pagination
-        const total = comments.length;
-        const startIndex = (options.page - 1) * options.limit;
-        const paginatedComments = comments.slice(
-          startIndex,
-          startIndex + options.limit
+        const updated = await this.wordCommentRepository.updateContent(
+          commentId,
+          content.trim()
         );
+        if (!updated) {
+          throw new NotFoundException("Commentaire introuvable");
+        }
+
+        const likedIds = await this.findLikedIds(userId, [updated]);
+        return this.toComment(updated, likedIds);
+      },
+      "WordSocial",
+      commentId,
+      userId
+    );
+  }
+
+  async getCommentHistory(commentId: string): Promise<{
+    commentId: string;
+    content: string;
+    editedAt?: Date;
+    history: Array<{ content: string; editedAt: Date }>;
+  }> {
+    return DatabaseErrorHandler.handleFindOperation(
+      async () => {
+        const comment = await this.wordCommentRepository.findById(commentId);
+        if (!comment || comment.isDeleted) {
+          throw new NotFoundException("Commentaire introuvable");
+        }
 
         return {
-          comments: paginatedComments,
-          total,
-          page: options.page,
-          limit: options.limit,
-          hasMore: startIndex + options.limit < total,
+          commentId,
+          content: comment.content,
+          editedAt: comment.editedAt,
+          // Versions précédentes, la plus récente d'abord
+          history: [...(comment.editHistory || [])].reverse(),
         };
       },
       "WordSocial",
-      wordId
+      commentId
     );
   }
 
   async shareWord(
     wordId: string,
-    platform:
-      | "facebook"
-      | "twitter"
-      | "linkedin"
-      | "whatsapp"
-      | "telegram"
-      | "email",
+    platform: WordSharePlatform,
     userId: string,
     message?: string,
     recipients?: string[]
@@ -412,26 +511,23 @@ export class WordSocialService {
           throw new Error("Mot introuvable");
         }
 
-        // Enregistrer le partage
-        const wordShares = this.shares.get(wordId) || [];
-        const shareData = {
+        // Générer le message de partage
+        const shareMessage =
+          message || this.generateShareMessage(word, platform);
+
+        // Enregistrer le partage (son ID sert au tracking)
+        const share = await this.wordShareRepository.create({
+          wordId,
           userId,
           platform,
-          timestamp: new Date(),
-        };
-        wordShares.push(shareData);
-        this.shares.set(wordId, wordShares);
+          message: shareMessage,
+        });
+        await this.adjustSocialCounters(wordId, { shares: 1 });
 
         // Générer l'URL de partage
         const baseUrl = process.env.FRONTEND_URL || "https://oypunu.com";
         const shareUrl = `${baseUrl}/words/${wordId}`;
-
-        // Générer le message de partage
-        const shareMessage =
-          message || this.generateShareMessage(word, platform);
-
-        // ID unique pour le tracking
-        const shareId = `share_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+        const shareId = this.idOf(share);
 
         return {
           success: true,
@@ -471,17 +567,15 @@ export class WordSocialService {
           wordId,
           "like"
         );
-
-        // Compter les likes totaux
-        const likeCounts = await this.wordVoteRepository.countByWord(wordId, {
-          reactionType: "like",
+        const counters = await this.adjustSocialCounters(wordId, {
+          likes: this.likeDelta("like", voteResult),
         });
+        const liked = voteResult.action !== "removed";
 
         return {
-          liked: voteResult.action === "created",
-          totalLikes: likeCounts.like || 0,
-          message:
-            voteResult.action === "created" ? "Like ajouté" : "Like retiré",
+          liked,
+          totalLikes: Math.max(0, counters?.likes || 0),
+          message: liked ? "Like ajouté" : "Like retiré",
         };
       },
       "WordSocial",
@@ -514,37 +608,26 @@ export class WordSocialService {
           throw new Error("Mot introuvable");
         }
 
-        // Enregistrer/mettre à jour la note
-        const wordRatings = this.ratings.get(wordId) || new Map();
-        wordRatings.set(userId, {
+        // Enregistrer/mettre à jour la note, puis reporter l'écart
+        const previousRating = await this.wordRatingRepository.upsert(
+          wordId,
+          userId,
           rating,
-          comment,
-          timestamp: new Date(),
-        });
-        this.ratings.set(wordId, wordRatings);
-
-        // Calculer les statistiques
-        const allRatings = Array.from(wordRatings.values());
-        const totalRatings = allRatings.length;
-        const averageRating =
-          allRatings.reduce((sum, r) => sum + r.rating, 0) / totalRatings;
-
-        // Distribution des notes
-        const ratingDistribution: Record<string, number> = {
-          "1": 0,
-          "2": 0,
-          "3": 0,
-          "4": 0,
-          "5": 0,
-        };
-        allRatings.forEach((r) => {
-          ratingDistribution[r.rating.toString()]++;
-        });
+          comment
+        );
+        const counters = await this.adjustSocialCounters(
+          wordId,
+          previousRating === null
+            ? { ratings: 1, ratingSum: rating }
+            : { ratingSum: rating - previousRating }
+        );
+        const ratingDistribution =
+          await this.wordRatingRepository.getDistribution(wordId);
 
         return {
           userRating: rating,
-          averageRating: Math.round(averageRating * 100) / 100,
-          totalRatings,
+          averageRating: this.averageRating(counters),
+          totalRatings: counters?.ratings || 0,
           ratingDistribution,
         };
       },
@@ -557,65 +640,36 @@ export class WordSocialService {
   async getSocialStats(wordId: string, userId?: string): Promise<SocialStats> {
     return DatabaseErrorHandler.handleAggregationOperation(
       async () => {
-        // Récupérer les statistiques de vote sophistiquées
-        const voteStats = await this.wordVoteRepository.getWordScore(wordId);
-        const voteCounts = await this.wordVoteRepository.countByWord(wordId);
-
-        // Autres statistiques
-        const shares = this.shares.get(wordId)?.length || 0;
-        const comments = this.getTotalCommentsCount(wordId);
-        const views = await this.getWordViews(wordId);
-        const favorites = await this.favoriteWordRepository.countByWord(wordId);
-
-        // Statistiques de notation (legacy pour compatibilité)
-        const wordRatings = this.ratings.get(wordId);
-        const ratingsArray = wordRatings
-          ? Array.from(wordRatings.values())
-          : [];
-        const legacyAverageRating =
-          ratingsArray.length > 0
-            ? ratingsArray.reduce((sum, r) => sum + r.rating, 0) /
-              ratingsArray.length
-            : 0;
+        const word = await this.wordRepository.findById(wordId);
+        const [views, favorites] = await Promise.all([
+          this.getWordViews(wordId),
+          this.favoriteWordRepository.countByWord(wordId),
+        ]);
 
         // Interactions utilisateur
-        let userInteractions;
+        let userInteractions: SocialStats["userInteractions"];
         if (userId) {
-          const hasVoted = await this.wordVoteRepository.hasUserVoted(
-            userId,
-            wordId
-          );
-          const userVote = await this.wordVoteRepository.findUserVote(
-            userId,
-            wordId
-          );
+          const [userVote, shared, commented, userRating, favorited] =
+            await Promise.all([
+              this.wordVoteRepository.findUserVote(userId, wordId),
+              this.wordShareRepository.hasUserShared(wordId, userId),
+              this.wordCommentRepository.hasUserCommented(wordId, userId),
+              this.wordRatingRepository.findUserRating(wordId, userId),
+              this.favoriteWordRepository.isFavorited(userId, wordId),
+            ]);
 
           userInteractions = {
             liked: userVote?.reactionType === "like" || false,
-            shared:
-              this.shares.get(wordId)?.some((s) => s.userId === userId) ||
-              false,
-            commented: this.hasUserCommented(wordId, userId),
-            rated: wordRatings?.get(userId)?.rating || 0,
-            favorited: await this.favoriteWordRepository.isFavorited(userId, wordId),
+            shared,
+            commented,
+            rated: userRating?.rating || 0,
+            favorited,
           };
         }
 
-        // Score de popularité basé sur le système de vote sophistiqué
-        const popularityScore =
-          voteStats.popularityScore + shares * 5 + comments * 4 + views * 0.1;
-
         return {
-          likes: voteCounts.like || 0,
-          shares,
-          comments,
-          views,
-          favorites,
-          averageRating: Math.round(legacyAverageRating * 100) / 100,
-          totalRatings: ratingsArray.length,
+          ...this.toSocialStats(word?.social, views, favorites),
           userInteractions,
-          popularityScore: Math.round(popularityScore * 100) / 100,
-          trendingRank: 0, // TODO: Calculer le rang dans les tendances
         };
       },
       "WordSocial",
@@ -634,16 +688,24 @@ export class WordSocialService {
   }> {
     return DatabaseErrorHandler.handleAggregationOperation(
       async () => {
-        // Récupérer les mots populaires
-        const popularWords = await this.wordRepository.findFeatured(
-          options.limit * 2
-        );
+        // Mots classés par score d'engagement dénormalisé
+        const popularWords = await this.wordRepository.findTrending({
+          limit: options.limit,
+          language: options.language,
+        });
 
         // Calculer les scores de tendance pour chaque mot
         const trendingWords: TrendingWord[] = await Promise.all(
-          popularWords.slice(0, options.limit).map(async (word, index) => {
+          popularWords.map(async (word, index) => {
             const wordId = (word as any)._id.toString();
-            const socialStats = await this.getSocialStats(wordId);
+            const [views, favorites] = await Promise.all([
+              this.getWordViews(wordId),
+              this.favoriteWordRepository.countByWord(wordId),
+            ]);
+            const socialStats = {
+              ...this.toSocialStats(word.social, views, favorites),
+              trendingRank: index + 1,
+            };
             const trendScore = this.calculateTrendScore(
               socialStats,
               options.timeframe
@@ -660,9 +722,6 @@ export class WordSocialService {
           })
         );
 
-        // Trier par score de tendance
-        trendingWords.sort((a, b) => b.trendScore - a.trendScore);
-
         return {
           trendingWords,
           timeframe: options.timeframe,
@@ -683,23 +742,26 @@ export class WordSocialService {
   }> {
     return DatabaseErrorHandler.handleUpdateOperation(
       async () => {
-        const commentLikes = this.commentLikes.get(commentId) || new Set();
-        const isLiked = commentLikes.has(userId);
-
-        if (isLiked) {
-          commentLikes.delete(userId);
-        } else {
-          commentLikes.add(userId);
+        const comment = await this.wordCommentRepository.findById(commentId);
+        if (!comment || comment.isDeleted) {
+          throw new NotFoundException("Commentaire introuvable");
         }
 
-        this.commentLikes.set(commentId, commentLikes);
+        const { liked, changed } = await this.wordCommentLikeRepository.toggle(
+          commentId,
+          userId
+        );
 
-        // Mettre à jour le compteur dans le commentaire original
-        this.updateCommentLikeCount(commentId, commentLikes.size);
+        // Mettre à jour le compteur du commentaire
+        const updated = changed
+          ? await this.wordCommentRepository.incrementCounters(commentId, {
+              likesCount: liked ? 1 : -1,
+            })
+          : comment;
 
         return {
-          liked: !isLiked,
-          totalLikes: commentLikes.size,
+          liked,
+          totalLikes: updated?.likesCount || 0,
         };
       },
       "WordSocial",
@@ -714,31 +776,35 @@ export class WordSocialService {
   ): Promise<{ success: boolean }> {
     return DatabaseErrorHandler.handleDeleteOperation(
       async () => {
-        // Trouver et supprimer le commentaire
-        for (const [wordId, comments] of this.comments.entries()) {
-          // Chercher dans les commentaires principaux
-          const commentIndex = comments.findIndex(
-            (c) => c.id === commentId && c.author.id === userId
+        const comment = await this.wordCommentRepository.findById(commentId);
+        if (
+          !comment ||
+          comment.isDeleted ||
+          this.idOf(comment.authorId) !== userId
+        ) {
+          throw new NotFoundException(
+            "Commentaire introuvable ou non autorisé"
           );
-          if (commentIndex !== -1) {
-            comments.splice(commentIndex, 1);
-            this.comments.set(wordId, comments);
-            return { success: true };
-          }
+        }
 
-          // Chercher dans les réponses
-          for (const comment of comments) {
-            const replyIndex = comment.replies.findIndex(
-              (r) => r.id === commentId && r.author.id === userId
+        // Un commentaire ayant des réponses garde sa place dans le fil
+        if (await this.wordCommentRepository.hasReplies(commentId)) {
+          await this.wordCommentRepository.softDelete(commentId);
+        } else {
+          await this.wordCommentRepository.delete(commentId);
+          await this.wordCommentLikeRepository.deleteByComment(commentId);
+          if (comment.rootId) {
+            await this.wordCommentRepository.incrementCounters(
+              this.idOf(comment.rootId),
+              { repliesCount: -1 }
             );
-            if (replyIndex !== -1) {
-              comment.replies.splice(replyIndex, 1);
-              return { success: true };
-            }
           }
         }
+        await this.adjustSocialCounters(this.idOf(comment.wordId), {
+          comments: -1,
+        });
 
-        throw new Error("Commentaire introuvable ou non autorisé");
+        return { success: true };
       },
       "WordSocial",
       commentId,
@@ -750,36 +816,28 @@ export class WordSocialService {
     wordId: string,
     options: {
       limit: number;
-      context?: "formal" | "informal" | "technical" | "literary" | "everyday";
+      context?: UsageExample["context"];
+      cursor?: string;
     }
   ): Promise<{
     examples: UsageExample[];
     total: number;
     contexts: string[];
+    nextCursor: string | null;
   }> {
     return DatabaseErrorHandler.handleFindOperation(
       async () => {
-        let examples = this.usageExamples.get(wordId) || [];
-
-        // Filtrer par contexte si spécifié
-        if (options.context) {
-          examples = examples.filter((e) => e.context === options.context);
-        }
-
-        // Trier par nombre de likes
-        examples.sort((a, b) => b.likes - a.likes);
-
-        // Limiter les résultats
-        const limitedExamples = examples.slice(0, options.limit);
-
-        // Récupérer tous les contextes disponibles
-        const allExamples = this.usageExamples.get(wordId) || [];
-        const contexts = [...new Set(allExamples.map((e) => e.context))];
+        // Exemples triés par nombre de likes, filtrés par contexte
+        const [page, contexts] = await Promise.all([
+          this.wordUsageExampleRepository.findByWord(wordId, options),
+          this.wordUsageExampleRepository.getContexts(wordId),
+        ]);
 
         return {
-          examples: limitedExamples,
-          total: examples.length,
+          examples: page.examples.map((e) => this.toUsageExample(e)),
+          total: page.total,
           contexts,
+          nextCursor: page.nextCursor,
         };
       },
       "WordSocial",
@@ -791,7 +849,7 @@ export class WordSocialService {
     wordId: string,
     sentence: string,
     contributorId: string,
-    context: "formal" | "informal" | "technical" | "literary" | "everyday",
+    context: UsageExample["context"],
     translation?: string,
     source?: string
   ): Promise<UsageExample> {
@@ -808,24 +866,18 @@ export class WordSocialService {
           throw new Error("Utilisateur introuvable");
         }
 
-        const exampleId = `example_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-        const example: UsageExample = {
-          id: exampleId,
+        const example = await this.wordUsageExampleRepository.create({
+          wordId,
+          contributorId,
           sentence: sentence.trim(),
-          translation,
           context,
-          source,
           difficulty: this.calculateExampleDifficulty(sentence),
-          contributedBy: contributor.username,
-          likes: 0,
-        };
-
-        // Ajouter l'exemple
-        const examples = this.usageExamples.get(wordId) || [];
-        examples.unshift(example);
-        this.usageExamples.set(wordId, examples);
+          translation,
+          source,
+        });
+        await this.adjustSocialCounters(wordId, { usageExamples: 1 });
 
-        return example;
+        return this.toUsageExample(example);
       },
       "WordSocial",
       contributorId // Passer seulement userId
@@ -942,6 +994,10 @@ export class WordSocialService {
           }
         );
 
+        await this.adjustSocialCounters(wordId, {
+          likes: this.likeDelta(reactionType, voteResult),
+        });
+
         // Compter les votes totaux pour ce type de réaction
         const voteCounts = await this.wordVoteRepository.countByWord(wordId, {
           reactionType,
@@ -1127,14 +1183,6 @@ export class WordSocialService {
     }
   }
 
-  private getTotalCommentsCount(wordId: string): number {
-    const comments = this.comments.get(wordId) || [];
-    return comments.reduce(
-      (total, comment) => total + 1 + comment.replies.length,
-      0
-    );
-  }
-
   private async getWordViews(wordId: string): Promise<number> {
     try {
       return await this.wordViewRepository.countByWord(wordId);
@@ -1143,14 +1191,6 @@ export class WordSocialService {
     }
   }
 
-  private hasUserCommented(wordId: string, userId: string): boolean {
-    const comments = this.comments.get(wordId) || [];
-    return comments.some(
-      (c) =>
-        c.author.id === userId || c.replies.some((r) => r.author.id === userId)
-    );
-  }
-
   private calculatePopularityScore(stats: {
     likes: number;
     shares: number;
@@ -1197,23 +1237,136 @@ export class WordSocialService {
     return reasons.length > 0 ? reasons : ["En progression"];
   }
 
-  private updateCommentLikeCount(commentId: string, newCount: number): void {
-    // Mettre à jour le compteur dans les commentaires stockés
-    for (const comments of this.comments.values()) {
-      const comment = comments.find((c) => c.id === commentId);
-      if (comment) {
-        comment.likes = newCount;
-        return;
-      }
-
-      for (const comment of comments) {
-        const reply = comment.replies.find((r) => r.id === commentId);
-        if (reply) {
-          reply.likes = newCount;
-          return;
-        }
-      }
+  /**
+   * Reporter des interactions sur les compteurs du mot, score compris
+   */
+  private async adjustSocialCounters(
+    wordId: string,
+    deltas: Partial<WordSocialCounters>
+  ): Promise<WordSocialCounters | null> {
+    const score = Object.entries(deltas).reduce(
+      (total, [counter, delta]) =>
+        total + (SOCIAL_SCORE_WEIGHTS[counter] || 0) * (delta || 0),
+      0
+    );
+    return this.wordRepository.incrementSocialCounters(wordId, {
+      ...deltas,
+      score,
+    });
+  }
+
+  /**
+   * Variation du nombre de likes produite par un vote
+   */
+  private likeDelta(
+    reactionType: string,
+    voteResult: {
+      action: "created" | "updated" | "removed";
+      previousReaction?: string;
     }
+  ): number {
+    const isLike = reactionType === "like" ? 1 : 0;
+    const wasLike = voteResult.previousReaction === "like" ? 1 : 0;
+    switch (voteResult.action) {
+      case "created":
+        return isLike;
+      case "removed":
+        return -isLike;
+      default:
+        return isLike - wasLike;
+    }
+  }
+
+  private averageRating(counters?: Partial<WordSocialCounters> | null): number {
+    if (!counters?.ratings) {
+      return 0;
+    }
+    return Math.round((counters.ratingSum / counters.ratings) * 100) / 100;
+  }
+
+  private toSocialStats(
+    social: Partial<WordSocialCounters> | undefined,
+    views: number,
+    favorites: number
+  ): SocialStats {
+    const counters = social || {};
+    const popularityScore = (counters.score || 0) + views * 0.1;
+
+    return {
+      likes: Math.max(0, counters.likes || 0),
+      shares: counters.shares || 0,
+      comments: Math.max(0, counters.comments || 0),
+      views,
+      favorites,
+      averageRating: this.averageRating(counters),
+      totalRatings: counters.ratings || 0,
+      popularityScore: Math.round(popularityScore * 100) / 100,
+      trendingRank: 0, // TODO: Calculer le rang dans les tendances
+    };
+  }
+
+  private toComment(
+    comment: StoredWordComment,
+    likedIds: Set<string>
+  ): WordComment {
+    const id = this.idOf(comment);
+    const author: any = comment.authorId || {};
+
+    return {
+      id,
+      content: comment.content,
+      author: {
+        id: this.idOf(author),
+        username: author.username,
+        profilePicture: author.profilePicture,
+        role: author.role,
+      },
+      createdAt: comment.createdAt,
+      updatedAt: comment.updatedAt,
+      editedAt: comment.editedAt,
+      isDeleted: comment.isDeleted,
+      likes: comment.likesCount || 0,
+      isLiked: likedIds.has(id),
+      repliesCount: comment.repliesCount || 0,
+      replies: [],
+      parentId: this.idOf(comment.parentId) || undefined,
+      rootId: this.idOf(comment.rootId) || undefined,
+    };
+  }
+
+  private toUsageExample(example: WordUsageExample): UsageExample {
+    const contributor: any = example.contributorId || {};
+
+    return {
+      id: this.idOf(example),
+      sentence: example.sentence,
+      translation: example.translation,
+      context: example.context,
+      source: example.source,
+      difficulty: example.difficulty,
+      contributedBy: contributor.username,
+      likes: example.likesCount || 0,
+      audioUrl: example.audioUrl,
+    };
+  }
+
+  private async findLikedIds(
+    userId: string | undefined,
+    comments: StoredWordComment[]
+  ): Promise<Set<string>> {
+    if (!userId || !comments.length) {
+      return new Set();
+    }
+    const likedIds = await this.wordCommentLikeRepository.findLikedCommentIds(
+      userId,
+      comments.map((c) => this.idOf(c))
+    );
+    return new Set(likedIds);
+  }
+
+  /** ID d'un document, d'une référence peuplée ou d'un ObjectId */
+  private idOf(value: any): string {
+    return value ? (value._id || value).toString() : "";
   }
 
   private calculateExampleDifficulty(sentence: string): string {
@@ -0,0 +1,226 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Param,
+  Body,
+  Query,
+  UseGuards,
+  Request as NestRequest,
+  HttpCode,
+  HttpStatus,
+} from "@nestjs/common";
+import { Request } from "express";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from "@nestjs/swagger";
+import { JwtAuthGuard } from "../../auth/guards/jwt-auth.guard";
+import { User } from "../../users/schemas/user.schema";
+import { StudyService } from "../services/study.service";
+import { CreateStudyDeckDto, UpdateStudyDeckDto } from "../dto/study-deck.dto";
+import {
+  ReviewStudyCardDto,
+  StartStudySessionDto,
+  StudyStatsQueryDto,
+} from "../dto/study-session.dto";
+
+interface RequestWithUser extends Request {
+  user: User & { _id: any };
+}
+
+/**
+ * Contrôleur du mode d'apprentissage par répétition espacée
+ * Responsabilité: paquets, séances de révision, files et statistiques
+ */
+@ApiTags("study")
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller("study")
+export class StudyController {
+  constructor(private readonly studyService: StudyService) {}
+
+  /**
+   * Créer un paquet de révision
+   */
+  @Post("decks")
+  @ApiOperation({
+    summary: "Créer un paquet",
+    description:
+      "Génère les cartes à partir des favoris, d'une langue, d'une catégorie ou de la langue d'une communauté",
+  })
+  @ApiResponse({ status: 201, description: "Paquet créé et synchronisé" })
+  @ApiResponse({ status: 400, description: "Source invalide ou introuvable" })
+  @ApiResponse({ status: 403, description: "Communauté privée non rejointe" })
+  async createDeck(
+    @Body() dto: CreateStudyDeckDto,
+    @NestRequest() req: RequestWithUser
+  ) {
+    return this.studyService.createDeck(String(req.user._id), dto);
+  }
+
+  /**
+   * Paquets de l'utilisateur
+   */
+  @Get("decks")
+  @ApiOperation({
+    summary: "Lister mes paquets",
+    description: "Avec le nombre de cartes à réviser et de nouvelles cartes",
+  })
+  @ApiResponse({ status: 200, description: "Liste des paquets" })
+  async listDecks(@NestRequest() req: RequestWithUser) {
+    return this.studyService.listDecks(String(req.user._id));
+  }
+
+  /**
+   * Modifier un paquet
+   */
+  @Patch("decks/:deckId")
+  @ApiOperation({ summary: "Modifier un paquet" })
+  @ApiParam({ name: "deckId", description: "ID du paquet" })
+  @ApiResponse({ status: 200, description: "Paquet mis à jour" })
+  @ApiResponse({ status: 404, description: "Paquet introuvable" })
+  async updateDeck(
+    @Param("deckId") deckId: string,
+    @Body() dto: UpdateStudyDeckDto,
+    @NestRequest() req: RequestWithUser
+  ) {
+    return this.studyService.updateDeck(String(req.user._id), deckId, dto);
+  }
+
+  /**
+   * Supprimer un paquet et sa progression
+   */
+  @Delete("decks/:deckId")
+  @ApiOperation({ summary: "Supprimer un paquet" })
+  @ApiParam({ name: "deckId", description: "ID du paquet" })
+  @ApiResponse({ status: 200, description: "Paquet supprimé" })
+  @ApiResponse({ status: 404, description: "Paquet introuvable" })
+  async deleteDeck(
+    @Param("deckId") deckId: string,
+    @NestRequest() req: RequestWithUser
+  ) {
+    return this.studyService.deleteDeck(String(req.user._id), deckId);
+  }
+
+  /**
+   * Importer les nouveaux mots de la source
+   */
+  @Post("decks/:deckId/sync")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Synchroniser un paquet avec sa source",
+    description: "Les cartes existantes conservent leur progression",
+  })
+  @ApiParam({ name: "deckId", description: "ID du paquet" })
+  @ApiResponse({ status: 200, description: "Paquet synchronisé" })
+  @ApiResponse({ status: 404, description: "Paquet introuvable" })
+  async syncDeck(
+    @Param("deckId") deckId: string,
+    @NestRequest() req: RequestWithUser
+  ) {
+    return this.studyService.syncDeck(String(req.user._id), deckId);
+  }
+
+  /**
+   * Démarrer une séance de révision
+   */
+  @Post("decks/:deckId/sessions")
+  @ApiOperation({
+    summary: "Démarrer une séance",
+    description:
+      "Cartes arrivées à échéance, puis nouvelles cartes dans la limite quotidienne du paquet ; session null s'il n'y a rien à réviser",
+  })
+  @ApiParam({ name: "deckId", description: "ID du paquet" })
+  @ApiResponse({ status: 201, description: "Séance et cartes à réviser" })
+  @ApiResponse({ status: 404, description: "Paquet introuvable" })
+  async startSession(
+    @Param("deckId") deckId: string,
+    @Body() dto: StartStudySessionDto,
+    @NestRequest() req: RequestWithUser
+  ) {
+    return this.studyService.startSession(
+      String(req.user._id),
+      deckId,
+      dto.limit
+    );
+  }
+
+  /**
+   * Évaluer le rappel d'une carte
+   */
+  @Post("sessions/:sessionId/reviews")
+  @ApiOperation({
+    summary: "Évaluer une carte",
+    description:
+      "Replanifie la carte selon l'évaluation (again, hard, good, easy)",
+  })
+  @ApiParam({ name: "sessionId", description: "ID de la séance" })
+  @ApiResponse({ status: 201, description: "Carte replanifiée" })
+  @ApiResponse({
+    status: 400,
+    description: "Séance terminée ou carte hors séance",
+  })
+  @ApiResponse({ status: 409, description: "Carte révisée entre-temps" })
+  async reviewCard(
+    @Param("sessionId") sessionId: string,
+    @Body() dto: ReviewStudyCardDto,
+    @NestRequest() req: RequestWithUser
+  ) {
+    return this.studyService.reviewCard(String(req.user._id), sessionId, dto);
+  }
+
+  /**
+   * Terminer une séance
+   */
+  @Post("sessions/:sessionId/complete")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Terminer une séance",
+    description: "Attribue l'XP correspondant aux révisions effectuées",
+  })
+  @ApiParam({ name: "sessionId", description: "ID de la séance" })
+  @ApiResponse({ status: 200, description: "Bilan de la séance" })
+  @ApiResponse({ status: 400, description: "Séance déjà terminée" })
+  async completeSession(
+    @Param("sessionId") sessionId: string,
+    @NestRequest() req: RequestWithUser
+  ) {
+    return this.studyService.completeSession(String(req.user._id), sessionId);
+  }
+
+  /**
+   * Cartes à réviser tous paquets confondus
+   */
+  @Get("due")
+  @ApiOperation({ summary: "File des cartes à réviser" })
+  @ApiResponse({
+    status: 200,
+    description: "Cartes dues et nouvelles par paquet",
+  })
+  async getDueQueue(@NestRequest() req: RequestWithUser) {
+    return this.studyService.getDueQueue(String(req.user._id));
+  }
+
+  /**
+   * Statistiques de rétention
+   */
+  @Get("stats")
+  @ApiOperation({
+    summary: "Statistiques de révision",
+    description:
+      "Répartition des cartes, rétention estimée et mesurée, révisions par jour et série en cours",
+  })
+  @ApiResponse({ status: 200, description: "Statistiques" })
+  async getStats(
+    @Query() query: StudyStatsQueryDto,
+    @NestRequest() req: RequestWithUser
+  ) {
+    return this.studyService.getStats(String(req.user._id), query.days);
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * @fileoverview DTOs des paquets de révision espacée
+ *
+ * La source d'un paquet détermine les mots importés : favoris de
+ * l'utilisateur, mots approuvés d'une langue, d'une catégorie
+ * (éventuellement restreinte à une langue) ou de la langue d'une
+ * communauté.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { Type } from 'class-transformer';
+import { ApiProperty, OmitType, PartialType } from '@nestjs/swagger';
+import {
+  IsIn,
+  IsInt,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import {
+  STUDY_DECK_SOURCES,
+  StudyDeckSourceType,
+} from '../schemas/study-deck.schema';
+
+export class StudyDeckSourceDto {
+  @ApiProperty({ enum: STUDY_DECK_SOURCES, example: 'language' })
+  @IsIn(STUDY_DECK_SOURCES)
+  type: StudyDeckSourceType;
+
+  @ApiProperty({
+    description: 'Requis pour `language`, filtre optionnel pour `category`',
+    required: false,
+  })
+  @ValidateIf(
+    (source) =>
+      source.type === 'language' ||
+      (source.type === 'category' && source.languageId !== undefined),
+  )
+  @IsMongoId()
+  languageId?: string;
+
+  @ApiProperty({ description: 'Requis pour `category`', required: false })
+  @ValidateIf((source) => source.type === 'category')
+  @IsMongoId()
+  categoryId?: string;
+
+  @ApiProperty({ description: 'Requis pour `community`', required: false })
+  @ValidateIf((source) => source.type === 'community')
+  @IsMongoId()
+  communityId?: string;
+}
+
+export class CreateStudyDeckDto {
+  @ApiProperty({ example: 'Salutations en lingala' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiProperty({ type: StudyDeckSourceDto })
+  @ValidateNested()
+  @Type(() => StudyDeckSourceDto)
+  source: StudyDeckSourceDto;
+
+  @ApiProperty({
+    description: 'Nouvelles cartes introduites au plus chaque jour',
+    required: false,
+    default: 20,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(200)
+  newCardsPerDay?: number;
+}
+
+export class UpdateStudyDeckDto extends PartialType(
+  OmitType(CreateStudyDeckDto, ['source'] as const),
+) {}
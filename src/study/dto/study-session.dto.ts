@@ -0,0 +1,56 @@
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn, IsInt, IsMongoId, IsOptional, Max, Min } from 'class-validator';
+import {
+  RECALL_GRADES,
+  RecallGrade,
+} from '../../common/utils/spaced-repetition.util';
+
+export class StartStudySessionDto {
+  @ApiProperty({
+    description: 'Nombre maximum de cartes de la séance',
+    required: false,
+    default: 20,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
+
+export class ReviewStudyCardDto {
+  @ApiProperty()
+  @IsMongoId()
+  cardId: string;
+
+  @ApiProperty({
+    enum: RECALL_GRADES,
+    description:
+      'again : oubliée, hard : difficile, good : retrouvée, easy : immédiate',
+  })
+  @IsIn(RECALL_GRADES)
+  grade: RecallGrade;
+
+  @ApiProperty({
+    description: 'Temps de réponse en millisecondes',
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(3600000)
+  durationMs?: number;
+}
+
+export class StudyStatsQueryDto {
+  @ApiProperty({ required: false, default: 30 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  days?: number = 30;
+}
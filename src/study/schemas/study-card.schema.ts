@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Schéma des cartes de révision espacée O'Ypunu
+ *
+ * Une carte associe un mot à un paquet et porte son état de
+ * planification (voir `SpacedRepetition`) : étape d'apprentissage,
+ * intervalle, facteur de facilité et prochaine échéance.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+import { User } from '../../users/schemas/user.schema';
+import { Word } from '../../dictionary/schemas/word.schema';
+import { CardState } from '../../common/utils/spaced-repetition.util';
+import { StudyDeck } from './study-deck.schema';
+
+export type StudyCardDocument = StudyCard & Document;
+
+export const STUDY_CARD_STATES: CardState[] = [
+  'new',
+  'learning',
+  'review',
+  'relearning',
+];
+
+/**
+ * Carte de révision d'un mot
+ *
+ * @class StudyCard
+ * @version 1.0.0
+ */
+@Schema({
+  timestamps: true,
+  collection: 'study_cards',
+})
+export class StudyCard {
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'User', required: true })
+  userId: User;
+
+  @Prop({
+    type: MongooseSchema.Types.ObjectId,
+    ref: 'StudyDeck',
+    required: true,
+  })
+  deckId: StudyDeck;
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'Word', required: true })
+  wordId: Word;
+
+  @Prop({ type: String, enum: STUDY_CARD_STATES, default: 'new' })
+  state: CardState;
+
+  /** Prochaine échéance (création pour une carte nouvelle) */
+  @Prop({ required: true })
+  due: Date;
+
+  /** Intervalle en jours */
+  @Prop({ default: 0 })
+  interval: number;
+
+  @Prop({ default: 2.5 })
+  easeFactor: number;
+
+  @Prop({ default: 0 })
+  repetitions: number;
+
+  @Prop({ default: 0 })
+  lapses: number;
+
+  @Prop({ default: 0 })
+  learningStep: number;
+
+  /** Première révision (limite quotidienne de nouvelles cartes) */
+  @Prop()
+  introducedAt?: Date;
+
+  @Prop()
+  lastReviewedAt?: Date;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const StudyCardSchema = SchemaFactory.createForClass(StudyCard);
+
+// === INDEX OPTIMISÉS POUR PERFORMANCES ===
+
+// Un mot au plus une fois par paquet
+StudyCardSchema.index({ deckId: 1, wordId: 1 }, { unique: true });
+
+// Files de révision (cartes échues, nouvelles cartes) d'un paquet
+StudyCardSchema.index({ deckId: 1, state: 1, due: 1 });
+StudyCardSchema.index({ deckId: 1, introducedAt: 1 });
+
+// Statistiques d'un utilisateur
+StudyCardSchema.index({ userId: 1, state: 1, due: 1 });
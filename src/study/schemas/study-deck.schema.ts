@@ -0,0 +1,95 @@
+/**
+ * @fileoverview Schéma des paquets de révision espacée O'Ypunu
+ *
+ * Un paquet regroupe les cartes qu'un utilisateur révise ; il est généré
+ * à partir de ses mots favoris, d'une langue, d'une catégorie ou de la
+ * langue d'une communauté, et peut être resynchronisé avec sa source
+ * pour y ajouter les nouveaux mots.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+import { User } from '../../users/schemas/user.schema';
+
+export type StudyDeckDocument = StudyDeck & Document;
+
+export const STUDY_DECK_SOURCES = [
+  'favorites',
+  'language',
+  'category',
+  'community',
+] as const;
+export type StudyDeckSourceType = (typeof STUDY_DECK_SOURCES)[number];
+
+/**
+ * Origine des mots d'un paquet
+ *
+ * @example { type: 'category', categoryId: '...', languageId: '...' }
+ */
+@Schema({ _id: false })
+export class StudyDeckSource {
+  @Prop({ type: String, enum: STUDY_DECK_SOURCES, required: true })
+  type: StudyDeckSourceType;
+
+  /** Langue visée (source `language`, filtre optionnel pour `category`) */
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'Language' })
+  languageId?: string;
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'Category' })
+  categoryId?: string;
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'Community' })
+  communityId?: string;
+}
+
+/**
+ * Paquet de cartes d'un utilisateur
+ *
+ * @class StudyDeck
+ * @version 1.0.0
+ */
+@Schema({
+  timestamps: true,
+  collection: 'study_decks',
+})
+export class StudyDeck {
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'User', required: true })
+  userId: User;
+
+  @Prop({ required: true, maxlength: 100 })
+  name: string;
+
+  @Prop({ maxlength: 500 })
+  description?: string;
+
+  @Prop({ type: StudyDeckSource, required: true })
+  source: StudyDeckSource;
+
+  /** Nouvelles cartes introduites au plus chaque jour */
+  @Prop({ default: 20, min: 0, max: 200 })
+  newCardsPerDay: number;
+
+  @Prop({ default: 0 })
+  cardCount: number;
+
+  /** Dernière synchronisation avec la source */
+  @Prop()
+  lastSyncedAt?: Date;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const StudyDeckSchema = SchemaFactory.createForClass(StudyDeck);
+
+// === INDEX OPTIMISÉS POUR PERFORMANCES ===
+
+// Paquets d'un utilisateur
+StudyDeckSchema.index({ userId: 1, createdAt: -1 });
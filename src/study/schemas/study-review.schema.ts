@@ -0,0 +1,96 @@
+/**
+ * @fileoverview Schéma du journal des révisions O'Ypunu
+ *
+ * Chaque évaluation d'une carte est conservée avec l'état avant et après
+ * planification ; le journal alimente les statistiques de rétention et
+ * la série de jours de révision.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+import { User } from '../../users/schemas/user.schema';
+import { Word } from '../../dictionary/schemas/word.schema';
+import {
+  CardState,
+  RECALL_GRADES,
+  RecallGrade,
+} from '../../common/utils/spaced-repetition.util';
+import { STUDY_CARD_STATES, StudyCard } from './study-card.schema';
+import { StudyDeck } from './study-deck.schema';
+import { StudySession } from './study-session.schema';
+
+export type StudyReviewDocument = StudyReview & Document;
+
+/**
+ * Évaluation d'une carte
+ *
+ * @class StudyReview
+ * @version 1.0.0
+ */
+@Schema({
+  timestamps: { createdAt: true, updatedAt: false },
+  collection: 'study_reviews',
+})
+export class StudyReview {
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'User', required: true })
+  userId: User;
+
+  @Prop({
+    type: MongooseSchema.Types.ObjectId,
+    ref: 'StudyDeck',
+    required: true,
+  })
+  deckId: StudyDeck;
+
+  @Prop({
+    type: MongooseSchema.Types.ObjectId,
+    ref: 'StudyCard',
+    required: true,
+  })
+  cardId: StudyCard;
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'Word', required: true })
+  wordId: Word;
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'StudySession' })
+  sessionId?: StudySession;
+
+  @Prop({ type: String, enum: RECALL_GRADES, required: true })
+  grade: RecallGrade;
+
+  /** État de la carte avant l'évaluation */
+  @Prop({ type: String, enum: STUDY_CARD_STATES, required: true })
+  previousState: CardState;
+
+  @Prop({ type: String, enum: STUDY_CARD_STATES, required: true })
+  state: CardState;
+
+  /** Intervalle programmé en jours */
+  @Prop({ default: 0 })
+  interval: number;
+
+  /** Jours écoulés depuis la révision précédente */
+  @Prop({ default: 0 })
+  elapsedDays: number;
+
+  /** Temps de réponse */
+  @Prop({ min: 0 })
+  durationMs?: number;
+
+  @Prop()
+  createdAt: Date;
+}
+
+export const StudyReviewSchema = SchemaFactory.createForClass(StudyReview);
+
+// === INDEX OPTIMISÉS POUR PERFORMANCES ===
+
+// Statistiques de rétention et série de jours d'un utilisateur
+StudyReviewSchema.index({ userId: 1, createdAt: -1 });
+
+// Historique d'une carte
+StudyReviewSchema.index({ cardId: 1, createdAt: -1 });
@@ -0,0 +1,80 @@
+/**
+ * @fileoverview Schéma des séances de révision O'Ypunu
+ *
+ * Une séance fige la file de cartes proposée à l'ouverture, cumule les
+ * évaluations de l'apprenant et, une fois terminée, l'XP attribué.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema, Types } from 'mongoose';
+import { User } from '../../users/schemas/user.schema';
+import { StudyDeck } from './study-deck.schema';
+
+export type StudySessionDocument = StudySession & Document;
+
+/**
+ * Séance de révision d'un paquet
+ *
+ * @class StudySession
+ * @version 1.0.0
+ */
+@Schema({
+  timestamps: true,
+  collection: 'study_sessions',
+})
+export class StudySession {
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'User', required: true })
+  userId: User;
+
+  @Prop({
+    type: MongooseSchema.Types.ObjectId,
+    ref: 'StudyDeck',
+    required: true,
+  })
+  deckId: StudyDeck;
+
+  @Prop({
+    type: String,
+    enum: ['active', 'completed'],
+    default: 'active',
+  })
+  status: 'active' | 'completed';
+
+  /** Cartes proposées à l'ouverture de la séance */
+  @Prop({ type: [{ type: MongooseSchema.Types.ObjectId, ref: 'StudyCard' }] })
+  cardIds: Types.ObjectId[];
+
+  @Prop({ default: 0 })
+  reviewCount: number;
+
+  /** Révisions évaluées autrement que « again » */
+  @Prop({ default: 0 })
+  correctCount: number;
+
+  /** Nouvelles cartes vues pour la première fois */
+  @Prop({ default: 0 })
+  newCount: number;
+
+  @Prop({ default: 0 })
+  xpAwarded: number;
+
+  @Prop()
+  completedAt?: Date;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const StudySessionSchema = SchemaFactory.createForClass(StudySession);
+
+// === INDEX OPTIMISÉS POUR PERFORMANCES ===
+
+// Séances d'un utilisateur
+StudySessionSchema.index({ userId: 1, createdAt: -1 });
@@ -0,0 +1,312 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from "@nestjs/common";
+import { StudyService } from "./study.service";
+import { GamificationEngineService } from "../../achievements/services/gamification-engine.service";
+import { SpacedRepetition } from "../../common/utils/spaced-repetition.util";
+
+describe("StudyService", () => {
+  let service: StudyService;
+  let deckRepository: any;
+  let cardRepository: any;
+  let sessionRepository: any;
+  let reviewRepository: any;
+  let wordRepository: any;
+  let favoriteWordRepository: any;
+  let communityRepository: any;
+  let communityMemberRepository: any;
+  let gamificationEngineService: any;
+
+  const userId = "64d000000000000000000001";
+  const deckId = "64d000000000000000000002";
+  const deck = {
+    _id: deckId,
+    userId,
+    name: "Lingala",
+    source: { type: "favorites" },
+    newCardsPerDay: 5,
+  };
+  const session = (overrides: Record<string, any> = {}) => ({
+    _id: "s1",
+    userId,
+    deckId,
+    status: "active",
+    cardIds: ["card1"],
+    reviewCount: 0,
+    correctCount: 0,
+    ...overrides,
+  });
+  const updatedAt = new Date("2025-04-01T08:00:00.000Z");
+  const newCard = {
+    _id: "card1",
+    userId,
+    deckId,
+    wordId: "w1",
+    ...SpacedRepetition.initial(updatedAt),
+    updatedAt,
+  };
+
+  beforeEach(async () => {
+    deckRepository = {
+      create: jest.fn().mockResolvedValue(deck),
+      findById: jest.fn().mockResolvedValue(deck),
+      markSynced: jest.fn((id, cardCount) =>
+        Promise.resolve({ ...deck, cardCount })
+      ),
+    };
+    cardRepository = {
+      addWords: jest.fn().mockResolvedValue(2),
+      countByDeck: jest.fn().mockResolvedValue(2),
+      findById: jest.fn().mockResolvedValue(newCard),
+      findDue: jest.fn().mockResolvedValue([]),
+      findNew: jest.fn().mockResolvedValue([]),
+      countIntroducedSince: jest.fn().mockResolvedValue(0),
+      updateSchedule: jest.fn((id, schedule) =>
+        Promise.resolve({ ...newCard, ...schedule })
+      ),
+      getCounts: jest.fn().mockResolvedValue({ total: 0 }),
+    };
+    sessionRepository = {
+      create: jest.fn((data) => Promise.resolve(session(data))),
+      findById: jest.fn().mockResolvedValue(session()),
+      recordReview: jest.fn().mockResolvedValue(session({ reviewCount: 1 })),
+      complete: jest.fn(),
+      setXpAwarded: jest.fn(),
+    };
+    reviewRepository = {
+      create: jest.fn(),
+      summarize: jest.fn(),
+      countByDay: jest.fn(),
+    };
+    wordRepository = { findApprovedIds: jest.fn() };
+    favoriteWordRepository = {
+      getUserFavorites: jest.fn().mockResolvedValue({
+        favorites: [
+          { wordDetails: { id: "w1" } },
+          { wordDetails: { id: "w2" } },
+        ],
+      }),
+    };
+    communityRepository = { findById: jest.fn() };
+    communityMemberRepository = { isMember: jest.fn() };
+    gamificationEngineService = { addXP: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StudyService,
+        { provide: "IStudyDeckRepository", useValue: deckRepository },
+        { provide: "IStudyCardRepository", useValue: cardRepository },
+        { provide: "IStudySessionRepository", useValue: sessionRepository },
+        { provide: "IStudyReviewRepository", useValue: reviewRepository },
+        { provide: "IWordRepository", useValue: wordRepository },
+        {
+          provide: "IFavoriteWordRepository",
+          useValue: favoriteWordRepository,
+        },
+        { provide: "ILanguageRepository", useValue: {} },
+        { provide: "ICategoryRepository", useValue: {} },
+        { provide: "ICommunityRepository", useValue: communityRepository },
+        {
+          provide: "ICommunityMemberRepository",
+          useValue: communityMemberRepository,
+        },
+        {
+          provide: GamificationEngineService,
+          useValue: gamificationEngineService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<StudyService>(StudyService);
+  });
+
+  describe("createDeck", () => {
+    it("should build the deck from the user's favorites", async () => {
+      const result = await service.createDeck(userId, {
+        name: " Lingala ",
+        source: { type: "favorites" },
+      });
+
+      expect(cardRepository.addWords).toHaveBeenCalledWith(userId, deckId, [
+        "w1",
+        "w2",
+      ]);
+      expect(deckRepository.markSynced).toHaveBeenCalledWith(deckId, 2);
+      expect(result.added).toBe(2);
+    });
+
+    it("should refuse a private community the user has not joined", async () => {
+      communityRepository.findById.mockResolvedValue({
+        _id: "c1",
+        language: "lang1",
+        isPrivate: true,
+      });
+      communityMemberRepository.isMember.mockResolvedValue(false);
+
+      await expect(
+        service.createDeck(userId, {
+          name: "Communauté",
+          source: { type: "community", communityId: "c1" },
+        })
+      ).rejects.toThrow(ForbiddenException);
+      expect(deckRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("startSession", () => {
+    it("should only introduce what is left of the daily new card quota", async () => {
+      cardRepository.findDue.mockResolvedValue([{ _id: "due1" }]);
+      cardRepository.countIntroducedSince.mockResolvedValue(3);
+      cardRepository.findNew.mockResolvedValue([{ _id: "new1" }]);
+
+      const result = await service.startSession(userId, deckId, 10);
+
+      expect(cardRepository.findNew).toHaveBeenCalledWith(deckId, 2);
+      expect(sessionRepository.create).toHaveBeenCalledWith({
+        userId,
+        deckId,
+        cardIds: ["due1", "new1"],
+      });
+      expect(result.cards).toHaveLength(2);
+    });
+
+    it("should not open a session when nothing is due", async () => {
+      cardRepository.countIntroducedSince.mockResolvedValue(5);
+
+      const result = await service.startSession(userId, deckId);
+
+      expect(result.session).toBeNull();
+      expect(sessionRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("reviewCard", () => {
+    it("should reschedule the card and log the review", async () => {
+      const result = await service.reviewCard(userId, "s1", {
+        cardId: "card1",
+        grade: "easy",
+        durationMs: 1200,
+      });
+
+      const [, schedule, expectedUpdatedAt] =
+        cardRepository.updateSchedule.mock.calls[0];
+      expect(schedule).toEqual(
+        expect.objectContaining({ state: "review", interval: 4 })
+      );
+      expect(schedule.introducedAt).toBeInstanceOf(Date);
+      expect(schedule).not.toHaveProperty("wordId");
+      expect(expectedUpdatedAt).toBe(updatedAt);
+      expect(reviewRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          cardId: "card1",
+          wordId: "w1",
+          grade: "easy",
+          previousState: "new",
+          state: "review",
+          elapsedDays: 0,
+        })
+      );
+      expect(sessionRepository.recordReview).toHaveBeenCalledWith("s1", {
+        correct: true,
+        isNew: true,
+      });
+      expect(result.previousState).toBe("new");
+    });
+
+    it("should reject a card that is not part of the session", async () => {
+      await expect(
+        service.reviewCard(userId, "s1", { cardId: "other", grade: "good" })
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it("should not review the same card again before it is due", async () => {
+      await service.reviewCard(userId, "s1", {
+        cardId: "card1",
+        grade: "good",
+      });
+      const [, schedule] = cardRepository.updateSchedule.mock.calls[0];
+      cardRepository.findById.mockResolvedValue({ ...newCard, ...schedule });
+
+      await expect(
+        service.reviewCard(userId, "s1", { cardId: "card1", grade: "good" })
+      ).rejects.toThrow(BadRequestException);
+      expect(cardRepository.updateSchedule).toHaveBeenCalledTimes(1);
+      expect(reviewRepository.create).toHaveBeenCalledTimes(1);
+      expect(sessionRepository.recordReview).toHaveBeenCalledTimes(1);
+    });
+
+    it("should report a concurrent review of the same card", async () => {
+      cardRepository.updateSchedule.mockResolvedValue(null);
+
+      await expect(
+        service.reviewCard(userId, "s1", { cardId: "card1", grade: "good" })
+      ).rejects.toThrow(ConflictException);
+      expect(reviewRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("completeSession", () => {
+    it("should award review XP once the session is completed", async () => {
+      sessionRepository.complete.mockResolvedValue(
+        session({ status: "completed", reviewCount: 4, correctCount: 3 })
+      );
+      gamificationEngineService.addXP.mockResolvedValue({ xpGained: 8 });
+
+      const result = await service.completeSession(userId, "s1");
+
+      expect(gamificationEngineService.addXP).toHaveBeenCalledWith(
+        userId,
+        "STUDY_REVIEW",
+        4,
+        expect.objectContaining({ sessionId: "s1", correctCount: 3 })
+      );
+      expect(sessionRepository.setXpAwarded).toHaveBeenCalledWith("s1", 8);
+      expect(result.accuracy).toBe(0.75);
+    });
+
+    it("should not complete a session twice", async () => {
+      sessionRepository.complete.mockResolvedValue(null);
+
+      await expect(service.completeSession(userId, "s1")).rejects.toThrow(
+        BadRequestException
+      );
+      expect(gamificationEngineService.addXP).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getStats", () => {
+    it("should compute retention and the current streak", async () => {
+      const day = (offset: number) =>
+        new Date(Date.now() - offset * 24 * 3600 * 1000)
+          .toISOString()
+          .slice(0, 10);
+      reviewRepository.summarize.mockResolvedValue({
+        total: 10,
+        byGrade: { again: 2, hard: 1, good: 5, easy: 2 },
+        matureReviews: 4,
+        matureRecalled: 3,
+        totalDurationMs: 20000,
+      });
+      reviewRepository.countByDay.mockResolvedValue([
+        { date: day(4), reviews: 3 },
+        { date: day(2), reviews: 2 },
+        { date: day(1), reviews: 5 },
+      ]);
+
+      const stats = await service.getStats(userId, 7);
+
+      expect(stats.period).toEqual(
+        expect.objectContaining({
+          reviews: 10,
+          accuracy: 0.8,
+          retention: 0.75,
+          averageDurationMs: 2000,
+        })
+      );
+      expect(stats.streak).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,614 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "@nestjs/common";
+import { StudyDeck, StudyDeckSource } from "../schemas/study-deck.schema";
+import { StudyCard } from "../schemas/study-card.schema";
+import { StudySession } from "../schemas/study-session.schema";
+import { CreateStudyDeckDto, UpdateStudyDeckDto } from "../dto/study-deck.dto";
+import { ReviewStudyCardDto } from "../dto/study-session.dto";
+import { IStudyDeckRepository } from "../../repositories/interfaces/study-deck.repository.interface";
+import {
+  IStudyCardRepository,
+  StudyCardCounts,
+} from "../../repositories/interfaces/study-card.repository.interface";
+import { IStudySessionRepository } from "../../repositories/interfaces/study-session.repository.interface";
+import { IStudyReviewRepository } from "../../repositories/interfaces/study-review.repository.interface";
+import { IWordRepository } from "../../repositories/interfaces/word.repository.interface";
+import { IFavoriteWordRepository } from "../../repositories/interfaces/favorite-word.repository.interface";
+import { ILanguageRepository } from "../../repositories/interfaces/language.repository.interface";
+import { ICategoryRepository } from "../../repositories/interfaces/category.repository.interface";
+import { ICommunityRepository } from "../../repositories/interfaces/community.repository.interface";
+import { ICommunityMemberRepository } from "../../repositories/interfaces/community-member.repository.interface";
+import { GamificationEngineService } from "../../achievements/services/gamification-engine.service";
+import {
+  CardState,
+  RecallGrade,
+  SchedulingState,
+  SpacedRepetition,
+} from "../../common/utils/spaced-repetition.util";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Paquet accompagné de ses files du moment
+ */
+export type StudyDeckOverview = StudyDeck & { due: number; new: number };
+
+/**
+ * Statistiques de révision d'un utilisateur
+ */
+export interface StudyStats {
+  cards: StudyCardCounts;
+  period: {
+    days: number;
+    reviews: number;
+    byGrade: Record<RecallGrade, number>;
+    /** Part des révisions non oubliées */
+    accuracy: number | null;
+    /** Part des cartes apprises retrouvées (rétention réelle) */
+    retention: number | null;
+    averageDurationMs: number | null;
+  };
+  daily: Array<{ date: string; reviews: number }>;
+  /** Jours consécutifs de révision, aujourd'hui ou hier inclus */
+  streak: number;
+}
+
+/**
+ * Service du mode d'apprentissage par répétition espacée
+ *
+ * Les paquets sont générés à partir des favoris, d'une langue, d'une
+ * catégorie ou de la langue d'une communauté. Une séance réunit les
+ * cartes arrivées à échéance et, dans la limite quotidienne du paquet,
+ * de nouvelles cartes ; chaque évaluation replanifie la carte
+ * (SpacedRepetition) et est journalisée pour les statistiques. L'XP est
+ * attribuée par le moteur de gamification à la fin de la séance.
+ */
+@Injectable()
+export class StudyService {
+  private readonly logger = new Logger(StudyService.name);
+
+  /** Nombre maximum de mots importés d'une source */
+  static readonly MAX_DECK_SIZE = 500;
+  static readonly DEFAULT_SESSION_SIZE = 20;
+
+  constructor(
+    @Inject("IStudyDeckRepository")
+    private studyDeckRepository: IStudyDeckRepository,
+    @Inject("IStudyCardRepository")
+    private studyCardRepository: IStudyCardRepository,
+    @Inject("IStudySessionRepository")
+    private studySessionRepository: IStudySessionRepository,
+    @Inject("IStudyReviewRepository")
+    private studyReviewRepository: IStudyReviewRepository,
+    @Inject("IWordRepository") private wordRepository: IWordRepository,
+    @Inject("IFavoriteWordRepository")
+    private favoriteWordRepository: IFavoriteWordRepository,
+    @Inject("ILanguageRepository")
+    private languageRepository: ILanguageRepository,
+    @Inject("ICategoryRepository")
+    private categoryRepository: ICategoryRepository,
+    @Inject("ICommunityRepository")
+    private communityRepository: ICommunityRepository,
+    @Inject("ICommunityMemberRepository")
+    private communityMemberRepository: ICommunityMemberRepository,
+    private gamificationEngineService: GamificationEngineService
+  ) {}
+
+  // ========== PAQUETS ==========
+
+  /**
+   * Créer un paquet et y importer les mots de sa source
+   *
+   * @throws {BadRequestException} Si la source est incomplète ou introuvable
+   * @throws {ForbiddenException} Si la communauté privée n'est pas rejointe
+   */
+  async createDeck(
+    userId: string,
+    dto: CreateStudyDeckDto
+  ): Promise<{ deck: StudyDeck; added: number }> {
+    const source = await this.validateSource(userId, dto.source);
+
+    const deck = await this.studyDeckRepository.create({
+      userId,
+      name: dto.name.trim(),
+      description: dto.description?.trim(),
+      source,
+      newCardsPerDay: dto.newCardsPerDay,
+    });
+
+    return this.sync(userId, deck);
+  }
+
+  /**
+   * Paquets de l'utilisateur avec le nombre de cartes à réviser et nouvelles
+   */
+  async listDecks(userId: string): Promise<StudyDeckOverview[]> {
+    const [decks, queues] = await Promise.all([
+      this.studyDeckRepository.findByUser(userId),
+      this.studyCardRepository.countQueuesByDeck(userId, new Date()),
+    ]);
+
+    return decks.map((deck) => ({
+      ...deck,
+      ...(queues[String((deck as any)._id)] || { due: 0, new: 0 }),
+    }));
+  }
+
+  async updateDeck(
+    userId: string,
+    deckId: string,
+    dto: UpdateStudyDeckDto
+  ): Promise<StudyDeck> {
+    await this.getOwnedDeck(userId, deckId);
+
+    const updated = await this.studyDeckRepository.update(deckId, {
+      ...dto,
+      name: dto.name?.trim(),
+      description: dto.description?.trim(),
+    });
+    if (!updated) {
+      throw new NotFoundException(`Paquet ${deckId} introuvable`);
+    }
+    return updated;
+  }
+
+  /**
+   * Supprimer un paquet avec ses cartes, séances et historique
+   */
+  async deleteDeck(
+    userId: string,
+    deckId: string
+  ): Promise<{ success: boolean }> {
+    await this.getOwnedDeck(userId, deckId);
+
+    await Promise.all([
+      this.studyCardRepository.deleteByDeck(deckId),
+      this.studySessionRepository.deleteByDeck(deckId),
+      this.studyReviewRepository.deleteByDeck(deckId),
+    ]);
+    const success = await this.studyDeckRepository.delete(deckId);
+    return { success };
+  }
+
+  /**
+   * Ajouter au paquet les mots apparus dans sa source depuis la dernière
+   * synchronisation (les cartes existantes gardent leur progression)
+   */
+  async syncDeck(
+    userId: string,
+    deckId: string
+  ): Promise<{ deck: StudyDeck; added: number }> {
+    const deck = await this.getOwnedDeck(userId, deckId);
+    return this.sync(userId, deck);
+  }
+
+  // ========== SÉANCES ==========
+
+  /**
+   * Démarrer une séance : cartes échues d'abord, puis nouvelles cartes
+   * dans la limite quotidienne du paquet (jour UTC)
+   *
+   * La séance est null s'il n'y a rien à réviser.
+   */
+  async startSession(
+    userId: string,
+    deckId: string,
+    limit = StudyService.DEFAULT_SESSION_SIZE
+  ): Promise<{ session: StudySession | null; cards: StudyCard[] }> {
+    const deck = await this.getOwnedDeck(userId, deckId);
+    const now = new Date();
+
+    const due = await this.studyCardRepository.findDue(deckId, now, limit);
+    const introducedToday = await this.studyCardRepository.countIntroducedSince(
+      deckId,
+      StudyService.startOfDay(now)
+    );
+    const newQuota = Math.min(
+      limit - due.length,
+      Math.max(0, deck.newCardsPerDay - introducedToday)
+    );
+    const fresh = await this.studyCardRepository.findNew(deckId, newQuota);
+
+    const cards = [...due, ...fresh];
+    if (!cards.length) {
+      return { session: null, cards };
+    }
+
+    const session = await this.studySessionRepository.create({
+      userId,
+      deckId,
+      cardIds: cards.map((card) => String((card as any)._id)),
+    });
+    return { session, cards };
+  }
+
+  /**
+   * Évaluer le rappel d'une carte de la séance et la replanifier
+   *
+   * Seule une carte échue peut être évaluée : une carte déjà révisée ne
+   * revient qu'à sa prochaine échéance (quelques minutes après « again »),
+   * ce qui borne le nombre de révisions et donc l'XP d'une séance.
+   *
+   * @throws {BadRequestException} Si la séance est terminée, si la carte n'en fait pas partie
+   * ou si elle n'est pas encore à réviser
+   * @throws {ConflictException} Si la carte a été révisée entre-temps
+   */
+  async reviewCard(
+    userId: string,
+    sessionId: string,
+    dto: ReviewStudyCardDto
+  ): Promise<{
+    card: StudyCard;
+    previousState: CardState;
+    session: StudySession | null;
+  }> {
+    const session = await this.getOwnedSession(userId, sessionId);
+    if (session.status !== "active") {
+      throw new BadRequestException("Cette séance est terminée");
+    }
+    if (!session.cardIds.some((id) => String(id) === dto.cardId)) {
+      throw new BadRequestException(
+        "Cette carte ne fait pas partie de la séance"
+      );
+    }
+
+    const card = await this.studyCardRepository.findById(dto.cardId);
+    if (!card) {
+      throw new NotFoundException(`Carte ${dto.cardId} introuvable`);
+    }
+
+    const now = new Date();
+    if (new Date(card.due).getTime() > now.getTime()) {
+      throw new BadRequestException("Cette carte n'est pas encore à réviser");
+    }
+
+    const next = SpacedRepetition.schedule(
+      StudyService.schedulingState(card),
+      dto.grade,
+      now
+    );
+    const updated = await this.studyCardRepository.updateSchedule(
+      dto.cardId,
+      {
+        ...next,
+        lastReviewedAt: now,
+        ...(card.introducedAt ? {} : { introducedAt: now }),
+      },
+      card.updatedAt
+    );
+    if (!updated) {
+      throw new ConflictException(
+        "La carte a été révisée entre-temps, rechargez la séance"
+      );
+    }
+
+    const elapsedDays = card.lastReviewedAt
+      ? Math.round(
+          ((now.getTime() - new Date(card.lastReviewedAt).getTime()) / DAY_MS) *
+            100
+        ) / 100
+      : 0;
+
+    await this.studyReviewRepository.create({
+      userId,
+      deckId: String(card.deckId),
+      cardId: dto.cardId,
+      wordId: String(card.wordId),
+      sessionId,
+      grade: dto.grade,
+      previousState: card.state,
+      state: next.state,
+      interval: next.interval,
+      elapsedDays,
+      durationMs: dto.durationMs,
+    });
+    const progress = await this.studySessionRepository.recordReview(sessionId, {
+      correct: dto.grade !== "again",
+      isNew: card.state === "new",
+    });
+
+    return { card: updated, previousState: card.state, session: progress };
+  }
+
+  /**
+   * Terminer une séance et attribuer l'XP de révision
+   *
+   * Un échec du moteur de gamification n'annule pas la séance.
+   *
+   * @throws {BadRequestException} Si la séance est déjà terminée
+   */
+  async completeSession(
+    userId: string,
+    sessionId: string
+  ): Promise<{ session: StudySession; accuracy: number | null }> {
+    await this.getOwnedSession(userId, sessionId);
+
+    const session = await this.studySessionRepository.complete(sessionId);
+    if (!session) {
+      throw new BadRequestException("Cette séance est déjà terminée");
+    }
+
+    if (session.reviewCount > 0) {
+      try {
+        const { xpGained } = await this.gamificationEngineService.addXP(
+          userId,
+          "STUDY_REVIEW",
+          session.reviewCount,
+          {
+            sessionId,
+            deckId: String(session.deckId),
+            correctCount: session.correctCount,
+          }
+        );
+        await this.studySessionRepository.setXpAwarded(sessionId, xpGained);
+        session.xpAwarded = xpGained;
+      } catch (error) {
+        this.logger.warn(
+          `XP non attribuée pour la séance ${sessionId}: ${error.message}`
+        );
+      }
+    }
+
+    return {
+      session,
+      accuracy: StudyService.ratio(session.correctCount, session.reviewCount),
+    };
+  }
+
+  // ========== FILES ET STATISTIQUES ==========
+
+  /**
+   * Cartes à réviser et nouvelles cartes, tous paquets confondus
+   */
+  async getDueQueue(userId: string): Promise<{
+    due: number;
+    new: number;
+    decks: Array<{ deckId: string; name: string; due: number; new: number }>;
+  }> {
+    const decks = await this.listDecks(userId);
+    return {
+      due: decks.reduce((sum, deck) => sum + deck.due, 0),
+      new: decks.reduce((sum, deck) => sum + deck.new, 0),
+      decks: decks
+        .filter((deck) => deck.due > 0 || deck.new > 0)
+        .map((deck) => ({
+          deckId: String((deck as any)._id),
+          name: deck.name,
+          due: deck.due,
+          new: deck.new,
+        })),
+    };
+  }
+
+  /**
+   * Statistiques de rétention sur les `days` derniers jours
+   */
+  async getStats(userId: string, days = 30): Promise<StudyStats> {
+    const now = new Date();
+    const since = new Date(
+      StudyService.startOfDay(now).getTime() - (days - 1) * DAY_MS
+    );
+
+    const [cards, summary, daily] = await Promise.all([
+      this.studyCardRepository.getCounts(userId, now),
+      this.studyReviewRepository.summarize(userId, since),
+      this.studyReviewRepository.countByDay(userId, since),
+    ]);
+
+    return {
+      cards,
+      period: {
+        days,
+        reviews: summary.total,
+        byGrade: summary.byGrade,
+        accuracy: StudyService.ratio(
+          summary.total - summary.byGrade.again,
+          summary.total
+        ),
+        retention: StudyService.ratio(
+          summary.matureRecalled,
+          summary.matureReviews
+        ),
+        averageDurationMs: summary.total
+          ? Math.round(summary.totalDurationMs / summary.total)
+          : null,
+      },
+      daily,
+      streak: StudyService.streak(daily, now),
+    };
+  }
+
+  // ========== MÉTHODES PRIVÉES ==========
+
+  private async sync(
+    userId: string,
+    deck: StudyDeck
+  ): Promise<{ deck: StudyDeck; added: number }> {
+    const deckId = String((deck as any)._id);
+    const wordIds = await this.collectWordIds(userId, deck.source);
+    const added = await this.studyCardRepository.addWords(
+      userId,
+      deckId,
+      wordIds
+    );
+    const cardCount = await this.studyCardRepository.countByDeck(deckId);
+    const synced = await this.studyDeckRepository.markSynced(deckId, cardCount);
+
+    this.logger.log(
+      `Paquet ${deckId} synchronisé (${added} carte(s) ajoutée(s))`
+    );
+    return { deck: synced || deck, added };
+  }
+
+  /**
+   * Vérifier la source d'un paquet et n'en garder que les champs utiles
+   */
+  private async validateSource(
+    userId: string,
+    source: CreateStudyDeckDto["source"]
+  ): Promise<StudyDeckSource> {
+    switch (source.type) {
+      case "favorites":
+        return { type: "favorites" };
+
+      case "language":
+        if (!(await this.languageRepository.findById(source.languageId))) {
+          throw new BadRequestException("Langue introuvable");
+        }
+        return { type: "language", languageId: source.languageId };
+
+      case "category": {
+        if (!(await this.categoryRepository.findById(source.categoryId))) {
+          throw new BadRequestException("Catégorie introuvable");
+        }
+        return {
+          type: "category",
+          categoryId: source.categoryId,
+          languageId: source.languageId,
+        };
+      }
+
+      case "community": {
+        const community = await this.communityRepository.findById(
+          source.communityId
+        );
+        if (!community) {
+          throw new BadRequestException("Communauté introuvable");
+        }
+        if (
+          community.isPrivate &&
+          !(await this.communityMemberRepository.isMember(
+            source.communityId,
+            userId
+          ))
+        ) {
+          throw new ForbiddenException(
+            "Rejoignez cette communauté pour réviser ses mots"
+          );
+        }
+        return { type: "community", communityId: source.communityId };
+      }
+
+      default:
+        throw new BadRequestException("Source de paquet inconnue");
+    }
+  }
+
+  private async collectWordIds(
+    userId: string,
+    source: StudyDeckSource
+  ): Promise<string[]> {
+    const limit = StudyService.MAX_DECK_SIZE;
+
+    switch (source.type) {
+      case "favorites": {
+        const { favorites } =
+          await this.favoriteWordRepository.getUserFavorites(userId, {
+            page: 1,
+            limit,
+          });
+        return favorites
+          .map((favorite) => favorite.wordDetails?.id)
+          .filter(Boolean);
+      }
+
+      case "community": {
+        const community = await this.communityRepository.findById(
+          String(source.communityId)
+        );
+        if (!community?.language) {
+          return [];
+        }
+        return this.wordRepository.findApprovedIds(
+          { languageId: String(community.language) },
+          limit
+        );
+      }
+
+      default:
+        return this.wordRepository.findApprovedIds(
+          {
+            languageId: source.languageId && String(source.languageId),
+            categoryId: source.categoryId && String(source.categoryId),
+          },
+          limit
+        );
+    }
+  }
+
+  private async getOwnedDeck(
+    userId: string,
+    deckId: string
+  ): Promise<StudyDeck> {
+    const deck = await this.studyDeckRepository.findById(deckId);
+    if (!deck || String(deck.userId) !== userId) {
+      throw new NotFoundException(`Paquet ${deckId} introuvable`);
+    }
+    return deck;
+  }
+
+  private async getOwnedSession(
+    userId: string,
+    sessionId: string
+  ): Promise<StudySession> {
+    const session = await this.studySessionRepository.findById(sessionId);
+    if (!session || String(session.userId) !== userId) {
+      throw new NotFoundException(`Séance ${sessionId} introuvable`);
+    }
+    return session;
+  }
+
+  private static schedulingState(card: StudyCard): SchedulingState {
+    return {
+      state: card.state,
+      due: card.due,
+      interval: card.interval,
+      easeFactor: card.easeFactor,
+      repetitions: card.repetitions,
+      lapses: card.lapses,
+      learningStep: card.learningStep,
+    };
+  }
+
+  private static startOfDay(date: Date): Date {
+    const start = new Date(date);
+    start.setUTCHours(0, 0, 0, 0);
+    return start;
+  }
+
+  private static ratio(part: number, total: number): number | null {
+    return total ? Math.round((part / total) * 1000) / 1000 : null;
+  }
+
+  /**
+   * Jours consécutifs de révision ; la série n'est pas rompue tant que la
+   * journée en cours n'est pas terminée
+   */
+  private static streak(
+    daily: Array<{ date: string; reviews: number }>,
+    now: Date
+  ): number {
+    const active = new Set(
+      daily.filter((day) => day.reviews > 0).map((day) => day.date)
+    );
+    const dayKey = (offset: number) =>
+      new Date(StudyService.startOfDay(now).getTime() - offset * DAY_MS)
+        .toISOString()
+        .slice(0, 10);
+
+    let offset = active.has(dayKey(0)) ? 0 : 1;
+    let streak = 0;
+    while (active.has(dayKey(offset))) {
+      streak++;
+      offset++;
+    }
+    return streak;
+  }
+}
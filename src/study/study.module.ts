@@ -0,0 +1,44 @@
+/**
+ * @fileoverview Module d'apprentissage par répétition espacée pour O'Ypunu
+ *
+ * Ce module transforme les favoris et les mots du dictionnaire en paquets
+ * de cartes révisées selon un planificateur de type SM-2, avec files
+ * quotidiennes, statistiques de rétention et XP de révision.
+ *
+ * @author Équipe O'Ypunu
+ * @version 1.0.0
+ * @since 2025-01-01
+ */
+
+import { Module } from '@nestjs/common';
+import { StudyController } from './controllers/study.controller';
+import { StudyService } from './services/study.service';
+import { RepositoriesModule } from '../repositories/repositories.module';
+import { AchievementsModule } from '../achievements/achievements.module';
+
+/**
+ * Module de révision espacée O'Ypunu
+ *
+ * ## 🧠 Fonctionnalités principales :
+ * - **Paquets** : Générés depuis les favoris, une langue, une catégorie ou une communauté
+ * - **Séances** : Cartes échues puis nouvelles cartes (limite quotidienne)
+ * - **Planification** : Évaluation du rappel (again, hard, good, easy)
+ * - **Statistiques** : Rétention estimée et mesurée, série de jours
+ *
+ * ## 📊 Architecture modulaire :
+ * - **Controller** : StudyController - Endpoints `/study`
+ * - **Service** : StudyService - Séances, planification et statistiques
+ * - **Repositories** : Via RepositoriesModule - IStudyDeck/Card/Session/ReviewRepository
+ *
+ * L'XP de fin de séance passe par le GamificationEngineService
+ * (AchievementsModule).
+ *
+ * @module StudyModule
+ * @version 1.0.0
+ */
+@Module({
+  imports: [RepositoriesModule, AchievementsModule],
+  controllers: [StudyController],
+  providers: [StudyService],
+})
+export class StudyModule {}
@@ -520,6 +520,14 @@ export class SimilarityService {
     return Array.from(keywords);
   }
 
+  /**
+   * Extrait les mots-clés d'un texte libre (ex: description d'un concept),
+   * avec les mêmes règles que pour les définitions des mots
+   */
+  extractKeywordsFromText(text: string): string[] {
+    return Array.from(new Set(this.extractFromText(text)));
+  }
+
   /**
    * Extrait les mots-clés d'un texte
    */
@@ -37,6 +37,70 @@ export enum UserRole {
   SUPERADMIN = "superadmin",
 }
 
+/**
+ * Pré-clé signée d'un appareil (renouvelée périodiquement par le client)
+ */
+@Schema({ _id: false })
+export class SignedPreKey {
+  @Prop({ required: true })
+  keyId: number;
+
+  /** Clé publique encodée en base64 */
+  @Prop({ required: true })
+  publicKey: string;
+
+  /** Signature de la clé publique par la clé d'identité */
+  @Prop({ required: true })
+  signature: string;
+}
+
+export const SignedPreKeySchema = SchemaFactory.createForClass(SignedPreKey);
+
+/**
+ * Pré-clé à usage unique, retirée dès qu'elle est distribuée
+ */
+@Schema({ _id: false })
+export class OneTimePreKey {
+  @Prop({ required: true })
+  keyId: number;
+
+  @Prop({ required: true })
+  publicKey: string;
+}
+
+export const OneTimePreKeySchema = SchemaFactory.createForClass(OneTimePreKey);
+
+/**
+ * Clés publiques d'un appareil pour le chiffrement de bout en bout
+ *
+ * Seules les clés publiques sont conservées ; les clés privées ne
+ * quittent jamais l'appareil.
+ */
+@Schema({ _id: false })
+export class DeviceKey {
+  /** Identifiant choisi par l'appareil, unique pour l'utilisateur */
+  @Prop({ required: true })
+  deviceId: string;
+
+  @Prop({ type: String })
+  name?: string;
+
+  /** Clé d'identité publique encodée en base64 */
+  @Prop({ required: true })
+  identityKey: string;
+
+  @Prop({ type: SignedPreKeySchema, required: true })
+  signedPreKey: SignedPreKey;
+
+  @Prop({ type: [OneTimePreKeySchema], default: [] })
+  oneTimePreKeys: OneTimePreKey[];
+
+  @Prop({ type: Date, default: Date.now })
+  registeredAt: Date;
+}
+
+export const DeviceKeySchema = SchemaFactory.createForClass(DeviceKey);
+
 /**
  * Schéma utilisateur O'Ypunu - Profils complets et authentification sécurisée
  *
@@ -130,6 +194,10 @@ export class User {
   @Prop({ type: Object, default: {} })
   socialProviders: Record<string, string>;
 
+  /** Appareils inscrits au chiffrement de bout en bout (non chargés par défaut) */
+  @Prop({ type: [DeviceKeySchema], default: [], select: false })
+  deviceKeys: DeviceKey[];
+
   @Prop({ type: String, maxlength: 500 })
   bio: string;
 
@@ -184,6 +252,13 @@ export class User {
   @Prop({ type: String })
   suspensionReason?: string;
 
+  /** Administrateur ayant prononcé la suspension */
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: "User" })
+  suspendedBy?: User;
+
+  @Prop({ type: Date })
+  suspendedAt?: Date;
+
   @Prop({ type: String })
   notes?: string;
 